@@ -1,99 +1,183 @@
 #!/usr/bin/env node
 
+// Run diagnostics (checks and repairs) through /api/admin/diagnostics.
+//
+//   npm run debug -- list
+//   npm run debug -- run card-dates --user someone@example.com
+//   npm run debug -- run card-open-dates --user someone@example.com mode=all leadDays=14
+//   npm run debug -- run card-open-dates --user someone@example.com --apply
+//
+// Repairs are a dry run unless --apply is given. Requests are made as the
+// signed-in admin whose next-auth session cookie is in DEBUG_SESSION_TOKEN
+// (copy it from the browser); ADMIN_DEBUG_KEY is passed along when set.
+
 const http = require('http');
 const https = require('https');
+require('dotenv').config({ path: '.env.local' });
 
-const BASE_URL = process.env.NEXTAUTH_URL || 'http://localhost:3000';
+const BASE_URL = process.env.DEBUG_BASE_URL || process.env.NEXTAUTH_URL || 'http://localhost:3000';
+const SESSION_TOKEN = process.env.DEBUG_SESSION_TOKEN;
 
-async function makeRequest(endpoint) {
+function usage() {
+  console.log('Usage:');
+  console.log('  npm run debug -- list');
+  console.log('  npm run debug -- run <name> [--user <id|email>] [--apply] [--json] [param=value ...]');
+  process.exit(1);
+}
+
+function request(method, path, body) {
   return new Promise((resolve, reject) => {
-    const url = new URL(`/api/debug/${endpoint}`, BASE_URL);
-    
-    // Use GET for user-stats, POST for others
-    const method = endpoint === 'user-stats' ? 'GET' : 'POST';
-    
+    const url = new URL(path, BASE_URL);
+    if (process.env.ADMIN_DEBUG_KEY) {
+      url.searchParams.set('key', process.env.ADMIN_DEBUG_KEY);
+    }
+    const secure = url.protocol === 'https:';
+    const cookieName = secure ? '__Secure-next-auth.session-token' : 'next-auth.session-token';
+    const payload = body ? JSON.stringify(body) : null;
+
     const options = {
       hostname: url.hostname,
-      port: url.port || (url.protocol === 'https:' ? 443 : 3000),
-      path: url.pathname,
-      method: method,
+      port: url.port || (secure ? 443 : 80),
+      path: url.pathname + url.search,
+      method,
       headers: {
-        'Content-Type': 'application/json'
+        'Content-Type': 'application/json',
+        Cookie: `${cookieName}=${SESSION_TOKEN}`,
+        ...(payload ? { 'Content-Length': Buffer.byteLength(payload) } : {})
       }
     };
 
-    const requestLib = url.protocol === 'https:' ? https : http;
-    const req = requestLib.request(options, (res) => {
+    const req = (secure ? https : http).request(options, (res) => {
       let data = '';
-      
       res.on('data', (chunk) => {
         data += chunk;
       });
-      
       res.on('end', () => {
         try {
-          const result = JSON.parse(data);
-          resolve({ status: res.statusCode, data: result });
-        } catch (e) {
-          resolve({ status: res.statusCode, data: { error: 'Invalid JSON response', raw: data } });
+          resolve({ status: res.statusCode, data: JSON.parse(data) });
+        } catch {
+          resolve({ status: res.statusCode, data: { error: 'Invalid JSON response', raw: data.slice(0, 500) } });
         }
       });
     });
-    
+
     req.on('error', reject);
+    req.setTimeout(5 * 60 * 1000, () => req.destroy(new Error('Request timed out')));
+    if (payload) req.write(payload);
     req.end();
   });
 }
 
-async function runCommand(command) {
-  console.log(`\n🔧 Running: ${command}`);
-  console.log('=' .repeat(50));
-  
-  try {
-    const result = await makeRequest(command);
-    
-    if (result.status === 200) {
-      console.log('✅ SUCCESS');
-      console.log(JSON.stringify(result.data, null, 2));
+function parseRunArgs(args) {
+  const options = { user: null, apply: false, json: false, params: {} };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--user') {
+      options.user = args[++i];
+      if (!options.user) usage();
+    } else if (arg === '--apply') {
+      options.apply = true;
+    } else if (arg === '--json') {
+      options.json = true;
+    } else if (arg.includes('=')) {
+      const separator = arg.indexOf('=');
+      options.params[arg.slice(0, separator)] = arg.slice(separator + 1);
     } else {
-      console.log(`❌ FAILED (${result.status})`);
-      console.log(JSON.stringify(result.data, null, 2));
+      console.error(`Unexpected argument: ${arg}`);
+      usage();
     }
-  } catch (error) {
-    console.log('❌ ERROR');
-    console.error(error.message);
   }
+  return options;
 }
 
-const command = process.argv[2];
-const availableCommands = [
-  'regenerate-cycles',
-  'capital-one-sync', 
-  'fix-cycles',
-  'data-audit',
-  'data-repair',
-  'user-stats'
-];
-
-if (!command || !availableCommands.includes(command)) {
-  console.log('🔧 Debug Tools CLI');
-  console.log('\nUsage: node scripts/debug-tools.js <command>');
-  console.log('\nAvailable commands:');
-  availableCommands.forEach(cmd => {
-    console.log(`  • ${cmd}`);
+const format = (value) =>
+  value === null || value === undefined ? '-' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+async function listDiagnostics() {
+  const { status, data } = await request('GET', '/api/admin/diagnostics');
+  if (status !== 200) {
+    throw new Error(`${status}: ${data.error || 'Failed to list diagnostics'}`);
+  }
+
+  for (const diagnostic of data.diagnostics) {
+    console.log(`\n${diagnostic.kind === 'repair' ? '🔧' : '🔍'} ${diagnostic.name} (${diagnostic.kind}, ${diagnostic.scope}, needs ${diagnostic.permission})`);
+    console.log(`   ${diagnostic.description}`);
+    for (const [name, spec] of Object.entries(diagnostic.params)) {
+      const type = spec.type === 'enum' ? spec.options.join('|') : spec.type;
+      const fallback = spec.default !== undefined ? ` (default ${spec.default})` : '';
+      console.log(`     ${name}=<${type}>${fallback}  ${spec.description}`);
+    }
+  }
+}
+
+async function runDiagnostic(name, args) {
+  const options = parseRunArgs(args);
+  const target = !options.user ? {} : options.user.includes('@') ? { email: options.user } : { userId: options.user };
+
+  const { status, data } = await request('POST', `/api/admin/diagnostics/${encodeURIComponent(name)}`, {
+    ...target,
+    params: options.params,
+    dryRun: !options.apply
   });
-  console.log('\nExamples:');
-  console.log('  node scripts/debug-tools.js data-audit');
-  console.log('  node scripts/debug-tools.js regenerate-cycles');
-  process.exit(1);
+  if (status !== 200) {
+    throw new Error(`${status}: ${data.error || 'Diagnostic failed'}`);
+  }
+
+  const result = data.result;
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2));
+    return result;
+  }
+
+  const icon = { ok: '✅', warning: '⚠️ ', error: '❌' }[result.status];
+  console.log(`${icon} ${result.name}${result.dryRun ? ' (dry run)' : ''}: ${result.summary} [${result.durationMs} ms]`);
+
+  if (result.findings.length > 0) {
+    console.log('\nFindings:');
+    result.findings.forEach(f => {
+      console.log(`  ${f.severity.toUpperCase().padEnd(8)}${f.code.padEnd(32)}${f.subject ? `${f.subject}: ` : ''}${f.message}`);
+    });
+  }
+  if (result.changes.length > 0) {
+    console.log(`\n${result.dryRun ? 'Would change' : 'Changes'}:`);
+    result.changes.forEach(c => {
+      const state = c.error ? `❌ ${c.error}` : c.applied ? '✅' : '·';
+      console.log(`  ${state} ${c.subject} ${c.field}: ${format(c.from)} → ${format(c.to)}`);
+    });
+    if (result.dryRun) {
+      console.log('\nRe-run with --apply to make these changes.');
+    }
+  }
+  if (result.data) {
+    console.log('\nData:');
+    console.log(JSON.stringify(result.data, null, 2));
+  }
+  return result;
 }
 
-console.log('🔧 Credit Card App Debug Tools');
-console.log(`Target: ${BASE_URL}`);
+async function main() {
+  const [command, name, ...rest] = process.argv.slice(2);
 
-runCommand(command).then(() => {
-  console.log('\n✨ Done');
-}).catch(error => {
-  console.error('\n💥 Unexpected error:', error);
-  process.exit(1);
-});
\ No newline at end of file
+  if (command !== 'list' && command !== 'run') usage();
+  if (!SESSION_TOKEN) {
+    console.error('Set DEBUG_SESSION_TOKEN to the next-auth session cookie of an admin account.');
+    process.exit(1);
+  }
+
+  console.log(`Target: ${BASE_URL}\n`);
+  if (command === 'list') {
+    await listDiagnostics();
+    return null;
+  }
+  if (!name) usage();
+  return runDiagnostic(name, rest);
+}
+
+main()
+  .then((result) => {
+    process.exit(result && result.status === 'error' ? 1 : 0);
+  })
+  .catch((error) => {
+    console.error('❌', error.message);
+    process.exit(1);
+  });
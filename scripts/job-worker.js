@@ -0,0 +1,84 @@
+#!/usr/bin/env node
+
+// Local job worker: keeps calling the job worker cron route so queued syncs run
+// while developing without a scheduler.
+//
+//   CRON_SECRET=... npm run jobs:worker          # poll every 5 seconds
+//   CRON_SECRET=... npm run jobs:worker -- --once
+
+const http = require('http');
+const https = require('https');
+
+const BASE_URL = process.env.NEXTAUTH_URL || 'http://localhost:3000';
+const INTERVAL_MS = parseInt(process.env.JOB_WORKER_INTERVAL_MS || '5000', 10);
+const CRON_SECRET = process.env.CRON_SECRET;
+
+function runWorker() {
+  return new Promise((resolve, reject) => {
+    const url = new URL('/api/cron/jobs', BASE_URL);
+
+    const options = {
+      hostname: url.hostname,
+      port: url.port || (url.protocol === 'https:' ? 443 : 3000),
+      path: url.pathname,
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${CRON_SECRET}`
+      }
+    };
+
+    const requestLib = url.protocol === 'https:' ? https : http;
+    const req = requestLib.request(options, (res) => {
+      let data = '';
+
+      res.on('data', (chunk) => {
+        data += chunk;
+      });
+
+      res.on('end', () => {
+        try {
+          resolve({ status: res.statusCode, data: JSON.parse(data) });
+        } catch {
+          resolve({ status: res.statusCode, data: { error: 'Invalid JSON response', raw: data } });
+        }
+      });
+    });
+
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+async function main() {
+  if (!CRON_SECRET) {
+    console.error('❌ CRON_SECRET is not set');
+    process.exit(1);
+  }
+
+  const once = process.argv.includes('--once');
+  let stopping = false;
+  process.on('SIGINT', () => {
+    console.log('\n👋 Stopping job worker');
+    stopping = true;
+  });
+
+  console.log(`🔧 Job worker polling ${BASE_URL}/api/cron/jobs${once ? ' once' : ` every ${INTERVAL_MS}ms`}`);
+
+  while (!stopping) {
+    try {
+      const result = await runWorker();
+      if (result.status !== 200) {
+        console.log(`❌ FAILED (${result.status})`, JSON.stringify(result.data));
+      } else if (result.data.summary.leased > 0) {
+        console.log(`✅ ${new Date().toISOString()}`, JSON.stringify(result.data.summary));
+      }
+    } catch (error) {
+      console.log(`❌ ERROR: ${error.message}`);
+    }
+
+    if (once) break;
+    await new Promise(resolve => setTimeout(resolve, INTERVAL_MS));
+  }
+}
+
+main();
@@ -0,0 +1,181 @@
+#!/usr/bin/env node
+
+// Assign admin roles (stored in user_roles) from the command line.
+//
+//   npm run admin:role -- list
+//   npm run admin:role -- grant someone@example.com support
+//   npm run admin:role -- revoke someone@example.com
+//
+// Roles: admin (everything), support (read and fix user data),
+// support_readonly (read-only diagnostics). Changes are written to
+// admin_audit_log as the local OS user.
+
+const os = require('os');
+const { createClient } = require('@supabase/supabase-js');
+require('dotenv').config({ path: '.env.local' });
+
+const ROLES = ['admin', 'support', 'support_readonly'];
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('Missing Supabase configuration. Please check your .env.local file.');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+const actor = `cli:${os.userInfo().username}`;
+
+function usage() {
+  console.log('Usage:');
+  console.log('  npm run admin:role -- list');
+  console.log(`  npm run admin:role -- grant <email> <${ROLES.join('|')}>`);
+  console.log('  npm run admin:role -- revoke <email>');
+  process.exit(1);
+}
+
+async function findUser(email) {
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('id, email')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch user: ${error.message}`);
+  }
+  if (!user) {
+    throw new Error(`No user with email ${email} - they need to sign in once first`);
+  }
+  return user;
+}
+
+async function audit(action, user, details) {
+  const { error } = await supabase.from('admin_audit_log').insert({
+    actor_email: actor,
+    action,
+    outcome: 'allowed',
+    target_user_id: user.id,
+    target_email: user.email,
+    details
+  });
+
+  if (error) {
+    console.error('⚠️  Failed to write admin audit log:', error.message);
+  }
+}
+
+async function listRoles() {
+  const { data: roles, error } = await supabase
+    .from('user_roles')
+    .select('user_id, role, granted_by, updated_at')
+    .order('role');
+
+  if (error) {
+    throw new Error(`Failed to fetch roles: ${error.message}`);
+  }
+  if (!roles || roles.length === 0) {
+    console.log('No users have admin roles.');
+    return;
+  }
+
+  const { data: users, error: usersError } = await supabase
+    .from('users')
+    .select('id, email')
+    .in('id', roles.map(r => r.user_id));
+
+  if (usersError) {
+    throw new Error(`Failed to fetch users: ${usersError.message}`);
+  }
+  const emails = new Map((users || []).map(u => [u.id, u.email]));
+
+  console.log('='.repeat(90));
+  console.log('Email'.padEnd(40) + 'Role'.padEnd(20) + 'Granted by'.padEnd(30));
+  console.log('='.repeat(90));
+  roles.forEach(r => {
+    console.log(
+      (emails.get(r.user_id) || r.user_id).padEnd(40) +
+      r.role.padEnd(20) +
+      (r.granted_by || '-').padEnd(30)
+    );
+  });
+}
+
+async function grantRole(email, role) {
+  if (!ROLES.includes(role)) {
+    console.error(`Unknown role "${role}". Expected one of: ${ROLES.join(', ')}`);
+    process.exit(1);
+  }
+
+  const user = await findUser(email);
+  const { data: previous } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  const { error } = await supabase
+    .from('user_roles')
+    .upsert({
+      user_id: user.id,
+      role,
+      granted_by: actor,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id' });
+
+  if (error) {
+    throw new Error(`Failed to grant role: ${error.message}`);
+  }
+
+  await audit('cli:grant-role', user, { role, previousRole: previous ? previous.role : null });
+  console.log(`✅ ${user.email} is now ${role}${previous ? ` (was ${previous.role})` : ''}`);
+}
+
+async function revokeRole(email) {
+  const user = await findUser(email);
+  const { data: removed, error } = await supabase
+    .from('user_roles')
+    .delete()
+    .eq('user_id', user.id)
+    .select('role');
+
+  if (error) {
+    throw new Error(`Failed to revoke role: ${error.message}`);
+  }
+  if (!removed || removed.length === 0) {
+    console.log(`${user.email} has no admin role.`);
+    return;
+  }
+
+  await audit('cli:revoke-role', user, { previousRole: removed[0].role });
+  console.log(`✅ Removed ${removed[0].role} role from ${user.email}`);
+}
+
+async function main() {
+  const [command, email, role] = process.argv.slice(2);
+
+  switch (command) {
+    case 'list':
+      return listRoles();
+    case 'grant':
+      if (!email || !role) usage();
+      return grantRole(email, role);
+    case 'revoke':
+      if (!email) usage();
+      return revokeRole(email);
+    default:
+      usage();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,222 @@
+#!/usr/bin/env node
+
+// Re-encrypt stored Plaid access tokens with the active encryption key.
+// Upgrades legacy CryptoJS ciphertexts and tokens sealed with a rotated-out key
+// in place. Mirrors the envelope format in src/lib/encryption.ts, which
+// src/lib/encryption.test.ts checks by round-tripping between the two.
+//
+//   npm run encryption:reencrypt              # rewrite tokens not on the active key
+//   npm run encryption:reencrypt -- --dry-run # only count what would change
+
+const crypto = require('crypto');
+const CryptoJS = require('crypto-js');
+const { createClient } = require('@supabase/supabase-js');
+require('dotenv').config({ path: '.env.local' });
+
+const VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+const DERIVED_KEY_ID = 'k0';
+const DERIVED_KEY_SALT = 'cardcycle-envelope-v1';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const PAGE_SIZE = 500;
+
+const DRY_RUN = process.argv.includes('--dry-run');
+const LEGACY_PASSPHRASE = process.env.ENCRYPTION_KEY;
+
+function loadKeyring() {
+  const keys = new Map();
+
+  for (const entry of (process.env.ENCRYPTION_KEYS || '').split(',').map(e => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const id = separator > 0 ? entry.slice(0, separator) : '';
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+    if (!KEY_ID_PATTERN.test(id) || id === DERIVED_KEY_ID) {
+      throw new Error(`Each ENCRYPTION_KEYS entry needs an "id:" prefix of letters, digits, _ or - (not ${DERIVED_KEY_ID})`);
+    }
+    if (key.length !== KEY_BYTES) {
+      throw new Error(`ENCRYPTION_KEYS key "${id}" must be ${KEY_BYTES} bytes of base64`);
+    }
+    keys.set(id, key);
+  }
+
+  if (LEGACY_PASSPHRASE) {
+    keys.set(DERIVED_KEY_ID, crypto.scryptSync(LEGACY_PASSPHRASE, DERIVED_KEY_SALT, KEY_BYTES));
+  }
+  return keys;
+}
+
+function ciphertextKeyId(encryptedText) {
+  const parts = encryptedText.split(':');
+  return parts.length === 5 && parts[0] === VERSION ? parts[1] : null;
+}
+
+function encrypt(text, keyring, activeKeyId) {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, keyring.get(activeKeyId), iv);
+  const data = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, activeKeyId, iv.toString('base64'), tag.toString('base64'), data.toString('base64')].join(':');
+}
+
+function decrypt(encryptedText, keyring) {
+  const keyId = ciphertextKeyId(encryptedText);
+
+  if (keyId === null) {
+    if (!LEGACY_PASSPHRASE) {
+      throw new Error('Legacy ciphertext but ENCRYPTION_KEY is not set');
+    }
+    const originalText = CryptoJS.AES.decrypt(encryptedText, LEGACY_PASSPHRASE).toString(CryptoJS.enc.Utf8);
+    if (!originalText) {
+      throw new Error('Failed to decrypt - invalid data or key');
+    }
+    return originalText;
+  }
+
+  const [, , iv, tag, data] = encryptedText.split(':');
+  const decipher = crypto.createDecipheriv(ALGORITHM, keyring.get(keyId), Buffer.from(iv, 'base64'), { authTagLength: TAG_BYTES });
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+}
+
+async function reencryptTokens(supabase, keyring, activeKeyId) {
+  const summary = { scanned: 0, current: 0, rewritten: 0, changedConcurrently: 0, unknownKey: 0, failed: 0 };
+
+  console.log(`🔐 Re-encrypting access tokens with key "${activeKeyId}"${DRY_RUN ? ' (dry run)' : ''}\n`);
+
+  // Page by id so rows rewritten along the way do not shift later pages
+  let lastId = null;
+  for (;;) {
+    let query = supabase
+      .from('plaid_items')
+      .select('id, institutionName, accessToken')
+      .neq('accessToken', '')
+      .order('id')
+      .limit(PAGE_SIZE);
+    if (lastId) {
+      query = query.gt('id', lastId);
+    }
+
+    const { data: items, error } = await query;
+    if (error) {
+      throw new Error(`Failed to fetch access tokens: ${error.message}`);
+    }
+    if (!items || items.length === 0) break;
+
+    for (const item of items) {
+      summary.scanned++;
+      const keyId = ciphertextKeyId(item.accessToken);
+
+      if (keyId === activeKeyId) {
+        summary.current++;
+        continue;
+      }
+      if (keyId !== null && !keyring.has(keyId)) {
+        console.error(`❌ ${item.institutionName} (${item.id}): sealed with unknown key "${keyId}"`);
+        summary.unknownKey++;
+        continue;
+      }
+
+      let reencrypted;
+      try {
+        reencrypted = encrypt(decrypt(item.accessToken, keyring), keyring, activeKeyId);
+      } catch (decryptError) {
+        console.error(`❌ ${item.institutionName} (${item.id}): ${decryptError.message}`);
+        summary.failed++;
+        continue;
+      }
+
+      if (DRY_RUN) {
+        console.log(`   would rewrite ${item.institutionName} (${item.id}) from ${keyId || 'legacy'}`);
+        summary.rewritten++;
+        continue;
+      }
+
+      // Only replace the exact ciphertext we read, so a token refreshed by a
+      // concurrent reconnect is never overwritten with the stale one
+      const { data: updated, error: updateError } = await supabase
+        .from('plaid_items')
+        .update({ accessToken: reencrypted, updatedAt: new Date().toISOString() })
+        .eq('id', item.id)
+        .eq('accessToken', item.accessToken)
+        .select('id');
+
+      if (updateError) {
+        console.error(`❌ ${item.institutionName} (${item.id}): ${updateError.message}`);
+        summary.failed++;
+      } else if (!updated || updated.length === 0) {
+        summary.changedConcurrently++;
+      } else {
+        console.log(`✅ ${item.institutionName} (${item.id}) from ${keyId || 'legacy'}`);
+        summary.rewritten++;
+      }
+    }
+
+    lastId = items[items.length - 1].id;
+    if (items.length < PAGE_SIZE) break;
+  }
+
+  console.log('\n📊 Summary');
+  console.log(`   Tokens scanned:            ${summary.scanned}`);
+  console.log(`   Already on active key:     ${summary.current}`);
+  console.log(`   ${(DRY_RUN ? 'Would rewrite:' : 'Rewritten:').padEnd(27)}${summary.rewritten}`);
+  console.log(`   Changed during run:        ${summary.changedConcurrently}`);
+  console.log(`   Sealed with unknown key:   ${summary.unknownKey}`);
+  console.log(`   Failed:                    ${summary.failed}`);
+
+  return summary;
+}
+
+function main() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error('Missing Supabase configuration. Please check your .env.local file.');
+    process.exit(1);
+  }
+
+  let keyring;
+  try {
+    keyring = loadKeyring();
+  } catch (error) {
+    console.error(error.message);
+    process.exit(1);
+  }
+
+  if (keyring.size === 0) {
+    console.error('ENCRYPTION_KEYS or ENCRYPTION_KEY environment variable is required');
+    process.exit(1);
+  }
+
+  const activeKeyId = process.env.ENCRYPTION_ACTIVE_KEY_ID || keyring.keys().next().value;
+
+  if (!keyring.has(activeKeyId)) {
+    console.error(`ENCRYPTION_ACTIVE_KEY_ID "${activeKeyId}" is not in ENCRYPTION_KEYS`);
+    process.exit(1);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  });
+
+  reencryptTokens(supabase, keyring, activeKeyId)
+    .then((summary) => {
+      process.exit(summary.failed > 0 || summary.unknownKey > 0 ? 1 : 0);
+    })
+    .catch((error) => {
+      console.error('Re-encryption failed:', error.message);
+      process.exit(1);
+    });
+}
+
+if (require.main === module) {
+  main();
+}
+
+module.exports = { loadKeyring, ciphertextKeyId, encrypt, decrypt };
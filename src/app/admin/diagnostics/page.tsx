@@ -0,0 +1,27 @@
+import { getCurrentUserAdminRole } from '@/lib/adminSecurity';
+import { DiagnosticsConsole } from '@/components/DiagnosticsConsole';
+import { roleHasPermission } from '@/utils/adminRoles';
+
+export const dynamic = 'force-dynamic';
+
+export default async function AdminDiagnostics() {
+  const role = await getCurrentUserAdminRole();
+  const allowed = roleHasPermission(role, 'read');
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Diagnostics</h1>
+          <p className="text-gray-600 mt-2">
+            {allowed
+              ? 'Run checks against a user or the whole database, and preview repairs before applying them'
+              : 'This page is restricted to administrators'}
+          </p>
+        </div>
+
+        {allowed && <DiagnosticsConsole canWrite={roleHasPermission(role, 'write')} />}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { getCurrentUserAdminRole } from '@/lib/adminSecurity';
+import { AdminSupportConsole } from '@/components/AdminSupportConsole';
+import { roleHasPermission } from '@/utils/adminRoles';
+
+export const dynamic = 'force-dynamic';
+
+export default async function AdminUsers() {
+  const role = await getCurrentUserAdminRole();
+  const allowed = roleHasPermission(role, 'read');
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Support Console</h1>
+          <p className="text-gray-600 mt-2">
+            {allowed
+              ? "Look up a user's connections, cards and sync history, and resync, rebuild cycles or ask them to reconnect"
+              : 'This page is restricted to administrators'}
+          </p>
+        </div>
+
+        {allowed && <AdminSupportConsole canWrite={roleHasPermission(role, 'write')} />}
+      </div>
+    </div>
+  );
+}
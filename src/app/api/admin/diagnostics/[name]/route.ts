@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { requireAdminAccess } from '@/lib/adminSecurity';
+import { getDiagnostic, resolveDiagnosticUser, runDiagnostic } from '@/services/diagnostics';
+import { parseDiagnosticParams } from '@/utils/diagnostics';
+
+/**
+ * Run a diagnostic.
+ * Body: { userId?, email?, params?, dryRun? }. User-scoped diagnostics run
+ * against the named user, or the caller when none is given. Repairs are a dry
+ * run unless dryRun is false, and only then need write permission.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  const body = await request.json().catch(() => ({}));
+  const diagnostic = getDiagnostic(params.name);
+  const dryRun = body?.dryRun !== false;
+  const target = {
+    userId: typeof body?.userId === 'string' ? body.userId : null,
+    email: typeof body?.email === 'string' ? body.email : null,
+  };
+  const rawParams: Record<string, unknown> = body?.params && typeof body.params === 'object' ? body.params : {};
+
+  const securityError = await requireAdminAccess(request, {
+    endpointName: `diagnostic:${params.name}`,
+    permission: diagnostic?.kind === 'repair' && dryRun ? 'read' : diagnostic?.permission || 'read',
+    target,
+    auditDetails: { params: rawParams, dryRun },
+  });
+  if (securityError) return securityError;
+
+  if (!diagnostic) {
+    return NextResponse.json({ error: `Unknown diagnostic: ${params.name}` }, { status: 404 });
+  }
+
+  try {
+    const parsed = parseDiagnosticParams(diagnostic.params, rawParams);
+    if (parsed.error !== null) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    let userId: string | null = null;
+    if (diagnostic.scope === 'user') {
+      if (target.userId || target.email) {
+        const user = await resolveDiagnosticUser(target);
+        if (!user) {
+          return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+        userId = user.id;
+      } else {
+        const session = await getServerSession(authOptions);
+        userId = session?.user?.id || null;
+      }
+    }
+
+    const result = await runDiagnostic(diagnostic, { userId, params: parsed.params, dryRun });
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error('Run diagnostic error:', error);
+    return NextResponse.json({ error: 'Failed to run diagnostic' }, { status: 500 });
+  }
+}
@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminAccess } from '@/lib/adminSecurity';
+import { listDiagnostics } from '@/services/diagnostics';
+
+/** The registered checks and repairs with their parameters. */
+export async function GET(request: NextRequest) {
+  const securityError = await requireAdminAccess(request, { endpointName: 'admin-diagnostics-list', permission: 'read' });
+  if (securityError) return securityError;
+
+  return NextResponse.json({ diagnostics: listDiagnostics() });
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminAccess } from '@/lib/adminSecurity';
+import { runSupportAction } from '@/services/adminSupport';
+import { resolveDiagnosticUser } from '@/services/diagnostics';
+import { parseSupportAction } from '@/utils/adminSupport';
+
+/**
+ * Run a support action for a user.
+ * Body: { action: 'resync-item' | 'regenerate-cycles' | 'send-reconnect-email', plaidItemId?, cardId? }.
+ * resync-item and send-reconnect-email need the plaid_items id; regenerate-cycles
+ * rebuilds every card unless cardId is given.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const body = await request.json().catch(() => ({}));
+  const parsed = parseSupportAction(body);
+
+  const securityError = await requireAdminAccess(request, {
+    endpointName: `admin-user-action:${parsed.request?.action || 'invalid'}`,
+    permission: 'write',
+    target: { userId: params.id },
+    auditDetails: parsed.request ? { ...parsed.request } : { body },
+  });
+  if (securityError) return securityError;
+
+  if (parsed.error !== null) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const user = await resolveDiagnosticUser({ userId: params.id });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const result = await runSupportAction(user, parsed.request);
+    if (!result) {
+      return NextResponse.json({ error: 'Connection or card not found for this user' }, { status: 404 });
+    }
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error('Admin user action error:', error);
+    return NextResponse.json({ error: 'Failed to run support action' }, { status: 500 });
+  }
+}
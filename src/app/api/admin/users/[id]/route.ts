@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminAccess } from '@/lib/adminSecurity';
+import { getSupportUserView } from '@/services/adminSupport';
+
+/** A user's connections, cards, cycles, sync telemetry, webhooks and jobs. */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const securityError = await requireAdminAccess(request, {
+    endpointName: 'admin-user-view',
+    permission: 'read',
+    target: { userId: params.id },
+  });
+  if (securityError) return securityError;
+
+  try {
+    const view = await getSupportUserView(params.id);
+    if (!view) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    return NextResponse.json(view);
+  } catch (error) {
+    console.error('Admin user view error:', error);
+    return NextResponse.json({ error: 'Failed to fetch user' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminAccess } from '@/lib/adminSecurity';
+import { processWebhookEvent } from '@/services/webhookEvents';
+
+/**
+ * Run a journaled event again, whatever its status. Rejected (unverified)
+ * events are never replayed, and an event currently being processed is left
+ * alone; both come back with skipped: true.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const securityError = await requireAdminAccess(request, { endpointName: 'admin-webhook-event-replay', permission: 'write', requireDebugKey: true });
+  if (securityError) return securityError;
+
+  try {
+    const result = await processWebhookEvent(params.id, { replay: true });
+    if (!result) {
+      return NextResponse.json({ error: 'Webhook event not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: !result.skipped && result.status === 'processed', result });
+  } catch (error) {
+    console.error('Replay webhook event error:', error);
+    return NextResponse.json({ error: 'Failed to replay webhook event' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminAccess } from '@/lib/adminSecurity';
+import { getWebhookEvent } from '@/services/webhookEvents';
+
+// A single journaled event including its raw body
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const securityError = await requireAdminAccess(request, { endpointName: 'admin-webhook-event', permission: 'read', requireDebugKey: true });
+  if (securityError) return securityError;
+
+  try {
+    const event = await getWebhookEvent(params.id);
+    if (!event) {
+      return NextResponse.json({ error: 'Webhook event not found' }, { status: 404 });
+    }
+    return NextResponse.json({ event });
+  } catch (error) {
+    console.error('GET webhook event error:', error);
+    return NextResponse.json({ error: 'Failed to fetch webhook event' }, { status: 500 });
+  }
+}
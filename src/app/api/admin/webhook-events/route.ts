@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminAccess } from '@/lib/adminSecurity';
+import { listWebhookEvents } from '@/services/webhookEvents';
+import { WEBHOOK_EVENT_STATUSES, type WebhookEventStatus } from '@/utils/webhookEvents';
+
+/**
+ * List journaled webhook events, newest first.
+ * Query: status, itemId, type (webhook_type), before (ISO timestamp, for paging), limit.
+ */
+export async function GET(request: NextRequest) {
+  const securityError = await requireAdminAccess(request, { endpointName: 'admin-webhook-events', permission: 'read', requireDebugKey: true });
+  if (securityError) return securityError;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    if (status && !WEBHOOK_EVENT_STATUSES.includes(status as WebhookEventStatus)) {
+      return NextResponse.json({ error: `status must be one of: ${WEBHOOK_EVENT_STATUSES.join(', ')}` }, { status: 400 });
+    }
+    const before = searchParams.get('before');
+    if (before && isNaN(new Date(before).getTime())) {
+      return NextResponse.json({ error: 'before must be an ISO timestamp' }, { status: 400 });
+    }
+
+    const events = await listWebhookEvents({
+      status: (status as WebhookEventStatus) || undefined,
+      itemId: searchParams.get('itemId') || undefined,
+      webhookType: searchParams.get('type') || undefined,
+      before: before || undefined,
+      limit: Number(searchParams.get('limit')) || undefined,
+    });
+
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error('GET webhook events error:', error);
+    return NextResponse.json({ error: 'Failed to fetch webhook events' }, { status: 500 });
+  }
+}
@@ -12,6 +12,7 @@ export async function POST(request: NextRequest) {
     // Security check - admin only
     const securityError = await requireAdminAccess(request, {
       endpointName: 'auth/debug-verification',
+      permission: 'system',
       logAccess: true
     });
     if (securityError) return securityError;
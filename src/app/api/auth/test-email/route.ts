@@ -6,6 +6,7 @@ export async function GET(request: NextRequest) {
   // Security check - admin only
   const securityError = await requireAdminAccess(request, {
     endpointName: 'auth-test-email',
+    permission: 'system',
     logAccess: true
   });
   if (securityError) return securityError;
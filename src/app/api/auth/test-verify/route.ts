@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { requireAdminAccess } from '@/lib/adminSecurity';
+import { verificationCodeMatches } from '@/services/verificationCodes';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -8,18 +10,26 @@ const supabase = createClient(
 
 export async function POST(request: NextRequest) {
   try {
+    // Security check - admin only; this checks codes without counting attempts
+    const securityError = await requireAdminAccess(request, {
+      endpointName: 'auth/test-verify',
+      permission: 'system',
+      logAccess: true
+    });
+    if (securityError) return securityError;
+
     const { email, code } = await request.json();
     
     if (!email || !code) {
       return NextResponse.json({ error: 'Email and code required' }, { status: 400 });
     }
     
-    console.log('🧪 Test: Verifying code for:', email, 'Code:', code);
+    console.log('🧪 Test: Verifying code for:', email);
     
     // Get verification code from verification_tokens table
     const { data: tokenData, error: tokenError } = await supabase
       .from('verification_tokens')
-      .select('token, expires, identifier')
+      .select('token, expires, identifier, attempts')
       .eq('identifier', email)
       .order('expires', { ascending: false });
       
@@ -39,12 +49,11 @@ export async function POST(request: NextRequest) {
     console.log('🧪 Test: Latest token:', latestToken);
     
     const isExpired = new Date() > new Date(latestToken.expires);
-    const codeMatches = latestToken.token === code;
+    const codeMatches = verificationCodeMatches(latestToken.token, email, code);
     
     console.log('🧪 Test: Verification check:', {
-      storedCode: latestToken.token,
-      submittedCode: code,
       codeMatches,
+      attempts: latestToken.attempts,
       expires: latestToken.expires,
       currentTime: new Date().toISOString(),
       isExpired
@@ -54,7 +63,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ 
         success: false, 
         error: 'Code does not match',
-        debug: { storedCode: latestToken.token, submittedCode: code }
+        debug: { attempts: latestToken.attempts }
       });
     }
     
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getToken } from 'next-auth/jwt';
+import { clientIp } from '@/lib/rateLimit';
+import { redeemVerificationCode } from '@/services/verificationCodes';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -18,38 +20,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get verification code from database
-    const { data: verification, error: verifyError } = await supabase
-      .from('verification_tokens')
-      .select('token, expires')
-      .eq('identifier', email)
-      .single();
-
-    if (verifyError || !verification) {
-      return NextResponse.json(
-        { error: 'Invalid or expired verification code' },
-        { status: 400 }
-      );
-    }
-
-    // Check if code matches
-    if (verification.token !== code) {
+    const verification = await redeemVerificationCode(email, code, clientIp(request.headers));
+    if (verification.status === 'locked' || verification.status === 'rate_limited') {
       return NextResponse.json(
-        { error: 'Invalid verification code' },
-        { status: 400 }
+        { error: verification.error },
+        { status: 429, headers: { 'Retry-After': Math.ceil(verification.retryAfterMs / 1000).toString() } }
       );
     }
-
-    // Check if code is expired
-    if (new Date() > new Date(verification.expires)) {
-      // Clean up expired token
-      await supabase
-        .from('verification_tokens')
-        .delete()
-        .eq('identifier', email);
-
+    if (verification.status !== 'valid') {
       return NextResponse.json(
-        { error: 'Verification code has expired' },
+        { error: verification.error },
         { status: 400 }
       );
     }
@@ -90,12 +70,6 @@ export async function POST(request: NextRequest) {
         .eq('id', userId);
     }
 
-    // Clean up used verification token
-    await supabase
-      .from('verification_tokens')
-      .delete()
-      .eq('identifier', email);
-
     // Return success with user data for frontend to handle session
     return NextResponse.json({ 
       success: true, 
@@ -9,6 +9,7 @@ export async function POST(request: NextRequest) {
   // Security check - admin only
   const securityError = await requireAdminAccess(request, {
     endpointName: 'billing-cycles-regenerate',
+    permission: 'write',
     logAccess: true
   });
   if (securityError) return securityError;
@@ -8,6 +8,7 @@ export async function GET(request: NextRequest) {
   // Security check - admin only
   const securityError = await requireAdminAccess(request, {
     endpointName: 'billing-cycles-status',
+    permission: 'read',
     logAccess: true
   });
   if (securityError) return securityError;
@@ -21,7 +21,7 @@ export async function DELETE(
     // Fetch the card and verify ownership via join to plaid_items
     const { data: card, error: cardError } = await supabaseAdmin
       .from('credit_cards')
-      .select('id, plaidItemId, plaid_items!inner(id, itemId, accessToken, institutionName, userId)')
+      .select('id, plaidItemId, plaid_items!inner(id, itemId, accessToken, institutionName, userId, is_manual)')
       .eq('id', cardId)
       .eq('plaid_items.userId', session.user.id)
       .single();
@@ -38,7 +38,7 @@ export async function DELETE(
         .eq('plaidItemId', card.plaidItemId)
         .neq('id', cardId);
 
-      if (!otherCards || otherCards.length === 0) {
+      if ((!otherCards || otherCards.length === 0) && !(card as any).plaid_items.is_manual) {
         // Last card — try to remove item from Plaid backend to revoke access
         const decryptedAccessToken = decrypt((card as any).plaid_items.accessToken);
         const timeout = new Promise((_, reject) => setTimeout(() => reject(new Error('Plaid removeItem timeout')), 5000));
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronSecret } from '@/lib/cronSecurity';
+import { sendAnnualFeeReminders } from '@/services/annualFees';
+
+// Invoked daily by the scheduler with `Authorization: Bearer <CRON_SECRET>`
+export async function GET(request: NextRequest) {
+  const authError = requireCronSecret(request, 'annual fee reminders cron');
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    console.log('⏰ Annual fee reminder run started at:', new Date().toISOString());
+    const summary = await sendAnnualFeeReminders();
+    console.log('⏰ Annual fee reminder run complete:', summary);
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error) {
+    console.error('Annual fee reminder run failed:', error);
+    return NextResponse.json({ error: 'Failed to send annual fee reminders' }, { status: 500 });
+  }
+}
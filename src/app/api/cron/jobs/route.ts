@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronSecret } from '@/lib/cronSecurity';
+import { runJobWorker } from '@/services/jobWorker';
+
+// Invoked every minute by the scheduler (and by `npm run jobs:worker` locally)
+// with `Authorization: Bearer <CRON_SECRET>`
+export async function GET(request: NextRequest) {
+  const authError = requireCronSecret(request, 'job worker cron');
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    console.log('⏰ Job worker run started at:', new Date().toISOString());
+    const summary = await runJobWorker();
+    console.log('⏰ Job worker run complete:', summary);
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error) {
+    console.error('Job worker run failed:', error);
+    return NextResponse.json({ error: 'Failed to run jobs' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronSecret } from '@/lib/cronSecurity';
+import { sendDuePaymentReminders } from '@/services/paymentReminders';
+
+// Invoked daily by the scheduler with `Authorization: Bearer <CRON_SECRET>`
+export async function GET(request: NextRequest) {
+  const authError = requireCronSecret(request, 'payment reminders cron');
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    console.log('⏰ Payment reminder run started at:', new Date().toISOString());
+    const summary = await sendDuePaymentReminders();
+    console.log('⏰ Payment reminder run complete:', summary);
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error) {
+    console.error('Payment reminder run failed:', error);
+    return NextResponse.json({ error: 'Failed to send payment reminders' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronSecret } from '@/lib/cronSecurity';
+import { scheduleItemSyncs } from '@/services/scheduledSync';
+import { kickJobWorker } from '@/services/jobWorker';
+
+// Invoked hourly by the scheduler with `Authorization: Bearer <CRON_SECRET>`.
+// Queues syncs for items past the cadence; /api/cron/jobs runs them.
+export async function GET(request: NextRequest) {
+  const authError = requireCronSecret(request, 'scheduled sync cron');
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    console.log('⏰ Scheduled sync run started at:', new Date().toISOString());
+    const summary = await scheduleItemSyncs();
+    console.log('⏰ Scheduled sync run complete:', summary);
+
+    if (summary.jobsQueued > 0) {
+      kickJobWorker(['item_sync']);
+    }
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error) {
+    console.error('Scheduled sync run failed:', error);
+    return NextResponse.json({ error: 'Failed to schedule syncs' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronSecret } from '@/lib/cronSecurity';
+import { purgeRejectedWebhookEvents, retryWebhookEvents } from '@/services/webhookEvents';
+
+// Invoked every few minutes by the scheduler with `Authorization: Bearer <CRON_SECRET>`
+export async function GET(request: NextRequest) {
+  const authError = requireCronSecret(request, 'webhook retries cron');
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    console.log('⏰ Webhook retry run started at:', new Date().toISOString());
+    const summary = await retryWebhookEvents();
+    const purgedRejected = await purgeRejectedWebhookEvents();
+    console.log('⏰ Webhook retry run complete:', { ...summary, purgedRejected });
+
+    return NextResponse.json({ success: true, summary, purgedRejected });
+  } catch (error) {
+    console.error('Webhook retry run failed:', error);
+    return NextResponse.json({ error: 'Failed to retry webhook events' }, { status: 500 });
+  }
+}
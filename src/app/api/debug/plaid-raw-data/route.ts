@@ -1,169 +0,0 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
-import { plaidClient } from '@/lib/plaid';
-import { supabaseAdmin } from '@/lib/supabase';
-
-import { requireAdminAccess } from '@/lib/adminSecurity';
-export async function POST(request: NextRequest) {
-  // Security check - admin only
-  const securityError = await requireAdminAccess(request, {
-    endpointName: 'debug-plaid-raw-data',
-    logAccess: true
-  });
-  if (securityError) return securityError;
-
-  try {
-    console.log('🔍 PLAID RAW DATA INSPECTION ENDPOINT CALLED');
-    
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Get all Plaid items for the user
-    const { data: plaidItems, error: plaidError } = await supabaseAdmin
-      .from('plaid_items')
-      .select('*')
-      .eq('userId', session.user.id);
-
-    if (plaidError) {
-      throw new Error(`Failed to fetch plaid items: ${plaidError.message}`);
-    }
-
-    // Get all credit cards for these plaid items
-    const plaidItemIds = (plaidItems || []).map(item => item.id);
-    const { data: creditCards, error: cardsError } = await supabaseAdmin
-      .from('credit_cards')
-      .select('*')
-      .in('plaidItemId', plaidItemIds);
-
-    if (cardsError) {
-      throw new Error(`Failed to fetch credit cards: ${cardsError.message}`);
-    }
-
-    console.log(`Found ${plaidItems.length} Plaid items`);
-
-    const results = [];
-
-    for (const item of plaidItems) {
-      console.log(`\n=== INSPECTING PLAID ITEM: ${item.institutionName} ===`);
-      
-      try {
-        // Fetch fresh data from Plaid
-        const [accountsResponse, liabilitiesResponse] = await Promise.all([
-          plaidClient.accountsGet({ access_token: item.accessToken }),
-          plaidClient.liabilitiesGet({ access_token: item.accessToken })
-        ]);
-
-        const accounts = accountsResponse.data.accounts;
-        const liabilities = liabilitiesResponse.data.liabilities;
-
-        console.log(`Accounts found: ${accounts.length}`);
-        console.log(`Liabilities found: ${liabilities?.credit?.length || 0}`);
-
-        for (const account of accounts) {
-          if (account.type === 'credit') {
-            // Find matching liability data
-            const liability = liabilities?.credit?.find(l => l.account_id === account.account_id);
-            
-            const accountData = {
-              institutionName: item.institutionName,
-              accountName: account.name,
-              accountId: account.account_id,
-              accountType: account.type,
-              accountSubtype: account.subtype,
-              mask: account.mask,
-              rawPlaidData: {
-                // Account level data
-                account: {
-                  name: account.name,
-                  official_name: account.official_name,
-                  type: account.type,
-                  subtype: account.subtype,
-                  mask: account.mask,
-                  balances: account.balances
-                },
-                // Liability level data
-                liability: liability ? {
-                  account_id: liability.account_id,
-                  origination_date: liability.origination_date,
-                  origination_date_raw: liability.origination_date, // Show exact value
-                  last_statement_issue_date: liability.last_statement_issue_date,
-                  last_statement_balance: liability.last_statement_balance,
-                  minimum_payment_amount: liability.minimum_payment_amount,
-                  next_payment_due_date: liability.next_payment_due_date,
-                  annual_fee: liability.annual_fee,
-                  annual_fee_due_date: liability.annual_fee_due_date,
-                  balances: liability.balances
-                } : null
-              },
-              parsedDates: {
-                originationDate: liability?.origination_date ? {
-                  raw: liability.origination_date,
-                  parsed: new Date(liability.origination_date).toISOString(),
-                  dateString: new Date(liability.origination_date).toDateString(),
-                  year: new Date(liability.origination_date).getFullYear(),
-                  isInFuture: new Date(liability.origination_date) > new Date()
-                } : null,
-                lastStatementDate: liability?.last_statement_issue_date ? {
-                  raw: liability.last_statement_issue_date,
-                  parsed: new Date(liability.last_statement_issue_date).toISOString(),
-                  dateString: new Date(liability.last_statement_issue_date).toDateString(),
-                  year: new Date(liability.last_statement_issue_date).getFullYear(),
-                  isInFuture: new Date(liability.last_statement_issue_date) > new Date()
-                } : null,
-                nextDueDate: liability?.next_payment_due_date ? {
-                  raw: liability.next_payment_due_date,
-                  parsed: new Date(liability.next_payment_due_date).toISOString(),
-                  dateString: new Date(liability.next_payment_due_date).toDateString(),
-                  year: new Date(liability.next_payment_due_date).getFullYear(),
-                  isInFuture: new Date(liability.next_payment_due_date) > new Date()
-                } : null
-              },
-              databaseComparison: {
-                // Compare with what we have in database
-                dbCard: (creditCards || []).find(card => card.accountId === account.account_id && card.plaidItemId === item.id)
-              }
-            };
-
-            console.log(`Credit card found: ${account.name}`);
-            console.log(`Origination date from Plaid: ${liability?.origination_date}`);
-            console.log(`Parsed origination date: ${liability?.origination_date ? new Date(liability.origination_date).toDateString() : 'None'}`);
-            
-            results.push(accountData);
-          }
-        }
-        
-      } catch (error) {
-        console.error(`Error fetching data for ${item.institutionName}:`, error);
-        results.push({
-          institutionName: item.institutionName,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        });
-      }
-    }
-
-    console.log('\n🔍 PLAID RAW DATA INSPECTION COMPLETED');
-    
-    return NextResponse.json({ 
-      message: 'Plaid raw data inspection completed',
-      timestamp: new Date().toISOString(),
-      results,
-      summary: {
-        totalItems: plaidItems.length,
-        totalCreditCards: results.filter(r => !r.error).length,
-        cardsWithFutureDates: results.filter(r => 
-          !r.error && r.parsedDates?.originationDate?.isInFuture
-        ).length
-      }
-    });
-  } catch (error) {
-    console.error('🔍 PLAID RAW DATA INSPECTION ERROR:', error);
-    return NextResponse.json({ 
-      error: 'Failed to inspect Plaid raw data',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    }, { status: 500 });
-  }
-}
\ No newline at end of file
@@ -35,6 +35,10 @@ export async function POST(request: NextRequest) {
       throw new Error('Plaid item not found');
     }
 
+    if (plaidItem.is_manual) {
+      return NextResponse.json({ error: 'Manual cards are not synced with Plaid' }, { status: 400 });
+    }
+
     const accessToken = decrypt(plaidItem.accessToken);
 
     // Check if we've synced this item recently (within 12 hours) to avoid unnecessary API calls
@@ -54,33 +58,12 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Phase 1: Sync HISTORICAL transactions (avoiding recent duplicates)
-    console.log('🔄 Phase 1: Syncing historical transaction data...');
-    
-    // Check if recent transactions already exist to avoid duplicate syncing
-    const { data: recentTransactions } = await supabaseAdmin
-      .from('transactions')
-      .select('date')
-      .in('creditCardId', (await supabaseAdmin
-        .from('credit_cards')
-        .select('id')
-        .eq('plaidItemId', plaidItem.id)).data?.map(c => c.id) || [])
-      .order('date', { ascending: false })
-      .limit(1);
-      
-    const hasRecentData = recentTransactions && recentTransactions.length > 0;
-    const latestTransactionDate = hasRecentData ? new Date(recentTransactions[0].date) : null;
-    
-    if (hasRecentData) {
-      console.log(`📊 Found recent transactions up to ${latestTransactionDate?.toISOString().split('T')[0]}`);
-      console.log('⚡ Syncing only historical data older than recent transactions to avoid duplicates');
-      
-      // Sync only historical data (older than what instant-setup already fetched)
-      await plaidService.syncHistoricalTransactions(plaidItem, accessToken, latestTransactionDate);
-    } else {
-      console.log('📊 No recent transactions found, syncing full historical data');
-      await plaidService.syncTransactions(plaidItem, accessToken);
-    }
+    // Phase 1: Sync transaction history via the item's cursor
+    // The first cursor sync returns full history; later ones only bring changes,
+    // so data already fetched by instant-setup is never re-pulled
+    console.log('🔄 Phase 1: Syncing transaction history...');
+    const syncResult = await plaidService.syncTransactions(plaidItem, accessToken);
+    console.log(`📊 Cursor sync: ${syncResult.added} added, ${syncResult.modified} modified, ${syncResult.removed} removed`);
     
     console.log('✅ Historical transaction sync completed');
 
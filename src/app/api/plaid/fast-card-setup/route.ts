@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth';
 import { supabaseAdmin } from '@/lib/supabase';
 import { plaidService } from '@/services/plaid';
 import { decrypt } from '@/lib/encryption';
+import { enqueueJob } from '@/services/jobQueue';
 
 export async function POST(request: NextRequest) {
   try {
@@ -76,29 +77,21 @@ export async function POST(request: NextRequest) {
     // Phase 2: Schedule background sync for full historical data
     console.log('⚡ Scheduling background sync for full transaction history...');
     
-    // Trigger full sync in background after delay (non-blocking)
-    setTimeout(async () => {
-      try {
-        console.log('🔄 Background: Starting full sync for historical data...');
-        
-        // Call the regular sync endpoint for full historical processing
-        await fetch('/api/sync', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ itemId })
-        });
-        
-        console.log('✅ Background full sync completed');
-      } catch (error) {
-        console.error('❌ Background sync error:', error);
-      }
-    }, 10000); // Start full sync 10 seconds after fast setup completes
+    // Queue the full sync to start 10 seconds after fast setup completes
+    const { job } = await enqueueJob({
+      type: 'item_sync',
+      userId: session.user.id,
+      payload: { plaidItemId: plaidItem.id },
+      runAt: new Date(Date.now() + 10000),
+    });
+    console.log(`✅ Background full sync queued as job ${job.id}`);
 
     return NextResponse.json({
       success: true,
       message: 'Fast card setup completed',
       phase: 'essential_data_ready',
       backgroundSyncScheduled: true,
+      syncJobId: job.id,
       creditCardsFound: creditCards?.length || 0
     });
 
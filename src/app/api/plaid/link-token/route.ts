@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { plaidService } from '@/services/plaid';
+import { ISSUER_PROFILES, resolveIssuerProfile } from '@/utils/issuerProfiles';
 
 export async function POST(request: NextRequest) {
   try {
@@ -27,8 +28,9 @@ export async function POST(request: NextRequest) {
       
       if (institutionId) {
         console.log(`📍 Creating link token for specific institution: ${institutionId}`);
-        if (institutionId === 'ins_54') {
-          console.log('🎯 Robinhood institution detected - will use investment platform logic');
+        const profile = resolveIssuerProfile({ institutionId });
+        if (!profile.products.includes('liabilities')) {
+          console.log(`🎯 ${profile.name} institution detected - will use investment platform logic`);
         }
       }
       
@@ -37,8 +39,11 @@ export async function POST(request: NextRequest) {
         if (institutionType === 'investment') {
           // For investment type, we'll pass the first investment institution ID
           // This will trigger the investment platform filtering
-          institutionId = 'ins_54'; // Default to Robinhood for investment platform flow
-          console.log('🎯 Investment platform type selected - using Robinhood as default institution for filtering');
+          const investmentProfile = ISSUER_PROFILES.find(p => !p.products.includes('liabilities') && p.institutionIds.length > 0);
+          if (investmentProfile) {
+            institutionId = investmentProfile.institutionIds[0];
+            console.log(`🎯 Investment platform type selected - using ${investmentProfile.name} as default institution for filtering`);
+          }
         }
       }
     } catch {
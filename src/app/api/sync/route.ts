@@ -2,48 +2,34 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { supabaseAdmin } from '@/lib/supabase';
-import { plaidService } from '@/services/plaid';
-import { decrypt } from '@/lib/encryption';
+import { enqueueJob } from '@/services/jobQueue';
+import { kickJobWorker } from '@/services/jobWorker';
 
+// User-initiated syncs run ahead of scheduled ones
+const USER_SYNC_PRIORITY = 10;
+
+/**
+ * Queue an item_sync job for each of the user's Plaid connections (or the one
+ * `itemId` in the body) and return right away with 202. Poll
+ * /api/user/jobs?ids=... for the per-item results.
+ */
 export async function POST(request: NextRequest) {
   try {
-    console.log('🎯 SYNC ROUTE CALLED - Starting sync process');
-    
     const session = await getServerSession(authOptions);
-    console.log('Session check:', session?.user?.id ? 'Authorized' : 'Not authorized');
-    
     if (!session?.user?.id) {
-      console.log('Returning 401 - unauthorized');
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Check if specific itemId was requested and if forceSync is enabled
-    let targetItemId: string | null = null;
-    let forceSync: boolean = false;
-    try {
-      const body = await request.json();
-      targetItemId = body?.itemId || null;
-      forceSync = body?.forceSync || false;
-      if (targetItemId) {
-        console.log('🎯 Individual card sync requested for itemId:', targetItemId);
-      } else {
-        console.log('🎯 Full sync requested for all cards');
-      }
-      if (forceSync) {
-        console.log('⚡ FORCE SYNC enabled - bypassing all daily sync protections');
-      }
-    } catch {
-      // No body or invalid JSON - sync all items
-      console.log('🎯 No request body - syncing all items');
-    }
+    const body = await request.json().catch(() => null);
+    const targetItemId: string | null = typeof body?.itemId === 'string' ? body.itemId : null;
 
-    console.log('Fetching Plaid items for user:', session.user.id);
     let query = supabaseAdmin
       .from('plaid_items')
-      .select('*')
-      .eq('userId', session.user.id);
+      .select('id, itemId, institutionName')
+      .eq('userId', session.user.id)
+      // Manual cards have no Plaid connection to sync
+      .eq('is_manual', false);
 
-    // Filter to specific itemId if requested
     if (targetItemId) {
       query = query.eq('itemId', targetItemId);
     }
@@ -53,406 +39,38 @@ export async function POST(request: NextRequest) {
     if (plaidError) {
       throw new Error(`Failed to fetch plaid items: ${plaidError.message}`);
     }
-    
-    console.log(`Found ${(plaidItems || []).length} Plaid items for user`);
-    (plaidItems || []).forEach((item, index) => {
-      console.log(`Item ${index + 1}: ${item.institutionName} (${item.itemId})`);
-    });
 
-    // Check if specific item was requested but not found
     if (targetItemId && (plaidItems || []).length === 0) {
-      console.log(`❌ Requested itemId ${targetItemId} not found for user`);
-      return NextResponse.json({ 
+      return NextResponse.json({
         message: `Card with ID ${targetItemId} not found`,
-        results: []
+        jobs: []
       });
     }
 
     if ((plaidItems || []).length === 0) {
-      console.log('No Plaid items found - returning early');
-      return NextResponse.json({ 
+      return NextResponse.json({
         message: 'No Plaid items to sync',
-        results: [] 
+        jobs: []
       });
     }
 
-    console.log('Starting sync promises...');
-    const syncPromises = (plaidItems || []).map(async (item) => {
-      try {
-        console.log(`=== SYNC DEBUG: Starting sync for ${item.institutionName} (${item.itemId}) ===`);
-        const decryptedAccessToken = decrypt(item.accessToken);
-        
-        console.log('Step 1: Syncing accounts...');
-        console.log('Syncing with forceSync:', forceSync);
-        const accountSyncResult = await plaidService.syncAccounts(decryptedAccessToken, item.itemId);
-        console.log('Step 1: Account sync completed');
-        console.log('Account sync result:', accountSyncResult);
-        
-        // Track account sync details for response
-        const accountsProcessed = accountSyncResult?.accountsProcessed || 0;
-        const creditCardsFound = accountSyncResult?.creditCardsFound || 0;
-        
-        console.log('Step 2a: Quick sync - Recent transactions (3 months) for instant display...');
-        try {
-          await plaidService.syncRecentTransactions(item, decryptedAccessToken);
-          console.log('✅ Recent transactions synced (3 months)');
-          
-          // Calculate current and recent closed cycles for immediate display
-          const { calculateCurrentBillingCycle, calculateRecentClosedCycle } = await import('@/utils/billingCycles');
-          const { data: cards } = await supabaseAdmin
-            .from('credit_cards')
-            .select('id, name')
-            .eq('plaidItemId', item.id);
-            
-          let quickCyclesCalculated = 0;
-          for (const card of cards || []) {
-            try {
-              const currentCycle = await calculateCurrentBillingCycle(card.id);
-              const recentClosed = await calculateRecentClosedCycle(card.id);
-              if (currentCycle) quickCyclesCalculated++;
-              if (recentClosed) quickCyclesCalculated++;
-            } catch (cycleError) {
-              console.warn(`Quick cycle calc failed for ${card.name}:`, cycleError);
-            }
-          }
-          console.log(`✅ Quick billing cycles calculated: ${quickCyclesCalculated} cycles`);
-        } catch (quickSyncError) {
-          console.warn('⚠️ Quick sync failed, proceeding with full sync:', quickSyncError);
-        }
-        
-        console.log('Step 2b: Full transaction sync (12 months)...');
-        console.log('About to call plaidService.syncTransactions with:', { itemId: item.itemId, hasAccessToken: !!decryptedAccessToken });
-        console.log('PlaidService method exists?', typeof plaidService.syncTransactions);
-        
-        try {
-          // Use full syncTransactions for 12-month sync (or institution limits)
-          if (forceSync) {
-            console.log('⚡ Force sync: Using full 12-month transaction sync');
-          }
-          await plaidService.syncTransactions(item, decryptedAccessToken);
-          console.log('Step 2b: Full transaction sync completed successfully (up to 12 months)');
-        } catch (syncError) {
-          console.error('🚨 TRANSACTION SYNC ERROR:', syncError);
-          console.error('Error details:', {
-            message: syncError.message,
-            stack: syncError.stack,
-            code: syncError.error_code,
-            type: syncError.error_type
-          });
-          
-          // Check if it's a rate limit error
-          const isRateLimit = syncError?.response?.status === 429 || 
-                             syncError.message?.toLowerCase().includes('rate limit');
-          
-          if (isRateLimit) {
-            console.warn('⚠️ Rate limit hit during transaction sync - continuing with account data only');
-            // Don't fail the entire sync - cards are already created and visible
-            // Just log the rate limit and continue
-          } else {
-            // For other errors, still continue but mark as partial success
-            console.warn('⚠️ Non-rate-limit transaction sync error - continuing with account data');
-          }
-          
-          // Don't throw - let the sync complete with account data
-        }
-        
-        console.log('Step 3: Regenerating billing cycles with new transaction data...');
-        // Import at the top of the file
-        const { calculateBillingCycles } = await import('@/utils/billingCycles');
-        
-        // Get all credit cards for this Plaid item
-        const { data: creditCards, error: cardsError } = await supabaseAdmin
-          .from('credit_cards')
-          .select('*')
-          .eq('plaidItemId', item.id);
-
-        if (cardsError) {
-          throw new Error(`Failed to fetch credit cards: ${cardsError.message}`);
-        }
-        
-        // Generate billing cycles synchronously for complete card data
-        console.log('Step 3: Generating billing cycles for complete card data...');
-        const cyclePromises = (creditCards || []).map(async (card) => {
-          console.log(`Regenerating billing cycles for ${card.name}...`);
-          try {
-            const cycles = await calculateBillingCycles(card.id);
-            console.log(`Generated ${cycles.length} billing cycles for ${card.name}`);
-            return { cardName: card.name, cycles: cycles.length, success: true };
-          } catch (cycleError) {
-            console.error(`Failed to generate billing cycles for ${card.name}:`, cycleError);
-            return { cardName: card.name, cycles: 0, success: false, error: cycleError.message };
-          }
-        });
-        
-        // Wait for billing cycles to complete before returning success
-        try {
-          const cycleResults = await Promise.all(cyclePromises);
-          const successfulCycles = cycleResults.filter(r => r.success);
-          const failedCycles = cycleResults.filter(r => !r.success);
-          
-          console.log(`✅ Billing cycle generation completed: ${successfulCycles.length} successful, ${failedCycles.length} failed`);
-          
-          if (failedCycles.length > 0) {
-            console.warn('Some billing cycles failed to generate:', failedCycles);
-          }
-        } catch (cycleError) {
-          console.error('❌ Billing cycle generation had errors:', cycleError);
-          // Don't fail the entire sync, but log the issue
-        }
-        
-        console.log('Step 3: Billing cycle generation completed');
-        
-        // Update connection status to active on successful sync
-        const { error: updateError } = await supabaseAdmin
-          .from('plaid_items')
-          .update({
-            status: 'active',
-            lastSyncAt: new Date().toISOString(),
-            errorCode: null,
-            errorMessage: null
-          })
-          .eq('itemId', item.itemId);
-
-        if (updateError) {
-          console.error('Failed to update plaid item status:', updateError);
-        }
-        
-        console.log(`=== SYNC DEBUG: Completed sync for ${item.institutionName} ===`);
-        return { 
-          itemId: item.itemId, 
-          status: 'success',
-          accountsProcessed,
-          creditCardsFound,
-          institutionName: item.institutionName
-        };
-      } catch (error) {
-        console.error(`=== SYNC ERROR for ${item.institutionName} (${item.itemId}):`, error);
-        
-        // Check for specific Plaid connection errors
-        const errorCode = error.error_code || error?.response?.data?.error_code || 'SYNC_ERROR';
-        const errorType = error.error_type || error?.response?.data?.error_type;
-        const statusCode = error?.response?.status || 0;
-        
-        // Enhanced error detection - include 400 status codes and more error types
-        const isConnectionError = (
-          ['ITEM_LOGIN_REQUIRED', 'ACCESS_NOT_GRANTED', 'INVALID_ACCESS_TOKEN', 'ITEM_NOT_FOUND'].includes(errorCode) ||
-          statusCode === 400 ||
-          error.message?.includes('400') ||
-          error.message?.toLowerCase().includes('invalid') ||
-          error.message?.toLowerCase().includes('expired')
-        );
-        
-        console.log('Enhanced error analysis:', {
-          errorCode,
-          errorType,
-          statusCode,
-          isConnectionError,
-          errorMessage: error.message,
-          shouldReconnect: isConnectionError
-        });
-        
-        // If it's a connection error, try auto-reconnection ONCE
-        if (isConnectionError && !item.errorCode) { // Only try if this isn't a repeated failure
-          console.log(`🔄 Auto-reconnecting ${item.institutionName} due to connection error...`);
-          
-          try {
-            // Import plaidService for reconnection
-            const { plaidService } = await import('@/services/plaid');
-            
-            // Create update link token and mark for manual reconnection
-            // We can't fully auto-reconnect without user interaction, but we can prepare
-            await plaidService.createUpdateLinkToken(item.userId, item.itemId);
-            
-            console.log(`✅ Update link token created for ${item.institutionName}`);
-            
-            // Mark as requiring reconnection but provide the means to do it
-            const { error: reconnectUpdateError } = await supabaseAdmin
-              .from('plaid_items')
-              .update({
-                status: 'expired',
-                errorCode: errorCode,
-                errorMessage: 'Connection expired - reconnection required'
-              })
-              .eq('itemId', item.itemId);
-
-            if (reconnectUpdateError) {
-              console.error('Failed to update plaid item for reconnection:', reconnectUpdateError);
-            }
-            
-            return { 
-              itemId: item.itemId, 
-              status: 'error', 
-              error: 'Connection expired',
-              requiresReconnection: true,
-              canAutoReconnect: true
-            };
-            
-          } catch (reconnectError) {
-            console.error(`Failed to prepare reconnection for ${item.institutionName}:`, reconnectError);
-            // Fall through to regular error handling
-          }
-        }
-        
-        // Update connection status based on error type
-        const newStatus = isConnectionError ? 'expired' : 'error';
-        
-        const { error: statusUpdateError } = await supabaseAdmin
-          .from('plaid_items')
-          .update({
-            status: newStatus,
-            errorCode: errorCode,
-            errorMessage: error.message || error?.response?.data?.error_message || 'Unknown sync error'
-          })
-          .eq('itemId', item.itemId);
-
-        if (statusUpdateError) {
-          console.error('Failed to update plaid item error status:', statusUpdateError);
-        }
-        
-        return { 
-          itemId: item.itemId, 
-          status: 'error', 
-          error: error.message,
-          requiresReconnection: isConnectionError
-        };
-      }
-    });
-
-    console.log('Waiting for all sync promises to complete...');
-    const results = await Promise.all(syncPromises);
-    
-    console.log('All sync promises completed. Results:', results);
-    
-    // Log detailed sync results
-    console.log('=== DETAILED SYNC RESULTS ===');
-    for (const result of results) {
-      if (result.status === 'success') {
-        console.log(`✅ ${result.itemId}: Successfully synced`);
-      } else {
-        console.log(`❌ ${result.itemId}: ${result.error}`);
-      }
-    }
-    
-    // Regenerate billing cycles after successful sync
-    console.log('=== REGENERATING BILLING CYCLES ===');
-    try {
-      const { calculateBillingCycles } = await import('@/utils/billingCycles');
-      
-      // Get all plaid items for this user first
-      const { data: userPlaidItems, error: userPlaidError } = await supabaseAdmin
-        .from('plaid_items')
-        .select('*')
-        .eq('userId', session.user.id);
-
-      if (userPlaidError) {
-        throw new Error(`Failed to fetch user plaid items: ${userPlaidError.message}`);
-      }
-
-      const userPlaidItemIds = (userPlaidItems || []).map(item => item.id);
-      
-      // Get all credit cards for this user
-      const { data: userCreditCards, error: userCardsError } = await supabaseAdmin
-        .from('credit_cards')
-        .select('*')
-        .in('plaidItemId', userPlaidItemIds);
-
-      if (userCardsError) {
-        throw new Error(`Failed to fetch user credit cards: ${userCardsError.message}`);
-      }
-
-      // Create a map for plaid item lookup
-      const plaidItemMap = new Map();
-      (userPlaidItems || []).forEach(item => {
-        plaidItemMap.set(item.id, item);
+    const jobs = [];
+    for (const item of plaidItems || []) {
+      const { job } = await enqueueJob({
+        type: 'item_sync',
+        userId: session.user.id,
+        payload: { plaidItemId: item.id },
+        priority: USER_SYNC_PRIORITY,
       });
+      jobs.push({ id: job.id, itemId: item.itemId, institutionName: item.institutionName, status: job.status });
+    }
+    console.log(`🎯 Queued ${jobs.length} item sync job(s) for user ${session.user.id}`);
 
-      // Add plaidItem reference to each credit card for compatibility
-      const userCreditCardsWithPlaidItem = (userCreditCards || []).map(card => ({
-        ...card,
-        plaidItem: plaidItemMap.get(card.plaidItemId)
-      }));
-
-      console.log(`Found ${userCreditCardsWithPlaidItem.length} credit cards for user billing cycle regeneration`);
-
-      // Delete existing billing cycles to force regeneration
-      console.log('Deleting existing billing cycles...');
-      const creditCardIds = (userCreditCards || []).map(card => card.id);
-      
-      const { error: deleteError, count: deleteCount } = await supabaseAdmin
-        .from('billing_cycles')
-        .delete()
-        .in('creditCardId', creditCardIds);
-
-      if (deleteError) {
-        console.error('Failed to delete existing billing cycles:', deleteError);
-      } else {
-        console.log(`Deleted ${deleteCount || 0} existing billing cycles`);
-      }
-
-      // Regenerate billing cycles for each credit card
-      const regenResults = [];
-      for (const card of (userCreditCards || [])) {
-        console.log(`Regenerating cycles for ${card.name}...`);
-        
-        // First, ensure transactions are properly linked
-        const { data: unlinkedTransactions, error: unlinkedError } = await supabaseAdmin
-          .from('transactions')
-          .select('*')
-          .eq('plaidItemId', card.plaidItemId)
-          .is('creditCardId', null);
+    kickJobWorker(['item_sync']);
 
-        if (unlinkedError) {
-          console.error('Failed to fetch unlinked transactions:', unlinkedError);
-        } else if ((unlinkedTransactions || []).length > 0) {
-          console.log(`Found ${unlinkedTransactions.length} unlinked transactions, linking them to ${card.name}...`);
-          
-          for (const transaction of unlinkedTransactions) {
-            const { error: linkError } = await supabaseAdmin
-              .from('transactions')
-              .update({ creditCardId: card.id })
-              .eq('id', transaction.id);
-              
-            if (linkError) {
-              console.error(`Failed to link transaction ${transaction.id}:`, linkError);
-            }
-          }
-        }
-        
-        const cycles = await calculateBillingCycles(card.id);
-        console.log(`Generated ${cycles.length} cycles for ${card.name}`);
-        
-        regenResults.push({
-          cardName: card.name,
-          cyclesGenerated: cycles.length
-        });
-      }
-      
-      console.log('✅ Billing cycles regenerated successfully after sync');
-      console.log('Regeneration results:', regenResults);
-    } catch (regenError) {
-      console.error('Error regenerating billing cycles after sync:', regenError);
-      // Don't fail the sync if billing cycle regeneration fails
-    }
-    
-    console.log('=== SYNC ROUTE COMPLETED SUCCESSFULLY ===');
-    console.log(`Total items synced: ${results.length}`);
-    console.log(`Successful syncs: ${results.filter(r => r.status === 'success').length}`);
-    console.log(`Failed syncs: ${results.filter(r => r.status === 'error').length}`);
-    
-    return NextResponse.json({ 
-      message: 'Sync completed',
-      results,
-      summary: {
-        total: results.length,
-        success: results.filter(r => r.status === 'success').length,
-        errors: results.filter(r => r.status === 'error').length
-      }
-    });
+    return NextResponse.json({ message: 'Sync queued', jobs }, { status: 202 });
   } catch (error) {
-    console.error('=== SYNC ROUTE ERROR ===');
     console.error('Sync error:', error);
-    console.error('Error stack:', error.stack);
-    console.error('=== END SYNC ROUTE ERROR ===');
     return NextResponse.json({ error: 'Sync failed' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -1,33 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { supabaseAdmin } from '@/lib/supabase';
 import { startOfMonth, endOfMonth, subMonths } from 'date-fns';
-import { isPaymentTransaction } from '@/utils/billingCycles';
-
-// Helper function to format category names
-function formatCategoryName(category: string): string {
-  if (!category) return 'Other';
-  
-  // Handle Plaid's uppercase categories (e.g., FOOD_AND_DRINK -> Food & Drink)
-  let formatted = category
-    .replace(/_/g, ' ')  // Replace underscores with spaces
-    .toLowerCase()        // Convert to lowercase
-    .split(' ')          // Split into words
-    .map(word => {
-      // Capitalize first letter of each word
-      if (word === 'and' || word === 'or') return '&';
-      return word.charAt(0).toUpperCase() + word.slice(1);
-    })
-    .join(' ');
-  
-  // Limit to 20 characters
-  if (formatted.length > 20) {
-    formatted = formatted.substring(0, 17) + '...';
-  }
-  
-  return formatted;
-}
+import { categoryLabel, countsTowardSpend } from '@/utils/spend';
+import { getSpendTransactions } from '@/services/spendTransactions';
 
 export async function GET(request: Request) {
   try {
@@ -46,18 +22,8 @@ export async function GET(request: Request) {
     
     const last12MonthsStart = startOfMonth(subMonths(now, 11));
 
-    // Get user's plaid items first
-    const { data: plaidItems, error: plaidError } = await supabaseAdmin
-      .from('plaid_items')
-      .select('id')
-      .eq('userId', session.user.id);
-
-    if (plaidError) {
-      throw new Error(`Failed to fetch plaid items: ${plaidError.message}`);
-    }
-
-    const plaidItemIds = (plaidItems || []).map(item => item.id);
-    if (plaidItemIds.length === 0) {
+    const formattedTransactions = await getSpendTransactions(session.user.id, last12MonthsStart, currentMonthEnd);
+    if (!formattedTransactions) {
       return NextResponse.json({
         totalSpendThisMonth: 0,
         monthlySpend: [],
@@ -68,31 +34,6 @@ export async function GET(request: Request) {
       });
     }
 
-    const { data: transactions, error: transactionsError } = await supabaseAdmin
-      .from('transactions')
-      .select(`
-        *,
-        credit_cards!inner(name, mask)
-      `)
-      .in('plaidItemId', plaidItemIds)
-      .gte('date', last12MonthsStart.toISOString())
-      .lte('date', currentMonthEnd.toISOString())
-      .order('date', { ascending: false });
-
-    if (transactionsError) {
-      throw new Error(`Failed to fetch transactions: ${transactionsError.message}`);
-    }
-
-    // Convert date strings back to Date objects for compatibility
-    const formattedTransactions = (transactions || []).map(t => ({
-      ...t,
-      date: new Date(t.date),
-      creditCard: t.credit_cards ? {
-        name: t.credit_cards.name,
-        mask: t.credit_cards.mask
-      } : null
-    }));
-
     // Determine which month to analyze
     let activeMonthStart: Date;
     let activeMonthEnd: Date;
@@ -148,7 +89,7 @@ export async function GET(request: Request) {
     // Calculate total spend: exclude payment transactions, include charges and legitimate refunds
     const totalSpendThisMonth = thisMonthTransactions.reduce((sum, t) => {
       // Skip payment transactions regardless of sign
-      if (isPaymentTransaction(t.name || '')) {
+      if (!countsTowardSpend(t)) {
         return sum;
       }
       // Include all non-payment transactions (charges and refunds)
@@ -166,7 +107,7 @@ export async function GET(request: Request) {
       
       const amount = monthTransactions.reduce((sum, t) => {
         // Skip payment transactions
-        if (isPaymentTransaction(t.name || '')) {
+        if (!countsTowardSpend(t)) {
           return sum;
         }
         // Include charges and refunds
@@ -182,25 +123,11 @@ export async function GET(request: Request) {
     const categoryMap = new Map<string, number>();
     thisMonthTransactions.forEach(t => {
       // Skip payment transactions
-      if (isPaymentTransaction(t.name || '')) {
+      if (!countsTowardSpend(t)) {
         return;
       }
       
-      // Use Plaid category, or merchant name as fallback
-      let category = t.category;
-      if (!category) {
-        if (t.merchantName) {
-          category = t.merchantName;
-        } else if (t.name) {
-          // Use full transaction name if no merchant name
-          category = t.name;
-        } else {
-          category = 'Other';
-        }
-      }
-      
-      // Format the category name (proper case, max 20 chars)
-      const formattedCategory = formatCategoryName(category);
+      const formattedCategory = categoryLabel(t);
       categoryMap.set(formattedCategory, (categoryMap.get(formattedCategory) || 0) + t.amount);
     });
 
@@ -216,7 +143,7 @@ export async function GET(request: Request) {
     const cardSpendingMap = new Map<string, number>();
     thisMonthTransactions.forEach(t => {
       // Skip payment transactions
-      if (isPaymentTransaction(t.name || '')) {
+      if (!countsTowardSpend(t)) {
         return;
       }
       const cardName = t.creditCard?.name || 'Unknown Card';
@@ -242,43 +169,21 @@ export async function GET(request: Request) {
     
     thisMonthTransactions.forEach(t => {
       // Skip payment transactions
-      if (isPaymentTransaction(t.name || '')) {
+      if (!countsTowardSpend(t)) {
         return;
       }
       
-      // Get and format category
-      let category = t.category;
-      if (!category) {
-        if (t.merchantName) {
-          category = t.merchantName;
-        } else if (t.name) {
-          category = t.name;
-        } else {
-          category = 'Other';
-        }
-      }
-      const formattedCategory = formatCategoryName(category);
+      const formattedCategory = categoryLabel(t);
       thisMonthCategoryMap.set(formattedCategory, (thisMonthCategoryMap.get(formattedCategory) || 0) + t.amount);
     });
 
     lastMonthTransactions.forEach(t => {
       // Skip payment transactions
-      if (isPaymentTransaction(t.name || '')) {
+      if (!countsTowardSpend(t)) {
         return;
       }
       
-      // Get and format category
-      let category = t.category;
-      if (!category) {
-        if (t.merchantName) {
-          category = t.merchantName;
-        } else if (t.name) {
-          category = t.name;
-        } else {
-          category = 'Other';
-        }
-      }
-      const formattedCategory = formatCategoryName(category);
+      const formattedCategory = categoryLabel(t);
       lastMonthCategoryMap.set(formattedCategory, (lastMonthCategoryMap.get(formattedCategory) || 0) + t.amount);
     });
 
@@ -304,15 +209,19 @@ export async function GET(request: Request) {
       availableMonths.add(monthKey);
     });
     
+    // Every label spend is grouped under, for budget category suggestions
+    const categoryLabels = [...new Set(formattedTransactions.filter(countsTowardSpend).map(categoryLabel))].sort();
+
     return NextResponse.json({
       totalSpendThisMonth,
       monthlySpend,
       categories,
       cardSpending,
       monthlyComparison,
-      transactionCount: thisMonthTransactions.filter(t => !isPaymentTransaction(t.name || '')).length,
+      transactionCount: thisMonthTransactions.filter(countsTowardSpend).length,
       selectedMonth: `${activeMonthStart.getFullYear()}-${String(activeMonthStart.getMonth() + 1).padStart(2, '0')}`,
       availableMonths: Array.from(availableMonths).sort().reverse(),
+      categoryLabels,
     });
   } catch (error) {
     console.error('Error fetching analytics:', error);
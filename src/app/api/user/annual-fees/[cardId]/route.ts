@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { setManualAnnualFee } from '@/services/annualFees';
+
+/**
+ * Manually set a card's annual fee.
+ * Body: { annualFee: number | null, annualFeeDueDate: 'YYYY-MM-DD' | null };
+ * a null fee clears the manual value so detection can fill it again.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { cardId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Invalid annual fee payload' }, { status: 400 });
+    }
+
+    const annualFee = body.annualFee === null || body.annualFee === '' || body.annualFee === undefined
+      ? null
+      : Number(body.annualFee);
+    if (annualFee !== null && (!isFinite(annualFee) || annualFee < 0)) {
+      return NextResponse.json({ error: 'Annual fee must be a positive number' }, { status: 400 });
+    }
+
+    const annualFeeDueDate = typeof body.annualFeeDueDate === 'string' && body.annualFeeDueDate ? body.annualFeeDueDate : null;
+    if (annualFee !== null && (!annualFeeDueDate || !/^\d{4}-\d{2}-\d{2}$/.test(annualFeeDueDate) || isNaN(Date.parse(annualFeeDueDate)))) {
+      return NextResponse.json({ error: 'Renewal date must be a YYYY-MM-DD date' }, { status: 400 });
+    }
+
+    const card = await setManualAnnualFee(session.user.id, params.cardId, { annualFee, annualFeeDueDate });
+    if (!card) {
+      return NextResponse.json({ error: 'Card not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, card });
+  } catch (error) {
+    console.error('PUT annual fee error:', error);
+    return NextResponse.json({ error: 'Failed to save annual fee' }, { status: 500 });
+  }
+}
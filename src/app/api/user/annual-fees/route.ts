@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getAnnualFees } from '@/services/annualFees';
+
+/** Annual fees and next renewal dates for each of the user's cards, soonest first. */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const cards = await getAnnualFees(session.user.id);
+    return NextResponse.json({ cards });
+  } catch (error) {
+    console.error('GET annual fees error:', error);
+    return NextResponse.json({ error: 'Failed to load annual fees' }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { deleteBudget, updateBudget } from '@/services/budgets';
+import { validateBudget } from '@/utils/budgets';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { budgetId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Invalid budget payload' }, { status: 400 });
+    }
+
+    const { budget, error } = validateBudget(body);
+    if (!budget) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const updated = await updateBudget(session.user.id, params.budgetId, budget);
+    if (!updated) {
+      return NextResponse.json({ error: 'Budget not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, budget: updated });
+  } catch (error) {
+    console.error('PUT budget error:', error);
+    return NextResponse.json({ error: 'Failed to update budget' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { budgetId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const deleted = await deleteBudget(session.user.id, params.budgetId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Budget not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('DELETE budget error:', error);
+    return NextResponse.json({ error: 'Failed to delete budget' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createBudget, getBudgetsWithProgress } from '@/services/budgets';
+import { validateBudget } from '@/utils/budgets';
+
+/** The user's budgets with progress for the current month or billing cycle. */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const budgets = await getBudgetsWithProgress(session.user.id);
+    return NextResponse.json({ budgets });
+  } catch (error) {
+    console.error('GET budgets error:', error);
+    return NextResponse.json({ error: 'Failed to load budgets' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Invalid budget payload' }, { status: 400 });
+    }
+
+    const { budget, error } = validateBudget(body);
+    if (!budget) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const created = await createBudget(session.user.id, budget);
+    if (!created) {
+      return NextResponse.json({ error: 'Card not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, budget: created });
+  } catch (error) {
+    console.error('POST budget error:', error);
+    return NextResponse.json({ error: 'Failed to create budget' }, { status: 500 });
+  }
+}
@@ -151,6 +151,7 @@ export async function GET(request: NextRequest) {
       .from('plaid_items')
       .select('*')
       .eq('userId', session.user.id)
+      .eq('is_manual', false)
       .order('createdAt', { ascending: false });
 
     if (plaidError || !plaidItems) {
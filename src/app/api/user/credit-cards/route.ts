@@ -18,7 +18,7 @@ export async function GET(request: NextRequest) {
     // Get user's plaid items first
     const { data: plaidItems, error: plaidError } = await supabaseAdmin
       .from('plaid_items')
-      .select('id, itemId, institutionName, status, lastSyncAt, errorMessage')
+      .select('id, itemId, institutionName, status, lastSyncAt, errorMessage, is_manual')
       .eq('userId', session.user.id);
 
     if (plaidError) {
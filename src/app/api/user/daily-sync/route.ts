@@ -2,8 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { supabaseAdmin } from '@/lib/supabase';
-import { plaidService } from '@/services/plaid';
-import { decrypt } from '@/lib/encryption';
+import { enqueueJob } from '@/services/jobQueue';
+import { kickJobWorker } from '@/services/jobWorker';
 
 export async function POST(request: NextRequest) {
   try {
@@ -26,7 +26,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({
         success: true,
         message: 'No items to sync',
-        itemsSynced: 0
+        itemsQueued: 0
       });
     }
 
@@ -55,86 +55,40 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({
         success: true,
         message: 'All items already synced today',
-        itemsSynced: 0,
+        itemsQueued: 0,
         totalItems: plaidItems.length
       });
     }
 
-    let successCount = 0;
-    const results = [];
-
-    // Sync each item that needs daily update
+    const jobs = [];
     for (const item of itemsNeedingSync) {
-      try {
-        console.log(`🌅 Daily syncing: ${item.institutionName} (${item.itemId})`);
-        
-        const accessToken = decrypt(item.accessToken);
-        
-        // Use comprehensive sync with 12-hour protection
-        // This will skip if already synced recently (within 12 hours)
-        const response = await fetch(`${process.env.NEXTAUTH_URL}/api/plaid/comprehensive-sync`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ itemId: item.itemId })
-        });
-        
-        if (response.ok) {
-          const syncResult = await response.json();
-          console.log(`✅ Daily sync completed for ${item.institutionName}:`, syncResult.message);
-          successCount++;
-          
-          results.push({
-            itemId: item.itemId,
-            institutionName: item.institutionName,
-            success: true,
-            message: syncResult.message
-          });
-        } else {
-          const errorResult = await response.json();
-          console.warn(`⚠️ Daily sync failed for ${item.institutionName}:`, errorResult.error);
-          
-          results.push({
-            itemId: item.itemId,
-            institutionName: item.institutionName,
-            success: false,
-            error: errorResult.error
-          });
-        }
-        
-        // Add delay between items to respect rate limits
-        if (itemsNeedingSync.length > 1) {
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        }
-        
-      } catch (syncError) {
-        console.error(`❌ Daily sync error for ${item.institutionName}:`, syncError);
-        
-        results.push({
-          itemId: item.itemId,
-          institutionName: item.institutionName,
-          success: false,
-          error: syncError.message
-        });
-      }
+      const { job } = await enqueueJob({
+        type: 'item_sync',
+        userId: session.user.id,
+        payload: { plaidItemId: item.id },
+      });
+      jobs.push({ id: job.id, itemId: item.itemId, institutionName: item.institutionName, status: job.status });
     }
 
-    console.log(`🌅 Daily sync completed: ${successCount}/${itemsNeedingSync.length} items synced successfully`);
+    console.log(`🌅 Daily sync queued: ${jobs.length}/${itemsNeedingSync.length} items`);
 
     // Telemetry: run summary
     try { await supabaseAdmin.from('user_sync_telemetry').insert({
       user_id: session.user.id,
       event: 'daily_sync_run',
-      details: { totalItems: plaidItems.length, itemsProcessed: itemsNeedingSync.length, itemsSynced: successCount }
+      details: { totalItems: plaidItems.length, itemsProcessed: itemsNeedingSync.length, itemsQueued: jobs.length }
     }); } catch {}
 
+    kickJobWorker(['item_sync']);
+
     return NextResponse.json({
       success: true,
-      message: `Daily sync completed`,
-      itemsSynced: successCount,
+      message: 'Daily sync queued',
+      itemsQueued: jobs.length,
       totalItems: plaidItems.length,
       itemsProcessed: itemsNeedingSync.length,
-      results
-    });
+      jobs
+    }, { status: 202 });
 
   } catch (error: any) {
     console.error('❌ Daily sync error:', error);
@@ -32,6 +32,8 @@ export async function DELETE(request: NextRequest) {
     // Step 2: Remove all Plaid items from Plaid API (best effort)
     if (plaidItems && plaidItems.length > 0) {
       for (const plaidItem of plaidItems) {
+        // Manual cards have no Plaid connection to revoke
+        if (plaidItem.is_manual) continue;
         try {
           console.log(`🔌 Removing Plaid connection: ${plaidItem.institutionName}`);
           const decryptedAccessToken = decrypt(plaidItem.accessToken);
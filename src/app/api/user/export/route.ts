@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getExportArchive, getExportData } from '@/services/dataExport';
+import {
+  exportContentType,
+  exportFileName,
+  parseExportQuery,
+  transactionsToCsv,
+  transactionsToOfx,
+} from '@/utils/dataExport';
+
+/**
+ * Download the user's data.
+ * Query: format (csv|ofx|qfx|json, default csv), cardId (repeatable or comma
+ * separated), startDate, endDate. json is the full archive of cards, billing
+ * cycles, transactions, APRs and settings.
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { query, error: queryError } = parseExportQuery(searchParams);
+    if (!query) {
+      return NextResponse.json({ error: queryError }, { status: 400 });
+    }
+
+    const now = new Date();
+    let body: string;
+    if (query.format === 'json') {
+      body = JSON.stringify(await getExportArchive(session.user.id, query, now), null, 2);
+    } else {
+      const { cards, transactions } = await getExportData(session.user.id, query);
+      body = query.format === 'csv'
+        ? transactionsToCsv(transactions, cards)
+        : transactionsToOfx(transactions, cards, {
+            startDate: query.startDate,
+            endDate: query.endDate,
+            now,
+            intuBid: query.format === 'qfx' ? process.env.QFX_INTU_BID || null : null,
+          });
+    }
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': exportContentType(query.format),
+        'Content-Disposition': `attachment; filename="${exportFileName(query.format, now)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Data export error:', error);
+    return NextResponse.json({ error: 'Failed to export data' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getUserJobs } from '@/services/jobQueue';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Status of the user's background jobs, for polling after a sync is queued.
+ * `?ids=a,b` limits the response to those jobs; otherwise the most recent jobs.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const idsParam = request.nextUrl.searchParams.get('ids');
+    const ids = (idsParam || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(id => UUID_PATTERN.test(id));
+    if (idsParam !== null && ids.length === 0) {
+      return NextResponse.json({ jobs: [] });
+    }
+
+    const jobs = await getUserJobs(session.user.id, ids);
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error('GET jobs error:', error);
+    return NextResponse.json({ error: 'Failed to load jobs' }, { status: 500 });
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { importStatement } from '@/services/manualCards';
+import {
+  detectStatementFormat,
+  parseCsv,
+  parseCsvStatement,
+  parseOfxStatement,
+  suggestCsvMapping,
+  validateCsvMapping,
+} from '@/utils/statementImport';
+
+// Issuer downloads are well under this; the file is sent as text in the JSON body
+const MAX_STATEMENT_FILE_LENGTH = 5 * 1024 * 1024;
+
+/**
+ * Import a CSV, OFX or QFX download into a manual card.
+ * Body: fileName, content (file text), mapping (CSV column mapping),
+ * statementBalance (optional closing balance to reconcile against) and
+ * preview (parse and match without writing). A CSV preview without a mapping
+ * returns the suggested mapping and the first rows for the mapping step.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { cardId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || typeof body.content !== 'string') {
+      return NextResponse.json({ error: 'Invalid import payload' }, { status: 400 });
+    }
+    if (body.content.length > MAX_STATEMENT_FILE_LENGTH) {
+      return NextResponse.json({ error: 'Statement file is too large' }, { status: 400 });
+    }
+
+    const format = detectStatementFormat(typeof body.fileName === 'string' ? body.fileName : '', body.content);
+    if (!format) {
+      return NextResponse.json({ error: 'Unsupported file: upload a CSV, OFX or QFX download' }, { status: 400 });
+    }
+
+    const statementBalance = body.statementBalance === undefined || body.statementBalance === null || body.statementBalance === ''
+      ? null
+      : Number(body.statementBalance);
+    if (statementBalance !== null && !isFinite(statementBalance)) {
+      return NextResponse.json({ error: 'statementBalance must be a number' }, { status: 400 });
+    }
+
+    let statement;
+    if (format === 'csv') {
+      if (!body.mapping) {
+        if (!body.preview) {
+          return NextResponse.json({ error: 'CSV imports need a column mapping' }, { status: 400 });
+        }
+        const rows = parseCsv(body.content);
+        return NextResponse.json({
+          format,
+          columns: rows[0] || [],
+          sampleRows: rows.slice(0, 6),
+          suggestedMapping: suggestCsvMapping(rows),
+        });
+      }
+
+      const { mapping, error: mappingError } = validateCsvMapping(body.mapping);
+      if (!mapping) {
+        return NextResponse.json({ error: mappingError }, { status: 400 });
+      }
+      statement = parseCsvStatement(body.content, mapping);
+    } else {
+      statement = parseOfxStatement(body.content);
+    }
+
+    const result = await importStatement(session.user.id, params.cardId, statement, {
+      statementBalance,
+      dryRun: body.preview === true,
+    });
+    if (!result) {
+      return NextResponse.json({ error: 'Card not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ format, preview: body.preview === true, ...result });
+  } catch (error) {
+    console.error('Statement import error:', error);
+    return NextResponse.json({ error: 'Failed to import statement' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createManualCard } from '@/services/manualCards';
+import { validateManualCard } from '@/utils/manualCards';
+
+/**
+ * Create a card that is not linked through Plaid.
+ * Body: name, mask, creditLimit, currentBalance, apr, openDate and cycle
+ * ({ cycleDateType, cycleDay, cycleDaysBeforeEnd, dueDateType, dueDay, dueDaysBeforeEnd }).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Invalid card payload' }, { status: 400 });
+    }
+
+    const { card, error } = validateManualCard(body);
+    if (!card) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const created = await createManualCard(session.user.id, card);
+    return NextResponse.json({ success: true, card: created });
+  } catch (error) {
+    console.error('POST manual card error:', error);
+    return NextResponse.json({ error: 'Failed to create card' }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { comparePayoffStrategies, sumMinimumPayments, type PayoffCardInput } from '@/utils/payoffPlanner';
+
+/**
+ * Cards with balances and stored APRs, shaped for the payoff planner
+ */
+async function loadPayoffCards(userId: string): Promise<PayoffCardInput[]> {
+  const { data: cards, error: cardsError } = await supabaseAdmin
+    .from('credit_cards')
+    .select('id, name, mask, balanceCurrent, minimumPaymentAmount, plaid_items!inner(userId)')
+    .eq('plaid_items.userId', userId);
+
+  if (cardsError) {
+    throw new Error(`Failed to fetch credit cards: ${cardsError.message}`);
+  }
+
+  const cardIds = (cards || []).map(card => card.id);
+  const { data: aprs, error: aprsError } = cardIds.length > 0
+    ? await supabaseAdmin
+        .from('aprs')
+        .select('creditCardId, aprType, aprPercentage, balanceSubjectToApr')
+        .in('creditCardId', cardIds)
+    : { data: [], error: null };
+
+  if (aprsError) {
+    throw new Error(`Failed to fetch APRs: ${aprsError.message}`);
+  }
+
+  return (cards || [])
+    .map(card => ({
+      id: card.id,
+      name: card.name,
+      mask: card.mask,
+      balance: Math.abs(card.balanceCurrent || 0),
+      minimumPayment: card.minimumPaymentAmount,
+      aprs: (aprs || [])
+        .filter(apr => apr.creditCardId === card.id)
+        .map(apr => ({
+          aprType: apr.aprType,
+          aprPercentage: Number(apr.aprPercentage),
+          balanceSubjectToApr: apr.balanceSubjectToApr !== null ? Number(apr.balanceSubjectToApr) : null,
+        })),
+    }))
+    .filter(card => card.balance > 0);
+}
+
+/**
+ * GET: cards with APRs plus a comparison at a default budget of twice the
+ * total minimum payment (so avalanche and snowball actually differ)
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const cards = await loadPayoffCards(session.user.id);
+    const monthlyBudget = Math.ceil(sumMinimumPayments(cards) * 2);
+
+    return NextResponse.json({
+      cards,
+      monthlyBudget,
+      comparison: comparePayoffStrategies(cards, { monthlyBudget }),
+    });
+  } catch (error) {
+    console.error('Payoff plan error:', error);
+    return NextResponse.json({ error: 'Failed to build payoff plan' }, { status: 500 });
+  }
+}
+
+/**
+ * POST { monthlyBudget, customPayments?: { [creditCardId]: amount } }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { monthlyBudget, customPayments } = await request.json();
+    if (typeof monthlyBudget !== 'number' || !isFinite(monthlyBudget) || monthlyBudget < 0) {
+      return NextResponse.json({ error: 'monthlyBudget must be a non-negative number' }, { status: 400 });
+    }
+    if (customPayments !== undefined && (typeof customPayments !== 'object' || customPayments === null ||
+        Object.values(customPayments).some(v => typeof v !== 'number' || !isFinite(v) || v < 0))) {
+      return NextResponse.json({ error: 'customPayments must map card ids to non-negative amounts' }, { status: 400 });
+    }
+
+    const cards = await loadPayoffCards(session.user.id);
+    return NextResponse.json({
+      cards,
+      monthlyBudget,
+      comparison: comparePayoffStrategies(cards, { monthlyBudget, customPayments }),
+    });
+  } catch (error) {
+    console.error('Payoff plan error:', error);
+    return NextResponse.json({ error: 'Failed to build payoff plan' }, { status: 500 });
+  }
+}
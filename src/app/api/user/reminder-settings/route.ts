@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getReminderSettings, normalizeLeadDays, saveReminderSettings } from '@/services/paymentReminders';
+
+// PUT body as sent; every field is checked before use
+interface ReminderSettingsBody {
+  enabled?: unknown;
+  defaultLeadDays?: unknown;
+  cards?: unknown;
+}
+
+interface CardReminderInput {
+  creditCardId: string;
+  enabled?: unknown;
+  leadDays?: unknown;
+}
+
+function isCardReminderInput(card: unknown): card is CardReminderInput {
+  return typeof card === 'object' && card !== null && typeof (card as { creditCardId?: unknown }).creditCardId === 'string';
+}
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const settings = await getReminderSettings(session.user.id);
+    return NextResponse.json(settings);
+  } catch (error) {
+    console.error('GET reminder settings error:', error);
+    return NextResponse.json({ error: 'Failed to load reminder settings' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { enabled, defaultLeadDays, cards } = (await request.json()) as ReminderSettingsBody;
+
+    if (typeof enabled !== 'boolean' || !Array.isArray(defaultLeadDays)) {
+      return NextResponse.json({ error: 'Invalid reminder settings payload' }, { status: 400 });
+    }
+
+    const normalizedDefaults = normalizeLeadDays(defaultLeadDays);
+    if (enabled && normalizedDefaults.length === 0) {
+      return NextResponse.json({ error: 'Choose at least one reminder lead time (0-30 days)' }, { status: 400 });
+    }
+
+    const cardSettings = (Array.isArray(cards) ? cards : [])
+      .filter(isCardReminderInput)
+      .map(card => ({
+        creditCardId: card.creditCardId,
+        enabled: card.enabled !== false,
+        leadDays: Array.isArray(card.leadDays) ? normalizeLeadDays(card.leadDays) : null,
+      }));
+
+    await saveReminderSettings(session.user.id, {
+      enabled,
+      defaultLeadDays: normalizedDefaults,
+      cards: cardSettings,
+    });
+
+    const settings = await getReminderSettings(session.user.id);
+    return NextResponse.json({ success: true, ...settings });
+  } catch (error) {
+    console.error('PUT reminder settings error:', error);
+    return NextResponse.json({ error: 'Failed to save reminder settings' }, { status: 500 });
+  }
+}
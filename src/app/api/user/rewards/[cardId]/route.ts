@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { resetRewardProgram, saveRewardProgram } from '@/services/rewards';
+import { validateRewardProgram } from '@/utils/rewards';
+import { findCatalogCard } from '@/utils/rewardsCatalog';
+
+// Body is either a full program or { catalogId } to apply a catalog preset
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { cardId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Invalid rewards payload' }, { status: 400 });
+    }
+
+    let catalogId: string | null = null;
+    let input: Record<string, unknown> = body;
+    if (typeof body.catalogId === 'string' && body.catalogId) {
+      const catalogCard = findCatalogCard(body.catalogId);
+      if (!catalogCard) {
+        return NextResponse.json({ error: 'Unknown catalog card' }, { status: 400 });
+      }
+      catalogId = catalogCard.id;
+      // Explicit fields in the body override the preset
+      input = body.multipliers ? body : { ...catalogCard.program };
+    }
+
+    const { program, error } = validateRewardProgram(input);
+    if (!program) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const saved = await saveRewardProgram(session.user.id, params.cardId, program, catalogId);
+    if (!saved) {
+      return NextResponse.json({ error: 'Credit card not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, program: saved });
+  } catch (error) {
+    console.error('PUT rewards program error:', error);
+    return NextResponse.json({ error: 'Failed to save rewards program' }, { status: 500 });
+  }
+}
+
+/** Discard the user's edits; the card falls back to its catalog match or the default. */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { cardId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const reset = await resetRewardProgram(session.user.id, params.cardId);
+    if (!reset) {
+      return NextResponse.json({ error: 'Credit card not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, program: reset });
+  } catch (error) {
+    console.error('DELETE rewards program error:', error);
+    return NextResponse.json({ error: 'Failed to reset rewards program' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getRewardsSummary } from '@/services/rewards';
+import { REWARDS_CATALOG } from '@/utils/rewardsCatalog';
+
+/** Estimated rewards per card by month and billing cycle, with the best card per category. */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { cards, bestCards } = await getRewardsSummary(session.user.id);
+    return NextResponse.json({
+      cards,
+      bestCards,
+      catalog: REWARDS_CATALOG.map(card => ({ id: card.id, name: card.name })),
+    });
+  } catch (error) {
+    console.error('GET rewards error:', error);
+    return NextResponse.json({ error: 'Failed to load rewards' }, { status: 500 });
+  }
+}
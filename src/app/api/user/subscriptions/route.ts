@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { subMonths } from 'date-fns';
+import { authOptions } from '@/lib/auth';
+import { detectSubscriptions } from '@/utils/subscriptions';
+import { getSpendTransactions } from '@/services/spendTransactions';
+
+// Matches the 24 months of history requested from Plaid at link time. The
+// whole window is read (in pages): annual charges and "stopped" detection
+// need the oldest rows as much as the newest
+const HISTORY_MONTHS = 24;
+
+/** Recurring charges detected from the user's transaction history. */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const now = new Date();
+    const transactions = await getSpendTransactions(session.user.id, subMonths(now, HISTORY_MONTHS), now) || [];
+    const subscriptions = detectSubscriptions(transactions, now);
+    const active = subscriptions.filter(s => s.status === 'active');
+
+    return NextResponse.json({
+      subscriptions,
+      summary: {
+        activeCount: active.length,
+        annualizedTotal: Math.round(active.reduce((sum, s) => sum + s.annualizedCost, 0) * 100) / 100,
+        priceIncreaseCount: active.filter(s => s.priceIncrease).length,
+        stoppedCount: subscriptions.length - active.length,
+      },
+    });
+  } catch (error) {
+    console.error('GET subscriptions error:', error);
+    return NextResponse.json({ error: 'Failed to detect subscriptions' }, { status: 500 });
+  }
+}
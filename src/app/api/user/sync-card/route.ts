@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth';
 import { supabaseAdmin } from '@/lib/supabase';
 import { plaidService } from '@/services/plaid';
 import { decrypt } from '@/lib/encryption';
+import { rebuildCardCycles } from '@/services/manualCards';
 
 export async function POST(request: NextRequest) {
   try {
@@ -24,7 +25,7 @@ export async function POST(request: NextRequest) {
     // Get the Plaid item and access token
     const { data: plaidItem, error: plaidItemError } = await supabaseAdmin
       .from('plaid_items')
-      .select('id, itemId, userId, accessToken, institutionId, institutionName, credit_cards(*)')
+      .select('id, itemId, userId, accessToken, institutionId, institutionName, is_manual, credit_cards(*)')
       .eq('itemId', itemId)
       .eq('userId', session.user.id)
       .single();
@@ -34,6 +35,17 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Plaid item not found' }, { status: 404 });
     }
 
+    // Manual cards have nothing to fetch; refreshing just rebuilds their cycles
+    if (plaidItem.is_manual) {
+      const manualCardIds: string[] = cardId ? [cardId] : plaidItem.credit_cards.map((card: any) => card.id);
+      await rebuildCardCycles(manualCardIds);
+      return NextResponse.json({
+        success: true,
+        message: 'Regenerated billing cycles for manual card(s)',
+        cardsSynced: manualCardIds.length
+      });
+    }
+
     // Decrypt the access token before using it
     if (!plaidItem.accessToken) {
       return NextResponse.json({ error: 'No access token for item' }, { status: 400 });
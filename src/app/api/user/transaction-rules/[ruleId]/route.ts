@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { deleteTransactionRule, updateTransactionRule } from '@/services/transactionRules';
+import { validateTransactionRule } from '@/utils/transactionRules';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { ruleId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Invalid rule payload' }, { status: 400 });
+    }
+
+    const { rule, error } = validateTransactionRule(body);
+    if (!rule) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const updated = await updateTransactionRule(session.user.id, params.ruleId, rule);
+    if (!updated) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, rule: updated });
+  } catch (error) {
+    console.error('PUT transaction rule error:', error);
+    return NextResponse.json({ error: 'Failed to update transaction rule' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { ruleId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const deleted = await deleteTransactionRule(session.user.id, params.ruleId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('DELETE transaction rule error:', error);
+    return NextResponse.json({ error: 'Failed to delete transaction rule' }, { status: 500 });
+  }
+}
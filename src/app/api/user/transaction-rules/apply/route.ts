@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { enqueueJob } from '@/services/jobQueue';
+import { kickJobWorker } from '@/services/jobWorker';
+import { getTransactionRules } from '@/services/transactionRules';
+import { applyTransactionRules, compileTransactionRules } from '@/utils/transactionRules';
+
+// PostgREST caps responses at 1000 rows, so full histories are read in pages
+const PAGE_SIZE = 1000;
+
+/**
+ * Re-run the user's rules over all their transactions: queues a
+ * recalculation of stored billing cycle spend totals and reports how many
+ * transactions each rule matches. Analytics applies rules at read time and
+ * needs no re-run.
+ */
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: cards, error: cardsError } = await supabaseAdmin
+      .from('credit_cards')
+      .select('id, plaid_items!inner(userId)')
+      .eq('plaid_items.userId', session.user.id);
+
+    if (cardsError) {
+      throw new Error(`Failed to fetch credit cards: ${cardsError.message}`);
+    }
+
+    const cardIds = (cards || []).map(card => card.id);
+    const rules = compileTransactionRules(await getTransactionRules(session.user.id));
+
+    const matchCounts: Record<string, number> = {};
+    if (cardIds.length > 0 && rules.length > 0) {
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        const { data: transactions, error: transactionsError } = await supabaseAdmin
+          .from('transactions')
+          .select('name, merchantName, amount, creditCardId, category')
+          .in('creditCardId', cardIds)
+          .order('id', { ascending: true })
+          .range(offset, offset + PAGE_SIZE - 1);
+
+        if (transactionsError) {
+          throw new Error(`Failed to fetch transactions: ${transactionsError.message}`);
+        }
+
+        for (const transaction of transactions || []) {
+          const { ruleId } = applyTransactionRules(transaction, rules);
+          if (ruleId) matchCounts[ruleId] = (matchCounts[ruleId] || 0) + 1;
+        }
+        if (!transactions || transactions.length < PAGE_SIZE) break;
+      }
+    }
+
+    // Stored spend totals are recalculated in the background
+    let jobId: string | null = null;
+    if (cardIds.length > 0) {
+      const { job } = await enqueueJob({
+        type: 'cycle_regeneration',
+        userId: session.user.id,
+        payload: { creditCardIds: cardIds },
+      });
+      jobId = job.id;
+      kickJobWorker(['cycle_regeneration']);
+    }
+
+    return NextResponse.json({ success: true, cardsQueued: cardIds.length, jobId, matchCounts });
+  } catch (error) {
+    console.error('Apply transaction rules error:', error);
+    return NextResponse.json({ error: 'Failed to apply transaction rules' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createTransactionRule, getTransactionRules } from '@/services/transactionRules';
+import { validateTransactionRule } from '@/utils/transactionRules';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const rules = await getTransactionRules(session.user.id);
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('GET transaction rules error:', error);
+    return NextResponse.json({ error: 'Failed to load transaction rules' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Invalid rule payload' }, { status: 400 });
+    }
+
+    const { rule, error } = validateTransactionRule(body);
+    if (!rule) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const created = await createTransactionRule(session.user.id, rule);
+    if (!created) {
+      return NextResponse.json({ error: 'Card not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, rule: created });
+  } catch (error) {
+    console.error('POST transaction rule error:', error);
+    return NextResponse.json({ error: 'Failed to create transaction rule' }, { status: 500 });
+  }
+}
@@ -1,20 +1,30 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { supabaseAdmin } from '@/lib/supabase';
+import { encodeTransactionCursor, parseTransactionQuery } from '@/utils/transactionQuery';
 
+/**
+ * Search the user's transactions.
+ * Query: cardId (repeatable or comma separated), category, q (name/merchant text),
+ * minAmount, maxAmount, pending (true|false), kind (payment|purchase),
+ * startDate, endDate, sort (date|amount), order (asc|desc), limit, cursor,
+ * facets=1 (also return the user's categories for filter menus)
+ */
 export async function GET(request: Request) {
   try {
     const session = await getServerSession(authOptions);
-    
+
     if (!session?.user?.id) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const { searchParams } = new URL(request.url);
-    const startDate = searchParams.get('startDate');
-    const endDate = searchParams.get('endDate');
-    const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : 100;
+    const { query: filters, error: queryError } = parseTransactionQuery(searchParams);
+    if (!filters) {
+      return NextResponse.json({ error: queryError }, { status: 400 });
+    }
+    const includeFacets = searchParams.get('facets') === '1';
 
     // Get user's plaid items first
     const { data: plaidItems, error: plaidError } = await supabaseAdmin
@@ -28,10 +38,12 @@ export async function GET(request: Request) {
 
     const plaidItemIds = (plaidItems || []).map(item => item.id);
     if (plaidItemIds.length === 0) {
-      return NextResponse.json({ transactions: [] });
+      return NextResponse.json({ transactions: [], nextCursor: null, ...(includeFacets ? { categories: [] } : {}) });
     }
 
-    // Build query for transactions
+    const ascending = filters.order === 'asc';
+
+    // Build query for transactions; id breaks ties so the keyset order is total
     let query = supabaseAdmin
       .from('transactions')
       .select(`
@@ -39,14 +51,43 @@ export async function GET(request: Request) {
         credit_cards!inner(name, mask)
       `)
       .in('plaidItemId', plaidItemIds)
-      .order('date', { ascending: false })
-      .limit(limit);
+      .order(filters.sort, { ascending })
+      .order('id', { ascending })
+      .limit(filters.limit + 1);
 
-    // Add date filtering if provided
-    if (startDate && endDate) {
-      query = query
-        .gte('date', new Date(startDate).toISOString())
-        .lte('date', new Date(endDate).toISOString());
+    if (filters.cardIds.length > 0) {
+      query = query.in('creditCardId', filters.cardIds);
+    }
+    if (filters.category) {
+      query = query.eq('category', filters.category);
+    }
+    if (filters.search) {
+      query = query.or(`name.ilike."*${filters.search}*",merchantName.ilike."*${filters.search}*"`);
+    }
+    if (filters.minAmount !== null) {
+      query = query.gte('amount', filters.minAmount);
+    }
+    if (filters.maxAmount !== null) {
+      query = query.lte('amount', filters.maxAmount);
+    }
+    if (filters.pending !== null) {
+      query = query.eq('pending', filters.pending);
+    }
+    if (filters.kind) {
+      query = query.eq('is_payment', filters.kind === 'payment');
+    }
+    if (filters.startDate) {
+      query = query.gte('date', filters.startDate);
+    }
+    if (filters.endDate) {
+      query = query.lte('date', filters.endDate);
+    }
+
+    // Keyset pagination: rows strictly after the last (sort value, id) returned
+    if (filters.cursor) {
+      const op = ascending ? 'gt' : 'lt';
+      const value = typeof filters.cursor.value === 'number' ? filters.cursor.value : `"${filters.cursor.value}"`;
+      query = query.or(`${filters.sort}.${op}.${value},and(${filters.sort}.eq.${value},id.${op}.${filters.cursor.id})`);
     }
 
     const { data: transactions, error: transactionsError } = await query;
@@ -55,8 +96,17 @@ export async function GET(request: Request) {
       throw new Error(`Failed to fetch transactions: ${transactionsError.message}`);
     }
 
+    const page = (transactions || []).slice(0, filters.limit);
+    const last = page[page.length - 1];
+    const nextCursor = (transactions || []).length > filters.limit && last
+      ? encodeTransactionCursor({
+          value: filters.sort === 'amount' ? Number(last.amount) : last.date,
+          id: last.id,
+        })
+      : null;
+
     // Format the response to match the expected structure
-    const formattedTransactions = (transactions || []).map(transaction => ({
+    const formattedTransactions = page.map(transaction => ({
       ...transaction,
       creditCard: transaction.credit_cards ? {
         name: transaction.credit_cards.name,
@@ -64,9 +114,21 @@ export async function GET(request: Request) {
       } : null
     }));
 
-    return NextResponse.json({ transactions: formattedTransactions });
+    let categories: string[] | undefined;
+    if (includeFacets) {
+      // Distinct in SQL: selecting every category row would stop at the PostgREST row cap
+      const { data: categoryRows, error: categoriesError } = await supabaseAdmin
+        .rpc('transaction_categories', { p_plaid_item_ids: plaidItemIds });
+
+      if (categoriesError) {
+        throw new Error(`Failed to fetch categories: ${categoriesError.message}`);
+      }
+      categories = ((categoryRows || []) as { category: string }[]).map(row => row.category);
+    }
+
+    return NextResponse.json({ transactions: formattedTransactions, nextCursor, ...(categories ? { categories } : {}) });
   } catch (error) {
     console.error('Error fetching transactions:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { planUtilizationPayments } from '@/utils/utilizationPlanner';
+
+const DEFAULT_OVERALL_TARGET = 10;
+
+function parsePercent(value: string | null): number | null | undefined {
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  if (!isFinite(parsed) || parsed < 0 || parsed > 100) return null;
+  return parsed;
+}
+
+/**
+ * Recommended pre-statement payments for the user's cards.
+ * Query: overall (percent, default 10), perCard (percent, optional)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const url = new URL(request.url);
+    const overall = parsePercent(url.searchParams.get('overall'));
+    const perCard = parsePercent(url.searchParams.get('perCard'));
+    if (overall === null || perCard === null) {
+      return NextResponse.json({ error: 'Targets must be percentages between 0 and 100' }, { status: 400 });
+    }
+
+    const { data: cards, error: cardsError } = await supabaseAdmin
+      .from('credit_cards')
+      .select('id, name, mask, balanceCurrent, balanceLimit, ismanuallimit, manualcreditlimit, lastStatementIssueDate, plaid_items!inner(userId)')
+      .eq('plaid_items.userId', session.user.id);
+
+    if (cardsError) {
+      throw new Error(`Failed to fetch credit cards: ${cardsError.message}`);
+    }
+
+    const cardIds = (cards || []).map(card => card.id);
+    const openCycleEnds = new Map<string, string>();
+    if (cardIds.length > 0) {
+      // Open cycle = the earliest cycle that has not closed yet
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      const { data: openCycles, error: cyclesError } = await supabaseAdmin
+        .from('billing_cycles')
+        .select('creditCardId, endDate')
+        .in('creditCardId', cardIds)
+        .gte('endDate', today.toISOString())
+        .order('endDate', { ascending: true });
+
+      if (cyclesError) {
+        throw new Error(`Failed to fetch billing cycles: ${cyclesError.message}`);
+      }
+
+      for (const cycle of openCycles || []) {
+        if (!openCycleEnds.has(cycle.creditCardId)) {
+          openCycleEnds.set(cycle.creditCardId, cycle.endDate);
+        }
+      }
+    }
+
+    const plan = planUtilizationPayments(
+      (cards || []).map(card => ({ ...card, openCycleEndDate: openCycleEnds.get(card.id) ?? null })),
+      { overallPercent: overall ?? DEFAULT_OVERALL_TARGET, perCardPercent: perCard ?? null }
+    );
+
+    return NextResponse.json(plan);
+  } catch (error) {
+    console.error('Utilization plan error:', error);
+    return NextResponse.json({ error: 'Failed to build utilization plan' }, { status: 500 });
+  }
+}
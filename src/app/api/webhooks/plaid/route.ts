@@ -1,16 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { plaidClient } from '@/lib/plaid';
-import { supabaseAdmin } from '@/lib/supabase';
-import { plaidService } from '@/services/plaid';
-import { decrypt } from '@/lib/encryption';
+import { processWebhookEvent, recordWebhookEvent } from '@/services/webhookEvents';
 import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 
-// In-memory store for tracking recent webhook processing
-// This prevents duplicate processing when multiple webhooks arrive simultaneously
-const recentWebhooks = new Map<string, number>();
-const WEBHOOK_DEDUP_WINDOW = 10000; // 10 seconds
-
 async function verifyPlaidWebhook(body: string, jwtToken: string): Promise<boolean> {
   try {
     console.log('🔐 Starting webhook verification...');
@@ -132,273 +125,55 @@ async function verifyPlaidWebhook(body: string, jwtToken: string): Promise<boole
   }
 }
 
+/**
+ * Plaid webhook receiver. Each delivery is journaled before processing
+ * (services/webhookEvents.ts): duplicates are answered from the journal, and
+ * failures are retried by the webhook-retries cron rather than by asking
+ * Plaid to redeliver, so only a failure to journal returns a 5xx.
+ */
 export async function POST(request: NextRequest) {
   try {
-    console.log('🌐 Webhook POST endpoint called at:', new Date().toISOString());
-    console.log('🌐 Request headers:', Object.fromEntries(request.headers.entries()));
-    
+    const receivedAt = new Date();
+    console.log('🌐 Webhook POST endpoint called at:', receivedAt.toISOString());
+
     // Get raw body for JWT verification
     const rawBody = await request.text();
     const jwtToken = request.headers.get('plaid-verification') || '';
-    
+
     console.log('🌐 Raw body received, length:', rawBody.length);
     console.log('🌐 JWT token from header:', jwtToken ? 'Present' : 'Missing');
-    
+
     // Verify webhook JWT for security
-    console.log('🌐 About to call verifyPlaidWebhook...');
     const verificationResult = await verifyPlaidWebhook(rawBody, jwtToken);
     console.log('🌐 Verification result:', verificationResult);
-    
+
+    const { event, duplicate } = await recordWebhookEvent({ rawBody, verified: verificationResult, receivedAt });
+
     if (!verificationResult) {
-      console.error('🚫 Invalid webhook JWT - potential security threat');
+      console.error(`🚫 Invalid webhook JWT - potential security threat (journaled as ${event.id})`);
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
-    
-    const body = JSON.parse(rawBody);
-    const { webhook_type, webhook_code, item_id, error } = body;
 
-    console.log('✅ Verified Plaid webhook received:', { webhook_type, webhook_code, item_id });
-
-    if (error) {
-      console.error('Plaid webhook error:', error);
-      return NextResponse.json({ error: 'Webhook error' }, { status: 400 });
-    }
+    console.log('✅ Verified Plaid webhook received:', {
+      eventId: event.id,
+      webhook_type: event.webhook_type,
+      webhook_code: event.webhook_code,
+      item_id: event.item_id
+    });
 
-    // Create a unique key for this webhook
-    const webhookKey = `${webhook_type}-${webhook_code}-${item_id}`;
-    const now = Date.now();
-    
-    // Check if we've processed this webhook recently
-    const lastProcessed = recentWebhooks.get(webhookKey);
-    if (lastProcessed && (now - lastProcessed) < WEBHOOK_DEDUP_WINDOW) {
-      console.log(`⚠️ Duplicate webhook detected (${webhookKey}), skipping processing. Last processed ${now - lastProcessed}ms ago.`);
+    if (duplicate) {
+      console.log(`⚠️ Duplicate webhook delivery for event ${event.id} (${event.status}), skipping processing`);
       return NextResponse.json({ received: true, deduplicated: true });
     }
-    
-    // Mark this webhook as processed
-    recentWebhooks.set(webhookKey, now);
-    
-    // Clean up old entries
-    for (const [key, timestamp] of recentWebhooks.entries()) {
-      if (now - timestamp > WEBHOOK_DEDUP_WINDOW * 2) {
-        recentWebhooks.delete(key);
-      }
-    }
 
-    switch (webhook_type) {
-      case 'TRANSACTIONS':
-        await handleTransactionWebhook(webhook_code, item_id);
-        break;
-      case 'LIABILITIES':
-        await handleLiabilitiesWebhook(webhook_code, item_id);
-        break;
-      case 'ITEM':
-        await handleItemWebhook(webhook_code, item_id);
-        break;
-      default:
-        console.log(`Unhandled webhook type: ${webhook_type}`);
+    const result = await processWebhookEvent(event.id);
+    if (result?.status === 'failed') {
+      console.warn(`⚠️ Webhook event ${event.id} failed, queued for retry: ${result.error}`);
     }
 
-    return NextResponse.json({ received: true });
+    return NextResponse.json({ received: true, status: result?.status });
   } catch (error) {
     console.error('Webhook processing error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
-
-async function handleTransactionWebhook(webhookCode: string, itemId: string) {
-  switch (webhookCode) {
-    case 'INITIAL_UPDATE':
-    case 'HISTORICAL_UPDATE':
-    case 'DEFAULT_UPDATE':
-    case 'SYNC_UPDATES_AVAILABLE':
-      console.log(`Processing transaction update for item: ${itemId}`);
-      
-      // Get the plaid item and access token from database
-      const { data: plaidItem, error } = await supabaseAdmin
-        .from('plaid_items')
-        .select('*')
-        .eq('itemId', itemId)
-        .single();
-      
-      if (error || !plaidItem) {
-        console.error(`❌ ORPHANED ITEM DETECTED: No Plaid item found for itemId: ${itemId}`, error);
-        
-        // Log this as an orphaned item for cleanup
-        console.log(`🧹 ORPHANED ITEM: ${itemId} - webhook type: TRANSACTIONS, code: ${webhookCode}`);
-        
-        // Try to get institution info from Plaid to help with identification
-        try {
-          // We can't get institution info without access token, so just log the item ID
-          console.log(`📋 CLEANUP NEEDED: Item ${itemId} should be removed from Plaid system`);
-          
-          // Store orphaned items for later cleanup (optional - implement if needed)
-          await logOrphanedItem(itemId, 'TRANSACTIONS', webhookCode);
-        } catch (identificationError) {
-          console.error(`Failed to identify orphaned item ${itemId}:`, identificationError);
-        }
-        
-        return; // Return successfully - don't let orphaned items break webhook processing
-      }
-
-      // Check if we've synced this item recently (within 12 hours) to avoid unnecessary API calls
-      const lastSyncDate = plaidItem.lastSyncAt ? new Date(plaidItem.lastSyncAt) : null;
-      const twelveHoursAgo = new Date();
-      twelveHoursAgo.setHours(twelveHoursAgo.getHours() - 12);
-      
-      if (lastSyncDate && lastSyncDate > twelveHoursAgo) {
-        const hoursAgo = Math.round((Date.now() - lastSyncDate.getTime()) / (1000 * 60 * 60));
-        console.log(`⏭️ Webhook sync skipped for ${plaidItem.institutionName} - item was synced ${hoursAgo}h ago (less than 12h)`);
-        console.log(`📊 Webhook type: ${webhookCode}, Item: ${itemId}`);
-        console.log(`🕐 Last sync: ${lastSyncDate.toISOString()}, Current time: ${new Date().toISOString()}`);
-        
-        // Log telemetry for skipped webhook sync
-        try {
-          await supabaseAdmin.from('user_sync_telemetry').insert({
-            user_id: plaidItem.userId,
-            event: 'webhook_sync_skipped',
-            details: { 
-              itemId, 
-              webhookCode, 
-              lastSyncAt: lastSyncDate.toISOString(),
-              hoursAgo,
-              reason: '12_hour_staleness_check'
-            }
-          });
-        } catch {}
-        
-        return; // Skip sync - data is fresh enough
-      }
-
-      console.log(`✅ Webhook sync proceeding - data is stale (${lastSyncDate ? 'last synced ' + Math.round((Date.now() - lastSyncDate.getTime()) / (1000 * 60 * 60)) + 'h ago' : 'never synced'})`);
-
-      // Decrypt the access token before using it
-      const decryptedAccessToken = decrypt(plaidItem.accessToken);
-      await plaidService.syncTransactions(plaidItem, decryptedAccessToken);
-      break;
-    case 'TRANSACTIONS_REMOVED':
-      console.log(`Transactions removed for item: ${itemId}`);
-      break;
-    default:
-      console.log(`Unhandled transaction webhook code: ${webhookCode}`);
-  }
-}
-
-async function handleLiabilitiesWebhook(webhookCode: string, itemId: string) {
-  switch (webhookCode) {
-    case 'DEFAULT_UPDATE':
-      console.log(`Processing liabilities update for item: ${itemId}`);
-      const { data: plaidItem, error } = await supabaseAdmin
-        .from('plaid_items')
-        .select('*')
-        .eq('itemId', itemId)
-        .single();
-      
-      if (error || !plaidItem) {
-        console.error(`❌ ORPHANED ITEM DETECTED: No Plaid item found for itemId: ${itemId}`, error);
-        console.log(`🧹 ORPHANED ITEM: ${itemId} - webhook type: LIABILITIES, code: ${webhookCode}`);
-        console.log(`📋 CLEANUP NEEDED: Item ${itemId} should be removed from Plaid system`);
-        
-        await logOrphanedItem(itemId, 'LIABILITIES', webhookCode);
-        return; // Return successfully - don't let orphaned items break webhook processing
-      }
-
-      // Check if we've synced this item recently (within 12 hours) to avoid unnecessary API calls
-      const lastSyncDate = plaidItem.lastSyncAt ? new Date(plaidItem.lastSyncAt) : null;
-      const twelveHoursAgo = new Date();
-      twelveHoursAgo.setHours(twelveHoursAgo.getHours() - 12);
-      
-      if (lastSyncDate && lastSyncDate > twelveHoursAgo) {
-        const hoursAgo = Math.round((Date.now() - lastSyncDate.getTime()) / (1000 * 60 * 60));
-        console.log(`⏭️ Liabilities webhook sync skipped for ${plaidItem.institutionName} - item was synced ${hoursAgo}h ago (less than 12h)`);
-        console.log(`📊 Webhook type: LIABILITIES, Code: ${webhookCode}, Item: ${itemId}`);
-        console.log(`🕐 Last sync: ${lastSyncDate.toISOString()}, Current time: ${new Date().toISOString()}`);
-        
-        // Log telemetry for skipped webhook sync
-        try {
-          await supabaseAdmin.from('user_sync_telemetry').insert({
-            user_id: plaidItem.userId,
-            event: 'webhook_liabilities_sync_skipped',
-            details: { 
-              itemId, 
-              webhookCode, 
-              lastSyncAt: lastSyncDate.toISOString(),
-              hoursAgo,
-              reason: '12_hour_staleness_check'
-            }
-          });
-        } catch {}
-        
-        return; // Skip sync - data is fresh enough
-      }
-
-      console.log(`✅ Liabilities webhook sync proceeding - data is stale (${lastSyncDate ? 'last synced ' + Math.round((Date.now() - lastSyncDate.getTime()) / (1000 * 60 * 60)) + 'h ago' : 'never synced'})`);
-
-      // Decrypt the access token before using it
-      const decryptedAccessToken = decrypt(plaidItem.accessToken);
-      await plaidService.syncAccounts(decryptedAccessToken, itemId);
-      break;
-    default:
-      console.log(`Unhandled liabilities webhook code: ${webhookCode}`);
-  }
-}
-
-async function handleItemWebhook(webhookCode: string, itemId: string) {
-  switch (webhookCode) {
-    case 'ERROR':
-      console.log(`Item error for: ${itemId}`);
-      const { error: updateError } = await supabaseAdmin
-        .from('plaid_items')
-        .update({ updatedAt: new Date().toISOString() })
-        .eq('itemId', itemId);
-      
-      if (updateError) {
-        console.error('Error updating plaid item:', updateError);
-      }
-      break;
-    case 'PENDING_EXPIRATION':
-      console.log(`Item pending expiration: ${itemId}`);
-      break;
-    case 'USER_PERMISSION_REVOKED':
-      console.log(`User permission revoked for item: ${itemId}`);
-      const { error: deleteError } = await supabaseAdmin
-        .from('plaid_items')
-        .delete()
-        .eq('itemId', itemId);
-      
-      if (deleteError) {
-        console.error('Error deleting plaid item:', deleteError);
-      }
-      break;
-    default:
-      console.log(`Unhandled item webhook code: ${webhookCode}`);
-  }
-}
-
-// Function to log orphaned items for cleanup
-async function logOrphanedItem(itemId: string, webhookType: string, webhookCode: string) {
-  try {
-    console.log(`📝 Logging orphaned item for cleanup: ${itemId}`);
-    
-    // Create a log entry in the database for later cleanup
-    // This could be a dedicated table or just detailed logging
-    const orphanedItemLog = {
-      itemId: itemId,
-      webhookType: webhookType,
-      webhookCode: webhookCode,
-      detectedAt: new Date().toISOString(),
-      status: 'needs_cleanup'
-    };
-    
-    // For now, just log it. In the future, you could store this in a dedicated table
-    console.log(`🗃️  ORPHANED ITEM LOG:`, orphanedItemLog);
-    
-    // Optional: Store in database table for tracking
-    // await supabaseAdmin
-    //   .from('orphaned_items')
-    //   .upsert(orphanedItemLog, { onConflict: 'itemId' });
-    
-  } catch (error) {
-    console.error(`Failed to log orphaned item ${itemId}:`, error);
-  }
-}
@@ -93,7 +93,8 @@ export default function EmailSignIn() {
       });
 
       if (result?.error) {
-        setError('Invalid or expired verification code');
+        // Lockouts come back with their own message; anything else is a bad code
+        setError(result.error === 'CredentialsSignin' ? 'Invalid or expired verification code' : result.error);
         // Shake animation for error
         setCode(['', '', '', '', '', '']);
         setTimeout(() => inputRefs.current[0]?.focus(), 100);
@@ -3,6 +3,7 @@
 import { useEffect, useState, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { Loader2, CheckCircle, XCircle } from 'lucide-react';
+import { waitForJobs } from '@/lib/jobPolling';
 
 function PlaidCallbackContent() {
   const router = useRouter();
@@ -76,11 +77,14 @@ function PlaidCallbackContent() {
             
             if (syncResponse.ok) {
               const syncData = await syncResponse.json();
-              console.log('✅ New card sync completed successfully:', syncData);
+              console.log('🎯 New card sync queued:', syncData);
+              
+              const jobs = await waitForJobs((syncData.jobs || []).map((job: { id: string }) => job.id));
+              console.log('✅ New card sync finished:', jobs);
               
               // Verify sync actually created cards before claiming success
-              const hasSuccessfulResults = syncData.results?.some((result: any) => 
-                result.status === 'success' && result.creditCardsFound > 0
+              const hasSuccessfulResults = jobs.some(job => 
+                job.status === 'succeeded' && job.result?.status === 'success' && Number(job.result.creditCardsFound) > 0
               );
               
               if (hasSuccessfulResults) {
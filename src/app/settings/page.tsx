@@ -0,0 +1,25 @@
+import { getSession } from '@/lib/session';
+import { TransactionRulesSettings } from '@/components/TransactionRulesSettings';
+
+export const dynamic = 'force-dynamic';
+
+export default async function Settings() {
+  const session = await getSession();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
+          <p className="text-gray-600 mt-2">
+            {session?.user
+              ? 'Control how your transactions are categorized and counted'
+              : 'Sign in to manage your settings'}
+          </p>
+        </div>
+
+        {session?.user && <TransactionRulesSettings />}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import { getSession } from '@/lib/session';
+import { TransactionsExplorer } from '@/components/TransactionsExplorer';
+
+export const dynamic = 'force-dynamic';
+
+export default async function Transactions() {
+  const session = await getSession();
+
+  return <TransactionsExplorer isLoggedIn={!!session?.user} />;
+}
@@ -1,9 +1,12 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { signOut } from 'next-auth/react';
-import { Trash2, AlertTriangle, Shield, Database, Clock } from 'lucide-react';
+import { Trash2, AlertTriangle, Shield, Database, Clock, Tags } from 'lucide-react';
 import { ConfirmationDialog } from './ConfirmationDialog';
+import { PaymentReminderSettings } from './PaymentReminderSettings';
+import { DataExportSettings } from './DataExportSettings';
 
 interface AccountSettingsProps {
   isOpen: boolean;
@@ -118,6 +121,26 @@ export function AccountSettings({ isOpen, onClose, userEmail }: AccountSettingsP
             </div>
           </div>
 
+          {/* Payment Reminders */}
+          <PaymentReminderSettings />
+
+          {/* Categorization Rules */}
+          <div className="space-y-4 mb-8">
+            <h3 className="font-semibold text-gray-900 flex items-center">
+              <Tags className="h-4 w-4 mr-2" />
+              Categorization Rules
+            </h3>
+            <div className="bg-gray-50 rounded-lg p-4 flex items-center justify-between text-sm text-gray-700">
+              <span>Recategorize, rename or exclude transactions from spend</span>
+              <Link href="/settings" onClick={onClose} className="font-medium text-indigo-600 hover:text-indigo-700">
+                Manage rules
+              </Link>
+            </div>
+          </div>
+
+          {/* Data Export */}
+          <DataExportSettings />
+
           {/* Danger Zone */}
           <div className="border-2 border-red-100 rounded-lg p-4">
             <h3 className="font-semibold text-red-900 flex items-center mb-3">
@@ -0,0 +1,490 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { LifeBuoy, Loader2, Mail, RefreshCw, Search, Wrench } from 'lucide-react';
+import { ConfirmationDialog } from '@/components/ConfirmationDialog';
+import type { SupportActionResult, SupportConnection, SupportUserSummary, SupportUserView } from '@/services/adminSupport';
+import type { SupportActionRequest } from '@/utils/adminSupport';
+import { formatCurrency, formatDate } from '@/utils/format';
+
+interface AdminSupportConsoleProps {
+  // Without write permission the console is read-only
+  canWrite: boolean;
+}
+
+interface PendingAction {
+  request: SupportActionRequest;
+  title: string;
+  message: string;
+  confirmText: string;
+}
+
+const inputClass = 'block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+const actionButtonClass = 'inline-flex items-center px-2 py-1 text-xs font-medium text-indigo-700 bg-indigo-50 rounded hover:bg-indigo-100 disabled:opacity-50';
+
+const CONNECTION_STYLES: Record<SupportConnection['status'], string> = {
+  healthy: 'bg-green-100 text-green-800',
+  stale: 'bg-yellow-100 text-yellow-800',
+  requires_auth: 'bg-orange-100 text-orange-800',
+  error: 'bg-red-100 text-red-800',
+  manual: 'bg-gray-100 text-gray-700',
+};
+
+// Job and webhook event statuses
+const STATUS_TEXT_STYLES: Record<string, string> = {
+  running: 'text-indigo-700',
+  processing: 'text-indigo-700',
+  succeeded: 'text-green-700',
+  processed: 'text-green-700',
+  failed: 'text-red-700',
+  dead: 'text-red-700',
+  rejected: 'text-red-700',
+};
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+export function AdminSupportConsole({ canWrite }: AdminSupportConsoleProps) {
+  const [query, setQuery] = useState('');
+  const [users, setUsers] = useState<SupportUserSummary[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [view, setView] = useState<SupportUserView | null>(null);
+  const [loadingUserId, setLoadingUserId] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [running, setRunning] = useState(false);
+  const [actionResult, setActionResult] = useState<SupportActionResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const search = async () => {
+    setSearching(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/users?q=${encodeURIComponent(query.trim())}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to search users');
+      }
+      setUsers(data.users);
+    } catch (searchError) {
+      console.error('Failed to search users:', searchError);
+      setError(searchError instanceof Error ? searchError.message : 'Failed to search users');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const loadUser = async (userId: string) => {
+    setLoadingUserId(userId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/users/${userId}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load user');
+      }
+      setView(data);
+    } catch (loadError) {
+      console.error('Failed to load user:', loadError);
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load user');
+    } finally {
+      setLoadingUserId(null);
+    }
+  };
+
+  const openUser = (userId: string) => {
+    setActionResult(null);
+    loadUser(userId);
+  };
+
+  const runAction = async () => {
+    if (!pending || !view) return;
+    const { request } = pending;
+    setPending(null);
+    setRunning(true);
+    setError(null);
+    setActionResult(null);
+    try {
+      const response = await fetch(`/api/admin/users/${view.user.id}/actions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Support action failed');
+      }
+      setActionResult(data.result);
+      await loadUser(view.user.id);
+    } catch (actionError) {
+      console.error('Failed to run support action:', actionError);
+      setError(actionError instanceof Error ? actionError.message : 'Support action failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const confirmResync = (connection: SupportConnection) => setPending({
+    request: { action: 'resync-item', plaidItemId: connection.id, cardId: null },
+    title: `Resync ${connection.institutionName || connection.itemId}?`,
+    message: 'Queues a full sync of accounts, limits, transactions and cycles for this connection.',
+    confirmText: 'Queue resync',
+  });
+
+  const confirmReconnectEmail = (connection: SupportConnection) => setPending({
+    request: { action: 'send-reconnect-email', plaidItemId: connection.id, cardId: null },
+    title: 'Send reconnect email?',
+    message: `Emails ${view?.user.email} asking them to reconnect ${connection.institutionName || 'this bank'} from their dashboard.`,
+    confirmText: 'Send email',
+  });
+
+  const confirmRegenerate = (card: { id: string; name: string } | null) => setPending({
+    request: { action: 'regenerate-cycles', plaidItemId: null, cardId: card?.id || null },
+    title: `Regenerate cycles for ${card ? card.name : 'every card'}?`,
+    message: 'Deletes the stored billing cycles and calculates them again from transactions and statements.',
+    confirmText: 'Regenerate',
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-sm">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center">
+            <LifeBuoy className="h-5 w-5 text-indigo-600 mr-2" />
+            <h3 className="font-semibold text-gray-900">Find a user</h3>
+          </div>
+          <Link href="/admin/diagnostics" className="text-sm text-indigo-600 hover:text-indigo-800">Diagnostics</Link>
+        </div>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            search();
+          }}
+          className="flex gap-2"
+        >
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Email, name or user id (empty for newest users)"
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={searching}
+            className="flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {searching ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Search className="h-4 w-4 mr-1" />}
+            Search
+          </button>
+        </form>
+
+        {users && (
+          users.length === 0 ? (
+            <p className="text-sm text-gray-500 mt-4">No users found</p>
+          ) : (
+            <table className="w-full text-sm mt-4">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="py-1 pr-3">Email</th>
+                  <th className="py-1 pr-3">Name</th>
+                  <th className="py-1 pr-3">Sign-in</th>
+                  <th className="py-1 pr-3">Connections</th>
+                  <th className="py-1 pr-3">Cards</th>
+                  <th className="py-1">Joined</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {users.map(user => (
+                  <tr
+                    key={user.id}
+                    onClick={() => openUser(user.id)}
+                    className={`cursor-pointer hover:bg-gray-50 ${view?.user.id === user.id ? 'bg-indigo-50' : ''}`}
+                  >
+                    <td className="py-1 pr-3">
+                      {loadingUserId === user.id && <Loader2 className="inline h-3 w-3 animate-spin mr-1" />}
+                      {user.email}
+                    </td>
+                    <td className="py-1 pr-3">{user.name || '—'}</td>
+                    <td className="py-1 pr-3">{user.authType}</td>
+                    <td className="py-1 pr-3">
+                      {user.connections}
+                      {user.connectionsNeedingAttention > 0 && (
+                        <span className="ml-1 text-xs text-red-700">({user.connectionsNeedingAttention} need attention)</span>
+                      )}
+                    </td>
+                    <td className="py-1 pr-3">{user.creditCards}</td>
+                    <td className="py-1">{formatDate(user.createdAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )
+        )}
+
+        {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+      </div>
+
+      {view && (
+        <>
+          <div className="bg-white p-6 rounded-lg shadow-sm">
+            <div className="flex items-start justify-between">
+              <div>
+                <h3 className="font-semibold text-gray-900">{view.user.email}</h3>
+                <p className="text-sm text-gray-600 mt-1">
+                  {view.user.name || 'No name'} · {view.authType} · joined {formatDate(view.user.createdAt)}
+                  {view.role && ` · ${view.role}`}
+                </p>
+                <p className="text-xs text-gray-400 font-mono mt-1">{view.user.id}</p>
+              </div>
+              <button
+                onClick={() => loadUser(view.user.id)}
+                disabled={loadingUserId !== null}
+                className="flex items-center px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+              >
+                <RefreshCw className={`h-4 w-4 mr-1 ${loadingUserId ? 'animate-spin' : ''}`} />
+                Refresh
+              </button>
+            </div>
+            {!canWrite && <p className="text-xs text-gray-500 mt-3">Your role can view users but not run support actions</p>}
+            {running && (
+              <p className="flex items-center text-sm text-gray-600 mt-3">
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                Running action...
+              </p>
+            )}
+            {actionResult && (
+              <div className={`mt-3 p-3 rounded text-sm ${actionResult.ok ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+                <p className="font-medium">{actionResult.summary}</p>
+                {actionResult.changes.map((change, index) => (
+                  <p key={index} className="text-xs mt-1">
+                    {change.subject}: {change.field} {change.error ? `failed: ${change.error}` : change.applied ? 'done' : 'skipped'}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white p-6 rounded-lg shadow-sm">
+            <h3 className="font-semibold text-gray-900 mb-3">Connections</h3>
+            {view.connections.length === 0 ? (
+              <p className="text-sm text-gray-500">No connections</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="py-1 pr-3">Institution</th>
+                    <th className="py-1 pr-3">Health</th>
+                    <th className="py-1 pr-3">Last sync</th>
+                    <th className="py-1 pr-3">Error</th>
+                    <th className="py-1 pr-3">Recommended</th>
+                    <th className="py-1" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {view.connections.map(connection => (
+                    <tr key={connection.id}>
+                      <td className="py-2 pr-3">
+                        {connection.institutionName || '—'}
+                        <span className="block text-xs text-gray-400 font-mono">{connection.itemId}</span>
+                      </td>
+                      <td className="py-2 pr-3">
+                        <span className={`px-2 py-0.5 rounded text-xs font-semibold ${CONNECTION_STYLES[connection.status]}`}>
+                          {connection.status.replace('_', ' ')}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-3">{formatDateTime(connection.lastSyncAt)}</td>
+                      <td className="py-2 pr-3 text-xs">
+                        {connection.errorCode
+                          ? <><span className="font-mono">{connection.errorCode}</span>{connection.errorMessage && ` ${connection.errorMessage}`}</>
+                          : '—'}
+                      </td>
+                      <td className="py-2 pr-3 text-xs text-gray-600">{connection.recommendedAction}</td>
+                      <td className="py-2 text-right whitespace-nowrap space-x-1">
+                        {!connection.isManual && (
+                          <button onClick={() => confirmResync(connection)} disabled={!canWrite || running} className={actionButtonClass}>
+                            <RefreshCw className="h-3 w-3 mr-1" />
+                            Resync
+                          </button>
+                        )}
+                        {(connection.status === 'requires_auth' || connection.status === 'error') && (
+                          <button onClick={() => confirmReconnectEmail(connection)} disabled={!canWrite || running} className={actionButtonClass}>
+                            <Mail className="h-3 w-3 mr-1" />
+                            Reconnect email
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="bg-white p-6 rounded-lg shadow-sm">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-semibold text-gray-900">Cards and cycles</h3>
+              {view.cards.length > 0 && (
+                <button onClick={() => confirmRegenerate(null)} disabled={!canWrite || running} className={actionButtonClass}>
+                  <Wrench className="h-3 w-3 mr-1" />
+                  Regenerate all cycles
+                </button>
+              )}
+            </div>
+            {view.cards.length === 0 ? (
+              <p className="text-sm text-gray-500">No cards</p>
+            ) : (
+              <div className="space-y-4">
+                {view.cards.map(card => (
+                  <div key={card.id} className="border border-gray-100 rounded-md p-3">
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <p className="font-medium text-gray-900">
+                          {card.name}{card.mask && ` •••• ${card.mask}`}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {card.institutionName || '—'} · opened {formatDate(card.openDate)} · last statement {formatDate(card.lastStatementIssueDate)}
+                          {card.balanceCurrent !== null && ` · balance ${formatCurrency(Number(card.balanceCurrent))}`}
+                          {card.balanceLimit !== null && ` of ${formatCurrency(Number(card.balanceLimit))}`}
+                        </p>
+                      </div>
+                      <button onClick={() => confirmRegenerate(card)} disabled={!canWrite || running} className={actionButtonClass}>
+                        <Wrench className="h-3 w-3 mr-1" />
+                        Regenerate cycles
+                      </button>
+                    </div>
+                    {card.recentCycles.length > 0 ? (
+                      <table className="w-full text-xs mt-2">
+                        <thead>
+                          <tr className="text-left text-gray-500 uppercase">
+                            <th className="py-1 pr-3">Cycle</th>
+                            <th className="py-1 pr-3">Spend</th>
+                            <th className="py-1 pr-3">Statement</th>
+                            <th className="py-1">Transactions</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {card.recentCycles.map(cycle => (
+                            <tr key={cycle.id}>
+                              <td className="py-1 pr-3">{formatDate(cycle.startDate)} – {formatDate(cycle.endDate)}</td>
+                              <td className="py-1 pr-3">{cycle.totalSpend !== null ? formatCurrency(Number(cycle.totalSpend)) : '—'}</td>
+                              <td className="py-1 pr-3">{cycle.statementBalance !== null ? formatCurrency(Number(cycle.statementBalance)) : '—'}</td>
+                              <td className="py-1">{cycle.transactionCount ?? '—'}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    ) : (
+                      <p className="text-xs text-gray-500 mt-2">No stored cycles</p>
+                    )}
+                    {card.cycleCount > card.recentCycles.length && (
+                      <p className="text-xs text-gray-400 mt-1">{card.cycleCount - card.recentCycles.length} older cycles not shown</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white p-6 rounded-lg shadow-sm">
+            <h3 className="font-semibold text-gray-900 mb-3">Jobs</h3>
+            {view.jobs.length === 0 ? (
+              <p className="text-sm text-gray-500">No recent jobs</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="py-1 pr-3">Created</th>
+                    <th className="py-1 pr-3">Type</th>
+                    <th className="py-1 pr-3">Status</th>
+                    <th className="py-1 pr-3">Attempts</th>
+                    <th className="py-1">Last error</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {view.jobs.map(job => (
+                    <tr key={job.id}>
+                      <td className="py-1 pr-3">{formatDateTime(job.createdAt)}</td>
+                      <td className="py-1 pr-3 font-mono text-xs">{job.type}</td>
+                      <td className={`py-1 pr-3 font-medium ${STATUS_TEXT_STYLES[job.status] || ''}`}>{job.status}</td>
+                      <td className="py-1 pr-3">{job.attempts}/{job.maxAttempts}</td>
+                      <td className="py-1 text-xs text-red-700">{job.lastError || ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="bg-white p-6 rounded-lg shadow-sm">
+            <h3 className="font-semibold text-gray-900 mb-3">Sync telemetry</h3>
+            {view.telemetry.length === 0 ? (
+              <p className="text-sm text-gray-500">No sync telemetry</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="py-1 pr-3">When</th>
+                    <th className="py-1 pr-3">Event</th>
+                    <th className="py-1">Details</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {view.telemetry.map(event => (
+                    <tr key={event.id}>
+                      <td className="py-1 pr-3 whitespace-nowrap">{formatDateTime(event.created_at)}</td>
+                      <td className="py-1 pr-3 font-mono text-xs">{event.event}</td>
+                      <td className="py-1 font-mono text-xs text-gray-600 break-all">{event.details ? JSON.stringify(event.details) : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="bg-white p-6 rounded-lg shadow-sm">
+            <h3 className="font-semibold text-gray-900 mb-3">Webhooks</h3>
+            {view.webhooks.length === 0 ? (
+              <p className="text-sm text-gray-500">No webhooks received for these connections</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="py-1 pr-3">Received</th>
+                    <th className="py-1 pr-3">Webhook</th>
+                    <th className="py-1 pr-3">Item</th>
+                    <th className="py-1 pr-3">Status</th>
+                    <th className="py-1">Last error</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {view.webhooks.map(event => (
+                    <tr key={event.id}>
+                      <td className="py-1 pr-3 whitespace-nowrap">{formatDateTime(event.received_at)}</td>
+                      <td className="py-1 pr-3 font-mono text-xs">{event.webhook_type}/{event.webhook_code}</td>
+                      <td className="py-1 pr-3 font-mono text-xs">{event.item_id}</td>
+                      <td className={`py-1 pr-3 font-medium ${STATUS_TEXT_STYLES[event.status] || ''}`}>
+                        {event.status}{event.attempts > 1 && ` (${event.attempts} attempts)`}
+                      </td>
+                      <td className="py-1 text-xs text-red-700">{event.last_error || ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+
+      <ConfirmationDialog
+        isOpen={pending !== null}
+        title={pending?.title || ''}
+        message={pending?.message || ''}
+        confirmText={pending?.confirmText}
+        onConfirm={runAction}
+        onCancel={() => setPending(null)}
+        type={pending?.request.action === 'regenerate-cycles' ? 'danger' : 'warning'}
+      />
+    </div>
+  );
+}
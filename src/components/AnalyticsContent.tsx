@@ -7,6 +7,10 @@ import { SpendingChart } from '@/components/SpendingChart';
 import { CategoryBreakdown } from '@/components/CategoryBreakdown';
 import { MonthlyComparison } from '@/components/MonthlyComparison';
 import { APRCalculator } from '@/components/APRCalculator';
+import { PayoffPlanner } from '@/components/PayoffPlanner';
+import { BudgetsPanel } from '@/components/BudgetsPanel';
+import { SubscriptionsPanel } from '@/components/SubscriptionsPanel';
+import { RewardsPanel } from '@/components/RewardsPanel';
 
 interface AnalyticsContentProps {
   isLoggedIn: boolean;
@@ -383,7 +387,28 @@ export function AnalyticsContent({ isLoggedIn }: AnalyticsContentProps) {
           </div>
         </div>
 
-        {/* APR Cost Calculator - Expandable Section */}
+        {/* Budgets with month or billing-cycle progress */}
+        {isLoggedIn && (
+          <div className="mt-8">
+            <BudgetsPanel categoryOptions={analytics?.categoryLabels || []} />
+          </div>
+        )}
+
+        {/* Subscriptions and other recurring charges */}
+        {isLoggedIn && (
+          <div className="mt-8">
+            <SubscriptionsPanel />
+          </div>
+        )}
+
+        {/* Estimated rewards and the best card per category */}
+        {isLoggedIn && (
+          <div className="mt-8">
+            <RewardsPanel />
+          </div>
+        )}
+
+        {/* APR Cost Calculator / Payoff Planner - Expandable Section */}
         <div className="mt-8">
           <div className="bg-white rounded-lg shadow-sm">
             <button
@@ -392,7 +417,7 @@ export function AnalyticsContent({ isLoggedIn }: AnalyticsContentProps) {
             >
               <div className="flex items-center">
                 <Calculator className="h-6 w-6 text-indigo-600 mr-3" />
-                <h2 className="text-xl font-semibold text-gray-900">APR Cost Calculator</h2>
+                <h2 className="text-xl font-semibold text-gray-900">{isLoggedIn ? 'Interest & Payoff Planner' : 'APR Cost Calculator'}</h2>
               </div>
               {isAPRCalculatorOpen ? (
                 <ChevronUp className="h-5 w-5 text-gray-500" />
@@ -403,7 +428,8 @@ export function AnalyticsContent({ isLoggedIn }: AnalyticsContentProps) {
             {isAPRCalculatorOpen && (
               <div className="px-6 pb-6 border-t">
                 <div className="pt-6">
-                  <APRCalculator />
+                  {/* Signed-in users plan against their real balances and APRs */}
+                  {isLoggedIn ? <PayoffPlanner /> : <APRCalculator />}
                 </div>
               </div>
             )}
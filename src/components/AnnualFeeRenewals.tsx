@@ -0,0 +1,171 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BadgeDollarSign, Loader2, ChevronDown, ChevronUp } from 'lucide-react';
+import { formatCurrency, formatDate } from '@/utils/format';
+import { normalizeCardDisplayName } from '@/utils/cardName';
+import { UPCOMING_RENEWAL_DAYS } from '@/utils/annualFees';
+import type { CardAnnualFee } from '@/services/annualFees';
+
+interface AnnualFeeRenewalsProps {
+  // Changes when the dashboard refreshes, so detected fees are re-read after a sync
+  refreshKey?: string;
+}
+
+interface FeeDraft {
+  annualFee: string;
+  annualFeeDueDate: string;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  plaid: 'from your bank',
+  detected: 'detected from transactions',
+  manual: 'entered by you',
+};
+
+export function AnnualFeeRenewals({ refreshKey }: AnnualFeeRenewalsProps) {
+  const [cards, setCards] = useState<CardAnnualFee[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [managing, setManaging] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, FeeDraft>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/user/annual-fees', { cache: 'no-store' })
+      .then(response => response.ok ? response.json() : { cards: [] })
+      .then(data => setCards(data.cards || []))
+      .catch(err => console.error('Failed to load annual fees:', err))
+      .finally(() => setLoading(false));
+  }, [refreshKey]);
+
+  const draftFor = (card: CardAnnualFee): FeeDraft => drafts[card.creditCardId] ?? {
+    annualFee: card.annualFee !== null ? String(card.annualFee) : '',
+    annualFeeDueDate: card.nextDueDate ? card.nextDueDate.split('T')[0] : '',
+  };
+
+  const updateDraft = (card: CardAnnualFee, changes: Partial<FeeDraft>) =>
+    setDrafts(prev => ({ ...prev, [card.creditCardId]: { ...draftFor(card), ...changes } }));
+
+  const saveFee = async (card: CardAnnualFee, clear = false) => {
+    const draft = draftFor(card);
+    setSavingId(card.creditCardId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/user/annual-fees/${card.creditCardId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(clear
+          ? { annualFee: null, annualFeeDueDate: null }
+          : { annualFee: draft.annualFee, annualFeeDueDate: draft.annualFeeDueDate }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save annual fee');
+      }
+      setCards(prev => prev.map(c => c.creditCardId === card.creditCardId ? data.card : c));
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[card.creditCardId];
+        return next;
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save annual fee');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const upcoming = cards.filter(card =>
+    card.annualFee && card.daysUntil !== null && card.daysUntil <= UPCOMING_RENEWAL_DAYS
+  );
+  const totalFees = cards.reduce((sum, card) => sum + (card.annualFee || 0), 0);
+
+  if (loading || cards.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center">
+          <BadgeDollarSign className="h-5 w-5 text-indigo-600 mr-2" />
+          <h3 className="font-semibold text-gray-900">Annual Fees</h3>
+          {totalFees > 0 && <span className="ml-2 text-sm text-gray-500">{formatCurrency(totalFees)}/yr total</span>}
+        </div>
+        <button
+          onClick={() => setManaging(!managing)}
+          className="flex items-center text-sm text-gray-600 hover:text-gray-900"
+        >
+          Manage fees
+          {managing ? <ChevronUp className="h-4 w-4 ml-1" /> : <ChevronDown className="h-4 w-4 ml-1" />}
+        </button>
+      </div>
+
+      {upcoming.length > 0 ? (
+        <div className="space-y-2">
+          {upcoming.map(card => (
+            <div key={card.creditCardId} className="flex items-center justify-between text-sm bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+              <span className="text-amber-900">
+                <strong>{normalizeCardDisplayName(card.name, card.mask ?? undefined)}</strong> renews {card.daysUntil === 0 ? 'today' : `in ${card.daysUntil} day${card.daysUntil === 1 ? '' : 's'}`} ({formatDate(card.nextDueDate)})
+              </span>
+              <span className="font-semibold text-amber-900">{formatCurrency(card.annualFee || 0)}</span>
+            </div>
+          ))}
+          <p className="text-xs text-gray-500">Call your issuer before the fee posts if you want a retention offer or a no-fee downgrade.</p>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">No annual fees renew in the next {UPCOMING_RENEWAL_DAYS} days.</p>
+      )}
+
+      {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+
+      {managing && (
+        <div className="mt-4 border-t pt-4 space-y-3">
+          {cards.map(card => {
+            const draft = draftFor(card);
+            return (
+              <div key={card.creditCardId} className="grid grid-cols-1 md:grid-cols-[1fr_8rem_10rem_auto] gap-2 items-center text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{normalizeCardDisplayName(card.name, card.mask ?? undefined)}</p>
+                  {card.source && <p className="text-xs text-gray-500">{SOURCE_LABELS[card.source]}</p>}
+                </div>
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.annualFee}
+                  onChange={(e) => updateDraft(card, { annualFee: e.target.value })}
+                  placeholder="Fee"
+                  className="px-2 py-1 border border-gray-300 rounded-md"
+                  aria-label="Annual fee"
+                />
+                <input
+                  type="date"
+                  value={draft.annualFeeDueDate}
+                  onChange={(e) => updateDraft(card, { annualFeeDueDate: e.target.value })}
+                  className="px-2 py-1 border border-gray-300 rounded-md"
+                  aria-label="Renewal date"
+                />
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => saveFee(card)}
+                    disabled={savingId === card.creditCardId || !draft.annualFee}
+                    className="flex items-center px-3 py-1 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    {savingId === card.creditCardId && <Loader2 className="h-3 w-3 animate-spin mr-1" />}
+                    Save
+                  </button>
+                  {card.source === 'manual' && (
+                    <button onClick={() => saveFee(card, true)} className="text-xs text-gray-500 hover:text-gray-700">
+                      Clear
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Target } from 'lucide-react';
+import { formatCurrency } from '@/utils/format';
+import type { BudgetWithProgress } from '@/services/budgets';
+
+interface BudgetAlertProps {
+  // Changes when the dashboard refreshes, so spend is re-read after a sync
+  refreshKey?: string;
+}
+
+/** Dashboard banner for budgets that are over, or projected to go over, their limit. */
+export function BudgetAlert({ refreshKey }: BudgetAlertProps) {
+  const [budgets, setBudgets] = useState<BudgetWithProgress[]>([]);
+
+  useEffect(() => {
+    fetch('/api/user/budgets', { cache: 'no-store' })
+      .then(response => response.ok ? response.json() : { budgets: [] })
+      .then(data => setBudgets(data.budgets || []))
+      .catch(err => console.error('Failed to load budgets for dashboard:', err));
+  }, [refreshKey]);
+
+  const over = budgets.filter(b => b.progress?.status === 'over');
+  const atRisk = budgets.filter(b => b.progress?.status === 'at_risk');
+  if (over.length === 0 && atRisk.length === 0) {
+    return null;
+  }
+
+  const describe = (budget: BudgetWithProgress) =>
+    `${budget.name || budget.category || 'Card budget'} (${formatCurrency(budget.progress?.spent ?? 0)} of ${formatCurrency(budget.amount)})`;
+
+  return (
+    <div className={`mb-4 rounded-lg border p-4 flex items-start justify-between gap-4 ${over.length > 0 ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
+      <div className="flex items-start">
+        <Target className={`h-5 w-5 mr-3 mt-0.5 ${over.length > 0 ? 'text-red-600' : 'text-amber-600'}`} />
+        <div className="text-sm">
+          {over.length > 0 && (
+            <p className="text-red-800">
+              <strong>Over budget:</strong> {over.map(describe).join(', ')}
+            </p>
+          )}
+          {atRisk.length > 0 && (
+            <p className="text-amber-800">
+              <strong>On pace to go over:</strong> {atRisk.map(describe).join(', ')}
+            </p>
+          )}
+        </div>
+      </div>
+      <Link href="/analytics" className="text-sm font-medium text-indigo-600 hover:text-indigo-700 flex-shrink-0">
+        View budgets
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Target, Loader2, Plus, Trash2, Edit3 } from 'lucide-react';
+import { formatCurrency, formatDate } from '@/utils/format';
+import { normalizeCardDisplayName } from '@/utils/cardName';
+import type { BudgetPeriod, BudgetStatus } from '@/utils/budgets';
+import type { BudgetWithProgress } from '@/services/budgets';
+
+interface CardOption {
+  id: string;
+  name: string;
+  mask: string;
+}
+
+interface BudgetForm {
+  name: string;
+  amount: string;
+  period: BudgetPeriod;
+  category: string;
+  creditCardId: string;
+}
+
+interface BudgetsPanelProps {
+  // Category labels as shown in analytics, offered as suggestions
+  categoryOptions: string[];
+}
+
+const EMPTY_FORM: BudgetForm = {
+  name: '',
+  amount: '',
+  period: 'monthly',
+  category: '',
+  creditCardId: '',
+};
+
+const STATUS_STYLES: Record<BudgetStatus, { bar: string; text: string; label: string }> = {
+  on_track: { bar: 'bg-green-500', text: 'text-green-700', label: 'On track' },
+  at_risk: { bar: 'bg-amber-500', text: 'text-amber-700', label: 'Projected over' },
+  over: { bar: 'bg-red-500', text: 'text-red-700', label: 'Over budget' },
+};
+
+const inputClass = 'block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+export function BudgetsPanel({ categoryOptions }: BudgetsPanelProps) {
+  const [budgets, setBudgets] = useState<BudgetWithProgress[]>([]);
+  const [cards, setCards] = useState<CardOption[]>([]);
+  const [form, setForm] = useState<BudgetForm | null>(null);
+  // null = creating a new budget
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBudgets = useCallback(async () => {
+    try {
+      const response = await fetch('/api/user/budgets', { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load budgets');
+      }
+      setBudgets(data.budgets);
+    } catch (err) {
+      console.error('Failed to load budgets:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load budgets');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBudgets();
+    fetch('/api/user/credit-cards?light=1', { cache: 'no-store' })
+      .then(response => response.ok ? response.json() : { creditCards: [] })
+      .then(data => setCards(data.creditCards || []))
+      .catch(err => console.error('Failed to load cards for budgets:', err));
+  }, [loadBudgets]);
+
+  const cardLabel = (id: string | null) => {
+    const card = cards.find(c => c.id === id);
+    return card ? normalizeCardDisplayName(card.name, card.mask) : 'Card';
+  };
+
+  const budgetTitle = (budget: BudgetWithProgress) => {
+    if (budget.name) return budget.name;
+    if (budget.category && budget.creditCardId) return `${budget.category} on ${cardLabel(budget.creditCardId)}`;
+    return budget.category || cardLabel(budget.creditCardId);
+  };
+
+  const startEditing = (budget: BudgetWithProgress | null) => {
+    setError(null);
+    setEditingId(budget?.id ?? null);
+    setForm(budget ? {
+      name: budget.name || '',
+      amount: String(budget.amount),
+      period: budget.period,
+      category: budget.category || '',
+      creditCardId: budget.creditCardId || '',
+    } : EMPTY_FORM);
+  };
+
+  const updateForm = <K extends keyof BudgetForm>(key: K, value: BudgetForm[K]) =>
+    setForm(prev => prev ? { ...prev, [key]: value } : prev);
+
+  const saveBudget = async () => {
+    if (!form) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(editingId ? `/api/user/budgets/${editingId}` : '/api/user/budgets', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save budget');
+      }
+      setForm(null);
+      setEditingId(null);
+      await loadBudgets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save budget');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteBudget = async (budget: BudgetWithProgress) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/user/budgets/${budget.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete budget');
+      }
+      setBudgets(prev => prev.filter(b => b.id !== budget.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete budget');
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <Target className="h-6 w-6 text-indigo-600 mr-3" />
+          <h2 className="text-xl font-semibold text-gray-900">Budgets</h2>
+        </div>
+        <button
+          onClick={() => startEditing(null)}
+          className="flex items-center px-3 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          New budget
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {form && (
+        <div className="border border-indigo-200 bg-indigo-50/40 rounded-lg p-4 mb-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input type="text" value={form.name} onChange={(e) => updateForm('name', e.target.value)} placeholder="Name (optional)" className={inputClass} aria-label="Budget name" />
+            <input type="number" min={0} value={form.amount} onChange={(e) => updateForm('amount', e.target.value)} placeholder="Limit" className={inputClass} aria-label="Budget limit" />
+            <select value={form.period} onChange={(e) => updateForm('period', e.target.value as BudgetPeriod)} className={inputClass} aria-label="Period">
+              <option value="monthly">Every calendar month</option>
+              <option value="billing_cycle">Every billing cycle</option>
+            </select>
+            <input
+              type="text"
+              list="budget-categories"
+              value={form.category}
+              onChange={(e) => updateForm('category', e.target.value)}
+              placeholder="Category (any)"
+              className={inputClass}
+              aria-label="Category"
+            />
+            <datalist id="budget-categories">
+              {categoryOptions.map(category => <option key={category} value={category} />)}
+            </datalist>
+            <select value={form.creditCardId} onChange={(e) => updateForm('creditCardId', e.target.value)} className={inputClass} aria-label="Card">
+              <option value="">{form.period === 'billing_cycle' ? 'Choose a card' : 'All cards'}</option>
+              {cards.map(card => (
+                <option key={card.id} value={card.id}>{normalizeCardDisplayName(card.name, card.mask)}</option>
+              ))}
+            </select>
+            <div className="flex items-center justify-end gap-2">
+              <button onClick={() => { setForm(null); setEditingId(null); }} className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900">
+                Cancel
+              </button>
+              <button
+                onClick={saveBudget}
+                disabled={saving}
+                className="flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {saving && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+                {editingId ? 'Save budget' : 'Add budget'}
+              </button>
+            </div>
+          </div>
+          {form.period === 'billing_cycle' && (
+            <p className="text-xs text-gray-600">Resets on the card&apos;s statement closing date instead of the 1st of the month.</p>
+          )}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center text-gray-500 text-sm">
+          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          Loading budgets...
+        </div>
+      ) : budgets.length === 0 ? (
+        <p className="text-gray-500 text-sm">
+          No budgets yet. Set a monthly or billing-cycle limit for a category or card to track progress here.
+        </p>
+      ) : (
+        <div className="space-y-5">
+          {budgets.map(budget => {
+            const progress = budget.progress;
+            const style = progress ? STATUS_STYLES[progress.status] : null;
+            return (
+              <div key={budget.id}>
+                <div className="flex items-start justify-between gap-4 mb-1">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{budgetTitle(budget)}</p>
+                    <p className="text-xs text-gray-500">
+                      {budget.period === 'billing_cycle' ? 'Billing cycle' : 'Monthly'}
+                      {progress && ` · ${formatDate(progress.windowStart)} – ${formatDate(progress.windowEnd)}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <span className="text-sm font-semibold text-gray-900 mr-2">
+                      {progress ? formatCurrency(progress.spent) : '—'} <span className="text-gray-500 font-normal">of {formatCurrency(budget.amount)}</span>
+                    </span>
+                    <button onClick={() => startEditing(budget)} className="p-1 rounded hover:bg-gray-100 text-gray-500 hover:text-gray-700" title="Edit budget">
+                      <Edit3 className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => deleteBudget(budget)} className="p-1 rounded hover:bg-red-100 text-red-500 hover:text-red-700" title="Delete budget">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+                {progress && style ? (
+                  <>
+                    <div className="w-full bg-gray-100 rounded-full h-2.5 overflow-hidden">
+                      <div className={`${style.bar} h-2.5 rounded-full`} style={{ width: `${Math.min(100, Math.max(0, progress.percentUsed))}%` }} />
+                    </div>
+                    <div className="flex justify-between text-xs mt-1">
+                      <span className={style.text}>
+                        {style.label} · projected {formatCurrency(progress.projectedSpend)}
+                      </span>
+                      <span className="text-gray-500">
+                        {progress.remaining >= 0
+                          ? `${formatCurrency(progress.remaining)} left`
+                          : `${formatCurrency(-progress.remaining)} over`}
+                        {` · day ${progress.daysElapsed} of ${progress.daysInPeriod}`}
+                      </span>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-xs text-gray-500">No billing cycles for this card yet. Sync it to start tracking.</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
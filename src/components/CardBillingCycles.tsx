@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { formatCurrency, formatDate, getDaysUntil } from '@/utils/format';
 import { normalizeCardDisplayName } from '@/utils/cardName';
+import { resolveIssuerProfile } from '@/utils/issuerProfiles';
 import { Calendar, CreditCard, ChevronDown, ChevronRight, History } from 'lucide-react';
 import CycleDateEditor from './CycleDateEditor';
 
@@ -64,17 +65,10 @@ interface CreditCardInfo {
   plaidItem?: {
     institutionName?: string;
     institutionId?: string;
+    is_manual?: boolean;
   };
 }
 
-// Helper function to detect Capital One cards
-function isCapitalOneCard(cardName?: string): boolean {
-  const capitalOneIndicators = ['capital one', 'quicksilver', 'venture', 'savor', 'spark'];
-  return capitalOneIndicators.some(indicator => 
-    cardName?.toLowerCase().includes(indicator)
-  ) || false;
-}
-
 interface CardBillingCyclesProps {
   cycles: BillingCycle[];
   cards: CreditCardInfo[];
@@ -637,13 +631,15 @@ function CardContent({
   
   const today = new Date();
   
-  // Filter out cycles that are too old for accurate data
-  // Capital One: exclude cycles starting more than 90 days ago
-  // Other cards: exclude cycles starting more than 12 months ago
-  const isCapitalOne = cardName.toLowerCase().includes('capital one') || 
-                       cardName.toLowerCase().includes('quicksilver') || 
-                       cardName.toLowerCase().includes('venture') ||
-                       cardName.toLowerCase().includes('savor');
+  // Filter out cycles that are too old for accurate data: older than the
+  // issuer's history window (e.g. 90 days for Capital One), otherwise 12 months
+  const issuerProfile = resolveIssuerProfile({
+    isManual: card?.plaidItem?.is_manual,
+    institutionId: card?.plaidItem?.institutionId,
+    institutionName: card?.plaidItem?.institutionName,
+    cardName,
+  });
+  const maxCycleAgeDays = issuerProfile.historyDays ?? 365;
   
   sortedCycles = sortedCycles.filter(cycle => {
     const cycleStartDate = new Date(cycle.startDate);
@@ -663,18 +659,9 @@ function CardContent({
       }
     }
 
-    if (isCapitalOne) {
-      // Capital One: exclude if start date is more than 90 days ago
-      if (daysSinceStart > 90) {
-        console.log(`🚫 Excluding old Capital One cycle starting ${cycleStartDate.toDateString()} (${daysSinceStart} days ago)`);
-        return false;
-      }
-    } else {
-      // Other cards: exclude if start date is more than 365 days ago
-      if (daysSinceStart > 365) {
-        console.log(`🚫 Excluding old cycle starting ${cycleStartDate.toDateString()} (${daysSinceStart} days ago)`);
-        return false;
-      }
+    if (daysSinceStart > maxCycleAgeDays) {
+      console.log(`🚫 Excluding old ${issuerProfile.name} cycle starting ${cycleStartDate.toDateString()} (${daysSinceStart} days ago)`);
+      return false;
     }
     
     return true;
@@ -856,6 +843,12 @@ function CardContent({
                 // Consider "rich" historical statements only if there are statements beyond the most recent closed
                 const hasRichHistoricalStatements = closedWithStatements.length > 1;
                 const needsManualConfig = hasManualDates || (!hasRichHistoricalStatements);
+                const cardIssuer = resolveIssuerProfile({
+                  isManual: card.plaidItem?.is_manual,
+                  institutionId: card.plaidItem?.institutionId,
+                  institutionName: card.plaidItem?.institutionName,
+                  cardName: card.name,
+                });
 
                 return needsManualConfig ? (
                   <div className="mb-4 -mt-2">
@@ -868,7 +861,7 @@ function CardContent({
                       currentCycleDaysBeforeEnd={card.cycle_days_before_end}
                       currentDueDateType={card.due_date_type}
                       currentDueDaysBeforeEnd={card.due_days_before_end}
-                      isRobinhood={card.plaidItem?.institutionId === 'ins_54'}
+                      issuerWithoutStatementDates={cardIssuer.cycleRule.requireStatementAnchor ? cardIssuer.name : undefined}
                       onSave={async (data) => {
                         try {
                           const response = await fetch(`/api/credit-cards/${card.id}/cycle-dates`, {
@@ -21,7 +21,8 @@ interface CycleDateEditorProps {
     dueDateType: 'same_day' | 'days_before_end' | 'dynamic_anchor';
     dueDaysBeforeEnd?: number;
   }) => Promise<void>;
-  isRobinhood?: boolean;
+  // Issuer name when its API provides no statement dates (e.g. Robinhood)
+  issuerWithoutStatementDates?: string;
 }
 
 export default function CycleDateEditor({
@@ -34,7 +35,7 @@ export default function CycleDateEditor({
   currentDueDateType,
   currentDueDaysBeforeEnd,
   onSave,
-  isRobinhood = false
+  issuerWithoutStatementDates
 }: CycleDateEditorProps) {
   const [isEditing, setIsEditing] = useState(false);
   // Independent date types for cycle and due dates
@@ -200,11 +201,11 @@ export default function CycleDateEditor({
           </button>
         </div>
 
-        {isRobinhood && (
+        {issuerWithoutStatementDates && (
           <div className="mb-6 sm:mb-8 p-4 sm:p-6 bg-blue-50 dark:bg-blue-900/20 rounded-xl">
             <p className="text-blue-700 dark:text-blue-300 text-base sm:text-lg">
-              Robinhood doesn't provide statement dates through their API. 
-              Please check your Robinhood app or recent statements to find these dates.
+              {issuerWithoutStatementDates} doesn't provide statement dates through their API. 
+              Please check your {issuerWithoutStatementDates} app or recent statements to find these dates.
             </p>
           </div>
         )}
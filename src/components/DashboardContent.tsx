@@ -1,7 +1,7 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
-import { CreditCard, Calendar, DollarSign, TrendingUp, RefreshCw, Loader2, CheckCircle, Settings, User } from 'lucide-react';
+import { CreditCard, Calendar, DollarSign, TrendingUp, RefreshCw, Loader2, CheckCircle, Settings, User, PenLine } from 'lucide-react';
 import { formatCurrency, formatPercentage } from '@/utils/format';
 import { normalizeCardDisplayName } from '@/utils/cardName';
 import { CardBillingCycles } from '@/components/CardBillingCycles';
@@ -14,12 +14,25 @@ import { ConfirmationDialog } from '@/components/ConfirmationDialog';
 import { DeletionProgressDialog } from '@/components/DeletionProgressDialog';
 import { SuccessNotification } from '@/components/SuccessNotification';
 import { AccountSettings } from '@/components/AccountSettings';
+import { ManualCardModal } from '@/components/ManualCardModal';
+import { UtilizationPlanner } from '@/components/UtilizationPlanner';
+import { BudgetAlert } from '@/components/BudgetAlert';
+import { AnnualFeeRenewals } from '@/components/AnnualFeeRenewals';
+import { waitForJobs } from '@/lib/jobPolling';
+import type { ItemSyncResult } from '@/services/itemSync';
 
 interface DashboardContentProps {
   isLoggedIn: boolean;
   userEmail?: string;
 }
 
+// A job queued by /api/sync or /api/user/daily-sync
+interface QueuedSyncJob {
+  id: string;
+  itemId: string;
+  institutionName: string;
+}
+
 export function DashboardContent({ isLoggedIn, userEmail }: DashboardContentProps) {
   // Initialize state from localStorage if available
   const [creditCards, setCreditCards] = useState<any[]>(() => {
@@ -283,6 +296,7 @@ export function DashboardContent({ isLoggedIn, userEmail }: DashboardContentProp
   const [deletionStep, setDeletionStep] = useState('');
   const [showDeletionSuccess, setShowDeletionSuccess] = useState(false);
   const [showAccountSettings, setShowAccountSettings] = useState(false);
+  const [showManualCard, setShowManualCard] = useState(false);
 
   // Create consistent default card ordering based on due dates and card names
   const getDefaultCardOrder = (cards: any[]): string[] => {
@@ -516,23 +530,36 @@ export function DashboardContent({ isLoggedIn, userEmail }: DashboardContentProp
     },
   ];
 
-  // Shared Plaid API sync function
-  const syncWithPlaidAPI = async (logPrefix: string = '', forceSync: boolean = false) => {
-    console.log(`🔄${logPrefix}: Starting Plaid API sync...`);
+  // Shared Plaid API sync function: queues item sync jobs and waits for them to finish
+  const syncWithPlaidAPI = async (logPrefix: string = '', onProgress?: (finished: number, total: number) => void) => {
+    console.log(`🔄${logPrefix}: Queueing Plaid API sync...`);
     const syncResponse = await fetch('/api/sync', { 
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ forceSync })
+      body: JSON.stringify({})
     });
     
-    if (syncResponse.ok) {
-      const syncResult = await syncResponse.json();
-      console.log(`✅${logPrefix}: Plaid sync completed successfully`);
-      return syncResult;
-    } else {
+    if (!syncResponse.ok) {
       console.warn(`⚠️${logPrefix}: Plaid sync failed`);
       throw new Error(`Plaid sync failed: ${syncResponse.status}`);
     }
+
+    const { jobs: queued = [] }: { jobs?: QueuedSyncJob[] } = await syncResponse.json();
+    const jobs = await waitForJobs(queued.map(job => job.id), { onProgress });
+
+    // One result per item, shaped like the item sync result
+    const results = queued.map((queuedJob): ItemSyncResult => {
+      const job = jobs.find(j => j.id === queuedJob.id);
+      if (job?.status === 'succeeded' && job.result) return job.result as unknown as ItemSyncResult;
+      return {
+        itemId: queuedJob.itemId,
+        institutionName: queuedJob.institutionName,
+        status: 'error',
+        error: job?.status === 'dead' ? job.lastError || 'Sync failed' : 'Sync still running',
+      };
+    });
+    console.log(`✅${logPrefix}: Plaid sync finished for ${results.length} items`);
+    return { results };
   };
 
   // NOTE: Removed automatic background sync for new cards
@@ -607,10 +634,11 @@ export function DashboardContent({ isLoggedIn, userEmail }: DashboardContentProp
       
       if (dailySyncResponse.ok) {
         const result = await dailySyncResponse.json();
-        console.log('🌅 Background daily sync completed:', result);
+        console.log('🌅 Background daily sync queued:', result);
         
-        // Refresh data after sync completes
-        if (result.itemsSynced > 0) {
+        // Refresh data once the queued syncs finish
+        if (result.itemsQueued > 0) {
+          await waitForJobs(((result.jobs || []) as QueuedSyncJob[]).map(job => job.id));
           console.log('🌅 Refreshing data after daily sync...');
           await fetchDatabaseDataOnly('Post daily sync: ');
         }
@@ -1014,47 +1042,15 @@ export function DashboardContent({ isLoggedIn, userEmail }: DashboardContentProp
       setRefreshStep('Connecting to your banks...');
       setRefreshProgress(20);
       
-      setRefreshStep('Syncing account data...');
+      setRefreshStep('Syncing account data and transaction history...');
       setRefreshProgress(30);
       
-      const syncResult = await syncWithPlaidAPI(' Refresh All', true); // Force sync regardless of recent sync
+      // Progress from 30 to 60 as the item sync jobs finish
+      const syncResult = await syncWithPlaidAPI(' Refresh All', (finished, total) => {
+        setRefreshProgress(30 + (finished / total) * 30);
+      });
       console.log('Sync API success result:', syncResult);
       
-      // Sync 12 months of transactions for all unique Plaid items
-      setRefreshStep('Syncing transaction history...');
-      setRefreshProgress(40);
-      
-      const uniqueItemIds = new Set(creditCards
-        .filter(card => card.plaidItem?.itemId)
-        .map(card => card.plaidItem.itemId));
-      
-      console.log(`🔄 Syncing transactions for ${uniqueItemIds.size} Plaid items`);
-      
-      let itemIndex = 0;
-      for (const itemId of uniqueItemIds) {
-        itemIndex++;
-        const progress = 40 + (itemIndex / uniqueItemIds.size) * 20; // Progress from 40 to 60
-        setRefreshProgress(progress);
-        
-        try {
-          console.log(`📊 Syncing 12 months of transactions for item ${itemId}`);
-          const syncResponse = await fetch('/api/user/sync-card', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ itemId })
-          });
-          
-          if (syncResponse.ok) {
-            const result = await syncResponse.json();
-            console.log(`✅ Synced ${result.transactionCount} transactions for item ${itemId}`);
-          } else {
-            console.error(`❌ Failed to sync transactions for item ${itemId}`);
-          }
-        } catch (error) {
-          console.error(`❌ Error syncing transactions for item ${itemId}:`, error);
-        }
-      }
-      
       setRefreshStep('Processing connections...');
       setRefreshProgress(60);
       
@@ -1094,11 +1090,15 @@ export function DashboardContent({ isLoggedIn, userEmail }: DashboardContentProp
       // Background: trigger statements-driven regeneration, then load full cycles
       (async () => {
         try {
-          await fetch('/api/user/billing-cycles/regenerate', {
+          const regenResponse = await fetch('/api/user/billing-cycles/regenerate', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({})
           });
+          if (regenResponse.ok) {
+            const { job } = await regenResponse.json();
+            if (job?.id) await waitForJobs([job.id]);
+          }
           // After regeneration completes server-side, fetch full history
           const full = await fetch('/api/user/billing-cycles', { cache: 'no-store' });
           if (full.ok) {
@@ -2356,6 +2356,16 @@ export function DashboardContent({ isLoggedIn, userEmail }: DashboardContentProp
                       window.location.reload();
                     }
                   }} />
+
+                  {/* Manual card button, for issuers that can't be linked */}
+                  <button
+                    onClick={() => setShowManualCard(true)}
+                    className="relative overflow-hidden font-medium py-3 px-4 rounded-2xl transition-all duration-200 flex items-center justify-center space-x-2 text-sm whitespace-nowrap transform focus:outline-none focus:ring-2 group border bg-gray-50 border-gray-200 text-gray-700 hover:bg-gray-100 hover:border-gray-300 hover:shadow-md hover:scale-[1.02] focus:ring-gray-500/50 shadow-sm"
+                    title="Add a card manually"
+                  >
+                    <PenLine className="h-4 w-4" />
+                    <span className="hidden sm:inline font-medium">Add Manually</span>
+                  </button>
                   
                   {/* Account Settings Button */}
                   <button
@@ -2419,6 +2429,9 @@ export function DashboardContent({ isLoggedIn, userEmail }: DashboardContentProp
             </div>
           </div>
         </div>
+
+        {/* Over-budget indicator */}
+        {isLoggedIn && <BudgetAlert refreshKey={String(totalSpendThisMonth)} />}
         
         {/* Instruction text aligned with header metrics */}
         <div className="mb-4">
@@ -2537,6 +2550,22 @@ export function DashboardContent({ isLoggedIn, userEmail }: DashboardContentProp
             </div>
           ) : null}
         </div>
+
+        {/* Pre-statement payment planner */}
+        {isLoggedIn && displayCards.length > 0 && (
+          <div className="max-w-5xl mx-auto mb-8">
+            <UtilizationPlanner
+              refreshKey={displayCards.map(card => `${card.id}:${card.balanceCurrent}:${card.balanceLimit}:${card.manualcreditlimit}`).join('|')}
+            />
+          </div>
+        )}
+
+        {/* Upcoming annual fee renewals */}
+        {isLoggedIn && displayCards.length > 0 && (
+          <div className="max-w-5xl mx-auto mb-8">
+            <AnnualFeeRenewals refreshKey={displayCards.map(card => `${card.id}:${card.plaidItem?.lastSyncAt}`).join('|')} />
+          </div>
+        )}
       </div>
       
       {/* Full-page loading overlay during refresh */}
@@ -2695,6 +2724,12 @@ export function DashboardContent({ isLoggedIn, userEmail }: DashboardContentProp
         onClose={() => setShowAccountSettings(false)}
         userEmail={userEmail}
       />
+
+      <ManualCardModal
+        isOpen={showManualCard}
+        onClose={() => setShowManualCard(false)}
+        onCreated={() => fetchDatabaseDataOnly('Manual card added: ')}
+      />
     </div>
   );
 }
@@ -0,0 +1,157 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Download } from 'lucide-react';
+
+interface ExportCardOption {
+  id: string;
+  name: string;
+  mask: string | null;
+}
+
+const FORMAT_OPTIONS = [
+  { value: 'csv', label: 'CSV (spreadsheets)' },
+  { value: 'ofx', label: 'OFX (money managers)' },
+  { value: 'qfx', label: 'QFX (Quicken)' },
+  { value: 'json', label: 'JSON (complete archive)' },
+];
+
+function fileNameFrom(disposition: string | null, fallback: string): string {
+  const match = disposition?.match(/filename="([^"]+)"/);
+  return match ? match[1] : fallback;
+}
+
+export function DataExportSettings() {
+  const [cards, setCards] = useState<ExportCardOption[]>([]);
+  const [format, setFormat] = useState('csv');
+  const [cardId, setCardId] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadCards = async () => {
+      try {
+        const response = await fetch('/api/user/credit-cards');
+        if (!response.ok) return;
+        const data = await response.json();
+        setCards((data.creditCards || []).map((card: ExportCardOption) => ({
+          id: card.id,
+          name: card.name,
+          mask: card.mask,
+        })));
+      } catch (error) {
+        console.error('Error loading cards for export:', error);
+      }
+    };
+    loadCards();
+  }, []);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ format });
+      if (cardId) params.set('cardId', cardId);
+      if (startDate) params.set('startDate', startDate);
+      if (endDate) params.set('endDate', endDate);
+
+      const response = await fetch(`/api/user/export?${params}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to export data');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileNameFrom(response.headers.get('Content-Disposition'), `cardcycle-export.${format}`);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      setError(error instanceof Error ? error.message : 'Failed to export data');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 mb-8">
+      <h3 className="font-semibold text-gray-900 flex items-center">
+        <Download className="h-4 w-4 mr-2" />
+        Export Your Data
+      </h3>
+
+      <div className="bg-gray-50 rounded-lg p-4 space-y-3 text-sm text-gray-700">
+        <label className="block">
+          <span className="block text-xs text-gray-500 mb-1">Format</span>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value)}
+            className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2"
+          >
+            {FORMAT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block">
+          <span className="block text-xs text-gray-500 mb-1">Card</span>
+          <select
+            value={cardId}
+            onChange={(e) => setCardId(e.target.value)}
+            className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2"
+          >
+            <option value="">All cards</option>
+            {cards.map(card => (
+              <option key={card.id} value={card.id}>
+                {card.name}{card.mask ? ` •••• ${card.mask}` : ''}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <span className="block text-xs text-gray-500 mb-1">From</span>
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2"
+            />
+          </label>
+          <label className="block">
+            <span className="block text-xs text-gray-500 mb-1">To</span>
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2"
+            />
+          </label>
+        </div>
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        <button
+          onClick={handleExport}
+          disabled={exporting}
+          className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white font-medium rounded-lg transition-colors"
+        >
+          {exporting ? 'Preparing export...' : 'Download'}
+        </button>
+
+        <p className="text-xs text-gray-500">
+          The JSON archive includes everything we store about your account: cards, billing cycles, transactions, APRs and settings.
+        </p>
+      </div>
+    </div>
+  );
+}
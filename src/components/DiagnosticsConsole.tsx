@@ -0,0 +1,291 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Stethoscope, Loader2, Play, Wrench } from 'lucide-react';
+import type { DiagnosticParamSpec, DiagnosticResult, DiagnosticStatus, DiagnosticSummary } from '@/utils/diagnostics';
+
+interface DiagnosticsConsoleProps {
+  // Without write permission repairs can only be previewed
+  canWrite: boolean;
+}
+
+const inputClass = 'block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+const STATUS_STYLES: Record<DiagnosticStatus, string> = {
+  ok: 'bg-green-100 text-green-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+  error: 'bg-red-100 text-red-800',
+};
+
+const SEVERITY_STYLES: Record<string, string> = {
+  info: 'text-gray-600',
+  warning: 'text-yellow-700',
+  error: 'text-red-700',
+};
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Form values stay strings until the server validates them
+function defaultValues(params: Record<string, DiagnosticParamSpec>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(params).map(([name, spec]) => [name, spec.default !== undefined ? String(spec.default) : ''])
+  );
+}
+
+export function DiagnosticsConsole({ canWrite }: DiagnosticsConsoleProps) {
+  const [diagnostics, setDiagnostics] = useState<DiagnosticSummary[]>([]);
+  const [selectedName, setSelectedName] = useState<string>('');
+  const [target, setTarget] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [dryRun, setDryRun] = useState(true);
+  const [result, setResult] = useState<DiagnosticResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = diagnostics.find(d => d.name === selectedName) || null;
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/admin/diagnostics', { cache: 'no-store' });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load diagnostics');
+        }
+        setDiagnostics(data.diagnostics);
+        if (data.diagnostics.length > 0) {
+          setSelectedName(data.diagnostics[0].name);
+          setValues(defaultValues(data.diagnostics[0].params));
+        }
+      } catch (loadError) {
+        console.error('Failed to load diagnostics:', loadError);
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load diagnostics');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const selectDiagnostic = (name: string) => {
+    const diagnostic = diagnostics.find(d => d.name === name);
+    setSelectedName(name);
+    setValues(diagnostic ? defaultValues(diagnostic.params) : {});
+    setDryRun(true);
+    setResult(null);
+    setError(null);
+  };
+
+  const run = async () => {
+    if (!selected) return;
+    setRunning(true);
+    setError(null);
+    setResult(null);
+    try {
+      const trimmedTarget = target.trim();
+      const response = await fetch(`/api/admin/diagnostics/${selected.name}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(selected.scope === 'user' && trimmedTarget
+            ? trimmedTarget.includes('@') ? { email: trimmedTarget } : { userId: trimmedTarget }
+            : {}),
+          params: Object.fromEntries(Object.entries(values).filter(([, value]) => value !== '')),
+          dryRun: selected.kind !== 'repair' || dryRun || !canWrite,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Diagnostic failed');
+      }
+      setResult(data.result);
+    } catch (runError) {
+      console.error('Failed to run diagnostic:', runError);
+      setError(runError instanceof Error ? runError.message : 'Diagnostic failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-gray-500 text-sm">
+        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+        Loading diagnostics...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-sm">
+        <div className="flex items-center mb-4">
+          <Stethoscope className="h-5 w-5 text-indigo-600 mr-2" />
+          <h3 className="font-semibold text-gray-900">Run a diagnostic</h3>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block text-sm text-gray-700">
+            Diagnostic
+            <select value={selectedName} onChange={(e) => selectDiagnostic(e.target.value)} className={`${inputClass} mt-1`}>
+              {diagnostics.map(d => (
+                <option key={d.name} value={d.name}>
+                  {d.kind === 'repair' ? '🔧' : '🔍'} {d.name} ({d.scope})
+                </option>
+              ))}
+            </select>
+          </label>
+          {selected?.scope === 'user' && (
+            <label className="block text-sm text-gray-700">
+              User id or email
+              <input
+                type="text"
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                placeholder="Leave empty for your own account"
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          )}
+        </div>
+
+        {selected && (
+          <>
+            <p className="text-sm text-gray-600 mt-3">{selected.description}</p>
+            {selected.replaces && selected.replaces.length > 0 && (
+              <p className="text-xs text-gray-400 mt-1">Replaces {selected.replaces.join(', ')}</p>
+            )}
+
+            {Object.keys(selected.params).length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                {Object.entries(selected.params).map(([name, spec]) => (
+                  <label key={name} className="block text-sm text-gray-700">
+                    {name}
+                    {spec.type === 'enum' ? (
+                      <select value={values[name] || ''} onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))} className={`${inputClass} mt-1`}>
+                        {spec.default === undefined && <option value="">—</option>}
+                        {spec.options.map(option => <option key={option} value={option}>{option}</option>)}
+                      </select>
+                    ) : spec.type === 'boolean' ? (
+                      <select value={values[name] || ''} onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))} className={`${inputClass} mt-1`}>
+                        {spec.default === undefined && <option value="">—</option>}
+                        <option value="true">true</option>
+                        <option value="false">false</option>
+                      </select>
+                    ) : (
+                      <input
+                        type={spec.type === 'number' ? 'number' : 'text'}
+                        value={values[name] || ''}
+                        onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                        className={`${inputClass} mt-1`}
+                      />
+                    )}
+                    <span className="text-xs text-gray-500">{spec.description}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center justify-between mt-6">
+              {selected.kind === 'repair' ? (
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={dryRun || !canWrite}
+                    disabled={!canWrite}
+                    onChange={(e) => setDryRun(e.target.checked)}
+                    className="h-4 w-4 text-indigo-600 rounded mr-2"
+                  />
+                  Dry run{!canWrite && ' (your role can only preview repairs)'}
+                </label>
+              ) : <span />}
+              <button
+                onClick={run}
+                disabled={running}
+                className={`flex items-center px-4 py-2 text-sm font-medium text-white rounded-md disabled:opacity-50 ${
+                  selected.kind === 'repair' && !dryRun && canWrite ? 'bg-red-600 hover:bg-red-700' : 'bg-indigo-600 hover:bg-indigo-700'
+                }`}
+              >
+                {running
+                  ? <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                  : selected.kind === 'repair' ? <Wrench className="h-4 w-4 mr-1" /> : <Play className="h-4 w-4 mr-1" />}
+                {selected.kind === 'repair' && !dryRun && canWrite ? 'Apply repair' : 'Run'}
+              </button>
+            </div>
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+      </div>
+
+      {result && (
+        <div className="bg-white p-6 rounded-lg shadow-sm space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <span className={`px-2 py-0.5 rounded text-xs font-semibold uppercase ${STATUS_STYLES[result.status]}`}>{result.status}</span>
+              <h3 className="font-semibold text-gray-900">{result.name}</h3>
+              {result.dryRun && <span className="text-xs text-gray-500">dry run</span>}
+            </div>
+            <span className="text-xs text-gray-500">{result.durationMs} ms</span>
+          </div>
+          <p className="text-sm text-gray-700">{result.summary}</p>
+
+          {result.findings.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="py-1 pr-3">Severity</th>
+                  <th className="py-1 pr-3">Code</th>
+                  <th className="py-1 pr-3">Subject</th>
+                  <th className="py-1">Message</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {result.findings.map((finding, index) => (
+                  <tr key={index}>
+                    <td className={`py-1 pr-3 font-medium ${SEVERITY_STYLES[finding.severity]}`}>{finding.severity}</td>
+                    <td className="py-1 pr-3 font-mono text-xs">{finding.code}</td>
+                    <td className="py-1 pr-3">{finding.subject || '—'}</td>
+                    <td className="py-1">{finding.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {result.changes.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="py-1 pr-3">Subject</th>
+                  <th className="py-1 pr-3">Field</th>
+                  <th className="py-1 pr-3">From</th>
+                  <th className="py-1 pr-3">To</th>
+                  <th className="py-1">Applied</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {result.changes.map((change, index) => (
+                  <tr key={index}>
+                    <td className="py-1 pr-3">{change.subject}</td>
+                    <td className="py-1 pr-3 font-mono text-xs">{change.field}</td>
+                    <td className="py-1 pr-3 font-mono text-xs">{formatValue(change.from)}</td>
+                    <td className="py-1 pr-3 font-mono text-xs">{formatValue(change.to)}</td>
+                    <td className={`py-1 ${change.error ? 'text-red-700' : ''}`}>{change.error || (change.applied ? 'yes' : 'no')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <details>
+            <summary className="text-sm text-gray-600 cursor-pointer">Raw result</summary>
+            <pre className="mt-2 p-3 bg-gray-50 rounded text-xs overflow-x-auto">{JSON.stringify(result, null, 2)}</pre>
+          </details>
+        </div>
+      )}
+    </div>
+  );
+}
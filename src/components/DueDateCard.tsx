@@ -1,8 +1,11 @@
 import { formatCurrency, formatDate, getDaysUntil, formatPercentage } from '@/utils/format';
-import { AlertTriangle, CreditCard, WifiOff, RefreshCw, Trash2, ExternalLink, GripVertical, Edit3, Check, X, CheckCircle } from 'lucide-react';
+import { AlertTriangle, CreditCard, WifiOff, RefreshCw, Trash2, ExternalLink, GripVertical, Edit3, Check, X, CheckCircle, Upload } from 'lucide-react';
 import { useState, useEffect } from 'react';
 import { normalizeCardDisplayName } from '@/utils/cardName';
-import { isPaymentTransaction } from '@/utils/billingCycles';
+import { isPaymentTransaction } from '@/utils/billingCycleEngine';
+import { getEffectiveCreditLimit } from '@/utils/utilizationPlanner';
+import type { GracePeriodState } from '@/utils/gracePeriod';
+import { StatementImportModal } from '@/components/StatementImportModal';
 
 // truncateCardName now imported from shared utility for consistency
 import {
@@ -35,6 +38,10 @@ interface CreditCardInfo {
   lastStatementIssueDate?: string | null;
   nextPaymentDueDate?: Date;
   minimumPaymentAmount?: number;
+  // Maintained by calculateBillingCycles (see utils/gracePeriod.ts)
+  grace_period_state?: GracePeriodState | null;
+  grace_period_lost_due_date?: string | null;
+  trailing_interest_estimate?: number | null;
   recentTransactions?: Array<{
     name: string;
     amount: number;
@@ -47,6 +54,8 @@ interface CreditCardInfo {
     status: string;
     lastSyncAt?: Date;
     errorMessage?: string;
+    // Manual cards are updated by statement import, not Plaid
+    is_manual?: boolean;
   };
 }
 
@@ -313,6 +322,7 @@ export function DueDateCard({
 }: DueDateCardProps & { dragHandleProps?: any }) {
   const [syncing, setSyncing] = useState(false);
   const [reconnecting, setReconnecting] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [editingLimit, setEditingLimit] = useState(false);
   const [limitInput, setLimitInput] = useState('');
   const [updatingLimit, setUpdatingLimit] = useState(false);
@@ -336,8 +346,9 @@ export function DueDateCard({
   
   // Connection status indicators - skip for demo cards (no plaidItem)  
   // Only show issues if we actually have connection health data AND there's a real problem
+  const isManual = !!card.plaidItem?.is_manual;
   const hasConnectionIssue = card.plaidItem && connectionHealth && (connectionStatus === 'requires_auth' || connectionStatus === 'error');
-  const isStale = card.plaidItem && connectionHealth && primarySyncTime && 
+  const isStale = card.plaidItem && !isManual && connectionHealth && primarySyncTime && 
     (new Date().getTime() - new Date(primarySyncTime).getTime()) > 24 * 60 * 60 * 1000; // 24 hours
   
   // Calculate time since last sync using primary sync time with minute granularity
@@ -375,7 +386,7 @@ export function DueDateCard({
   
   // Effective limit: if valid Plaid limit exists, it always takes precedence
   // Otherwise, use manual limit if available
-  const effectiveLimit = hasValidPlaidLimit ? card.balanceLimit : (isManualLimit ? card.manualcreditlimit : null);
+  const effectiveLimit = getEffectiveCreditLimit(card);
   const hasValidEffectiveLimit = effectiveLimit && effectiveLimit > 0 && isFinite(effectiveLimit) && !isNaN(effectiveLimit);
   // Note: utilization will be recalculated after currentBalance is determined
   let utilization = 0;
@@ -544,6 +555,10 @@ export function DueDateCard({
   
   const isPaidOff = calculateIsPaidOff();
 
+  // Lost or not yet restored grace period: new purchases accrue interest immediately
+  const hasGraceWarning = card.grace_period_state === 'lost' || card.grace_period_state === 'restoring';
+  const trailingInterest = card.trailing_interest_estimate != null ? Number(card.trailing_interest_estimate) : null;
+
   const cardColorClass = cardColors[colorIndex % cardColors.length];
   
   // Debug logging for connection health
@@ -680,7 +695,7 @@ export function DueDateCard({
   };
   
   return (
-    <div className={`p-2 rounded-lg shadow-sm border-2 border-l-4 min-h-[240px] max-h-[260px] flex flex-col justify-between ${cardColorClass} ${hasConnectionIssue ? 'ring-2 ring-red-200' : ''}`}>
+    <div className={`p-2 rounded-lg shadow-sm border-2 border-l-4 min-h-[240px] ${hasGraceWarning ? '' : 'max-h-[260px]'} flex flex-col justify-between ${cardColorClass} ${hasConnectionIssue ? 'ring-2 ring-red-200' : ''}`}>
       <div className="mb-2">
         {/* Header Row with Due Date Box */}
         <div className="flex items-start justify-between mb-1">
@@ -711,7 +726,7 @@ export function DueDateCard({
               {card.plaidItem && (
                 <p className="text-xs text-gray-500">
                   {lastSyncDaysAgo !== null && lastSyncHoursAgo !== null && lastSyncMinutesAgo !== null ? (
-                    <span>Last sync: {
+                    <span>{isManual ? 'Last import' : 'Last sync'}: {
                       lastSyncDaysAgo > 0 ? `${lastSyncDaysAgo}d ago` :
                       lastSyncHoursAgo > 0 ? `${lastSyncHoursAgo}h ago` :
                       lastSyncMinutesAgo >= 1 ? `${lastSyncMinutesAgo}m ago` :
@@ -719,7 +734,7 @@ export function DueDateCard({
                       'Less than 1m ago'
                     }</span>
                   ) : (
-                    <span>Never synced</span>
+                    <span>{isManual ? 'No statements imported' : 'Never synced'}</span>
                   )}
                 </p>
               )}
@@ -790,6 +805,33 @@ export function DueDateCard({
           </div>
         </div>
         
+        {hasGraceWarning && (
+          <div
+            className={`flex items-start gap-1.5 mb-1 px-2 py-1.5 rounded-md border text-xs ${
+              card.grace_period_state === 'lost'
+                ? 'bg-red-50 border-red-200 text-red-800'
+                : 'bg-amber-50 border-amber-200 text-amber-800'
+            }`}
+          >
+            <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-px" />
+            <div>
+              <p className="font-semibold">
+                {card.grace_period_state === 'lost'
+                  ? 'Interest will be charged: grace period lost'
+                  : 'Grace period restoring'}
+              </p>
+              <p>
+                {card.grace_period_state === 'lost'
+                  ? `Statement due ${card.grace_period_lost_due_date ? formatDate(card.grace_period_lost_due_date) : 'recently'} wasn't paid in full, so new purchases accrue interest right away.`
+                  : 'Keep paying the full statement balance; new purchases may accrue interest until your issuer restores it.'}
+                {trailingInterest !== null && trailingInterest > 0 && (
+                  <> Expect about {formatCurrency(trailingInterest)} trailing interest on your next statement.</>
+                )}
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Action Buttons Row */}
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
@@ -798,6 +840,15 @@ export function DueDateCard({
           {/* Connection management buttons - Right aligned */}
           {card.plaidItem && (
             <div className="flex items-center gap-1">
+              {isManual && (
+                <button
+                  onClick={() => setShowImport(true)}
+                  className="p-1 rounded hover:bg-gray-100 text-gray-500 hover:text-gray-700"
+                  title="Import statement"
+                >
+                  <Upload className="h-4 w-4" />
+                </button>
+              )}
               <button
                 onClick={hasConnectionIssue || needsStatementsConsent ? handleReconnect : handleSync}
                 disabled={syncing || reconnecting}
@@ -837,6 +888,16 @@ export function DueDateCard({
         </div>
       </div>
 
+      {isManual && (
+        <StatementImportModal
+          isOpen={showImport}
+          onClose={() => setShowImport(false)}
+          cardId={card.id}
+          cardName={normalizeCardDisplayName(card.name, card.mask)}
+          onImported={handleSync}
+        />
+      )}
+
       {/* Balance Information - Show statement balance only when unpaid */}
       {(() => {
         // FIRST CHECK: If card is paid off, don't show statement balance section at all
@@ -0,0 +1,192 @@
+'use client';
+
+import { useState } from 'react';
+import { CreditCard, X } from 'lucide-react';
+
+interface ManualCardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+type CycleDateType = 'same_day' | 'days_before_end' | 'dynamic_anchor';
+
+const EMPTY_FORM = {
+  name: '',
+  mask: '',
+  creditLimit: '',
+  currentBalance: '',
+  apr: '',
+  openDate: '',
+  cycleDateType: 'same_day' as CycleDateType,
+  cycleDay: '',
+  cycleDaysBeforeEnd: '3',
+  dueDay: '',
+};
+
+export function ManualCardModal({ isOpen, onClose, onCreated }: ManualCardModalProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (field: keyof typeof EMPTY_FORM, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleClose = () => {
+    setForm(EMPTY_FORM);
+    setError(null);
+    onClose();
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/user/manual-cards', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          mask: form.mask,
+          creditLimit: form.creditLimit,
+          currentBalance: form.currentBalance,
+          apr: form.apr,
+          openDate: form.openDate,
+          cycle: {
+            cycleDateType: form.cycleDateType,
+            cycleDay: form.cycleDateType === 'days_before_end' ? undefined : form.cycleDay,
+            cycleDaysBeforeEnd: form.cycleDateType === 'days_before_end' ? form.cycleDaysBeforeEnd : undefined,
+            dueDateType: 'same_day',
+            dueDay: form.dueDay,
+          },
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add card');
+      }
+      onCreated();
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add card');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClass = 'w-full rounded-lg border border-gray-300 bg-white px-3 py-2';
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40 transition-opacity"
+        onClick={handleClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-2xl border border-gray-100 p-6 max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <CreditCard className="h-6 w-6 text-blue-600" />
+              <h2 className="text-xl font-semibold text-gray-900">Add Card Manually</h2>
+            </div>
+            <button onClick={handleClose} className="p-1 rounded hover:bg-gray-100 text-gray-500" title="Close">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="space-y-3 text-sm text-gray-700">
+            <p className="text-gray-600">
+              For cards that can&apos;t be linked. Keep them up to date by importing statement downloads.
+            </p>
+
+            <div className="grid grid-cols-3 gap-3">
+              <label className="block col-span-2">
+                <span className="block text-xs text-gray-500 mb-1">Card name</span>
+                <input value={form.name} onChange={(e) => update('name', e.target.value)} className={inputClass} />
+              </label>
+              <label className="block">
+                <span className="block text-xs text-gray-500 mb-1">Last 4 digits</span>
+                <input
+                  value={form.mask}
+                  maxLength={4}
+                  inputMode="numeric"
+                  onChange={(e) => update('mask', e.target.value)}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <label className="block">
+                <span className="block text-xs text-gray-500 mb-1">Credit limit</span>
+                <input type="number" min="0" value={form.creditLimit} onChange={(e) => update('creditLimit', e.target.value)} className={inputClass} />
+              </label>
+              <label className="block">
+                <span className="block text-xs text-gray-500 mb-1">Current balance</span>
+                <input type="number" step="0.01" value={form.currentBalance} onChange={(e) => update('currentBalance', e.target.value)} className={inputClass} />
+              </label>
+              <label className="block">
+                <span className="block text-xs text-gray-500 mb-1">Purchase APR %</span>
+                <input type="number" step="0.01" min="0" value={form.apr} onChange={(e) => update('apr', e.target.value)} className={inputClass} />
+              </label>
+            </div>
+
+            <label className="block">
+              <span className="block text-xs text-gray-500 mb-1">Open date (optional)</span>
+              <input type="date" value={form.openDate} onChange={(e) => update('openDate', e.target.value)} className={inputClass} />
+            </label>
+
+            <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+              <label className="block">
+                <span className="block text-xs text-gray-500 mb-1">Statement closes</span>
+                <select
+                  value={form.cycleDateType}
+                  onChange={(e) => update('cycleDateType', e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="same_day">On the same day each month</option>
+                  <option value="days_before_end">A number of days before month end</option>
+                  <option value="dynamic_anchor">Dynamic anchor (Amex-style)</option>
+                </select>
+              </label>
+
+              <div className="grid grid-cols-2 gap-3">
+                {form.cycleDateType === 'days_before_end' ? (
+                  <label className="block">
+                    <span className="block text-xs text-gray-500 mb-1">Days before month end</span>
+                    <input type="number" min="1" max="31" value={form.cycleDaysBeforeEnd} onChange={(e) => update('cycleDaysBeforeEnd', e.target.value)} className={inputClass} />
+                  </label>
+                ) : (
+                  <label className="block">
+                    <span className="block text-xs text-gray-500 mb-1">Statement close day</span>
+                    <input type="number" min="1" max="31" value={form.cycleDay} onChange={(e) => update('cycleDay', e.target.value)} className={inputClass} />
+                  </label>
+                )}
+                <label className="block">
+                  <span className="block text-xs text-gray-500 mb-1">Payment due day</span>
+                  <input type="number" min="1" max="31" value={form.dueDay} onChange={(e) => update('dueDay', e.target.value)} className={inputClass} />
+                </label>
+              </div>
+            </div>
+
+            {error && <p className="text-xs text-red-600">{error}</p>}
+
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white font-medium rounded-lg transition-colors"
+            >
+              {saving ? 'Adding card...' : 'Add Card'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -4,7 +4,7 @@ import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { useSession, signIn, signOut } from 'next-auth/react';
 import { useState } from 'react';
-import { CreditCard, BarChart3, Home, LogIn, LogOut, User, Menu, X } from 'lucide-react';
+import { CreditCard, BarChart3, Home, List, LogIn, LogOut, User, Menu, X } from 'lucide-react';
 
 export function Navigation() {
   const pathname = usePathname();
@@ -15,6 +15,7 @@ export function Navigation() {
     { name: 'Home', href: '/', icon: Home },
     { name: 'Dashboard', href: '/dashboard', icon: CreditCard },
     { name: 'Analytics', href: '/analytics', icon: BarChart3 },
+    { name: 'Transactions', href: '/transactions', icon: List },
   ];
 
   const isActive = (href: string) => {
@@ -0,0 +1,220 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Bell } from 'lucide-react';
+import { formatDate } from '@/utils/format';
+
+interface CardReminderSetting {
+  creditCardId: string;
+  name: string;
+  mask: string | null;
+  nextPaymentDueDate: string | null;
+  enabled: boolean;
+  leadDays: number[] | null;
+}
+
+interface ReminderSettings {
+  enabled: boolean;
+  defaultLeadDays: number[];
+  cards: CardReminderSetting[];
+}
+
+const LEAD_DAY_OPTIONS = [14, 7, 5, 3, 1, 0];
+
+function leadDayLabel(days: number): string {
+  if (days === 0) return 'Due date';
+  return `${days}d before`;
+}
+
+function toggleLeadDay(current: number[], days: number): number[] {
+  const next = current.includes(days) ? current.filter(d => d !== days) : [...current, days];
+  return next.sort((a, b) => b - a);
+}
+
+export function PaymentReminderSettings() {
+  const [settings, setSettings] = useState<ReminderSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response = await fetch('/api/user/reminder-settings');
+        if (!response.ok) {
+          throw new Error('Failed to load reminder settings');
+        }
+        setSettings(await response.json());
+      } catch (error) {
+        console.error('Error loading reminder settings:', error);
+        setMessage({ type: 'error', text: 'Could not load reminder settings' });
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadSettings();
+  }, []);
+
+  const updateCard = (creditCardId: string, changes: Partial<CardReminderSetting>) => {
+    setSettings(prev => prev && {
+      ...prev,
+      cards: prev.cards.map(card => card.creditCardId === creditCardId ? { ...card, ...changes } : card),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/user/reminder-settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save reminder settings');
+      }
+
+      setSettings({ enabled: data.enabled, defaultLeadDays: data.defaultLeadDays, cards: data.cards });
+      setMessage({ type: 'success', text: 'Reminder settings saved' });
+    } catch (error) {
+      console.error('Error saving reminder settings:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save reminder settings' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 mb-8">
+      <h3 className="font-semibold text-gray-900 flex items-center">
+        <Bell className="h-4 w-4 mr-2" />
+        Payment Reminders
+      </h3>
+
+      {loading ? (
+        <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-500">Loading reminder settings...</div>
+      ) : settings ? (
+        <div className="bg-gray-50 rounded-lg p-4 space-y-4 text-sm text-gray-700">
+          <label className="flex items-center justify-between">
+            <span>Email me before payments are due</span>
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+              className="h-4 w-4 text-blue-600 rounded"
+            />
+          </label>
+
+          {settings.enabled && (
+            <>
+              <div>
+                <p className="font-medium text-gray-900 mb-2">Default reminder times</p>
+                <div className="flex flex-wrap gap-2">
+                  {LEAD_DAY_OPTIONS.map(days => (
+                    <button
+                      key={days}
+                      type="button"
+                      onClick={() => setSettings({ ...settings, defaultLeadDays: toggleLeadDay(settings.defaultLeadDays, days) })}
+                      className={`px-3 py-1 rounded-full border text-xs font-medium transition-colors ${
+                        settings.defaultLeadDays.includes(days)
+                          ? 'bg-blue-600 border-blue-600 text-white'
+                          : 'bg-white border-gray-300 text-gray-600 hover:border-blue-400'
+                      }`}
+                    >
+                      {leadDayLabel(days)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {settings.cards.length > 0 && (
+                <div className="space-y-3">
+                  <p className="font-medium text-gray-900">Per card</p>
+                  {settings.cards.map(card => (
+                    <div key={card.creditCardId} className="bg-white rounded-lg border border-gray-200 p-3 space-y-2">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium text-gray-900">
+                            {card.name}{card.mask ? ` •••• ${card.mask}` : ''}
+                          </p>
+                          {card.nextPaymentDueDate && (
+                            <p className="text-xs text-gray-500">Next due {formatDate(card.nextPaymentDueDate)}</p>
+                          )}
+                        </div>
+                        <input
+                          type="checkbox"
+                          checked={card.enabled}
+                          onChange={(e) => updateCard(card.creditCardId, { enabled: e.target.checked })}
+                          className="h-4 w-4 text-blue-600 rounded"
+                          aria-label={`Reminders for ${card.name}`}
+                        />
+                      </div>
+                      {card.enabled && (
+                        <div className="space-y-2">
+                          <label className="flex items-center space-x-2 text-xs text-gray-600">
+                            <input
+                              type="checkbox"
+                              checked={card.leadDays === null}
+                              onChange={(e) => updateCard(card.creditCardId, {
+                                leadDays: e.target.checked ? null : [...settings.defaultLeadDays],
+                              })}
+                              className="h-3 w-3 rounded"
+                            />
+                            <span>Use default reminder times</span>
+                          </label>
+                          {card.leadDays !== null && (
+                            <div className="flex flex-wrap gap-2">
+                              {LEAD_DAY_OPTIONS.map(days => (
+                                <button
+                                  key={days}
+                                  type="button"
+                                  onClick={() => updateCard(card.creditCardId, { leadDays: toggleLeadDay(card.leadDays || [], days) })}
+                                  className={`px-2 py-0.5 rounded-full border text-xs transition-colors ${
+                                    card.leadDays?.includes(days)
+                                      ? 'bg-blue-600 border-blue-600 text-white'
+                                      : 'bg-white border-gray-300 text-gray-600 hover:border-blue-400'
+                                  }`}
+                                >
+                                  {leadDayLabel(days)}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+
+          <p className="text-xs text-gray-500">
+            Reminders are skipped once the statement balance has been paid.
+          </p>
+
+          {message && (
+            <p className={`text-xs ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>{message.text}</p>
+          )}
+
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className={`w-full py-2 px-4 rounded-lg font-medium transition-colors ${
+              saving ? 'bg-gray-100 text-gray-500 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700 text-white'
+            }`}
+          >
+            {saving ? 'Saving...' : 'Save Reminder Settings'}
+          </button>
+        </div>
+      ) : (
+        <div className="bg-gray-50 rounded-lg p-4 text-sm text-red-600">{message?.text}</div>
+      )}
+    </div>
+  );
+}
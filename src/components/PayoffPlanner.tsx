@@ -0,0 +1,210 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Calculator, Loader2 } from 'lucide-react';
+import { formatCurrency, formatDate, formatPercentage } from '@/utils/format';
+import {
+  comparePayoffStrategies,
+  MAX_PAYOFF_MONTHS,
+  type PayoffCardInput,
+  type PayoffPlanResult,
+  type PayoffStrategy,
+} from '@/utils/payoffPlanner';
+
+const STRATEGY_LABELS: Record<PayoffStrategy, { title: string; description: string }> = {
+  avalanche: { title: 'Avalanche', description: 'Extra payments go to the highest APR first' },
+  snowball: { title: 'Snowball', description: 'Extra payments go to the smallest balance first' },
+  custom: { title: 'Custom', description: 'Your own fixed payment per card' },
+};
+
+function formatDuration(months: number | null): string {
+  if (months === null) return `Over ${MAX_PAYOFF_MONTHS / 12} years`;
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  if (years === 0) return `${rest} mo`;
+  return rest === 0 ? `${years} yr` : `${years} yr ${rest} mo`;
+}
+
+export function PayoffPlanner() {
+  const [cards, setCards] = useState<PayoffCardInput[]>([]);
+  const [monthlyBudget, setMonthlyBudget] = useState<number>(0);
+  const [customPayments, setCustomPayments] = useState<Record<string, number>>({});
+  const [selected, setSelected] = useState<PayoffStrategy>('avalanche');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadPlan = async () => {
+      try {
+        const response = await fetch('/api/user/payoff-plan', { cache: 'no-store' });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load payoff plan');
+        }
+        setCards(data.cards);
+        setMonthlyBudget(data.monthlyBudget);
+        // Custom schedule starts from each card's minimum payment
+        const minimums: Record<string, number> = {};
+        for (const card of data.cards as PayoffCardInput[]) {
+          minimums[card.id] = Math.ceil(card.minimumPayment || 0);
+        }
+        setCustomPayments(minimums);
+      } catch (err) {
+        console.error('Payoff plan error:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load payoff plan');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadPlan();
+  }, []);
+
+  // Simulation is pure, so recompute locally as inputs change
+  const comparison = useMemo(
+    () => cards.length > 0 ? comparePayoffStrategies(cards, { monthlyBudget, customPayments }) : null,
+    [cards, monthlyBudget, customPayments]
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-gray-500 text-sm">
+        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+        Loading balances and APRs...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (!comparison) {
+    return <p className="text-sm text-gray-600">No card balances to pay off.</p>;
+  }
+
+  const strategies: PayoffPlanResult[] = [comparison.avalanche, comparison.snowball, ...(comparison.custom ? [comparison.custom] : [])];
+  const cheapest = strategies.reduce((best, s) => s.totalInterest < best.totalInterest ? s : best, strategies[0]);
+  const selectedPlan = strategies.find(s => s.strategy === selected) || comparison.avalanche;
+  const cardsById = new Map(cards.map(card => [card.id, card]));
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm">
+      <div className="flex items-center mb-4">
+        <Calculator className="h-5 w-5 text-indigo-600 mr-2" />
+        <h3 className="font-semibold text-gray-900">Payoff Planner</h3>
+      </div>
+
+      <div className="mb-6">
+        <label htmlFor="monthly-budget" className="block text-sm font-medium text-gray-700 mb-1">
+          Monthly payment budget (avalanche and snowball)
+        </label>
+        <div className="relative max-w-xs">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <span className="text-gray-500 sm:text-sm">$</span>
+          </div>
+          <input
+            type="number"
+            id="monthly-budget"
+            min={0}
+            value={monthlyBudget}
+            onChange={(e) => setMonthlyBudget(Math.max(0, Number(e.target.value)))}
+            className="block w-full pl-7 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Minimum payments total {formatCurrency(comparison.totalMinimumPayment)} this month.
+          {comparison.avalanche.budgetShortfall > 0 && (
+            <span className="text-red-600"> Your budget is {formatCurrency(comparison.avalanche.budgetShortfall)} short; minimums are still assumed to be paid.</span>
+          )}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        {strategies.map(plan => (
+          <button
+            key={plan.strategy}
+            onClick={() => setSelected(plan.strategy)}
+            className={`text-left p-4 rounded-lg border-2 transition-colors ${
+              selected === plan.strategy ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200 hover:border-gray-300'
+            }`}
+          >
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-semibold text-gray-900">{STRATEGY_LABELS[plan.strategy].title}</span>
+              {plan === cheapest && strategies.length > 1 && (
+                <span className="text-xs font-medium text-green-700 bg-green-100 px-2 py-0.5 rounded-full">Least interest</span>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 mb-3">{STRATEGY_LABELS[plan.strategy].description}</p>
+            <p className="text-sm text-gray-600">Total interest</p>
+            <p className="text-lg font-bold text-red-600">{formatCurrency(plan.totalInterest)}</p>
+            <p className="text-sm text-gray-600 mt-2">Debt free</p>
+            <p className="text-sm font-medium text-gray-900">
+              {plan.payoffDate ? formatDate(plan.payoffDate) : 'Not within 50 years'} · {formatDuration(plan.monthsToPayoff)}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wide border-b border-gray-200">
+              <th className="py-2 pr-4">Card</th>
+              <th className="py-2 pr-4">APR</th>
+              <th className="py-2 pr-4 text-right">Balance</th>
+              {selected === 'custom' && <th className="py-2 pr-4 text-right">Monthly payment</th>}
+              <th className="py-2 pr-4 text-right">Interest</th>
+              <th className="py-2 text-right">Paid off</th>
+            </tr>
+          </thead>
+          <tbody>
+            {selectedPlan.cards.map(result => {
+              const card = cardsById.get(result.creditCardId);
+              const aprs = (card?.aprs || []).filter(a => a.aprPercentage > 0);
+              return (
+                <tr key={result.creditCardId} className="border-b border-gray-100 last:border-0">
+                  <td className="py-3 pr-4">
+                    <p className="font-medium text-gray-900">{result.name}</p>
+                    {result.mask && <p className="text-xs text-gray-500">•••• {result.mask}</p>}
+                  </td>
+                  <td className="py-3 pr-4 text-gray-700">
+                    {aprs.length > 0
+                      ? aprs.map(a => formatPercentage(a.aprPercentage, 2)).join(' / ')
+                      : <span className="text-gray-400">No APR data</span>}
+                  </td>
+                  <td className="py-3 pr-4 text-right text-gray-900">{formatCurrency(result.startingBalance)}</td>
+                  {selected === 'custom' && (
+                    <td className="py-3 pr-4 text-right">
+                      <input
+                        type="number"
+                        min={0}
+                        value={customPayments[result.creditCardId] ?? 0}
+                        onChange={(e) => setCustomPayments(prev => ({
+                          ...prev,
+                          [result.creditCardId]: Math.max(0, Number(e.target.value)),
+                        }))}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded-md text-right focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                        aria-label={`Monthly payment for ${result.name}`}
+                      />
+                    </td>
+                  )}
+                  <td className="py-3 pr-4 text-right text-red-600">{formatCurrency(result.totalInterest)}</td>
+                  <td className="py-3 text-right text-gray-700 whitespace-nowrap">
+                    {result.payoffDate ? formatDate(result.payoffDate) : 'Not within 50 years'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4 text-xs text-gray-500">
+        <p>
+          Uses each card&apos;s current balance and stored APRs. Interest is charged monthly on the average daily balance,
+          with payments posting near the due date. Cards without APR data are treated as 0% APR. No new spending is assumed.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,423 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Gift, Loader2, Plus, Trash2, Edit3, ChevronDown, ChevronUp } from 'lucide-react';
+import { formatCurrency } from '@/utils/format';
+import { normalizeCardDisplayName } from '@/utils/cardName';
+import { quarterKey, REWARD_CATEGORIES, type CapPeriod, type RewardCategory, type RewardCurrency } from '@/utils/rewards';
+import type { BestCardForCategory, RotatingQuarter } from '@/utils/rewards';
+import type { CardRewardsSummary, RewardProgramSource } from '@/services/rewards';
+
+interface CatalogOption {
+  id: string;
+  name: string;
+}
+
+interface MultiplierForm {
+  category: RewardCategory;
+  rate: string;
+  capAmount: string;
+  capPeriod: CapPeriod;
+}
+
+interface ProgramForm {
+  catalogId: string;
+  currency: RewardCurrency;
+  pointValueCents: string;
+  baseRate: string;
+  multipliers: MultiplierForm[];
+  rotatingRate: string;
+  rotatingCapAmount: string;
+  // Categories for the current quarter; other quarters are kept as saved
+  currentQuarterCategories: RewardCategory[];
+  otherQuarters: RotatingQuarter[];
+}
+
+const SOURCE_LABELS: Record<RewardProgramSource, string> = {
+  saved: 'Custom',
+  catalog: 'From catalog',
+  default: 'Default 1%',
+};
+
+const CURRENCY_UNITS: Record<RewardCurrency, string> = {
+  cashback: '%',
+  points: 'x',
+  miles: 'x',
+};
+
+const inputClass = 'block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+const categoryName = (category: RewardCategory) =>
+  REWARD_CATEGORIES.find(c => c.value === category)?.label || category;
+
+function toForm(card: CardRewardsSummary, quarter: string): ProgramForm {
+  const { program } = card;
+  return {
+    catalogId: program.catalogId || '',
+    currency: program.currency,
+    pointValueCents: String(program.pointValueCents),
+    baseRate: String(program.baseRate),
+    multipliers: program.multipliers.map(m => ({
+      category: m.category,
+      rate: String(m.rate),
+      capAmount: m.capAmount !== null ? String(m.capAmount) : '',
+      capPeriod: m.capPeriod || 'year',
+    })),
+    rotatingRate: program.rotatingRate !== null ? String(program.rotatingRate) : '',
+    rotatingCapAmount: program.rotatingCapAmount !== null ? String(program.rotatingCapAmount) : '',
+    currentQuarterCategories: program.rotatingQuarters.find(q => q.quarter === quarter)?.categories || [],
+    otherQuarters: program.rotatingQuarters.filter(q => q.quarter !== quarter),
+  };
+}
+
+export function RewardsPanel() {
+  const [cards, setCards] = useState<CardRewardsSummary[]>([]);
+  const [bestCards, setBestCards] = useState<BestCardForCategory[]>([]);
+  const [catalog, setCatalog] = useState<CatalogOption[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ProgramForm | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const currentQuarter = quarterKey(new Date());
+
+  const loadRewards = useCallback(async () => {
+    try {
+      const response = await fetch('/api/user/rewards', { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load rewards');
+      }
+      setCards(data.cards);
+      setBestCards(data.bestCards);
+      setCatalog(data.catalog);
+    } catch (err) {
+      console.error('Failed to load rewards:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load rewards');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRewards();
+  }, [loadRewards]);
+
+  const cardLabel = (id: string) => {
+    const card = cards.find(c => c.creditCardId === id);
+    return card ? normalizeCardDisplayName(card.name, card.mask ?? undefined) : 'Card';
+  };
+
+  const startEditing = (card: CardRewardsSummary) => {
+    setError(null);
+    setEditingId(card.creditCardId);
+    setForm(toForm(card, currentQuarter));
+  };
+
+  const stopEditing = () => {
+    setEditingId(null);
+    setForm(null);
+  };
+
+  const updateForm = <K extends keyof ProgramForm>(key: K, value: ProgramForm[K]) =>
+    setForm(prev => prev ? { ...prev, [key]: value } : prev);
+
+  const updateMultiplier = (index: number, changes: Partial<MultiplierForm>) =>
+    setForm(prev => prev ? {
+      ...prev,
+      multipliers: prev.multipliers.map((m, i) => i === index ? { ...m, ...changes } : m),
+    } : prev);
+
+  const toggleQuarterCategory = (category: RewardCategory) =>
+    setForm(prev => prev ? {
+      ...prev,
+      currentQuarterCategories: prev.currentQuarterCategories.includes(category)
+        ? prev.currentQuarterCategories.filter(c => c !== category)
+        : [...prev.currentQuarterCategories, category],
+    } : prev);
+
+  const submitProgram = async (cardId: string, init: RequestInit) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/user/rewards/${cardId}`, init);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save rewards program');
+      }
+      stopEditing();
+      await loadRewards();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rewards program');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveProgram = () => {
+    if (!form || !editingId) return;
+    const rotatingQuarters = form.currentQuarterCategories.length > 0
+      ? [...form.otherQuarters, { quarter: currentQuarter, categories: form.currentQuarterCategories }]
+      : form.otherQuarters;
+    submitProgram(editingId, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        catalogId: form.catalogId || null,
+        currency: form.currency,
+        pointValueCents: form.pointValueCents,
+        baseRate: form.baseRate,
+        multipliers: form.multipliers,
+        rotatingRate: form.rotatingRate,
+        rotatingCapAmount: form.rotatingCapAmount,
+        rotatingQuarters,
+      }),
+    });
+  };
+
+  const applyPreset = (catalogId: string) => {
+    if (!editingId || !catalogId) return;
+    submitProgram(editingId, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ catalogId }),
+    });
+  };
+
+  const resetProgram = () => {
+    if (!editingId) return;
+    submitProgram(editingId, { method: 'DELETE' });
+  };
+
+  const totalValue = cards.reduce((sum, card) => sum + card.value, 0);
+  const unit = form ? CURRENCY_UNITS[form.currency] : '';
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <Gift className="h-6 w-6 text-indigo-600 mr-3" />
+          <h2 className="text-xl font-semibold text-gray-900">Rewards</h2>
+        </div>
+        {cards.length > 0 && (
+          <div className="text-right">
+            <p className="text-sm text-gray-600">Estimated, last 12 months</p>
+            <p className="font-semibold text-gray-900">{formatCurrency(totalValue)}</p>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center text-gray-500 text-sm">
+          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          Estimating rewards...
+        </div>
+      ) : cards.length === 0 ? (
+        <p className="text-gray-500 text-sm">Connect a card to estimate the rewards you are earning.</p>
+      ) : (
+        <div className="space-y-6">
+          {bestCards.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Best card for each category</h3>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 border-b border-gray-100">
+                      <th className="py-2 pr-4 font-medium">Category</th>
+                      <th className="py-2 pr-4 font-medium text-right">Spend</th>
+                      <th className="py-2 pr-4 font-medium">Best card</th>
+                      <th className="py-2 font-medium text-right">Earned / possible</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {bestCards.map(best => (
+                      <tr key={best.category}>
+                        <td className="py-2 pr-4 text-gray-900">{categoryName(best.category)}</td>
+                        <td className="py-2 pr-4 text-right text-gray-700">{formatCurrency(best.spend)}</td>
+                        <td className="py-2 pr-4 text-gray-700">
+                          {cardLabel(best.bestCreditCardId)}
+                          <span className="text-xs text-gray-500"> · {best.bestCentsPerDollar}¢/$</span>
+                        </td>
+                        <td className="py-2 text-right">
+                          <span className="text-gray-900">{formatCurrency(best.actualValue)}</span>
+                          <span className="text-gray-500"> / {formatCurrency(best.bestValue)}</span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="divide-y divide-gray-100">
+            {cards.map(card => {
+              const expanded = expandedId === card.creditCardId;
+              const editing = editingId === card.creditCardId && form;
+              return (
+                <div key={card.creditCardId} className="py-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <button
+                      onClick={() => setExpandedId(expanded ? null : card.creditCardId)}
+                      className="flex items-center min-w-0 text-left"
+                    >
+                      {expanded ? <ChevronUp className="h-4 w-4 mr-2 text-gray-400" /> : <ChevronDown className="h-4 w-4 mr-2 text-gray-400" />}
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900 truncate">{normalizeCardDisplayName(card.name, card.mask ?? undefined)}</p>
+                        <p className="text-xs text-gray-500">
+                          {SOURCE_LABELS[card.source]} · {card.program.baseRate}{CURRENCY_UNITS[card.program.currency]} base
+                          {card.program.multipliers.length > 0 && ` · ${card.program.multipliers.length} bonus categor${card.program.multipliers.length === 1 ? 'y' : 'ies'}`}
+                        </p>
+                      </div>
+                    </button>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <div className="text-right">
+                        <p className="font-semibold text-gray-900">{formatCurrency(card.value)}</p>
+                        {card.program.currency !== 'cashback' && (
+                          <p className="text-xs text-gray-500">{Math.round(card.earned).toLocaleString()} {card.program.currency}</p>
+                        )}
+                      </div>
+                      <button onClick={() => startEditing(card)} className="p-1 rounded hover:bg-gray-100 text-gray-500 hover:text-gray-700" title="Edit earning rules">
+                        <Edit3 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {expanded && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3 text-sm">
+                      {[{ title: 'By month', periods: card.months }, { title: 'By billing cycle', periods: card.cycles }].map(({ title, periods }) => (
+                        <div key={title}>
+                          <p className="text-xs font-medium text-gray-500 mb-1">{title}</p>
+                          {periods.length === 0 ? (
+                            <p className="text-xs text-gray-500">No billing cycles yet.</p>
+                          ) : periods.map(period => (
+                            <div key={period.start} className="flex justify-between py-0.5">
+                              <span className="text-gray-700">{period.label}</span>
+                              <span className="text-gray-900">
+                                {formatCurrency(period.value)}
+                                <span className="text-xs text-gray-500"> on {formatCurrency(period.spend)}</span>
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {editing && (
+                    <div className="border border-indigo-200 bg-indigo-50/40 rounded-lg p-4 mt-3 space-y-3">
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                        <select
+                          value=""
+                          onChange={(e) => applyPreset(e.target.value)}
+                          disabled={saving}
+                          className={`${inputClass} md:col-span-4`}
+                          aria-label="Catalog preset"
+                        >
+                          <option value="">Start from a known card...</option>
+                          {catalog.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+                        </select>
+                        <select value={form.currency} onChange={(e) => updateForm('currency', e.target.value as RewardCurrency)} className={inputClass} aria-label="Currency">
+                          <option value="cashback">Cashback</option>
+                          <option value="points">Points</option>
+                          <option value="miles">Miles</option>
+                        </select>
+                        {form.currency !== 'cashback' && (
+                          <input type="number" min={0} step="0.05" value={form.pointValueCents} onChange={(e) => updateForm('pointValueCents', e.target.value)} placeholder="Cents per point" className={inputClass} aria-label="Cents per point" />
+                        )}
+                        <input type="number" min={0} step="0.5" value={form.baseRate} onChange={(e) => updateForm('baseRate', e.target.value)} placeholder={`Base rate (${unit})`} className={inputClass} aria-label="Base rate" />
+                      </div>
+
+                      <div className="space-y-2">
+                        <p className="text-xs font-medium text-gray-600">Bonus categories</p>
+                        {form.multipliers.map((multiplier, index) => (
+                          <div key={index} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-center">
+                            <select value={multiplier.category} onChange={(e) => updateMultiplier(index, { category: e.target.value as RewardCategory })} className={inputClass} aria-label="Bonus category">
+                              {REWARD_CATEGORIES.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                            </select>
+                            <input type="number" min={0} step="0.5" value={multiplier.rate} onChange={(e) => updateMultiplier(index, { rate: e.target.value })} placeholder={`Rate (${unit})`} className={inputClass} aria-label="Bonus rate" />
+                            <input type="number" min={0} value={multiplier.capAmount} onChange={(e) => updateMultiplier(index, { capAmount: e.target.value })} placeholder="Cap (none)" className={inputClass} aria-label="Spend cap" />
+                            <select value={multiplier.capPeriod} onChange={(e) => updateMultiplier(index, { capPeriod: e.target.value as CapPeriod })} disabled={!multiplier.capAmount} className={inputClass} aria-label="Cap period">
+                              <option value="month">per month</option>
+                              <option value="quarter">per quarter</option>
+                              <option value="year">per year</option>
+                            </select>
+                            <button
+                              onClick={() => updateForm('multipliers', form.multipliers.filter((_, i) => i !== index))}
+                              className="justify-self-start p-1 rounded hover:bg-red-100 text-red-500 hover:text-red-700"
+                              title="Remove bonus category"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          onClick={() => updateForm('multipliers', [...form.multipliers, { category: 'dining', rate: '', capAmount: '', capPeriod: 'year' }])}
+                          className="flex items-center text-sm text-indigo-600 hover:text-indigo-800"
+                        >
+                          <Plus className="h-4 w-4 mr-1" />
+                          Add bonus category
+                        </button>
+                      </div>
+
+                      <div className="space-y-2">
+                        <p className="text-xs font-medium text-gray-600">Rotating quarterly bonus</p>
+                        <div className="grid grid-cols-2 gap-2">
+                          <input type="number" min={0} step="0.5" value={form.rotatingRate} onChange={(e) => updateForm('rotatingRate', e.target.value)} placeholder={`Rate (${unit}, none)`} className={inputClass} aria-label="Rotating rate" />
+                          <input type="number" min={0} value={form.rotatingCapAmount} onChange={(e) => updateForm('rotatingCapAmount', e.target.value)} placeholder="Quarterly cap (none)" className={inputClass} aria-label="Rotating cap" />
+                        </div>
+                        {form.rotatingRate && (
+                          <div className="flex flex-wrap gap-x-4 gap-y-1">
+                            <span className="text-xs text-gray-600 w-full">Categories for {currentQuarter}</span>
+                            {REWARD_CATEGORIES.filter(c => c.value !== 'other').map(c => (
+                              <label key={c.value} className="flex items-center text-sm text-gray-700">
+                                <input
+                                  type="checkbox"
+                                  checked={form.currentQuarterCategories.includes(c.value)}
+                                  onChange={() => toggleQuarterCategory(c.value)}
+                                  className="mr-1.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                                />
+                                {c.label}
+                              </label>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+
+                      <div className="flex items-center justify-between gap-2">
+                        <button
+                          onClick={resetProgram}
+                          disabled={saving || card.source !== 'saved'}
+                          className="text-sm text-gray-600 hover:text-gray-900 disabled:opacity-40"
+                        >
+                          Reset to catalog
+                        </button>
+                        <div className="flex items-center gap-2">
+                          <button onClick={stopEditing} className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900">
+                            Cancel
+                          </button>
+                          <button
+                            onClick={saveProgram}
+                            disabled={saving}
+                            className="flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                          >
+                            {saving && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+                            Save rules
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
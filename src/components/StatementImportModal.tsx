@@ -0,0 +1,320 @@
+'use client';
+
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Upload, X } from 'lucide-react';
+import { formatCurrency, formatDate } from '@/utils/format';
+import type { CsvColumnMapping, PlannedImportTransaction, StatementParseError, BalanceReconciliation } from '@/utils/statementImport';
+
+interface StatementImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  cardId: string;
+  cardName: string;
+  onImported: () => void;
+}
+
+interface ImportSummary {
+  imported: number;
+  duplicates: number;
+  errors: StatementParseError[];
+  reconciliation: BalanceReconciliation;
+  sample: {
+    toImport: PlannedImportTransaction[];
+    duplicates: PlannedImportTransaction[];
+  };
+}
+
+type ColumnField = 'date' | 'description' | 'amount' | 'debit' | 'credit' | 'merchant' | 'category' | 'reference';
+
+const COLUMN_FIELDS: Array<{ field: ColumnField; label: string; required?: boolean }> = [
+  { field: 'date', label: 'Date', required: true },
+  { field: 'description', label: 'Description', required: true },
+  { field: 'amount', label: 'Amount' },
+  { field: 'debit', label: 'Debit (charges)' },
+  { field: 'credit', label: 'Credit (payments)' },
+  { field: 'merchant', label: 'Merchant' },
+  { field: 'category', label: 'Category' },
+  { field: 'reference', label: 'Reference / ID' },
+];
+
+export function StatementImportModal({ isOpen, onClose, cardId, cardName, onImported }: StatementImportModalProps) {
+  const [fileName, setFileName] = useState('');
+  const [content, setContent] = useState<string | null>(null);
+  const [columns, setColumns] = useState<string[] | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [statementBalance, setStatementBalance] = useState('');
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setFileName('');
+    setContent(null);
+    setColumns(null);
+    setMapping(null);
+    setStatementBalance('');
+    setSummary(null);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const post = async (payload: Record<string, unknown>) => {
+    const response = await fetch(`/api/user/manual-cards/${cardId}/import`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fileName, content, statementBalance: statementBalance || null, ...payload }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to import statement');
+    }
+    return data;
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    reset();
+    setFileName(file.name);
+    setWorking(true);
+    try {
+      const text = await file.text();
+      setContent(text);
+      const response = await fetch(`/api/user/manual-cards/${cardId}/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fileName: file.name, content: text, preview: true }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to read statement');
+      }
+      // CSV files come back with a suggested mapping; OFX/QFX go straight to the preview
+      if (data.suggestedMapping) {
+        setColumns(data.columns);
+        setMapping(data.suggestedMapping);
+      } else {
+        setSummary(data);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read statement');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    setWorking(true);
+    setError(null);
+    try {
+      setSummary(await post({ mapping, preview: true }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview statement');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setWorking(true);
+    setError(null);
+    try {
+      await post({ mapping, preview: false });
+      onImported();
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import statement');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const setColumn = (field: ColumnField, value: string) => {
+    if (!mapping) return;
+    const index = value === '' ? null : Number(value);
+    setMapping({ ...mapping, [field]: index });
+    setSummary(null);
+  };
+
+  if (!isOpen) return null;
+
+  const columnLabel = (index: number) =>
+    mapping?.hasHeader && columns?.[index] ? columns[index] : `Column ${index + 1}`;
+
+  // Rendered into body: the card that opens it is a transformed (sortable) element
+  const modal = (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40 transition-opacity"
+        onClick={handleClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-2xl border border-gray-100 p-6 max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <Upload className="h-6 w-6 text-blue-600" />
+              <h2 className="text-xl font-semibold text-gray-900">Import Statement</h2>
+            </div>
+            <button onClick={handleClose} className="p-1 rounded hover:bg-gray-100 text-gray-500" title="Close">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="space-y-4 text-sm text-gray-700">
+            <p className="text-gray-600">
+              Upload a CSV, OFX or QFX download from your issuer for <span className="font-medium">{cardName}</span>.
+              Transactions that are already on the card are skipped.
+            </p>
+
+            <input
+              type="file"
+              accept=".csv,.ofx,.qfx,text/csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="block w-full text-sm text-gray-700"
+            />
+
+            {mapping && columns && (
+              <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={mapping.hasHeader}
+                    onChange={(e) => { setMapping({ ...mapping, hasHeader: e.target.checked }); setSummary(null); }}
+                  />
+                  <span>First row is a header</span>
+                </label>
+
+                <div className="grid grid-cols-2 gap-3">
+                  {COLUMN_FIELDS.map(({ field, label, required }) => (
+                    <label key={field} className="block">
+                      <span className="block text-xs text-gray-500 mb-1">{label}</span>
+                      <select
+                        value={mapping[field] ?? ''}
+                        onChange={(e) => setColumn(field, e.target.value)}
+                        className="w-full rounded-lg border border-gray-300 bg-white px-2 py-1.5"
+                      >
+                        {!required && <option value="">Not in file</option>}
+                        {columns.map((_, index) => (
+                          <option key={index} value={index}>{columnLabel(index)}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="block">
+                    <span className="block text-xs text-gray-500 mb-1">Amount sign</span>
+                    <select
+                      value={mapping.amountConvention}
+                      onChange={(e) => { setMapping({ ...mapping, amountConvention: e.target.value as CsvColumnMapping['amountConvention'] }); setSummary(null); }}
+                      className="w-full rounded-lg border border-gray-300 bg-white px-2 py-1.5"
+                    >
+                      <option value="charges_positive">Charges are positive</option>
+                      <option value="charges_negative">Charges are negative</option>
+                    </select>
+                  </label>
+                  <label className="block">
+                    <span className="block text-xs text-gray-500 mb-1">Date format</span>
+                    <select
+                      value={mapping.dateOrder}
+                      onChange={(e) => { setMapping({ ...mapping, dateOrder: e.target.value as CsvColumnMapping['dateOrder'] }); setSummary(null); }}
+                      className="w-full rounded-lg border border-gray-300 bg-white px-2 py-1.5"
+                    >
+                      <option value="mdy">MM/DD/YYYY</option>
+                      <option value="dmy">DD/MM/YYYY</option>
+                      <option value="ymd">YYYY-MM-DD</option>
+                    </select>
+                  </label>
+                </div>
+              </div>
+            )}
+
+            {content && (
+              <label className="block">
+                <span className="block text-xs text-gray-500 mb-1">Statement closing balance (optional, for reconciliation)</span>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={statementBalance}
+                  onChange={(e) => { setStatementBalance(e.target.value); setSummary(null); }}
+                  className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2"
+                />
+              </label>
+            )}
+
+            {summary && (
+              <div className="bg-blue-50 rounded-lg p-4 space-y-2">
+                <p>
+                  <span className="font-medium">{summary.imported}</span> new transaction{summary.imported === 1 ? '' : 's'},{' '}
+                  <span className="font-medium">{summary.duplicates}</span> already imported
+                </p>
+                <p>
+                  Balance: {formatCurrency(summary.reconciliation.previousBalance)} → {formatCurrency(summary.reconciliation.newBalance)}
+                </p>
+                {summary.reconciliation.difference !== null && Math.abs(summary.reconciliation.difference) >= 0.01 && (
+                  <p className="text-yellow-700">
+                    The statement balance differs from the calculated balance by {formatCurrency(summary.reconciliation.difference)}.
+                    The statement balance will be used.
+                  </p>
+                )}
+                {summary.errors.length > 0 && (
+                  <div className="text-red-600 text-xs">
+                    {summary.errors.slice(0, 5).map(parseError => (
+                      <p key={parseError.line}>Line {parseError.line}: {parseError.message}</p>
+                    ))}
+                    {summary.errors.length > 5 && <p>…and {summary.errors.length - 5} more rows skipped</p>}
+                  </div>
+                )}
+                {summary.sample.toImport.length > 0 && (
+                  <ul className="text-xs text-gray-600 space-y-1 max-h-40 overflow-y-auto">
+                    {summary.sample.toImport.map(t => (
+                      <li key={t.transactionId} className="flex justify-between">
+                        <span className="truncate mr-2">{formatDate(`${t.date}T00:00:00`)} · {t.name}</span>
+                        <span>{formatCurrency(t.amount)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {error && <p className="text-xs text-red-600">{error}</p>}
+
+            <div className="flex space-x-3">
+              {content && !summary && (
+                <button
+                  onClick={handlePreview}
+                  disabled={working}
+                  className="flex-1 py-2 px-4 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-800 font-medium rounded-lg transition-colors"
+                >
+                  {working ? 'Reading...' : 'Preview'}
+                </button>
+              )}
+              {summary && (
+                <button
+                  onClick={handleImport}
+                  disabled={working || (summary.imported === 0 && summary.reconciliation.difference === null)}
+                  className="flex-1 py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white font-medium rounded-lg transition-colors"
+                >
+                  {working ? 'Importing...' : `Import ${summary.imported} transaction${summary.imported === 1 ? '' : 's'}`}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+
+  return typeof document !== 'undefined'
+    ? createPortal(modal, document.body)
+    : null;
+}
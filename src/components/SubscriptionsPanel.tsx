@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Repeat, Loader2, TrendingUp, ChevronDown, ChevronUp } from 'lucide-react';
+import { formatCurrency, formatDate } from '@/utils/format';
+import type { DetectedSubscription, SubscriptionCadence } from '@/utils/subscriptions';
+
+interface SubscriptionSummary {
+  activeCount: number;
+  annualizedTotal: number;
+  priceIncreaseCount: number;
+  stoppedCount: number;
+}
+
+const CADENCE_LABELS: Record<SubscriptionCadence, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  annual: 'Yearly',
+};
+
+export function SubscriptionsPanel() {
+  const [subscriptions, setSubscriptions] = useState<DetectedSubscription[]>([]);
+  const [summary, setSummary] = useState<SubscriptionSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showStopped, setShowStopped] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/user/subscriptions', { cache: 'no-store' });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load subscriptions');
+        }
+        setSubscriptions(data.subscriptions);
+        setSummary(data.summary);
+      } catch (err) {
+        console.error('Failed to load subscriptions:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load subscriptions');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const active = subscriptions.filter(s => s.status === 'active');
+  const stopped = subscriptions.filter(s => s.status === 'stopped');
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <Repeat className="h-6 w-6 text-indigo-600 mr-3" />
+          <h2 className="text-xl font-semibold text-gray-900">Recurring Charges</h2>
+        </div>
+        {summary && summary.activeCount > 0 && (
+          <div className="text-right">
+            <p className="text-sm text-gray-600">{summary.activeCount} active</p>
+            <p className="font-semibold text-gray-900">{formatCurrency(summary.annualizedTotal)}/yr</p>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center text-gray-500 text-sm">
+          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          Scanning transaction history...
+        </div>
+      ) : active.length === 0 && stopped.length === 0 ? (
+        <p className="text-gray-500 text-sm">No recurring charges found yet. Subscriptions show up after a few charges.</p>
+      ) : (
+        <>
+          {summary && summary.priceIncreaseCount > 0 && (
+            <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-3 py-2 mb-4">
+              {summary.priceIncreaseCount} subscription{summary.priceIncreaseCount === 1 ? '' : 's'} went up in price.
+            </p>
+          )}
+
+          <div className="divide-y divide-gray-100">
+            {active.map(subscription => (
+              <div key={subscription.merchantKey} className="py-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{subscription.merchant}</p>
+                  <p className="text-xs text-gray-500">
+                    {CADENCE_LABELS[subscription.cadence]} · {subscription.category} · next around {formatDate(subscription.nextExpectedDate)}
+                  </p>
+                  {subscription.priceIncrease && (
+                    <p className="text-xs text-amber-700 flex items-center mt-0.5">
+                      <TrendingUp className="h-3 w-3 mr-1" />
+                      Up from {formatCurrency(subscription.priceIncrease.from)} to {formatCurrency(subscription.priceIncrease.to)} on {formatDate(subscription.priceIncrease.changedOn)}
+                    </p>
+                  )}
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <p className="font-semibold text-gray-900">{formatCurrency(subscription.lastAmount)}</p>
+                  <p className="text-xs text-gray-500">{formatCurrency(subscription.annualizedCost)}/yr</p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {stopped.length > 0 && (
+            <div className="mt-4">
+              <button
+                onClick={() => setShowStopped(!showStopped)}
+                className="flex items-center text-sm text-gray-600 hover:text-gray-900"
+              >
+                {showStopped ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+                {stopped.length} stopped charge{stopped.length === 1 ? '' : 's'}
+              </button>
+              {showStopped && (
+                <div className="divide-y divide-gray-100 mt-2">
+                  {stopped.map(subscription => (
+                    <div key={subscription.merchantKey} className="py-2 flex items-center justify-between gap-4 text-sm">
+                      <div className="min-w-0">
+                        <p className="text-gray-700 truncate">{subscription.merchant}</p>
+                        <p className="text-xs text-gray-500">
+                          {CADENCE_LABELS[subscription.cadence]} · last charged {formatDate(subscription.lastChargeDate)}
+                        </p>
+                      </div>
+                      <span className="text-gray-500 flex-shrink-0">{formatCurrency(subscription.lastAmount)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,355 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Tags, Loader2, Plus, Trash2, Edit3, RefreshCw } from 'lucide-react';
+import { formatCurrency } from '@/utils/format';
+import { normalizeCardDisplayName } from '@/utils/cardName';
+import type { RuleMatchType, TransactionRule } from '@/utils/transactionRules';
+
+interface CardOption {
+  id: string;
+  name: string;
+  mask: string;
+}
+
+// Form fields are kept as strings so inputs can be empty
+interface RuleForm {
+  matchType: RuleMatchType;
+  pattern: string;
+  minAmount: string;
+  maxAmount: string;
+  creditCardId: string;
+  setCategory: string;
+  renameTo: string;
+  excludeFromSpend: boolean;
+  priority: string;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: RuleForm = {
+  matchType: 'merchant_contains',
+  pattern: '',
+  minAmount: '',
+  maxAmount: '',
+  creditCardId: '',
+  setCategory: '',
+  renameTo: '',
+  excludeFromSpend: false,
+  priority: '0',
+  enabled: true,
+};
+
+const inputClass = 'block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+function toForm(rule: TransactionRule): RuleForm {
+  return {
+    matchType: rule.matchType,
+    pattern: rule.pattern || '',
+    minAmount: rule.minAmount !== null ? String(rule.minAmount) : '',
+    maxAmount: rule.maxAmount !== null ? String(rule.maxAmount) : '',
+    creditCardId: rule.creditCardId || '',
+    setCategory: rule.setCategory || '',
+    renameTo: rule.renameTo || '',
+    excludeFromSpend: rule.excludeFromSpend,
+    priority: String(rule.priority),
+    enabled: rule.enabled,
+  };
+}
+
+export function TransactionRulesSettings() {
+  const [rules, setRules] = useState<TransactionRule[]>([]);
+  const [cards, setCards] = useState<CardOption[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [form, setForm] = useState<RuleForm | null>(null);
+  // null = creating a new rule
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [matchCounts, setMatchCounts] = useState<Record<string, number> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [rulesResponse, cardsResponse, facetsResponse] = await Promise.all([
+          fetch('/api/user/transaction-rules', { cache: 'no-store' }),
+          fetch('/api/user/credit-cards?light=1', { cache: 'no-store' }),
+          fetch('/api/user/transactions?facets=1&limit=1', { cache: 'no-store' }),
+        ]);
+        const rulesData = await rulesResponse.json();
+        if (!rulesResponse.ok) {
+          throw new Error(rulesData.error || 'Failed to load transaction rules');
+        }
+        setRules(rulesData.rules);
+        if (cardsResponse.ok) setCards((await cardsResponse.json()).creditCards || []);
+        if (facetsResponse.ok) setCategories((await facetsResponse.json()).categories || []);
+      } catch (error) {
+        console.error('Failed to load transaction rules:', error);
+        setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load transaction rules' });
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const cardLabel = (id: string | null) => {
+    const card = cards.find(c => c.id === id);
+    return card ? normalizeCardDisplayName(card.name, card.mask) : 'Unknown card';
+  };
+
+  const startEditing = (rule: TransactionRule | null) => {
+    setMessage(null);
+    setEditingId(rule?.id ?? null);
+    setForm(rule ? toForm(rule) : EMPTY_FORM);
+  };
+
+  const updateForm = <K extends keyof RuleForm>(key: K, value: RuleForm[K]) =>
+    setForm(prev => prev ? { ...prev, [key]: value } : prev);
+
+  const saveRule = async () => {
+    if (!form) return;
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch(editingId ? `/api/user/transaction-rules/${editingId}` : '/api/user/transaction-rules', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, priority: Number(form.priority) || 0 }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save rule');
+      }
+      setRules(prev => {
+        const others = prev.filter(rule => rule.id !== data.rule.id);
+        return [...others, data.rule].sort((a, b) => a.priority - b.priority);
+      });
+      setForm(null);
+      setEditingId(null);
+      setMatchCounts(null);
+      setMessage({ type: 'success', text: 'Rule saved. Analytics use it right away; re-run rules to update billing cycle totals.' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save rule' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteRule = async (rule: TransactionRule) => {
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/user/transaction-rules/${rule.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete rule');
+      }
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+      setMatchCounts(null);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to delete rule' });
+    }
+  };
+
+  const applyRules = async () => {
+    setApplying(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/user/transaction-rules/apply', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to apply rules');
+      }
+      setMatchCounts(data.matchCounts);
+      setMessage({
+        type: 'success',
+        text: `Rules applied to ${data.cardsQueued} card${data.cardsQueued === 1 ? '' : 's'}. Billing cycles will update shortly.`,
+      });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to apply rules' });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const describeConditions = (rule: TransactionRule) => {
+    const parts: string[] = [];
+    if (rule.pattern) {
+      parts.push(rule.matchType === 'regex' ? `matches /${rule.pattern}/` : `contains "${rule.pattern}"`);
+    }
+    if (rule.minAmount !== null && rule.maxAmount !== null) {
+      parts.push(`${formatCurrency(rule.minAmount)}–${formatCurrency(rule.maxAmount)}`);
+    } else if (rule.minAmount !== null) {
+      parts.push(`at least ${formatCurrency(rule.minAmount)}`);
+    } else if (rule.maxAmount !== null) {
+      parts.push(`at most ${formatCurrency(rule.maxAmount)}`);
+    }
+    if (rule.creditCardId) parts.push(`on ${cardLabel(rule.creditCardId)}`);
+    return parts.join(', ');
+  };
+
+  const describeActions = (rule: TransactionRule) => {
+    const parts: string[] = [];
+    if (rule.setCategory) parts.push(`category → ${rule.setCategory}`);
+    if (rule.renameTo) parts.push(`rename → ${rule.renameTo}`);
+    if (rule.excludeFromSpend) parts.push('exclude from spend');
+    return parts.join(', ');
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center">
+          <Tags className="h-5 w-5 text-indigo-600 mr-2" />
+          <h3 className="font-semibold text-gray-900">Categorization Rules</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={applyRules}
+            disabled={applying || rules.length === 0}
+            className="flex items-center px-3 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 mr-1 ${applying ? 'animate-spin' : ''}`} />
+            Re-run rules
+          </button>
+          <button
+            onClick={() => startEditing(null)}
+            className="flex items-center px-3 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New rule
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Fix miscategorized merchants, rename transactions or leave them out of spend totals. Rules run top to bottom and the first match wins.
+      </p>
+
+      {message && (
+        <p className={`text-sm mb-4 ${message.type === 'error' ? 'text-red-600' : 'text-green-700'}`}>{message.text}</p>
+      )}
+
+      {form && (
+        <div className="border border-indigo-200 bg-indigo-50/40 rounded-lg p-4 mb-4 space-y-4">
+          <div>
+            <p className="text-xs font-semibold text-gray-700 uppercase tracking-wide mb-2">When a transaction</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <select value={form.matchType} onChange={(e) => updateForm('matchType', e.target.value as RuleMatchType)} className={inputClass} aria-label="Match type">
+                <option value="merchant_contains">Merchant contains</option>
+                <option value="regex">Merchant matches regex</option>
+              </select>
+              <input
+                type="text"
+                value={form.pattern}
+                onChange={(e) => updateForm('pattern', e.target.value)}
+                placeholder={form.matchType === 'regex' ? 'e.g. ^(uber|lyft)' : 'e.g. costco'}
+                className={`${inputClass} md:col-span-2`}
+                aria-label="Merchant pattern"
+              />
+              <input type="number" min={0} value={form.minAmount} onChange={(e) => updateForm('minAmount', e.target.value)} placeholder="Min amount" className={inputClass} aria-label="Minimum amount" />
+              <input type="number" min={0} value={form.maxAmount} onChange={(e) => updateForm('maxAmount', e.target.value)} placeholder="Max amount" className={inputClass} aria-label="Maximum amount" />
+              <select value={form.creditCardId} onChange={(e) => updateForm('creditCardId', e.target.value)} className={inputClass} aria-label="Card">
+                <option value="">Any card</option>
+                {cards.map(card => (
+                  <option key={card.id} value={card.id}>{normalizeCardDisplayName(card.name, card.mask)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs font-semibold text-gray-700 uppercase tracking-wide mb-2">Then</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-center">
+              <input
+                type="text"
+                list="rule-categories"
+                value={form.setCategory}
+                onChange={(e) => updateForm('setCategory', e.target.value)}
+                placeholder="Set category"
+                className={inputClass}
+                aria-label="Category"
+              />
+              <datalist id="rule-categories">
+                {categories.map(category => <option key={category} value={category} />)}
+              </datalist>
+              <input type="text" value={form.renameTo} onChange={(e) => updateForm('renameTo', e.target.value)} placeholder="Rename to" className={inputClass} aria-label="Rename to" />
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.excludeFromSpend}
+                  onChange={(e) => updateForm('excludeFromSpend', e.target.checked)}
+                  className="h-4 w-4 text-indigo-600 rounded mr-2"
+                />
+                Exclude from spend
+              </label>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <label className="flex items-center text-sm text-gray-700">
+                Priority
+                <input type="number" value={form.priority} onChange={(e) => updateForm('priority', e.target.value)} className="ml-2 w-20 px-2 py-1 border border-gray-300 rounded-md text-sm" />
+              </label>
+              <label className="flex items-center text-sm text-gray-700">
+                <input type="checkbox" checked={form.enabled} onChange={(e) => updateForm('enabled', e.target.checked)} className="h-4 w-4 text-indigo-600 rounded mr-2" />
+                Enabled
+              </label>
+            </div>
+            <div className="flex items-center gap-2">
+              <button onClick={() => { setForm(null); setEditingId(null); }} className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900">
+                Cancel
+              </button>
+              <button
+                onClick={saveRule}
+                disabled={saving}
+                className="flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {saving && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+                {editingId ? 'Save rule' : 'Add rule'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center text-gray-500 text-sm">
+          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          Loading rules...
+        </div>
+      ) : rules.length === 0 ? (
+        <p className="text-sm text-gray-500">No rules yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {rules.map(rule => (
+            <li key={rule.id} className={`py-3 flex items-center justify-between gap-4 ${rule.enabled ? '' : 'opacity-50'}`}>
+              <div className="min-w-0 text-sm">
+                <p className="text-gray-900">
+                  <span className="text-gray-500">If</span> {describeConditions(rule)}
+                </p>
+                <p className="text-gray-700">
+                  <span className="text-gray-500">then</span> {describeActions(rule)}
+                </p>
+                {matchCounts && (
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    {matchCounts[rule.id] || 0} matching transaction{matchCounts[rule.id] === 1 ? '' : 's'}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button onClick={() => startEditing(rule)} className="p-1 rounded hover:bg-gray-100 text-gray-500 hover:text-gray-700" title="Edit rule">
+                  <Edit3 className="h-4 w-4" />
+                </button>
+                <button onClick={() => deleteRule(rule)} className="p-1 rounded hover:bg-red-100 text-red-500 hover:text-red-700" title="Delete rule">
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Search, Loader2, List } from 'lucide-react';
+import { formatCurrency, formatDate } from '@/utils/format';
+import { normalizeCardDisplayName } from '@/utils/cardName';
+import type { TransactionKind, TransactionSortField, TransactionSortOrder } from '@/utils/transactionQuery';
+
+interface ExplorerTransaction {
+  id: string;
+  name: string;
+  merchantName: string | null;
+  amount: number;
+  date: string;
+  category: string | null;
+  pending: boolean;
+  creditCard: { name: string; mask: string } | null;
+}
+
+interface CardOption {
+  id: string;
+  name: string;
+  mask: string;
+}
+
+interface Filters {
+  q: string;
+  cardId: string;
+  category: string;
+  minAmount: string;
+  maxAmount: string;
+  pending: '' | 'true' | 'false';
+  kind: '' | TransactionKind;
+  sort: `${TransactionSortField}:${TransactionSortOrder}`;
+}
+
+interface TransactionsExplorerProps {
+  isLoggedIn: boolean;
+}
+
+const PAGE_SIZE = 100;
+// Rows have a fixed height so the visible window can be computed from scrollTop
+const ROW_HEIGHT = 56;
+const VIEWPORT_HEIGHT = 600;
+const OVERSCAN_ROWS = 8;
+// Start fetching the next page this many rows before the end
+const PREFETCH_ROWS = 20;
+
+const SORT_OPTIONS: { value: Filters['sort']; label: string }[] = [
+  { value: 'date:desc', label: 'Newest first' },
+  { value: 'date:asc', label: 'Oldest first' },
+  { value: 'amount:desc', label: 'Largest amount' },
+  { value: 'amount:asc', label: 'Smallest amount' },
+];
+
+const INITIAL_FILTERS: Filters = {
+  q: '',
+  cardId: '',
+  category: '',
+  minAmount: '',
+  maxAmount: '',
+  pending: '',
+  kind: '',
+  sort: 'date:desc',
+};
+
+const inputClass = 'block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+function buildParams(filters: Filters, cursor: string | null, facets: boolean): URLSearchParams {
+  const [sort, order] = filters.sort.split(':');
+  const params = new URLSearchParams({ sort, order, limit: String(PAGE_SIZE) });
+  if (filters.q.trim()) params.set('q', filters.q.trim());
+  if (filters.cardId) params.set('cardId', filters.cardId);
+  if (filters.category) params.set('category', filters.category);
+  if (filters.minAmount) params.set('minAmount', filters.minAmount);
+  if (filters.maxAmount) params.set('maxAmount', filters.maxAmount);
+  if (filters.pending) params.set('pending', filters.pending);
+  if (filters.kind) params.set('kind', filters.kind);
+  if (cursor) params.set('cursor', cursor);
+  if (facets) params.set('facets', '1');
+  return params;
+}
+
+export function TransactionsExplorer({ isLoggedIn }: TransactionsExplorerProps) {
+  const [filters, setFilters] = useState<Filters>(INITIAL_FILTERS);
+  const [transactions, setTransactions] = useState<ExplorerTransaction[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [cards, setCards] = useState<CardOption[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  // Ignores responses from searches that were superseded by newer filters
+  const requestIdRef = useRef(0);
+  // Category facets only need loading once
+  const categoriesLoadedRef = useRef(false);
+
+  const fetchPage = useCallback(async (cursor: string | null) => {
+    const requestId = cursor ? requestIdRef.current : ++requestIdRef.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const facets = !cursor && !categoriesLoadedRef.current;
+      const response = await fetch(`/api/user/transactions?${buildParams(filters, cursor, facets)}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load transactions');
+      }
+      if (requestId !== requestIdRef.current) return;
+
+      setTransactions(prev => cursor ? [...prev, ...data.transactions] : data.transactions);
+      setNextCursor(data.nextCursor);
+      if (data.categories) {
+        categoriesLoadedRef.current = true;
+        setCategories(data.categories);
+      }
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error('Transactions explorer error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load transactions');
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    if (!isLoggedIn) return;
+    fetch('/api/user/credit-cards?light=1', { cache: 'no-store' })
+      .then(response => response.ok ? response.json() : { creditCards: [] })
+      .then(data => setCards(data.creditCards || []))
+      .catch(err => console.error('Failed to load cards for filters:', err));
+  }, [isLoggedIn]);
+
+  // New filters start over from the first page; debounced for typing
+  useEffect(() => {
+    if (!isLoggedIn) return;
+    const timer = setTimeout(() => {
+      setScrollTop(0);
+      if (viewportRef.current) viewportRef.current.scrollTop = 0;
+      fetchPage(null);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [fetchPage, isLoggedIn]);
+
+  const firstVisible = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastVisible = Math.min(transactions.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS);
+
+  useEffect(() => {
+    if (nextCursor && !loading && lastVisible >= transactions.length - PREFETCH_ROWS) {
+      fetchPage(nextCursor);
+    }
+  }, [lastVisible, nextCursor, loading, transactions.length, fetchPage]);
+
+  const updateFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
+    // The old cursor belongs to the previous filters
+    setNextCursor(null);
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Transactions</h1>
+          <p className="text-gray-600 mt-2">
+            {isLoggedIn
+              ? 'Search and filter every transaction across your cards'
+              : 'Sign in to search your transactions'}
+          </p>
+        </div>
+
+        {isLoggedIn && (
+          <div className="bg-white p-6 rounded-lg shadow-sm">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+              <div className="relative md:col-span-2">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Search className="h-4 w-4 text-gray-400" />
+                </div>
+                <input
+                  type="text"
+                  value={filters.q}
+                  onChange={(e) => updateFilter('q', e.target.value)}
+                  placeholder="Search merchant or description"
+                  className={`${inputClass} pl-9`}
+                  aria-label="Search transactions"
+                />
+              </div>
+              <select value={filters.cardId} onChange={(e) => updateFilter('cardId', e.target.value)} className={inputClass} aria-label="Card">
+                <option value="">All cards</option>
+                {cards.map(card => (
+                  <option key={card.id} value={card.id}>{normalizeCardDisplayName(card.name, card.mask)}</option>
+                ))}
+              </select>
+              <select value={filters.category} onChange={(e) => updateFilter('category', e.target.value)} className={inputClass} aria-label="Category">
+                <option value="">All categories</option>
+                {categories.map(category => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+              <input
+                type="number"
+                value={filters.minAmount}
+                onChange={(e) => updateFilter('minAmount', e.target.value)}
+                placeholder="Min amount"
+                className={inputClass}
+                aria-label="Minimum amount"
+              />
+              <input
+                type="number"
+                value={filters.maxAmount}
+                onChange={(e) => updateFilter('maxAmount', e.target.value)}
+                placeholder="Max amount"
+                className={inputClass}
+                aria-label="Maximum amount"
+              />
+              <select value={filters.kind} onChange={(e) => updateFilter('kind', e.target.value as Filters['kind'])} className={inputClass} aria-label="Type">
+                <option value="">Payments and purchases</option>
+                <option value="purchase">Purchases only</option>
+                <option value="payment">Payments only</option>
+              </select>
+              <select value={filters.pending} onChange={(e) => updateFilter('pending', e.target.value as Filters['pending'])} className={inputClass} aria-label="Status">
+                <option value="">Posted and pending</option>
+                <option value="false">Posted only</option>
+                <option value="true">Pending only</option>
+              </select>
+              <select value={filters.sort} onChange={(e) => updateFilter('sort', e.target.value as Filters['sort'])} className={inputClass} aria-label="Sort">
+                {SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+            <div className="grid grid-cols-[7rem_1fr_12rem_8rem] gap-4 px-4 py-2 text-xs font-medium text-gray-500 uppercase tracking-wide border-b border-gray-200">
+              <span>Date</span>
+              <span>Description</span>
+              <span>Card</span>
+              <span className="text-right">Amount</span>
+            </div>
+
+            <div
+              ref={viewportRef}
+              onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+              className="overflow-y-auto"
+              style={{ height: VIEWPORT_HEIGHT }}
+            >
+              {transactions.length === 0 && !loading ? (
+                <div className="flex flex-col items-center justify-center h-full text-gray-500">
+                  <List className="h-8 w-8 mb-2 text-gray-300" />
+                  <p className="text-sm">No transactions match these filters.</p>
+                </div>
+              ) : (
+                <div className="relative" style={{ height: transactions.length * ROW_HEIGHT }}>
+                  {transactions.slice(firstVisible, lastVisible).map((transaction, index) => (
+                    <div
+                      key={transaction.id}
+                      className="absolute left-0 right-0 grid grid-cols-[7rem_1fr_12rem_8rem] gap-4 items-center px-4 border-b border-gray-100 text-sm"
+                      style={{ top: (firstVisible + index) * ROW_HEIGHT, height: ROW_HEIGHT }}
+                    >
+                      <span className="text-gray-600">{formatDate(transaction.date)}</span>
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900 truncate" title={transaction.name}>
+                          {transaction.merchantName || transaction.name}
+                          {transaction.pending && (
+                            <span className="ml-2 text-xs font-medium text-amber-700 bg-amber-100 px-1.5 py-0.5 rounded">Pending</span>
+                          )}
+                        </p>
+                        <p className="text-xs text-gray-500 truncate">{transaction.category || 'Uncategorized'}</p>
+                      </div>
+                      <span className="text-gray-600 truncate">
+                        {transaction.creditCard ? normalizeCardDisplayName(transaction.creditCard.name, transaction.creditCard.mask) : '—'}
+                      </span>
+                      <span className={`text-right font-medium ${transaction.amount < 0 ? 'text-green-600' : 'text-gray-900'}`}>
+                        {formatCurrency(transaction.amount)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between mt-3 text-xs text-gray-500">
+              <span>
+                {transactions.length} transaction{transactions.length === 1 ? '' : 's'} loaded{nextCursor ? ', scroll for more' : ''}
+              </span>
+              {loading && (
+                <span className="flex items-center">
+                  <Loader2 className="h-3 w-3 animate-spin mr-1" />
+                  Loading...
+                </span>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
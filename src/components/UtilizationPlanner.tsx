@@ -0,0 +1,223 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Target, Loader2 } from 'lucide-react';
+import { formatCurrency, formatDate, formatPercentage } from '@/utils/format';
+
+interface PlanItem {
+  creditCardId: string;
+  name: string;
+  mask: string | null;
+  balance: number;
+  limit: number;
+  currentUtilization: number;
+  statementCloseDate: string | null;
+  payByDate: string | null;
+  recommendedPayment: number;
+  projectedBalance: number;
+  projectedUtilization: number;
+  reasons: ('card_target' | 'overall_target')[];
+}
+
+interface Plan {
+  items: PlanItem[];
+  excludedCards: { creditCardId: string; name: string; mask: string | null }[];
+  currentOverallUtilization: number;
+  projectedOverallUtilization: number;
+  totalRecommendedPayment: number;
+}
+
+interface UtilizationPlannerProps {
+  // Changes whenever balances or limits change so the plan is refetched
+  refreshKey?: string;
+}
+
+const utilizationColor = (value: number) =>
+  value > 30 ? 'text-red-600' : value > 10 ? 'text-yellow-600' : 'text-green-600';
+
+export function UtilizationPlanner({ refreshKey }: UtilizationPlannerProps) {
+  const [overallTarget, setOverallTarget] = useState<number>(10);
+  const [perCardEnabled, setPerCardEnabled] = useState<boolean>(true);
+  const [perCardTarget, setPerCardTarget] = useState<number>(10);
+  const [plan, setPlan] = useState<Plan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    // Debounce so typing a target does not fire a request per keystroke
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({ overall: String(overallTarget) });
+        if (perCardEnabled) params.set('perCard', String(perCardTarget));
+        const response = await fetch(`/api/user/utilization-plan?${params}`, {
+          cache: 'no-store',
+          signal: controller.signal,
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to build utilization plan');
+        }
+        setPlan(data);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Utilization plan error:', err);
+        setError(err instanceof Error ? err.message : 'Failed to build utilization plan');
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    }, 400);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [overallTarget, perCardEnabled, perCardTarget, refreshKey]);
+
+  const payments = plan?.items.filter(item => item.recommendedPayment > 0) || [];
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <Target className="h-5 w-5 text-indigo-600 mr-2" />
+          <h3 className="font-semibold text-gray-900">Utilization Planner</h3>
+        </div>
+        {loading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Issuers report the balance on each statement closing date. Pay these amounts before each card closes to report under your targets.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+        <div>
+          <label htmlFor="overall-target" className="block text-sm font-medium text-gray-700 mb-1">
+            Overall target
+          </label>
+          <div className="relative">
+            <input
+              type="number"
+              id="overall-target"
+              min={0}
+              max={100}
+              step="1"
+              value={overallTarget}
+              onChange={(e) => setOverallTarget(Math.min(100, Math.max(0, Number(e.target.value))))}
+              className="block w-full pr-8 py-2 pl-3 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
+              <span className="text-gray-500 sm:text-sm">%</span>
+            </div>
+          </div>
+        </div>
+        <div>
+          <label htmlFor="per-card-target" className="flex items-center text-sm font-medium text-gray-700 mb-1">
+            <input
+              type="checkbox"
+              checked={perCardEnabled}
+              onChange={(e) => setPerCardEnabled(e.target.checked)}
+              className="h-4 w-4 text-indigo-600 rounded mr-2"
+            />
+            Per-card target
+          </label>
+          <div className="relative">
+            <input
+              type="number"
+              id="per-card-target"
+              min={0}
+              max={100}
+              step="1"
+              value={perCardTarget}
+              disabled={!perCardEnabled}
+              onChange={(e) => setPerCardTarget(Math.min(100, Math.max(0, Number(e.target.value))))}
+              className="block w-full pr-8 py-2 pl-3 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-100 disabled:text-gray-400"
+            />
+            <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
+              <span className="text-gray-500 sm:text-sm">%</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {plan && (
+        <>
+          <div className="grid grid-cols-3 gap-4 mb-6">
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <p className="text-xs font-medium text-gray-600">Overall now</p>
+              <p className={`text-lg font-semibold ${utilizationColor(plan.currentOverallUtilization)}`}>
+                {formatPercentage(plan.currentOverallUtilization)}
+              </p>
+            </div>
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <p className="text-xs font-medium text-gray-600">After payments</p>
+              <p className={`text-lg font-semibold ${utilizationColor(plan.projectedOverallUtilization)}`}>
+                {formatPercentage(plan.projectedOverallUtilization)}
+              </p>
+            </div>
+            <div className="bg-indigo-50 p-4 rounded-lg">
+              <p className="text-xs font-medium text-indigo-700">Total to pay</p>
+              <p className="text-lg font-semibold text-indigo-900">{formatCurrency(plan.totalRecommendedPayment)}</p>
+            </div>
+          </div>
+
+          {payments.length === 0 ? (
+            <p className="text-sm text-green-700 bg-green-50 rounded-lg p-4">
+              All cards are already on track to report under your targets.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wide border-b border-gray-200">
+                    <th className="py-2 pr-4">Card</th>
+                    <th className="py-2 pr-4">Closes</th>
+                    <th className="py-2 pr-4">Pay by</th>
+                    <th className="py-2 pr-4 text-right">Pay</th>
+                    <th className="py-2 text-right">Utilization</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {payments.map(item => (
+                    <tr key={item.creditCardId} className="border-b border-gray-100 last:border-0">
+                      <td className="py-3 pr-4">
+                        <p className="font-medium text-gray-900">{item.name}</p>
+                        <p className="text-xs text-gray-500">
+                          {item.mask ? `•••• ${item.mask} · ` : ''}{formatCurrency(item.balance)} of {formatCurrency(item.limit)}
+                        </p>
+                      </td>
+                      <td className="py-3 pr-4 text-gray-700">
+                        {item.statementCloseDate ? formatDate(item.statementCloseDate) : 'Unknown'}
+                      </td>
+                      <td className="py-3 pr-4 text-gray-700">
+                        {item.payByDate ? formatDate(item.payByDate) : 'As soon as possible'}
+                      </td>
+                      <td className="py-3 pr-4 text-right font-semibold text-gray-900">
+                        {formatCurrency(item.recommendedPayment)}
+                      </td>
+                      <td className="py-3 text-right whitespace-nowrap">
+                        <span className={utilizationColor(item.currentUtilization)}>{formatPercentage(item.currentUtilization)}</span>
+                        <span className="text-gray-400"> → </span>
+                        <span className={utilizationColor(item.projectedUtilization)}>{formatPercentage(item.projectedUtilization)}</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {plan.excludedCards.length > 0 && (
+            <p className="text-xs text-gray-500 mt-4">
+              Not included (no credit limit): {plan.excludedCards.map(card => card.name).join(', ')}. Set a manual limit on the card to include it.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
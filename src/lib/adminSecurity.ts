@@ -1,25 +1,32 @@
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-
-// Admin email addresses that can access debug endpoints
-const ADMIN_EMAILS = ['mylesethan93@gmail.com'];
+import { getUserRole, recordAdminAction } from '@/services/adminRoles';
+import { auditTargetFromQuery, roleHasPermission, type AdminPermission, type AdminRole } from '@/utils/adminRoles';
 
 export interface SecurityCheckOptions {
   requireDebugKey?: boolean;
   logAccess?: boolean;
   endpointName?: string;
+  // What the endpoint needs; endpoints that do not say are admin-only
+  permission?: AdminPermission;
+  // Who the request acts on when it is not in the query string (e.g. a JSON body)
+  target?: { userId?: string | null; email?: string | null };
+  // Extra context for the audit entry, e.g. parameters from the body
+  auditDetails?: Record<string, unknown>;
 }
 
 /**
  * Security middleware for admin-only endpoints
- * Returns null if authorized, or NextResponse with error if unauthorized
+ * Checks the caller's role from user_roles against the endpoint's permission
+ * and writes the attempt to admin_audit_log. Returns null if authorized, or
+ * NextResponse with error if unauthorized
  */
 export async function requireAdminAccess(
   request: Request, 
   options: SecurityCheckOptions = {}
 ): Promise<NextResponse | null> {
-  const { requireDebugKey = false, logAccess = true, endpointName = 'debug endpoint' } = options;
+  const { requireDebugKey = false, logAccess = true, endpointName = 'debug endpoint', permission = 'system', auditDetails } = options;
 
   try {
     // Check authentication
@@ -32,16 +39,36 @@ export async function requireAdminAccess(
       return NextResponse.json({ error: 'Unauthorized: Authentication required' }, { status: 401 });
     }
 
-    // Check if user is admin
-    const isDevelopment = process.env.NODE_ENV === 'development';
-    const isAdmin = ADMIN_EMAILS.includes(session.user.email || '');
-    
-    if (!isDevelopment && !isAdmin) {
+    const url = new URL(request.url);
+    const queryTarget = auditTargetFromQuery(url.searchParams);
+    const target = {
+      userId: options.target?.userId || queryTarget.userId,
+      email: options.target?.email || queryTarget.email,
+    };
+    const query = Object.fromEntries([...url.searchParams].filter(([name]) => name !== 'key'));
+    const role = await getUserRole(session.user.id);
+    const audit = (outcome: 'allowed' | 'denied', reason?: string) => recordAdminAction({
+      actorUserId: session.user.id,
+      actorEmail: session.user.email || null,
+      actorRole: role,
+      action: endpointName,
+      method: request.method,
+      path: url.pathname,
+      permission,
+      outcome,
+      targetUserId: target.userId,
+      targetEmail: target.email,
+      details: { query, ...auditDetails, ...(reason ? { reason } : {}) },
+    });
+
+    // Check the user's role grants what the endpoint needs
+    if (!roleHasPermission(role, permission)) {
       if (logAccess) {
-        console.log(`🚫 Unauthorized access attempt to ${endpointName} by:`, session.user.email);
+        console.log(`🚫 Unauthorized access attempt to ${endpointName} (${permission}) by:`, session.user.email, role || 'no role');
       }
+      await audit('denied', role ? 'insufficient_role' : 'no_role').catch(error => console.error('Admin audit failed:', error));
       return NextResponse.json({ 
-        error: 'Forbidden: Admin access required',
+        error: role ? 'Forbidden: Insufficient admin permissions' : 'Forbidden: Admin access required',
         hint: 'This endpoint is restricted to authorized administrators only.'
       }, { status: 403 });
     }
@@ -49,13 +76,13 @@ export async function requireAdminAccess(
     // Check debug key in production if required
     if (requireDebugKey && process.env.NODE_ENV === 'production') {
       const debugAccessKey = process.env.ADMIN_DEBUG_KEY;
-      const { searchParams } = new URL(request.url);
-      const providedKey = searchParams.get('key');
+      const providedKey = url.searchParams.get('key');
       
       if (debugAccessKey && providedKey !== debugAccessKey) {
         if (logAccess) {
           console.log(`🚫 Invalid debug key provided for ${endpointName} by:`, session.user.email);
         }
+        await audit('denied', 'invalid_debug_key').catch(error => console.error('Admin audit failed:', error));
         return NextResponse.json({ 
           error: 'Forbidden: Invalid access key',
           hint: 'This endpoint requires a valid debug key in production.'
@@ -63,9 +90,12 @@ export async function requireAdminAccess(
       }
     }
 
+    // Every allowed admin action must be on record; a failed write falls through to the 500 below
+    await audit('allowed');
+
     // Log successful access
     if (logAccess) {
-      console.log(`✅ Admin access granted to ${endpointName} for:`, session.user.email);
+      console.log(`✅ Admin access granted to ${endpointName} for:`, session.user.email, role);
     }
 
     return null; // Authorization successful
@@ -93,13 +123,20 @@ export async function requireAdminWithSession(
 }
 
 /**
- * Check if current user is an admin (for use in components/other contexts)
+ * The current user's admin role, or null (for use in components/other contexts)
  */
-export async function isCurrentUserAdmin(): Promise<boolean> {
+export async function getCurrentUserAdminRole(): Promise<AdminRole | null> {
   try {
     const session = await getServerSession(authOptions);
-    return ADMIN_EMAILS.includes(session?.user?.email || '');
+    return session?.user?.id ? await getUserRole(session.user.id) : null;
   } catch {
-    return false;
+    return null;
   }
+}
+
+/**
+ * Check if current user is an admin (for use in components/other contexts)
+ */
+export async function isCurrentUserAdmin(): Promise<boolean> {
+  return (await getCurrentUserAdminRole()) === 'admin';
 }
\ No newline at end of file
@@ -2,6 +2,8 @@ import { NextAuthOptions } from 'next-auth';
 import GoogleProvider from 'next-auth/providers/google';
 import CredentialsProvider from 'next-auth/providers/credentials';
 import { createClient } from '@supabase/supabase-js';
+import { clientIp } from '@/lib/rateLimit';
+import { redeemVerificationCode, type VerificationCodeResult } from '@/services/verificationCodes';
 
 // Create Supabase client for NextAuth operations
 const supabase = createClient(
@@ -26,51 +28,32 @@ export const authOptions: NextAuthOptions = {
         email: { label: 'Email', type: 'email' },
         code: { label: 'Verification Code', type: 'text' }
       },
-      async authorize(credentials) {
+      async authorize(credentials, req) {
         if (!credentials?.email || !credentials?.code) {
           return null;
         }
 
-        try {
-          console.log('🔐 Auth: Attempting to verify code for:', credentials.email);
-          console.log('🔐 Auth: Received code:', credentials.code);
-          
-          // Get verification code from verification_tokens table
-          const { data: tokenData, error: tokenError } = await supabase
-            .from('verification_tokens')
-            .select('token, expires')
-            .eq('identifier', credentials.email)
-            .order('expires', { ascending: false })
-            .limit(1)
-            .single();
-            
-          console.log('🔐 Auth: verification_tokens query result:', { tokenData, tokenError });
+        console.log('🔐 Auth: Attempting to verify code for:', credentials.email);
 
-          if (tokenError || !tokenData) {
-            console.log('❌ Auth: No verification code found for:', credentials.email);
-            return null;
-          }
-          
-          const verification = tokenData;
-          console.log('🔐 Auth: Found code in verification_tokens table');
+        let verification: VerificationCodeResult;
+        try {
+          verification = await redeemVerificationCode(credentials.email, credentials.code, clientIp(req?.headers));
+        } catch (error) {
+          console.error('Email verification error:', error);
+          return null;
+        }
 
-          console.log('🔐 Auth: Verification data:', {
-            storedToken: verification.token,
-            submittedCode: credentials.code,
-            expires: verification.expires,
-            currentTime: new Date().toISOString(),
-            isExpired: new Date() > new Date(verification.expires)
-          });
+        // Thrown errors reach the sign-in form, so lockouts can say when to retry
+        if (verification.status === 'locked' || verification.status === 'rate_limited') {
+          console.log('🔒 Auth: Verification blocked for:', credentials.email);
+          throw new Error(verification.error);
+        }
+        if (verification.status !== 'valid') {
+          console.log(`❌ Auth: Code ${verification.status} for:`, credentials.email);
+          return null;
+        }
 
-          // Check if code matches and is not expired
-          if (verification.token !== credentials.code || 
-              new Date() > new Date(verification.expires)) {
-            console.log('❌ Auth: Invalid or expired code for:', credentials.email);
-            console.log('❌ Auth: Code match:', verification.token === credentials.code);
-            console.log('❌ Auth: Not expired:', new Date() <= new Date(verification.expires));
-            return null;
-          }
-          
+        try {
           console.log('✅ Auth: Code verified successfully!');
 
           // Code is valid! Get or create user
@@ -102,12 +85,6 @@ export const authOptions: NextAuthOptions = {
             user = existingUser;
           }
 
-          // Clean up used verification token
-          await supabase
-            .from('verification_tokens')
-            .delete()
-            .eq('identifier', credentials.email);
-
           return {
             id: user.id,
             email: user.email,
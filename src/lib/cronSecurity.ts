@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import crypto from 'crypto';
+
+/**
+ * Guard for scheduled (cron) endpoints.
+ * Expects `Authorization: Bearer <CRON_SECRET>` (the header Vercel Cron sends).
+ * Returns null if authorized, or NextResponse with error if unauthorized.
+ */
+export function requireCronSecret(request: Request, endpointName: string = 'cron endpoint'): NextResponse | null {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error(`🚫 CRON_SECRET is not configured - refusing to run ${endpointName}`);
+    return NextResponse.json({ error: 'Cron secret not configured' }, { status: 500 });
+  }
+
+  const provided = Buffer.from(request.headers.get('authorization') || '');
+  const expected = Buffer.from(`Bearer ${cronSecret}`);
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    console.log(`🚫 Invalid cron secret provided for ${endpointName}`);
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return null;
+}
@@ -0,0 +1,38 @@
+import { Resend } from 'resend';
+
+export const EMAIL_FROM = 'CardCycle <noreply@cardcycle.app>';
+
+export interface SendEmailParams {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+/** Escape text for an email template; card, institution and user names come from banks and users. */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+/**
+ * Send a transactional email through Resend.
+ * Returns the Resend email id; throws if Resend is not configured or rejects the send.
+ */
+export async function sendEmail({ to, subject, html, text }: SendEmailParams): Promise<string | null> {
+  // Initialize Resend per call for Vercel serverless
+  const resend = process.env.RESEND_API_KEY ? new Resend(process.env.RESEND_API_KEY) : null;
+
+  if (!resend) {
+    throw new Error('Resend not initialized - RESEND_API_KEY missing');
+  }
+
+  const result = await resend.emails.send({ from: EMAIL_FROM, to, subject, html, text });
+
+  if (result.error) {
+    throw new Error(`Resend error: ${result.error.message || 'Unknown error'}`);
+  }
+
+  return result.data?.id || null;
+}
@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+import CryptoJS from 'crypto-js';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Both modules read their keys from the environment when loaded
+const LEGACY_PASSPHRASE = 'legacy-passphrase';
+const OLD_KEY = crypto.randomBytes(32);
+const ACTIVE_KEY = crypto.randomBytes(32);
+
+interface ReencryptScript {
+  loadKeyring(): Map<string, Buffer>;
+  ciphertextKeyId(encryptedText: string): string | null;
+  encrypt(text: string, keyring: Map<string, Buffer>, activeKeyId: string): string;
+  decrypt(encryptedText: string, keyring: Map<string, Buffer>): string;
+}
+
+let encryption: typeof import('@/lib/encryption');
+let script: ReencryptScript;
+
+function tamper(ciphertext: string, part: number): string {
+  const parts = ciphertext.split(':');
+  const bytes = Buffer.from(parts[part], 'base64');
+  bytes[0] ^= 1;
+  parts[part] = bytes.toString('base64');
+  return parts.join(':');
+}
+
+beforeAll(async () => {
+  vi.stubEnv('ENCRYPTION_KEYS', `old:${OLD_KEY.toString('base64')},new:${ACTIVE_KEY.toString('base64')}`);
+  vi.stubEnv('ENCRYPTION_ACTIVE_KEY_ID', 'new');
+  vi.stubEnv('ENCRYPTION_KEY', LEGACY_PASSPHRASE);
+  encryption = await import('@/lib/encryption');
+  script = (await import('../../scripts/reencrypt-tokens.js')).default as ReencryptScript;
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('encryption', () => {
+  it('round-trips with the active key and a fresh iv each time', () => {
+    const first = encryption.encrypt('access-sandbox-123');
+    const second = encryption.encrypt('access-sandbox-123');
+
+    expect(first).not.toBe(second);
+    expect(first.startsWith('v1:new:')).toBe(true);
+    expect(encryption.decrypt(first)).toBe('access-sandbox-123');
+    expect(encryption.decrypt(second)).toBe('access-sandbox-123');
+  });
+
+  it('rejects a modified tag or data', () => {
+    const ciphertext = encryption.encrypt('access-sandbox-123');
+
+    expect(() => encryption.decrypt(tamper(ciphertext, 3))).toThrow('Failed to decrypt data');
+    expect(() => encryption.decrypt(tamper(ciphertext, 4))).toThrow('Failed to decrypt data');
+  });
+
+  it('fails for a key id that is not in the keyring', () => {
+    const ciphertext = encryption.encrypt('access-sandbox-123').replace('v1:new:', 'v1:gone:');
+
+    expect(() => encryption.decrypt(ciphertext)).toThrow('Failed to decrypt data');
+  });
+
+  it('still decrypts legacy CryptoJS ciphertexts', () => {
+    const legacy = CryptoJS.AES.encrypt('access-sandbox-123', LEGACY_PASSPHRASE).toString();
+
+    expect(encryption.decrypt(legacy)).toBe('access-sandbox-123');
+  });
+
+  it('reports the sealing key and whether a ciphertext needs re-encryption', () => {
+    const legacy = CryptoJS.AES.encrypt('access-sandbox-123', LEGACY_PASSPHRASE).toString();
+    const current = encryption.encrypt('access-sandbox-123');
+    const rotatedOut = script.encrypt('access-sandbox-123', script.loadKeyring(), 'old');
+
+    expect(encryption.ciphertextKeyId(legacy)).toBeNull();
+    expect(encryption.ciphertextKeyId(current)).toBe('new');
+    expect(encryption.ciphertextKeyId(rotatedOut)).toBe('old');
+    expect(encryption.needsReencryption(legacy)).toBe(true);
+    expect(encryption.needsReencryption(current)).toBe(false);
+    expect(encryption.needsReencryption(rotatedOut)).toBe(true);
+  });
+});
+
+describe('scripts/reencrypt-tokens.js', () => {
+  it('loads the same keyring', () => {
+    expect([...script.loadKeyring().keys()]).toEqual(encryption.encryptionKeyIds());
+  });
+
+  it('produces ciphertexts the app decrypts and decrypts the app ones', () => {
+    const keyring = script.loadKeyring();
+    const fromScript = script.encrypt('access-sandbox-123', keyring, encryption.activeEncryptionKeyId());
+    const fromApp = encryption.encrypt('access-sandbox-456');
+
+    expect(encryption.decrypt(fromScript)).toBe('access-sandbox-123');
+    expect(script.decrypt(fromApp, keyring)).toBe('access-sandbox-456');
+    expect(script.ciphertextKeyId(fromApp)).toBe(encryption.ciphertextKeyId(fromApp));
+  });
+
+  it('upgrades legacy and derived-key ciphertexts the app can read', () => {
+    const keyring = script.loadKeyring();
+    const legacy = CryptoJS.AES.encrypt('access-sandbox-123', LEGACY_PASSPHRASE).toString();
+    const derived = script.encrypt('access-sandbox-456', keyring, 'k0');
+
+    expect(encryption.decrypt(derived)).toBe('access-sandbox-456');
+    expect(encryption.decrypt(script.encrypt(script.decrypt(legacy, keyring), keyring, 'new'))).toBe('access-sandbox-123');
+  });
+});
@@ -1,33 +1,134 @@
+import crypto from 'crypto';
 import CryptoJS from 'crypto-js';
 
-const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY;
+/**
+ * Authenticated envelope encryption for secrets at rest (Plaid access tokens).
+ *
+ * Ciphertexts are `v1:<keyId>:<iv>:<tag>:<data>` (base64 parts, AES-256-GCM),
+ * so each one names the key that sealed it and tampering fails decryption.
+ * Keys come from ENCRYPTION_KEYS (`id:base64key,...`, 32-byte keys); new data
+ * is sealed with ENCRYPTION_ACTIVE_KEY_ID, or the first listed key. Any listed
+ * key still decrypts, which is what makes rotation possible: add a key, make
+ * it active, run `npm run encryption:reencrypt`, then drop the old key.
+ *
+ * ENCRYPTION_KEY, the original passphrase, still decrypts legacy CryptoJS
+ * ciphertexts and adds key `k0` (derived with scrypt), which is the active key
+ * when ENCRYPTION_KEYS is not set. scripts/reencrypt-tokens.js mirrors this
+ * format.
+ */
 
-if (!ENCRYPTION_KEY) {
-  throw new Error('ENCRYPTION_KEY environment variable is required');
+const VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+// Key id of the key derived from the legacy ENCRYPTION_KEY passphrase
+export const DERIVED_KEY_ID = 'k0';
+const DERIVED_KEY_SALT = 'cardcycle-envelope-v1';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const LEGACY_PASSPHRASE = process.env.ENCRYPTION_KEY;
+
+function loadKeyring(): Map<string, Buffer> {
+  const keys = new Map<string, Buffer>();
+
+  for (const entry of (process.env.ENCRYPTION_KEYS || '').split(',').map(e => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const id = separator > 0 ? entry.slice(0, separator) : '';
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+    // Never echo the entry itself: it holds key material
+    if (!KEY_ID_PATTERN.test(id) || id === DERIVED_KEY_ID) {
+      throw new Error(`Each ENCRYPTION_KEYS entry needs an "id:" prefix of letters, digits, _ or - (not ${DERIVED_KEY_ID})`);
+    }
+    if (key.length !== KEY_BYTES) {
+      throw new Error(`ENCRYPTION_KEYS key "${id}" must be ${KEY_BYTES} bytes of base64`);
+    }
+    keys.set(id, key);
+  }
+
+  if (LEGACY_PASSPHRASE) {
+    keys.set(DERIVED_KEY_ID, crypto.scryptSync(LEGACY_PASSPHRASE, DERIVED_KEY_SALT, KEY_BYTES));
+  }
+  return keys;
+}
+
+const KEYRING = loadKeyring();
+
+if (KEYRING.size === 0) {
+  throw new Error('ENCRYPTION_KEYS or ENCRYPTION_KEY environment variable is required');
+}
+
+const ACTIVE_KEY_ID = process.env.ENCRYPTION_ACTIVE_KEY_ID || KEYRING.keys().next().value!;
+
+if (!KEYRING.has(ACTIVE_KEY_ID)) {
+  throw new Error(`ENCRYPTION_ACTIVE_KEY_ID "${ACTIVE_KEY_ID}" is not in ENCRYPTION_KEYS`);
+}
+
+export function activeEncryptionKeyId(): string {
+  return ACTIVE_KEY_ID;
+}
+
+export function encryptionKeyIds(): string[] {
+  return [...KEYRING.keys()];
+}
+
+/** The key id a ciphertext was sealed with, or null for a legacy CryptoJS ciphertext. */
+export function ciphertextKeyId(encryptedText: string): string | null {
+  const parts = encryptedText.split(':');
+  return parts.length === 5 && parts[0] === VERSION ? parts[1] : null;
+}
+
+/** True when the ciphertext is legacy or sealed with a key other than the active one. */
+export function needsReencryption(encryptedText: string): boolean {
+  return ciphertextKeyId(encryptedText) !== ACTIVE_KEY_ID;
 }
 
 export function encrypt(text: string): string {
   try {
-    const encrypted = CryptoJS.AES.encrypt(text, ENCRYPTION_KEY).toString();
-    return encrypted;
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(ALGORITHM, KEYRING.get(ACTIVE_KEY_ID)!, iv);
+    const data = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return [VERSION, ACTIVE_KEY_ID, iv.toString('base64'), tag.toString('base64'), data.toString('base64')].join(':');
   } catch (error) {
     console.error('Encryption failed:', error);
     throw new Error('Failed to encrypt data');
   }
 }
 
+function decryptLegacy(encryptedText: string): string {
+  if (!LEGACY_PASSPHRASE) {
+    throw new Error('Legacy ciphertext but ENCRYPTION_KEY is not set');
+  }
+  const decrypted = CryptoJS.AES.decrypt(encryptedText, LEGACY_PASSPHRASE);
+  const originalText = decrypted.toString(CryptoJS.enc.Utf8);
+
+  if (!originalText) {
+    throw new Error('Failed to decrypt - invalid data or key');
+  }
+
+  return originalText;
+}
+
 export function decrypt(encryptedText: string): string {
   try {
-    const decrypted = CryptoJS.AES.decrypt(encryptedText, ENCRYPTION_KEY);
-    const originalText = decrypted.toString(CryptoJS.enc.Utf8);
-    
-    if (!originalText) {
-      throw new Error('Failed to decrypt - invalid data or key');
+    const keyId = ciphertextKeyId(encryptedText);
+    if (keyId === null) {
+      return decryptLegacy(encryptedText);
     }
-    
-    return originalText;
+
+    const key = KEYRING.get(keyId);
+    if (!key) {
+      throw new Error(`Unknown encryption key "${keyId}"`);
+    }
+
+    const [, , iv, tag, data] = encryptedText.split(':');
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'), { authTagLength: TAG_BYTES });
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
   } catch (error) {
     console.error('Decryption failed:', error);
     throw new Error('Failed to decrypt data');
   }
-}
\ No newline at end of file
+}
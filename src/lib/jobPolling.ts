@@ -0,0 +1,38 @@
+import type { JobStatusView } from '@/services/jobQueue';
+import { FINISHED_JOB_STATUSES } from '@/utils/jobQueue';
+
+/**
+ * Client-side: poll /api/user/jobs until every job has finished or the timeout
+ * passes, and return the last statuses seen. `onProgress` gets the number of
+ * finished jobs after each poll.
+ */
+export async function waitForJobs(
+  jobIds: string[],
+  {
+    intervalMs = 2000,
+    timeoutMs = 3 * 60 * 1000,
+    onProgress,
+  }: { intervalMs?: number; timeoutMs?: number; onProgress?: (finished: number, total: number) => void } = {}
+): Promise<JobStatusView[]> {
+  if (jobIds.length === 0) return [];
+
+  const deadline = Date.now() + timeoutMs;
+  let jobs: JobStatusView[] = [];
+
+  while (Date.now() < deadline) {
+    try {
+      const response = await fetch(`/api/user/jobs?ids=${jobIds.join(',')}`, { cache: 'no-store' });
+      if (response.ok) {
+        jobs = (await response.json()).jobs || [];
+        const finished = jobs.filter(job => FINISHED_JOB_STATUSES.includes(job.status)).length;
+        onProgress?.(finished, jobIds.length);
+        if (finished >= jobIds.length) break;
+      }
+    } catch (error) {
+      console.warn('Job status poll failed:', error);
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+
+  return jobs;
+}
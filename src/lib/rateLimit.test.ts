@@ -0,0 +1,83 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RateLimitRule } from '@/lib/rateLimit';
+
+let rateLimit: typeof import('@/lib/rateLimit');
+
+// Rule names namespace the counters, so each test gets its own
+function rule(name: string, limit: number): RateLimitRule {
+  return { name, limit, windowMs: 60 * 1000 };
+}
+
+beforeAll(async () => {
+  // The store is picked when the module loads; without KV it is in memory
+  vi.stubEnv('KV_REST_API_URL', '');
+  vi.stubEnv('KV_REST_API_TOKEN', '');
+  rateLimit = await import('@/lib/rateLimit');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+});
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2025-10-01T12:00:00.000Z'));
+});
+
+function advance(ms: number) {
+  vi.setSystemTime(Date.now() + ms);
+}
+
+describe('consumeRateLimit', () => {
+  it('allows hits up to the limit and counts down what remains', async () => {
+    const limit = rule('allow', 2);
+
+    expect(await rateLimit.consumeRateLimit(limit, 'a')).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+    expect(await rateLimit.consumeRateLimit(limit, 'a')).toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+    expect((await rateLimit.consumeRateLimit(limit, 'a')).allowed).toBe(false);
+    expect((await rateLimit.consumeRateLimit(limit, 'b')).allowed).toBe(true);
+  });
+
+  it('reports when the oldest hit leaves the window', async () => {
+    const limit = rule('retry-after', 2);
+    await rateLimit.consumeRateLimit(limit, 'a');
+    advance(10 * 1000);
+    await rateLimit.consumeRateLimit(limit, 'a');
+    advance(15 * 1000);
+
+    expect(await rateLimit.consumeRateLimit(limit, 'a')).toEqual({ allowed: false, remaining: 0, retryAfterMs: 35 * 1000 });
+  });
+
+  it('does not count refused hits', async () => {
+    const limit = rule('refused', 1);
+    await rateLimit.consumeRateLimit(limit, 'a');
+    advance(30 * 1000);
+    expect((await rateLimit.consumeRateLimit(limit, 'a')).allowed).toBe(false);
+
+    // Only the first hit was logged, so the window is clear once it expires
+    advance(30 * 1000 + 1);
+    expect((await rateLimit.consumeRateLimit(limit, 'a')).allowed).toBe(true);
+  });
+});
+
+describe('peekRateLimit', () => {
+  it('checks the window without counting a hit', async () => {
+    const limit = rule('peek', 1);
+
+    expect((await rateLimit.peekRateLimit(limit, 'a')).allowed).toBe(true);
+    expect((await rateLimit.consumeRateLimit(limit, 'a')).allowed).toBe(true);
+    advance(20 * 1000);
+    expect(await rateLimit.peekRateLimit(limit, 'a')).toEqual({ allowed: false, remaining: 0, retryAfterMs: 40 * 1000 });
+  });
+});
+
+describe('resetRateLimit', () => {
+  it('clears the counter', async () => {
+    const limit = rule('reset', 1);
+    await rateLimit.consumeRateLimit(limit, 'a');
+
+    await rateLimit.resetRateLimit(limit, 'a');
+    expect((await rateLimit.consumeRateLimit(limit, 'a')).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,190 @@
+import crypto from 'crypto';
+import { createClient } from '@vercel/kv';
+
+/**
+ * Sliding window rate limiting.
+ *
+ * Each hit is logged with its timestamp and a request is allowed while fewer
+ * than `limit` hits fall inside the last `windowMs`. Hits are kept in Vercel
+ * KV (Redis sorted sets) when KV_REST_API_URL and KV_REST_API_TOKEN are set,
+ * so limits hold across serverless instances; otherwise an in-memory store
+ * stands in for local development.
+ */
+
+export interface RateLimitRule {
+  // Namespaces the counters, e.g. 'send-code-email'
+  name: string;
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // How long until the next request would be allowed; 0 when allowed
+  retryAfterMs: number;
+}
+
+interface WindowState {
+  count: number;
+  // Timestamp of the oldest hit still in the window, or null when empty
+  oldest: number | null;
+}
+
+interface RateLimitStore {
+  // Log a hit and return the window including it
+  record(key: string, member: string, now: number, windowMs: number): Promise<WindowState>;
+  remove(key: string, member: string): Promise<void>;
+  read(key: string, now: number, windowMs: number): Promise<WindowState>;
+  clear(key: string): Promise<void>;
+}
+
+function kvStore(url: string, token: string): RateLimitStore {
+  const kv = createClient({ url, token });
+
+  const oldestOf = (range: unknown[]): number | null => (range.length >= 2 ? Number(range[1]) : null);
+
+  return {
+    async record(key, member, now, windowMs) {
+      const [, , count, range] = await kv
+        .multi()
+        .zremrangebyscore(key, 0, now - windowMs)
+        .zadd(key, { score: now, member })
+        .zcard(key)
+        .zrange(key, 0, 0, { withScores: true })
+        .pexpire(key, windowMs)
+        .exec<[number, number | null, number, unknown[], number]>();
+      return { count, oldest: oldestOf(range) };
+    },
+    async remove(key, member) {
+      await kv.zrem(key, member);
+    },
+    async read(key, now, windowMs) {
+      const [, count, range] = await kv
+        .multi()
+        .zremrangebyscore(key, 0, now - windowMs)
+        .zcard(key)
+        .zrange(key, 0, 0, { withScores: true })
+        .exec<[number, number, unknown[]]>();
+      return { count, oldest: oldestOf(range) };
+    },
+    async clear(key) {
+      await kv.del(key);
+    },
+  };
+}
+
+function memoryStore(): RateLimitStore {
+  const hits = new Map<string, Array<{ member: string; at: number }>>();
+
+  const prune = (key: string, now: number, windowMs: number) => {
+    const live = (hits.get(key) || []).filter(hit => hit.at > now - windowMs);
+    if (live.length > 0) hits.set(key, live);
+    else hits.delete(key);
+    return live;
+  };
+
+  return {
+    async record(key, member, now, windowMs) {
+      const live = prune(key, now, windowMs);
+      live.push({ member, at: now });
+      hits.set(key, live);
+      return { count: live.length, oldest: live[0].at };
+    },
+    async remove(key, member) {
+      const remaining = (hits.get(key) || []).filter(hit => hit.member !== member);
+      if (remaining.length > 0) hits.set(key, remaining);
+      else hits.delete(key);
+    },
+    async read(key, now, windowMs) {
+      const live = prune(key, now, windowMs);
+      return { count: live.length, oldest: live.length > 0 ? live[0].at : null };
+    },
+    async clear(key) {
+      hits.delete(key);
+    },
+  };
+}
+
+function createStore(): RateLimitStore {
+  const url = process.env.KV_REST_API_URL;
+  const token = process.env.KV_REST_API_TOKEN;
+  if (url && token) {
+    return kvStore(url, token);
+  }
+  if (process.env.NODE_ENV === 'production') {
+    console.warn('⚠️ KV_REST_API_URL/KV_REST_API_TOKEN not set - rate limits are per instance only');
+  }
+  return memoryStore();
+}
+
+const store = createStore();
+
+// Identifiers are often emails or IPs; keep them out of the store's keys
+function storeKey(rule: RateLimitRule, identifier: string): string {
+  const digest = crypto.createHash('sha256').update(identifier).digest('hex').slice(0, 32);
+  return `ratelimit:${rule.name}:${digest}`;
+}
+
+function toResult(rule: RateLimitRule, { count, oldest }: WindowState, now: number): RateLimitResult {
+  const allowed = count < rule.limit;
+  return {
+    allowed,
+    remaining: Math.max(0, rule.limit - count),
+    retryAfterMs: allowed || oldest === null ? 0 : Math.max(0, oldest + rule.windowMs - now),
+  };
+}
+
+/**
+ * Count a request against the rule. A refused request is not counted, so a
+ * caller that keeps retrying is let through again once the window slides.
+ * Store failures are logged and the request is allowed.
+ */
+export async function consumeRateLimit(rule: RateLimitRule, identifier: string): Promise<RateLimitResult> {
+  const key = storeKey(rule, identifier);
+  const now = Date.now();
+  const member = `${now}:${crypto.randomUUID()}`;
+
+  try {
+    const state = await store.record(key, member, now, rule.windowMs);
+    if (state.count <= rule.limit) {
+      return { allowed: true, remaining: rule.limit - state.count, retryAfterMs: 0 };
+    }
+    await store.remove(key, member);
+    return toResult(rule, { ...state, count: state.count - 1 }, now);
+  } catch (error) {
+    console.error(`Rate limit check failed for ${rule.name}:`, error);
+    return { allowed: true, remaining: rule.limit, retryAfterMs: 0 };
+  }
+}
+
+/** Check the rule without counting a request. */
+export async function peekRateLimit(rule: RateLimitRule, identifier: string): Promise<RateLimitResult> {
+  const now = Date.now();
+  try {
+    return toResult(rule, await store.read(storeKey(rule, identifier), now, rule.windowMs), now);
+  } catch (error) {
+    console.error(`Rate limit check failed for ${rule.name}:`, error);
+    return { allowed: true, remaining: rule.limit, retryAfterMs: 0 };
+  }
+}
+
+export async function resetRateLimit(rule: RateLimitRule, identifier: string): Promise<void> {
+  try {
+    await store.clear(storeKey(rule, identifier));
+  } catch (error) {
+    console.error(`Failed to reset rate limit ${rule.name}:`, error);
+  }
+}
+
+/** The caller's IP from proxy headers (Vercel sets x-forwarded-for). */
+export function clientIp(headers: Headers | Record<string, unknown> | undefined): string {
+  const header = (name: string): string | null => {
+    if (!headers) return null;
+    const value = headers instanceof Headers ? headers.get(name) : headers[name];
+    return typeof value === 'string' ? value : Array.isArray(value) ? String(value[0]) : null;
+  };
+
+  const forwarded = header('x-forwarded-for')?.split(',')[0].trim();
+  return forwarded || header('x-real-ip') || 'unknown';
+}
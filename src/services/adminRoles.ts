@@ -0,0 +1,51 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import { isAdminRole, type AdminPermission, type AdminRole } from '@/utils/adminRoles';
+
+export interface AdminAuditEntry {
+  actorUserId: string | null;
+  actorEmail: string | null;
+  actorRole: AdminRole | null;
+  action: string;
+  method?: string | null;
+  path?: string | null;
+  permission?: AdminPermission | null;
+  outcome: 'allowed' | 'denied';
+  targetUserId?: string | null;
+  targetEmail?: string | null;
+  details?: Record<string, unknown> | null;
+}
+
+/** The user's admin role, or null when they have none. */
+export async function getUserRole(userId: string): Promise<AdminRole | null> {
+  const { data, error } = await supabaseAdmin
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch user role: ${error.message}`);
+  }
+  return data && isAdminRole(data.role) ? data.role : null;
+}
+
+/** Append an entry to admin_audit_log. Throws when it cannot be written. */
+export async function recordAdminAction(entry: AdminAuditEntry): Promise<void> {
+  const { error } = await supabaseAdmin.from('admin_audit_log').insert({
+    actor_user_id: entry.actorUserId,
+    actor_email: entry.actorEmail,
+    actor_role: entry.actorRole,
+    action: entry.action,
+    method: entry.method ?? null,
+    path: entry.path ?? null,
+    permission: entry.permission ?? null,
+    outcome: entry.outcome,
+    target_user_id: entry.targetUserId ?? null,
+    target_email: entry.targetEmail ?? null,
+    details: entry.details ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to write admin audit log: ${error.message}`);
+  }
+}
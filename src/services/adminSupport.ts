@@ -0,0 +1,300 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import { escapeHtml, sendEmail } from '@/lib/email';
+import { getUserRole } from '@/services/adminRoles';
+import {
+  loadCardCycles,
+  loadUserCards,
+  loadUserItems,
+  type DiagnosticCard,
+  type DiagnosticCycle,
+} from '@/services/diagnosticChecks';
+import { regenerateCycles, resyncItems } from '@/services/diagnosticRepairs';
+import { runDiagnostic } from '@/services/diagnostics';
+import { getUserJobs, type JobStatusView } from '@/services/jobQueue';
+import { listWebhookEvents, type WebhookEventSummary } from '@/services/webhookEvents';
+import type { AdminRole } from '@/utils/adminRoles';
+import {
+  authTypeLabel,
+  connectionStatus,
+  parseUserSearch,
+  type SupportActionRequest,
+  type SupportConnectionStatus,
+} from '@/utils/adminSupport';
+import type { DiagnosticChange } from '@/utils/diagnostics';
+
+export interface SupportUserSummary {
+  id: string;
+  email: string;
+  name: string | null;
+  createdAt: string | null;
+  authType: string;
+  connections: number;
+  connectionsNeedingAttention: number;
+  creditCards: number;
+}
+
+export interface SupportConnection {
+  id: string;
+  itemId: string;
+  institutionName: string | null;
+  isManual: boolean;
+  status: SupportConnectionStatus | 'manual';
+  itemStatus: string | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+  lastSyncAt: string | null;
+  createdAt: string | null;
+  recommendedAction: string;
+}
+
+export interface SupportCard extends DiagnosticCard {
+  cycleCount: number;
+  recentCycles: DiagnosticCycle[];
+}
+
+export interface SupportTelemetryEvent {
+  id: number;
+  event: string;
+  details: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface SupportUserView {
+  user: { id: string; email: string; name: string | null; createdAt: string | null };
+  authType: string;
+  role: AdminRole | null;
+  connections: SupportConnection[];
+  cards: SupportCard[];
+  telemetry: SupportTelemetryEvent[];
+  webhooks: WebhookEventSummary[];
+  jobs: JobStatusView[];
+}
+
+export interface SupportActionResult {
+  action: SupportActionRequest['action'];
+  ok: boolean;
+  summary: string;
+  changes: DiagnosticChange[];
+}
+
+const SEARCH_LIMIT = 25;
+const RECENT_CYCLES_PER_CARD = 6;
+const TELEMETRY_LIMIT = 25;
+const WEBHOOKS_PER_ITEM = 10;
+const WEBHOOK_LIMIT = 25;
+const JOB_LIMIT = 10;
+
+/**
+ * Users matching an id, or an email or name substring, with counts of their
+ * connections and cards. An empty query lists the newest users.
+ */
+export async function searchSupportUsers(query: string): Promise<SupportUserSummary[]> {
+  const search = parseUserSearch(query);
+  let usersQuery = supabaseAdmin
+    .from('users')
+    .select('id, email, name, createdAt')
+    .order('createdAt', { ascending: false })
+    .limit(SEARCH_LIMIT);
+  if (search && 'userId' in search) {
+    usersQuery = usersQuery.eq('id', search.userId);
+  } else if (search) {
+    usersQuery = usersQuery.or(`email.ilike.%${search.term}%,name.ilike.%${search.term}%`);
+  }
+
+  const { data: users, error } = await usersQuery;
+  if (error) {
+    throw new Error(`Failed to search users: ${error.message}`);
+  }
+  if (!users || users.length === 0) return [];
+
+  const userIds = users.map(user => user.id);
+  const [accounts, items, cards] = await Promise.all([
+    supabaseAdmin.from('accounts').select('userId, provider, type').in('userId', userIds),
+    supabaseAdmin.from('plaid_items').select('userId, status, errorCode, lastSyncAt, is_manual').in('userId', userIds),
+    supabaseAdmin.from('credit_cards').select('userId').in('userId', userIds),
+  ]);
+  for (const result of [accounts, items, cards]) {
+    if (result.error) {
+      throw new Error(`Failed to fetch user details: ${result.error.message}`);
+    }
+  }
+
+  const now = new Date();
+  return users.map(user => {
+    const userItems = (items.data || []).filter(item => item.userId === user.id);
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      createdAt: user.createdAt,
+      authType: authTypeLabel((accounts.data || []).filter(account => account.userId === user.id)),
+      connections: userItems.length,
+      connectionsNeedingAttention: userItems.filter(item => !item.is_manual && connectionStatus(item, now).status !== 'healthy').length,
+      creditCards: (cards.data || []).filter(card => card.userId === user.id).length,
+    };
+  });
+}
+
+/**
+ * Everything support needs about one user: connections with their health,
+ * cards with recent cycles, sync telemetry, webhook deliveries for their
+ * items and recent jobs. Null when there is no such user.
+ */
+export async function getSupportUserView(userId: string): Promise<SupportUserView | null> {
+  const { data: user, error: userError } = await supabaseAdmin
+    .from('users')
+    .select('id, email, name, createdAt')
+    .eq('id', userId)
+    .maybeSingle();
+  if (userError) {
+    throw new Error(`Failed to fetch user: ${userError.message}`);
+  }
+  if (!user) return null;
+
+  const [accounts, role, items, cards, telemetry, jobs] = await Promise.all([
+    supabaseAdmin.from('accounts').select('provider, type').eq('userId', userId),
+    getUserRole(userId),
+    loadUserItems(userId),
+    loadUserCards(userId),
+    supabaseAdmin
+      .from('user_sync_telemetry')
+      .select('id, event, details, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(TELEMETRY_LIMIT),
+    getUserJobs(userId),
+  ]);
+  if (accounts.error) {
+    throw new Error(`Failed to fetch accounts: ${accounts.error.message}`);
+  }
+  if (telemetry.error) {
+    throw new Error(`Failed to fetch sync telemetry: ${telemetry.error.message}`);
+  }
+
+  const linkedItems = items.filter(item => !item.is_manual);
+  const [cycles, webhookLists] = await Promise.all([
+    loadCardCycles(cards.map(card => card.id)),
+    Promise.all(linkedItems.map(item => listWebhookEvents({ itemId: item.itemId, limit: WEBHOOKS_PER_ITEM }))),
+  ]);
+
+  const now = new Date();
+  const connections: SupportConnection[] = items.map(item => {
+    const health = item.is_manual
+      ? { status: 'manual' as const, recommendedAction: 'Manual card, nothing to sync' }
+      : connectionStatus(item, now);
+    return {
+      id: item.id,
+      itemId: item.itemId,
+      institutionName: item.institutionName,
+      isManual: Boolean(item.is_manual),
+      status: health.status,
+      itemStatus: item.status,
+      errorCode: item.errorCode,
+      errorMessage: item.errorMessage,
+      lastSyncAt: item.lastSyncAt,
+      createdAt: item.createdAt,
+      recommendedAction: health.recommendedAction,
+    };
+  });
+
+  return {
+    user,
+    authType: authTypeLabel(accounts.data || []),
+    role,
+    connections,
+    cards: cards.map(card => {
+      const cardCycles = cycles.filter(cycle => cycle.creditCardId === card.id);
+      return { ...card, cycleCount: cardCycles.length, recentCycles: cardCycles.slice(0, RECENT_CYCLES_PER_CARD) };
+    }),
+    telemetry: (telemetry.data || []) as SupportTelemetryEvent[],
+    webhooks: webhookLists
+      .flat()
+      .sort((a, b) => b.received_at.localeCompare(a.received_at))
+      .slice(0, WEBHOOK_LIMIT),
+    jobs: jobs.slice(0, JOB_LIMIT),
+  };
+}
+
+function buildReconnectEmail(institutionName: string) {
+  const institutionHtml = escapeHtml(institutionName);
+  const dashboardUrl = `${process.env.NEXTAUTH_URL || 'https://www.cardcycle.app'}/dashboard`;
+
+  return {
+    subject: `Reconnect ${institutionName} to keep your cards up to date`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #4f46e5; margin-bottom: 10px;">CardCycle</h1>
+          <p style="color: #666; font-size: 16px;">Your bank connection needs attention</p>
+        </div>
+
+        <div style="background: #f8fafc; border-radius: 8px; padding: 30px; margin-bottom: 20px;">
+          <h2 style="color: #1f2937; margin-bottom: 15px;">${institutionHtml}</h2>
+          <p style="color: #374151; font-size: 14px;">We can no longer sync new transactions and balances from ${institutionHtml}. This usually happens after a password change or when the bank asks you to sign in again.</p>
+          <p style="color: #374151; font-size: 14px;">Open your dashboard and choose <strong>Reconnect</strong> on ${institutionHtml} to sign in to your bank again. Your cards and history stay as they are.</p>
+        </div>
+
+        <div style="text-align: center; color: #666; font-size: 12px;">
+          <p><a href="${dashboardUrl}" style="color: #4f46e5;">Open your dashboard</a></p>
+          <p>If you did not expect this email, you can ignore it.</p>
+        </div>
+      </div>
+    `,
+    text: `We can no longer sync new transactions and balances from ${institutionName}. ` +
+      `This usually happens after a password change or when the bank asks you to sign in again.` +
+      `\nOpen your dashboard and choose Reconnect on ${institutionName} to sign in to your bank again. Your cards and history stay as they are.` +
+      `\n\nOpen your dashboard: ${dashboardUrl}\nIf you did not expect this email, you can ignore it.`,
+  };
+}
+
+/**
+ * Run a support action on the user's behalf. Null when the connection or
+ * card it names does not belong to the user. Resyncs and cycle rebuilds run
+ * the matching repairs from the diagnostics registry.
+ */
+export async function runSupportAction(
+  user: { id: string; email: string },
+  request: SupportActionRequest
+): Promise<SupportActionResult | null> {
+  const item = request.plaidItemId
+    ? (await loadUserItems(user.id)).find(candidate => candidate.id === request.plaidItemId)
+    : undefined;
+  if (request.plaidItemId && !item) return null;
+
+  if (request.action === 'send-reconnect-email') {
+    const institutionName = item!.institutionName || 'your bank';
+    try {
+      await sendEmail({ to: user.email, ...buildReconnectEmail(institutionName) });
+      return {
+        action: request.action,
+        ok: true,
+        summary: `Sent a reconnect email for ${institutionName} to ${user.email}`,
+        changes: [],
+      };
+    } catch (error) {
+      console.error('Failed to send reconnect email:', error);
+      return {
+        action: request.action,
+        ok: false,
+        summary: error instanceof Error ? error.message : 'Failed to send reconnect email',
+        changes: [],
+      };
+    }
+  }
+
+  if (request.action === 'regenerate-cycles' && request.cardId) {
+    const cards = await loadUserCards(user.id);
+    if (!cards.some(card => card.id === request.cardId)) return null;
+  }
+
+  const result = request.action === 'resync-item'
+    ? await runDiagnostic(resyncItems, { userId: user.id, params: { plaidItemId: request.plaidItemId }, dryRun: false })
+    : await runDiagnostic(regenerateCycles, { userId: user.id, params: request.cardId ? { cardId: request.cardId } : {}, dryRun: false });
+
+  return {
+    action: request.action,
+    ok: result.status !== 'error',
+    summary: result.summary,
+    changes: result.changes,
+  };
+}
@@ -0,0 +1,266 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import { escapeHtml, sendEmail } from '@/lib/email';
+import { selectLeadDay } from '@/services/paymentReminders';
+import {
+  ANNUAL_FEE_LEAD_DAYS,
+  daysUntilRenewal,
+  detectAnnualFee,
+  nextAnnualFeeDate,
+  type AnnualFeeSource,
+  type AnnualFeeTransaction,
+} from '@/utils/annualFees';
+import { formatCurrency, formatDate } from '@/utils/format';
+
+export interface CardAnnualFee {
+  creditCardId: string;
+  name: string;
+  mask: string | null;
+  annualFee: number | null;
+  // Stored renewal rolled forward to the next occurrence
+  nextDueDate: string | null;
+  daysUntil: number | null;
+  source: AnnualFeeSource | null;
+}
+
+export interface AnnualFeeReminderRunSummary {
+  cardsChecked: number;
+  sent: number;
+  skippedAlreadySent: number;
+  skippedOptedOut: number;
+  failed: number;
+}
+
+interface AnnualFeeCard {
+  id: string;
+  name: string;
+  mask: string | null;
+  annualFee: number | null;
+  annualFeeDueDate: string | null;
+  annual_fee_source: AnnualFeeSource | null;
+}
+
+function toCardAnnualFee(card: AnnualFeeCard, now: Date): CardAnnualFee {
+  const nextDue = card.annualFeeDueDate ? nextAnnualFeeDate(card.annualFeeDueDate, now) : null;
+  return {
+    creditCardId: card.id,
+    name: card.name,
+    mask: card.mask,
+    annualFee: card.annualFee !== null ? Number(card.annualFee) : null,
+    nextDueDate: nextDue ? nextDue.toISOString() : null,
+    daysUntil: nextDue ? daysUntilRenewal(nextDue, now) : null,
+    source: card.annual_fee_source,
+  };
+}
+
+/**
+ * Fill the card's annual fee from its latest fee posting. Manually entered
+ * fees are left alone. Failures are logged, not thrown: this runs after
+ * cycles are saved and the next recalculation retries.
+ */
+export async function updateDetectedAnnualFee(
+  creditCard: { id: string; name: string; annual_fee_source?: AnnualFeeSource | null },
+  transactions: AnnualFeeTransaction[]
+): Promise<void> {
+  if (creditCard.annual_fee_source === 'manual') return;
+
+  const detected = detectAnnualFee(transactions);
+  if (!detected) return;
+
+  const { error } = await supabaseAdmin
+    .from('credit_cards')
+    .update({
+      annualFee: detected.amount,
+      annualFeeDueDate: detected.nextDueDate.toISOString(),
+      annual_fee_source: 'detected',
+    })
+    .eq('id', creditCard.id);
+
+  if (error) {
+    console.error(`Failed to update annual fee for ${creditCard.name}:`, error);
+  }
+}
+
+export async function getAnnualFees(userId: string, now: Date = new Date()): Promise<CardAnnualFee[]> {
+  const { data: cards, error } = await supabaseAdmin
+    .from('credit_cards')
+    .select('id, name, mask, annualFee, annualFeeDueDate, annual_fee_source, plaid_items!inner(userId)')
+    .eq('plaid_items.userId', userId);
+
+  if (error) {
+    throw new Error(`Failed to fetch annual fees: ${error.message}`);
+  }
+
+  return ((cards || []) as unknown as AnnualFeeCard[])
+    .map(card => toCardAnnualFee(card, now))
+    .sort((a, b) => (a.daysUntil ?? Infinity) - (b.daysUntil ?? Infinity));
+}
+
+/**
+ * Save a fee the user entered; a null fee clears it so detection can fill it
+ * again. Returns null when the card does not belong to the user.
+ */
+export async function setManualAnnualFee(
+  userId: string,
+  creditCardId: string,
+  fee: { annualFee: number | null; annualFeeDueDate: string | null },
+  now: Date = new Date()
+): Promise<CardAnnualFee | null> {
+  const { data: card } = await supabaseAdmin
+    .from('credit_cards')
+    .select('id, plaid_items!inner(userId)')
+    .eq('id', creditCardId)
+    .eq('plaid_items.userId', userId)
+    .maybeSingle();
+
+  if (!card) {
+    return null;
+  }
+
+  const { data: updated, error } = await supabaseAdmin
+    .from('credit_cards')
+    .update({
+      annualFee: fee.annualFee,
+      annualFeeDueDate: fee.annualFee !== null ? fee.annualFeeDueDate : null,
+      annual_fee_source: fee.annualFee !== null ? 'manual' : null,
+    })
+    .eq('id', creditCardId)
+    .select('id, name, mask, annualFee, annualFeeDueDate, annual_fee_source')
+    .single();
+
+  if (error || !updated) {
+    throw new Error(`Failed to save annual fee: ${error?.message || 'No data returned'}`);
+  }
+
+  return toCardAnnualFee(updated as AnnualFeeCard, now);
+}
+
+function buildRenewalEmail(card: AnnualFeeCard, renewal: Date, daysUntil: number) {
+  const cardLabel = card.mask ? `${card.name} •••• ${card.mask}` : card.name;
+  const fee = formatCurrency(Number(card.annualFee));
+  const renewalDate = formatDate(renewal);
+  const dashboardUrl = `${process.env.NEXTAUTH_URL || 'https://www.cardcycle.app'}/dashboard`;
+
+  return {
+    subject: `${fee} annual fee in ${daysUntil} day${daysUntil === 1 ? '' : 's'}: ${cardLabel}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #4f46e5; margin-bottom: 10px;">CardCycle</h1>
+          <p style="color: #666; font-size: 16px;">Your annual fee renews soon</p>
+        </div>
+
+        <div style="background: #f8fafc; border-radius: 8px; padding: 30px; margin-bottom: 20px;">
+          <h2 style="color: #1f2937; margin-bottom: 15px;">${escapeHtml(cardLabel)}</h2>
+          <p style="color: #374151; font-size: 14px;">Annual fee: <strong>${fee}</strong></p>
+          <p style="color: #374151; font-size: 14px;">Expected to post: <strong>${renewalDate}</strong></p>
+          <p style="color: #374151; font-size: 14px;">If the card is no longer worth the fee, ask your issuer about a retention offer or a no-fee downgrade before it posts.</p>
+        </div>
+
+        <div style="text-align: center; color: #666; font-size: 12px;">
+          <p><a href="${dashboardUrl}" style="color: #4f46e5;">Open your dashboard</a></p>
+          <p>You can turn reminders off in Account Settings.</p>
+        </div>
+      </div>
+    `,
+    text: `${cardLabel}: ${fee} annual fee expected to post on ${renewalDate}.` +
+      `\nIf the card is no longer worth the fee, ask your issuer about a retention offer or a no-fee downgrade before it posts.` +
+      `\n\nOpen your dashboard: ${dashboardUrl}\nYou can turn reminders off in Account Settings.`,
+  };
+}
+
+/**
+ * Send every annual fee renewal reminder due today. Follows the payment
+ * reminder flow: users who turned reminders off are skipped, and each
+ * (card, renewal date, lead time) is claimed in annual_fee_reminder_log
+ * before sending and released if the send fails.
+ */
+export async function sendAnnualFeeReminders(now: Date = new Date()): Promise<AnnualFeeReminderRunSummary> {
+  const summary: AnnualFeeReminderRunSummary = {
+    cardsChecked: 0,
+    sent: 0,
+    skippedAlreadySent: 0,
+    skippedOptedOut: 0,
+    failed: 0,
+  };
+
+  // Stored renewal dates can be a year or more stale, so filter after rolling forward
+  const { data: cards, error: cardsError } = await supabaseAdmin
+    .from('credit_cards')
+    .select('id, name, mask, annualFee, annualFeeDueDate, annual_fee_source, plaid_items!inner(userId)')
+    .gt('annualFee', 0)
+    .not('annualFeeDueDate', 'is', null);
+
+  if (cardsError) {
+    throw new Error(`Failed to fetch cards with annual fees: ${cardsError.message}`);
+  }
+
+  const feeCards = ((cards || []) as unknown as (AnnualFeeCard & { plaid_items: { userId: string } })[])
+    .map(card => {
+      const renewal = nextAnnualFeeDate(card.annualFeeDueDate as string, now);
+      return { card, renewal, leadDay: selectLeadDay(daysUntilRenewal(renewal, now), ANNUAL_FEE_LEAD_DAYS) };
+    })
+    .filter(entry => entry.leadDay !== null);
+
+  if (feeCards.length === 0) {
+    return summary;
+  }
+
+  const userIds = [...new Set(feeCards.map(entry => entry.card.plaid_items.userId))];
+  const [{ data: users }, { data: preferences }] = await Promise.all([
+    supabaseAdmin.from('users').select('id, email').in('id', userIds),
+    supabaseAdmin.from('reminder_preferences').select('user_id, enabled').in('user_id', userIds),
+  ]);
+
+  const emailMap = new Map((users || []).map(u => [u.id, u.email]));
+  const enabledMap = new Map((preferences || []).map(p => [p.user_id, p.enabled]));
+
+  for (const { card, renewal, leadDay } of feeCards) {
+    summary.cardsChecked++;
+    const userId = card.plaid_items.userId;
+    const email = emailMap.get(userId);
+
+    if (!email || enabledMap.get(userId) === false) {
+      summary.skippedOptedOut++;
+      continue;
+    }
+
+    const renewalDate = renewal.toISOString().split('T')[0];
+
+    // Claim this reminder first - the unique key makes concurrent runs send at most once
+    const { data: claim, error: claimError } = await supabaseAdmin
+      .from('annual_fee_reminder_log')
+      .insert({ user_id: userId, credit_card_id: card.id, renewal_date: renewalDate, lead_days: leadDay })
+      .select('id')
+      .single();
+
+    if (claimError || !claim) {
+      if (claimError?.code === '23505') { // unique_violation
+        summary.skippedAlreadySent++;
+      } else {
+        console.error(`❌ Failed to claim annual fee reminder for card ${card.id}:`, claimError);
+        summary.failed++;
+      }
+      continue;
+    }
+
+    try {
+      const message = buildRenewalEmail(card, renewal, daysUntilRenewal(renewal, now));
+      const emailId = await sendEmail({ to: email, ...message });
+
+      await supabaseAdmin
+        .from('annual_fee_reminder_log')
+        .update({ email_id: emailId })
+        .eq('id', claim.id);
+
+      summary.sent++;
+      console.log(`📧 Annual fee reminder sent for ${card.name} (renews ${renewalDate}, ${leadDay}-day lead)`);
+    } catch (error) {
+      console.error(`❌ Failed to send annual fee reminder for ${card.name}:`, error);
+      // Release the claim so the next run can retry
+      await supabaseAdmin.from('annual_fee_reminder_log').delete().eq('id', claim.id);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,170 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import { ownsCard } from '@/services/cardOwnership';
+import {
+  computeBudgetProgress,
+  cycleBudgetWindow,
+  monthlyBudgetWindow,
+  type Budget,
+  type BudgetInput,
+  type BudgetPeriod,
+  type BudgetProgress,
+  type BudgetWindow,
+  type CycleBounds,
+} from '@/utils/budgets';
+import { getSpendTransactions } from '@/services/spendTransactions';
+
+interface BudgetRow {
+  id: string;
+  name: string | null;
+  amount: number | string;
+  period: BudgetPeriod;
+  category: string | null;
+  credit_card_id: string | null;
+}
+
+export interface BudgetWithProgress extends Budget {
+  // null when a billing-cycle budget's card has no cycles yet
+  progress: BudgetProgress | null;
+}
+
+function fromRow(row: BudgetRow): Budget {
+  return {
+    id: row.id,
+    name: row.name,
+    // numeric columns come back as strings
+    amount: Number(row.amount),
+    period: row.period,
+    category: row.category,
+    creditCardId: row.credit_card_id,
+  };
+}
+
+function toRow(budget: BudgetInput) {
+  return {
+    name: budget.name,
+    amount: budget.amount,
+    period: budget.period,
+    category: budget.category,
+    credit_card_id: budget.creditCardId,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+export async function getBudgets(userId: string): Promise<Budget[]> {
+  const { data, error } = await supabaseAdmin
+    .from('budgets')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch budgets: ${error.message}`);
+  }
+
+  return (data || []).map(row => fromRow(row as BudgetRow));
+}
+
+/** Returns null when the budget references a card the user does not own. */
+export async function createBudget(userId: string, budget: BudgetInput): Promise<Budget | null> {
+  if (!(await ownsCard(userId, budget.creditCardId))) {
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('budgets')
+    .insert({ user_id: userId, ...toRow(budget) })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create budget: ${error?.message || 'No data returned'}`);
+  }
+
+  return fromRow(data as BudgetRow);
+}
+
+/** Returns null when the budget does not exist for this user or references a card they do not own. */
+export async function updateBudget(userId: string, budgetId: string, budget: BudgetInput): Promise<Budget | null> {
+  if (!(await ownsCard(userId, budget.creditCardId))) {
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('budgets')
+    .update(toRow(budget))
+    .eq('id', budgetId)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update budget: ${error.message}`);
+  }
+
+  return data ? fromRow(data as BudgetRow) : null;
+}
+
+/** Returns false when the budget does not exist for this user. */
+export async function deleteBudget(userId: string, budgetId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('budgets')
+    .delete()
+    .eq('id', budgetId)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete budget: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/** Current-period progress for each of the user's budgets. */
+export async function getBudgetsWithProgress(userId: string, now: Date = new Date()): Promise<BudgetWithProgress[]> {
+  const budgets = await getBudgets(userId);
+  if (budgets.length === 0) {
+    return [];
+  }
+
+  // Billing-cycle budgets follow their card's current cycle
+  const cycleCardIds = [...new Set(budgets.filter(b => b.period === 'billing_cycle').map(b => b.creditCardId as string))];
+  const cyclesByCard = new Map<string, CycleBounds[]>();
+  if (cycleCardIds.length > 0) {
+    const { data: cycles, error: cyclesError } = await supabaseAdmin
+      .from('billing_cycles')
+      .select('creditCardId, startDate, endDate')
+      .in('creditCardId', cycleCardIds);
+
+    if (cyclesError) {
+      throw new Error(`Failed to fetch billing cycles: ${cyclesError.message}`);
+    }
+
+    for (const cycle of cycles || []) {
+      const list = cyclesByCard.get(cycle.creditCardId) || [];
+      list.push({ startDate: new Date(cycle.startDate), endDate: new Date(cycle.endDate) });
+      cyclesByCard.set(cycle.creditCardId, list);
+    }
+  }
+
+  const monthWindow = monthlyBudgetWindow(now);
+  const windows = budgets.map((budget): BudgetWindow | null =>
+    budget.period === 'monthly'
+      ? monthWindow
+      : cycleBudgetWindow(cyclesByCard.get(budget.creditCardId as string) || [], now)
+  );
+
+  const earliestStart = windows.reduce(
+    (earliest, window) => window && window.start < earliest ? window.start : earliest,
+    monthWindow.start
+  );
+  const transactions = await getSpendTransactions(userId, earliestStart, now) || [];
+
+  return budgets.map((budget, index) => {
+    const window = windows[index];
+    return {
+      ...budget,
+      progress: window ? computeBudgetProgress(budget, window, transactions, now) : null,
+    };
+  });
+}
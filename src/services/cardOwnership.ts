@@ -0,0 +1,16 @@
+import { supabaseAdmin } from '@/lib/supabase';
+
+/**
+ * Whether a card a budget or rule points at is one of the user's own cards.
+ * No card (null) references nothing, so it is allowed.
+ */
+export async function ownsCard(userId: string, creditCardId: string | null): Promise<boolean> {
+  if (!creditCardId) return true;
+  const { data } = await supabaseAdmin
+    .from('credit_cards')
+    .select('id, plaid_items!inner(userId)')
+    .eq('id', creditCardId)
+    .eq('plaid_items.userId', userId)
+    .maybeSingle();
+  return !!data;
+}
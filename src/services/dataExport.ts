@@ -0,0 +1,235 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import type { ExportCard, ExportQuery, ExportTransaction } from '@/utils/dataExport';
+
+// PostgREST caps responses at 1000 rows, so full histories are read in pages
+const EXPORT_PAGE_SIZE = 1000;
+
+interface CardRow {
+  id: string;
+  name: string;
+  mask: string | null;
+  accountId: string;
+  balanceCurrent: number | null;
+  isoCurrencyCode: string | null;
+  plaid_items?: { institutionName: string | null } | null;
+  [column: string]: unknown;
+}
+
+interface TransactionRow {
+  transactionId: string;
+  creditCardId: string | null;
+  amount: number | string;
+  isoCurrencyCode: string | null;
+  date: string;
+  authorizedDate: string | null;
+  name: string;
+  merchantName: string | null;
+  category: string | null;
+  subcategory: string | null;
+  pending: boolean | null;
+  [column: string]: unknown;
+}
+
+interface CycleRow {
+  creditCardId: string;
+  startDate: string;
+  endDate: string;
+  [column: string]: unknown;
+}
+
+export interface ExportData {
+  cards: ExportCard[];
+  transactions: ExportTransaction[];
+}
+
+export interface ExportArchive {
+  exportedAt: string;
+  filters: Omit<ExportQuery, 'format'>;
+  user: { id: string; email: string | null; name: string | null; createdAt: string | null };
+  // Bank connections without access tokens
+  connections: Record<string, unknown>[];
+  cards: Record<string, unknown>[];
+  transactions: Record<string, unknown>[];
+  settings: {
+    cardOrder: Record<string, unknown>[];
+    reminderPreferences: Record<string, unknown> | null;
+    cardReminderSettings: Record<string, unknown>[];
+    transactionRules: Record<string, unknown>[];
+    budgets: Record<string, unknown>[];
+    rewardPrograms: Record<string, unknown>[];
+    userPreferences: Record<string, unknown>[];
+  };
+}
+
+async function getOwnedCards(userId: string, cardIds: string[]): Promise<CardRow[]> {
+  let query = supabaseAdmin
+    .from('credit_cards')
+    .select('*, plaid_items!inner(userId, institutionName)')
+    .eq('plaid_items.userId', userId)
+    .order('createdAt', { ascending: true });
+  if (cardIds.length > 0) {
+    query = query.in('id', cardIds);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch credit cards: ${error.message}`);
+  }
+  return (data || []) as CardRow[];
+}
+
+async function getCardTransactions(cardIds: string[], query: ExportQuery): Promise<TransactionRow[]> {
+  const rows: TransactionRow[] = [];
+  if (cardIds.length === 0) return rows;
+
+  for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+    let page = supabaseAdmin
+      .from('transactions')
+      .select('*')
+      .in('creditCardId', cardIds)
+      .order('date', { ascending: false })
+      .order('id', { ascending: false })
+      .range(offset, offset + EXPORT_PAGE_SIZE - 1);
+    if (query.startDate) {
+      page = page.gte('date', query.startDate);
+    }
+    if (query.endDate) {
+      page = page.lte('date', `${query.endDate}T23:59:59.999Z`);
+    }
+
+    const { data, error } = await page;
+    if (error) {
+      throw new Error(`Failed to fetch transactions: ${error.message}`);
+    }
+    rows.push(...((data || []) as TransactionRow[]));
+    if (!data || data.length < EXPORT_PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+function toExportCard(card: CardRow): ExportCard {
+  return {
+    id: card.id,
+    name: card.name,
+    mask: card.mask ?? null,
+    accountId: card.accountId,
+    balanceCurrent: card.balanceCurrent ?? null,
+    isoCurrencyCode: card.isoCurrencyCode ?? null,
+  };
+}
+
+function toExportTransaction(t: TransactionRow): ExportTransaction {
+  return {
+    transactionId: t.transactionId,
+    creditCardId: t.creditCardId ?? null,
+    amount: Number(t.amount),
+    isoCurrencyCode: t.isoCurrencyCode ?? null,
+    date: t.date,
+    authorizedDate: t.authorizedDate ?? null,
+    name: t.name,
+    merchantName: t.merchantName ?? null,
+    category: t.category ?? null,
+    subcategory: t.subcategory ?? null,
+    pending: t.pending ?? null,
+  };
+}
+
+/** Cards and transactions for the CSV and OFX exports. */
+export async function getExportData(userId: string, query: ExportQuery): Promise<ExportData> {
+  const cards = await getOwnedCards(userId, query.cardIds);
+  const transactions = await getCardTransactions(cards.map(card => card.id), query);
+  return {
+    cards: cards.map(toExportCard),
+    transactions: transactions.map(toExportTransaction),
+  };
+}
+
+/**
+ * Everything stored about the user: the account, bank connections, cards with
+ * their APRs and billing cycles, transactions and settings. With no filters
+ * this is the complete data access response; card and date filters narrow
+ * the card-scoped sections.
+ */
+export async function getExportArchive(userId: string, query: ExportQuery, now: Date = new Date()): Promise<ExportArchive> {
+  const { data: user, error: userError } = await supabaseAdmin
+    .from('users')
+    .select('*')
+    .eq('id', userId)
+    .maybeSingle();
+  if (userError) {
+    throw new Error(`Failed to fetch user: ${userError.message}`);
+  }
+
+  const { data: connections, error: connectionsError } = await supabaseAdmin
+    .from('plaid_items')
+    .select('id, institutionId, institutionName, status, lastSyncAt, errorCode, errorMessage, createdAt, updatedAt')
+    .eq('userId', userId);
+  if (connectionsError) {
+    throw new Error(`Failed to fetch connections: ${connectionsError.message}`);
+  }
+
+  const cards = await getOwnedCards(userId, query.cardIds);
+  const cardIds = cards.map(card => card.id);
+  const transactions = await getCardTransactions(cardIds, query);
+
+  const [aprs, cycles, cardOrder, reminderPreferences, cardReminderSettings, rules, budgets, rewardPrograms, userPreferences] = await Promise.all([
+    cardIds.length > 0
+      ? supabaseAdmin.from('aprs').select('*').in('creditCardId', cardIds)
+      : Promise.resolve({ data: [], error: null }),
+    cardIds.length > 0
+      ? supabaseAdmin.from('billing_cycles').select('*').in('creditCardId', cardIds).order('startDate', { ascending: false })
+      : Promise.resolve({ data: [], error: null }),
+    supabaseAdmin.from('user_card_orders').select('*').eq('user_id', userId),
+    supabaseAdmin.from('reminder_preferences').select('*').eq('user_id', userId).maybeSingle(),
+    cardIds.length > 0
+      ? supabaseAdmin.from('card_reminder_settings').select('*').in('credit_card_id', cardIds)
+      : Promise.resolve({ data: [], error: null }),
+    supabaseAdmin.from('transaction_rules').select('*').eq('user_id', userId),
+    supabaseAdmin.from('budgets').select('*').eq('user_id', userId),
+    cardIds.length > 0
+      ? supabaseAdmin.from('card_reward_programs').select('*').in('credit_card_id', cardIds)
+      : Promise.resolve({ data: [], error: null }),
+    supabaseAdmin.from('user_preferences').select('*').eq('userId', userId),
+  ]);
+
+  if (aprs.error) {
+    throw new Error(`Failed to fetch APRs: ${aprs.error.message}`);
+  }
+  if (cycles.error) {
+    throw new Error(`Failed to fetch billing cycles: ${cycles.error.message}`);
+  }
+
+  // Cycles overlapping the requested range
+  const inRange = (cycle: CycleRow) =>
+    (!query.startDate || cycle.endDate.split('T')[0] >= query.startDate) &&
+    (!query.endDate || cycle.startDate.split('T')[0] <= query.endDate);
+
+  return {
+    exportedAt: now.toISOString(),
+    filters: { cardIds: query.cardIds, startDate: query.startDate, endDate: query.endDate },
+    user: {
+      id: userId,
+      email: user?.email ?? null,
+      name: user?.name ?? null,
+      createdAt: user?.createdAt ?? null,
+    },
+    connections: connections || [],
+    cards: cards.map(({ plaid_items, ...card }) => ({
+      ...card,
+      institutionName: plaid_items?.institutionName ?? null,
+      aprs: ((aprs.data || []) as { creditCardId: string }[]).filter(apr => apr.creditCardId === card.id),
+      billingCycles: ((cycles.data || []) as CycleRow[]).filter(cycle => cycle.creditCardId === card.id && inRange(cycle)),
+    })),
+    transactions,
+    settings: {
+      // Optional tables: a missing table reads as empty rather than failing the export
+      cardOrder: cardOrder.data || [],
+      reminderPreferences: reminderPreferences.data || null,
+      cardReminderSettings: cardReminderSettings.data || [],
+      transactionRules: rules.data || [],
+      budgets: budgets.data || [],
+      rewardPrograms: rewardPrograms.data || [],
+      userPreferences: userPreferences.data || [],
+    },
+  };
+}
@@ -0,0 +1,860 @@
+import type { AccountBase, CreditCardLiability } from 'plaid';
+import { decrypt, encrypt } from '@/lib/encryption';
+import { plaidClient } from '@/lib/plaid';
+import { supabaseAdmin } from '@/lib/supabase';
+import { plaidService } from '@/services/plaid';
+import { getTokenEncryptionHealth } from '@/services/tokenEncryption';
+import { isPaymentTransaction } from '@/utils/billingCycleEngine';
+import { JOB_TYPES, type JobStatus } from '@/utils/jobQueue';
+import {
+  assessCycleSpend,
+  cardLabel,
+  daysBetween,
+  defineDiagnostic,
+  isoDay,
+  openDateIssue,
+  type DiagnosticFinding,
+} from '@/utils/diagnostics';
+
+export interface DiagnosticCard {
+  id: string;
+  name: string;
+  mask: string | null;
+  accountId: string;
+  plaidItemId: string;
+  openDate: string | null;
+  lastStatementIssueDate: string | null;
+  lastStatementBalance: number | null;
+  nextPaymentDueDate: string | null;
+  balanceCurrent: number | null;
+  balanceLimit: number | null;
+  institutionName: string | null;
+}
+
+export interface DiagnosticItem {
+  id: string;
+  itemId: string;
+  institutionName: string | null;
+  status: string | null;
+  is_manual: boolean | null;
+  lastSyncAt: string | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+  createdAt: string | null;
+}
+
+export interface DiagnosticTransaction {
+  creditCardId: string;
+  date: string;
+  name: string;
+  amount: number;
+}
+
+export interface DiagnosticCycle {
+  id: string;
+  creditCardId: string;
+  startDate: string;
+  endDate: string;
+  totalSpend: number | null;
+  statementBalance: number | null;
+  transactionCount: number | null;
+}
+
+const CARD_COLUMNS = 'id, name, mask, accountId, plaidItemId, openDate, lastStatementIssueDate, lastStatementBalance, nextPaymentDueDate, balanceCurrent, balanceLimit';
+const ITEM_COLUMNS = 'id, itemId, institutionName, status, is_manual, lastSyncAt, errorCode, errorMessage, createdAt';
+
+// Checks fetch transactions in pages so large histories are not truncated
+const PAGE_SIZE = 1000;
+
+// Settings the app cannot run without; values are never reported, only whether they are set
+const REQUIRED_ENV = [
+  'PLAID_CLIENT_ID', 'PLAID_SECRET', 'PLAID_ENV', 'NEXT_PUBLIC_SUPABASE_URL', 'SUPABASE_SERVICE_ROLE_KEY',
+  'NEXTAUTH_URL', 'NEXTAUTH_SECRET', 'GOOGLE_CLIENT_ID', 'GOOGLE_CLIENT_SECRET', 'APP_URL', 'CRON_SECRET', 'RESEND_API_KEY',
+];
+
+/** Plaid's error code and message when the call reached Plaid, otherwise the thrown message. */
+export function plaidErrorMessage(error: unknown): string {
+  const data = (error as { response?: { data?: { error_code?: string; error_message?: string } } })?.response?.data;
+  if (data?.error_code) return `${data.error_code}: ${data.error_message || 'no message'}`;
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/** Where Plaid should deliver webhooks for this deployment; link tokens register the same URL. */
+export function plaidWebhookUrl(): string | null {
+  return process.env.APP_URL ? `${process.env.APP_URL}/api/webhooks/plaid` : null;
+}
+
+/** Sealed access tokens of the linked (non-manual) items, by plaid_items id. */
+export async function loadItemAccessTokens(plaidItemIds: string[]): Promise<Map<string, string>> {
+  if (plaidItemIds.length === 0) return new Map();
+
+  const { data, error } = await supabaseAdmin
+    .from('plaid_items')
+    .select('id, accessToken')
+    .in('id', plaidItemIds)
+    .neq('accessToken', '');
+
+  if (error) {
+    throw new Error(`Failed to fetch access tokens: ${error.message}`);
+  }
+  return new Map((data || []).map(item => [item.id as string, item.accessToken as string]));
+}
+
+/** The user's Plaid and manual items. */
+export async function loadUserItems(userId: string): Promise<DiagnosticItem[]> {
+  const { data, error } = await supabaseAdmin
+    .from('plaid_items')
+    .select(ITEM_COLUMNS)
+    .eq('userId', userId);
+
+  if (error) {
+    throw new Error(`Failed to fetch plaid items: ${error.message}`);
+  }
+  return (data || []) as DiagnosticItem[];
+}
+
+/** The user's cards, optionally only those whose name contains `cardName`. */
+export async function loadUserCards(userId: string, cardName?: string): Promise<DiagnosticCard[]> {
+  const items = await loadUserItems(userId);
+  if (items.length === 0) return [];
+
+  let query = supabaseAdmin
+    .from('credit_cards')
+    .select(CARD_COLUMNS)
+    .in('plaidItemId', items.map(item => item.id))
+    .order('name');
+  if (cardName) {
+    query = query.ilike('name', `%${cardName}%`);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch credit cards: ${error.message}`);
+  }
+
+  const institutions = new Map(items.map(item => [item.id, item.institutionName]));
+  return ((data || []) as Omit<DiagnosticCard, 'institutionName'>[]).map(card => ({
+    ...card,
+    institutionName: institutions.get(card.plaidItemId) ?? null,
+  }));
+}
+
+/** All transactions on the cards, newest first. */
+export async function loadCardTransactions(creditCardIds: string[]): Promise<DiagnosticTransaction[]> {
+  if (creditCardIds.length === 0) return [];
+
+  const transactions: DiagnosticTransaction[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('transactions')
+      .select('creditCardId, date, name, amount')
+      .in('creditCardId', creditCardIds)
+      .order('date', { ascending: false })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch transactions: ${error.message}`);
+    }
+    transactions.push(...((data || []) as DiagnosticTransaction[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return transactions;
+}
+
+/** Stored billing cycles for the cards, newest first. */
+export async function loadCardCycles(creditCardIds: string[]): Promise<DiagnosticCycle[]> {
+  if (creditCardIds.length === 0) return [];
+
+  const { data, error } = await supabaseAdmin
+    .from('billing_cycles')
+    .select('id, creditCardId, startDate, endDate, totalSpend, statementBalance, transactionCount')
+    .in('creditCardId', creditCardIds)
+    .order('endDate', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch billing cycles: ${error.message}`);
+  }
+  return (data || []) as DiagnosticCycle[];
+}
+
+/** Date of each card's oldest transaction. */
+export async function earliestTransactionDates(creditCardIds: string[]): Promise<Map<string, Date>> {
+  const earliest = new Map<string, Date>();
+  for (const creditCardId of creditCardIds) {
+    const { data, error } = await supabaseAdmin
+      .from('transactions')
+      .select('date')
+      .eq('creditCardId', creditCardId)
+      .order('date', { ascending: true })
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Failed to fetch transactions for card ${creditCardId}: ${error.message}`);
+    }
+    if (data && data.length > 0) {
+      earliest.set(creditCardId, new Date(data[0].date));
+    }
+  }
+  return earliest;
+}
+
+type RowFilter =
+  | [column: string, operator: 'eq' | 'gte' | 'lt', value: string | boolean]
+  | [column: string, operator: 'is', value: null];
+
+async function countRows(table: string, filters: RowFilter[] = []): Promise<number> {
+  let query = supabaseAdmin.from(table).select('*', { count: 'exact', head: true });
+  for (const [column, operator, value] of filters) {
+    if (operator === 'eq') query = query.eq(column, value);
+    else if (operator === 'gte') query = query.gte(column, value);
+    else if (operator === 'is') query = query.is(column, value);
+    else query = query.lt(column, value);
+  }
+
+  const { count, error } = await query;
+  if (error) {
+    throw new Error(`Failed to count ${table}: ${error.message}`);
+  }
+  return count || 0;
+}
+
+export const cardOverview = defineDiagnostic({
+  name: 'card-overview',
+  kind: 'check',
+  scope: 'user',
+  description: 'Snapshot of each card: dates, balances, transaction range and stored cycles',
+  permission: 'read',
+  params: {
+    cardName: { type: 'string', description: 'Only cards whose name contains this' },
+  },
+  replaces: [
+    'debug/current-cards', 'debug/inspect-boa-data', 'debug/boa-june-check', 'debug/boa-billing-debug',
+    'debug/capital-one-jsx', 'debug/sync-status-investigation', 'debug-cards', 'debug-final', 'debug-amex-date', 'debug-cap-one',
+    'debug/amex-filtering-debug', 'debug/amex-historical-debug', 'debug-cycles', 'debug-cycle-limits', 'debug-api-response',
+    'admin/analyze-robinhood-cycles',
+  ],
+  async run({ userId, params }) {
+    const cards = await loadUserCards(userId!, params.cardName);
+    const [transactions, cycles] = await Promise.all([
+      loadCardTransactions(cards.map(card => card.id)),
+      loadCardCycles(cards.map(card => card.id)),
+    ]);
+    const findings: DiagnosticFinding[] = [];
+
+    const overview = cards.map(card => {
+      const cardTransactions = transactions.filter(t => t.creditCardId === card.id);
+      const cardCycles = cycles.filter(c => c.creditCardId === card.id);
+
+      if (cardTransactions.length === 0) {
+        findings.push({ severity: 'warning', code: 'NO_TRANSACTIONS', subject: cardLabel(card), message: 'Card has no transactions' });
+      }
+      if (cardCycles.length === 0) {
+        findings.push({ severity: 'warning', code: 'NO_CYCLES', subject: cardLabel(card), message: 'Card has no stored billing cycles' });
+      }
+
+      return {
+        id: card.id,
+        name: cardLabel(card),
+        institutionName: card.institutionName,
+        openDate: isoDay(card.openDate),
+        lastStatementIssueDate: isoDay(card.lastStatementIssueDate),
+        lastStatementBalance: card.lastStatementBalance,
+        nextPaymentDueDate: isoDay(card.nextPaymentDueDate),
+        balanceCurrent: card.balanceCurrent,
+        balanceLimit: card.balanceLimit,
+        transactions: {
+          count: cardTransactions.length,
+          newest: isoDay(cardTransactions[0]?.date ?? null),
+          oldest: isoDay(cardTransactions[cardTransactions.length - 1]?.date ?? null),
+        },
+        cycles: {
+          count: cardCycles.length,
+          latest: cardCycles[0]
+            ? { startDate: isoDay(cardCycles[0].startDate), endDate: isoDay(cardCycles[0].endDate), totalSpend: cardCycles[0].totalSpend }
+            : null,
+          oldestStart: isoDay(cardCycles[cardCycles.length - 1]?.startDate ?? null),
+        },
+      };
+    });
+
+    return {
+      summary: `${cards.length} card${cards.length === 1 ? '' : 's'}${params.cardName ? ` matching "${params.cardName}"` : ''}`,
+      findings,
+      data: { cards: overview },
+    };
+  },
+});
+
+export const cardDates = defineDiagnostic({
+  name: 'card-dates',
+  kind: 'check',
+  scope: 'user',
+  description: 'Missing, future or implausible open dates and future statement or due dates',
+  permission: 'read',
+  params: {
+    cardName: { type: 'string', description: 'Only cards whose name contains this' },
+    maxDriftDays: { type: 'number', description: 'Days the first transaction may trail the open date', default: 90, min: 0 },
+  },
+  replaces: ['debug/card-open-dates'],
+  async run({ userId, params }) {
+    const cards = await loadUserCards(userId!, params.cardName);
+    const earliest = await earliestTransactionDates(cards.map(card => card.id));
+    const now = new Date();
+    const findings: DiagnosticFinding[] = [];
+
+    for (const card of cards) {
+      const subject = cardLabel(card);
+      const firstTransaction = earliest.get(card.id) ?? null;
+      const issue = openDateIssue(card.openDate ? new Date(card.openDate) : null, firstTransaction, now, params.maxDriftDays);
+      const details = { openDate: isoDay(card.openDate), earliestTransaction: isoDay(firstTransaction) };
+
+      if (issue === 'missing') {
+        findings.push({ severity: 'warning', code: 'MISSING_OPEN_DATE', subject, message: 'No open date; cycles start from a guess', details });
+      } else if (issue === 'future') {
+        findings.push({ severity: 'error', code: 'FUTURE_OPEN_DATE', subject, message: 'Open date is in the future', details });
+      } else if (issue === 'drifted') {
+        findings.push({
+          severity: 'warning',
+          code: 'OPEN_DATE_DRIFT',
+          subject,
+          message: `Open date is ${daysBetween(new Date(card.openDate!), firstTransaction!)} days from the first transaction`,
+          details,
+        });
+      }
+
+      if (card.lastStatementIssueDate && new Date(card.lastStatementIssueDate) > now) {
+        findings.push({
+          severity: 'error',
+          code: 'FUTURE_STATEMENT_DATE',
+          subject,
+          message: 'Last statement date is in the future',
+          details: { lastStatementIssueDate: isoDay(card.lastStatementIssueDate) },
+        });
+      }
+      if (card.nextPaymentDueDate && daysBetween(now, new Date(card.nextPaymentDueDate)) > 90) {
+        findings.push({
+          severity: 'warning',
+          code: 'FAR_FUTURE_DUE_DATE',
+          subject,
+          message: 'Next payment due date is more than 90 days away',
+          details: { nextPaymentDueDate: isoDay(card.nextPaymentDueDate) },
+        });
+      }
+    }
+
+    return {
+      summary: `${findings.length} date issue${findings.length === 1 ? '' : 's'} across ${cards.length} card${cards.length === 1 ? '' : 's'}`,
+      findings,
+    };
+  },
+});
+
+export const cycleSpendAudit = defineDiagnostic({
+  name: 'cycle-spend-audit',
+  kind: 'check',
+  scope: 'user',
+  description: 'Stored cycle spend and statement balances that disagree with transactions and balances',
+  permission: 'read',
+  params: {
+    cardName: { type: 'string', description: 'Only cards whose name contains this' },
+  },
+  replaces: ['debug/data-audit', 'debug/cycle-exclusions'],
+  async run({ userId, params }) {
+    const cards = await loadUserCards(userId!, params.cardName);
+    const [transactions, cycles] = await Promise.all([
+      loadCardTransactions(cards.map(card => card.id)),
+      loadCardCycles(cards.map(card => card.id)),
+    ]);
+    const now = new Date();
+    const findings: DiagnosticFinding[] = [];
+
+    for (const card of cards) {
+      const cardTransactions = transactions.filter(t => t.creditCardId === card.id);
+
+      for (const cycle of cycles.filter(c => c.creditCardId === card.id)) {
+        const assessment = assessCycleSpend(cycle, card, cardTransactions, isPaymentTransaction, now);
+        const subject = `${cardLabel(card)} ${isoDay(cycle.startDate)} - ${isoDay(cycle.endDate)}`;
+        const storedSpend = cycle.totalSpend || 0;
+
+        if (Math.abs(storedSpend - assessment.expectedSpend) > 0.01) {
+          findings.push({
+            severity: 'warning',
+            code: assessment.isCurrentCycle ? 'CURRENT_CYCLE_SPEND_MISMATCH' : 'SPEND_MISMATCH',
+            subject,
+            message: `Stored spend ${storedSpend.toFixed(2)} but expected ${assessment.expectedSpend.toFixed(2)}`,
+            details: { cycleId: cycle.id, storedSpend, ...assessment },
+          });
+        }
+        if (assessment.isHistoricalCycle && assessment.transactionSpend > 0 && !cycle.statementBalance) {
+          findings.push({
+            severity: 'warning',
+            code: 'MISSING_STATEMENT_BALANCE',
+            subject,
+            message: 'Closed cycle with spend has no statement balance',
+            details: { cycleId: cycle.id, transactionSpend: assessment.transactionSpend },
+          });
+        }
+        if (cycle.statementBalance && cycle.statementBalance > 0 && assessment.transactionCount === 0) {
+          findings.push({
+            severity: 'info',
+            code: 'STATEMENT_WITHOUT_TRANSACTIONS',
+            subject,
+            message: 'Cycle has a statement balance but no transactions',
+            details: { cycleId: cycle.id, statementBalance: cycle.statementBalance },
+          });
+        }
+      }
+    }
+
+    return {
+      summary: `${findings.length} issue${findings.length === 1 ? '' : 's'} in ${cycles.length} cycles across ${cards.length} card${cards.length === 1 ? '' : 's'}`,
+      findings,
+    };
+  },
+});
+
+export const plaidItemHealth = defineDiagnostic({
+  name: 'plaid-items',
+  kind: 'check',
+  scope: 'user',
+  description: 'Connection status, errors and sync freshness of each Plaid item',
+  permission: 'read',
+  params: {
+    staleHours: { type: 'number', description: 'Hours since the last sync before an item counts as stale', default: 48, min: 1 },
+  },
+  async run({ userId, params }) {
+    const items = (await loadUserItems(userId!)).filter(item => !item.is_manual);
+    const now = Date.now();
+    const findings: DiagnosticFinding[] = [];
+
+    for (const item of items) {
+      const subject = item.institutionName || item.itemId;
+      if (item.status !== 'active' || item.errorCode) {
+        findings.push({
+          severity: 'error',
+          code: 'ITEM_ERROR',
+          subject,
+          message: item.errorMessage || `Item status is ${item.status}`,
+          details: { plaidItemId: item.id, status: item.status, errorCode: item.errorCode },
+        });
+      }
+      if (!item.lastSyncAt) {
+        findings.push({ severity: 'warning', code: 'NEVER_SYNCED', subject, message: 'Item has never synced', details: { plaidItemId: item.id } });
+      } else if (now - new Date(item.lastSyncAt).getTime() > params.staleHours * 60 * 60 * 1000) {
+        findings.push({
+          severity: 'warning',
+          code: 'STALE_SYNC',
+          subject,
+          message: `Last synced more than ${params.staleHours} hours ago`,
+          details: { plaidItemId: item.id, lastSyncAt: item.lastSyncAt },
+        });
+      }
+    }
+
+    return {
+      summary: `${items.length} Plaid item${items.length === 1 ? '' : 's'}`,
+      findings,
+      data: {
+        items: items.map(item => ({
+          id: item.id,
+          institutionName: item.institutionName,
+          status: item.status,
+          errorCode: item.errorCode,
+          lastSyncAt: item.lastSyncAt,
+          createdAt: item.createdAt,
+        })),
+      },
+    };
+  },
+});
+
+export const plaidAccounts = defineDiagnostic({
+  name: 'plaid-accounts',
+  kind: 'check',
+  scope: 'user',
+  description: 'Live Plaid accounts and liabilities next to the stored cards: limits, balances and statement dates',
+  permission: 'read',
+  params: {
+    institution: { type: 'string', description: 'Only connections whose institution name contains this' },
+  },
+  replaces: [
+    'debug/capital-one-full-debug', 'debug/capital-one-limits', 'debug/plaid-limits', 'debug/plaid-raw-data',
+    'debug/plaid-api-explorer', 'debug/plaid-status', 'debug/citi-investigation', 'debug/full-pipeline',
+    'admin/plaid-deep-dive', 'admin/robinhood-assets-check', 'admin/robinhood-deep-investigation',
+    'admin/robinhood-plaid-explorer', 'admin/robinhood-statements-debug',
+  ],
+  async run({ userId, params }) {
+    const institution = params.institution?.toLowerCase();
+    const items = (await loadUserItems(userId!)).filter(item =>
+      !item.is_manual && (!institution || (item.institutionName || '').toLowerCase().includes(institution))
+    );
+    const [cards, tokens] = await Promise.all([loadUserCards(userId!), loadItemAccessTokens(items.map(item => item.id))]);
+    const findings: DiagnosticFinding[] = [];
+    const connections = [];
+
+    for (const item of items) {
+      const subject = item.institutionName || item.itemId;
+      const sealedToken = tokens.get(item.id);
+      if (!sealedToken) {
+        findings.push({ severity: 'error', code: 'NO_ACCESS_TOKEN', subject, message: 'Linked item has no access token', details: { plaidItemId: item.id } });
+        continue;
+      }
+
+      let accounts: AccountBase[];
+      let credit: CreditCardLiability[];
+      try {
+        const accessToken = decrypt(sealedToken);
+        accounts = (await plaidClient.accountsGet({ access_token: accessToken })).data.accounts;
+        try {
+          credit = (await plaidClient.liabilitiesGet({ access_token: accessToken })).data.liabilities.credit || [];
+        } catch (error) {
+          // Investment platforms link without the liabilities product
+          findings.push({ severity: 'info', code: 'NO_LIABILITIES', subject, message: plaidErrorMessage(error), details: { plaidItemId: item.id } });
+          credit = [];
+        }
+      } catch (error) {
+        findings.push({ severity: 'error', code: 'PLAID_ERROR', subject, message: plaidErrorMessage(error), details: { plaidItemId: item.id } });
+        continue;
+      }
+
+      const itemCards = cards.filter(card => card.plaidItemId === item.id);
+      for (const card of itemCards) {
+        if (!accounts.some(account => account.account_id === card.accountId)) {
+          findings.push({ severity: 'warning', code: 'CARD_NOT_IN_PLAID', subject: cardLabel(card), message: 'Plaid no longer returns this card\'s account' });
+        }
+      }
+
+      connections.push({
+        plaidItemId: item.id,
+        institutionName: item.institutionName,
+        accounts: accounts.map(account => {
+          const card = itemCards.find(candidate => candidate.accountId === account.account_id) ?? null;
+          const liability = credit.find(entry => entry.account_id === account.account_id) ?? null;
+          const accountSubject = card ? cardLabel(card) : `${account.name} (${account.mask})`;
+
+          if (account.type === 'credit' && !card) {
+            findings.push({ severity: 'warning', code: 'ACCOUNT_WITHOUT_CARD', subject: accountSubject, message: 'Plaid credit account has no stored card; its transactions stay unlinked' });
+          }
+          if (card && account.balances.limit != null && card.balanceLimit !== account.balances.limit) {
+            findings.push({
+              severity: 'warning',
+              code: 'LIMIT_MISMATCH',
+              subject: accountSubject,
+              message: `Stored limit ${card.balanceLimit ?? 'none'} but Plaid reports ${account.balances.limit}`,
+            });
+          }
+          if (card && account.balances.limit == null && card.balanceLimit == null) {
+            findings.push({ severity: 'info', code: 'NO_LIMIT', subject: accountSubject, message: 'Plaid reports no credit limit and none is stored; the user can enter one' });
+          }
+          if (card && liability?.last_statement_issue_date && isoDay(card.lastStatementIssueDate) !== liability.last_statement_issue_date) {
+            findings.push({
+              severity: 'warning',
+              code: 'STATEMENT_DATE_MISMATCH',
+              subject: accountSubject,
+              message: `Stored last statement ${isoDay(card.lastStatementIssueDate) ?? 'none'} but Plaid reports ${liability.last_statement_issue_date}`,
+            });
+          }
+
+          return {
+            accountId: account.account_id,
+            name: account.name,
+            mask: account.mask,
+            type: account.type,
+            subtype: account.subtype,
+            cardId: card?.id ?? null,
+            plaid: {
+              balanceCurrent: account.balances.current,
+              balanceLimit: account.balances.limit,
+              lastStatementIssueDate: liability?.last_statement_issue_date ?? null,
+              lastStatementBalance: liability?.last_statement_balance ?? null,
+              nextPaymentDueDate: liability?.next_payment_due_date ?? null,
+            },
+            stored: card ? {
+              balanceCurrent: card.balanceCurrent,
+              balanceLimit: card.balanceLimit,
+              lastStatementIssueDate: isoDay(card.lastStatementIssueDate),
+              lastStatementBalance: card.lastStatementBalance,
+              nextPaymentDueDate: isoDay(card.nextPaymentDueDate),
+            } : null,
+          };
+        }),
+      });
+    }
+
+    return {
+      summary: `${connections.length} of ${items.length} connection${items.length === 1 ? '' : 's'} answered`,
+      findings,
+      data: { connections },
+    };
+  },
+});
+
+export const cardTransactions = defineDiagnostic({
+  name: 'card-transactions',
+  kind: 'check',
+  scope: 'user',
+  description: 'Recent transactions per card with payment detection, and transactions not linked to a card',
+  permission: 'read',
+  params: {
+    cardName: { type: 'string', description: 'Only cards whose name contains this' },
+    days: { type: 'number', description: 'How many days back to look', default: 60, min: 1 },
+    sample: { type: 'number', description: 'Transactions to list per card', default: 20, min: 0 },
+  },
+  replaces: [
+    'debug/transactions', 'debug/transaction-sample', 'debug/filtered-transactions', 'debug/payment-detection',
+    'debug/test-payment-detection', 'debug/plaid-transactions', 'debug/database', 'debug/connection-debug',
+    'debug/verify-refresh-pipeline', 'debug-transactions', 'test/transactions',
+    'admin/debug-robinhood', 'admin/robinhood-statement-check', 'admin/test-payment',
+  ],
+  async run({ userId, params }) {
+    const [items, cards] = await Promise.all([loadUserItems(userId!), loadUserCards(userId!, params.cardName)]);
+    const since = new Date(Date.now() - params.days * 24 * 60 * 60 * 1000);
+    const transactions = (await loadCardTransactions(cards.map(card => card.id)))
+      .filter(transaction => new Date(transaction.date) >= since);
+    const findings: DiagnosticFinding[] = [];
+
+    const perCard = cards.map(card => {
+      const cardTransactions = transactions.filter(t => t.creditCardId === card.id);
+      const payments = cardTransactions.filter(t => isPaymentTransaction(t.name));
+      const otherCredits = cardTransactions.filter(t => t.amount < 0 && !isPaymentTransaction(t.name));
+
+      if (otherCredits.length > 0) {
+        findings.push({
+          severity: 'info',
+          code: 'CREDITS_NOT_PAYMENTS',
+          subject: cardLabel(card),
+          message: `${otherCredits.length} credit${otherCredits.length === 1 ? ' is' : 's are'} not recognised as payments (refunds, or a payment name to add)`,
+          details: { names: [...new Set(otherCredits.map(t => t.name))].slice(0, 10) },
+        });
+      }
+
+      return {
+        id: card.id,
+        name: cardLabel(card),
+        count: cardTransactions.length,
+        spend: Math.round(cardTransactions.filter(t => t.amount > 0).reduce((sum, t) => sum + t.amount, 0) * 100) / 100,
+        payments: payments.length,
+        transactions: cardTransactions.slice(0, params.sample).map(t => ({
+          date: isoDay(t.date),
+          name: t.name,
+          amount: t.amount,
+          isPayment: isPaymentTransaction(t.name),
+        })),
+      };
+    });
+
+    // Rows for accounts without a card: non-credit accounts, or cards not synced yet
+    const unlinked = await Promise.all(items.filter(item => !item.is_manual).map(async item => ({
+      item,
+      count: await countRows('transactions', [['plaidItemId', 'eq', item.id], ['creditCardId', 'is', null]]),
+    })));
+    for (const { item, count } of unlinked.filter(entry => entry.count > 0)) {
+      findings.push({
+        severity: 'info',
+        code: 'UNLINKED_TRANSACTIONS',
+        subject: item.institutionName || item.itemId,
+        message: `${count} transaction${count === 1 ? ' belongs' : 's belong'} to accounts without a card`,
+        details: { plaidItemId: item.id },
+      });
+    }
+
+    return {
+      summary: `${transactions.length} transactions in the last ${params.days} days across ${cards.length} card${cards.length === 1 ? '' : 's'}`,
+      findings,
+      data: { cards: perCard },
+    };
+  },
+});
+
+export const userStats = defineDiagnostic({
+  name: 'user-stats',
+  kind: 'check',
+  scope: 'global',
+  description: 'Row counts for users, connections, cards, transactions and cycles',
+  permission: 'read',
+  params: {},
+  replaces: ['debug/user-stats'],
+  async run() {
+    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+    const [users, newUsers, plaidItems, activeItems, manualItems, creditCards, transactions, billingCycles] = await Promise.all([
+      countRows('users'),
+      countRows('users', [['createdAt', 'gte', weekAgo]]),
+      countRows('plaid_items'),
+      countRows('plaid_items', [['status', 'eq', 'active']]),
+      countRows('plaid_items', [['is_manual', 'eq', true]]),
+      countRows('credit_cards'),
+      countRows('transactions'),
+      countRows('billing_cycles'),
+    ]);
+    const connectedItems = plaidItems - manualItems;
+
+    return {
+      summary: `${users} users, ${connectedItems} Plaid connections, ${creditCards} cards`,
+      findings: [],
+      data: {
+        users: { total: users, joinedLast7Days: newUsers },
+        connections: { total: connectedItems, active: activeItems, notActive: connectedItems - activeItems, manual: manualItems },
+        data: {
+          creditCards,
+          transactions,
+          billingCycles,
+          avgTransactionsPerCard: creditCards > 0 ? Math.round(transactions / creditCards) : 0,
+          avgCyclesPerCard: creditCards > 0 ? Math.round(billingCycles / creditCards) : 0,
+        },
+      },
+    };
+  },
+});
+
+export const tokenEncryption = defineDiagnostic({
+  name: 'token-encryption',
+  kind: 'check',
+  scope: 'global',
+  description: 'Which encryption keys the stored Plaid access tokens are sealed with',
+  permission: 'system',
+  params: {},
+  replaces: ['debug/encryption'],
+  async run() {
+    const health = await getTokenEncryptionHealth();
+    const findings: DiagnosticFinding[] = [];
+
+    const sample = `diagnostics-${Date.now()}`;
+    try {
+      if (decrypt(encrypt(sample)) !== sample) {
+        findings.push({ severity: 'error', code: 'ROUNDTRIP_FAILED', message: 'Decrypting a freshly encrypted value gave a different value' });
+      }
+    } catch (error) {
+      findings.push({ severity: 'error', code: 'ROUNDTRIP_FAILED', message: error instanceof Error ? error.message : 'Encryption failed' });
+    }
+
+    if (health.onUnknownKeys > 0) {
+      findings.push({
+        severity: 'error',
+        code: 'TOKENS_ON_UNKNOWN_KEY',
+        message: `${health.onUnknownKeys} token(s) are sealed with a key that is no longer configured`,
+      });
+    }
+    if (health.onOldKeys > 0) {
+      findings.push({
+        severity: 'warning',
+        code: 'TOKENS_ON_OLD_KEYS',
+        message: `${health.onOldKeys} token(s) are not on the active key; run npm run encryption:reencrypt`,
+      });
+    }
+
+    return {
+      summary: `${health.totalTokens} tokens, active key ${health.activeKeyId}`,
+      findings,
+      data: { ...health },
+    };
+  },
+});
+
+export const appConfig = defineDiagnostic({
+  name: 'app-config',
+  kind: 'check',
+  scope: 'global',
+  description: 'Required settings, sign-in and webhook URLs, and whether Plaid creates a link token',
+  permission: 'system',
+  params: {},
+  replaces: [
+    'debug/auth-debug', 'debug/google-oauth-check', 'debug/link-token', 'debug/link-token-test',
+    'debug/test-link-token', 'debug/plaid-categories',
+  ],
+  async run() {
+    const findings: DiagnosticFinding[] = [];
+
+    const missing = REQUIRED_ENV.filter(name => !process.env[name]);
+    if (!process.env.ENCRYPTION_KEYS && !process.env.ENCRYPTION_KEY) missing.push('ENCRYPTION_KEYS');
+    for (const name of missing) {
+      findings.push({ severity: 'error', code: 'MISSING_SETTING', subject: name, message: `${name} is not set` });
+    }
+    if (process.env.NEXTAUTH_URL && process.env.APP_URL && process.env.NEXTAUTH_URL !== process.env.APP_URL) {
+      findings.push({
+        severity: 'warning',
+        code: 'URL_MISMATCH',
+        message: 'NEXTAUTH_URL and APP_URL differ; sign-in redirects and Plaid webhooks point at different hosts',
+      });
+    }
+
+    let linkToken = 'created';
+    try {
+      await plaidService.createLinkToken(`diagnostics-${Date.now()}`);
+    } catch (error) {
+      linkToken = 'failed';
+      findings.push({ severity: 'error', code: 'LINK_TOKEN_FAILED', message: plaidErrorMessage(error) });
+    }
+
+    return {
+      summary: `${missing.length} missing setting${missing.length === 1 ? '' : 's'}, link token ${linkToken}`,
+      findings,
+      data: {
+        plaidEnv: process.env.PLAID_ENV || null,
+        googleRedirectUri: process.env.NEXTAUTH_URL ? `${process.env.NEXTAUTH_URL}/api/auth/callback/google` : null,
+        plaidWebhookUrl: plaidWebhookUrl(),
+        linkToken,
+      },
+    };
+  },
+});
+
+export const jobQueueHealth = defineDiagnostic({
+  name: 'job-queue',
+  kind: 'check',
+  scope: 'global',
+  description: 'Background job counts, dead jobs, expired leases and overdue work',
+  permission: 'read',
+  params: {
+    overdueMinutes: { type: 'number', description: 'Minutes a queued job may wait past its run time', default: 15, min: 1 },
+  },
+  async run({ params }) {
+    const now = new Date();
+    const overdueBefore = new Date(now.getTime() - params.overdueMinutes * 60 * 1000).toISOString();
+    const statuses: JobStatus[] = ['queued', 'running', 'failed', 'dead'];
+
+    const [counts, expiredLeases, overdue, deadJobs] = await Promise.all([
+      Promise.all(JOB_TYPES.map(async type => ({
+        type,
+        ...Object.fromEntries(await Promise.all(
+          statuses.map(async status => [status, await countRows('jobs', [['type', 'eq', type], ['status', 'eq', status]])])
+        )),
+      }))),
+      countRows('jobs', [['status', 'eq', 'running'], ['locked_until', 'lt', now.toISOString()]]),
+      countRows('jobs', [['status', 'eq', 'queued'], ['run_at', 'lt', overdueBefore]]),
+      supabaseAdmin
+        .from('jobs')
+        .select('id, type, user_id, attempts, last_error, finished_at')
+        .eq('status', 'dead')
+        .order('finished_at', { ascending: false })
+        .limit(20),
+    ]);
+
+    if (deadJobs.error) {
+      throw new Error(`Failed to fetch dead jobs: ${deadJobs.error.message}`);
+    }
+
+    const findings: DiagnosticFinding[] = (deadJobs.data || []).map(job => ({
+      severity: 'warning' as const,
+      code: 'DEAD_JOB',
+      subject: `${job.type} ${job.id}`,
+      message: job.last_error || `Gave up after ${job.attempts} attempts`,
+      details: { userId: job.user_id, finishedAt: job.finished_at },
+    }));
+    if (expiredLeases > 0) {
+      findings.push({ severity: 'warning', code: 'EXPIRED_LEASES', message: `${expiredLeases} running job(s) outlived their lease; their worker likely died` });
+    }
+    if (overdue > 0) {
+      findings.push({
+        severity: 'warning',
+        code: 'QUEUE_BACKLOG',
+        message: `${overdue} queued job(s) are more than ${params.overdueMinutes} minutes overdue; is the job worker cron running?`,
+      });
+    }
+
+    return {
+      summary: `${overdue} overdue, ${expiredLeases} expired leases, ${(deadJobs.data || []).length} recent dead jobs`,
+      findings,
+      data: { counts },
+    };
+  },
+});
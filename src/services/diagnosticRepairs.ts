@@ -0,0 +1,334 @@
+import { decrypt } from '@/lib/encryption';
+import { plaidClient } from '@/lib/plaid';
+import { supabaseAdmin } from '@/lib/supabase';
+import { enqueueJob } from '@/services/jobQueue';
+import { kickJobWorker } from '@/services/jobWorker';
+import { rebuildCardCycles } from '@/services/manualCards';
+import {
+  earliestTransactionDates,
+  loadCardCycles,
+  loadCardTransactions,
+  loadItemAccessTokens,
+  loadUserCards,
+  loadUserItems,
+  plaidErrorMessage,
+  plaidWebhookUrl,
+} from '@/services/diagnosticChecks';
+import { isPaymentTransaction } from '@/utils/billingCycleEngine';
+import {
+  assessCycleSpend,
+  cardLabel,
+  defineDiagnostic,
+  estimateOpenDate,
+  isoDay,
+  openDateIssue,
+  type DiagnosticChange,
+  type OpenDateIssue,
+} from '@/utils/diagnostics';
+
+// Same priority as a user pressing sync, ahead of scheduled syncs
+const RESYNC_PRIORITY = 10;
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : 'Unknown error';
+
+async function cycleCounts(creditCardIds: string[]): Promise<Map<string, number>> {
+  const counts = new Map<string, number>(creditCardIds.map(id => [id, 0]));
+  for (const cycle of await loadCardCycles(creditCardIds)) {
+    counts.set(cycle.creditCardId, (counts.get(cycle.creditCardId) || 0) + 1);
+  }
+  return counts;
+}
+
+export const regenerateCycles = defineDiagnostic({
+  name: 'regenerate-cycles',
+  kind: 'repair',
+  scope: 'user',
+  description: 'Delete stored billing cycles and calculate them again from transactions and statements',
+  permission: 'write',
+  params: {
+    cardName: { type: 'string', description: 'Only cards whose name contains this' },
+    cardId: { type: 'string', description: 'Only this credit card id' },
+  },
+  replaces: ['admin/regenerate-cycles', 'debug/regenerate-cycles', 'debug/fix-cycles', 'fix-cycles'],
+  async run({ userId, params, dryRun }) {
+    const cards = (await loadUserCards(userId!, params.cardName))
+      .filter(card => !params.cardId || card.id === params.cardId);
+    const cardIds = cards.map(card => card.id);
+    const before = await cycleCounts(cardIds);
+
+    if (!dryRun) {
+      await rebuildCardCycles(cardIds);
+    }
+    const after = dryRun ? before : await cycleCounts(cardIds);
+
+    const changes: DiagnosticChange[] = cards.map(card => ({
+      subject: cardLabel(card),
+      field: 'billing cycles',
+      from: before.get(card.id) || 0,
+      to: dryRun ? 'recalculated' : after.get(card.id) || 0,
+      applied: !dryRun,
+    }));
+
+    return {
+      summary: `${dryRun ? 'Would rebuild' : 'Rebuilt'} cycles for ${cards.length} card${cards.length === 1 ? '' : 's'}`,
+      changes,
+    };
+  },
+});
+
+export const cycleSpendRepair = defineDiagnostic({
+  name: 'cycle-spend-repair',
+  kind: 'repair',
+  scope: 'user',
+  description: 'Rewrite stored cycle spend and statement balances that cycle-spend-audit reports',
+  permission: 'write',
+  params: {
+    cardName: { type: 'string', description: 'Only cards whose name contains this' },
+  },
+  replaces: ['debug/data-repair'],
+  async run({ userId, params, dryRun }) {
+    const cards = await loadUserCards(userId!, params.cardName);
+    const [transactions, cycles] = await Promise.all([
+      loadCardTransactions(cards.map(card => card.id)),
+      loadCardCycles(cards.map(card => card.id)),
+    ]);
+    const now = new Date();
+    const changes: DiagnosticChange[] = [];
+
+    for (const card of cards) {
+      const cardTransactions = transactions.filter(t => t.creditCardId === card.id);
+
+      for (const cycle of cycles.filter(c => c.creditCardId === card.id)) {
+        const { expectedSpend, expectedStatementBalance } = assessCycleSpend(cycle, card, cardTransactions, isPaymentTransaction, now);
+        const needsSpendUpdate = Math.abs((cycle.totalSpend || 0) - expectedSpend) > 0.01;
+        const needsStatementUpdate = expectedStatementBalance !== cycle.statementBalance;
+        if (!needsSpendUpdate && !needsStatementUpdate) continue;
+
+        const change: DiagnosticChange = {
+          subject: `${cardLabel(card)} ${isoDay(cycle.startDate)} - ${isoDay(cycle.endDate)}`,
+          field: 'totalSpend, statementBalance',
+          from: { totalSpend: cycle.totalSpend, statementBalance: cycle.statementBalance },
+          to: { totalSpend: expectedSpend, statementBalance: expectedStatementBalance },
+          applied: false,
+        };
+
+        if (!dryRun) {
+          const { error } = await supabaseAdmin
+            .from('billing_cycles')
+            .update({
+              totalSpend: expectedSpend,
+              statementBalance: expectedStatementBalance,
+              minimumPayment: expectedStatementBalance && expectedStatementBalance > 0
+                ? Math.max(25, expectedStatementBalance * 0.02)
+                : null,
+            })
+            .eq('id', cycle.id);
+
+          if (error) change.error = error.message;
+          else change.applied = true;
+        }
+        changes.push(change);
+      }
+    }
+
+    return {
+      summary: `${dryRun ? 'Would update' : 'Updated'} ${changes.filter(c => !c.error).length} of ${cycles.length} cycles`,
+      changes,
+    };
+  },
+});
+
+const OPEN_DATE_MODES = ['missing', 'future', 'drifted', 'all'] as const;
+
+export const cardOpenDates = defineDiagnostic({
+  name: 'card-open-dates',
+  kind: 'repair',
+  scope: 'user',
+  description: 'Estimate open dates for cards whose open date is missing, in the future or far from their first transaction, then rebuild their cycles',
+  permission: 'write',
+  params: {
+    mode: { type: 'enum', options: OPEN_DATE_MODES, description: 'Which open date problems to fix', default: 'missing' },
+    cardName: { type: 'string', description: 'Only cards whose name contains this' },
+    leadDays: { type: 'number', description: 'Days before the first transaction to place the open date', default: 7, min: 0 },
+    maxDriftDays: { type: 'number', description: 'Days the first transaction may trail the open date', default: 90, min: 0 },
+  },
+  replaces: [
+    'debug/fix-open-dates', 'debug/fix-future-dates', 'debug/fix-incorrect-open-dates',
+    'debug/fix-open-dates-from-transactions', 'debug/force-fix-boa-date', 'debug/smart-fix-boa-cycles',
+  ],
+  async run({ userId, params, dryRun }) {
+    const cards = await loadUserCards(userId!, params.cardName);
+    const earliest = await earliestTransactionDates(cards.map(card => card.id));
+    const now = new Date();
+    const fixes: OpenDateIssue[] = params.mode === 'all' ? ['missing', 'future', 'drifted'] : [params.mode];
+    const changes: DiagnosticChange[] = [];
+    const changedCardIds: string[] = [];
+
+    for (const card of cards) {
+      const firstTransaction = earliest.get(card.id) ?? null;
+      const issue = openDateIssue(card.openDate ? new Date(card.openDate) : null, firstTransaction, now, params.maxDriftDays);
+      if (!issue || !fixes.includes(issue)) continue;
+
+      const lastStatement = card.lastStatementIssueDate ? new Date(card.lastStatementIssueDate) : null;
+      const estimate = estimateOpenDate(firstTransaction, lastStatement, now, params.leadDays);
+      const change: DiagnosticChange = {
+        subject: `${cardLabel(card)} (${issue}, from ${estimate.method.replace(/_/g, ' ')})`,
+        field: 'openDate',
+        from: isoDay(card.openDate),
+        to: isoDay(estimate.date),
+        applied: false,
+      };
+
+      if (!dryRun) {
+        const { error } = await supabaseAdmin
+          .from('credit_cards')
+          .update({ openDate: estimate.date.toISOString(), updatedAt: now.toISOString() })
+          .eq('id', card.id);
+
+        if (error) {
+          change.error = error.message;
+        } else {
+          change.applied = true;
+          changedCardIds.push(card.id);
+        }
+      }
+      changes.push(change);
+    }
+
+    // Cycles are generated from the open date
+    if (changedCardIds.length > 0) {
+      await rebuildCardCycles(changedCardIds);
+    }
+
+    return {
+      summary: `${dryRun ? 'Would set' : 'Set'} open dates on ${changes.filter(c => !c.error).length} card${changes.length === 1 ? '' : 's'}` +
+        (changedCardIds.length > 0 ? ' and rebuilt their cycles' : ''),
+      changes,
+    };
+  },
+});
+
+export const resyncItems = defineDiagnostic({
+  name: 'resync-items',
+  kind: 'repair',
+  scope: 'user',
+  description: 'Queue a full sync of Plaid connections: accounts, limits, transactions and cycles',
+  permission: 'write',
+  params: {
+    institution: { type: 'string', description: 'Only connections whose institution name contains this' },
+    plaidItemId: { type: 'string', description: 'Only this plaid_items id' },
+  },
+  replaces: ['admin/robinhood-resync', 'debug/capital-one-sync', 'debug/sync-capital-one'],
+  async run({ userId, params, dryRun }) {
+    const institution = params.institution?.toLowerCase();
+    const items = (await loadUserItems(userId!)).filter(item =>
+      !item.is_manual &&
+      (!params.plaidItemId || item.id === params.plaidItemId) &&
+      (!institution || (item.institutionName || '').toLowerCase().includes(institution))
+    );
+    const changes: DiagnosticChange[] = [];
+
+    for (const item of items) {
+      const change: DiagnosticChange = {
+        subject: item.institutionName || item.itemId,
+        field: 'item_sync job',
+        from: { status: item.status, lastSyncAt: item.lastSyncAt },
+        to: 'queued',
+        applied: false,
+      };
+
+      if (!dryRun) {
+        try {
+          const { job, created } = await enqueueJob({
+            type: 'item_sync',
+            userId,
+            payload: { plaidItemId: item.id },
+            priority: RESYNC_PRIORITY,
+          });
+          change.to = { jobId: job.id, status: job.status, alreadyQueued: !created };
+          change.applied = true;
+        } catch (error) {
+          change.error = errorMessage(error);
+        }
+      }
+      changes.push(change);
+    }
+
+    if (changes.some(change => change.applied)) {
+      kickJobWorker(['item_sync']);
+    }
+
+    return {
+      summary: `${dryRun ? 'Would queue' : 'Queued'} ${changes.filter(c => !c.error).length} item sync${changes.length === 1 ? '' : 's'}`,
+      changes,
+      data: dryRun ? undefined : { note: 'Follow progress with the job-queue and plaid-items checks' },
+    };
+  },
+});
+
+export const itemWebhooks = defineDiagnostic({
+  name: 'item-webhooks',
+  kind: 'repair',
+  scope: 'global',
+  description: 'Point Plaid items whose webhook differs from this deployment\'s webhook URL at it',
+  permission: 'system',
+  params: {
+    institution: { type: 'string', description: 'Only connections whose institution name contains this' },
+  },
+  replaces: ['admin/list-webhooks', 'admin/attach-webhooks'],
+  async run({ params, dryRun }) {
+    const webhook = plaidWebhookUrl();
+    if (!webhook) {
+      throw new Error('APP_URL is not set, so there is no webhook URL to attach');
+    }
+
+    let query = supabaseAdmin
+      .from('plaid_items')
+      .select('id, itemId, institutionName')
+      .or('is_manual.is.null,is_manual.eq.false');
+    if (params.institution) {
+      query = query.ilike('institutionName', `%${params.institution}%`);
+    }
+    const { data: items, error } = await query;
+    if (error) {
+      throw new Error(`Failed to fetch plaid items: ${error.message}`);
+    }
+
+    const tokens = await loadItemAccessTokens((items || []).map(item => item.id));
+    const changes: DiagnosticChange[] = [];
+    let current = 0;
+
+    for (const item of items || []) {
+      const change: DiagnosticChange = {
+        subject: `${item.institutionName || 'Unknown'} ${item.itemId}`,
+        field: 'webhook',
+        from: null,
+        to: webhook,
+        applied: false,
+      };
+
+      try {
+        const sealedToken = tokens.get(item.id);
+        if (!sealedToken) throw new Error('No access token');
+        const accessToken = decrypt(sealedToken);
+        change.from = (await plaidClient.itemGet({ access_token: accessToken })).data.item.webhook || null;
+        if (change.from === webhook) {
+          current++;
+          continue;
+        }
+        if (!dryRun) {
+          await plaidClient.itemWebhookUpdate({ access_token: accessToken, webhook });
+          change.applied = true;
+        }
+      } catch (error) {
+        change.error = plaidErrorMessage(error);
+      }
+      changes.push(change);
+    }
+
+    return {
+      summary: `${dryRun ? 'Would update' : 'Updated'} ${changes.filter(c => !c.error).length} webhook${changes.length === 1 ? '' : 's'}; ${current} already current`,
+      changes,
+    };
+  },
+});
@@ -0,0 +1,118 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import {
+  appConfig,
+  cardDates,
+  cardOverview,
+  cardTransactions,
+  cycleSpendAudit,
+  jobQueueHealth,
+  plaidAccounts,
+  plaidItemHealth,
+  tokenEncryption,
+  userStats,
+} from '@/services/diagnosticChecks';
+import { cardOpenDates, cycleSpendRepair, itemWebhooks, regenerateCycles, resyncItems } from '@/services/diagnosticRepairs';
+import {
+  diagnosticStatus,
+  emailLikePattern,
+  type DiagnosticDefinition,
+  type DiagnosticParams,
+  type DiagnosticResult,
+  type DiagnosticSummary,
+} from '@/utils/diagnostics';
+
+// Checks first, then repairs; the admin page and CLI list them in this order
+const DIAGNOSTICS: DiagnosticDefinition[] = [
+  cardOverview,
+  cardDates,
+  cardTransactions,
+  cycleSpendAudit,
+  plaidItemHealth,
+  plaidAccounts,
+  userStats,
+  tokenEncryption,
+  appConfig,
+  jobQueueHealth,
+  regenerateCycles,
+  cycleSpendRepair,
+  cardOpenDates,
+  resyncItems,
+  itemWebhooks,
+];
+
+export function listDiagnostics(): DiagnosticSummary[] {
+  return DIAGNOSTICS.map(({ name, kind, scope, description, permission, params, replaces }) => ({
+    name, kind, scope, description, permission, params, replaces,
+  }));
+}
+
+export function getDiagnostic(name: string): DiagnosticDefinition | null {
+  return DIAGNOSTICS.find(diagnostic => diagnostic.name === name) || null;
+}
+
+/** The id of the user named by id or email, or null when there is no such user. */
+export async function resolveDiagnosticUser(target: { userId?: string | null; email?: string | null }): Promise<{ id: string; email: string } | null> {
+  let query = supabaseAdmin.from('users').select('id, email');
+  if (target.userId) query = query.eq('id', target.userId);
+  else if (target.email) query = query.ilike('email', emailLikePattern(target.email));
+  else return null;
+
+  const { data, error } = await query.maybeSingle();
+  if (error) {
+    throw new Error(`Failed to fetch user: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * Run a diagnostic with already validated parameters. A run that throws comes
+ * back as an error result rather than failing the request, so the caller
+ * always sees what was attempted.
+ */
+export async function runDiagnostic(
+  diagnostic: DiagnosticDefinition,
+  { userId, params, dryRun }: { userId: string | null; params: Record<string, unknown>; dryRun: boolean }
+): Promise<DiagnosticResult> {
+  const startedAt = new Date();
+  const isDryRun = diagnostic.kind === 'repair' && dryRun;
+  const base = {
+    name: diagnostic.name,
+    kind: diagnostic.kind,
+    scope: diagnostic.scope,
+    userId: diagnostic.scope === 'user' ? userId : null,
+    dryRun: isDryRun,
+    params,
+    startedAt: startedAt.toISOString(),
+  };
+
+  try {
+    const outcome = await diagnostic.run({
+      userId: base.userId,
+      params: params as DiagnosticParams<typeof diagnostic.params>,
+      dryRun: isDryRun,
+    });
+    const findings = outcome.findings || [];
+    const changes = outcome.changes || [];
+
+    return {
+      ...base,
+      status: diagnosticStatus(findings, changes),
+      summary: outcome.summary,
+      findings,
+      changes,
+      data: outcome.data || null,
+      durationMs: Date.now() - startedAt.getTime(),
+    };
+  } catch (error) {
+    console.error(`Diagnostic ${diagnostic.name} failed:`, error);
+    return {
+      ...base,
+      status: 'error',
+      summary: error instanceof Error ? error.message : 'Diagnostic failed',
+      findings: [],
+      changes: [],
+      data: null,
+      durationMs: Date.now() - startedAt.getTime(),
+    };
+  }
+}
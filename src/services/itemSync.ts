@@ -0,0 +1,261 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import { plaidService } from '@/services/plaid';
+import { decrypt } from '@/lib/encryption';
+import { calculateBillingCycles, calculateCurrentBillingCycle, calculateRecentClosedCycle } from '@/utils/billingCycles';
+
+export interface PlaidItemRow {
+  id: string;
+  itemId: string;
+  userId: string;
+  accessToken: string;
+  institutionName: string;
+  errorCode: string | null;
+}
+
+// Errors thrown by the Plaid client carry Plaid's error fields
+type PlaidClientError = Error & {
+  error_code?: string;
+  response?: { status?: number; data?: { error_code?: string; error_message?: string } };
+};
+
+export interface ItemSyncResult {
+  itemId: string;
+  status: 'success' | 'error';
+  institutionName: string;
+  accountsProcessed?: number;
+  creditCardsFound?: number;
+  error?: string;
+  requiresReconnection?: boolean;
+  canAutoReconnect?: boolean;
+  // Plaid still answered 429 after the client's backoff retries
+  rateLimited?: boolean;
+}
+
+/**
+ * Sync one Plaid connection: accounts, recent then full transaction history,
+ * and billing cycles for its cards. Connection failures mark the item expired
+ * (preparing an update link token the first time) and come back as an error
+ * result; the item's status columns always reflect the outcome.
+ */
+export async function syncPlaidItem(item: PlaidItemRow): Promise<ItemSyncResult> {
+  try {
+    console.log(`=== SYNC DEBUG: Starting sync for ${item.institutionName} (${item.itemId}) ===`);
+    const decryptedAccessToken = decrypt(item.accessToken);
+
+    console.log('Step 1: Syncing accounts...');
+    const accountSyncResult = await plaidService.syncAccounts(decryptedAccessToken, item.itemId);
+    console.log('Step 1: Account sync completed');
+
+    const accountsProcessed = accountSyncResult?.accountsProcessed || 0;
+    const creditCardsFound = accountSyncResult?.creditCardsFound || 0;
+
+    console.log('Step 2a: Quick sync - Recent transactions (3 months) for instant display...');
+    try {
+      await plaidService.syncRecentTransactions(item, decryptedAccessToken);
+      console.log('✅ Recent transactions synced (3 months)');
+
+      // Calculate current and recent closed cycles for immediate display
+      const { data: cards } = await supabaseAdmin
+        .from('credit_cards')
+        .select('id, name')
+        .eq('plaidItemId', item.id);
+
+      let quickCyclesCalculated = 0;
+      for (const card of cards || []) {
+        try {
+          const currentCycle = await calculateCurrentBillingCycle(card.id);
+          const recentClosed = await calculateRecentClosedCycle(card.id);
+          if (currentCycle) quickCyclesCalculated++;
+          if (recentClosed) quickCyclesCalculated++;
+        } catch (cycleError) {
+          console.warn(`Quick cycle calc failed for ${card.name}:`, cycleError);
+        }
+      }
+      console.log(`✅ Quick billing cycles calculated: ${quickCyclesCalculated} cycles`);
+    } catch (quickSyncError) {
+      console.warn('⚠️ Quick sync failed, proceeding with full sync:', quickSyncError);
+    }
+
+    console.log('Step 2b: Full transaction sync (12 months)...');
+    let rateLimited = false;
+    try {
+      await plaidService.syncTransactions(item, decryptedAccessToken);
+      console.log('Step 2b: Full transaction sync completed successfully (up to 12 months)');
+    } catch (syncError) {
+      console.error('🚨 TRANSACTION SYNC ERROR:', syncError);
+
+      const { response, message } = syncError as PlaidClientError;
+      const isRateLimit = response?.status === 429 ||
+                         message?.toLowerCase().includes('rate limit');
+
+      if (isRateLimit) {
+        rateLimited = true;
+        console.warn('⚠️ Rate limit hit during transaction sync - continuing with account data only');
+      } else {
+        console.warn('⚠️ Non-rate-limit transaction sync error - continuing with account data');
+      }
+
+      // Don't throw - cards are already created and visible, let the sync complete with account data
+    }
+
+    console.log('Step 3: Regenerating billing cycles with new transaction data...');
+    await regenerateItemCycles(item);
+    console.log('Step 3: Billing cycle generation completed');
+
+    // Update connection status to active on successful sync
+    const { error: updateError } = await supabaseAdmin
+      .from('plaid_items')
+      .update({
+        status: 'active',
+        lastSyncAt: new Date().toISOString(),
+        errorCode: null,
+        errorMessage: null
+      })
+      .eq('itemId', item.itemId);
+
+    if (updateError) {
+      console.error('Failed to update plaid item status:', updateError);
+    }
+
+    console.log(`=== SYNC DEBUG: Completed sync for ${item.institutionName} ===`);
+    return {
+      itemId: item.itemId,
+      status: 'success',
+      accountsProcessed,
+      creditCardsFound,
+      institutionName: item.institutionName,
+      rateLimited
+    };
+  } catch (caught) {
+    console.error(`=== SYNC ERROR for ${item.institutionName} (${item.itemId}):`, caught);
+    const error = caught as PlaidClientError;
+
+    const errorCode = error.error_code || error?.response?.data?.error_code || 'SYNC_ERROR';
+    const statusCode = error?.response?.status || 0;
+
+    // Include 400 status codes and expired/invalid messages, not just Plaid error codes
+    const isConnectionError = (
+      ['ITEM_LOGIN_REQUIRED', 'ACCESS_NOT_GRANTED', 'INVALID_ACCESS_TOKEN', 'ITEM_NOT_FOUND'].includes(errorCode) ||
+      statusCode === 400 ||
+      error.message?.includes('400') ||
+      error.message?.toLowerCase().includes('invalid') ||
+      error.message?.toLowerCase().includes('expired')
+    );
+
+    // If it's a connection error, prepare reconnection ONCE
+    if (isConnectionError && !item.errorCode) {
+      console.log(`🔄 Auto-reconnecting ${item.institutionName} due to connection error...`);
+
+      try {
+        // We can't fully auto-reconnect without user interaction, but we can prepare the update link token
+        await plaidService.createUpdateLinkToken(item.userId, item.itemId);
+        console.log(`✅ Update link token created for ${item.institutionName}`);
+
+        const { error: reconnectUpdateError } = await supabaseAdmin
+          .from('plaid_items')
+          .update({
+            status: 'expired',
+            errorCode: errorCode,
+            errorMessage: 'Connection expired - reconnection required'
+          })
+          .eq('itemId', item.itemId);
+
+        if (reconnectUpdateError) {
+          console.error('Failed to update plaid item for reconnection:', reconnectUpdateError);
+        }
+
+        return {
+          itemId: item.itemId,
+          status: 'error',
+          institutionName: item.institutionName,
+          error: 'Connection expired',
+          requiresReconnection: true,
+          canAutoReconnect: true
+        };
+      } catch (reconnectError) {
+        console.error(`Failed to prepare reconnection for ${item.institutionName}:`, reconnectError);
+        // Fall through to regular error handling
+      }
+    }
+
+    const { error: statusUpdateError } = await supabaseAdmin
+      .from('plaid_items')
+      .update({
+        status: isConnectionError ? 'expired' : 'error',
+        errorCode: errorCode,
+        errorMessage: error.message || error?.response?.data?.error_message || 'Unknown sync error'
+      })
+      .eq('itemId', item.itemId);
+
+    if (statusUpdateError) {
+      console.error('Failed to update plaid item error status:', statusUpdateError);
+    }
+
+    return {
+      itemId: item.itemId,
+      status: 'error',
+      institutionName: item.institutionName,
+      error: error.message,
+      requiresReconnection: isConnectionError,
+      rateLimited: statusCode === 429
+    };
+  }
+}
+
+/**
+ * Rebuild the item's billing cycles from scratch: link transactions that
+ * arrived without a card, drop the stored cycles and recalculate them.
+ */
+async function regenerateItemCycles(item: PlaidItemRow): Promise<void> {
+  const { data: creditCards, error: cardsError } = await supabaseAdmin
+    .from('credit_cards')
+    .select('id, name, plaidItemId, accountId')
+    .eq('plaidItemId', item.id);
+
+  if (cardsError) {
+    throw new Error(`Failed to fetch credit cards: ${cardsError.message}`);
+  }
+  if (!creditCards || creditCards.length === 0) return;
+
+  const { error: deleteError } = await supabaseAdmin
+    .from('billing_cycles')
+    .delete()
+    .in('creditCardId', creditCards.map(card => card.id));
+
+  if (deleteError) {
+    console.error('Failed to delete existing billing cycles:', deleteError);
+  }
+
+  for (const card of creditCards) {
+    try {
+      const { data: unlinkedTransactions, error: unlinkedError } = await supabaseAdmin
+        .from('transactions')
+        .select('id')
+        .eq('plaidItemId', card.plaidItemId)
+        .eq('accountid', card.accountId)
+        .is('creditCardId', null);
+
+      if (unlinkedError) {
+        console.error('Failed to fetch unlinked transactions:', unlinkedError);
+      } else if ((unlinkedTransactions || []).length > 0) {
+        console.log(`Found ${unlinkedTransactions.length} unlinked transactions, linking them to ${card.name}...`);
+
+        for (const transaction of unlinkedTransactions) {
+          const { error: linkError } = await supabaseAdmin
+            .from('transactions')
+            .update({ creditCardId: card.id })
+            .eq('id', transaction.id);
+
+          if (linkError) {
+            console.error(`Failed to link transaction ${transaction.id}:`, linkError);
+          }
+        }
+      }
+
+      const cycles = await calculateBillingCycles(card.id);
+      console.log(`Generated ${cycles.length} billing cycles for ${card.name}`);
+    } catch (cycleError) {
+      console.error(`Failed to generate billing cycles for ${card.name}:`, cycleError);
+    }
+  }
+}
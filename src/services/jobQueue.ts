@@ -0,0 +1,242 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from '@/lib/supabase';
+import {
+  DEFAULT_LEASE_SECONDS,
+  DEFAULT_MAX_ATTEMPTS,
+  jobDedupeKey,
+  nextJobRunAt,
+  type JobPayloads,
+  type JobStatus,
+  type JobType,
+} from '@/utils/jobQueue';
+
+export interface Job<T extends JobType = JobType> {
+  id: string;
+  type: T;
+  user_id: string | null;
+  payload: JobPayloads[T];
+  status: JobStatus;
+  priority: number;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_by: string | null;
+  locked_until: string | null;
+  last_error: string | null;
+  result: Record<string, unknown> | null;
+  dedupe_key: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  updated_at: string;
+}
+
+export interface EnqueueJobInput<T extends JobType> {
+  type: T;
+  userId: string | null;
+  payload: JobPayloads[T];
+  // Higher runs first
+  priority?: number;
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+// What the status endpoint shows a user about their jobs
+export interface JobStatusView {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  result: Record<string, unknown> | null;
+  createdAt: string;
+  runAt: string;
+  finishedAt: string | null;
+}
+
+const UNIQUE_VIOLATION = '23505';
+const MAX_STATUS_JOBS = 50;
+
+/**
+ * Queue a job. When identical work is already queued or running (same dedupe
+ * key) that job is returned instead and `created` is false.
+ */
+export async function enqueueJob<T extends JobType>(input: EnqueueJobInput<T>): Promise<{ job: Job<T>; created: boolean }> {
+  const now = new Date().toISOString();
+  const dedupeKey = jobDedupeKey(input.type, input.payload, input.userId);
+  const job = {
+    id: crypto.randomUUID(),
+    type: input.type,
+    user_id: input.userId,
+    payload: input.payload,
+    status: 'queued' as JobStatus,
+    priority: input.priority ?? 0,
+    max_attempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    run_at: (input.runAt ?? new Date()).toISOString(),
+    dedupe_key: dedupeKey,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const { data: created, error } = await supabaseAdmin
+    .from('jobs')
+    .insert(job)
+    .select()
+    .single();
+
+  if (!error) {
+    return { job: created as Job<T>, created: true };
+  }
+  if (error.code !== UNIQUE_VIOLATION || !dedupeKey) {
+    throw new Error(`Failed to enqueue ${input.type} job: ${error.message}`);
+  }
+
+  const { data: existing, error: fetchError } = await supabaseAdmin
+    .from('jobs')
+    .select('*')
+    .eq('dedupe_key', dedupeKey)
+    .in('status', ['queued', 'running'])
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch queued ${input.type} job: ${fetchError.message}`);
+  }
+  if (!existing) {
+    // The active copy finished between the insert and the lookup; queue again
+    return enqueueJob(input);
+  }
+
+  // A queued copy takes the earlier run time and higher priority, so a user's
+  // sync is not stuck behind a scheduled copy of the same work
+  const active = existing as Job<T>;
+  const sooner = new Date(job.run_at) < new Date(active.run_at);
+  if (active.status === 'queued' && (sooner || job.priority > active.priority)) {
+    const { data: promoted, error: promoteError } = await supabaseAdmin
+      .from('jobs')
+      .update({
+        run_at: sooner ? job.run_at : active.run_at,
+        priority: Math.max(job.priority, active.priority),
+        updated_at: now,
+      })
+      .eq('id', active.id)
+      .eq('status', 'queued')
+      .select()
+      .maybeSingle();
+
+    if (promoteError) {
+      console.error(`Failed to promote queued ${input.type} job ${active.id}:`, promoteError);
+    } else if (promoted) {
+      return { job: promoted as Job<T>, created: false };
+    }
+  }
+  return { job: active, created: false };
+}
+
+/** Lease ready jobs to a worker; see lease_jobs in the job queue migration. */
+export async function leaseJobs(
+  workerId: string,
+  { limit = 1, leaseSeconds = DEFAULT_LEASE_SECONDS, types }: { limit?: number; leaseSeconds?: number; types?: JobType[] } = {}
+): Promise<Job[]> {
+  const { data, error } = await supabaseAdmin.rpc('lease_jobs', {
+    p_worker: workerId,
+    p_limit: limit,
+    p_lease_seconds: leaseSeconds,
+    p_types: types && types.length > 0 ? types : null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to lease jobs: ${error.message}`);
+  }
+  return (data || []) as Job[];
+}
+
+/**
+ * Record a finished attempt. Updates only apply while the worker still holds
+ * the lease, so a worker that overran its lease cannot overwrite the attempt
+ * that replaced it; false is returned in that case.
+ */
+async function finishAttempt(job: Job, workerId: string, changes: Record<string, unknown>): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('jobs')
+    .update({ ...changes, locked_by: null, locked_until: null, updated_at: new Date().toISOString() })
+    .eq('id', job.id)
+    .eq('status', 'running')
+    .eq('locked_by', workerId)
+    .eq('attempts', job.attempts)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to update job ${job.id}: ${error.message}`);
+  }
+  return !!data && data.length > 0;
+}
+
+export async function completeJob(job: Job, workerId: string, result: Record<string, unknown> | null): Promise<boolean> {
+  return finishAttempt(job, workerId, {
+    status: 'succeeded',
+    result,
+    last_error: null,
+    finished_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Requeue a failed attempt with backoff, or dead-letter the job when it is out
+ * of attempts. 'lost' when the lease was taken over and nothing was recorded.
+ */
+export async function failJob(job: Job, workerId: string, error: string): Promise<JobStatus | 'lost'> {
+  const nextRunAt = nextJobRunAt(job.attempts, job.max_attempts);
+  const status: JobStatus = nextRunAt ? 'queued' : 'dead';
+  const recorded = await finishAttempt(job, workerId, {
+    status,
+    last_error: error,
+    run_at: nextRunAt ? nextRunAt.toISOString() : job.run_at,
+    finished_at: nextRunAt ? null : new Date().toISOString(),
+  });
+  return recorded ? status : 'lost';
+}
+
+/** Dead-letter a leased job without running it; false when the lease was taken over. */
+export async function deadLetterJob(job: Job, workerId: string, reason: string): Promise<boolean> {
+  return finishAttempt(job, workerId, {
+    status: 'dead',
+    last_error: reason,
+    finished_at: new Date().toISOString(),
+  });
+}
+
+function toStatusView(job: Job): JobStatusView {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.max_attempts,
+    lastError: job.last_error,
+    result: job.result,
+    createdAt: job.created_at,
+    runAt: job.run_at,
+    finishedAt: job.finished_at,
+  };
+}
+
+/** A user's jobs by id, or their most recent jobs when no ids are given. */
+export async function getUserJobs(userId: string, jobIds: string[] = []): Promise<JobStatusView[]> {
+  let query = supabaseAdmin
+    .from('jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(MAX_STATUS_JOBS);
+
+  if (jobIds.length > 0) {
+    query = query.in('id', jobIds.slice(0, MAX_STATUS_JOBS));
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch jobs: ${error.message}`);
+  }
+  return ((data || []) as Job[]).map(toStatusView);
+}
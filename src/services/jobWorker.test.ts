@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Job } from '@/services/jobQueue';
+
+// In-memory jobs table behind the two calls the worker makes: the lease RPC
+// and the lease-guarded update in finishAttempt
+const db = vi.hoisted(() => ({
+  rows: new Map<string, Record<string, unknown>>(),
+  leases: [] as Record<string, unknown>[][],
+}));
+
+vi.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    rpc: async () => ({ data: db.leases.shift() ?? [], error: null }),
+    from: () => {
+      const filters: [string, unknown][] = [];
+      let changes: Record<string, unknown> = {};
+      const query = {
+        update(values: Record<string, unknown>) {
+          changes = values;
+          return query;
+        },
+        eq(column: string, value: unknown) {
+          filters.push([column, value]);
+          return query;
+        },
+        async select() {
+          const matched = [...db.rows.values()].filter((row) => filters.every(([column, value]) => row[column] === value));
+          matched.forEach((row) => Object.assign(row, changes));
+          return { data: matched.map((row) => ({ id: row.id })), error: null };
+        },
+      };
+      return query;
+    },
+  },
+}));
+
+vi.mock('next/server', () => ({ after: vi.fn() }));
+vi.mock('@/services/itemSync', () => ({ syncPlaidItem: vi.fn() }));
+vi.mock('@/services/statementRefresh', () => ({ refreshStatementCycles: vi.fn() }));
+vi.mock('@/services/manualCards', () => ({ rebuildCardCycles: vi.fn() }));
+vi.mock('@/services/scheduledSync', () => ({ deferScheduledSyncs: vi.fn(), recordScheduledSyncOutcome: vi.fn() }));
+
+import { rebuildCardCycles } from '@/services/manualCards';
+import { runJobWorker } from '@/services/jobWorker';
+
+function leasedJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 'job-1',
+    type: 'cycle_regeneration',
+    user_id: 'user-1',
+    payload: { creditCardIds: ['card-1'] },
+    status: 'running',
+    priority: 0,
+    attempts: 1,
+    max_attempts: 5,
+    run_at: '2025-10-30T00:00:00.000Z',
+    locked_by: 'worker-1',
+    locked_until: '2025-10-30T00:05:00.000Z',
+    last_error: null,
+    result: null,
+    dedupe_key: null,
+    created_at: '2025-10-30T00:00:00.000Z',
+    started_at: '2025-10-30T00:00:00.000Z',
+    finished_at: null,
+    updated_at: '2025-10-30T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function lease(job: Job, stored: Partial<Job> = {}) {
+  db.rows.set(job.id, { ...job, ...stored });
+  db.leases.push([job as unknown as Record<string, unknown>]);
+}
+
+describe('runJobWorker', () => {
+  beforeEach(() => {
+    db.rows.clear();
+    db.leases = [];
+    vi.mocked(rebuildCardCycles).mockReset();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('dead-letters a job leased past its attempts', async () => {
+    lease(leasedJob({ attempts: 6, max_attempts: 5 }));
+
+    const summary = await runJobWorker({ workerId: 'worker-1' });
+
+    expect(rebuildCardCycles).not.toHaveBeenCalled();
+    expect(db.rows.get('job-1')).toMatchObject({ status: 'dead', locked_by: null, last_error: 'Exceeded max attempts' });
+    expect(summary).toMatchObject({ leased: 1, dead: 1, lost: 0 });
+  });
+
+  it('counts a dead-letter as lost when the lease was taken over', async () => {
+    lease(leasedJob({ attempts: 6, max_attempts: 5 }), { locked_by: 'worker-2', attempts: 7 });
+
+    const summary = await runJobWorker({ workerId: 'worker-1' });
+
+    expect(db.rows.get('job-1')).toMatchObject({ status: 'running', locked_by: 'worker-2' });
+    expect(summary).toMatchObject({ dead: 0, lost: 1 });
+  });
+
+  it('dead-letters a failure on the last attempt and retries earlier ones', async () => {
+    vi.mocked(rebuildCardCycles).mockRejectedValue(new Error('boom'));
+    lease(leasedJob({ id: 'job-1', attempts: 5 }));
+    lease(leasedJob({ id: 'job-2', attempts: 2 }));
+
+    const summary = await runJobWorker({ workerId: 'worker-1' });
+
+    expect(db.rows.get('job-1')).toMatchObject({ status: 'dead', last_error: 'boom' });
+    expect(db.rows.get('job-2')).toMatchObject({ status: 'queued', last_error: 'boom' });
+    expect(summary).toMatchObject({ leased: 2, dead: 1, retried: 1, lost: 0 });
+  });
+
+  it('counts a failure as lost when the lease was taken over', async () => {
+    vi.mocked(rebuildCardCycles).mockRejectedValue(new Error('boom'));
+    lease(leasedJob({ attempts: 5 }), { attempts: 6 });
+
+    const summary = await runJobWorker({ workerId: 'worker-1' });
+
+    expect(db.rows.get('job-1')).toMatchObject({ status: 'running', attempts: 6 });
+    expect(summary).toMatchObject({ dead: 0, retried: 0, lost: 1 });
+  });
+});
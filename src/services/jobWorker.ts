@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import { after } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { completeJob, deadLetterJob, failJob, leaseJobs, type Job } from '@/services/jobQueue';
+import { syncPlaidItem } from '@/services/itemSync';
+import { refreshStatementCycles } from '@/services/statementRefresh';
+import { rebuildCardCycles } from '@/services/manualCards';
+import { deferScheduledSyncs, recordScheduledSyncOutcome } from '@/services/scheduledSync';
+import type { JobPayloads, JobType } from '@/utils/jobQueue';
+
+type JobHandler<T extends JobType> = (job: Job<T>) => Promise<Record<string, unknown> | null>;
+
+export interface JobWorkerOptions {
+  workerId?: string;
+  // Stop leasing new jobs once this much time has passed
+  timeBudgetMs?: number;
+  batchSize?: number;
+  types?: JobType[];
+}
+
+export interface JobWorkerRunSummary {
+  workerId: string;
+  leased: number;
+  succeeded: number;
+  retried: number;
+  dead: number;
+  // Attempts whose lease was taken over before they finished
+  lost: number;
+}
+
+const DEFAULT_TIME_BUDGET_MS = 45 * 1000;
+// Leases run sequentially, so a big batch would let later leases expire while waiting
+const DEFAULT_BATCH_SIZE = 1;
+
+const handlers: { [T in JobType]: JobHandler<T> } = {
+  item_sync: async (job) => {
+    const { plaidItemId, scheduled } = job.payload as JobPayloads['item_sync'];
+    const { data: item, error } = await supabaseAdmin
+      .from('plaid_items')
+      .select('*')
+      .eq('id', plaidItemId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch plaid item: ${error.message}`);
+    }
+    // The connection was removed, or is a manual card with nothing to sync
+    if (!item || item.is_manual) {
+      return { skipped: true };
+    }
+
+    const result = await syncPlaidItem(item);
+    if (scheduled) {
+      await recordScheduledSyncOutcome(job, item.userId, result);
+      if (result.rateLimited) {
+        await deferScheduledSyncs();
+      }
+    }
+    // Retrying cannot fix a connection that needs the user to reconnect
+    if (result.status === 'error' && !result.requiresReconnection) {
+      throw new Error(result.error || 'Item sync failed');
+    }
+    return { ...result };
+  },
+
+  statement_refresh: async (job) => {
+    if (!job.user_id) {
+      throw new Error('Statement refresh job has no user');
+    }
+    const { creditCardId } = job.payload as JobPayloads['statement_refresh'];
+    const result = await refreshStatementCycles(job.user_id, { cardId: creditCardId });
+    return { ...result };
+  },
+
+  cycle_regeneration: async (job) => {
+    const { creditCardIds } = job.payload as JobPayloads['cycle_regeneration'];
+    await rebuildCardCycles(creditCardIds);
+    return { cardsProcessed: creditCardIds.length };
+  },
+};
+
+async function runJob(job: Job, workerId: string, summary: JobWorkerRunSummary): Promise<void> {
+  const handler = handlers[job.type] as JobHandler<JobType> | undefined;
+
+  // lease_jobs dead-letters jobs whose workers kept dying mid-lease; this
+  // catches any that were leased past their attempts anyway
+  if (!handler || job.attempts > job.max_attempts) {
+    const reason = handler ? 'Exceeded max attempts' : `No handler for job type ${job.type}`;
+    console.error(`Job ${job.id} (${job.type}) dead-lettered: ${reason}`);
+    if (await deadLetterJob(job, workerId, reason)) {
+      summary.dead++;
+    } else {
+      summary.lost++;
+    }
+    return;
+  }
+
+  try {
+    const result = await handler(job);
+    if (await completeJob(job, workerId, result)) {
+      summary.succeeded++;
+    } else {
+      summary.lost++;
+    }
+  } catch (error) {
+    console.error(`Job ${job.id} (${job.type}) attempt ${job.attempts} failed:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    const status = await failJob(job, workerId, message);
+    if (status === 'dead') summary.dead++;
+    else if (status === 'lost') summary.lost++;
+    else summary.retried++;
+  }
+}
+
+/**
+ * Lease and run jobs until the queue is empty or the time budget is spent.
+ * Safe to run from several places at once: the cron route, the kick after an
+ * enqueue and the local worker script all share the queue.
+ */
+export async function runJobWorker({
+  workerId = `worker-${crypto.randomUUID()}`,
+  timeBudgetMs = DEFAULT_TIME_BUDGET_MS,
+  batchSize = DEFAULT_BATCH_SIZE,
+  types,
+}: JobWorkerOptions = {}): Promise<JobWorkerRunSummary> {
+  const startedAt = Date.now();
+  const summary: JobWorkerRunSummary = { workerId, leased: 0, succeeded: 0, retried: 0, dead: 0, lost: 0 };
+
+  while (Date.now() - startedAt < timeBudgetMs) {
+    const jobs = await leaseJobs(workerId, { limit: batchSize, types });
+    if (jobs.length === 0) break;
+
+    summary.leased += jobs.length;
+    for (const job of jobs) {
+      try {
+        await runJob(job, workerId, summary);
+      } catch (error) {
+        // Recording the outcome failed; the lease expires and the job runs again
+        console.error(`Failed to record outcome of job ${job.id}:`, error);
+      }
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Work the queue once the current response has been sent, so freshly queued
+ * jobs start now instead of on the next cron tick. Call from a route handler.
+ */
+export function kickJobWorker(types?: JobType[]): void {
+  after(async () => {
+    try {
+      await runJobWorker({ types });
+    } catch (error) {
+      console.error('Post-enqueue job worker run failed:', error);
+    }
+  });
+}
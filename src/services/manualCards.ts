@@ -0,0 +1,286 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from '@/lib/supabase';
+import { calculateBillingCycles } from '@/utils/billingCycles';
+import { cycleDateRuleColumns, type ManualCardInput } from '@/utils/manualCards';
+import {
+  planStatementImport,
+  reconcileBalance,
+  type BalanceReconciliation,
+  type ExistingImportTransaction,
+  type ParsedStatement,
+  type PlannedImportTransaction,
+  type StatementParseError,
+} from '@/utils/statementImport';
+
+// Manual items are never synced; status keeps them out of the 'active' sync queries
+export const MANUAL_ITEM_STATUS = 'manual';
+
+const INSERT_CHUNK_SIZE = 500;
+const PAGE_SIZE = 1000;
+
+interface ManualCardRow {
+  id: string;
+  name: string;
+  plaidItemId: string;
+  balanceCurrent: number | null;
+  manualcreditlimit: number | null;
+  isoCurrencyCode: string | null;
+}
+
+export interface StatementImportResult {
+  imported: number;
+  duplicates: number;
+  errors: StatementParseError[];
+  reconciliation: BalanceReconciliation;
+  // First rows of each group, for the preview
+  sample: {
+    toImport: PlannedImportTransaction[];
+    duplicates: PlannedImportTransaction[];
+  };
+}
+
+/** The user's manual holder item, created on first use. */
+async function getOrCreateManualItem(userId: string): Promise<{ id: string }> {
+  const { data: existing, error: fetchError } = await supabaseAdmin
+    .from('plaid_items')
+    .select('id')
+    .eq('userId', userId)
+    .eq('is_manual', true)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch manual item: ${fetchError.message}`);
+  }
+  if (existing) return existing;
+
+  const item = {
+    id: crypto.randomUUID(),
+    userId,
+    itemId: `manual-${userId}`,
+    // Manual items have no Plaid access token
+    accessToken: '',
+    institutionId: null,
+    institutionName: 'Manual cards',
+    status: MANUAL_ITEM_STATUS,
+    is_manual: true,
+    updatedAt: new Date().toISOString(),
+  };
+  const { error: createError } = await supabaseAdmin
+    .from('plaid_items')
+    .insert(item);
+
+  if (createError) {
+    throw new Error(`Failed to create manual item: ${createError.message}`);
+  }
+  return { id: item.id };
+}
+
+/**
+ * Drop a card's stored cycles and calculate them again. Failures are logged,
+ * not thrown, so an import or refresh still succeeds.
+ */
+export async function rebuildCardCycles(creditCardIds: string[]): Promise<void> {
+  for (const creditCardId of creditCardIds) {
+    try {
+      await supabaseAdmin
+        .from('billing_cycles')
+        .delete()
+        .eq('creditCardId', creditCardId);
+      await calculateBillingCycles(creditCardId);
+    } catch (error) {
+      console.error(`Failed to rebuild billing cycles for card ${creditCardId}:`, error);
+    }
+  }
+}
+
+export async function createManualCard(userId: string, input: ManualCardInput) {
+  const item = await getOrCreateManualItem(userId);
+  const now = new Date().toISOString();
+
+  const card = {
+    id: crypto.randomUUID(),
+    plaidItemId: item.id,
+    accountId: `manual-${crypto.randomUUID()}`,
+    name: input.name,
+    officialName: null,
+    subtype: 'credit card',
+    mask: input.mask,
+    balanceCurrent: input.currentBalance,
+    balanceAvailable: input.creditLimit - input.currentBalance,
+    // The limit is a manual limit so the card's limit editor keeps working
+    balanceLimit: null,
+    manualcreditlimit: input.creditLimit,
+    ismanuallimit: true,
+    isoCurrencyCode: 'USD',
+    openDate: input.openDate,
+    ...cycleDateRuleColumns(input.cycle),
+    updatedAt: now,
+  };
+
+  const { data: created, error: createError } = await supabaseAdmin
+    .from('credit_cards')
+    .insert(card)
+    .select()
+    .single();
+
+  if (createError) {
+    throw new Error(`Failed to create manual card: ${createError.message}`);
+  }
+
+  if (input.apr !== null) {
+    const { error: aprError } = await supabaseAdmin
+      .from('aprs')
+      .insert({
+        id: crypto.randomUUID(),
+        creditCardId: card.id,
+        aprType: 'purchase_apr',
+        aprPercentage: input.apr,
+        balanceSubjectToApr: null,
+        interestChargeAmount: null,
+        updatedAt: now,
+      });
+
+    if (aprError) {
+      console.error(`Failed to store APR for manual card ${card.id}:`, aprError);
+    }
+  }
+
+  await rebuildCardCycles([card.id]);
+  return created;
+}
+
+/** A manual card owned by the user, or null. */
+async function getManualCard(userId: string, cardId: string): Promise<ManualCardRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('credit_cards')
+    .select('id, name, plaidItemId, balanceCurrent, manualcreditlimit, isoCurrencyCode, plaid_items!inner(userId, is_manual)')
+    .eq('id', cardId)
+    .eq('plaid_items.userId', userId)
+    .eq('plaid_items.is_manual', true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch card: ${error.message}`);
+  }
+  return data as ManualCardRow | null;
+}
+
+// Stable per card, so importing the same file twice produces the same ids
+function importTransactionId(cardId: string, importKey: string): string {
+  return `manual-${crypto.createHash('sha256').update(`${cardId}:${importKey}`).digest('hex').slice(0, 32)}`;
+}
+
+/**
+ * The card's stored transactions dated `from` to `to` (inclusive days), for
+ * duplicate detection. Statements can run to thousands of rows and PostgREST
+ * caps responses at 1000, so the range is read in pages.
+ */
+async function loadExistingTransactions(cardId: string, from: string, to: string): Promise<ExistingImportTransaction[]> {
+  const existing: ExistingImportTransaction[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('transactions')
+      .select('transactionId, date, amount, name')
+      .eq('creditCardId', cardId)
+      .gte('date', from)
+      .lte('date', `${to}T23:59:59.999Z`)
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch existing transactions: ${error.message}`);
+    }
+    existing.push(...((data || []) as ExistingImportTransaction[]).map(t => ({ ...t, amount: Number(t.amount) })));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return existing;
+}
+
+/**
+ * Import parsed statement rows into a manual card. Duplicates of stored
+ * transactions are skipped, the card balance is reconciled against the
+ * statement balance when one is known, and cycles are rebuilt. With `dryRun`
+ * nothing is written. Returns null when the card is not one of the user's
+ * manual cards.
+ */
+export async function importStatement(
+  userId: string,
+  cardId: string,
+  statement: ParsedStatement,
+  { statementBalance = null, dryRun = false }: { statementBalance?: number | null; dryRun?: boolean } = {}
+): Promise<StatementImportResult | null> {
+  const card = await getManualCard(userId, cardId);
+  if (!card) return null;
+
+  const dates = statement.transactions.map(t => t.date).sort();
+  const existing = dates.length > 0
+    ? await loadExistingTransactions(cardId, dates[0], dates[dates.length - 1])
+    : [];
+
+  const plan = planStatementImport(statement.transactions, existing, key => importTransactionId(cardId, key));
+  const reconciliation = reconcileBalance(
+    Number(card.balanceCurrent ?? 0),
+    plan.toImport,
+    statementBalance ?? statement.statementBalance
+  );
+  const result: StatementImportResult = {
+    imported: plan.toImport.length,
+    duplicates: plan.duplicates.length,
+    errors: statement.errors,
+    reconciliation,
+    sample: {
+      toImport: plan.toImport.slice(0, 20),
+      duplicates: plan.duplicates.slice(0, 20),
+    },
+  };
+  if (dryRun) return result;
+
+  const now = new Date().toISOString();
+  const rows = plan.toImport.map(t => ({
+    id: crypto.randomUUID(),
+    transactionId: t.transactionId,
+    plaidItemId: card.plaidItemId,
+    creditCardId: cardId,
+    amount: t.amount,
+    isoCurrencyCode: card.isoCurrencyCode || 'USD',
+    date: new Date(t.date).toISOString(),
+    authorizedDate: null,
+    name: t.name,
+    merchantName: t.merchantName,
+    category: t.category,
+    pending: false,
+    updatedAt: now,
+  }));
+
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    const { error: insertError } = await supabaseAdmin
+      .from('transactions')
+      .upsert(rows.slice(i, i + INSERT_CHUNK_SIZE), { onConflict: 'transactionId', ignoreDuplicates: true });
+
+    if (insertError) {
+      throw new Error(`Failed to import transactions: ${insertError.message}`);
+    }
+  }
+
+  const { error: cardError } = await supabaseAdmin
+    .from('credit_cards')
+    .update({
+      balanceCurrent: reconciliation.newBalance,
+      balanceAvailable: card.manualcreditlimit !== null ? card.manualcreditlimit - reconciliation.newBalance : null,
+      updatedAt: now,
+    })
+    .eq('id', cardId);
+
+  if (cardError) {
+    console.error(`Failed to update balance for manual card ${cardId}:`, cardError);
+  }
+
+  // lastSyncAt shows when the card's data last changed
+  await supabaseAdmin
+    .from('plaid_items')
+    .update({ lastSyncAt: now })
+    .eq('id', card.plaidItemId);
+
+  await rebuildCardCycles([cardId]);
+  return result;
+}
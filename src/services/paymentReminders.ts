@@ -0,0 +1,348 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import { escapeHtml, sendEmail } from '@/lib/email';
+import { isIssuerPaymentTransaction } from '@/utils/billingCycleEngine';
+import { resolveIssuerProfile, type IssuerProfile } from '@/utils/issuerProfiles';
+import { formatCurrency, formatDate } from '@/utils/format';
+
+export const DEFAULT_LEAD_DAYS = [7, 3, 1];
+const MAX_LEAD_DAYS = 30;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface CardReminderSetting {
+  creditCardId: string;
+  name: string;
+  mask: string | null;
+  nextPaymentDueDate: string | null;
+  enabled: boolean;
+  // null = use the user's default lead days
+  leadDays: number[] | null;
+}
+
+export interface ReminderSettings {
+  enabled: boolean;
+  defaultLeadDays: number[];
+  cards: CardReminderSetting[];
+}
+
+export interface ReminderRunSummary {
+  cardsChecked: number;
+  sent: number;
+  skippedPaid: number;
+  skippedAlreadySent: number;
+  skippedOptedOut: number;
+  failed: number;
+}
+
+interface ReminderCard {
+  id: string;
+  name: string;
+  mask: string | null;
+  nextPaymentDueDate: string;
+  lastStatementIssueDate: string | null;
+  lastStatementBalance: number | null;
+  minimumPaymentAmount: number | null;
+  plaid_items: { userId: string; institutionId: string | null; institutionName: string | null; is_manual: boolean | null };
+}
+
+// Keep whole days between 0 and 30, unique, largest first
+export function normalizeLeadDays(value: unknown): number[] {
+  if (!Array.isArray(value)) return [];
+  const days = value
+    .map(v => Number(v))
+    .filter(v => Number.isInteger(v) && v >= 0 && v <= MAX_LEAD_DAYS);
+  return [...new Set(days)].sort((a, b) => b - a);
+}
+
+// Whole calendar days from today (UTC) until a YYYY-MM-DD or ISO due date
+export function daysUntilDue(dueDate: string, now: Date): number {
+  const due = Date.parse(dueDate.split('T')[0]);
+  const today = Date.parse(now.toISOString().split('T')[0]);
+  return Math.round((due - today) / DAY_MS);
+}
+
+/**
+ * The lead time a reminder should be sent for today, or null.
+ * Picks the smallest lead time the due date is already inside, so a missed
+ * run still sends one (late) reminder instead of several at once.
+ */
+export function selectLeadDay(daysUntil: number, leadDays: number[]): number | null {
+  if (daysUntil < 0) return null;
+  const applicable = leadDays.filter(lead => daysUntil <= lead);
+  return applicable.length > 0 ? Math.min(...applicable) : null;
+}
+
+/**
+ * A statement counts as paid when Plaid reports no minimum due, there is no
+ * positive statement balance, or payments since the statement date cover it.
+ */
+export function isStatementBalancePaid(
+  card: Pick<ReminderCard, 'lastStatementBalance' | 'minimumPaymentAmount'>,
+  paymentsSinceStatement: { name: string; amount: number }[],
+  issuerProfile: IssuerProfile
+): boolean {
+  const statementBalance = Math.abs(card.lastStatementBalance || 0);
+  if (statementBalance === 0 || card.minimumPaymentAmount === 0) {
+    return true;
+  }
+
+  const totalPayments = paymentsSinceStatement
+    .filter(t => isIssuerPaymentTransaction(t.name, issuerProfile))
+    .reduce((sum, t) => sum + Math.abs(t.amount), 0);
+
+  // Allow $1 tolerance for rounding
+  return totalPayments >= statementBalance - 1;
+}
+
+export async function getReminderSettings(userId: string): Promise<ReminderSettings> {
+  const { data: preferences } = await supabaseAdmin
+    .from('reminder_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const { data: cards, error: cardsError } = await supabaseAdmin
+    .from('credit_cards')
+    .select('id, name, mask, nextPaymentDueDate, plaid_items!inner(userId)')
+    .eq('plaid_items.userId', userId);
+
+  if (cardsError) {
+    throw new Error(`Failed to fetch credit cards: ${cardsError.message}`);
+  }
+
+  const cardIds = (cards || []).map(card => card.id);
+  const { data: cardSettings } = cardIds.length > 0
+    ? await supabaseAdmin.from('card_reminder_settings').select('*').in('credit_card_id', cardIds)
+    : { data: [] };
+
+  const settingsMap = new Map((cardSettings || []).map(s => [s.credit_card_id, s]));
+
+  return {
+    enabled: preferences?.enabled ?? true,
+    defaultLeadDays: preferences?.default_lead_days?.length ? preferences.default_lead_days : DEFAULT_LEAD_DAYS,
+    cards: (cards || []).map(card => {
+      const setting = settingsMap.get(card.id);
+      return {
+        creditCardId: card.id,
+        name: card.name,
+        mask: card.mask,
+        nextPaymentDueDate: card.nextPaymentDueDate,
+        enabled: setting?.enabled ?? true,
+        leadDays: setting?.lead_days ?? null,
+      };
+    }),
+  };
+}
+
+export async function saveReminderSettings(
+  userId: string,
+  settings: { enabled: boolean; defaultLeadDays: number[]; cards: { creditCardId: string; enabled: boolean; leadDays: number[] | null }[] }
+): Promise<void> {
+  const { error: prefError } = await supabaseAdmin
+    .from('reminder_preferences')
+    .upsert({
+      user_id: userId,
+      enabled: settings.enabled,
+      default_lead_days: settings.defaultLeadDays,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'user_id' });
+
+  if (prefError) {
+    throw new Error(`Failed to save reminder preferences: ${prefError.message}`);
+  }
+
+  if (settings.cards.length === 0) {
+    return;
+  }
+
+  // Only accept settings for cards the user owns
+  const { data: ownedCards } = await supabaseAdmin
+    .from('credit_cards')
+    .select('id, plaid_items!inner(userId)')
+    .eq('plaid_items.userId', userId)
+    .in('id', settings.cards.map(c => c.creditCardId));
+
+  const ownedIds = new Set((ownedCards || []).map(card => card.id));
+  const rows = settings.cards
+    .filter(card => ownedIds.has(card.creditCardId))
+    .map(card => ({
+      credit_card_id: card.creditCardId,
+      enabled: card.enabled,
+      lead_days: card.leadDays,
+      updated_at: new Date().toISOString(),
+    }));
+
+  if (rows.length > 0) {
+    const { error: cardError } = await supabaseAdmin
+      .from('card_reminder_settings')
+      .upsert(rows, { onConflict: 'credit_card_id' });
+
+    if (cardError) {
+      throw new Error(`Failed to save card reminder settings: ${cardError.message}`);
+    }
+  }
+}
+
+function buildReminderEmail(card: ReminderCard, daysUntil: number) {
+  const dueText = daysUntil === 0 ? 'today' : daysUntil === 1 ? 'tomorrow' : `in ${daysUntil} days`;
+  const cardLabel = card.mask ? `${card.name} •••• ${card.mask}` : card.name;
+  const balance = card.lastStatementBalance ? formatCurrency(Math.abs(card.lastStatementBalance)) : null;
+  const minimum = card.minimumPaymentAmount ? formatCurrency(card.minimumPaymentAmount) : null;
+  const dueDate = formatDate(card.nextPaymentDueDate);
+  const dashboardUrl = `${process.env.NEXTAUTH_URL || 'https://www.cardcycle.app'}/dashboard`;
+
+  return {
+    subject: `Payment due ${dueText}: ${cardLabel}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #4f46e5; margin-bottom: 10px;">CardCycle</h1>
+          <p style="color: #666; font-size: 16px;">Your payment is due ${dueText}</p>
+        </div>
+
+        <div style="background: #f8fafc; border-radius: 8px; padding: 30px; margin-bottom: 20px;">
+          <h2 style="color: #1f2937; margin-bottom: 15px;">${escapeHtml(cardLabel)}</h2>
+          <p style="color: #374151; font-size: 14px;">Due date: <strong>${dueDate}</strong></p>
+          ${balance ? `<p style="color: #374151; font-size: 14px;">Statement balance: <strong>${balance}</strong></p>` : ''}
+          ${minimum ? `<p style="color: #374151; font-size: 14px;">Minimum payment: <strong>${minimum}</strong></p>` : ''}
+        </div>
+
+        <div style="text-align: center; color: #666; font-size: 12px;">
+          <p><a href="${dashboardUrl}" style="color: #4f46e5;">Open your dashboard</a></p>
+          <p>You can change reminder timing or turn reminders off in Account Settings.</p>
+        </div>
+      </div>
+    `,
+    text: `${cardLabel}: payment due ${dueText} (${dueDate}).` +
+      (balance ? `\nStatement balance: ${balance}` : '') +
+      (minimum ? `\nMinimum payment: ${minimum}` : '') +
+      `\n\nOpen your dashboard: ${dashboardUrl}\nYou can change reminder timing or turn reminders off in Account Settings.`,
+  };
+}
+
+/**
+ * Send every reminder that is due today. Safe to run repeatedly: each
+ * (card, due date, lead time) is claimed in payment_reminder_log before the
+ * email goes out, and the claim is released if the send fails.
+ */
+export async function sendDuePaymentReminders(now: Date = new Date()): Promise<ReminderRunSummary> {
+  const summary: ReminderRunSummary = {
+    cardsChecked: 0,
+    sent: 0,
+    skippedPaid: 0,
+    skippedAlreadySent: 0,
+    skippedOptedOut: 0,
+    failed: 0,
+  };
+
+  const today = now.toISOString().split('T')[0];
+  const horizon = new Date(now.getTime() + MAX_LEAD_DAYS * DAY_MS).toISOString().split('T')[0];
+
+  const { data: cards, error: cardsError } = await supabaseAdmin
+    .from('credit_cards')
+    .select('id, name, mask, nextPaymentDueDate, lastStatementIssueDate, lastStatementBalance, minimumPaymentAmount, plaid_items!inner(userId, institutionId, institutionName, is_manual)')
+    .gte('nextPaymentDueDate', today)
+    .lte('nextPaymentDueDate', horizon);
+
+  if (cardsError) {
+    throw new Error(`Failed to fetch cards with upcoming due dates: ${cardsError.message}`);
+  }
+
+  const reminderCards = (cards || []) as unknown as ReminderCard[];
+  if (reminderCards.length === 0) {
+    return summary;
+  }
+
+  const userIds = [...new Set(reminderCards.map(card => card.plaid_items.userId))];
+  const cardIds = reminderCards.map(card => card.id);
+
+  const [{ data: users }, { data: preferences }, { data: cardSettings }] = await Promise.all([
+    supabaseAdmin.from('users').select('id, email').in('id', userIds),
+    supabaseAdmin.from('reminder_preferences').select('*').in('user_id', userIds),
+    supabaseAdmin.from('card_reminder_settings').select('*').in('credit_card_id', cardIds),
+  ]);
+
+  const emailMap = new Map((users || []).map(u => [u.id, u.email]));
+  const preferenceMap = new Map((preferences || []).map(p => [p.user_id, p]));
+  const cardSettingsMap = new Map((cardSettings || []).map(s => [s.credit_card_id, s]));
+
+  for (const card of reminderCards) {
+    summary.cardsChecked++;
+    const userId = card.plaid_items.userId;
+    const preference = preferenceMap.get(userId);
+    const cardSetting = cardSettingsMap.get(card.id);
+    const email = emailMap.get(userId);
+
+    if (!email || preference?.enabled === false || cardSetting?.enabled === false) {
+      summary.skippedOptedOut++;
+      continue;
+    }
+
+    const leadDays = normalizeLeadDays(cardSetting?.lead_days ?? preference?.default_lead_days ?? DEFAULT_LEAD_DAYS);
+    const daysUntil = daysUntilDue(card.nextPaymentDueDate, now);
+    const leadDay = selectLeadDay(daysUntil, leadDays);
+    if (leadDay === null) {
+      continue;
+    }
+
+    // Skip cards whose statement balance is already paid
+    let paymentsSinceStatement: { name: string; amount: number }[] = [];
+    if (card.lastStatementIssueDate) {
+      const { data: payments } = await supabaseAdmin
+        .from('transactions')
+        .select('name, amount')
+        .eq('creditCardId', card.id)
+        .gt('date', card.lastStatementIssueDate);
+      paymentsSinceStatement = payments || [];
+    }
+
+    const issuerProfile = resolveIssuerProfile({
+      isManual: card.plaid_items.is_manual,
+      institutionId: card.plaid_items.institutionId,
+      institutionName: card.plaid_items.institutionName,
+      cardName: card.name,
+    });
+    if (isStatementBalancePaid(card, paymentsSinceStatement, issuerProfile)) {
+      summary.skippedPaid++;
+      continue;
+    }
+
+    const dueDate = card.nextPaymentDueDate.split('T')[0];
+
+    // Claim this reminder first - the unique key makes concurrent runs send at most once
+    const { data: claim, error: claimError } = await supabaseAdmin
+      .from('payment_reminder_log')
+      .insert({ user_id: userId, credit_card_id: card.id, due_date: dueDate, lead_days: leadDay })
+      .select('id')
+      .single();
+
+    if (claimError || !claim) {
+      if (claimError?.code === '23505') { // unique_violation
+        summary.skippedAlreadySent++;
+      } else {
+        console.error(`❌ Failed to claim reminder for card ${card.id}:`, claimError);
+        summary.failed++;
+      }
+      continue;
+    }
+
+    try {
+      const message = buildReminderEmail(card, daysUntil);
+      const emailId = await sendEmail({ to: email, ...message });
+
+      await supabaseAdmin
+        .from('payment_reminder_log')
+        .update({ email_id: emailId })
+        .eq('id', claim.id);
+
+      summary.sent++;
+      console.log(`📧 Payment reminder sent for ${card.name} (due ${dueDate}, ${leadDay}-day lead)`);
+    } catch (error) {
+      console.error(`❌ Failed to send payment reminder for ${card.name}:`, error);
+      // Release the claim so the next run can retry
+      await supabaseAdmin.from('payment_reminder_log').delete().eq('id', claim.id);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
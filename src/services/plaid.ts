@@ -1,6 +1,7 @@
 import { plaidClient } from '@/lib/plaid';
 import { supabaseAdmin } from '@/lib/supabase';
 import { encrypt, decrypt } from '@/lib/encryption';
+import { DEFAULT_ISSUER_PROFILE, resolveIssuerProfile, type IssuerProfile } from '@/utils/issuerProfiles';
 import { 
   TransactionsGetRequest,
   LiabilitiesGetRequest,
@@ -11,60 +12,54 @@ import {
   ItemPublicTokenExchangeRequest,
   ItemRemoveRequest,
   LinkTokenCreateRequestUpdate,
-  WebhookVerificationKeyGetRequest
+  WebhookVerificationKeyGetRequest,
+  TransactionsSyncRequest,
+  Transaction
 } from 'plaid';
 
+export interface TransactionsSyncResult {
+  added: number;
+  modified: number;
+  removed: number;
+  skipped: number;
+  unlinked: number;
+}
+
+// Accumulated /transactions/sync pages for one item
+interface TransactionsSyncChanges {
+  added: Transaction[];
+  modified: Transaction[];
+  removed: string[];
+  nextCursor: string | null;
+}
+
 export interface PlaidService {
   createLinkToken(userId: string, oauth_state_id?: string, institutionId?: string): Promise<string>;
   createUpdateLinkToken(userId: string, itemId: string): Promise<string>;
   exchangePublicToken(publicToken: string, userId: string): Promise<{ accessToken: string; itemId: string }>;
   removeItem(accessToken: string): Promise<void>;
   getAccounts(accessToken: string): Promise<any>;
-  getTransactions(accessToken: string, startDate: Date, endDate: Date, isCapitalOne?: boolean, isRobinhood?: boolean): Promise<any[]>;
+  getTransactions(accessToken: string, startDate: Date, endDate: Date, profile?: IssuerProfile): Promise<any[]>;
   getLiabilities(accessToken: string): Promise<any>;
   getBalances(accessToken: string): Promise<any>;
   getStatements(accessToken: string, accountId: string): Promise<any[]>;
   syncAccounts(accessToken: string, itemId: string): Promise<void>;
-  syncTransactions(plaidItemRecord: any, accessToken: string, cardId?: string): Promise<void>;
+  syncTransactions(plaidItemRecord: any, accessToken: string, cardId?: string): Promise<TransactionsSyncResult>;
   sync30DayTransactions(plaidItemRecord: any, accessToken: string, cardId?: string): Promise<void>;
   syncHistoricalTransactions(plaidItemRecord: any, accessToken: string, cutoffDate: Date): Promise<void>;
+  removeTransactions(plaidItemRecord: any, transactionIds: string[]): Promise<number>;
   forceReconnectionSync(accessToken: string, itemId: string, userId: string): Promise<{success: boolean, details: any}>;
 }
 
 class PlaidServiceImpl implements PlaidService {
-  private isCapitalOne(institutionName?: string, accountName?: string): boolean {
-    const capitalOneIndicators = ['capital one', 'quicksilver', 'venture', 'savor', 'spark'];
-    const institutionMatch = institutionName?.toLowerCase().includes('capital one') || false;
-    const accountMatch = capitalOneIndicators.some(indicator => 
-      accountName?.toLowerCase().includes(indicator)
-    ) || false;
-    
-    return institutionMatch || accountMatch;
-  }
-
-  private isRobinhood(institutionName?: string, accountName?: string): boolean {
-    const robinhoodIndicators = ['robinhood', 'rh'];
-    const institutionMatch = institutionName?.toLowerCase().includes('robinhood') || false;
-    const accountMatch = robinhoodIndicators.some(indicator => 
-      accountName?.toLowerCase().includes(indicator)
-    ) || false;
-    
-    return institutionMatch || accountMatch;
-  }
-
   async createLinkToken(userId: string, oauth_state_id?: string, institutionId?: string): Promise<string> {
     const isSandbox = process.env.PLAID_ENV === 'sandbox';
     
-    // Investment institutions (like Robinhood) that don't support liabilities product
-    const investmentInstitutions = ['ins_54']; // Robinhood
-    const isInvestmentInstitution = institutionId && investmentInstitutions.includes(institutionId);
-    
-    // For investment institutions, we can't use liabilities product
-    // We only use transactions to ensure credit card accounts are visible
-    // Investments product filters out credit cards in Plaid Link UI
-    const products = isInvestmentInstitution
-      ? ['transactions'] // Investment platforms: transactions only to see credit card accounts
-      : ['liabilities', 'transactions']; // Standard banks: liabilities includes balance
+    // The issuer profile decides the products; institutions without the liabilities
+    // product (investment platforms) request transactions only so their cards stay visible
+    const profile = resolveIssuerProfile({ institutionId });
+    const products = profile.products;
+    const isInvestmentInstitution = !products.includes('liabilities');
     
     console.log(`Creating link token with products:`, products);
     if (isInvestmentInstitution) {
@@ -82,7 +77,7 @@ class PlaidServiceImpl implements PlaidService {
       redirect_uri: 'https://www.cardcycle.app/api/plaid/callback', // Must match Plaid registration exactly
       webhook: process.env.APP_URL + '/api/webhooks/plaid',
       transactions: {
-        days_requested: 730, // Request 24 months of transaction history (Capital One will limit to 90 days)
+        days_requested: 730, // Request 24 months of transaction history (issuers with a historyDays limit return less)
       },
     };
     
@@ -268,28 +263,27 @@ class PlaidServiceImpl implements PlaidService {
     throw new Error('Max retries exceeded');
   }
 
-  async getTransactions(accessToken: string, startDate: Date, endDate: Date, isCapitalOne: boolean = false, isRobinhood: boolean = false): Promise<any[]> {
+  async getTransactions(accessToken: string, startDate: Date, endDate: Date, profile: IssuerProfile = DEFAULT_ISSUER_PROFILE): Promise<any[]> {
     try {
       console.log(`=== GET TRANSACTIONS DEBUG ===`);
       console.log('Date range:', startDate.toISOString().split('T')[0], 'to', endDate.toISOString().split('T')[0]);
-      console.log('Institution type passed:', isCapitalOne ? 'Capital One' : isRobinhood ? 'Robinhood' : 'Standard');
+      console.log('Issuer profile:', profile.name);
 
-      // Capital One-specific handling: limit to 90 days max
-      if (isCapitalOne) {
-        const maxDaysBack = 90;
-        const capitalOneStartDate = new Date();
-        capitalOneStartDate.setDate(capitalOneStartDate.getDate() - maxDaysBack);
+      // Issuers with a short history window return nothing older, so don't ask for it
+      if (profile.historyDays !== null) {
+        const historyStartDate = new Date();
+        historyStartDate.setDate(historyStartDate.getDate() - profile.historyDays);
         
-        // Use the later date (either requested start or Capital One limit)
-        if (startDate < capitalOneStartDate) {
-          console.log(`🔄 Capital One detected: Limiting start date from ${startDate.toISOString().split('T')[0]} to ${capitalOneStartDate.toISOString().split('T')[0]} (90-day limit)`);
-          startDate = capitalOneStartDate;
+        // Use the later date (either requested start or the issuer's limit)
+        if (startDate < historyStartDate) {
+          console.log(`🔄 ${profile.name}: Limiting start date from ${startDate.toISOString().split('T')[0]} to ${historyStartDate.toISOString().split('T')[0]} (${profile.historyDays}-day limit)`);
+          startDate = historyStartDate;
         }
       }
       
       // Use optimized chunking strategy with progressive fetching
       const allTransactions: any[] = [];
-      const chunkSize = isCapitalOne ? 60 : isRobinhood ? 30 : 90; // Use 30-day chunks for Robinhood to ensure complete monthly cycles
+      const chunkSize = profile.transactionChunkDays;
       
       let currentStart = new Date(startDate);
       
@@ -302,7 +296,7 @@ class PlaidServiceImpl implements PlaidService {
           currentEnd.setTime(endDate.getTime());
         }
         
-        console.log(`Fetching ${isCapitalOne ? 'Capital One' : isRobinhood ? 'Robinhood' : 'standard'} chunk: ${currentStart.toISOString().split('T')[0]} to ${currentEnd.toISOString().split('T')[0]}`);
+        console.log(`Fetching ${profile.name} chunk: ${currentStart.toISOString().split('T')[0]} to ${currentEnd.toISOString().split('T')[0]}`);
         
         // Implement pagination within each date chunk to get all transactions
         const chunkTransactions: any[] = [];
@@ -349,18 +343,12 @@ class PlaidServiceImpl implements PlaidService {
         
         allTransactions.push(...chunkTransactions);
         
-        // For Capital One, break after first successful call since they limit to 90 days total
-        if (isCapitalOne) {
-          console.log('🏁 Capital One: Single chunk completed due to 90-day limitation');
-          break;
-        }
-        
         // Move to next chunk
         currentStart = new Date(currentEnd);
         currentStart.setDate(currentStart.getDate() + 1);
       }
 
-      console.log(`✅ Successfully fetched ${allTransactions.length} transactions ${isCapitalOne ? '(Capital One 90-day limit applied)' : 'across all chunks'}`);
+      console.log(`✅ Successfully fetched ${allTransactions.length} transactions across all chunks${profile.historyDays !== null ? ` (${profile.historyDays}-day limit applied)` : ''}`);
       
       if (allTransactions.length > 0) {
         const dates = allTransactions.map(t => t.date).sort();
@@ -368,8 +356,8 @@ class PlaidServiceImpl implements PlaidService {
         const actualDays = Math.round((new Date(dates[dates.length - 1]).getTime() - new Date(dates[0]).getTime()) / (1000 * 60 * 60 * 24));
         console.log('Days of data retrieved:', actualDays);
         
-        if (isCapitalOne && actualDays < 85) {
-          console.warn(`⚠️ Capital One returned only ${actualDays} days of data (expected ~90 days)`);
+        if (profile.historyDays !== null && actualDays < profile.historyDays - 5) {
+          console.warn(`⚠️ ${profile.name} returned only ${actualDays} days of data (expected ~${profile.historyDays} days)`);
         }
       }
       
@@ -511,17 +499,18 @@ class PlaidServiceImpl implements PlaidService {
   async syncAccounts(accessToken: string, itemId: string): Promise<{ accountsProcessed: number; creditCardsFound: number }> {
     console.log(`🔄 Starting syncAccounts for itemId: ${itemId}`);
     
-    // First, check if this is a Robinhood account by fetching the item details
+    // First, resolve the issuer profile from the item's institution
     const itemResponse = await plaidClient.itemGet({ access_token: accessToken });
     const institutionId = itemResponse.data.item.institution_id;
-    const isRobinhood = institutionId === 'ins_54';
+    const itemProfile = resolveIssuerProfile({ institutionId });
+    const usesLiabilities = itemProfile.products.includes('liabilities');
     
-    console.log(`Institution ID: ${institutionId}, Is Robinhood: ${isRobinhood}`);
+    console.log(`Institution ID: ${institutionId}, issuer profile: ${itemProfile.id}`);
     
     let liabilitiesData: any = { accounts: [], liabilities: { credit: [] } };
     
-    // Always try to get standard liability data first (for non-Robinhood)
-    if (!isRobinhood) {
+    // Always try to get standard liability data first (for issuers with the liabilities product)
+    if (usesLiabilities) {
       try {
         liabilitiesData = await this.getLiabilities(accessToken);
       } catch (error) {
@@ -530,8 +519,8 @@ class PlaidServiceImpl implements PlaidService {
         liabilitiesData.accounts = accountsResponse.data.accounts || [];
       }
     } else {
-      // For Robinhood, just get accounts - we'll identify credit cards by negative balances
-      console.log('🏦 Robinhood detected - using accounts endpoint to find credit cards');
+      // Without liabilities, just get accounts - credit cards are identified by the profile's account rule
+      console.log(`🏦 ${itemProfile.name} has no liabilities product - using accounts endpoint to find credit cards`);
       const accountsResponse = await plaidClient.accountsGet({ access_token: accessToken });
       liabilitiesData.accounts = accountsResponse.data.accounts || [];
     }
@@ -563,14 +552,13 @@ class PlaidServiceImpl implements PlaidService {
     console.log(`🏦 Processing accounts for ${plaidItem.institutionName}`);
     console.log(`📊 Found ${liabilitiesData.accounts.length} accounts total`);
     
-    const isCapitalOneInstitution = this.isCapitalOne(plaidItem.institutionName);
     let creditCardCount = 0;
     let nonCreditCardCount = 0;
 
     for (const account of liabilitiesData.accounts) {
-      // For Robinhood, any account with negative balance is likely their credit card
-      // Robinhood Gold Card shows up as various account types but always has negative balance
-      const isRobinhoodCreditCard = isRobinhood && 
+      // Issuers like Robinhood report the card as an investment or other account that
+      // always has a negative balance
+      const isRobinhoodCreditCard = itemProfile.creditAccountRule === 'negative_balance' && 
         account.balances?.current && 
         account.balances.current < 0 &&
         (account.name?.toLowerCase().includes('gold') || 
@@ -728,12 +716,16 @@ class PlaidServiceImpl implements PlaidService {
         // Enhanced credit limit extraction with better Capital One support
         let creditLimit = null;
         
-        // Improved Capital One detection using helper method
-        const isCapitalOne = this.isCapitalOne(plaidItem.institutionName, account.name);
+        // Issuers that often omit the limit get the enhanced fallbacks below
+        const inferCreditLimit = resolveIssuerProfile({
+          institutionId,
+          institutionName: plaidItem.institutionName,
+          cardName: account.name,
+        }).inferCreditLimit;
         
-        console.log(`Processing ${account.name} - Capital One detected: ${isCapitalOne}`);
+        console.log(`Processing ${account.name} - credit limit inference: ${inferCreditLimit}`);
         
-        if (isCapitalOne && liability) {
+        if (inferCreditLimit && liability) {
           console.log('Capital One detected, using enhanced liability-first approach with comprehensive fallbacks...');
           console.log('Available liability fields:', Object.keys(liability));
           
@@ -829,7 +821,7 @@ class PlaidServiceImpl implements PlaidService {
           }
           
           // For Capital One specifically, try more aggressive calculation methods
-          if (isCapitalOne && (!creditLimit || creditLimit <= 0)) {
+          if (inferCreditLimit && (!creditLimit || creditLimit <= 0)) {
             console.log('Capital One fallback: trying aggressive calculation methods...');
             
             // Method 1: Try available credit calculation from any source
@@ -894,7 +886,7 @@ class PlaidServiceImpl implements PlaidService {
         // Enhanced debug logging for all data extraction
         console.log('=== COMPREHENSIVE PLAID API RESPONSE DEBUG for', account.name, '===');
         console.log('Institution:', plaidItem.institutionName);
-        console.log('Is Capital One:', isCapitalOne);
+        console.log('Credit limit inference:', inferCreditLimit);
         
         // Log liability response in detail for origination_date debugging
         if (liability) {
@@ -936,8 +928,8 @@ class PlaidServiceImpl implements PlaidService {
         console.log('Balance Account:', JSON.stringify(balanceAccount, null, 2));
         console.log('Accounts Account:', JSON.stringify(accountsAccount, null, 2));
         
-        if (isCapitalOne) {
-          console.log('=== CAPITAL ONE SPECIFIC DEBUG ===');
+        if (inferCreditLimit) {
+          console.log('=== CREDIT LIMIT INFERENCE DEBUG ===');
           console.log('All liability fields:', liability ? Object.keys(liability) : 'No liability data');
           console.log('All balance fields (balance account):', balanceAccount?.balances ? Object.keys(balanceAccount.balances) : 'No balance data');
           console.log('All balance fields (accounts account):', accountsAccount?.balances ? Object.keys(accountsAccount.balances) : 'No accounts data');
@@ -974,7 +966,7 @@ class PlaidServiceImpl implements PlaidService {
           : (balanceAccount?.balances?.available ?? accountsAccount?.balances?.available ?? account.balances.available);
 
         console.log('Balance extraction for', account.name, {
-          isCapitalOne,
+          inferCreditLimit,
           accountBalancesCurrent: account.balances.current,
           liabilityBalancesCurrent: liability?.balances?.current,
           finalCurrentBalance: currentBalance,
@@ -1142,6 +1134,15 @@ class PlaidServiceImpl implements PlaidService {
             }
           }
 
+          // Plaid rarely reports annual fees; keep detected or manually entered ones,
+          // and never let Plaid overwrite a fee the user typed in
+          if (!cardData.annualFee || existingCard.annual_fee_source === 'manual') {
+            delete updateData.annualFee;
+            delete updateData.annualFeeDueDate;
+          } else {
+            updateData.annual_fee_source = 'plaid';
+          }
+
           // Determine if Plaid data is valid
           const plaidLimitIsValid = updateData.balanceLimit && 
             updateData.balanceLimit > 0 && 
@@ -1219,6 +1220,7 @@ class PlaidServiceImpl implements PlaidService {
               ...(cardData.annualFeeDueDate && {
                 annualFeeDueDate: cardData.annualFeeDueDate.toISOString()
               }),
+              ...(cardData.annualFee && { annual_fee_source: 'plaid' }),
               // Initialize manual credit limit fields
               ismanuallimit: false,
               manualcreditlimit: null,
@@ -1307,22 +1309,18 @@ class PlaidServiceImpl implements PlaidService {
   /**
    * TRANSACTION ACCUMULATION STRATEGY:
    * 
-   * This method implements a "data accumulation" approach where we:
-   * 1. Fetch the maximum available transactions from Plaid API (12 months for standard banks, ~90 days for Capital One)
-   * 2. Use UPSERT operations to create new transactions or update existing ones
-   * 3. NEVER delete existing transactions, even if they fall outside the current API window
-   * 4. Over time, users accumulate more transaction history than the API can provide
-   * 
-   * Benefits:
-   * - Capital One users: Start with 90 days, but after 4 months have 4+ months of data
-   * - Standard banks: Start with 12 months, but after 13+ months have 13+ months of data  
-   * - No data loss when API limitations change or connections are refreshed
-   * - Users get increasingly valuable historical data for trends and analytics
+   * Full and regular syncs go through syncTransactions, which uses Plaid's
+   * cursor-based /transactions/sync:
+   * 1. The first sync for an item pulls everything Plaid has (days_requested at link time)
+   * 2. Later syncs only receive added/modified/removed changes since the stored cursor
+   * 3. Removals are applied only when Plaid reports them, so history older than
+   *    the institution's API window (e.g. Capital One's ~90 days) is preserved
    * 
    * Implementation:
-   * - Uses onConflict: 'transactionId' to ensure no duplicates
-   * - Only creates/updates, never deletes
-   * - Logs preserved vs new transaction counts for transparency
+   * - apply_transactions_sync upserts on 'transactionId', deletes removed ids and
+   *   advances plaid_items.transactions_cursor in a single database transaction
+   * - syncRecentTransactions still uses a date window so instant setup stays fast
+   *   and never moves the cursor
    */
 
   /**
@@ -1345,20 +1343,16 @@ class PlaidServiceImpl implements PlaidService {
       // Small delay to respect rate limits
       await this.delay(200);
       
-      const isCapitalOneItem = this.isCapitalOne(plaidItemRecord.institutionName);
-      const isRobinhoodItem = this.isRobinhood(plaidItemRecord.institutionName);
+      const profile = resolveIssuerProfile({
+        institutionId: plaidItemRecord.institutionId,
+        institutionName: plaidItemRecord.institutionName,
+      });
       const endDate = new Date();
       const startDate = new Date();
       
-      if (isCapitalOneItem) {
-        // Capital One: 3 months for recent sync
-        startDate.setMonth(startDate.getMonth() - 3);
-        console.log('⚡ Capital One: Requesting 3 months for instant setup');
-      } else {
-        // Standard institutions: Only 3 months for instant setup (vs 12 months for full sync)
-        startDate.setMonth(startDate.getMonth() - 3);
-        console.log('⚡ Standard institution: Requesting 3 months for instant setup (vs 12 for full sync)');
-      }
+      // Only 3 months for instant setup (vs 12 months for full sync)
+      startDate.setMonth(startDate.getMonth() - 3);
+      console.log(`⚡ ${profile.name}: Requesting 3 months for instant setup (vs 12 for full sync)`);
       
       console.log(`⚡ RECENT SYNC DATE RANGE: ${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`);
       
@@ -1369,8 +1363,7 @@ class PlaidServiceImpl implements PlaidService {
         accessToken,
         startDate,
         endDate,
-        isCapitalOneItem,
-        isRobinhoodItem
+        profile
         );
       } catch (e: any) {
         if (e?.response?.data?.error_code === 'PRODUCT_NOT_READY') {
@@ -1462,661 +1455,274 @@ class PlaidServiceImpl implements PlaidService {
     }
   }
 
-  async syncHistoricalTransactions(plaidItemRecord: any, accessToken: string, cutoffDate: Date): Promise<void> {
-    console.log('📜 HISTORICAL TRANSACTION SYNC (avoiding recent duplicates)', { 
-      itemId: plaidItemRecord.itemId, 
-      cutoffDate: cutoffDate.toISOString().split('T')[0] 
-    });
-    
-    // Validate access token format
-    if (!accessToken || typeof accessToken !== 'string' || accessToken.length < 10) {
-      throw new Error(`Invalid access token: ${accessToken ? 'too short' : 'missing'}`);
-    }
-    
-    try {
-      console.log(`📜 Starting HISTORICAL transaction sync for itemId: ${plaidItemRecord.itemId}`);
-      console.log(`📜 Only fetching transactions OLDER than: ${cutoffDate.toISOString().split('T')[0]}`);
-      
-      // Add delay to respect rate limits
-      await this.delay(500);
-      
-      const isCapitalOneItem = this.isCapitalOne(plaidItemRecord.institutionName);
-      const isRobinhoodItem = this.isRobinhood(plaidItemRecord.institutionName);
-      
-      // Set end date to cutoff date (don't fetch recent data that already exists)
-      const endDate = new Date(cutoffDate);
-      endDate.setDate(endDate.getDate() - 1); // Go back one day before cutoff to avoid overlap
-      
-      const startDate = new Date();
-      
-      if (isCapitalOneItem) {
-        // Capital One: 4 months back (will be limited by their 90-day rule anyway)
-        startDate.setMonth(startDate.getMonth() - 4);
-        console.log('📜 Capital One: Requesting historical data (up to 90-day limit)');
-      } else {
-        // Standard institutions: 12 months of historical data
-        startDate.setMonth(startDate.getMonth() - 12);
-        console.log('📜 Standard institution: Requesting 12 months of historical data');
-      }
-      
-      // Only proceed if there's actually historical data to fetch
-      if (endDate <= startDate) {
-        console.log('📜 No historical data to fetch (cutoff date is older than our max range)');
-        return;
-      }
-      
-      console.log(`📜 HISTORICAL SYNC DATE RANGE: ${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`);
-      
-      // Get transactions for historical period only
-      const transactions = await this.getTransactions(
-        accessToken,
-        startDate,
-        endDate,
-        isCapitalOneItem,
-        isRobinhoodItem
-      );
+  /**
+   * Pull every change since the item's stored cursor from /transactions/sync.
+   * Pages are accumulated in memory and only returned once has_more is false,
+   * so callers can apply the whole set (and the new cursor) atomically.
+   */
+  private async fetchTransactionsSince(accessToken: string, cursor: string | null): Promise<TransactionsSyncChanges> {
+    const maxRestarts = 3;
 
-      console.log(`📜 Got ${transactions.length} historical transactions (avoiding recent duplicates)`);
-      
-      if (transactions.length === 0) {
-        console.log('📜 No historical transactions found');
-        return;
-      }
-      
-      // Store the transactions using same logic as other sync methods
-      const { data: creditCards } = await supabaseAdmin
-        .from('credit_cards')
-        .select('id, accountId')
-        .eq('plaidItemId', plaidItemRecord.id);
+    for (let restart = 0; restart <= maxRestarts; restart++) {
+      const changes: TransactionsSyncChanges = { added: [], modified: [], removed: [], nextCursor: cursor };
+      let pageCursor = cursor;
+      let hasMore = true;
 
-      const accountToCardMap = new Map(
-        (creditCards || []).map(card => [card.accountId, card.id])
-      );
+      try {
+        while (hasMore) {
+          const request: TransactionsSyncRequest = {
+            access_token: accessToken,
+            count: 500,
+            options: {
+              include_personal_finance_category: true,
+            },
+          };
+          if (pageCursor) {
+            request.cursor = pageCursor;
+          }
+
+          const response = await this.retryWithBackoff(() => plaidClient.transactionsSync(request));
+          const page = response.data;
+
+          changes.added.push(...page.added);
+          changes.modified.push(...page.modified);
+          changes.removed.push(...page.removed.map(removed => removed.transaction_id).filter(Boolean) as string[]);
+          changes.nextCursor = page.next_cursor;
+
+          pageCursor = page.next_cursor;
+          hasMore = page.has_more;
+
+          console.log(`Sync page: +${page.added.length} ~${page.modified.length} -${page.removed.length} (has_more: ${hasMore})`);
+
+          if (hasMore) {
+            await this.delay(300); // 300ms between pagination requests
+          }
+        }
 
-      const transactionRecords = transactions.map(transaction => ({
-        transactionId: transaction.transaction_id,
-        creditCardId: accountToCardMap.get(transaction.account_id),
-        amount: transaction.amount,
-        date: transaction.date,
-        name: transaction.name,
-        merchantName: transaction.merchant_name,
-        category: transaction.personal_finance_category?.primary || 'OTHER',
-        pending: transaction.pending || false
-      })).filter(t => t.creditCardId);
+        return changes;
+      } catch (error: any) {
+        // Plaid asks us to restart the whole pagination loop from the original cursor
+        if (error?.response?.data?.error_code === 'TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION' && restart < maxRestarts) {
+          console.warn(`🔁 Transactions mutated during pagination, restarting from stored cursor (${restart + 1}/${maxRestarts})`);
+          await this.delay(1000);
+          continue;
+        }
+        throw error;
+      }
+    }
 
-      console.log(`📜 Storing ${transactionRecords.length} historical transactions`);
+    throw new Error('Transactions sync pagination kept mutating; giving up');
+  }
 
-      const { error: insertError } = await supabaseAdmin
+  // Attach rows stored before their account had a card to the card that now exists
+  private async linkUnlinkedTransactions(plaidItemId: string, accountToCardMap: Map<string, string>): Promise<void> {
+    for (const [accountId, creditCardId] of accountToCardMap) {
+      const { error } = await supabaseAdmin
         .from('transactions')
-        .upsert(transactionRecords, {
-          onConflict: 'transactionId',
-          ignoreDuplicates: false
-        });
+        .update({ creditCardId, updatedAt: new Date().toISOString() })
+        .eq('plaidItemId', plaidItemId)
+        .eq('accountid', accountId)
+        .is('creditCardId', null);
 
-      if (insertError) {
-        console.error('❌ Error storing historical transactions:', insertError);
-        throw insertError;
+      if (error) {
+        throw new Error(`Failed to link transactions to card ${creditCardId}: ${error.message}`);
       }
-      
-      console.log('✅ Historical transaction sync completed (no duplicates)');
-      
-    } catch (error: any) {
-      console.error('❌ Historical transaction sync failed:', error);
-      throw error;
     }
   }
 
-  async syncTransactions(plaidItemRecord: any, accessToken: string, cardId?: string): Promise<void> {
-    console.log('🚀 TRANSACTION SYNC METHOD CALLED!', { itemId: plaidItemRecord.itemId, hasAccessToken: !!accessToken, cardId: cardId || 'all cards' });
-    
+  // Map a Plaid transaction onto a transactions row
+  private toTransactionRecord(transaction: Transaction, plaidItemId: string, creditCardId: string | null, existingId?: string) {
+    // Use personal finance category if available, fall back to legacy category
+    let categoryName = null;
+    let categoryId = null;
+    let subcategory = null;
+
+    if (transaction.personal_finance_category) {
+      categoryName = transaction.personal_finance_category.primary;
+      categoryId = transaction.personal_finance_category.detailed;
+      subcategory = transaction.personal_finance_category.detailed;
+    } else if (transaction.category && transaction.category.length > 0) {
+      categoryName = transaction.category[0];
+      categoryId = transaction.category_id;
+      subcategory = transaction.category[1] || null;
+    }
+
+    return {
+      id: existingId || crypto.randomUUID(),
+      plaidItemId,
+      creditCardId,
+      transactionId: transaction.transaction_id,
+      accountid: transaction.account_id,
+      plaidtransactionid: transaction.transaction_id,
+      amount: transaction.amount,
+      isoCurrencyCode: transaction.iso_currency_code || null,
+      date: new Date(transaction.date).toISOString(),
+      authorizedDate: transaction.authorized_date
+        ? new Date(transaction.authorized_date).toISOString()
+        : null,
+      name: transaction.name,
+      merchantName: transaction.merchant_name || null,
+      category: categoryName,
+      categoryId: categoryId,
+      subcategory: subcategory,
+      accountOwner: transaction.account_owner || null,
+      pending: transaction.pending || false,
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * CURSOR-BASED TRANSACTION SYNC (/transactions/sync)
+   *
+   * Each plaid_items row stores the last next_cursor Plaid returned. A sync:
+   * 1. Pulls added/modified/removed sets since that cursor (full history when there is none)
+   * 2. Maps added + modified onto credit cards and validates amounts
+   * 3. Calls apply_transactions_sync, which upserts, deletes removed ids and
+   *    advances the cursor in one database transaction
+   *
+   * If anything fails the cursor is left untouched, so the next sync replays the same changes.
+   * Transactions are item-scoped in Plaid, so cardId only narrows logging, never the cursor.
+   */
+  async syncTransactions(plaidItemRecord: any, accessToken: string, cardId?: string): Promise<TransactionsSyncResult> {
+    console.log('🚀 CURSOR TRANSACTION SYNC', { itemId: plaidItemRecord.itemId, cardId: cardId || 'all cards' });
+
     // Validate access token format
     if (!accessToken || typeof accessToken !== 'string' || accessToken.length < 10) {
       throw new Error(`Invalid access token: ${accessToken ? 'too short' : 'missing'}`);
     }
-    
-    console.log(`✅ Access token validation passed: ${accessToken.substring(0, 10)}...${accessToken.substring(accessToken.length - 4)}`);
-    
+
     try {
-      console.log(`=== TRANSACTION SYNC START for itemId: ${plaidItemRecord.itemId} ===`);
-      console.log(`✅ Using passed plaidItem record - no DB lookup needed`);
-      
-      // Add small initial delay to avoid rate limiting if called too soon after other API calls
-      console.log('⏳ Adding pre-sync delay to respect rate limits...');
-      await this.delay(500); // 500ms delay before starting transaction sync
-      
-      // Determine if this is Capital One using institution name (no API call needed)
-      const isCapitalOneItem = this.isCapitalOne(plaidItemRecord.institutionName);
-      const isRobinhoodItem = this.isRobinhood(plaidItemRecord.institutionName);
-      console.log(`Institution type determined: ${isCapitalOneItem ? 'Capital One' : isRobinhoodItem ? 'Robinhood' : 'Standard'} (from institution name: ${plaidItemRecord.institutionName})`);
+      // Always read the cursor from the database - callers may hold a stale plaid_items record
+      const { data: cursorRow, error: cursorError } = await supabaseAdmin
+        .from('plaid_items')
+        .select('transactions_cursor')
+        .eq('id', plaidItemRecord.id)
+        .single();
 
-      const endDate = new Date();
-      const startDate = new Date();
-      
-      if (isCapitalOneItem) {
-        // Capital One: Request 4 months knowing they'll limit to ~90 days
-        startDate.setMonth(startDate.getMonth() - 4);
-        console.log('📍 Capital One detected: Requesting 4 months (will be limited to ~90 days)');
-      } else {
-        // Standard institutions: Request 12 months of transaction history
-        startDate.setMonth(startDate.getMonth() - 12);
-        console.log('📍 Standard institution: Requesting 12 months of transaction history');
+      if (cursorError) {
+        throw new Error(`Failed to read transactions cursor: ${cursorError.message}`);
       }
 
-      console.log(`=== TRANSACTION DATE RANGE DEBUG ===`);
-      console.log(`Institution: ${plaidItemRecord.institutionName}`);
-      console.log(`Is Capital One: ${isCapitalOneItem}`);
-      console.log(`Current date: ${new Date().toISOString()}`);
-      console.log(`Calculated start date: ${startDate.toISOString()}`);  
-      console.log(`Calculated end date: ${endDate.toISOString()}`);
-      console.log(`Requesting range: ${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`);
-      console.log(`Expected ${isCapitalOneItem ? 'days' : 'months'} back: ${isCapitalOneItem ? 90 : 12}`);
-      
-      // Validate date range
-      const now = new Date();
-      const maxPastDate = new Date();
-      maxPastDate.setFullYear(maxPastDate.getFullYear() - 1); // 12 months max
-      
-      if (startDate < maxPastDate) {
-        console.warn(`⚠️ Start date ${startDate.toISOString().split('T')[0]} is more than 12 months ago, adjusting to 12 months max`);
-        startDate.setTime(maxPastDate.getTime()); // Cap at 12 months ago
-        console.log(`🔧 Adjusted start date to 12 months ago: ${startDate.toISOString().split('T')[0]}`);
-      }
-      
-      if (endDate > now) {
-        console.warn(`⚠️ End date ${endDate.toISOString().split('T')[0]} is in the future, may cause 400 error`);
-        endDate.setTime(now.getTime()); // Cap at current time
-        console.log(`🔧 Adjusted end date to current time: ${endDate.toISOString().split('T')[0]}`);
-      }
-      
-      console.log(`=== END DATE RANGE DEBUG ===`);
+      const cursor: string | null = cursorRow?.transactions_cursor || null;
+      console.log(cursor ? '📍 Resuming from stored cursor' : '📍 No cursor yet - pulling full available history');
 
-      const transactions = await this.getTransactions(
-        accessToken,
-        startDate,
-        endDate,
-        isCapitalOneItem,
-        isRobinhoodItem
-      );
+      const changes = await this.fetchTransactionsSince(accessToken, cursor);
 
-      console.log(`=== TRANSACTION SYNC DEBUG ===`);
-      console.log(`Total transactions to process: ${transactions.length}`);
-      
-      if (transactions.length === 0) {
-        console.warn('No transactions returned from Plaid API - this might indicate an error');
-      } else {
-        // Show transaction date range for debugging
-        const sortedByDate = [...transactions].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-        const oldestTransaction = sortedByDate[0];
-        const newestTransaction = sortedByDate[sortedByDate.length - 1];
-        
-        console.log(`Transaction date range: ${oldestTransaction.date} to ${newestTransaction.date}`);
-        console.log(`Account breakdown:`, transactions.reduce((acc, t) => {
-          acc[t.account_id] = (acc[t.account_id] || 0) + 1;
-          return acc;
-        }, {}));
-      }
-      
-      let processedCount = 0;
-      let creditCardFoundCount = 0;
-      
-      // Batch fetch credit cards for this plaid item (optionally filtered by cardId)
-      const uniqueAccountIds = [...new Set(transactions.map(t => t.account_id))];
-      let query = supabaseAdmin
+      const { data: creditCards, error: creditCardsError } = await supabaseAdmin
         .from('credit_cards')
-        .select('*')
-        .in('accountId', uniqueAccountIds);
-      
-      if (cardId) {
-        query = query.eq('id', cardId);
-        console.log(`🎯 Filtering transactions for specific card: ${cardId}`);
-      }
-      
-      const { data: creditCards, error: creditCardsError } = await query;
-      
+        .select('id, accountId')
+        .eq('plaidItemId', plaidItemRecord.id);
+
       if (creditCardsError) {
-        console.error('Error fetching credit cards:', creditCardsError);
+        throw new Error(`Failed to fetch credit cards: ${creditCardsError.message}`);
       }
-      
-      // Create a map for quick lookup
-      const creditCardMap = new Map();
-      (creditCards || []).forEach(card => {
-        creditCardMap.set(card.accountId, card);
-      });
-      
-      // Batch fetch existing transactions to avoid N queries
-      // Use chunked queries to avoid Supabase .in() array size limits
-      const transactionIds = transactions.map(t => t.transaction_id);
+
+      const accountToCardMap = new Map<string, string>(
+        (creditCards || []).map(card => [card.accountId, card.id])
+      );
+      await this.linkUnlinkedTransactions(plaidItemRecord.id, accountToCardMap);
+
+      // Reuse existing row ids for modified transactions so references stay stable
+      const changedIds = [...changes.added, ...changes.modified].map(t => t.transaction_id);
+      const existingIdMap = new Map<string, string>();
       const chunkSize = 100; // Supabase safe limit for .in() queries
-      const existingTransactions = [];
-      let existingTransError = null;
-      
-      console.log(`Fetching existing transactions in ${Math.ceil(transactionIds.length / chunkSize)} chunks of ${chunkSize}`);
-      
-      for (let i = 0; i < transactionIds.length; i += chunkSize) {
-        const chunk = transactionIds.slice(i, i + chunkSize);
-        const { data: chunkData, error: chunkError } = await supabaseAdmin
+      for (let i = 0; i < changedIds.length; i += chunkSize) {
+        const { data: existingRows } = await supabaseAdmin
           .from('transactions')
-          .select('*')
-          .in('transactionId', chunk);
-        
-        if (chunkError) {
-          console.error(`Error fetching existing transactions chunk ${Math.floor(i/chunkSize) + 1}:`, chunkError);
-          existingTransError = chunkError;
-          break;
-        }
-        
-        if (chunkData) {
-          existingTransactions.push(...chunkData);
-        }
-      }
-      
-      if (existingTransError) {
-        console.error('Error fetching existing transactions:', existingTransError);
-        // For Robinhood or other investment platforms, don't fail the entire sync due to transaction fetch errors
-        // Continue with empty existing transactions map to allow card creation/update to proceed
-        console.warn('⚠️  Continuing sync with empty existing transactions map due to fetch error');
+          .select('id, transactionId')
+          .in('transactionId', changedIds.slice(i, i + chunkSize));
+        (existingRows || []).forEach(row => existingIdMap.set(row.transactionId, row.id));
       }
-      
-      // Create a map for quick lookup
-      const existingTransMap = new Map();
-      (existingTransactions || []).forEach(trans => {
-        existingTransMap.set(trans.transactionId, trans);
-      });
-      
-      console.log(`Processing ${transactions.length} transactions with batch queries`);
-      console.log(`Found ${creditCards?.length || 0} credit cards and ${existingTransactions?.length || 0} existing transactions`);
-
-      // Prepare batch operations
-      const transactionsToCreate = [];
-      const transactionsToUpdate = [];
-
-      for (const transaction of transactions) {
-        const creditCard = creditCardMap.get(transaction.account_id);
-        
-        // Debug transaction to credit card association
-        if (!creditCard) {
-          console.log('No credit card found for transaction:', {
-            transactionId: transaction.transaction_id,
-            accountId: transaction.account_id,
-            amount: transaction.amount,
-            date: transaction.date,
-            name: transaction.name
-          });
-        } else {
-          creditCardFoundCount++;
-        }
-
-        const existingTransaction = existingTransMap.get(transaction.transaction_id);
-
-        // For Capital One credit cards, handle transaction sign properly
-        // Plaid convention: positive = charges, negative = payments
-        // But for display purposes, we might want to show payments as positive
-        let adjustedAmount = transaction.amount;
-        
-        // Check if this is a Capital One payment (negative amount on credit card)
-        if (creditCard && transaction.amount < 0) {
-          const isCapitalOneCard = this.isCapitalOne(plaidItemRecord.institutionName, creditCard.name);
-          
-          // For debugging Capital One payments only (they have specific behavior)
-          if (isCapitalOneCard) {
-            console.log('Capital One payment detected:', {
-              transactionName: transaction.name,
-              originalAmount: transaction.amount,
-              cardName: creditCard.name,
-              institution: plaidItemRecord.institutionName,
-              isPaymentTransaction: transaction.amount < 0
-            });
-          }
-          
-          // Keep the original Plaid sign convention for now
-          // The UI can decide whether to display payments as positive or negative
-          adjustedAmount = transaction.amount;
-        }
-
-        // Validate transaction amount before processing
-        if (!this.validateTransactionAmount(adjustedAmount, transaction.name)) {
-          console.error(`Skipping invalid transaction: ${transaction.name} with amount: ${adjustedAmount}`);
-          continue;
-        }
 
-        // Use personal finance category if available, fall back to legacy category
-        let categoryName = null;
-        let categoryId = null;
-        let subcategory = null;
-        
-        if (transaction.personal_finance_category) {
-          // New personal finance category structure
-          categoryName = transaction.personal_finance_category.primary;
-          categoryId = transaction.personal_finance_category.detailed;
-          // Use detailed as subcategory for more specificity
-          subcategory = transaction.personal_finance_category.detailed;
-        } else if (transaction.category && transaction.category.length > 0) {
-          // Fall back to legacy category structure
-          categoryName = transaction.category[0];
-          categoryId = transaction.category_id;
-          subcategory = transaction.category[1] || null;
+      let skippedCount = 0;
+      let unlinkedCount = 0;
+      const upserts = [...changes.added, ...changes.modified].flatMap(transaction => {
+        if (!this.validateTransactionAmount(transaction.amount, transaction.name)) {
+          skippedCount++;
+          return [];
         }
-        
-        const transactionData = {
-          amount: adjustedAmount,
-          accountid: transaction.account_id,
-          plaidtransactionid: transaction.transaction_id,
-          isoCurrencyCode: transaction.iso_currency_code,
-          date: new Date(transaction.date).toISOString(),
-          authorizedDate: transaction.authorized_date 
-            ? new Date(transaction.authorized_date).toISOString()
-            : null,
-          name: transaction.name,
-          merchantName: transaction.merchant_name,
-          category: categoryName,
-          categoryId: categoryId,
-          subcategory: subcategory,
-          accountOwner: transaction.account_owner,
-          pending: transaction.pending || false,
-        };
-
-        // Debug: Log category info for sample transactions
-        if (Math.random() < 0.1) { // Log ~10% of transactions to avoid spam
-          console.log(`🏷️ CATEGORY DEBUG for ${transaction.name}:`, {
-            personalFinanceCategory: transaction.personal_finance_category,
-            legacyCategory: transaction.category,
-            extractedCategory: categoryName,
-            categoryId: categoryId,
-            subcategory: subcategory,
-            hasCategory: !!categoryName
-          });
+        const creditCardId = accountToCardMap.get(transaction.account_id) ?? null;
+        if (!creditCardId) {
+          unlinkedCount++;
         }
+        return [this.toTransactionRecord(transaction, plaidItemRecord.id, creditCardId, existingIdMap.get(transaction.transaction_id))];
+      });
 
-        // Prepare transaction for upsert (create or update)
-        const transactionForUpsert = {
-          id: existingTransaction?.id || crypto.randomUUID(),
-          ...transactionData,
-          transactionId: transaction.transaction_id,
-          plaidItemId: plaidItemRecord.id,
-          creditCardId: creditCard?.id || null,
-          updatedAt: new Date().toISOString(),
-        };
+      const { data: applied, error: applyError } = await supabaseAdmin.rpc('apply_transactions_sync', {
+        p_plaid_item_id: plaidItemRecord.id,
+        p_upserts: upserts,
+        p_removed: changes.removed,
+        p_cursor: changes.nextCursor,
+      });
 
-        if (existingTransaction) {
-          transactionsToUpdate.push(transactionForUpsert);
-        } else {
-          transactionsToCreate.push(transactionForUpsert);
-        }
-        
-        processedCount++;
+      if (applyError) {
+        console.error('❌ Failed to apply transactions sync - cursor not advanced:', applyError);
+        throw applyError;
       }
 
-      // Execute optimized batch operations using upsert
-      const allTransactionsForUpsert = [...transactionsToCreate, ...transactionsToUpdate];
-      console.log(`Executing batch upsert for ${allTransactionsForUpsert.length} transactions (${transactionsToCreate.length} new, ${transactionsToUpdate.length} existing)`);
-      
-      // SAFETY CHECK: Ensure we're only upserting, never bulk deleting transactions
-      // This preserves historical data that may no longer be available from the API
-      console.log(`🛡️ SAFETY: Using upsert-only strategy - no transaction deletions during sync`);
-      
-      if (allTransactionsForUpsert.length > 0) {
-        // Use upsert to handle both creates and updates in a single operation
-        // Log first transaction for debugging
-        if (allTransactionsForUpsert.length > 0) {
-          console.log('🔍 Sample transaction data being upserted:', JSON.stringify(allTransactionsForUpsert[0], null, 2));
-        }
-        
-        const { error: upsertError, count } = await supabaseAdmin
-          .from('transactions')
-          .upsert(allTransactionsForUpsert, { 
-            onConflict: 'transactionId',
-            count: 'exact'
-          });
+      const result: TransactionsSyncResult = {
+        added: changes.added.length,
+        modified: changes.modified.length,
+        removed: applied?.removed ?? changes.removed.length,
+        skipped: skippedCount,
+        unlinked: unlinkedCount,
+      };
 
-        if (upsertError) {
-          console.error('Failed to upsert transactions in batch:', upsertError);
-          
-          // Fallback to individual operations if batch fails
-          console.log('Falling back to individual transaction processing...');
-          let successCount = 0;
-          let errorCount = 0;
-          
-          for (const transaction of allTransactionsForUpsert) {
-            const { error: individualError } = await supabaseAdmin
-              .from('transactions')
-              .upsert([transaction], { onConflict: 'transactionId' });
-              
-            if (individualError) {
-              console.error(`Failed to process transaction ${transaction.name}:`, individualError);
-              errorCount++;
-            } else {
-              successCount++;
-            }
-          }
-          console.log(`Fallback completed: ${successCount} successful, ${errorCount} failed`);
-        } else {
-          console.log(`Successfully upserted ${count || allTransactionsForUpsert.length} transactions in single batch operation`);
-        }
-      }
-      
-      // Get count of existing transactions older than our API window for preservation reporting
-      const preservationCutoffDate = new Date(startDate);
-      const { count: preservedTransactionCount } = await supabaseAdmin
-        .from('transactions')
-        .select('*', { count: 'exact', head: true })
-        .eq('plaidItemId', plaidItemRecord.id)
-        .lt('date', preservationCutoffDate.toISOString());
-
-      console.log(`=== TRANSACTION SYNC SUMMARY ===`);
-      console.log(`📊 TRANSACTION ACCUMULATION STRATEGY:`);
-      console.log(`   • API Window: ${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`);
-      console.log(`   • ${isCapitalOneItem ? 'Capital One (90-day API limit)' : 'Standard institution (12-month fetch)'}`);
-      console.log(`   • Preserved older transactions: ${preservedTransactionCount || 0} (outside API window)`);
-      console.log(`   • New/updated from API: ${processedCount} transactions processed`);
-      console.log(`📈 SYNC RESULTS:`);
-      console.log(`   • Total transactions processed from API: ${processedCount}`);
-      console.log(`   • Transactions with credit card match: ${creditCardFoundCount}`);
-      console.log(`   • Transactions without credit card match: ${processedCount - creditCardFoundCount}`);
-      console.log(`   • New transactions created: ${transactionsToCreate.length}`);
-      console.log(`   • Existing transactions updated: ${transactionsToUpdate.length}`);
-      console.log(`💡 ACCUMULATION BENEFIT: Users retain ${preservedTransactionCount || 0} older transactions that Plaid can no longer provide`);
-      console.log(`=== END TRANSACTION SYNC DEBUG ===`);
-      
-    } catch (error) {
+      console.log(`=== CURSOR SYNC SUMMARY ===`);
+      console.log(`   • Added: ${result.added}, Modified: ${result.modified}, Removed: ${result.removed}`);
+      console.log(`   • Skipped (invalid amount): ${result.skipped}`);
+      console.log(`   • Stored without a card (account not synced yet): ${result.unlinked}`);
+      console.log(`=== END CURSOR SYNC ===`);
+
+      return result;
+    } catch (error: any) {
       console.error('=== TRANSACTION SYNC ERROR ===');
       console.error('Error in syncTransactions:', error);
-      console.error('Stack trace:', error.stack);
       console.error('=== END TRANSACTION SYNC ERROR ===');
       throw error; // Re-throw to propagate error up
     }
   }
 
   /**
-   * 30-DAY TRANSACTION SYNC for regular refreshes
-   * 
-   * This method implements a "refresh" strategy where we:
-   * 1. Delete existing transactions in the 30-day window
-   * 2. Fetch fresh transactions from Plaid API (last 30 days only)
-   * 3. Insert fresh transactions
-   * 4. Preserve historical transactions outside the 30-day window
-   * 
-   * Benefits:
-   * - Reduced API costs by limiting to 30 days
-   * - Fresh, accurate data for recent transactions
-   * - Preserves historical data beyond API limitations
-   * - Consistent with individual card sync behavior
+   * Regular refresh. With cursor sync there is no window to re-pull: the
+   * incremental sync already contains every change Plaid has seen since the
+   * last refresh, including removals.
    */
   async sync30DayTransactions(plaidItemRecord: any, accessToken: string, cardId?: string): Promise<void> {
-    console.log('🔄 30-DAY TRANSACTION SYNC for regular refresh', { itemId: plaidItemRecord.itemId, cardId: cardId || 'all cards' });
-    
-    try {
-      // Determine institution type
-      const isCapitalOneItem = this.isCapitalOne(plaidItemRecord.institutionName);
-      const isRobinhoodItem = this.isRobinhood(plaidItemRecord.institutionName);
-      console.log(`Institution type: ${isCapitalOneItem ? 'Capital One' : isRobinhoodItem ? 'Robinhood' : 'Standard'}`);
-
-      // Calculate 30-day window
-      const endDate = new Date();
-      const startDate = new Date();
-      startDate.setDate(startDate.getDate() - 30);
-      
-      console.log(`📅 30-day sync window: ${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`);
-
-      // Step 1: Get credit cards for this Plaid item (optionally filtered by cardId)
-      let query = supabaseAdmin
-        .from('credit_cards')
-        .select('*')
-        .eq('plaidItemId', plaidItemRecord.id);
-      
-      if (cardId) {
-        query = query.eq('id', cardId);
-      }
-      
-      const { data: creditCards, error: creditCardsError } = await query;
-
-      if (creditCardsError) {
-        throw new Error(`Failed to fetch credit cards: ${creditCardsError.message}`);
-      }
-
-      const creditCardIds = (creditCards || []).map(card => card.id);
-      console.log(`Found ${creditCardIds.length} credit cards for 30-day sync ${cardId ? '(filtered by cardId)' : '(all cards)'}`);
-
-      // Step 2: Delete existing transactions in the 30-day window
-      if (creditCardIds.length > 0) {
-        console.log(`🗑️ Deleting existing transactions in 30-day window...`);
-        
-        const { error: deleteError, count: deletedCount } = await supabaseAdmin
-          .from('transactions')
-          .delete()
-          .in('creditCardId', creditCardIds)
-          .gte('date', startDate.toISOString().split('T')[0])
-          .lte('date', endDate.toISOString().split('T')[0]);
-
-        if (deleteError) {
-          console.error('Error deleting transactions in 30-day window:', deleteError);
-          throw deleteError;
-        }
-        
-        console.log(`🗑️ Deleted ${deletedCount || 0} existing transactions in 30-day window`);
-      }
-
-      // Step 3: Fetch fresh transactions from Plaid
-      console.log(`📶 Fetching fresh 30-day transactions from Plaid...`);
-      const transactions = await this.getTransactions(
-        accessToken,
-        startDate,
-        endDate,
-        isCapitalOneItem,
-        isRobinhoodItem
-      );
-
-      console.log(`✅ Fetched ${transactions.length} fresh transactions from Plaid`);
-
-      if (transactions.length === 0) {
-        console.log(`🚫 No transactions found in 30-day window`);
-        return;
-      }
-
-      // Step 4: Prepare transactions for insertion
-      const creditCardMap = new Map();
-      (creditCards || []).forEach(card => {
-        creditCardMap.set(card.accountId, card);
-      });
-
-      const transactionsToInsert: any[] = [];
-      let creditCardFoundCount = 0;
-
-      for (const transaction of transactions) {
-        const creditCard = creditCardMap.get(transaction.account_id);
-        
-        if (!creditCard) {
-          console.log('No credit card found for transaction:', {
-            transactionId: transaction.transaction_id,
-            accountId: transaction.account_id,
-            amount: transaction.amount,
-            date: transaction.date,
-            name: transaction.name
-          });
-          continue;
-        }
-        
-        creditCardFoundCount++;
-
-        // Validate transaction amount
-        if (!this.validateTransactionAmount(transaction.amount, transaction.name)) {
-          console.error(`Skipping invalid transaction: ${transaction.name} with amount: ${transaction.amount}`);
-          continue;
-        }
-
-        // Process category information
-        let categoryName = null;
-        let categoryId = null;
-        let subcategory = null;
-        
-        if (transaction.personal_finance_category) {
-          categoryName = transaction.personal_finance_category.primary;
-          categoryId = transaction.personal_finance_category.detailed;
-          subcategory = transaction.personal_finance_category.detailed;
-        } else if (transaction.category && transaction.category.length > 0) {
-          categoryName = transaction.category[0];
-          categoryId = transaction.category_id;
-          if (transaction.category.length > 1) {
-            subcategory = transaction.category[1];
-          }
-        }
-
-        const transactionRecord = {
-          id: crypto.randomUUID(),
-          plaidItemId: plaidItemRecord.id,
-          creditCardId: creditCard.id,
-          transactionId: transaction.transaction_id,
-          accountid: transaction.account_id,
-          plaidtransactionid: transaction.pending_transaction_id || null,
-          amount: transaction.amount,
-          isoCurrencyCode: transaction.iso_currency_code || null,
-          date: transaction.date,
-          authorizedDate: transaction.authorized_date || null,
-          name: transaction.name,
-          merchantName: transaction.merchant_name || null,
-          category: categoryName,
-          categoryId: categoryId,
-          subcategory: subcategory,
-          accountOwner: transaction.account_owner || null,
-          pending: transaction.pending || false,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        };
-
-        transactionsToInsert.push(transactionRecord);
-      }
+    await this.syncTransactions(plaidItemRecord, accessToken, cardId);
+  }
 
-      // Step 5: Insert fresh transactions
-      if (transactionsToInsert.length > 0) {
-        console.log(`💾 Inserting ${transactionsToInsert.length} fresh transactions...`);
-        
-        const { error: insertError } = await supabaseAdmin
-          .from('transactions')
-          .insert(transactionsToInsert);
+  /**
+   * Historical backfill. The first cursor sync for an item returns its full
+   * available history, so this only matters for items that have no cursor yet.
+   */
+  async syncHistoricalTransactions(plaidItemRecord: any, accessToken: string, cutoffDate: Date): Promise<void> {
+    console.log('📜 Historical sync requested', { itemId: plaidItemRecord.itemId, cutoffDate: cutoffDate.toISOString().split('T')[0] });
+    await this.syncTransactions(plaidItemRecord, accessToken);
+  }
 
-        if (insertError) {
-          console.error('Error inserting fresh transactions:', insertError);
-          throw insertError;
-        }
+  /**
+   * Apply a TRANSACTIONS_REMOVED webhook. Cursor syncs report removals
+   * themselves; this covers items whose removal arrived via the legacy webhook.
+   */
+  async removeTransactions(plaidItemRecord: any, transactionIds: string[]): Promise<number> {
+    if (transactionIds.length === 0) {
+      return 0;
+    }
 
-        console.log(`✅ Successfully inserted ${transactionsToInsert.length} fresh transactions`);
-      }
+    const { error, count } = await supabaseAdmin
+      .from('transactions')
+      .delete({ count: 'exact' })
+      .eq('plaidItemId', plaidItemRecord.id)
+      .in('transactionId', transactionIds);
 
-      // Summary
-      console.log(`=== 30-DAY SYNC SUMMARY ===`);
-      console.log(`📅 Sync Window: ${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`);
-      console.log(`📋 Credit Cards: ${creditCardIds.length}`);
-      console.log(`📶 API Transactions: ${transactions.length}`);
-      console.log(`✅ Matched Transactions: ${creditCardFoundCount}`);
-      console.log(`💾 Inserted Transactions: ${transactionsToInsert.length}`);
-      console.log(`=== END 30-DAY SYNC ===`);
-      
-    } catch (error) {
-      console.error('=== 30-DAY TRANSACTION SYNC ERROR ===');
-      console.error('Error in sync30DayTransactions:', error);
-      console.error('Stack trace:', error.stack);
-      console.error('=== END 30-DAY SYNC ERROR ===');
+    if (error) {
+      console.error('Error removing transactions:', error);
       throw error;
     }
+
+    console.log(`🗑️ Removed ${count || 0} transactions for item ${plaidItemRecord.itemId}`);
+    return count || 0;
   }
 
   async createUpdateLinkToken(userId: string, itemId: string): Promise<string> {
@@ -6,6 +6,12 @@ import {
   Statement
 } from 'plaid';
 import { supabaseAdmin } from '@/lib/supabase';
+import {
+  parseStatementPdf,
+  MIN_STATEMENT_CONFIDENCE,
+  STATEMENT_PARSER_VERSION,
+  type ExtractedStatementFields,
+} from '@/utils/statementExtractors';
 
 interface StatementDates {
   statementDate: Date;
@@ -20,8 +26,12 @@ export interface StatementPeriod {
   statementId: string;
   startDate: Date | null; // null for most recent if predecessor unknown
   endDate: Date; // statement closing/issue date
-  dateSource: 'posted' | 'derived';
+  dateSource: 'posted' | 'derived' | 'parsed';
   dueDate?: Date | null; // parsed from PDF when available
+  statementBalance?: number | null;
+  minimumPayment?: number | null;
+  source?: string | null; // e.g. 'pdf:chase' when fields came from the statement PDF
+  confidence?: number | null;
 }
 
 /**
@@ -287,7 +297,7 @@ export async function updateRobinhoodFromStatements(
 }
 
 /**
- * Download and parse statement PDF (optional - for more detailed extraction)
+ * Download a statement PDF as raw bytes
  */
 export async function downloadStatementPDF(
   accessToken: string,
@@ -301,13 +311,12 @@ export async function downloadStatementPDF(
       statement_id: statementId
     };
     
-    const response = await plaidClient.statementsDownload(request);
+    // Without an arraybuffer response type axios decodes the PDF as a UTF-8 string and corrupts it
+    const response = await plaidClient.statementsDownload(request, { responseType: 'arraybuffer' });
     
-    // The response contains the PDF as a buffer
-    // You would need a PDF parser to extract specific fields
     console.log('✅ Statement PDF downloaded');
     
-    return response.data as any; // Type assertion needed as Plaid types might not be complete
+    return Buffer.from(response.data as ArrayBuffer);
     
   } catch (error) {
     console.error('Error downloading statement:', error);
@@ -315,17 +324,86 @@ export async function downloadStatementPDF(
   }
 }
 
+/**
+ * Parsed fields for one statement, cached in statement_extractions so each
+ * PDF is downloaded and parsed once per parser version.
+ * Returns null when the PDF could not be downloaded or has no text.
+ */
+export async function getStatementExtraction(
+  accessToken: string,
+  statementId: string,
+  context: { plaidItemId?: string; accountId: string; institutionName?: string | null }
+): Promise<ExtractedStatementFields | null> {
+  if (context.plaidItemId) {
+    const { data: cached } = await supabaseAdmin
+      .from('statement_extractions')
+      .select('*')
+      .eq('statement_id', statementId)
+      .eq('parser_version', STATEMENT_PARSER_VERSION)
+      .maybeSingle();
+
+    if (cached) {
+      return cached.text_found ? {
+        issuer: cached.issuer,
+        statementBalance: cached.statement_balance,
+        minimumPayment: cached.minimum_payment,
+        dueDate: cached.due_date ? new Date(cached.due_date) : null,
+        closingDate: cached.closing_date ? new Date(cached.closing_date) : null,
+        openingDate: cached.opening_date ? new Date(cached.opening_date) : null,
+        confidence: Number(cached.confidence),
+      } : null;
+    }
+  }
+
+  const pdf = await downloadStatementPDF(accessToken, statementId);
+  if (!pdf) return null;
+
+  const extraction = parseStatementPdf(pdf, context.institutionName);
+  console.log(`📄 Parsed statement ${statementId}: ${extraction ? `${extraction.issuer}, ${(extraction.confidence * 100).toFixed(0)}% confidence` : 'no text found'}`);
+
+  if (context.plaidItemId) {
+    const toDay = (date: Date | null | undefined) => date ? date.toISOString().split('T')[0] : null;
+    const { error } = await supabaseAdmin
+      .from('statement_extractions')
+      .upsert({
+        statement_id: statementId,
+        plaid_item_id: context.plaidItemId,
+        account_id: context.accountId,
+        parser_version: STATEMENT_PARSER_VERSION,
+        text_found: !!extraction,
+        issuer: extraction?.issuer ?? null,
+        statement_balance: extraction?.statementBalance ?? null,
+        minimum_payment: extraction?.minimumPayment ?? null,
+        due_date: toDay(extraction?.dueDate),
+        closing_date: toDay(extraction?.closingDate),
+        opening_date: toDay(extraction?.openingDate),
+        confidence: extraction?.confidence ?? 0,
+        parsed_at: new Date().toISOString(),
+      }, { onConflict: 'statement_id' });
+
+    if (error) {
+      console.warn(`Failed to cache statement extraction ${statementId}:`, error);
+    }
+  }
+
+  return extraction;
+}
+
 /**
  * List statement periods (end dates and derived start dates) for a specific account
  * - endDate prefers statement.date_posted if present; otherwise derives from year/month
  * - startDate is derived as (next statement's endDate + 1 day). For the newest statement,
  *   startDate may be null if no predecessor exists (caller may choose how to handle).
+ * - Each statement PDF is parsed with the issuer extractors; confident results replace
+ *   the closing date and add due date, statement balance and minimum payment.
+ *   Pass plaidItemId to cache extractions so PDFs are only downloaded once.
  */
 export async function listStatementPeriods(
   accessToken: string,
   accountId: string,
   monthsBack: number = 13,
-  issuerName?: string
+  issuerName?: string,
+  plaidItemId?: string
 ): Promise<StatementPeriod[]> {
   // Compute date range for listing
   const end = new Date();
@@ -375,94 +453,42 @@ export async function listStatementPeriods(
     };
   });
 
-  // Enrich with PDF-parsed dates when helpful: fill newest startDate (opening date) and dueDate for historical
-  try {
-    // Helper: normalize PDF text
-    const normalize = (buf: Buffer) =>
-      buf.toString('utf8').replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, ' ').replace(/\s+/g, ' ').trim();
+  // Enrich from the statement PDFs: opening date for the newest period, plus
+  // due date, balance, minimum payment and closing date for every period
+  for (let i = 0; i < periods.length; i++) {
+    const period = periods[i];
+    try {
+      const extraction = await getStatementExtraction(accessToken, period.statementId, {
+        plaidItemId,
+        accountId,
+        institutionName: issuerName,
+      });
+      if (!extraction || extraction.confidence < MIN_STATEMENT_CONFIDENCE) continue;
 
-    const tryParseDate = (str?: string | null): Date | null => {
-      if (!str) return null;
-      // Try native Date first for named months
-      const d1 = new Date(str);
-      if (!isNaN(d1.getTime())) return d1;
-      // Try mm/dd/yyyy or mm-dd-yyyy
-      const m = str.match(/\b(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})\b/);
-      if (m) {
-        const mm = parseInt(m[1], 10) - 1;
-        const dd = parseInt(m[2], 10);
-        const yy = parseInt(m[3], 10);
-        const yyyy = yy < 100 ? 2000 + yy : yy;
-        const dt = new Date(yyyy, mm, dd);
-        return isNaN(dt.getTime()) ? null : dt;
+      if (extraction.closingDate) {
+        period.endDate = extraction.closingDate;
+        period.dateSource = 'parsed';
       }
-      return null;
-    };
-
-    const parseFromText = (text: string) => {
-      const findings: { opening?: Date; closing?: Date; due?: Date } = {};
-      const patterns: Array<{ key: 'opening' | 'closing' | 'due'; re: RegExp[] }> = [
-        {
-          key: 'closing',
-          re: [
-            /(statement\s+closing\s+date|closing\s+date|cycle\s+end)[:\-\s]*([A-Za-z]{3,9}\s+\d{1,2},\s*\d{4}|\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/i,
-            /(statement\s+date)[:\-\s]*([A-Za-z]{3,9}\s+\d{1,2},\s*\d{4}|\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/i,
-          ],
-        },
-        {
-          key: 'opening',
-          re: [
-            /(opening\s+date|cycle\s+start)[:\-\s]*([A-Za-z]{3,9}\s+\d{1,2},\s*\d{4}|\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/i,
-            /(statement\s+period)[:\-\s]*([A-Za-z]{3,9}\s+\d{1,2},\s*\d{4}|\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})\s*(?:to|-|–|—)\s*([A-Za-z]{3,9}\s+\d{1,2},\s*\d{4}|\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/i,
-          ],
-        },
-        {
-          key: 'due',
-          re: [
-            /(payment\s+due\s+date|due\s+date)[:\-\s]*([A-Za-z]{3,9}\s+\d{1,2},\s*\d{4}|\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/i,
-          ],
-        },
-      ];
-      for (const p of patterns) {
-        for (const re of p.re) {
-          const m = text.match(re);
-          if (m) {
-            if (p.key === 'opening' && re.source.includes('statement\\s+period') && m[2] && m[3]) {
-              const o = tryParseDate(m[2]);
-              const c = tryParseDate(m[3]);
-              if (o) findings.opening = o;
-              if (c) findings.closing = c;
-              break;
-            }
-            const d = tryParseDate(m[m.length - 1]);
-            if (d) {
-              findings[p.key] = d;
-              break;
-            }
-          }
-        }
+      if (i === 0 && !period.startDate && extraction.openingDate) {
+        period.startDate = extraction.openingDate;
       }
-      return findings;
-    };
+      period.dueDate = extraction.dueDate;
+      period.statementBalance = extraction.statementBalance;
+      period.minimumPayment = extraction.minimumPayment;
+      period.source = `pdf:${extraction.issuer}`;
+      period.confidence = extraction.confidence;
+    } catch (error) {
+      console.warn(`Statement PDF parsing failed for ${period.statementId}; keeping heuristic dates:`, error);
+    }
+  }
 
-    // Try newest (index 0) if it lacks startDate; also parse due dates for all
-    for (let i = 0; i < periods.length; i++) {
-      const p = periods[i];
-      const needsOpening = i === 0 && !p.startDate;
-      const wantsDueDate = true;
-      if (!needsOpening && !wantsDueDate) continue;
-      try {
-        const pdf = await downloadStatementPDF(accessToken, p.statementId);
-        if (!pdf) continue;
-        const text = normalize(pdf);
-        const found = parseFromText(text);
-        if (needsOpening && found.opening) p.startDate = found.opening;
-        if (wantsDueDate && found.due) p.dueDate = found.due;
-        // If closing not posted and found, prefer it
-        if ((withEnds[i].dateSource === 'derived') && found.closing) p.endDate = found.closing;
-      } catch {}
+  // Parsed closing dates may shift boundaries; re-derive start dates from the older neighbour
+  for (let i = 0; i < periods.length - 1; i++) {
+    if (periods[i].dateSource === 'parsed' || periods[i + 1].dateSource === 'parsed') {
+      const older = periods[i + 1].endDate;
+      periods[i].startDate = new Date(Date.UTC(older.getUTCFullYear(), older.getUTCMonth(), older.getUTCDate() + 1));
     }
-  } catch {}
+  }
 
   return periods;
 }
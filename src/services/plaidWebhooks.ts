@@ -0,0 +1,278 @@
+/**
+ * Plaid webhook handlers. The webhook route verifies and journals each
+ * delivery (services/webhookEvents.ts); these do the actual work and are also
+ * run by retries and admin replays, so they must be safe to run more than
+ * once for the same event. Cursor syncs and deletes by id already are.
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import { plaidService } from '@/services/plaid';
+import { decrypt } from '@/lib/encryption';
+
+export interface PlaidWebhookBody {
+  webhook_type?: string;
+  webhook_code?: string;
+  item_id?: string;
+  error?: unknown;
+  removed_transactions?: string[];
+}
+
+export async function handlePlaidWebhook(body: PlaidWebhookBody): Promise<void> {
+  const { webhook_type, webhook_code, item_id, error } = body;
+
+  if (error) {
+    // Kept in the journal's raw body; there is nothing to sync
+    console.error('Plaid webhook error:', error);
+    return;
+  }
+  if (!webhook_code || !item_id) {
+    console.log(`Webhook without code or item ignored: ${webhook_type}`);
+    return;
+  }
+
+  switch (webhook_type) {
+    case 'TRANSACTIONS':
+      await handleTransactionWebhook(webhook_code, item_id, body);
+      break;
+    case 'LIABILITIES':
+      await handleLiabilitiesWebhook(webhook_code, item_id);
+      break;
+    case 'ITEM':
+      await handleItemWebhook(webhook_code, item_id);
+      break;
+    default:
+      console.log(`Unhandled webhook type: ${webhook_type}`);
+  }
+}
+
+async function handleTransactionWebhook(webhookCode: string, itemId: string, body: { removed_transactions?: string[] }) {
+  switch (webhookCode) {
+    case 'SYNC_UPDATES_AVAILABLE': {
+      console.log(`Processing SYNC_UPDATES_AVAILABLE for item: ${itemId}`);
+
+      const plaidItem = await getPlaidItemForWebhook(itemId, 'TRANSACTIONS', webhookCode);
+      if (!plaidItem) {
+        return; // Return successfully - don't let orphaned items break webhook processing
+      }
+
+      // Cursor syncs only pull changes since the last sync, so no staleness check is needed
+      const decryptedAccessToken = decrypt(plaidItem.accessToken);
+      const result = await plaidService.syncTransactions(plaidItem, decryptedAccessToken);
+
+      try {
+        await supabaseAdmin.from('user_sync_telemetry').insert({
+          user_id: plaidItem.userId,
+          event: 'webhook_cursor_sync',
+          details: { itemId, webhookCode, ...result }
+        });
+      } catch {}
+      break;
+    }
+    case 'INITIAL_UPDATE':
+    case 'HISTORICAL_UPDATE':
+    case 'DEFAULT_UPDATE': {
+      console.log(`Processing transaction update for item: ${itemId}`);
+      
+      const plaidItem = await getPlaidItemForWebhook(itemId, 'TRANSACTIONS', webhookCode);
+      if (!plaidItem) {
+        return; // Return successfully - don't let orphaned items break webhook processing
+      }
+
+      // Once an item has a cursor Plaid also sends SYNC_UPDATES_AVAILABLE for the same
+      // changes, so the legacy codes only bootstrap items that have never cursor-synced
+      if (plaidItem.transactions_cursor) {
+        console.log(`⏭️ Legacy ${webhookCode} ignored for ${plaidItem.institutionName} - item syncs via cursor`);
+        return;
+      }
+
+      // Check if we've synced this item recently (within 12 hours) to avoid unnecessary API calls
+      const lastSyncDate = plaidItem.lastSyncAt ? new Date(plaidItem.lastSyncAt) : null;
+      const twelveHoursAgo = new Date();
+      twelveHoursAgo.setHours(twelveHoursAgo.getHours() - 12);
+      
+      if (lastSyncDate && lastSyncDate > twelveHoursAgo) {
+        const hoursAgo = Math.round((Date.now() - lastSyncDate.getTime()) / (1000 * 60 * 60));
+        console.log(`⏭️ Webhook sync skipped for ${plaidItem.institutionName} - item was synced ${hoursAgo}h ago (less than 12h)`);
+        console.log(`📊 Webhook type: ${webhookCode}, Item: ${itemId}`);
+        console.log(`🕐 Last sync: ${lastSyncDate.toISOString()}, Current time: ${new Date().toISOString()}`);
+        
+        // Log telemetry for skipped webhook sync
+        try {
+          await supabaseAdmin.from('user_sync_telemetry').insert({
+            user_id: plaidItem.userId,
+            event: 'webhook_sync_skipped',
+            details: { 
+              itemId, 
+              webhookCode, 
+              lastSyncAt: lastSyncDate.toISOString(),
+              hoursAgo,
+              reason: '12_hour_staleness_check'
+            }
+          });
+        } catch {}
+        
+        return; // Skip sync - data is fresh enough
+      }
+
+      console.log(`✅ Webhook sync proceeding - data is stale (${lastSyncDate ? 'last synced ' + Math.round((Date.now() - lastSyncDate.getTime()) / (1000 * 60 * 60)) + 'h ago' : 'never synced'})`);
+
+      // Decrypt the access token before using it
+      const decryptedAccessToken = decrypt(plaidItem.accessToken);
+      await plaidService.syncTransactions(plaidItem, decryptedAccessToken);
+      break;
+    }
+    case 'TRANSACTIONS_REMOVED': {
+      const removedIds: string[] = body?.removed_transactions || [];
+      console.log(`Transactions removed for item: ${itemId} (${removedIds.length} ids)`);
+
+      const plaidItem = await getPlaidItemForWebhook(itemId, 'TRANSACTIONS', webhookCode);
+      if (!plaidItem) {
+        return;
+      }
+
+      await plaidService.removeTransactions(plaidItem, removedIds);
+      break;
+    }
+    default:
+      console.log(`Unhandled transaction webhook code: ${webhookCode}`);
+  }
+}
+
+// Look up the plaid item a webhook refers to, logging orphaned items for cleanup
+async function getPlaidItemForWebhook(itemId: string, webhookType: string, webhookCode: string) {
+  const { data: plaidItem, error } = await supabaseAdmin
+    .from('plaid_items')
+    .select('*')
+    .eq('itemId', itemId)
+    .single();
+
+  if (error || !plaidItem) {
+    console.error(`❌ ORPHANED ITEM DETECTED: No Plaid item found for itemId: ${itemId}`, error);
+    console.log(`🧹 ORPHANED ITEM: ${itemId} - webhook type: ${webhookType}, code: ${webhookCode}`);
+    console.log(`📋 CLEANUP NEEDED: Item ${itemId} should be removed from Plaid system`);
+
+    await logOrphanedItem(itemId, webhookType, webhookCode);
+    return null;
+  }
+
+  return plaidItem;
+}
+
+async function handleLiabilitiesWebhook(webhookCode: string, itemId: string) {
+  switch (webhookCode) {
+    case 'DEFAULT_UPDATE':
+      console.log(`Processing liabilities update for item: ${itemId}`);
+      const { data: plaidItem, error } = await supabaseAdmin
+        .from('plaid_items')
+        .select('*')
+        .eq('itemId', itemId)
+        .single();
+      
+      if (error || !plaidItem) {
+        console.error(`❌ ORPHANED ITEM DETECTED: No Plaid item found for itemId: ${itemId}`, error);
+        console.log(`🧹 ORPHANED ITEM: ${itemId} - webhook type: LIABILITIES, code: ${webhookCode}`);
+        console.log(`📋 CLEANUP NEEDED: Item ${itemId} should be removed from Plaid system`);
+        
+        await logOrphanedItem(itemId, 'LIABILITIES', webhookCode);
+        return; // Return successfully - don't let orphaned items break webhook processing
+      }
+
+      // Check if we've synced this item recently (within 12 hours) to avoid unnecessary API calls
+      const lastSyncDate = plaidItem.lastSyncAt ? new Date(plaidItem.lastSyncAt) : null;
+      const twelveHoursAgo = new Date();
+      twelveHoursAgo.setHours(twelveHoursAgo.getHours() - 12);
+      
+      if (lastSyncDate && lastSyncDate > twelveHoursAgo) {
+        const hoursAgo = Math.round((Date.now() - lastSyncDate.getTime()) / (1000 * 60 * 60));
+        console.log(`⏭️ Liabilities webhook sync skipped for ${plaidItem.institutionName} - item was synced ${hoursAgo}h ago (less than 12h)`);
+        console.log(`📊 Webhook type: LIABILITIES, Code: ${webhookCode}, Item: ${itemId}`);
+        console.log(`🕐 Last sync: ${lastSyncDate.toISOString()}, Current time: ${new Date().toISOString()}`);
+        
+        // Log telemetry for skipped webhook sync
+        try {
+          await supabaseAdmin.from('user_sync_telemetry').insert({
+            user_id: plaidItem.userId,
+            event: 'webhook_liabilities_sync_skipped',
+            details: { 
+              itemId, 
+              webhookCode, 
+              lastSyncAt: lastSyncDate.toISOString(),
+              hoursAgo,
+              reason: '12_hour_staleness_check'
+            }
+          });
+        } catch {}
+        
+        return; // Skip sync - data is fresh enough
+      }
+
+      console.log(`✅ Liabilities webhook sync proceeding - data is stale (${lastSyncDate ? 'last synced ' + Math.round((Date.now() - lastSyncDate.getTime()) / (1000 * 60 * 60)) + 'h ago' : 'never synced'})`);
+
+      // Decrypt the access token before using it
+      const decryptedAccessToken = decrypt(plaidItem.accessToken);
+      await plaidService.syncAccounts(decryptedAccessToken, itemId);
+      break;
+    default:
+      console.log(`Unhandled liabilities webhook code: ${webhookCode}`);
+  }
+}
+
+async function handleItemWebhook(webhookCode: string, itemId: string) {
+  switch (webhookCode) {
+    case 'ERROR':
+      console.log(`Item error for: ${itemId}`);
+      const { error: updateError } = await supabaseAdmin
+        .from('plaid_items')
+        .update({ updatedAt: new Date().toISOString() })
+        .eq('itemId', itemId);
+      
+      if (updateError) {
+        console.error('Error updating plaid item:', updateError);
+      }
+      break;
+    case 'PENDING_EXPIRATION':
+      console.log(`Item pending expiration: ${itemId}`);
+      break;
+    case 'USER_PERMISSION_REVOKED':
+      console.log(`User permission revoked for item: ${itemId}`);
+      const { error: deleteError } = await supabaseAdmin
+        .from('plaid_items')
+        .delete()
+        .eq('itemId', itemId);
+      
+      if (deleteError) {
+        console.error('Error deleting plaid item:', deleteError);
+      }
+      break;
+    default:
+      console.log(`Unhandled item webhook code: ${webhookCode}`);
+  }
+}
+
+// Function to log orphaned items for cleanup
+async function logOrphanedItem(itemId: string, webhookType: string, webhookCode: string) {
+  try {
+    console.log(`📝 Logging orphaned item for cleanup: ${itemId}`);
+    
+    // Create a log entry in the database for later cleanup
+    // This could be a dedicated table or just detailed logging
+    const orphanedItemLog = {
+      itemId: itemId,
+      webhookType: webhookType,
+      webhookCode: webhookCode,
+      detectedAt: new Date().toISOString(),
+      status: 'needs_cleanup'
+    };
+    
+    // For now, just log it. In the future, you could store this in a dedicated table
+    console.log(`🗃️  ORPHANED ITEM LOG:`, orphanedItemLog);
+    
+    // Optional: Store in database table for tracking
+    // await supabaseAdmin
+    //   .from('orphaned_items')
+    //   .upsert(orphanedItemLog, { onConflict: 'itemId' });
+    
+  } catch (error) {
+    console.error(`Failed to log orphaned item ${itemId}:`, error);
+  }
+}
@@ -0,0 +1,242 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import {
+  bestCardsByCategory,
+  computeTransactionRewards,
+  summarizeRewards,
+  type BestCardForCategory,
+  type RewardPeriodSummary,
+  type RewardProgram,
+  type RewardProgramInput,
+  type TransactionReward,
+} from '@/utils/rewards';
+import { DEFAULT_REWARD_PROGRAM, matchCatalogCard } from '@/utils/rewardsCatalog';
+import { getSpendTransactions } from '@/services/spendTransactions';
+import { formatDate } from '@/utils/format';
+
+// saved = edited by the user; catalog = seeded from a name match; default = flat 1%
+export type RewardProgramSource = 'saved' | 'catalog' | 'default';
+
+export interface CardRewardProgram {
+  creditCardId: string;
+  name: string;
+  mask: string | null;
+  source: RewardProgramSource;
+  program: RewardProgram;
+}
+
+export interface CardRewardsSummary extends CardRewardProgram {
+  // Last 12 months
+  spend: number;
+  earned: number;
+  value: number;
+  months: RewardPeriodSummary[];
+  cycles: RewardPeriodSummary[];
+}
+
+export interface RewardsSummary {
+  cards: CardRewardsSummary[];
+  bestCards: BestCardForCategory[];
+}
+
+interface RewardProgramRow {
+  credit_card_id: string;
+  catalog_id: string | null;
+  currency: RewardProgram['currency'];
+  point_value_cents: number | string;
+  base_rate: number | string;
+  multipliers: RewardProgram['multipliers'];
+  rotating_rate: number | string | null;
+  rotating_cap_amount: number | string | null;
+  rotating_quarters: RewardProgram['rotatingQuarters'];
+}
+
+interface RewardCard {
+  id: string;
+  name: string;
+  officialName: string | null;
+  mask: string | null;
+}
+
+const SUMMARY_MONTHS = 6;
+const SUMMARY_CYCLES = 3;
+
+function fromRow(row: RewardProgramRow): RewardProgram {
+  return {
+    catalogId: row.catalog_id,
+    currency: row.currency,
+    // numeric columns come back as strings
+    pointValueCents: Number(row.point_value_cents),
+    baseRate: Number(row.base_rate),
+    multipliers: row.multipliers || [],
+    rotatingRate: row.rotating_rate !== null ? Number(row.rotating_rate) : null,
+    rotatingCapAmount: row.rotating_cap_amount !== null ? Number(row.rotating_cap_amount) : null,
+    rotatingQuarters: row.rotating_quarters || [],
+  };
+}
+
+function resolveProgram(card: RewardCard, row: RewardProgramRow | undefined): CardRewardProgram {
+  const base = { creditCardId: card.id, name: card.name, mask: card.mask };
+  if (row) {
+    return { ...base, source: 'saved', program: fromRow(row) };
+  }
+  const catalogCard = matchCatalogCard(card.name, card.officialName);
+  if (catalogCard) {
+    return { ...base, source: 'catalog', program: { ...catalogCard.program, catalogId: catalogCard.id } };
+  }
+  return { ...base, source: 'default', program: { ...DEFAULT_REWARD_PROGRAM, catalogId: null } };
+}
+
+async function loadCards(userId: string, creditCardId?: string): Promise<RewardCard[]> {
+  let query = supabaseAdmin
+    .from('credit_cards')
+    .select('id, name, officialName, mask, plaid_items!inner(userId)')
+    .eq('plaid_items.userId', userId);
+  if (creditCardId) {
+    query = query.eq('id', creditCardId);
+  }
+
+  const { data: cards, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch credit cards: ${error.message}`);
+  }
+  return (cards || []) as unknown as RewardCard[];
+}
+
+/** Every card's program: saved by the user, seeded from the catalog, or the default. */
+export async function getCardRewardPrograms(userId: string): Promise<CardRewardProgram[]> {
+  const cards = await loadCards(userId);
+  if (cards.length === 0) {
+    return [];
+  }
+
+  const { data: rows, error } = await supabaseAdmin
+    .from('card_reward_programs')
+    .select('*')
+    .in('credit_card_id', cards.map(card => card.id));
+
+  if (error) {
+    throw new Error(`Failed to fetch reward programs: ${error.message}`);
+  }
+
+  const rowMap = new Map(((rows || []) as RewardProgramRow[]).map(row => [row.credit_card_id, row]));
+  return cards.map(card => resolveProgram(card, rowMap.get(card.id)));
+}
+
+/** Returns null when the card does not belong to the user. */
+export async function saveRewardProgram(
+  userId: string,
+  creditCardId: string,
+  program: RewardProgramInput,
+  catalogId: string | null
+): Promise<CardRewardProgram | null> {
+  const [card] = await loadCards(userId, creditCardId);
+  if (!card) {
+    return null;
+  }
+
+  const { data: row, error } = await supabaseAdmin
+    .from('card_reward_programs')
+    .upsert({
+      credit_card_id: creditCardId,
+      catalog_id: catalogId,
+      currency: program.currency,
+      point_value_cents: program.pointValueCents,
+      base_rate: program.baseRate,
+      multipliers: program.multipliers,
+      rotating_rate: program.rotatingRate,
+      rotating_cap_amount: program.rotatingCapAmount,
+      rotating_quarters: program.rotatingQuarters,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'credit_card_id' })
+    .select()
+    .single();
+
+  if (error || !row) {
+    throw new Error(`Failed to save reward program: ${error?.message || 'No data returned'}`);
+  }
+
+  return resolveProgram(card, row as RewardProgramRow);
+}
+
+/** Drop the user's edits so the card falls back to its catalog match. Returns null when the card is not theirs. */
+export async function resetRewardProgram(userId: string, creditCardId: string): Promise<CardRewardProgram | null> {
+  const [card] = await loadCards(userId, creditCardId);
+  if (!card) {
+    return null;
+  }
+
+  const { error } = await supabaseAdmin
+    .from('card_reward_programs')
+    .delete()
+    .eq('credit_card_id', creditCardId);
+
+  if (error) {
+    throw new Error(`Failed to reset reward program: ${error.message}`);
+  }
+
+  return resolveProgram(card, undefined);
+}
+
+function recentMonths(now: Date): { label: string; start: Date; end: Date }[] {
+  return Array.from({ length: SUMMARY_MONTHS }, (_, i) => {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1));
+    const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i + 1, 0));
+    return { label: start.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' }), start, end };
+  });
+}
+
+/**
+ * Estimated rewards per card for recent months and billing cycles, plus the
+ * best card per category for the user's last 12 months of spend.
+ */
+export async function getRewardsSummary(userId: string, now: Date = new Date()): Promise<RewardsSummary> {
+  const programs = await getCardRewardPrograms(userId);
+  if (programs.length === 0) {
+    return { cards: [], bestCards: [] };
+  }
+
+  const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 11, 1));
+  const transactions = await getSpendTransactions(userId, since, now) || [];
+
+  const { data: cycles, error: cyclesError } = await supabaseAdmin
+    .from('billing_cycles')
+    .select('creditCardId, startDate, endDate')
+    .in('creditCardId', programs.map(p => p.creditCardId))
+    .order('endDate', { ascending: false });
+
+  if (cyclesError) {
+    throw new Error(`Failed to fetch billing cycles: ${cyclesError.message}`);
+  }
+
+  const months = recentMonths(now);
+  const allRewards: TransactionReward[] = [];
+
+  const cards = programs.map(card => {
+    const rewards = computeTransactionRewards(card.program, transactions.filter(t => t.creditCardId === card.creditCardId));
+    allRewards.push(...rewards);
+
+    const cyclePeriods = (cycles || [])
+      .filter(c => c.creditCardId === card.creditCardId && new Date(c.startDate).getTime() <= now.getTime())
+      .slice(0, SUMMARY_CYCLES)
+      .map(c => ({
+        label: `${formatDate(c.startDate)} – ${formatDate(c.endDate)}`,
+        start: new Date(c.startDate),
+        end: new Date(c.endDate),
+      }));
+
+    const sum = (pick: (r: TransactionReward) => number) => Math.round(rewards.reduce((total, r) => total + pick(r), 0) * 100) / 100;
+    return {
+      ...card,
+      spend: sum(r => r.transaction.amount),
+      earned: sum(r => r.earned),
+      value: sum(r => r.value),
+      months: summarizeRewards(rewards, months),
+      cycles: summarizeRewards(rewards, cyclePeriods),
+    };
+  });
+
+  return {
+    cards: cards.sort((a, b) => b.value - a.value),
+    bestCards: bestCardsByCategory(programs, allRewards, now),
+  };
+}
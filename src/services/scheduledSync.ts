@@ -0,0 +1,126 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import { enqueueJob, type Job } from '@/services/jobQueue';
+import type { ItemSyncResult } from '@/services/itemSync';
+import {
+  RATE_LIMIT_COOLDOWN_MS,
+  scheduledSyncConfig,
+  scheduledSyncCutoff,
+  staggeredRunAt,
+  type ScheduledSyncConfig,
+} from '@/utils/scheduledSync';
+
+export interface ScheduledSyncRunSummary {
+  itemsDue: number;
+  jobsQueued: number;
+  // Due items whose sync was already queued or running
+  alreadyQueued: number;
+  failed: number;
+  // When the last sync queued by this run is due
+  lastRunAt: string | null;
+}
+
+/**
+ * Queue an item_sync job for every active Plaid item not synced within the
+ * cadence, least recently synced first, with run times spread out so the
+ * worker never hits Plaid with the whole batch at once.
+ */
+export async function scheduleItemSyncs(
+  config: ScheduledSyncConfig = scheduledSyncConfig(),
+  now: Date = new Date()
+): Promise<ScheduledSyncRunSummary> {
+  const cutoff = scheduledSyncCutoff(now, config).toISOString();
+
+  // Manual cards have status 'manual', so only Plaid connections are active
+  const { data: items, error } = await supabaseAdmin
+    .from('plaid_items')
+    .select('id, userId, institutionName')
+    .eq('status', 'active')
+    .eq('is_manual', false)
+    .or(`lastSyncAt.is.null,lastSyncAt.lt.${cutoff}`)
+    .order('lastSyncAt', { ascending: true, nullsFirst: true })
+    .limit(config.maxItemsPerRun);
+
+  if (error) {
+    throw new Error(`Failed to fetch plaid items due for sync: ${error.message}`);
+  }
+
+  const summary: ScheduledSyncRunSummary = {
+    itemsDue: (items || []).length,
+    jobsQueued: 0,
+    alreadyQueued: 0,
+    failed: 0,
+    lastRunAt: null,
+  };
+
+  for (const item of items || []) {
+    try {
+      const runAt = staggeredRunAt(summary.jobsQueued, now, config);
+      const { created } = await enqueueJob({
+        type: 'item_sync',
+        userId: item.userId,
+        payload: { plaidItemId: item.id, scheduled: true },
+        runAt,
+      });
+      if (created) {
+        summary.jobsQueued++;
+        summary.lastRunAt = runAt.toISOString();
+      } else {
+        summary.alreadyQueued++;
+      }
+    } catch (enqueueError) {
+      console.error(`Failed to queue scheduled sync for ${item.institutionName} (${item.id}):`, enqueueError);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Push back every queued scheduled sync due within the cool-down. Called when
+ * Plaid rate-limits a sync even after the client's backoff, so the rest of the
+ * batch does not run straight into the same limit.
+ */
+export async function deferScheduledSyncs(cooldownMs: number = RATE_LIMIT_COOLDOWN_MS): Promise<number> {
+  const until = new Date(Date.now() + cooldownMs).toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('jobs')
+    .update({ run_at: until, updated_at: new Date().toISOString() })
+    .eq('type', 'item_sync')
+    .eq('status', 'queued')
+    .eq('payload->>scheduled', 'true')
+    .lt('run_at', until)
+    .select('id');
+
+  if (error) {
+    console.error('Failed to defer scheduled syncs after rate limit:', error);
+    return 0;
+  }
+  console.warn(`⏱️ Plaid rate limit: deferred ${(data || []).length} scheduled syncs until ${until}`);
+  return (data || []).length;
+}
+
+/** Record one scheduled sync attempt for the item's owner in user_sync_telemetry. */
+export async function recordScheduledSyncOutcome(
+  job: Job<'item_sync'>,
+  userId: string,
+  outcome: Pick<ItemSyncResult, 'status' | 'error' | 'rateLimited' | 'requiresReconnection'> & { itemId?: string }
+): Promise<void> {
+  const { error } = await supabaseAdmin.from('user_sync_telemetry').insert({
+    user_id: userId,
+    event: 'scheduled_sync_item',
+    details: {
+      jobId: job.id,
+      attempt: job.attempts,
+      plaidItemId: job.payload.plaidItemId,
+      itemId: outcome.itemId ?? null,
+      status: outcome.rateLimited ? 'rate_limited' : outcome.status,
+      error: outcome.error ?? null,
+      requiresReconnection: !!outcome.requiresReconnection,
+    },
+  });
+
+  if (error) {
+    console.error(`Failed to record scheduled sync outcome for job ${job.id}:`, error);
+  }
+}
@@ -0,0 +1,117 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import { applyTransactionRules, compileTransactionRules } from '@/utils/transactionRules';
+import { getTransactionRules } from '@/services/transactionRules';
+import { isIssuerPaymentTransaction } from '@/utils/billingCycleEngine';
+import { resolveIssuerProfile, type IssuerProfile } from '@/utils/issuerProfiles';
+import type { SpendTransaction } from '@/utils/spend';
+
+// PostgREST caps responses at 1000 rows, so long histories are read in pages
+const PAGE_SIZE = 1000;
+
+// Only what SpendTransaction and the transaction rules need; histories span years
+const SPEND_COLUMNS = 'id, name, merchantName, amount, date, pending, category, subcategory, creditCardId';
+
+interface SpendTransactionRow {
+  id: string;
+  name: string;
+  merchantName: string | null;
+  amount: number;
+  date: string;
+  pending: boolean | null;
+  category: string | null;
+  subcategory: string | null;
+  creditCardId: string | null;
+  credit_cards: {
+    name: string;
+    mask: string;
+    plaid_items: { institutionId: string | null; institutionName: string | null; is_manual: boolean | null } | null;
+  } | null;
+}
+
+/**
+ * The user's transactions between `start` and `end`, newest first, with their
+ * transaction rules applied. Returns null when the user has no connected items.
+ */
+export async function getSpendTransactions(userId: string, start: Date, end: Date): Promise<SpendTransaction[] | null> {
+  const { data: plaidItems, error: plaidError } = await supabaseAdmin
+    .from('plaid_items')
+    .select('id')
+    .eq('userId', userId);
+
+  if (plaidError) {
+    throw new Error(`Failed to fetch plaid items: ${plaidError.message}`);
+  }
+
+  const plaidItemIds = (plaidItems || []).map(item => item.id);
+  if (plaidItemIds.length === 0) {
+    return null;
+  }
+
+  const transactions: SpendTransactionRow[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('transactions')
+      .select(`
+        ${SPEND_COLUMNS},
+        credit_cards!inner(name, mask, plaid_items(institutionId, institutionName, is_manual))
+      `)
+      .in('plaidItemId', plaidItemIds)
+      .gte('date', start.toISOString())
+      .lte('date', end.toISOString())
+      .order('date', { ascending: false })
+      .order('id', { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch transactions: ${error.message}`);
+    }
+    transactions.push(...((data || []) as SpendTransactionRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  // User rules can rename, recategorize or exclude transactions
+  const rules = compileTransactionRules(await getTransactionRules(userId));
+
+  // Issuers add their own payment descriptors; resolve each card's profile once
+  const profiles = new Map<string, IssuerProfile>();
+  const profileFor = (t: SpendTransactionRow): IssuerProfile => {
+    const key = t.creditCardId || '';
+    let profile = profiles.get(key);
+    if (!profile) {
+      const item = t.credit_cards?.plaid_items;
+      profile = resolveIssuerProfile({
+        isManual: item?.is_manual,
+        institutionId: item?.institutionId,
+        institutionName: item?.institutionName,
+        cardName: t.credit_cards?.name,
+      });
+      profiles.set(key, profile);
+    }
+    return profile;
+  };
+
+  return transactions.map(t => {
+    const outcome = applyTransactionRules(t, rules);
+    return {
+      id: t.id,
+      name: outcome.name,
+      originalName: t.name,
+      merchantName: t.merchantName ?? null,
+      amount: t.amount,
+      // Convert date strings back to Date objects for compatibility
+      date: new Date(t.date),
+      pending: !!t.pending,
+      category: t.category ?? null,
+      subcategory: t.subcategory ?? null,
+      ruleCategory: outcome.ruleId && outcome.category !== t.category ? outcome.category : null,
+      excludeFromSpend: outcome.excludeFromSpend,
+      // The original name, so a rename rule cannot hide a payment
+      isPayment: isIssuerPaymentTransaction(t.name, profileFor(t)),
+      creditCardId: t.creditCardId ?? null,
+      creditCard: t.credit_cards ? {
+        name: t.credit_cards.name,
+        mask: t.credit_cards.mask
+      } : null
+    };
+  });
+}
@@ -0,0 +1,114 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import { decrypt } from '@/lib/encryption';
+import { calculateBillingCycles } from '@/utils/billingCycles';
+import { listStatementPeriods, type StatementPeriod } from '@/services/plaidStatements';
+import type { PlaidItemRow } from '@/services/itemSync';
+
+export interface StatementRefreshCardResult {
+  cardId: string;
+  cardName: string;
+  cyclesGenerated: number;
+  statementsUsed?: boolean;
+  error?: string;
+}
+
+export interface StatementRefreshResult {
+  message: string;
+  summary?: { cardsProcessed: number; successfulCards: number; failedCards: number };
+  results: StatementRefreshCardResult[];
+}
+
+/**
+ * Regenerate billing cycles for a user's cards, or one card.
+ * - Prefers Plaid Statements (with PDF parsing) to derive exact statement periods
+ * - Falls back to heuristic generation only when statements are unavailable
+ */
+export async function refreshStatementCycles(
+  userId: string,
+  { cardId }: { cardId?: string } = {}
+): Promise<StatementRefreshResult> {
+  const { data: plaidItems, error: plaidError } = await supabaseAdmin
+    .from('plaid_items')
+    .select('*')
+    .eq('userId', userId);
+  if (plaidError) throw new Error(`Failed to fetch plaid items: ${plaidError.message}`);
+
+  const plaidItemIds = (plaidItems || []).map(i => i.id);
+  if (plaidItemIds.length === 0) {
+    return { message: 'No plaid items for user', results: [] };
+  }
+
+  let cardQuery = supabaseAdmin
+    .from('credit_cards')
+    .select('*')
+    .in('plaidItemId', plaidItemIds);
+
+  if (cardId) {
+    cardQuery = cardQuery.eq('id', cardId);
+  }
+
+  const { data: creditCards, error: cardsError } = await cardQuery;
+  if (cardsError) throw new Error(`Failed to fetch credit cards: ${cardsError.message}`);
+
+  if (!creditCards || creditCards.length === 0) {
+    return { message: 'No credit cards found for regeneration', results: [] };
+  }
+
+  // Delete existing billing cycles for the selected cards
+  const creditCardIds = creditCards.map(c => c.id);
+  const { error: deleteError } = await supabaseAdmin
+    .from('billing_cycles')
+    .delete()
+    .in('creditCardId', creditCardIds);
+  if (deleteError) {
+    console.warn('Failed to delete existing billing cycles:', deleteError);
+  }
+
+  const plaidItemMap = new Map<string, PlaidItemRow>();
+  (plaidItems || []).forEach(item => plaidItemMap.set(item.id, item));
+
+  const results: StatementRefreshCardResult[] = [];
+
+  for (const card of creditCards) {
+    try {
+      // Attempt to list statement periods (with PDF enrichment) for this account
+      let statementPeriods: StatementPeriod[] | undefined;
+      try {
+        const plaidItem = plaidItemMap.get(card.plaidItemId);
+        if (plaidItem?.accessToken && card.accountId) {
+          const accessToken = decrypt(plaidItem.accessToken);
+          const periods = await listStatementPeriods(accessToken, card.accountId, 13, plaidItem.institutionName, plaidItem.id);
+          statementPeriods = periods.filter(p => p.endDate && (p.startDate instanceof Date));
+        }
+      } catch (e) {
+        console.warn(`Statements listing failed for card ${card.name}:`, e);
+      }
+
+      const cycles = await calculateBillingCycles(card.id, {
+        statementPeriods,
+        baselineDueDate: card.nextPaymentDueDate ? new Date(card.nextPaymentDueDate) : null,
+      });
+
+      results.push({
+        cardId: card.id,
+        cardName: card.name,
+        cyclesGenerated: cycles.length,
+        statementsUsed: !!statementPeriods && statementPeriods.length > 0,
+      });
+    } catch (e) {
+      results.push({
+        cardId: card.id,
+        cardName: card.name,
+        cyclesGenerated: 0,
+        error: (e instanceof Error && e.message) || 'Unknown error'
+      });
+    }
+  }
+
+  const success = results.filter(r => !r.error).length;
+  return {
+    message: 'Regeneration completed',
+    summary: { cardsProcessed: results.length, successfulCards: success, failedCards: results.length - success },
+    results,
+  };
+}
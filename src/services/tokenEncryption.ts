@@ -0,0 +1,57 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import { activeEncryptionKeyId, ciphertextKeyId, encryptionKeyIds } from '@/lib/encryption';
+
+export interface TokenEncryptionHealth {
+  activeKeyId: string;
+  configuredKeyIds: string[];
+  totalTokens: number;
+  // Token count per key id; legacy CryptoJS ciphertexts are counted under 'legacy'
+  byKeyId: Record<string, number>;
+  // Tokens that `npm run encryption:reencrypt` would rewrite
+  onOldKeys: number;
+  // Tokens sealed with a key that is no longer configured and cannot be decrypted
+  onUnknownKeys: number;
+}
+
+const PAGE_SIZE = 1000;
+
+/** How the stored Plaid access tokens are spread across encryption keys. Reads key ids only; nothing is decrypted. */
+export async function getTokenEncryptionHealth(): Promise<TokenEncryptionHealth> {
+  const activeKeyId = activeEncryptionKeyId();
+  const configuredKeyIds = encryptionKeyIds();
+  const health: TokenEncryptionHealth = {
+    activeKeyId,
+    configuredKeyIds,
+    totalTokens: 0,
+    byKeyId: {},
+    onOldKeys: 0,
+    onUnknownKeys: 0,
+  };
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('plaid_items')
+      .select('id, accessToken')
+      // Manual cards store no token
+      .neq('accessToken', '')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch access tokens: ${error.message}`);
+    }
+
+    for (const { accessToken } of (data || []) as Array<{ accessToken: string }>) {
+      const keyId = ciphertextKeyId(accessToken);
+      const bucket = keyId ?? 'legacy';
+      health.totalTokens++;
+      health.byKeyId[bucket] = (health.byKeyId[bucket] || 0) + 1;
+      if (keyId !== null && !configuredKeyIds.includes(keyId)) health.onUnknownKeys++;
+      else if (keyId !== activeKeyId) health.onOldKeys++;
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return health;
+}
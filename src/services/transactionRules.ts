@@ -0,0 +1,126 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import { ownsCard } from '@/services/cardOwnership';
+import type { RuleMatchType, TransactionRule, TransactionRuleInput } from '@/utils/transactionRules';
+
+interface TransactionRuleRow {
+  id: string;
+  priority: number;
+  enabled: boolean;
+  match_type: RuleMatchType;
+  pattern: string | null;
+  min_amount: number | string | null;
+  max_amount: number | string | null;
+  credit_card_id: string | null;
+  set_category: string | null;
+  rename_to: string | null;
+  exclude_from_spend: boolean;
+}
+
+function fromRow(row: TransactionRuleRow): TransactionRule {
+  return {
+    id: row.id,
+    priority: row.priority,
+    enabled: row.enabled,
+    matchType: row.match_type,
+    pattern: row.pattern,
+    // numeric columns come back as strings
+    minAmount: row.min_amount !== null ? Number(row.min_amount) : null,
+    maxAmount: row.max_amount !== null ? Number(row.max_amount) : null,
+    creditCardId: row.credit_card_id,
+    setCategory: row.set_category,
+    renameTo: row.rename_to,
+    excludeFromSpend: row.exclude_from_spend,
+  };
+}
+
+function toRow(rule: TransactionRuleInput) {
+  return {
+    priority: rule.priority,
+    enabled: rule.enabled,
+    match_type: rule.matchType,
+    pattern: rule.pattern,
+    min_amount: rule.minAmount,
+    max_amount: rule.maxAmount,
+    credit_card_id: rule.creditCardId,
+    set_category: rule.setCategory,
+    rename_to: rule.renameTo,
+    exclude_from_spend: rule.excludeFromSpend,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/** The user's rules in the order they are applied. */
+export async function getTransactionRules(userId: string): Promise<TransactionRule[]> {
+  const { data, error } = await supabaseAdmin
+    .from('transaction_rules')
+    .select('*')
+    .eq('user_id', userId)
+    .order('priority', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch transaction rules: ${error.message}`);
+  }
+
+  return (data || []).map(row => fromRow(row as TransactionRuleRow));
+}
+
+/** Returns null when the rule references a card the user does not own. */
+export async function createTransactionRule(userId: string, rule: TransactionRuleInput): Promise<TransactionRule | null> {
+  if (!(await ownsCard(userId, rule.creditCardId))) {
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('transaction_rules')
+    .insert({ user_id: userId, ...toRow(rule) })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create transaction rule: ${error?.message || 'No data returned'}`);
+  }
+
+  return fromRow(data as TransactionRuleRow);
+}
+
+/** Returns null when the rule does not exist for this user or references a card they do not own. */
+export async function updateTransactionRule(
+  userId: string,
+  ruleId: string,
+  rule: TransactionRuleInput
+): Promise<TransactionRule | null> {
+  if (!(await ownsCard(userId, rule.creditCardId))) {
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('transaction_rules')
+    .update(toRow(rule))
+    .eq('id', ruleId)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update transaction rule: ${error.message}`);
+  }
+
+  return data ? fromRow(data as TransactionRuleRow) : null;
+}
+
+/** Returns false when the rule does not exist for this user. */
+export async function deleteTransactionRule(userId: string, ruleId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('transaction_rules')
+    .delete()
+    .eq('id', ruleId)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete transaction rule: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
@@ -0,0 +1,117 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// In-memory verification_tokens table behind the queries the service makes
+const db = vi.hoisted(() => ({ rows: [] as Record<string, unknown>[] }));
+
+vi.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: () => {
+      const filters: [string, unknown][] = [];
+      let operation: 'select' | 'update' | 'delete' = 'select';
+      let changes: Record<string, unknown> = {};
+
+      const run = () => {
+        const matched = db.rows.filter((row) => filters.every(([column, value]) => row[column] === value));
+        if (operation === 'update') matched.forEach((row) => Object.assign(row, changes));
+        if (operation === 'delete') db.rows = db.rows.filter((row) => !matched.includes(row));
+        return { data: matched.map((row) => ({ ...row })), error: null };
+      };
+
+      const query = {
+        select: () => query,
+        order: () => query,
+        limit: () => query,
+        eq(column: string, value: unknown) {
+          filters.push([column, value]);
+          return query;
+        },
+        update(values: Record<string, unknown>) {
+          operation = 'update';
+          changes = values;
+          return query;
+        },
+        delete() {
+          operation = 'delete';
+          return query;
+        },
+        async insert(row: Record<string, unknown>) {
+          db.rows.push({ ...row });
+          return { error: null };
+        },
+        async maybeSingle() {
+          return { data: run().data[0] ?? null, error: null };
+        },
+        then<T>(resolve: (value: ReturnType<typeof run>) => T, reject?: (reason: unknown) => T) {
+          return Promise.resolve(run()).then(resolve, reject);
+        },
+      };
+      return query;
+    },
+  },
+}));
+
+let codes: typeof import('@/services/verificationCodes');
+
+beforeAll(async () => {
+  vi.stubEnv('NEXTAUTH_SECRET', 'test-secret');
+  vi.stubEnv('KV_REST_API_URL', '');
+  vi.stubEnv('KV_REST_API_TOKEN', '');
+  codes = await import('@/services/verificationCodes');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+beforeEach(() => {
+  db.rows = [];
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('redeemVerificationCode', () => {
+  it('accepts the right code once', async () => {
+    await codes.storeVerificationCode('valid@example.com', '123456');
+
+    expect(await codes.redeemVerificationCode('valid@example.com', '123456', '10.0.0.1')).toEqual({ status: 'valid' });
+    expect((await codes.redeemVerificationCode('valid@example.com', '123456', '10.0.0.1')).status).toBe('missing');
+  });
+
+  it('burns the code and locks the email out on the last wrong guess', async () => {
+    const email = 'locked@example.com';
+    await codes.storeVerificationCode(email, '123456');
+
+    for (let guess = 1; guess < codes.MAX_CODE_ATTEMPTS; guess++) {
+      expect((await codes.redeemVerificationCode(email, '000000', '10.0.0.2')).status).toBe('invalid');
+    }
+    expect(db.rows[0]).toMatchObject({ attempts: codes.MAX_CODE_ATTEMPTS - 1 });
+
+    const burned = await codes.redeemVerificationCode(email, '000000', '10.0.0.2');
+    expect(burned).toMatchObject({ status: 'locked', retryAfterMs: codes.EMAIL_CODE_LIMITS.lockout.windowMs });
+    expect(db.rows).toHaveLength(0);
+
+    // The lockout holds for guesses and for new codes
+    expect((await codes.redeemVerificationCode(email, '123456', '10.0.0.2')).status).toBe('locked');
+    expect((await codes.checkSendCodeLimits(email, '10.0.0.2')).allowed).toBe(false);
+  });
+
+  it('does not let a guess claim an attempt another guess already took', async () => {
+    await codes.storeVerificationCode('race@example.com', '123456');
+    const [first, second] = await Promise.all([
+      codes.redeemVerificationCode('race@example.com', '123456', '10.0.0.3'),
+      codes.redeemVerificationCode('race@example.com', '123456', '10.0.0.3'),
+    ]);
+
+    expect([first.status, second.status].sort()).toEqual(['invalid', 'valid']);
+  });
+});
+
+describe('checkSendCodeLimits', () => {
+  it('refuses a fourth code for the email within the window', async () => {
+    for (let i = 0; i < codes.EMAIL_CODE_LIMITS.sendPerEmail.limit; i++) {
+      expect(await codes.checkSendCodeLimits('send@example.com', '10.0.0.4')).toEqual({ allowed: true });
+    }
+
+    const refused = await codes.checkSendCodeLimits('Send@Example.com ', '10.0.0.4');
+    expect(refused.allowed).toBe(false);
+  });
+});
@@ -0,0 +1,181 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from '@/lib/supabase';
+import { consumeRateLimit, peekRateLimit, type RateLimitRule } from '@/lib/rateLimit';
+
+export const VERIFICATION_CODE_TTL_MS = 3 * 60 * 1000;
+// Wrong guesses allowed per code before it is burned
+export const MAX_CODE_ATTEMPTS = 5;
+
+export const EMAIL_CODE_LIMITS = {
+  sendPerEmail: { name: 'send-code-email', limit: 3, windowMs: 10 * 60 * 1000 },
+  sendPerIp: { name: 'send-code-ip', limit: 10, windowMs: 60 * 60 * 1000 },
+  verifyPerIp: { name: 'verify-code-ip', limit: 30, windowMs: 15 * 60 * 1000 },
+  // Burning a code locks the email out of new codes and guesses for the window
+  lockout: { name: 'verify-code-lockout', limit: 1, windowMs: 15 * 60 * 1000 },
+} satisfies Record<string, RateLimitRule>;
+
+export type SendCodeCheck = { allowed: true } | { allowed: false; error: string; retryAfterMs: number };
+
+export type VerificationCodeResult =
+  | { status: 'valid' }
+  | { status: 'invalid' | 'expired' | 'missing'; error: string }
+  | { status: 'locked' | 'rate_limited'; error: string; retryAfterMs: number };
+
+const CODE_PATTERN = /^\d{6}$/;
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function retryMessage(retryAfterMs: number): string {
+  const minutes = Math.max(1, Math.ceil(retryAfterMs / 60000));
+  return `Too many attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+}
+
+function hashCode(identifier: string, code: string): string {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET is required to hash verification codes');
+  }
+  return crypto.createHmac('sha256', secret).update(`${identifier}:${code}`).digest('hex');
+}
+
+/** Constant-time comparison of a submitted code with a stored hash. Does not count an attempt. */
+export function verificationCodeMatches(storedHash: string, identifier: string, code: string): boolean {
+  const expected = Buffer.from(hashCode(identifier, code), 'hex');
+  const stored = Buffer.from(storedHash, 'hex');
+  return stored.length === expected.length && crypto.timingSafeEqual(stored, expected);
+}
+
+async function deleteCodes(identifier: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('verification_tokens')
+    .delete()
+    .eq('identifier', identifier);
+
+  if (error) {
+    console.error('Failed to delete verification codes:', error);
+  }
+}
+
+/** A uniformly random 6-digit code. */
+export function generateVerificationCode(): string {
+  return crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+}
+
+/**
+ * Count a send-code request against the per-IP and per-email limits. Refused
+ * while the email is locked out after a burned code.
+ */
+export async function checkSendCodeLimits(email: string, ip: string): Promise<SendCodeCheck> {
+  const normalized = normalizeEmail(email);
+
+  const lockout = await peekRateLimit(EMAIL_CODE_LIMITS.lockout, normalized);
+  if (!lockout.allowed) {
+    return { allowed: false, error: retryMessage(lockout.retryAfterMs), retryAfterMs: lockout.retryAfterMs };
+  }
+
+  for (const [rule, identifier] of [
+    [EMAIL_CODE_LIMITS.sendPerIp, ip],
+    [EMAIL_CODE_LIMITS.sendPerEmail, normalized],
+  ] as const) {
+    const result = await consumeRateLimit(rule, identifier);
+    if (!result.allowed) {
+      return { allowed: false, error: retryMessage(result.retryAfterMs), retryAfterMs: result.retryAfterMs };
+    }
+  }
+  return { allowed: true };
+}
+
+/** Replace any outstanding code for the email with a hash of this one. */
+export async function storeVerificationCode(email: string, code: string): Promise<void> {
+  await deleteCodes(email);
+
+  const { error } = await supabaseAdmin
+    .from('verification_tokens')
+    .insert({
+      identifier: email,
+      token: hashCode(email, code),
+      expires: new Date(Date.now() + VERIFICATION_CODE_TTL_MS).toISOString(),
+      attempts: 0,
+    });
+
+  if (error) {
+    throw new Error(`Failed to store verification code: ${error.message}`);
+  }
+}
+
+/**
+ * Check a submitted code and consume it when it matches. Each guess claims an
+ * attempt before it is compared, so parallel guesses cannot exceed the
+ * attempt limit; the guess that uses the last attempt burns the code and
+ * locks the email out.
+ */
+export async function redeemVerificationCode(email: string, code: string, ip: string): Promise<VerificationCodeResult> {
+  const normalized = normalizeEmail(email);
+
+  const ipLimit = await consumeRateLimit(EMAIL_CODE_LIMITS.verifyPerIp, ip);
+  if (!ipLimit.allowed) {
+    return { status: 'rate_limited', error: retryMessage(ipLimit.retryAfterMs), retryAfterMs: ipLimit.retryAfterMs };
+  }
+
+  const lockout = await peekRateLimit(EMAIL_CODE_LIMITS.lockout, normalized);
+  if (!lockout.allowed) {
+    return { status: 'locked', error: retryMessage(lockout.retryAfterMs), retryAfterMs: lockout.retryAfterMs };
+  }
+
+  const { data: stored, error } = await supabaseAdmin
+    .from('verification_tokens')
+    .select('token, expires, attempts')
+    .eq('identifier', email)
+    .order('expires', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch verification code: ${error.message}`);
+  }
+  if (!stored) {
+    return { status: 'missing', error: 'Invalid or expired verification code' };
+  }
+  if (new Date() > new Date(stored.expires)) {
+    await deleteCodes(email);
+    return { status: 'expired', error: 'Verification code has expired' };
+  }
+  if (!CODE_PATTERN.test(code)) {
+    return { status: 'invalid', error: 'Invalid verification code' };
+  }
+
+  const attempts: number = stored.attempts ?? 0;
+  if (attempts < MAX_CODE_ATTEMPTS) {
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('verification_tokens')
+      .update({ attempts: attempts + 1 })
+      .eq('identifier', email)
+      .eq('token', stored.token)
+      .eq('attempts', attempts)
+      .select('identifier');
+
+    if (claimError) {
+      throw new Error(`Failed to record verification attempt: ${claimError.message}`);
+    }
+    // Another guess claimed this attempt first
+    if (!claimed || claimed.length === 0) {
+      return { status: 'invalid', error: 'Invalid verification code' };
+    }
+
+    if (verificationCodeMatches(stored.token, email, code)) {
+      await deleteCodes(email);
+      return { status: 'valid' };
+    }
+    if (attempts + 1 < MAX_CODE_ATTEMPTS) {
+      return { status: 'invalid', error: 'Invalid verification code' };
+    }
+  }
+
+  console.warn(`🔒 Verification code burned after ${MAX_CODE_ATTEMPTS} wrong attempts`);
+  await deleteCodes(email);
+  await consumeRateLimit(EMAIL_CODE_LIMITS.lockout, normalized);
+  const retryAfterMs = EMAIL_CODE_LIMITS.lockout.windowMs;
+  return { status: 'locked', error: retryMessage(retryAfterMs), retryAfterMs };
+}
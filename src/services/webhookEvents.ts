@@ -0,0 +1,320 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from '@/lib/supabase';
+import { handlePlaidWebhook } from '@/services/plaidWebhooks';
+import {
+  MAX_REJECTED_BODY_LENGTH,
+  REJECTED_EVENT_RETENTION_MS,
+  STALE_PROCESSING_MS,
+  WEBHOOK_DEDUP_WINDOW_MS,
+  nextWebhookAttemptAt,
+  parseWebhookEnvelope,
+  previousWebhookEventKey,
+  webhookEventKey,
+  type WebhookEventStatus,
+} from '@/utils/webhookEvents';
+
+export interface WebhookEvent {
+  id: string;
+  event_key: string;
+  source: string;
+  webhook_type: string | null;
+  webhook_code: string | null;
+  item_id: string | null;
+  raw_body: string;
+  verified: boolean;
+  status: WebhookEventStatus;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  received_at: string;
+  processed_at: string | null;
+  updated_at: string;
+}
+
+// Everything but the raw body, for listings
+export type WebhookEventSummary = Omit<WebhookEvent, 'raw_body'>;
+
+export interface WebhookEventFilters {
+  status?: WebhookEventStatus;
+  itemId?: string;
+  webhookType?: string;
+  // Only events received before this ISO timestamp, for paging
+  before?: string;
+  limit?: number;
+}
+
+export interface ProcessWebhookEventResult {
+  id: string;
+  status: WebhookEventStatus;
+  attempts: number;
+  error: string | null;
+  // True when the event was not claimed: already done, in flight elsewhere, or not yet due
+  skipped: boolean;
+}
+
+export interface WebhookRetryRunSummary {
+  attempted: number;
+  processed: number;
+  failed: number;
+  skipped: number;
+}
+
+const SUMMARY_COLUMNS = 'id, event_key, source, webhook_type, webhook_code, item_id, verified, status, attempts, last_error, next_attempt_at, received_at, processed_at, updated_at';
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+const DEFAULT_RETRY_BATCH = 25;
+
+/**
+ * A verified event with this body journaled in the previous window, no more
+ * than a window's width before `receivedAt`.
+ */
+async function findRecentDuplicate(rawBody: string, receivedAt: Date): Promise<WebhookEvent | null> {
+  const { data, error } = await supabaseAdmin
+    .from('webhook_events')
+    .select('*')
+    .eq('event_key', previousWebhookEventKey(rawBody, receivedAt))
+    .gte('received_at', new Date(receivedAt.getTime() - WEBHOOK_DEDUP_WINDOW_MS).toISOString())
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check for duplicate webhook event: ${error.message}`);
+  }
+  return data as WebhookEvent | null;
+}
+
+/**
+ * Journal a webhook delivery before it is processed. A verified delivery whose
+ * key is already journaled, in this window or within a window's width in the
+ * previous one, is a duplicate and the stored event is returned.
+ * Unverified deliveries are kept for the audit trail as 'rejected' under a
+ * unique key, so a forged body can never shadow a real one, with their body
+ * truncated since anyone can send them.
+ */
+export async function recordWebhookEvent({
+  rawBody,
+  verified,
+  receivedAt = new Date(),
+}: {
+  rawBody: string;
+  verified: boolean;
+  receivedAt?: Date;
+}): Promise<{ event: WebhookEvent; duplicate: boolean }> {
+  if (verified) {
+    const recent = await findRecentDuplicate(rawBody, receivedAt);
+    if (recent) {
+      return { event: recent, duplicate: true };
+    }
+  }
+
+  const storedBody = verified ? rawBody : rawBody.slice(0, MAX_REJECTED_BODY_LENGTH);
+  const envelope = parseWebhookEnvelope(storedBody);
+  const key = webhookEventKey(rawBody, receivedAt);
+  const event = {
+    id: crypto.randomUUID(),
+    event_key: verified ? key : `rejected:${key}:${crypto.randomUUID()}`,
+    source: 'plaid',
+    webhook_type: envelope.webhookType,
+    webhook_code: envelope.webhookCode,
+    item_id: envelope.itemId,
+    raw_body: storedBody,
+    verified,
+    status: (verified ? 'received' : 'rejected') as WebhookEventStatus,
+    attempts: 0,
+    received_at: receivedAt.toISOString(),
+    updated_at: receivedAt.toISOString(),
+  };
+
+  const { data: inserted, error: insertError } = await supabaseAdmin
+    .from('webhook_events')
+    .upsert(event, { onConflict: 'event_key', ignoreDuplicates: true })
+    .select();
+
+  if (insertError) {
+    throw new Error(`Failed to record webhook event: ${insertError.message}`);
+  }
+  if (inserted && inserted.length > 0) {
+    return { event: inserted[0] as WebhookEvent, duplicate: false };
+  }
+
+  const { data: existing, error: fetchError } = await supabaseAdmin
+    .from('webhook_events')
+    .select('*')
+    .eq('event_key', event.event_key)
+    .single();
+
+  if (fetchError || !existing) {
+    throw new Error(`Failed to fetch duplicate webhook event: ${fetchError?.message || 'not found'}`);
+  }
+  return { event: existing as WebhookEvent, duplicate: true };
+}
+
+function isClaimable(event: WebhookEvent, now: Date, replay: boolean): boolean {
+  if (event.status === 'rejected') return false;
+  if (event.status === 'received') return true;
+  if (event.status === 'processing') {
+    return now.getTime() - new Date(event.updated_at).getTime() > STALE_PROCESSING_MS;
+  }
+  if (replay) return true;
+  return event.status === 'failed' && !!event.next_attempt_at && new Date(event.next_attempt_at) <= now;
+}
+
+/**
+ * Process a journaled event at most once at a time. The event is claimed by
+ * moving it to 'processing' with a compare-and-set on updated_at, so parallel
+ * deliveries, retries and replays cannot run the same event together.
+ * `replay` also re-runs processed events and failed ones that are not yet due
+ * or out of attempts. Returns null when the event does not exist.
+ */
+export async function processWebhookEvent(
+  eventId: string,
+  { replay = false }: { replay?: boolean } = {}
+): Promise<ProcessWebhookEventResult | null> {
+  const { data, error: fetchError } = await supabaseAdmin
+    .from('webhook_events')
+    .select('*')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch webhook event: ${fetchError.message}`);
+  }
+  if (!data) return null;
+  const event = data as WebhookEvent;
+
+  const now = new Date();
+  const unclaimed: ProcessWebhookEventResult = {
+    id: event.id,
+    status: event.status,
+    attempts: event.attempts,
+    error: event.last_error,
+    skipped: true,
+  };
+  if (!isClaimable(event, now, replay)) {
+    return unclaimed;
+  }
+
+  const attempts = event.attempts + 1;
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from('webhook_events')
+    .update({ status: 'processing', attempts, updated_at: now.toISOString() })
+    .eq('id', event.id)
+    .eq('updated_at', event.updated_at)
+    .select('id');
+
+  if (claimError) {
+    throw new Error(`Failed to claim webhook event: ${claimError.message}`);
+  }
+  if (!claimed || claimed.length === 0) {
+    return unclaimed;
+  }
+
+  let processingError: string | null = null;
+  try {
+    await handlePlaidWebhook(JSON.parse(event.raw_body));
+  } catch (error) {
+    console.error(`Webhook event ${event.id} (${event.webhook_type}/${event.webhook_code}) failed:`, error);
+    processingError = error instanceof Error ? error.message : String(error);
+  }
+
+  const finishedAt = new Date();
+  const status: WebhookEventStatus = processingError ? 'failed' : 'processed';
+  const nextAttempt = processingError ? nextWebhookAttemptAt(attempts, finishedAt) : null;
+  const { error: finishError } = await supabaseAdmin
+    .from('webhook_events')
+    .update({
+      status,
+      last_error: processingError,
+      next_attempt_at: nextAttempt ? nextAttempt.toISOString() : null,
+      processed_at: processingError ? event.processed_at : finishedAt.toISOString(),
+      updated_at: finishedAt.toISOString(),
+    })
+    .eq('id', event.id);
+
+  if (finishError) {
+    // The event stays 'processing' and is picked up again once stale
+    console.error(`Failed to record outcome of webhook event ${event.id}:`, finishError);
+  }
+
+  return { id: event.id, status, attempts, error: processingError, skipped: false };
+}
+
+/** Retry failed events that are due, and events left 'processing' or 'received' by a crashed invocation. */
+export async function retryWebhookEvents(limit: number = DEFAULT_RETRY_BATCH): Promise<WebhookRetryRunSummary> {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - STALE_PROCESSING_MS).toISOString();
+
+  const { data: due, error } = await supabaseAdmin
+    .from('webhook_events')
+    .select('id')
+    .or(`and(status.eq.failed,next_attempt_at.lte.${now.toISOString()}),and(status.in.(processing,received),updated_at.lt.${staleBefore})`)
+    .order('received_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch webhook events to retry: ${error.message}`);
+  }
+
+  const summary: WebhookRetryRunSummary = { attempted: 0, processed: 0, failed: 0, skipped: 0 };
+  for (const { id } of (due || []) as Array<{ id: string }>) {
+    summary.attempted++;
+    try {
+      const result = await processWebhookEvent(id);
+      if (!result || result.skipped) summary.skipped++;
+      else if (result.status === 'processed') summary.processed++;
+      else summary.failed++;
+    } catch (retryError) {
+      console.error(`Failed to retry webhook event ${id}:`, retryError);
+      summary.failed++;
+    }
+  }
+  return summary;
+}
+
+/** Delete rejected events past their retention. Returns how many were deleted. */
+export async function purgeRejectedWebhookEvents(now: Date = new Date()): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('webhook_events')
+    .delete()
+    .eq('status', 'rejected')
+    .lt('received_at', new Date(now.getTime() - REJECTED_EVENT_RETENTION_MS).toISOString())
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to purge rejected webhook events: ${error.message}`);
+  }
+  return data?.length || 0;
+}
+
+export async function listWebhookEvents(filters: WebhookEventFilters = {}): Promise<WebhookEventSummary[]> {
+  const limit = Math.min(Math.max(1, filters.limit || DEFAULT_LIST_LIMIT), MAX_LIST_LIMIT);
+  let query = supabaseAdmin
+    .from('webhook_events')
+    .select(SUMMARY_COLUMNS)
+    .order('received_at', { ascending: false })
+    .limit(limit);
+
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.itemId) query = query.eq('item_id', filters.itemId);
+  if (filters.webhookType) query = query.eq('webhook_type', filters.webhookType);
+  if (filters.before) query = query.lt('received_at', filters.before);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch webhook events: ${error.message}`);
+  }
+  return (data || []) as WebhookEventSummary[];
+}
+
+export async function getWebhookEvent(eventId: string): Promise<WebhookEvent | null> {
+  const { data, error } = await supabaseAdmin
+    .from('webhook_events')
+    .select('*')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch webhook event: ${error.message}`);
+  }
+  return data as WebhookEvent | null;
+}
@@ -0,0 +1,38 @@
+/**
+ * Admin roles and the permissions they carry.
+ *
+ * Endpoints guarded by requireAdminAccess declare the permission they need:
+ * `read` for diagnostics that only look at data, `write` for endpoints that
+ * change user data (fix-*, repair, regenerate, resync, replay) and `system`
+ * for configuration, credentials and auth internals.
+ */
+
+export type AdminRole = 'admin' | 'support' | 'support_readonly';
+
+export type AdminPermission = 'read' | 'write' | 'system';
+
+export const ADMIN_ROLES: AdminRole[] = ['admin', 'support', 'support_readonly'];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  admin: ['read', 'write', 'system'],
+  support: ['read', 'write'],
+  support_readonly: ['read'],
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && (ADMIN_ROLES as string[]).includes(value);
+}
+
+export function roleHasPermission(role: AdminRole | null, permission: AdminPermission): boolean {
+  return role !== null && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Query parameters admin endpoints use to name the user they act on
+const TARGET_USER_PARAMS = ['userId', 'user_id', 'targetUserId'];
+const TARGET_EMAIL_PARAMS = ['email', 'userEmail'];
+
+/** The user an admin request acts on, as far as its query string says. */
+export function auditTargetFromQuery(searchParams: URLSearchParams): { userId: string | null; email: string | null } {
+  const first = (names: string[]) => names.map(name => searchParams.get(name)).find(Boolean) || null;
+  return { userId: first(TARGET_USER_PARAMS), email: first(TARGET_EMAIL_PARAMS) };
+}
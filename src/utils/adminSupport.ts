@@ -0,0 +1,98 @@
+/**
+ * Support console rules: connection status, user search terms and the
+ * actions support staff can take on a user's behalf.
+ *
+ * Connection status is read from what plaid_items already records (status,
+ * errorCode, lastSyncAt) with the same outcomes as the user-facing
+ * connection-health check, so support sees it without calling Plaid.
+ */
+
+export type SupportConnectionStatus = 'healthy' | 'stale' | 'requires_auth' | 'error';
+
+export type SupportAction = 'resync-item' | 'regenerate-cycles' | 'send-reconnect-email';
+
+export const SUPPORT_ACTIONS: SupportAction[] = ['resync-item', 'regenerate-cycles', 'send-reconnect-email'];
+
+export interface SupportActionRequest {
+  action: SupportAction;
+  plaidItemId: string | null;
+  cardId: string | null;
+}
+
+// Hours since the last sync before a connection counts as stale
+export const STALE_CONNECTION_HOURS = 48;
+
+// Plaid error codes that only the user can fix by reconnecting
+const REAUTH_ERROR_CODES = ['ITEM_LOGIN_REQUIRED', 'ACCESS_NOT_GRANTED', 'INVALID_ACCESS_TOKEN', 'PENDING_EXPIRATION'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface SupportConnectionInput {
+  status: string | null;
+  errorCode: string | null;
+  lastSyncAt: string | null;
+}
+
+export function connectionStatus(
+  item: SupportConnectionInput,
+  now: Date = new Date(),
+  staleHours: number = STALE_CONNECTION_HOURS
+): { status: SupportConnectionStatus; recommendedAction: string } {
+  if (item.status === 'expired' || (item.errorCode && REAUTH_ERROR_CODES.includes(item.errorCode))) {
+    return { status: 'requires_auth', recommendedAction: 'Ask the user to reconnect through Plaid Link' };
+  }
+  if (item.errorCode || (item.status && item.status !== 'active')) {
+    return { status: 'error', recommendedAction: 'Resync the connection; ask the user to reconnect if it fails again' };
+  }
+  if (!item.lastSyncAt || now.getTime() - new Date(item.lastSyncAt).getTime() > staleHours * 60 * 60 * 1000) {
+    return { status: 'stale', recommendedAction: 'Resync the connection' };
+  }
+  return { status: 'healthy', recommendedAction: 'Connection is healthy' };
+}
+
+/** How the user signs in, from their next-auth accounts rows. */
+export function authTypeLabel(accounts: { provider: string; type: string }[]): string {
+  if (accounts.some(account => account.provider === 'google' && account.type === 'oauth')) return 'Google OAuth';
+  if (accounts.some(account => account.provider === 'email-code' && account.type === 'credentials')) return 'Email Code';
+  return 'Unknown';
+}
+
+/**
+ * What a user search looks for: an exact id when the query is one, otherwise
+ * a substring of email or name. Characters that would break a PostgREST `or`
+ * filter or act as wildcards are dropped.
+ */
+export function parseUserSearch(query: string): { userId: string } | { term: string } | null {
+  const trimmed = query.trim();
+  if (UUID_PATTERN.test(trimmed)) return { userId: trimmed };
+
+  const term = trimmed.replace(/[%_,()*\\]/g, '');
+  return term.length >= 2 ? { term } : null;
+}
+
+/** Validate a support action request body. */
+export function parseSupportAction(
+  body: unknown
+): { request: SupportActionRequest; error: null } | { request: null; error: string } {
+  const raw = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const action = raw.action;
+  if (typeof action !== 'string' || !(SUPPORT_ACTIONS as string[]).includes(action)) {
+    return { request: null, error: `action must be one of ${SUPPORT_ACTIONS.join(', ')}` };
+  }
+
+  const optionalId = (name: string): string | null | undefined => {
+    const value = raw[name];
+    if (value === undefined || value === null || value === '') return null;
+    return typeof value === 'string' ? value : undefined;
+  };
+  const plaidItemId = optionalId('plaidItemId');
+  const cardId = optionalId('cardId');
+  if (plaidItemId === undefined || cardId === undefined) {
+    return { request: null, error: 'plaidItemId and cardId must be strings' };
+  }
+  if (action !== 'regenerate-cycles' && !plaidItemId) {
+    return { request: null, error: `${action} needs a plaidItemId` };
+  }
+
+  return { request: { action: action as SupportAction, plaidItemId, cardId }, error: null };
+}
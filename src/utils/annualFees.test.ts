@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { detectAnnualFee, isAnnualFeeTransaction } from '@/utils/annualFees';
+
+describe('isAnnualFeeTransaction', () => {
+  it('matches issuer fee postings', () => {
+    expect(isAnnualFeeTransaction('ANNUAL MEMBERSHIP FEE')).toBe(true);
+    expect(isAnnualFeeTransaction('Annual Fee')).toBe(true);
+    expect(isAnnualFeeTransaction(' YEARLY FEE')).toBe(true);
+    expect(isAnnualFeeTransaction('ANNUAL CARD FEE')).toBe(true);
+  });
+
+  it('ignores merchant membership and annual fees', () => {
+    expect(isAnnualFeeTransaction('COSTCO MEMBERSHIP FEE')).toBe(false);
+    expect(isAnnualFeeTransaction('MEMBERSHIP FEE')).toBe(false);
+    expect(isAnnualFeeTransaction('PLANET FITNESS ANNUAL FEE')).toBe(false);
+  });
+});
+
+describe('detectAnnualFee', () => {
+  it('uses the latest posting and ignores reversals and merchant fees', () => {
+    const fee = detectAnnualFee([
+      { name: 'ANNUAL MEMBERSHIP FEE', amount: 95, date: '2024-03-05' },
+      { name: 'ANNUAL MEMBERSHIP FEE', amount: 95, date: '2025-03-05' },
+      { name: 'ANNUAL MEMBERSHIP FEE', amount: -95, date: '2025-03-20' },
+      { name: 'SAMS CLUB MEMBERSHIP FEE', amount: 50, date: '2025-06-01' },
+    ]);
+    expect(fee?.amount).toBe(95);
+    expect(fee?.nextDueDate.toISOString().slice(0, 10)).toBe('2026-03-05');
+  });
+});
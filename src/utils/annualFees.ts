@@ -0,0 +1,82 @@
+/**
+ * Annual fee detection and renewal dates.
+ *
+ * Issuers post the fee as a charge named like "ANNUAL MEMBERSHIP FEE"; the
+ * latest such posting gives the fee amount and, one year on, the next
+ * renewal. A fee reversed by a matching credit still renews next year.
+ */
+
+export type AnnualFeeSource = 'plaid' | 'detected' | 'manual';
+
+export interface AnnualFeeTransaction {
+  name: string;
+  amount: number;
+  date: string | Date;
+  pending?: boolean | null;
+}
+
+export interface DetectedAnnualFee {
+  amount: number;
+  postedDate: Date;
+  nextDueDate: Date;
+}
+
+// Send renewal reminders this many days before the fee posts
+export const ANNUAL_FEE_LEAD_DAYS = [30, 7];
+// Renewals shown as upcoming on the dashboard
+export const UPCOMING_RENEWAL_DAYS = 60;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+// Issuers post the fee as the whole description. Anchoring at the start keeps
+// merchant charges like "COSTCO MEMBERSHIP FEE" or "GYM ANNUAL FEE" out, which
+// would otherwise be stored as the card's fee and trigger renewal reminders
+const ANNUAL_FEE_PATTERN = /^(annual|yearly)\s+(membership\s+)?fee\b|^annual\s+card\s+fee\b/i;
+
+export function isAnnualFeeTransaction(name: string): boolean {
+  return ANNUAL_FEE_PATTERN.test((name || '').trim());
+}
+
+function toDate(value: string | Date): Date {
+  return typeof value === 'string' ? new Date(value) : value;
+}
+
+function addYears(date: Date, years: number): Date {
+  const next = new Date(date);
+  next.setUTCFullYear(next.getUTCFullYear() + years);
+  return next;
+}
+
+/** The latest posted annual fee, or null when none is in the history. */
+export function detectAnnualFee(transactions: AnnualFeeTransaction[]): DetectedAnnualFee | null {
+  const feeTransactions = transactions
+    .filter(t => !t.pending && isAnnualFeeTransaction(t.name))
+    .map(t => ({ amount: t.amount, date: toDate(t.date) }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  // Reversal credits are ignored: a waived fee still comes back next year
+  const postings = feeTransactions.filter(t => t.amount > 0);
+  const latest = postings[postings.length - 1];
+  if (!latest) return null;
+
+  return {
+    amount: latest.amount,
+    postedDate: latest.date,
+    nextDueDate: addYears(latest.date, 1),
+  };
+}
+
+/** Roll a stored renewal date forward a year at a time until it is today or later. */
+export function nextAnnualFeeDate(dueDate: string | Date, now: Date): Date {
+  const today = Date.parse(now.toISOString().split('T')[0]);
+  let next = new Date(toDate(dueDate).toISOString().split('T')[0]);
+  while (next.getTime() < today) {
+    next = addYears(next, 1);
+  }
+  return next;
+}
+
+// Whole calendar days from today (UTC) until a renewal date
+export function daysUntilRenewal(dueDate: Date, now: Date): number {
+  const today = Date.parse(now.toISOString().split('T')[0]);
+  return Math.round((dueDate.getTime() - today) / DAY_MS);
+}
@@ -0,0 +1,55 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  computeBillingCycles,
+  type BillingCycleCardInput,
+  type BillingCycleData,
+  type BillingCycleTransactionInput,
+} from '@/utils/billingCycleEngine';
+
+// Each fixtures/billing-cycles/<name>.json has a matching <name>.expected.json
+// listing every cycle computeBillingCycles should return, newest first
+const FIXTURE_DIR = path.join(process.cwd(), 'fixtures', 'billing-cycles');
+
+interface CycleFixture {
+  description: string;
+  now: string;
+  card: BillingCycleCardInput;
+  transactions: BillingCycleTransactionInput[];
+}
+
+const day = (date: Date | undefined) => (date ? date.toISOString().slice(0, 10) : null);
+
+function summarizeCycle(cycle: BillingCycleData) {
+  return {
+    startDate: day(cycle.startDate),
+    endDate: day(cycle.endDate),
+    dueDate: day(cycle.dueDate),
+    totalSpend: cycle.totalSpend,
+    transactionCount: cycle.transactioncount,
+    statementBalance: cycle.statementBalance ?? null,
+    minimumPayment: cycle.minimumPayment ?? null,
+    paymentStatus: cycle.paymentStatus,
+  };
+}
+
+const fixtureNames = fs.readdirSync(FIXTURE_DIR)
+  .filter(file => file.endsWith('.json') && !file.endsWith('.expected.json'))
+  .map(file => file.replace(/\.json$/, ''));
+
+describe('computeBillingCycles fixtures', () => {
+  it('finds the fixtures', () => {
+    expect(fixtureNames.length).toBeGreaterThan(0);
+  });
+
+  for (const name of fixtureNames) {
+    const fixture: CycleFixture = JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, `${name}.json`), 'utf8'));
+    const expected = JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, `${name}.expected.json`), 'utf8'));
+
+    it(`${name}: ${fixture.description}`, () => {
+      const cycles = computeBillingCycles(fixture.card, fixture.transactions, { now: new Date(fixture.now) });
+      expect(cycles.map(summarizeCycle)).toEqual(expected.cycles);
+    });
+  }
+});
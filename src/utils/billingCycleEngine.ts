@@ -0,0 +1,673 @@
+/**
+ * Pure billing cycle engine.
+ *
+ * Everything in this module is deterministic: no database access, no network,
+ * and "today" is passed in via options.now. calculateBillingCycles in
+ * billingCycles.ts loads the card, its transactions and its Plaid item, calls
+ * computeBillingCycles and persists the result.
+ */
+
+import { resolveIssuerProfile, type IssuerProfile } from '@/utils/issuerProfiles';
+
+export interface BillingCycleData {
+  id: string;
+  creditCardId: string;
+  creditCardName: string;
+  creditCardMask?: string;
+  startDate: Date;
+  endDate: Date;
+  statementBalance?: number;
+  minimumPayment?: number;
+  dueDate?: Date;
+  totalSpend: number;
+  transactioncount: number;
+  // Set when balance/minimum came from a parsed statement PDF (e.g. 'pdf:chase')
+  statementSource?: string;
+  statementConfidence?: number;
+  paymentStatus?: CyclePaymentStatus;
+}
+
+// Same values as the billing_cycles.paymentStatus check constraint
+export type CyclePaymentStatus = 'current' | 'due' | 'paid' | 'outstanding';
+
+export type CycleDateType = 'same_day' | 'days_before_end' | 'dynamic_anchor';
+
+type DateInput = Date | string | null | undefined;
+
+export interface BillingCycleCardInput {
+  id: string;
+  name: string;
+  mask?: string | null;
+  balanceCurrent?: number | null;
+  lastStatementIssueDate?: DateInput;
+  lastStatementBalance?: number | null;
+  minimumPaymentAmount?: number | null;
+  nextPaymentDueDate?: DateInput;
+  openDate?: DateInput;
+  manual_dates_configured?: boolean | null;
+  cycle_date_type?: CycleDateType | null;
+  due_date_type?: CycleDateType | null;
+  manual_cycle_day?: number | null;
+  manual_due_day?: number | null;
+  cycle_days_before_end?: number | null;
+  // From the card's plaid_items row, used to resolve the issuer profile
+  isManual?: boolean | null;
+  institutionId?: string | null;
+  institutionName?: string | null;
+  // Inferred from transactions (see cycleInference.ts); only used when there is
+  // neither a Plaid statement date nor a manual configuration
+  inferredStatementDate?: DateInput;
+  inferredDueDate?: DateInput;
+}
+
+export interface BillingCycleTransactionInput {
+  name: string;
+  amount: number;
+  date: DateInput;
+  authorizedDate?: DateInput;
+  pending?: boolean | null;
+  // Set by a user transaction rule; the transaction still counts for payment detection
+  excludeFromSpend?: boolean;
+}
+
+export interface StatementPeriodInput {
+  startDate: Date | null;
+  endDate: Date;
+  dueDate?: Date | null;
+  // Parsed from the statement PDF; only set when extraction confidence was sufficient
+  statementBalance?: number | null;
+  minimumPayment?: number | null;
+  source?: string | null;
+  confidence?: number | null;
+}
+
+export interface ComputeBillingCyclesOptions {
+  statementPeriods?: StatementPeriodInput[];
+  baselineDueDate?: Date | null;
+  now?: Date;
+}
+
+interface NormalizedTransaction {
+  name: string;
+  amount: number;
+  date: Date;
+  authorizedDate: Date | null;
+  pending: boolean;
+  excludeFromSpend: boolean;
+  isPayment: boolean;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Helper function to identify payment transactions based on transaction name
+export function isPaymentTransaction(transactionName: string): boolean {
+  if (!transactionName) return false;
+
+  const lowerName = transactionName.toLowerCase();
+
+  // Common payment indicators across different banks
+  const paymentIndicators = [
+    'pymt',           // Capital One payments
+    'payment',        // Amex and other banks (covers "Online Ach Payment Ref")
+    'autopay',        // Automatic payments
+    'mobile pymt',    // Mobile payments
+    'web pymt',       // Web payments
+    'transfer from', // Bank transfers from checking/savings
+    'transfer to checking', // Transfers to checking
+    'transfer to savings', // Transfers to savings
+    'credit card pymt', // Credit card payments
+    'cc pymt',        // Credit card payment abbreviation
+    'bill pay',       // Bill payment
+    'scheduled pymt', // Scheduled payments
+    'recurring pymt', // Recurring payments
+    'automatic debit', // Automatic debits
+    'direct debit',   // Direct debits
+    'e-payment',      // Electronic payments
+    'epayment',       // Electronic payments (no dash)
+    'online pymt',    // Online payments
+    'phone pymt',     // Phone payments
+    'bank pymt',      // Bank payments
+    'ach credit',     // ACH credits (incoming payments to card)
+    'ach debit',      // ACH debits
+    'wire transfer',  // Wire transfers
+    'balance transfer', // Balance transfers (these reduce balance like payments)
+  ];
+
+  // Check for any payment indicator
+  const hasPaymentIndicator = paymentIndicators.some(indicator => lowerName.includes(indicator));
+
+  // Check for "transfer" but exclude "balance transfer fee" or similar fee transactions
+  const isTransferPayment = lowerName.includes('transfer') &&
+                           !lowerName.includes('fee') &&
+                           !lowerName.includes('charge');
+
+  return hasPaymentIndicator || isTransferPayment;
+}
+
+// Generic payment detection plus the issuer's own payment descriptors
+export function isIssuerPaymentTransaction(transactionName: string, profile: IssuerProfile): boolean {
+  return isPaymentTransaction(transactionName) ||
+    profile.paymentDescriptors.some(pattern => pattern.test(transactionName || ''));
+}
+
+/**
+ * Payment status of a cycle: open cycles are 'current'; a closed cycle is
+ * 'paid' once payments posted after its close (and by its due date) cover the
+ * statement balance, or the cycle's spend when no statement balance is known.
+ * Unpaid cycles are 'due' until the due date passes, then 'outstanding'.
+ */
+export function determineCyclePaymentStatus(
+  cycle: Pick<BillingCycleData, 'endDate' | 'dueDate' | 'statementBalance' | 'totalSpend'>,
+  transactions: Array<{ name: string; amount: number; date: Date; pending?: boolean; isPayment?: boolean }>,
+  now: Date
+): CyclePaymentStatus {
+  if (cycle.endDate >= now) return 'current';
+
+  const owed = Math.abs(cycle.statementBalance ?? cycle.totalSpend ?? 0);
+  if (owed <= 0.01) return 'paid';
+
+  // A payment posted on the due date still counts
+  const deadline = cycle.dueDate ? cycle.dueDate.getTime() + DAY_MS : null;
+  const paid = transactions
+    .filter(t => !t.pending && (t.isPayment ?? isPaymentTransaction(t.name)) && t.date > cycle.endDate &&
+      (deadline === null || t.date.getTime() < deadline))
+    .reduce((sum, t) => sum + Math.abs(t.amount), 0);
+
+  if (paid >= owed - 0.01) return 'paid';
+  return deadline !== null && deadline <= now.getTime() ? 'outstanding' : 'due';
+}
+
+function toDate(value: DateInput): Date | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+// Same day-of-month one month later, clamped to the target month's length (Jan 31 -> Feb 28/29)
+export function addOneMonthClamped(date: Date): Date {
+  const m = date.getMonth() + 1;
+  const y = date.getFullYear() + (m > 11 ? 1 : 0);
+  const nextMonth = m % 12;
+  return new Date(y, nextMonth, Math.min(date.getDate(), daysInMonth(y, nextMonth)));
+}
+
+/**
+ * Close of the cycle after the one ending on anchor: the manually configured
+ * closing day in the next month, or the anchor's day one month later.
+ */
+function nextCycleEnd(card: BillingCycleCardInput, anchor: Date): Date {
+  const next = addOneMonthClamped(anchor);
+  if (!card.manual_dates_configured) return next;
+
+  const year = next.getFullYear();
+  const month = next.getMonth();
+  const monthDays = daysInMonth(year, month);
+  if ((card.cycle_date_type === 'same_day' || card.cycle_date_type === 'dynamic_anchor') && card.manual_cycle_day) {
+    return new Date(year, month, Math.min(Number(card.manual_cycle_day), monthDays));
+  }
+  if (card.cycle_date_type === 'days_before_end' && card.cycle_days_before_end) {
+    return new Date(year, month, Math.max(1, monthDays - Number(card.cycle_days_before_end)));
+  }
+  return next;
+}
+
+// Deterministic cycle key, same shape as the ids used for instant-setup cycles
+export function billingCycleKey(creditCardId: string, startDate: Date, endDate: Date): string {
+  return `${creditCardId}_${startDate.toISOString().split('T')[0]}_${endDate.toISOString().split('T')[0]}`;
+}
+
+/**
+ * Most recent closed statement date. Manual cycle configuration wins over
+ * Plaid's lastStatementIssueDate, which wins over an inferred date.
+ */
+export function resolveStatementAnchor(card: BillingCycleCardInput, now: Date): Date | null {
+  const plaidAnchor = toDate(card.lastStatementIssueDate);
+  if (!card.manual_dates_configured) {
+    return plaidAnchor || toDate(card.inferredStatementDate);
+  }
+
+  const cycleDateType = card.cycle_date_type;
+  const currentMonth = now.getMonth();
+  const currentYear = now.getFullYear();
+
+  // Calculate the cycle end day for current month based on user's manual settings
+  let cycleEndDay: number;
+  if (cycleDateType === 'same_day' && card.manual_cycle_day) {
+    // A day past the end of a short month closes on its last day (31 -> Feb 28)
+    cycleEndDay = Math.min(card.manual_cycle_day, daysInMonth(currentYear, currentMonth));
+  } else if (cycleDateType === 'days_before_end' && card.cycle_days_before_end) {
+    cycleEndDay = daysInMonth(currentYear, currentMonth) - card.cycle_days_before_end;
+  } else if (cycleDateType === 'dynamic_anchor' && card.manual_cycle_day) {
+    cycleEndDay = Math.min(card.manual_cycle_day, daysInMonth(currentYear, currentMonth));
+  } else {
+    // Fallback to Plaid data if manual configuration is incomplete
+    cycleEndDay = plaidAnchor ? plaidAnchor.getDate() : 1;
+  }
+
+  // If today >= cycle end day the current month's cycle has closed, otherwise last month's is most recent
+  let targetMonth: number, targetYear: number;
+  if (now.getDate() >= cycleEndDay) {
+    targetMonth = currentMonth;
+    targetYear = currentYear;
+  } else {
+    targetMonth = currentMonth - 1;
+    targetYear = currentMonth === 0 ? currentYear - 1 : currentYear; // Handle January -> December
+  }
+
+  // Recalculate the end day for the target month (month lengths differ)
+  let manualCycleEndDay = cycleEndDay;
+  if (cycleDateType === 'days_before_end' && card.cycle_days_before_end) {
+    manualCycleEndDay = daysInMonth(targetYear, targetMonth) - card.cycle_days_before_end;
+  } else if ((cycleDateType === 'same_day' || cycleDateType === 'dynamic_anchor') && card.manual_cycle_day) {
+    manualCycleEndDay = Math.min(card.manual_cycle_day, daysInMonth(targetYear, targetMonth));
+  }
+
+  return new Date(targetYear, targetMonth, manualCycleEndDay);
+}
+
+/**
+ * Dynamic anchor (Amex-style) cycle length for the cycle ending in currentMonth.
+ */
+function chooseDynamicCycleLength(
+  prevMonthDays: number,
+  currentMonth: number,
+  currentYear: number,
+  currentEndDay: number,
+  closingDay: number,
+  recentLengths: number[]
+): number {
+  // Dec -> Jan: keep 31 to avoid over-correcting around Feb
+  if (currentMonth === 0) {
+    return 31;
+  }
+  // Jan -> Feb (short) and Feb -> Mar (give-back)
+  if (currentMonth === 1) {
+    return daysInMonth(currentYear, 1); // Days in Feb (28 or 29)
+  }
+  if (currentMonth === 2) {
+    return 31;
+  }
+
+  if (prevMonthDays === 30) {
+    return currentEndDay === closingDay ? 31 : 30;
+  }
+
+  if (prevMonthDays === 31) {
+    if (currentEndDay === closingDay) {
+      return 32; // Will be clamped to 31 in practice
+    }
+    // Prefer 31 specifically when current end is in November
+    if (currentMonth === 10) {
+      return 31;
+    }
+    // Stability: break long runs of 30-day cycles
+    if (recentLengths.length >= 2 &&
+        recentLengths[recentLengths.length - 1] === 30 &&
+        recentLengths[recentLengths.length - 2] === 30) {
+      return 31;
+    }
+    return 30;
+  }
+
+  return 30; // Default safeguard
+}
+
+/**
+ * Statement close dates, most recent first: the anchor plus `count` earlier closes.
+ */
+export function generateCycleEndBoundaries(
+  card: BillingCycleCardInput,
+  anchorEnd: Date,
+  count: number = 12
+): Date[] {
+  const cycleDateType = card.cycle_date_type;
+
+  let closingDay = anchorEnd.getDate();
+  if (card.manual_dates_configured && card.manual_cycle_day &&
+      (cycleDateType === 'same_day' || cycleDateType === 'dynamic_anchor')) {
+    closingDay = Number(card.manual_cycle_day);
+  }
+
+  const endBoundaries: Date[] = [];
+
+  if (cycleDateType === 'dynamic_anchor') {
+    endBoundaries.push(new Date(anchorEnd));
+    const recentLengths: number[] = [];
+
+    for (let m = 1; m <= count; m++) {
+      const currentEnd = endBoundaries[m - 1];
+      const currentEndDay = currentEnd.getDate();
+      const currentMonth = currentEnd.getMonth();
+      const currentYear = currentEnd.getFullYear();
+
+      let prevMonth = currentMonth - 1;
+      let prevYear = currentYear;
+      if (prevMonth < 0) {
+        prevMonth = 11;
+        prevYear--;
+      }
+      const prevMonthDays = daysInMonth(prevYear, prevMonth);
+
+      const T = chooseDynamicCycleLength(prevMonthDays, currentMonth, currentYear, currentEndDay, closingDay, recentLengths);
+      recentLengths.push(T);
+
+      // Recurrence: d_prev = d_curr + days_in_prev_month - T, clamped to the month
+      const dPrev = Math.max(1, Math.min(prevMonthDays, currentEndDay + prevMonthDays - T));
+      endBoundaries.push(new Date(prevYear, prevMonth, dPrev));
+    }
+
+    return endBoundaries;
+  }
+
+  // same_day and days_before_end
+  for (let m = 0; m <= count; m++) {
+    // Step back from the 1st of the anchor month so setMonth never overflows (e.g. Mar 31 -> Feb)
+    const d = new Date(anchorEnd.getFullYear(), anchorEnd.getMonth() - m, 1);
+    const year = d.getFullYear();
+    const month = d.getMonth();
+    const monthDays = daysInMonth(year, month);
+
+    let monthClosingDay = closingDay;
+    if (card.manual_dates_configured && cycleDateType === 'days_before_end') {
+      const daysBeforeEnd = Number(card.cycle_days_before_end);
+      if (daysBeforeEnd >= 1 && daysBeforeEnd <= 31) {
+        monthClosingDay = Math.max(1, monthDays - daysBeforeEnd);
+      }
+    }
+
+    endBoundaries.push(new Date(year, month, Math.min(monthClosingDay, monthDays)));
+  }
+
+  return endBoundaries;
+}
+
+/**
+ * Estimate a historical due date for a cycle ending on cycleEnd, using the
+ * day-of-month of the card's current due date (or a 21-day grace period for
+ * dynamic anchor cards).
+ */
+export function estimateHistoricalDueDate(
+  card: BillingCycleCardInput,
+  cycleEnd: Date,
+  baselineDueDate: Date | null
+): Date | null {
+  if (!baselineDueDate) return null;
+  const baselineDay = baselineDueDate.getDate();
+
+  if (card.due_date_type === 'dynamic_anchor') {
+    // Typically 21 days after statement close for dynamic anchor cards
+    const dueDate = new Date(cycleEnd);
+    dueDate.setDate(dueDate.getDate() + 21);
+
+    // If a manual due day is configured, use it when within ±5 days of the calculated due date
+    if (card.manual_due_day) {
+      const targetMonth = dueDate.getMonth();
+      const targetYear = dueDate.getFullYear();
+      const adjustedDueDay = Math.min(Number(card.manual_due_day), daysInMonth(targetYear, targetMonth));
+      const targetDueDate = new Date(targetYear, targetMonth, adjustedDueDay);
+      const daysDiff = Math.abs((targetDueDate.getTime() - dueDate.getTime()) / DAY_MS);
+
+      if (daysDiff <= 5) {
+        return targetDueDate;
+      }
+    }
+
+    return dueDate;
+  }
+
+  const m = cycleEnd.getMonth() + 1;
+  const y = cycleEnd.getFullYear() + (m > 11 ? 1 : 0);
+  const nextMonth = m % 12;
+  return new Date(y, nextMonth, Math.min(baselineDay, daysInMonth(y, nextMonth)));
+}
+
+// Spend excludes payments and rule-excluded transactions but includes refunds (negative amounts)
+function countsTowardSpend(t: NormalizedTransaction): boolean {
+  return !t.isPayment && !t.excludeFromSpend;
+}
+
+function sumSpend(transactions: NormalizedTransaction[]): number {
+  return transactions.reduce((sum, t) => countsTowardSpend(t) ? sum + t.amount : sum, 0);
+}
+
+function buildCycle(
+  card: BillingCycleCardInput,
+  profile: IssuerProfile,
+  cycleStart: Date,
+  cycleEnd: Date,
+  dueDate: Date | null,
+  hasStatementBalance: boolean,
+  transactions: NormalizedTransaction[],
+  now: Date
+): BillingCycleData {
+  // For current cycles, cap the transaction search at today
+  const effectiveEndDate = cycleEnd > now ? now : cycleEnd;
+  const lastStatementDate = toDate(card.lastStatementIssueDate);
+
+  // Some issuers close manual-date cycles on the authorized (posted) date
+  const useAuthorizedDate = !!card.manual_dates_configured && profile.transactionDateRule === 'authorized_date_when_manual';
+
+  const cycleTransactions = transactions.filter(t => {
+    // Exclude pending transactions from all calculations
+    if (t.pending) {
+      return false;
+    }
+    const effectiveDate = useAuthorizedDate && t.authorizedDate ? t.authorizedDate : t.date;
+    return effectiveDate >= cycleStart && effectiveDate <= effectiveEndDate;
+  });
+
+  let totalSpend = sumSpend(cycleTransactions);
+
+  // For open cycles, only count authorized transactions
+  if (cycleEnd > now && !hasStatementBalance) {
+    totalSpend = sumSpend(cycleTransactions.filter(t => t.authorizedDate !== null));
+  }
+
+  let statementBalance: number | null = null;
+  let minimumPayment: number | null = null;
+  // What the statement asked for, even when the displayed balance is the cycle's spend
+  let owedBalance: number | null = null;
+
+  if (hasStatementBalance) {
+    // The statement cycle is the exact Plaid statement close, or a closed cycle still inside its payment window
+    const isClosedCycle = cycleEnd < now;
+    const isWithinPaymentPeriod = !!dueDate && dueDate >= now;
+    const isStatementCycle = (!!lastStatementDate && cycleEnd.getTime() === lastStatementDate.getTime()) ||
+                             (isClosedCycle && isWithinPaymentPeriod);
+
+    if (isStatementCycle) {
+      statementBalance = card.lastStatementBalance ?? null;
+      minimumPayment = card.minimumPaymentAmount ?? null;
+      owedBalance = statementBalance;
+
+      const originalStatementBalance = Math.abs(card.lastStatementBalance || 0);
+      if (originalStatementBalance > 0 && lastStatementDate) {
+        // Payments posted after the statement date (amount sign varies by issuer)
+        const recentPayments = transactions.filter(t => t.date > lastStatementDate && t.isPayment);
+        const totalPayments = recentPayments.reduce((sum, t) => sum + Math.abs(t.amount), 0);
+
+        if (totalPayments > 0) {
+          // Keep the cycle's own spend for display; payment detection only drives the minimum payment
+          statementBalance = totalSpend > 0 ? totalSpend : originalStatementBalance;
+
+          if (Math.max(0, originalStatementBalance - totalPayments) === 0) {
+            minimumPayment = 0;
+          }
+        }
+      }
+    } else {
+      // Historical closed cycle - always use calculated spend from transactions
+      statementBalance = totalSpend > 0 ? totalSpend : 0;
+      minimumPayment = totalSpend > 0 ? Math.max(25, totalSpend * 0.02) : 0; // Estimate 2% minimum payment
+    }
+  }
+
+  const cycle: BillingCycleData = {
+    id: billingCycleKey(card.id, cycleStart, cycleEnd),
+    creditCardId: card.id,
+    creditCardName: card.name,
+    creditCardMask: card.mask || undefined,
+    startDate: cycleStart,
+    endDate: cycleEnd,
+    statementBalance: statementBalance !== null ? statementBalance : undefined,
+    minimumPayment: minimumPayment !== null ? minimumPayment : undefined,
+    dueDate: dueDate || undefined,
+    totalSpend,
+    transactioncount: cycleTransactions.filter(countsTowardSpend).length,
+  };
+  cycle.paymentStatus = determineCyclePaymentStatus(
+    { ...cycle, statementBalance: owedBalance ?? cycle.statementBalance },
+    transactions,
+    now
+  );
+  return cycle;
+}
+
+function applyParsedStatement(
+  cycle: BillingCycleData,
+  period: StatementPeriodInput,
+  transactions: NormalizedTransaction[],
+  now: Date
+): BillingCycleData {
+  if (period.statementBalance == null && period.minimumPayment == null) {
+    return cycle;
+  }
+  const parsed: BillingCycleData = {
+    ...cycle,
+    statementBalance: period.statementBalance ?? cycle.statementBalance,
+    minimumPayment: period.minimumPayment ?? cycle.minimumPayment,
+    statementSource: period.source || undefined,
+    statementConfidence: period.confidence ?? undefined,
+  };
+  // The parsed balance is what was actually owed, so re-check payment against it
+  parsed.paymentStatus = determineCyclePaymentStatus(parsed, transactions, now);
+  return parsed;
+}
+
+/**
+ * Drop cycles that ended before the card existed. For issuers with a short
+ * history window the effective open date is the later of the true open date
+ * and the earliest transaction.
+ */
+function filterCyclesBeforeOpenDate(
+  card: BillingCycleCardInput,
+  profile: IssuerProfile,
+  cycles: BillingCycleData[],
+  transactions: NormalizedTransaction[]
+): BillingCycleData[] {
+  const earliestTxn = transactions.length > 0
+    ? new Date(Math.min(...transactions.map(t => t.date.getTime())))
+    : null;
+  const trueOpen = toDate(card.openDate);
+  const adjustedOpen = profile.historyDays !== null && earliestTxn
+    ? (trueOpen ? (earliestTxn > trueOpen ? earliestTxn : trueOpen) : earliestTxn)
+    : trueOpen;
+
+  return adjustedOpen ? cycles.filter(c => c.endDate >= adjustedOpen) : cycles;
+}
+
+/**
+ * Compute a card's billing cycles, most recent first.
+ *
+ * - With statement periods: one closed cycle per period plus the open cycle
+ * - Without a statement anchor: a single best-effort 60-day current cycle
+ * - Otherwise: 12 closed cycles derived from the anchor (manual, Plaid or inferred)
+ *   and cycle_date_type, plus the open cycle
+ */
+export function computeBillingCycles(
+  card: BillingCycleCardInput,
+  transactions: BillingCycleTransactionInput[],
+  options: ComputeBillingCyclesOptions = {}
+): BillingCycleData[] {
+  const now = options.now || new Date();
+  const profile = resolveIssuerProfile({
+    isManual: card.isManual,
+    institutionId: card.institutionId,
+    institutionName: card.institutionName,
+    cardName: card.name,
+  });
+  const normalized: NormalizedTransaction[] = transactions
+    .map(t => ({
+      name: t.name,
+      amount: t.amount,
+      date: toDate(t.date) as Date,
+      authorizedDate: toDate(t.authorizedDate),
+      pending: t.pending === true,
+      excludeFromSpend: t.excludeFromSpend === true,
+      isPayment: isIssuerPaymentTransaction(t.name, profile),
+    }))
+    .filter(t => t.date !== null);
+
+  const lastStatementDate = resolveStatementAnchor(card, now);
+  // An inferred anchor has no statement behind it, so no cycle carries a statement balance
+  const isInferredAnchor = !!lastStatementDate && !card.manual_dates_configured && !toDate(card.lastStatementIssueDate);
+  const nextDueDate = toDate(card.nextPaymentDueDate) || (isInferredAnchor ? toDate(card.inferredDueDate) : null);
+  const cycles: BillingCycleData[] = [];
+
+  const openCycleFrom = (anchor: Date): BillingCycleData => {
+    const openStart = new Date(anchor);
+    openStart.setDate(openStart.getDate() + 1);
+    // Do not guess a due date for the open cycle
+    return buildCycle(card, profile, openStart, nextCycleEnd(card, anchor), null, false, normalized, now);
+  };
+
+  const sortNewestFirst = (list: BillingCycleData[]) =>
+    list.sort((a, b) => b.startDate.getTime() - a.startDate.getTime());
+
+  // If explicit statement periods are provided, build cycles strictly from them
+  if (options.statementPeriods && options.statementPeriods.length > 0) {
+    const provided = [...options.statementPeriods]
+      .filter(p => p.endDate instanceof Date && !isNaN(p.endDate.getTime()))
+      .sort((a, b) => b.endDate.getTime() - a.endDate.getTime());
+    const baselineDue = options.baselineDueDate || nextDueDate || null;
+
+    for (const period of provided) {
+      // Without a start date there is no proper window for this period
+      if (!period.startDate) {
+        continue;
+      }
+      const isMostRecentClosed = lastStatementDate && period.endDate.getTime() === lastStatementDate.getTime();
+      const due = isMostRecentClosed
+        ? (nextDueDate || null)
+        : (period.dueDate ?? estimateHistoricalDueDate({ ...card, due_date_type: null }, period.endDate, baselineDue));
+      const cycle = buildCycle(card, profile, period.startDate, period.endDate, due, true, normalized, now);
+      // Liabilities data is live for the latest statement; parsed figures win for older ones
+      cycles.push(isMostRecentClosed ? cycle : applyParsedStatement(cycle, period, normalized, now));
+    }
+
+    if (lastStatementDate) {
+      cycles.push(openCycleFrom(lastStatementDate));
+    }
+
+    return sortNewestFirst(filterCyclesBeforeOpenDate(card, profile, cycles, normalized));
+  }
+
+  // No statement anchor: avoid inventing history, only create a best-effort current cycle
+  if (!lastStatementDate) {
+    const sixtyDaysAgo = new Date(now);
+    sixtyDaysAgo.setDate(sixtyDaysAgo.getDate() - 60);
+    cycles.push(buildCycle(card, profile, sixtyDaysAgo, new Date(now), null, false, normalized, now));
+    return sortNewestFirst(filterCyclesBeforeOpenDate(card, profile, cycles, normalized));
+  }
+
+  const anchorEnd = new Date(lastStatementDate);
+  const endBoundaries = generateCycleEndBoundaries(card, anchorEnd, 12);
+
+  // 12 historical closed cycles from consecutive boundaries
+  for (let i = 0; i < 12; i++) {
+    const end = endBoundaries[i];
+    const start = new Date(endBoundaries[i + 1]);
+    start.setDate(start.getDate() + 1);
+    const isAnchor = end.getTime() === anchorEnd.getTime();
+    const due = isAnchor ? (nextDueDate || null) : estimateHistoricalDueDate(card, end, nextDueDate);
+    cycles.push(buildCycle(card, profile, start, end, due, isAnchor && !isInferredAnchor, normalized, now));
+  }
+
+  cycles.push(openCycleFrom(anchorEnd));
+
+  return sortNewestFirst(filterCyclesBeforeOpenDate(card, profile, cycles, normalized));
+}
@@ -0,0 +1,175 @@
+/**
+ * Budgets: spending limits per category and/or card, reset every calendar
+ * month or every billing cycle of a card. Progress is computed from the same
+ * rule-applied transaction set as analytics, with a run-rate projection of
+ * where spend will land by the end of the period.
+ */
+
+import { categoryLabel, countsTowardSpend, type SpendTransaction } from '@/utils/spend';
+
+export type BudgetPeriod = 'monthly' | 'billing_cycle';
+export type BudgetStatus = 'on_track' | 'at_risk' | 'over';
+
+export interface BudgetInput {
+  name: string | null;
+  amount: number;
+  period: BudgetPeriod;
+  // Category label as shown in analytics; null = all categories
+  category: string | null;
+  // null = all cards; required for billing-cycle budgets
+  creditCardId: string | null;
+}
+
+export interface Budget extends BudgetInput {
+  id: string;
+}
+
+export interface BudgetWindow {
+  // Inclusive UTC day bounds
+  start: Date;
+  end: Date;
+}
+
+export interface CycleBounds {
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface BudgetProgress {
+  windowStart: string;
+  windowEnd: string;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  projectedSpend: number;
+  daysElapsed: number;
+  daysInPeriod: number;
+  transactionCount: number;
+  status: BudgetStatus;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_BUDGET_NAME_LENGTH = 60;
+
+export type ValidatedBudget =
+  | { budget: BudgetInput; error: null }
+  | { budget: null; error: string };
+
+/** Validate a budget from a request body; `error` is a message suitable for a 400 response. */
+export function validateBudget(input: Record<string, unknown>): ValidatedBudget {
+  const invalid = (error: string): ValidatedBudget => ({ budget: null, error });
+  const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : null;
+
+  const amount = Number(input.amount);
+  if (!isFinite(amount) || amount <= 0) {
+    return invalid('Amount must be a positive number');
+  }
+
+  const period = input.period ?? 'monthly';
+  if (period !== 'monthly' && period !== 'billing_cycle') {
+    return invalid('period must be monthly or billing_cycle');
+  }
+
+  const category = text(input.category);
+  const creditCardId = text(input.creditCardId);
+  if (!category && !creditCardId) {
+    return invalid('Choose a category, a card or both');
+  }
+  if (period === 'billing_cycle' && !creditCardId) {
+    return invalid('Billing cycle budgets need a card');
+  }
+
+  return {
+    budget: {
+      name: text(input.name)?.slice(0, MAX_BUDGET_NAME_LENGTH) ?? null,
+      amount: Math.round(amount * 100) / 100,
+      period,
+      category,
+      creditCardId,
+    },
+    error: null,
+  };
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/** The calendar month containing `now`. */
+export function monthlyBudgetWindow(now: Date): BudgetWindow {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0)),
+  };
+}
+
+/**
+ * The billing cycle containing `now`. When the latest stored cycle has already
+ * closed (cycles are only recalculated on sync), it is rolled forward by its
+ * own length. Returns null when the card has no cycles yet.
+ */
+export function cycleBudgetWindow(cycles: CycleBounds[], now: Date): BudgetWindow | null {
+  const today = startOfUtcDay(now);
+  const latest = cycles
+    .filter(c => startOfUtcDay(c.startDate) <= today)
+    .sort((a, b) => b.startDate.getTime() - a.startDate.getTime())[0];
+  if (!latest) return null;
+
+  let start = startOfUtcDay(latest.startDate);
+  let end = startOfUtcDay(latest.endDate);
+  const lengthDays = Math.max(1, Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1);
+  while (end < today) {
+    start = new Date(end.getTime() + DAY_MS);
+    end = new Date(start.getTime() + (lengthDays - 1) * DAY_MS);
+  }
+  return { start, end };
+}
+
+export function budgetMatchesTransaction(budget: BudgetInput, transaction: SpendTransaction): boolean {
+  if (budget.creditCardId && transaction.creditCardId !== budget.creditCardId) return false;
+  if (budget.category && categoryLabel(transaction) !== budget.category) return false;
+  return countsTowardSpend(transaction);
+}
+
+export function computeBudgetProgress(
+  budget: BudgetInput,
+  window: BudgetWindow,
+  transactions: SpendTransaction[],
+  now: Date
+): BudgetProgress {
+  const windowEndExclusive = window.end.getTime() + DAY_MS;
+  const matching = transactions.filter(t =>
+    t.date.getTime() >= window.start.getTime() &&
+    t.date.getTime() < windowEndExclusive &&
+    budgetMatchesTransaction(budget, t)
+  );
+  const spent = Math.round(matching.reduce((sum, t) => sum + t.amount, 0) * 100) / 100;
+
+  const daysInPeriod = Math.round((window.end.getTime() - window.start.getTime()) / DAY_MS) + 1;
+  const daysElapsed = Math.min(
+    daysInPeriod,
+    Math.max(1, Math.round((startOfUtcDay(now).getTime() - window.start.getTime()) / DAY_MS) + 1)
+  );
+  // Run-rate: spend so far per elapsed day, carried to the end of the period
+  const projectedSpend = Math.round((Math.max(0, spent) / daysElapsed) * daysInPeriod * 100) / 100;
+
+  let status: BudgetStatus = 'on_track';
+  if (spent > budget.amount) {
+    status = 'over';
+  } else if (projectedSpend > budget.amount) {
+    status = 'at_risk';
+  }
+
+  return {
+    windowStart: window.start.toISOString(),
+    windowEnd: window.end.toISOString(),
+    spent,
+    remaining: Math.round((budget.amount - spent) * 100) / 100,
+    percentUsed: budget.amount > 0 ? Math.round((spent / budget.amount) * 1000) / 10 : 0,
+    projectedSpend,
+    daysElapsed,
+    daysInPeriod,
+    transactionCount: matching.length,
+    status,
+  };
+}
@@ -0,0 +1,257 @@
+/**
+ * Issuer-agnostic billing cycle inference.
+ *
+ * For cards without a Plaid statement date or manual cycle settings, infer the
+ * statement closing day from stored transactions using several independent
+ * signals (payment timing, rewards postings, spend volume, spending gaps and
+ * the current balance). Each signal yields a pattern with a confidence; the
+ * most confident one wins.
+ */
+
+import { isPaymentTransaction } from '@/utils/billingCycleEngine';
+
+export type CycleInferenceMethod =
+  | 'payment_pattern'
+  | 'rewards_pattern'
+  | 'volume_pattern'
+  | 'gap_pattern'
+  | 'balance_inference';
+
+export interface CyclePattern {
+  statementDay: number;
+  dueDay: number;
+  confidence: number;
+  method: CycleInferenceMethod;
+}
+
+export interface CycleInferenceTransaction {
+  name: string;
+  amount: number;
+  date: Date | string;
+  pending?: boolean | null;
+  // Plaid personal finance primary category
+  category?: string | null;
+}
+
+export interface CycleInferenceCard {
+  balanceCurrent?: number | null;
+  balanceLimit?: number | null;
+}
+
+// Below this an inferred pattern is recorded but does not drive cycles
+export const MIN_INFERRED_CYCLE_CONFIDENCE = 0.55;
+
+// Statements are typically due about 25 days after they close
+const DUE_OFFSET_DAYS = 25;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+interface DatedTransaction {
+  name: string;
+  amount: number;
+  date: Date;
+  category: string;
+}
+
+function wrapDay(day: number): number {
+  if (day > 31) return day - 31;
+  if (day <= 0) return day + 30;
+  return day;
+}
+
+function dueDayFor(statementDay: number): number {
+  return wrapDay(statementDay + DUE_OFFSET_DAYS);
+}
+
+// Most frequent key; ties go to the first seen
+function mostFrequent(values: number[]): { value: number; count: number } | null {
+  const counts = new Map<number, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+
+  let best: { value: number; count: number } | null = null;
+  counts.forEach((count, value) => {
+    if (!best || count > best.count) {
+      best = { value, count };
+    }
+  });
+  return best;
+}
+
+/**
+ * Payments cluster around the due date even when always paid on time, so the
+ * statement closed about 25 days before the usual payment day.
+ */
+function detectPaymentPattern(transactions: DatedTransaction[]): CyclePattern | null {
+  const payments = transactions.filter(t =>
+    t.amount < 0 && (isPaymentTransaction(t.name) || t.category === 'TRANSFER_IN')
+  );
+  if (payments.length < 3) return null;
+
+  // Group within a 3-day window for weekends and holidays
+  const peak = mostFrequent(payments.map(p => Math.max(1, Math.round(p.date.getDate() / 3) * 3)));
+  if (!peak || peak.count < 2) return null;
+
+  return {
+    statementDay: wrapDay(peak.value - DUE_OFFSET_DAYS),
+    dueDay: Math.min(peak.value, 31),
+    confidence: Math.min(0.8, 0.4 + peak.count * 0.1),
+    method: 'payment_pattern',
+  };
+}
+
+/** Cashback and statement credits usually post with the statement. */
+function detectRewardsPattern(transactions: DatedTransaction[]): CyclePattern | null {
+  const rewards = transactions.filter(t => {
+    const name = t.name.toLowerCase();
+    return t.amount < 0 && t.amount > -100 && (
+      name.includes('cashback') ||
+      name.includes('cash back') ||
+      name.includes('reward') ||
+      name.includes('points') ||
+      name.includes('credit adjustment') ||
+      name.includes('statement credit') ||
+      t.category === 'CREDIT_CARD_REWARD'
+    );
+  });
+  if (rewards.length < 2) return null;
+
+  const peak = mostFrequent(rewards.map(r => r.date.getDate()));
+  if (!peak || peak.count < 2) return null;
+
+  return {
+    statementDay: peak.value,
+    dueDay: dueDayFor(peak.value),
+    confidence: 0.6,
+    method: 'rewards_pattern',
+  };
+}
+
+/** Spending often dips around the statement close; pick the quietest day of the month. */
+function detectVolumePattern(purchases: DatedTransaction[]): CyclePattern | null {
+  const byDay = new Map<number, number[]>();
+  purchases.forEach(t => {
+    const day = t.date.getDate();
+    byDay.set(day, [...(byDay.get(day) || []), t.amount]);
+  });
+  if (byDay.size === 0) return null;
+
+  const averages = [...byDay.entries()].map(([day, amounts]) => ({
+    day,
+    average: amounts.reduce((sum, a) => sum + a, 0) / amounts.length,
+  }));
+  const overall = averages.reduce((sum, d) => sum + d.average, 0) / averages.length;
+  const quietest = averages
+    .filter(d => d.average < overall * 0.5)
+    .sort((a, b) => a.average - b.average)[0];
+  if (!quietest) return null;
+
+  return {
+    statementDay: quietest.day,
+    dueDay: dueDayFor(quietest.day),
+    confidence: 0.5,
+    method: 'volume_pattern',
+  };
+}
+
+/** Recurring multi-day gaps in spending that start on the same day of the month. */
+function detectTransactionGaps(purchases: DatedTransaction[]): CyclePattern | null {
+  if (purchases.length < 30) return null;
+
+  const sorted = [...purchases].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const gapStartDays: number[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    const gapDays = Math.floor((sorted[i].date.getTime() - sorted[i - 1].date.getTime()) / DAY_MS);
+    if (gapDays >= 3) {
+      gapStartDays.push(sorted[i - 1].date.getDate());
+    }
+  }
+  if (gapStartDays.length < 3) return null;
+
+  const peak = mostFrequent(gapStartDays);
+  if (!peak || peak.count < 2) return null;
+
+  return {
+    statementDay: peak.value,
+    dueDay: dueDayFor(peak.value),
+    confidence: 0.4,
+    method: 'gap_pattern',
+  };
+}
+
+/** A balance far below the limit suggests a payment in the last few days. */
+function detectBalancePattern(card: CycleInferenceCard, now: Date): CyclePattern | null {
+  const balance = card.balanceCurrent ?? 0;
+  const limit = card.balanceLimit ?? 0;
+  if (limit <= 0 || balance >= limit * 0.1) return null;
+
+  const today = now.getDate();
+  const paymentDay = today <= 5 ? today + 25 : today - 5;
+  return {
+    statementDay: wrapDay(paymentDay - DUE_OFFSET_DAYS),
+    dueDay: paymentDay,
+    confidence: 0.3,
+    method: 'balance_inference',
+  };
+}
+
+/**
+ * Infer a card's cycle from its last ~6 months of transactions. Returns the
+ * most confident signal, or null when none fires.
+ */
+export function inferCyclePattern(
+  transactions: CycleInferenceTransaction[],
+  card: CycleInferenceCard = {},
+  now: Date = new Date()
+): CyclePattern | null {
+  const since = new Date(now);
+  since.setMonth(since.getMonth() - 6);
+
+  const dated: DatedTransaction[] = transactions
+    .filter(t => !t.pending)
+    .map(t => ({
+      name: t.name || '',
+      amount: t.amount,
+      date: t.date instanceof Date ? t.date : new Date(t.date),
+      category: t.category || '',
+    }))
+    .filter(t => !isNaN(t.date.getTime()) && t.date >= since && t.date <= now);
+  const purchases = dated.filter(t => t.amount > 0 && !isPaymentTransaction(t.name));
+
+  // Listed in order of reliability so ties keep the stronger signal
+  const candidates = [
+    detectPaymentPattern(dated),
+    detectRewardsPattern(dated),
+    detectVolumePattern(purchases),
+    detectTransactionGaps(purchases),
+    detectBalancePattern(card, now),
+  ].filter((p): p is CyclePattern => p !== null);
+
+  return candidates.reduce<CyclePattern | null>(
+    (best, pattern) => !best || pattern.confidence > best.confidence ? pattern : best,
+    null
+  );
+}
+
+function clampedDate(year: number, month: number, day: number): Date {
+  return new Date(year, month, Math.min(day, new Date(year, month + 1, 0).getDate()));
+}
+
+/**
+ * Most recent statement close on or before `now` for an inferred statement
+ * day, and the first due day after it.
+ */
+export function inferredCycleDates(
+  pattern: Pick<CyclePattern, 'statementDay' | 'dueDay'>,
+  now: Date
+): { statementDate: Date; dueDate: Date } {
+  let statementDate = clampedDate(now.getFullYear(), now.getMonth(), pattern.statementDay);
+  if (statementDate > now) {
+    statementDate = clampedDate(now.getFullYear(), now.getMonth() - 1, pattern.statementDay);
+  }
+
+  let dueDate = clampedDate(statementDate.getFullYear(), statementDate.getMonth(), pattern.dueDay);
+  if (dueDate <= statementDate) {
+    dueDate = clampedDate(statementDate.getFullYear(), statementDate.getMonth() + 1, pattern.dueDay);
+  }
+
+  return { statementDate, dueDate };
+}
@@ -0,0 +1,266 @@
+/**
+ * Data export formats for GET /api/user/export.
+ *
+ * Parses the export filters and renders transactions as CSV or OFX/QFX
+ * (OFX 1.02 SGML, one credit card statement per card). The JSON archive is
+ * assembled by the service and serialised as-is.
+ */
+
+export type ExportFormat = 'csv' | 'ofx' | 'qfx' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ofx', 'qfx', 'json'];
+
+export interface ExportQuery {
+  format: ExportFormat;
+  // Empty = every card the user owns
+  cardIds: string[];
+  // YYYY-MM-DD, inclusive
+  startDate: string | null;
+  endDate: string | null;
+}
+
+export type ParsedExportQuery =
+  | { query: ExportQuery; error: null }
+  | { query: null; error: string };
+
+export interface ExportCard {
+  id: string;
+  name: string;
+  mask: string | null;
+  accountId: string;
+  balanceCurrent: number | null;
+  isoCurrencyCode: string | null;
+}
+
+export interface ExportTransaction {
+  transactionId: string;
+  creditCardId: string | null;
+  // Plaid sign convention: positive = purchase, negative = payment or credit
+  amount: number;
+  isoCurrencyCode: string | null;
+  date: string;
+  authorizedDate: string | null;
+  name: string;
+  merchantName: string | null;
+  category: string | null;
+  subcategory: string | null;
+  pending: boolean | null;
+}
+
+/** Validate the export search params; `error` is a message suitable for a 400 response. */
+export function parseExportQuery(params: URLSearchParams): ParsedExportQuery {
+  const invalid = (error: string): ParsedExportQuery => ({ query: null, error });
+
+  const format = (params.get('format') || 'csv').toLowerCase();
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    return invalid(`Unsupported export format: ${format}`);
+  }
+
+  const cardIds = params.getAll('cardId')
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(Boolean);
+
+  const startDate = parseOptionalDay(params.get('startDate'));
+  const endDate = parseOptionalDay(params.get('endDate'));
+  if (startDate === 'invalid' || endDate === 'invalid') {
+    return invalid('startDate and endDate must be valid dates');
+  }
+  if (startDate && endDate && startDate > endDate) {
+    return invalid('startDate cannot be after endDate');
+  }
+
+  return {
+    query: { format: format as ExportFormat, cardIds, startDate, endDate },
+    error: null,
+  };
+}
+
+function parseOptionalDay(value: string | null): string | null {
+  if (!value) return null;
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? 'invalid' : parsed.toISOString().split('T')[0];
+}
+
+export function exportFileName(format: ExportFormat, now: Date = new Date()): string {
+  return `cardcycle-export-${now.toISOString().split('T')[0]}.${format}`;
+}
+
+export function exportContentType(format: ExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return 'text/csv; charset=utf-8';
+    case 'ofx':
+      return 'application/x-ofx';
+    case 'qfx':
+      return 'application/vnd.intu.qfx';
+    case 'json':
+      return 'application/json; charset=utf-8';
+  }
+}
+
+const CSV_COLUMNS = [
+  'Date',
+  'Authorized Date',
+  'Card',
+  'Card Mask',
+  'Description',
+  'Merchant',
+  'Category',
+  'Subcategory',
+  'Amount',
+  'Currency',
+  'Pending',
+  'Transaction ID',
+];
+
+/**
+ * Quote fields containing separators, and neutralise text starting with a
+ * formula character so spreadsheets do not evaluate merchant names.
+ */
+function csvField(value: string | number | boolean | null | undefined, isText = true): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (isText && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per transaction, newest first as given; amounts keep Plaid's sign. */
+export function transactionsToCsv(transactions: ExportTransaction[], cards: ExportCard[]): string {
+  const cardsById = new Map(cards.map(card => [card.id, card]));
+  const rows = transactions.map(t => {
+    const card = t.creditCardId ? cardsById.get(t.creditCardId) : undefined;
+    return [
+      csvField(t.date.split('T')[0]),
+      csvField(t.authorizedDate?.split('T')[0]),
+      csvField(card?.name),
+      csvField(card?.mask),
+      csvField(t.name),
+      csvField(t.merchantName),
+      csvField(t.category),
+      csvField(t.subcategory),
+      csvField(Number(t.amount).toFixed(2), false),
+      csvField(t.isoCurrencyCode || 'USD'),
+      csvField(t.pending ? 'true' : 'false'),
+      csvField(t.transactionId),
+    ].join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+export interface OfxOptions {
+  startDate: string | null;
+  endDate: string | null;
+  now?: Date;
+  // Quicken's bank id; only written for QFX
+  intuBid?: string | null;
+}
+
+function ofxDate(value: string | Date): string {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  return date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+function ofxText(value: string, maxLength: number): string {
+  return value
+    .slice(0, maxLength)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * OFX 1.02 credit card statements. OFX amounts are from the account holder's
+ * side, so Plaid's signs flip: purchases are negative DEBITs and payments
+ * positive CREDITs. Pending transactions are left out since their ids change
+ * when they post.
+ */
+export function transactionsToOfx(
+  transactions: ExportTransaction[],
+  cards: ExportCard[],
+  { startDate, endDate, now = new Date(), intuBid = null }: OfxOptions
+): string {
+  const posted = transactions.filter(t => !t.pending);
+  const dates = posted.map(t => t.date.split('T')[0]).sort();
+  const rangeStart = startDate || dates[0] || now.toISOString().split('T')[0];
+  const rangeEnd = endDate || now.toISOString().split('T')[0];
+
+  const statements = cards.map(card => {
+    const cardTransactions = posted
+      .filter(t => t.creditCardId === card.id)
+      .map(t => {
+        const amount = -Number(t.amount);
+        return [
+          '<STMTTRN>',
+          `<TRNTYPE>${amount < 0 ? 'DEBIT' : 'CREDIT'}`,
+          `<DTPOSTED>${ofxDate(t.date.split('T')[0])}`,
+          `<TRNAMT>${amount.toFixed(2)}`,
+          `<FITID>${ofxText(t.transactionId, 255)}`,
+          `<NAME>${ofxText(t.merchantName || t.name, 32)}`,
+          `<MEMO>${ofxText(t.name, 255)}`,
+          '</STMTTRN>',
+        ].join('\n');
+      });
+
+    return [
+      '<CCSTMTTRNRS>',
+      '<TRNUID>0',
+      '<STATUS>',
+      '<CODE>0',
+      '<SEVERITY>INFO',
+      '</STATUS>',
+      '<CCSTMTRS>',
+      `<CURDEF>${card.isoCurrencyCode || 'USD'}`,
+      '<CCACCTFROM>',
+      `<ACCTID>${ofxText(card.mask || card.accountId, 22)}`,
+      '</CCACCTFROM>',
+      '<BANKTRANLIST>',
+      `<DTSTART>${ofxDate(rangeStart)}`,
+      `<DTEND>${ofxDate(rangeEnd)}`,
+      ...cardTransactions,
+      '</BANKTRANLIST>',
+      '<LEDGERBAL>',
+      `<BALAMT>${(-(card.balanceCurrent ?? 0)).toFixed(2)}`,
+      `<DTASOF>${ofxDate(now)}`,
+      '</LEDGERBAL>',
+      '</CCSTMTRS>',
+      '</CCSTMTTRNRS>',
+    ].join('\n');
+  });
+
+  const header = [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:USASCII',
+    'CHARSET:1252',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+  ].join('\n');
+
+  return [
+    header,
+    '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1>',
+    '<SONRS>',
+    '<STATUS>',
+    '<CODE>0',
+    '<SEVERITY>INFO',
+    '</STATUS>',
+    `<DTSERVER>${ofxDate(now)}`,
+    '<LANGUAGE>ENG',
+    ...(intuBid ? [`<INTU.BID>${ofxText(intuBid, 32)}`] : []),
+    '</SONRS>',
+    '</SIGNONMSGSRSV1>',
+    '<CREDITCARDMSGSRSV1>',
+    ...statements,
+    '</CREDITCARDMSGSRSV1>',
+    '</OFX>',
+    '',
+  ].join('\n');
+}
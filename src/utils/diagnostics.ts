@@ -0,0 +1,325 @@
+/**
+ * Diagnostics toolkit: typed checks and repairs for support and debugging.
+ *
+ * A diagnostic is a named check (reads data and reports findings) or repair
+ * (changes data and reports what it changed). Each declares its scope - one
+ * user's data or the whole database - and the parameters it takes, which are
+ * validated here before it runs. Repairs run as a dry run unless the caller
+ * asks to apply them, and every run comes back as the same structured result
+ * for the admin page and `npm run debug`.
+ */
+
+import type { AdminPermission } from '@/utils/adminRoles';
+
+export type DiagnosticKind = 'check' | 'repair';
+
+// 'user' diagnostics look at one user's cards; 'global' ones at everything
+export type DiagnosticScope = 'user' | 'global';
+
+export type DiagnosticSeverity = 'info' | 'warning' | 'error';
+
+export type DiagnosticStatus = 'ok' | 'warning' | 'error';
+
+export type DiagnosticParamSpec =
+  | { type: 'string'; description: string; default?: string }
+  | { type: 'number'; description: string; default?: number; min?: number }
+  | { type: 'boolean'; description: string; default?: boolean }
+  | { type: 'enum'; description: string; options: readonly string[]; default?: string };
+
+export type DiagnosticParamSpecs = Record<string, DiagnosticParamSpec>;
+
+type ParamValue<S extends DiagnosticParamSpec> =
+  S extends { type: 'number' } ? number
+    : S extends { type: 'boolean' } ? boolean
+      : S extends { type: 'enum'; options: readonly (infer O)[] } ? O
+        : string;
+
+// Parameters with a default are always present; the rest may be undefined
+export type DiagnosticParams<P extends DiagnosticParamSpecs> = {
+  [K in keyof P]: P[K] extends { default: unknown } ? ParamValue<P[K]> : ParamValue<P[K]> | undefined;
+};
+
+export interface DiagnosticFinding {
+  severity: DiagnosticSeverity;
+  // Stable machine-readable id, e.g. 'SPEND_MISMATCH'
+  code: string;
+  message: string;
+  // What the finding is about, e.g. a card name or cycle period
+  subject?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface DiagnosticChange {
+  subject: string;
+  // What changes, e.g. 'openDate' or 'enqueue item_sync'
+  field: string;
+  from: unknown;
+  to: unknown;
+  // False on a dry run, or when applying it failed (see error)
+  applied: boolean;
+  error?: string;
+}
+
+// What a diagnostic's run function returns; runDiagnostic wraps it in a result
+export interface DiagnosticOutcome {
+  summary: string;
+  findings?: DiagnosticFinding[];
+  changes?: DiagnosticChange[];
+  data?: Record<string, unknown>;
+}
+
+export interface DiagnosticContext<P extends DiagnosticParamSpecs> {
+  // The user under inspection; null for global diagnostics
+  userId: string | null;
+  params: DiagnosticParams<P>;
+  // Always false for checks
+  dryRun: boolean;
+}
+
+export interface DiagnosticDefinition<P extends DiagnosticParamSpecs = DiagnosticParamSpecs> {
+  name: string;
+  kind: DiagnosticKind;
+  scope: DiagnosticScope;
+  description: string;
+  // Needed to run it; a repair's dry run only needs 'read'
+  permission: AdminPermission;
+  params: P;
+  // Debug routes and scripts this replaces, for anyone looking for the old names
+  replaces?: string[];
+  run(context: DiagnosticContext<P>): Promise<DiagnosticOutcome>;
+}
+
+// What GET /api/admin/diagnostics lists
+export type DiagnosticSummary = Omit<DiagnosticDefinition, 'run'>;
+
+export interface DiagnosticResult {
+  name: string;
+  kind: DiagnosticKind;
+  scope: DiagnosticScope;
+  userId: string | null;
+  dryRun: boolean;
+  params: Record<string, unknown>;
+  status: DiagnosticStatus;
+  summary: string;
+  findings: DiagnosticFinding[];
+  changes: DiagnosticChange[];
+  data: Record<string, unknown> | null;
+  startedAt: string;
+  durationMs: number;
+}
+
+/**
+ * Declare a diagnostic. Keeps the literal parameter specs so `run` sees typed
+ * parameters, then widens the definition for the registry.
+ */
+export function defineDiagnostic<const P extends DiagnosticParamSpecs>(definition: DiagnosticDefinition<P>): DiagnosticDefinition {
+  return definition as unknown as DiagnosticDefinition;
+}
+
+export type ParsedDiagnosticParams =
+  | { params: Record<string, unknown>; error: null }
+  | { params: null; error: string };
+
+/**
+ * Validate raw parameters (a JSON body or `key=value` strings from the CLI)
+ * against the specs, filling in defaults. Unknown names are rejected so a typo
+ * cannot silently widen a repair; `error` is a message suitable for a 400.
+ */
+export function parseDiagnosticParams(specs: DiagnosticParamSpecs, raw: Record<string, unknown>): ParsedDiagnosticParams {
+  const invalid = (error: string): ParsedDiagnosticParams => ({ params: null, error });
+
+  const unknown = Object.keys(raw).filter(name => !(name in specs));
+  if (unknown.length > 0) {
+    return invalid(`Unknown parameter${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}`);
+  }
+
+  const params: Record<string, unknown> = {};
+  for (const [name, spec] of Object.entries(specs)) {
+    const value = raw[name];
+    if (value === undefined || value === null || value === '') {
+      params[name] = spec.default;
+      continue;
+    }
+
+    switch (spec.type) {
+      case 'number': {
+        const number = typeof value === 'number' ? value : Number(value);
+        if (!isFinite(number)) return invalid(`${name} must be a number`);
+        if (spec.min !== undefined && number < spec.min) return invalid(`${name} must be at least ${spec.min}`);
+        params[name] = number;
+        break;
+      }
+      case 'boolean':
+        if (value === true || value === 'true' || value === '1') params[name] = true;
+        else if (value === false || value === 'false' || value === '0') params[name] = false;
+        else return invalid(`${name} must be true or false`);
+        break;
+      case 'enum':
+        if (typeof value !== 'string' || !spec.options.includes(value)) {
+          return invalid(`${name} must be one of: ${spec.options.join(', ')}`);
+        }
+        params[name] = value;
+        break;
+      default:
+        if (typeof value !== 'string') return invalid(`${name} must be a string`);
+        params[name] = value.trim();
+    }
+  }
+  return { params, error: null };
+}
+
+/** Worst of the findings and failed changes. */
+export function diagnosticStatus(findings: DiagnosticFinding[], changes: DiagnosticChange[]): DiagnosticStatus {
+  if (findings.some(f => f.severity === 'error') || changes.some(c => c.error)) return 'error';
+  if (findings.some(f => f.severity === 'warning')) return 'warning';
+  return 'ok';
+}
+
+/**
+ * An ilike pattern that matches the email exactly, ignoring case and
+ * surrounding whitespace: `%` and `_` would otherwise act as wildcards.
+ */
+export function emailLikePattern(email: string): string {
+  return email.trim().replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/** A card as findings and changes name it. */
+export function cardLabel(card: { name: string; mask: string | null }): string {
+  return card.mask ? `${card.name} (${card.mask})` : card.name;
+}
+
+/** YYYY-MM-DD, or null. */
+export function isoDay(value: string | Date | null): string | null {
+  return value ? new Date(value).toISOString().split('T')[0] : null;
+}
+
+/** Whole days between two dates, ignoring the time of day. */
+export function daysBetween(from: Date, to: Date): number {
+  const day = (date: Date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return Math.round((day(to) - day(from)) / (24 * 60 * 60 * 1000));
+}
+
+export type OpenDateIssue = 'missing' | 'future' | 'drifted';
+
+/**
+ * What is wrong with a card's open date, if anything. An open date after the
+ * card's first transaction, or more than `maxDriftDays` before it, is treated
+ * as drifted: cycles are generated from the open date, so either way the
+ * oldest cycles come out wrong.
+ */
+export function openDateIssue(
+  openDate: Date | null,
+  earliestTransaction: Date | null,
+  now: Date,
+  maxDriftDays: number
+): OpenDateIssue | null {
+  if (!openDate) return 'missing';
+  if (openDate > now) return 'future';
+  if (earliestTransaction) {
+    const drift = daysBetween(openDate, earliestTransaction);
+    if (drift < 0 || drift > maxDriftDays) return 'drifted';
+  }
+  return null;
+}
+
+export type OpenDateEstimateMethod = 'earliest_transaction' | 'statement_minus_6_months' | 'one_year_ago';
+
+/**
+ * Best guess at when a card was opened: `leadDays` before its first
+ * transaction, else six months before its last statement, else a year ago.
+ */
+export function estimateOpenDate(
+  earliestTransaction: Date | null,
+  lastStatementDate: Date | null,
+  now: Date,
+  leadDays: number
+): { date: Date; method: OpenDateEstimateMethod } {
+  if (earliestTransaction) {
+    const date = new Date(earliestTransaction);
+    date.setDate(date.getDate() - leadDays);
+    return { date, method: 'earliest_transaction' };
+  }
+  if (lastStatementDate && lastStatementDate <= now) {
+    const date = new Date(lastStatementDate);
+    date.setMonth(date.getMonth() - 6);
+    return { date, method: 'statement_minus_6_months' };
+  }
+  const date = new Date(now);
+  date.setFullYear(date.getFullYear() - 1);
+  return { date, method: 'one_year_ago' };
+}
+
+export interface CycleSpendInput {
+  startDate: string;
+  endDate: string;
+  totalSpend: number | null;
+  statementBalance: number | null;
+}
+
+export interface CycleSpendCard {
+  balanceCurrent: number | null;
+  lastStatementBalance: number | null;
+  lastStatementIssueDate: string | null;
+}
+
+export interface CycleSpendAssessment {
+  isCurrentCycle: boolean;
+  isHistoricalCycle: boolean;
+  transactionCount: number;
+  // Charges minus refunds in the cycle, payments excluded
+  transactionSpend: number;
+  expectedSpend: number;
+  expectedStatementBalance: number | null;
+}
+
+/**
+ * What a stored cycle's spend and statement balance should be. The current
+ * cycle's spend is the balance accrued since the last statement; closed
+ * cycles use their transactions, except the cycle that ends on the last
+ * statement date, which takes the statement balance itself.
+ */
+export function assessCycleSpend(
+  cycle: CycleSpendInput,
+  card: CycleSpendCard,
+  transactions: Array<{ date: string; name: string; amount: number }>,
+  isPayment: (name: string) => boolean,
+  now: Date
+): CycleSpendAssessment {
+  const start = new Date(cycle.startDate);
+  const end = new Date(cycle.endDate);
+  const isCurrentCycle = now >= start && now <= end;
+  const isHistoricalCycle = end < now;
+  const effectiveEnd = end > now ? now : end;
+
+  const inCycle = transactions.filter(t => {
+    const date = new Date(t.date);
+    return date >= start && date <= effectiveEnd;
+  });
+  const transactionSpend = inCycle.reduce((sum, t) => isPayment(t.name) ? sum : sum + t.amount, 0);
+
+  let expectedSpend = transactionSpend;
+  let expectedStatementBalance = cycle.statementBalance;
+
+  if (isCurrentCycle && card.balanceCurrent && card.lastStatementBalance) {
+    expectedSpend = Math.max(0, Math.abs(card.balanceCurrent) - Math.abs(card.lastStatementBalance));
+    // The current cycle has no statement yet
+    expectedStatementBalance = null;
+  } else if (isHistoricalCycle) {
+    const lastStatement = card.lastStatementIssueDate ? new Date(card.lastStatementIssueDate) : null;
+    if (lastStatement && end.getTime() === lastStatement.getTime() && card.lastStatementBalance) {
+      expectedStatementBalance = Math.abs(card.lastStatementBalance);
+      expectedSpend = expectedStatementBalance;
+    } else if (transactionSpend > 0 && !expectedStatementBalance) {
+      expectedStatementBalance = transactionSpend;
+    }
+  }
+
+  return {
+    isCurrentCycle,
+    isHistoricalCycle,
+    transactionCount: inCycle.length,
+    transactionSpend,
+    expectedSpend,
+    expectedStatementBalance,
+  };
+}
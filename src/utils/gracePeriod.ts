@@ -0,0 +1,139 @@
+import {
+  isIssuerPaymentTransaction,
+  type BillingCycleData,
+  type BillingCycleTransactionInput,
+} from '@/utils/billingCycleEngine';
+import type { IssuerProfile } from '@/utils/issuerProfiles';
+
+/**
+ * Grace period tracking.
+ *
+ * Purchases are interest-free only while every statement balance is paid in
+ * full by its due date. Missing one loses the grace period: new purchases
+ * accrue interest from the day they post, and even paying in full leaves
+ * "trailing" interest on the next statement for the days before the payment.
+ * Most issuers restore the grace period after one or two statements paid in
+ * full.
+ */
+
+// active: paid in full, purchases are interest-free
+// lost: the latest statement was not paid in full by its due date
+// restoring: the latest statement was paid in full after a missed one
+// unknown: no closed cycle with a past due date yet
+export type GracePeriodState = 'active' | 'lost' | 'restoring' | 'unknown';
+
+export interface GracePeriodStatus {
+  state: GracePeriodState;
+  // Due date of the statement that was missed, for lost/restoring
+  lostDueDate: Date | null;
+  // Interest accrued since the last statement close that will appear on the next statement; null without an APR
+  trailingInterestEstimate: number | null;
+}
+
+export interface GracePeriodInput {
+  cycles: BillingCycleData[];
+  transactions: BillingCycleTransactionInput[];
+  // Recognises the issuer's own payment descriptors
+  issuerProfile: IssuerProfile;
+  // Purchase APR in percent, e.g. 24.99
+  purchaseApr: number | null;
+  lastStatementBalance?: number | null;
+  lastStatementIssueDate?: string | Date | null;
+  now?: Date;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Grace state from the closed cycles whose due date has passed: the newest
+ * one decides, and a paid one right after an outstanding one is 'restoring'.
+ */
+export function determineGracePeriodState(cycles: BillingCycleData[], now: Date): Pick<GracePeriodStatus, 'state' | 'lostDueDate'> {
+  const resolved = cycles
+    .filter(c => c.endDate < now && c.dueDate && c.dueDate < now &&
+      (c.paymentStatus === 'paid' || c.paymentStatus === 'outstanding'))
+    .sort((a, b) => b.endDate.getTime() - a.endDate.getTime());
+
+  if (resolved.length === 0) return { state: 'unknown', lostDueDate: null };
+
+  const [latest, previous] = resolved;
+  if (latest.paymentStatus === 'outstanding') {
+    return { state: 'lost', lostDueDate: latest.dueDate || null };
+  }
+  if (previous?.paymentStatus === 'outstanding') {
+    return { state: 'restoring', lostDueDate: previous.dueDate || null };
+  }
+  return { state: 'active', lostDueDate: null };
+}
+
+/**
+ * Interest accrued on the daily balance from the day after the last statement
+ * close through today: the statement balance plus purchases, less payments,
+ * each from the day it posted. This is what shows up on the next statement
+ * even if the card is paid in full today.
+ */
+export function estimateTrailingInterest(
+  lastStatementBalance: number,
+  lastStatementDate: Date,
+  transactions: BillingCycleTransactionInput[],
+  issuerProfile: IssuerProfile,
+  purchaseApr: number,
+  now: Date
+): number {
+  if (purchaseApr <= 0) return 0;
+
+  const start = startOfDay(new Date(lastStatementDate.getTime() + DAY_MS));
+  const end = startOfDay(now);
+  if (end < start) return 0;
+
+  const postings = transactions
+    .filter(t => !t.pending && t.date)
+    .map(t => ({
+      date: startOfDay(new Date(t.date as string | Date)),
+      // Payments reduce the balance whatever sign the issuer reports them with
+      amount: isIssuerPaymentTransaction(t.name, issuerProfile) ? -Math.abs(t.amount) : t.amount,
+    }))
+    .filter(t => !isNaN(t.date.getTime()) && t.date >= start && t.date <= end);
+
+  const dailyRate = purchaseApr / 100 / 365;
+  let balance = Math.abs(lastStatementBalance);
+  let interest = 0;
+  for (let day = start; day <= end; day = new Date(day.getTime() + DAY_MS)) {
+    for (const posting of postings) {
+      if (posting.date.getTime() === day.getTime()) balance += posting.amount;
+    }
+    interest += Math.max(0, balance) * dailyRate;
+  }
+
+  return Math.round(interest * 100) / 100;
+}
+
+export function computeGracePeriodStatus(input: GracePeriodInput): GracePeriodStatus {
+  const now = input.now || new Date();
+  const { state, lostDueDate } = determineGracePeriodState(input.cycles, now);
+
+  let trailingInterestEstimate: number | null = null;
+  if (state === 'active') {
+    trailingInterestEstimate = 0;
+  } else if (state !== 'unknown' && input.purchaseApr !== null && input.lastStatementIssueDate) {
+    const lastStatementDate = new Date(input.lastStatementIssueDate);
+    if (!isNaN(lastStatementDate.getTime())) {
+      trailingInterestEstimate = estimateTrailingInterest(
+        input.lastStatementBalance || 0,
+        lastStatementDate,
+        input.transactions,
+        input.issuerProfile,
+        input.purchaseApr,
+        now
+      );
+    }
+  }
+
+  return { state, lostDueDate, trailingInterestEstimate };
+}
+
+function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
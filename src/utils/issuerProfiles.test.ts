@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_ISSUER_PROFILE,
+  ISSUER_PROFILES,
+  MANUAL_ISSUER_PROFILE,
+  resolveIssuerProfile,
+  type IssuerLookup,
+} from '@/utils/issuerProfiles';
+
+// One row per way an issuer is recognised; add rows with each new ISSUER_PROFILES entry
+const RESOLUTION_CASES: { lookup: IssuerLookup; profile: string }[] = [
+  { lookup: { institutionName: 'Capital One' }, profile: 'capital_one' },
+  { lookup: { institutionName: 'CAPITAL ONE - Credit Cards' }, profile: 'capital_one' },
+  { lookup: { cardName: 'Quicksilver Rewards' }, profile: 'capital_one' },
+  { lookup: { cardName: 'Venture X' }, profile: 'capital_one' },
+  { lookup: { cardName: 'SavorOne' }, profile: 'capital_one' },
+  { lookup: { institutionId: 'ins_54' }, profile: 'robinhood' },
+  { lookup: { institutionName: 'Robinhood' }, profile: 'robinhood' },
+  { lookup: { cardName: 'Robinhood Gold Card' }, profile: 'robinhood' },
+  { lookup: { institutionName: 'Chase', cardName: 'Sapphire Preferred' }, profile: 'default' },
+  { lookup: { institutionId: 'ins_3', institutionName: 'Chase' }, profile: 'default' },
+  { lookup: {}, profile: 'default' },
+];
+
+describe('resolveIssuerProfile', () => {
+  for (const { lookup, profile } of RESOLUTION_CASES) {
+    it(`${JSON.stringify(lookup)} -> ${profile}`, () => {
+      expect(resolveIssuerProfile(lookup).id).toBe(profile);
+    });
+  }
+
+  it('gives manual cards the manual profile whatever the institution', () => {
+    expect(resolveIssuerProfile({ isManual: true, institutionId: 'ins_54', institutionName: 'Robinhood' })).toBe(MANUAL_ISSUER_PROFILE);
+    expect(MANUAL_ISSUER_PROFILE.products).toEqual([]);
+    expect(MANUAL_ISSUER_PROFILE.cycleRule.useStatementPeriods).toBe(false);
+  });
+
+  it('falls back to the default profile', () => {
+    expect(resolveIssuerProfile({ institutionName: 'Some Credit Union', cardName: 'Visa Signature' })).toBe(DEFAULT_ISSUER_PROFILE);
+  });
+
+  it('prefers the institution id, then the institution name, then the card name', () => {
+    expect(resolveIssuerProfile({ institutionId: 'ins_54', institutionName: 'Capital One' }).id).toBe('robinhood');
+    expect(resolveIssuerProfile({ institutionName: 'Robinhood', cardName: 'Venture' }).id).toBe('robinhood');
+    expect(resolveIssuerProfile({ institutionName: 'Chase', cardName: 'Venture' }).id).toBe('capital_one');
+  });
+});
+
+describe('ISSUER_PROFILES', () => {
+  it('has unique ids distinct from the built-in profiles', () => {
+    const ids = [DEFAULT_ISSUER_PROFILE, MANUAL_ISSUER_PROFILE, ...ISSUER_PROFILES].map(profile => profile.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  for (const profile of ISSUER_PROFILES) {
+    it(`${profile.id} is recognisable and syncable`, () => {
+      expect(profile.institutionIds.length + profile.institutionPatterns.length + profile.cardNamePatterns.length).toBeGreaterThan(0);
+      expect(profile.products).toContain('transactions');
+      expect(profile.transactionChunkDays).toBeGreaterThan(0);
+      if (profile.historyDays !== null) {
+        expect(profile.transactionChunkDays).toBeLessThanOrEqual(profile.historyDays);
+      }
+    });
+  }
+
+  it('keeps issuer-specific rules', () => {
+    const capitalOne = ISSUER_PROFILES.find(profile => profile.id === 'capital_one')!;
+    expect(capitalOne.historyDays).toBe(90);
+    expect(capitalOne.cycleRule.maxCycles).toBe(4);
+    expect(capitalOne.inferCreditLimit).toBe(true);
+
+    const robinhood = ISSUER_PROFILES.find(profile => profile.id === 'robinhood')!;
+    expect(robinhood.products).toEqual(['transactions']);
+    expect(robinhood.creditAccountRule).toBe('negative_balance');
+    expect(robinhood.transactionDateRule).toBe('authorized_date_when_manual');
+    expect(robinhood.cycleRule.requireStatementAnchor).toBe(true);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Issuer profile registry.
+ *
+ * Everything that differs between card issuers lives here as data: how to
+ * recognise the issuer, which Plaid products to request, how much history it
+ * returns, which date bounds a cycle and how cycles are shown. Sync, link
+ * token creation and cycle calculation read the resolved profile instead of
+ * testing for specific institutions, so supporting a new issuer is a new
+ * entry in ISSUER_PROFILES plus its rows in issuerProfiles.test.ts. Safe to
+ * import from client components.
+ */
+
+export type PlaidProductName = 'transactions' | 'liabilities';
+
+// transaction_date: cycles use the transaction date.
+// authorized_date_when_manual: with manual cycle dates, cycles use the authorized (posted) date.
+export type TransactionDateRule = 'transaction_date' | 'authorized_date_when_manual';
+
+// credit_subtype: accounts with subtype 'credit card'.
+// negative_balance: card-like accounts with a negative balance, for issuers
+// that report the card as an investment or other account.
+export type CreditAccountRule = 'credit_subtype' | 'negative_balance';
+
+export interface IssuerCycleRule {
+  // Build cycles from Plaid statements when the item supports them
+  useStatementPeriods: boolean;
+  // Show no cycles until a statement date is known (Plaid, manual or inferred)
+  requireStatementAnchor: boolean;
+  // Most recent cycles to show; null = the last 12 months
+  maxCycles: number | null;
+}
+
+export interface IssuerProfile {
+  id: string;
+  name: string;
+  institutionIds: string[];
+  // Matched against the Plaid institution name
+  institutionPatterns: RegExp[];
+  // Matched against card and account names when the institution is unknown
+  cardNamePatterns: RegExp[];
+  // Transaction history the issuer returns; null = the full 730 days requested
+  historyDays: number | null;
+  // Days per /transactions/get request when backfilling
+  transactionChunkDays: number;
+  products: PlaidProductName[];
+  creditAccountRule: CreditAccountRule;
+  // Derive a missing credit limit from APRs and available balances
+  inferCreditLimit: boolean;
+  transactionDateRule: TransactionDateRule;
+  // Payment descriptors beyond the generic ones in isPaymentTransaction
+  paymentDescriptors: RegExp[];
+  cycleRule: IssuerCycleRule;
+}
+
+export const DEFAULT_ISSUER_PROFILE: IssuerProfile = {
+  id: 'default',
+  name: 'Standard issuer',
+  institutionIds: [],
+  institutionPatterns: [],
+  cardNamePatterns: [],
+  historyDays: null,
+  transactionChunkDays: 90,
+  products: ['liabilities', 'transactions'],
+  creditAccountRule: 'credit_subtype',
+  inferCreditLimit: false,
+  transactionDateRule: 'transaction_date',
+  paymentDescriptors: [],
+  cycleRule: {
+    useStatementPeriods: true,
+    requireStatementAnchor: false,
+    maxCycles: null,
+  },
+};
+
+export const ISSUER_PROFILES: IssuerProfile[] = [
+  {
+    ...DEFAULT_ISSUER_PROFILE,
+    id: 'capital_one',
+    name: 'Capital One',
+    institutionPatterns: [/capital one/i],
+    cardNamePatterns: [/capital one/i, /quicksilver/i, /venture/i, /savor/i, /spark/i],
+    // Capital One only shares ~90 days of transactions
+    historyDays: 90,
+    transactionChunkDays: 60,
+    inferCreditLimit: true,
+    cycleRule: {
+      ...DEFAULT_ISSUER_PROFILE.cycleRule,
+      // About 90 days of history covers 3-4 cycles
+      maxCycles: 4,
+    },
+  },
+  {
+    ...DEFAULT_ISSUER_PROFILE,
+    id: 'robinhood',
+    name: 'Robinhood',
+    institutionIds: ['ins_54'],
+    institutionPatterns: [/robinhood/i],
+    cardNamePatterns: [/robinhood/i],
+    // 30-day chunks keep monthly cycles complete
+    transactionChunkDays: 30,
+    // No liabilities product; the investments product would hide the card in Link
+    products: ['transactions'],
+    creditAccountRule: 'negative_balance',
+    transactionDateRule: 'authorized_date_when_manual',
+    cycleRule: {
+      // Statement dates come from syncAccounts, not the period listing
+      useStatementPeriods: false,
+      requireStatementAnchor: true,
+      maxCycles: null,
+    },
+  },
+];
+
+// Manual cards: transactions come from statement imports, dates from the card's cycle rule
+export const MANUAL_ISSUER_PROFILE: IssuerProfile = {
+  ...DEFAULT_ISSUER_PROFILE,
+  id: 'manual',
+  name: 'Manual card',
+  products: [],
+  cycleRule: {
+    ...DEFAULT_ISSUER_PROFILE.cycleRule,
+    useStatementPeriods: false,
+  },
+};
+
+export interface IssuerLookup {
+  // plaid_items.is_manual
+  isManual?: boolean | null;
+  institutionId?: string | null;
+  institutionName?: string | null;
+  cardName?: string | null;
+}
+
+/**
+ * Profile for an institution or card. Manual cards always get
+ * MANUAL_ISSUER_PROFILE; otherwise institution ids win over institution
+ * names, which win over card names, and no match gives DEFAULT_ISSUER_PROFILE.
+ */
+export function resolveIssuerProfile({ isManual, institutionId, institutionName, cardName }: IssuerLookup): IssuerProfile {
+  if (isManual) return MANUAL_ISSUER_PROFILE;
+
+  const byId = institutionId ? ISSUER_PROFILES.find(p => p.institutionIds.includes(institutionId)) : undefined;
+  if (byId) return byId;
+
+  const byInstitution = institutionName
+    ? ISSUER_PROFILES.find(p => p.institutionPatterns.some(pattern => pattern.test(institutionName)))
+    : undefined;
+  if (byInstitution) return byInstitution;
+
+  const byCard = cardName
+    ? ISSUER_PROFILES.find(p => p.cardNamePatterns.some(pattern => pattern.test(cardName)))
+    : undefined;
+  return byCard || DEFAULT_ISSUER_PROFILE;
+}
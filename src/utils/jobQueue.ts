@@ -0,0 +1,67 @@
+/**
+ * Background job queue: job types, payloads, dedupe keys and retry backoff.
+ *
+ * Jobs replace work that used to run inside user requests. A worker leases
+ * jobs (see the lease_jobs SQL function), runs the handler for the job type
+ * and records the result; a failure is retried with backoff until
+ * max_attempts, after which the job is 'dead' and kept for inspection.
+ */
+
+export type JobType = 'item_sync' | 'statement_refresh' | 'cycle_regeneration';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'dead';
+
+export const JOB_TYPES: JobType[] = ['item_sync', 'statement_refresh', 'cycle_regeneration'];
+
+// Statuses after which a job will not run again
+export const FINISHED_JOB_STATUSES: JobStatus[] = ['succeeded', 'dead'];
+
+export interface JobPayloads {
+  // plaid_items.id of the connection to sync; `scheduled` when queued by the
+  // scheduler rather than a user, which records its outcome in telemetry
+  item_sync: { plaidItemId: string; scheduled?: boolean };
+  // Re-derive cycles from Plaid statements for the user's cards, or one card
+  statement_refresh: { creditCardId?: string };
+  // Drop and recalculate stored cycles for these cards
+  cycle_regeneration: { creditCardIds: string[] };
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+// How long a leased job is owned by its worker before another may take it
+export const DEFAULT_LEASE_SECONDS = 5 * 60;
+
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Key that keeps identical work from being queued twice while a copy is
+ * queued or running. Null for jobs that may always be queued again.
+ */
+export function jobDedupeKey<T extends JobType>(type: T, payload: JobPayloads[T], userId: string | null): string | null {
+  switch (type) {
+    case 'item_sync':
+      return `item_sync:${(payload as JobPayloads['item_sync']).plaidItemId}`;
+    case 'statement_refresh': {
+      const { creditCardId } = payload as JobPayloads['statement_refresh'];
+      if (creditCardId) return `statement_refresh:card:${creditCardId}`;
+      return userId ? `statement_refresh:user:${userId}` : null;
+    }
+    case 'cycle_regeneration': {
+      const ids = [...(payload as JobPayloads['cycle_regeneration']).creditCardIds].sort();
+      return `cycle_regeneration:${ids.join(',')}`;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * When a job that failed its `attempts`-th attempt runs again: 30s, 1m, 2m,
+ * 4m... capped at an hour. Null when no attempts are left (dead-letter).
+ */
+export function nextJobRunAt(attempts: number, maxAttempts: number, now: Date = new Date()): Date | null {
+  if (attempts >= maxAttempts) return null;
+  const delay = Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), RETRY_MAX_DELAY_MS);
+  return new Date(now.getTime() + delay);
+}
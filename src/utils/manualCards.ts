@@ -0,0 +1,204 @@
+/**
+ * Manual (non-Plaid) cards and manual cycle date rules.
+ *
+ * A cycle date rule is what CycleDateEditor edits: how the statement close
+ * and due days are found each month. Plaid cards use it to override issuer
+ * dates; manual cards are created with one.
+ */
+
+import { daysInMonth, type CycleDateType } from '@/utils/billingCycleEngine';
+
+export const CYCLE_DATE_TYPES: CycleDateType[] = ['same_day', 'days_before_end', 'dynamic_anchor'];
+
+export interface CycleDateRule {
+  cycleDateType: CycleDateType;
+  // Day of month for same_day and dynamic_anchor
+  cycleDay?: number;
+  // Days before month end for days_before_end
+  cycleDaysBeforeEnd?: number;
+  dueDateType: CycleDateType;
+  dueDay?: number;
+  dueDaysBeforeEnd?: number;
+}
+
+export interface ManualCardInput {
+  name: string;
+  // Last four digits, shown like Plaid masks
+  mask: string | null;
+  creditLimit: number;
+  currentBalance: number;
+  // Purchase APR percentage
+  apr: number | null;
+  openDate: string | null;
+  cycle: CycleDateRule;
+}
+
+export type ValidatedManualCard =
+  | { card: ManualCardInput; error: null }
+  | { card: null; error: string };
+
+const MAX_CARD_NAME_LENGTH = 60;
+
+function inDayRange(value: number | undefined): boolean {
+  return value !== undefined && Number.isInteger(value) && value >= 1 && value <= 31;
+}
+
+/** Validate a cycle date rule; returns a message suitable for a 400 response, or null. */
+export function validateCycleDateRule(rule: CycleDateRule): string | null {
+  if (!CYCLE_DATE_TYPES.includes(rule.cycleDateType) || !CYCLE_DATE_TYPES.includes(rule.dueDateType)) {
+    return 'Unsupported cycle date type';
+  }
+
+  if (rule.cycleDateType === 'same_day' && !inDayRange(rule.cycleDay)) {
+    return 'Cycle day must be between 1 and 31';
+  }
+  if (rule.cycleDateType === 'days_before_end' && !inDayRange(rule.cycleDaysBeforeEnd)) {
+    return 'Cycle days before end must be between 1 and 31';
+  }
+  if (rule.cycleDateType === 'dynamic_anchor' && !inDayRange(rule.cycleDay)) {
+    return 'Anchor day must be between 1 and 31';
+  }
+
+  if (rule.dueDateType === 'same_day' && !inDayRange(rule.dueDay)) {
+    return 'Due day must be between 1 and 31';
+  }
+  if (rule.dueDateType === 'days_before_end' && !inDayRange(rule.dueDaysBeforeEnd)) {
+    return 'Due days before end must be between 1 and 31';
+  }
+  if (rule.dueDateType === 'dynamic_anchor' && !inDayRange(rule.dueDay)) {
+    return 'Due date anchor must be between 1 and 31';
+  }
+
+  return null;
+}
+
+/** Validate a manual card from a request body; `error` is a message suitable for a 400 response. */
+export function validateManualCard(input: Record<string, unknown>): ValidatedManualCard {
+  const invalid = (error: string): ValidatedManualCard => ({ card: null, error });
+  const optionalNumber = (value: unknown) => value === undefined || value === null || value === '' ? null : Number(value);
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    return invalid('Card name is required');
+  }
+
+  const mask = typeof input.mask === 'string' && input.mask.trim() ? input.mask.trim() : null;
+  if (mask !== null && !/^\d{4}$/.test(mask)) {
+    return invalid('Mask must be the last four digits of the card');
+  }
+
+  const creditLimit = Number(input.creditLimit);
+  if (!isFinite(creditLimit) || creditLimit <= 0) {
+    return invalid('Credit limit must be a positive number');
+  }
+
+  const currentBalance = optionalNumber(input.currentBalance) ?? 0;
+  if (!isFinite(currentBalance)) {
+    return invalid('Current balance must be a number');
+  }
+
+  const apr = optionalNumber(input.apr);
+  if (apr !== null && (!isFinite(apr) || apr < 0 || apr > 100)) {
+    return invalid('APR must be between 0 and 100');
+  }
+
+  const openDate = typeof input.openDate === 'string' && input.openDate ? new Date(input.openDate) : null;
+  if (openDate && isNaN(openDate.getTime())) {
+    return invalid('Open date must be a valid date');
+  }
+
+  const cycleInput = (input.cycle && typeof input.cycle === 'object' ? input.cycle : {}) as Record<string, unknown>;
+  const dayValue = (value: unknown) => optionalNumber(value) ?? undefined;
+  const cycle: CycleDateRule = {
+    cycleDateType: (cycleInput.cycleDateType ?? 'same_day') as CycleDateType,
+    cycleDay: dayValue(cycleInput.cycleDay),
+    cycleDaysBeforeEnd: dayValue(cycleInput.cycleDaysBeforeEnd),
+    // Due dates are a plain day of month, as in CycleDateEditor
+    dueDateType: (cycleInput.dueDateType ?? 'same_day') as CycleDateType,
+    dueDay: dayValue(cycleInput.dueDay),
+    dueDaysBeforeEnd: dayValue(cycleInput.dueDaysBeforeEnd),
+  };
+  const cycleError = validateCycleDateRule(cycle);
+  if (cycleError) {
+    return invalid(cycleError);
+  }
+
+  return {
+    card: {
+      name: name.slice(0, MAX_CARD_NAME_LENGTH),
+      mask,
+      creditLimit: Math.round(creditLimit * 100) / 100,
+      currentBalance: Math.round(currentBalance * 100) / 100,
+      apr,
+      openDate: openDate ? openDate.toISOString() : null,
+      cycle,
+    },
+    error: null,
+  };
+}
+
+function ruleDate(
+  year: number,
+  month: number,
+  dateType: CycleDateType,
+  dayOfMonth?: number,
+  daysBeforeEnd?: number
+): Date {
+  if (dateType === 'same_day' && dayOfMonth) {
+    return new Date(year, month, dayOfMonth);
+  } else if (dateType === 'days_before_end' && daysBeforeEnd !== undefined) {
+    return new Date(year, month, Math.max(1, daysInMonth(year, month) - daysBeforeEnd));
+  } else if (dateType === 'dynamic_anchor' && dayOfMonth) {
+    // The dynamic cycle lengths are applied by the billing cycle engine
+    return new Date(year, month, Math.min(dayOfMonth, daysInMonth(year, month)));
+  }
+  throw new Error('Invalid date calculation parameters');
+}
+
+/**
+ * The statement date and due date a validated rule gives as of `today`: the
+ * most recent statement close and the first due date after it, moved on a
+ * cycle once that due date has passed.
+ */
+export function manualStatementDates(rule: CycleDateRule, today: Date): { lastStatementDate: Date; nextDueDate: Date } {
+  const statementOn = (year: number, month: number) =>
+    ruleDate(year, month, rule.cycleDateType, rule.cycleDay, rule.cycleDaysBeforeEnd);
+  const dueOn = (year: number, month: number) =>
+    ruleDate(year, month, rule.dueDateType, rule.dueDay, rule.dueDaysBeforeEnd);
+
+  let lastStatementDate = statementOn(today.getFullYear(), today.getMonth());
+  if (lastStatementDate > today) {
+    // Statement day hasn't occurred this month, use last month
+    lastStatementDate = statementOn(today.getFullYear(), today.getMonth() - 1);
+  }
+
+  // Start with the same month as the statement; a due day on or before it falls in the next month
+  let nextDueDate = dueOn(lastStatementDate.getFullYear(), lastStatementDate.getMonth());
+  if (nextDueDate <= lastStatementDate) {
+    nextDueDate = dueOn(lastStatementDate.getFullYear(), lastStatementDate.getMonth() + 1);
+  }
+
+  // If the due date has already passed, move to next cycle
+  if (nextDueDate < today) {
+    lastStatementDate = statementOn(lastStatementDate.getFullYear(), lastStatementDate.getMonth() + 1);
+    nextDueDate = dueOn(nextDueDate.getFullYear(), nextDueDate.getMonth() + 1);
+  }
+
+  return { lastStatementDate, nextDueDate };
+}
+
+/** The credit_cards columns that store a cycle date rule. */
+export function cycleDateRuleColumns(rule: CycleDateRule, today: Date = new Date()) {
+  const { lastStatementDate, nextDueDate } = manualStatementDates(rule, today);
+  return {
+    manual_cycle_day: (rule.cycleDateType === 'same_day' || rule.cycleDateType === 'dynamic_anchor') ? rule.cycleDay : null,
+    manual_due_day: (rule.dueDateType === 'same_day' || rule.dueDateType === 'dynamic_anchor') ? rule.dueDay : null,
+    cycle_date_type: rule.cycleDateType,
+    cycle_days_before_end: rule.cycleDateType === 'days_before_end' ? rule.cycleDaysBeforeEnd : null,
+    due_date_type: rule.dueDateType,
+    due_days_before_end: rule.dueDateType === 'days_before_end' ? rule.dueDaysBeforeEnd : null,
+    manual_dates_configured: true,
+    lastStatementIssueDate: lastStatementDate.toISOString(),
+    nextPaymentDueDate: nextDueDate.toISOString(),
+  };
+}
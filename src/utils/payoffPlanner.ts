@@ -0,0 +1,314 @@
+/**
+ * Interest projection and payoff planning across cards.
+ *
+ * Each card's balance is split into APR segments (purchase, cash, balance
+ * transfer, promotional) from the stored aprs rows. Every simulated month
+ * charges interest on the average daily balance of each segment, with the
+ * payment posting partway through the cycle, and adds it to the balance
+ * (monthly compounding). Payments above the minimum go to the highest-APR
+ * segment first, as the CARD Act requires.
+ */
+
+export type PayoffStrategy = 'avalanche' | 'snowball' | 'custom';
+
+export interface PayoffAprInput {
+  aprType: string;
+  aprPercentage: number;
+  balanceSubjectToApr?: number | null;
+}
+
+export interface PayoffCardInput {
+  id: string;
+  name: string;
+  mask?: string | null;
+  balance: number;
+  minimumPayment?: number | null;
+  aprs: PayoffAprInput[];
+}
+
+export interface PayoffOptions {
+  // Total paid across all cards each month (avalanche/snowball)
+  monthlyBudget: number;
+  // Fixed monthly payment per card id (custom strategy)
+  customPayments?: Record<string, number>;
+  startDate?: Date;
+}
+
+export interface CardPayoffResult {
+  creditCardId: string;
+  name: string;
+  mask: string | null;
+  startingBalance: number;
+  totalInterest: number;
+  totalPaid: number;
+  // null when the card is not paid off within the simulation horizon
+  monthsToPayoff: number | null;
+  payoffDate: Date | null;
+}
+
+export interface PayoffPlanResult {
+  strategy: PayoffStrategy;
+  cards: CardPayoffResult[];
+  totalInterest: number;
+  totalPaid: number;
+  monthsToPayoff: number | null;
+  payoffDate: Date | null;
+  // Budget below the sum of minimums: minimums are still paid
+  budgetShortfall: number;
+}
+
+export interface PayoffComparison {
+  avalanche: PayoffPlanResult;
+  snowball: PayoffPlanResult;
+  custom: PayoffPlanResult | null;
+  totalMinimumPayment: number;
+}
+
+// Common issuer minimum: 1% of balance plus interest, at least $25
+export const MINIMUM_PAYMENT_FLOOR = 25;
+export const MINIMUM_PAYMENT_PERCENT = 0.01;
+
+// Simulations stop after 50 years; anything longer never pays off
+export const MAX_PAYOFF_MONTHS = 600;
+
+const DAYS_PER_MONTH = 365 / 12;
+// Payments post around the due date, ~25 days into the cycle
+const PAYMENT_DAY_OF_CYCLE = 25;
+
+interface Segment {
+  aprType: string;
+  apr: number;
+  balance: number;
+}
+
+interface CardState {
+  input: PayoffCardInput;
+  segments: Segment[];
+  totalInterest: number;
+  totalPaid: number;
+  paidOffMonth: number | null;
+}
+
+/**
+ * Split a card balance into APR segments. Balances Plaid attributes to
+ * specific APRs keep that APR; anything unattributed accrues at the
+ * purchase APR (or the highest APR when there is no purchase APR).
+ */
+export function buildAprSegments(card: PayoffCardInput): Segment[] {
+  const balance = Math.max(0, card.balance);
+  const aprs = card.aprs.filter(a => typeof a.aprPercentage === 'number' && a.aprPercentage >= 0);
+  if (balance === 0) return [];
+  if (aprs.length === 0) return [{ aprType: 'unknown', apr: 0, balance }];
+
+  const purchase = aprs.find(a => a.aprType === 'purchase_apr') ||
+    [...aprs].sort((a, b) => b.aprPercentage - a.aprPercentage)[0];
+
+  const segments: Segment[] = [];
+  let attributed = 0;
+  for (const apr of aprs) {
+    const subject = Math.max(0, apr.balanceSubjectToApr || 0);
+    if (subject <= 0 || attributed >= balance) continue;
+    const amount = Math.min(subject, balance - attributed);
+    segments.push({ aprType: apr.aprType, apr: apr.aprPercentage, balance: amount });
+    attributed += amount;
+  }
+
+  if (balance - attributed > 0.005) {
+    const existing = segments.find(s => s.aprType === purchase.aprType && s.apr === purchase.aprPercentage);
+    if (existing) existing.balance += balance - attributed;
+    else segments.push({ aprType: purchase.aprType, apr: purchase.aprPercentage, balance: balance - attributed });
+  }
+
+  return segments;
+}
+
+/** Minimum payment for a month given the balance and that month's interest. */
+export function estimateMinimumPayment(balance: number, interest: number): number {
+  if (balance <= 0) return 0;
+  return Math.min(balance, Math.max(MINIMUM_PAYMENT_FLOOR, balance * MINIMUM_PAYMENT_PERCENT + interest));
+}
+
+export function simulatePayoff(
+  cards: PayoffCardInput[],
+  strategy: PayoffStrategy,
+  options: PayoffOptions
+): PayoffPlanResult {
+  const startDate = options.startDate || new Date();
+  const states: CardState[] = cards.map(input => ({
+    input,
+    segments: buildAprSegments(input),
+    totalInterest: 0,
+    totalPaid: 0,
+    paidOffMonth: input.balance > 0 ? null : 0,
+  }));
+
+  let budgetShortfall = 0;
+  let month = 0;
+
+  while (month < MAX_PAYOFF_MONTHS && states.some(s => s.paidOffMonth === null)) {
+    month++;
+    const active = states.filter(s => s.paidOffMonth === null);
+
+    // Projected interest if only the minimum were paid decides this month's minimum
+    const minimums = new Map<CardState, number>();
+    for (const state of active) {
+      const balance = cardBalance(state);
+      const stored = month === 1 ? state.input.minimumPayment : null;
+      const projectedInterest = state.segments.reduce((sum, s) => sum + monthlyInterest(s.balance, s.balance, s.apr), 0);
+      minimums.set(state, Math.min(balance + projectedInterest, stored && stored > 0
+        ? stored
+        : estimateMinimumPayment(balance, projectedInterest)));
+    }
+
+    const payments = new Map<CardState, number>();
+    if (strategy === 'custom') {
+      for (const state of active) {
+        const custom = options.customPayments?.[state.input.id] ?? 0;
+        payments.set(state, Math.max(custom, minimums.get(state) || 0));
+      }
+    } else {
+      const totalMinimum = Array.from(minimums.values()).reduce((sum, m) => sum + m, 0);
+      if (month === 1) budgetShortfall = Math.max(0, totalMinimum - options.monthlyBudget);
+      let extra = Math.max(0, options.monthlyBudget - totalMinimum);
+      for (const state of active) payments.set(state, minimums.get(state) || 0);
+
+      // Freed-up budget from paid-off cards rolls onto the next target
+      for (const state of prioritize(active, strategy)) {
+        if (extra <= 0) break;
+        const payoffAmount = payoffAmountThisMonth(state);
+        const room = Math.max(0, payoffAmount - (payments.get(state) || 0));
+        const add = Math.min(room, extra);
+        payments.set(state, (payments.get(state) || 0) + add);
+        extra -= add;
+      }
+    }
+
+    for (const state of active) {
+      applyMonth(state, payments.get(state) || 0);
+      if (cardBalance(state) <= 0.005) {
+        state.segments = [];
+        state.paidOffMonth = month;
+      }
+    }
+  }
+
+  const results: CardPayoffResult[] = states.map(state => ({
+    creditCardId: state.input.id,
+    name: state.input.name,
+    mask: state.input.mask ?? null,
+    startingBalance: roundCents(Math.max(0, state.input.balance)),
+    totalInterest: roundCents(state.totalInterest),
+    totalPaid: roundCents(state.totalPaid),
+    monthsToPayoff: state.paidOffMonth,
+    payoffDate: state.paidOffMonth !== null ? addMonths(startDate, state.paidOffMonth) : null,
+  }));
+
+  const allPaid = results.every(r => r.monthsToPayoff !== null);
+  const months = allPaid ? Math.max(0, ...results.map(r => r.monthsToPayoff || 0)) : null;
+
+  return {
+    strategy,
+    cards: results,
+    totalInterest: roundCents(results.reduce((sum, r) => sum + r.totalInterest, 0)),
+    totalPaid: roundCents(results.reduce((sum, r) => sum + r.totalPaid, 0)),
+    monthsToPayoff: months,
+    payoffDate: months !== null ? addMonths(startDate, months) : null,
+    budgetShortfall: roundCents(budgetShortfall),
+  };
+}
+
+/** This month's minimums across the cards: the stored minimum, or an estimate from the balance and interest. */
+export function sumMinimumPayments(cards: PayoffCardInput[]): number {
+  return roundCents(cards.reduce((sum, card) => {
+    const segments = buildAprSegments(card);
+    const interest = segments.reduce((s, seg) => s + monthlyInterest(seg.balance, seg.balance, seg.apr), 0);
+    const stored = card.minimumPayment && card.minimumPayment > 0 ? card.minimumPayment : null;
+    return sum + (stored ?? estimateMinimumPayment(Math.max(0, card.balance), interest));
+  }, 0));
+}
+
+export function comparePayoffStrategies(cards: PayoffCardInput[], options: PayoffOptions): PayoffComparison {
+  const totalMinimumPayment = sumMinimumPayments(cards);
+
+  return {
+    avalanche: simulatePayoff(cards, 'avalanche', options),
+    snowball: simulatePayoff(cards, 'snowball', options),
+    custom: options.customPayments ? simulatePayoff(cards, 'custom', options) : null,
+    totalMinimumPayment,
+  };
+}
+
+// Avalanche: highest APR first. Snowball: smallest balance first.
+function prioritize(states: CardState[], strategy: PayoffStrategy): CardState[] {
+  const highestApr = (s: CardState) => Math.max(0, ...s.segments.map(seg => seg.apr));
+  return [...states].sort((a, b) => strategy === 'snowball'
+    ? cardBalance(a) - cardBalance(b)
+    : highestApr(b) - highestApr(a) || cardBalance(a) - cardBalance(b));
+}
+
+/** What it takes to clear the card this month, interest included. */
+function payoffAmountThisMonth(state: CardState): number {
+  // Paying everything on the payment day leaves only the pre-payment days accruing interest
+  return state.segments.reduce((sum, s) => sum + s.balance + monthlyInterest(s.balance, 0, s.apr), 0);
+}
+
+function applyMonth(state: CardState, payment: number): void {
+  // Highest APR first; issuers may send the minimum itself to the lowest APR, so this is slightly optimistic
+  const byAprDesc = [...state.segments].sort((a, b) => b.apr - a.apr);
+  const balancesBefore = new Map(state.segments.map(s => [s, s.balance]));
+
+  let remaining = payment;
+  for (const segment of byAprDesc) {
+    const applied = Math.min(segment.balance, remaining);
+    segment.balance -= applied;
+    remaining -= applied;
+  }
+  const paid = payment - Math.max(0, remaining);
+
+  let interest = 0;
+  for (const segment of state.segments) {
+    const charge = monthlyInterest(balancesBefore.get(segment) || 0, segment.balance, segment.apr);
+    segment.balance += charge;
+    interest += charge;
+  }
+
+  // A payment larger than the balance covers the interest accrued before it posted
+  const overpayment = Math.max(0, remaining);
+  if (overpayment > 0) {
+    let leftover = overpayment;
+    for (const segment of byAprDesc) {
+      const applied = Math.min(segment.balance, leftover);
+      segment.balance -= applied;
+      leftover -= applied;
+    }
+    state.totalPaid += overpayment - leftover;
+  }
+
+  state.totalPaid += paid;
+  state.totalInterest += interest;
+}
+
+/**
+ * Interest for one cycle on the average daily balance, where the balance is
+ * `before` until the payment posts and `after` for the rest of the cycle.
+ */
+function monthlyInterest(before: number, after: number, apr: number): number {
+  if (apr <= 0) return 0;
+  const share = PAYMENT_DAY_OF_CYCLE / DAYS_PER_MONTH;
+  const averageDailyBalance = before * share + after * (1 - share);
+  return averageDailyBalance * (apr / 100 / 365) * DAYS_PER_MONTH;
+}
+
+function cardBalance(state: CardState): number {
+  return state.segments.reduce((sum, s) => sum + s.balance, 0);
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,665 @@
+import { inflateSync } from 'zlib';
+
+/**
+ * Minimal local PDF text extraction for issuer statements.
+ *
+ * Supports what card statements actually use: Flate-compressed content
+ * streams, object streams, Form XObjects and ToUnicode CMaps (including
+ * two-byte Identity-H fonts). It does not do layout analysis - text is
+ * emitted in content-stream order with line breaks where the text matrix
+ * moves to a new line, which is enough for label/value field extraction.
+ */
+
+interface PdfObject {
+  dict: string;
+  stream: Buffer | null;
+}
+
+interface FontDecoder {
+  codeLength: number;
+  map: Map<number, string> | null;
+}
+
+const MAX_XOBJECT_DEPTH = 5;
+
+export function extractPdfText(pdf: Buffer): string {
+  const objects = parseObjects(pdf);
+  const pages = collectPages(objects);
+  const fontCache = new Map<string, FontDecoder>();
+
+  return pages
+    .map(page => {
+      const resources = resolveDict(objects, getInherited(objects, page, 'Resources'));
+      const contents = resolve(objects, getDictValue(page, 'Contents'));
+      const refs = contents && contents.startsWith('[') ? parseArray(contents) : [getDictValue(page, 'Contents')];
+      const data = refs
+        .map(ref => (ref ? streamOf(objects, ref) : null))
+        .filter((b): b is Buffer => !!b);
+      return renderContent(objects, Buffer.concat(data).toString('latin1'), resources, fontCache, 0);
+    })
+    .join('\n\n');
+}
+
+// ---------------------------------------------------------------------------
+// Object parsing
+// ---------------------------------------------------------------------------
+
+function parseObjects(pdf: Buffer): Map<number, PdfObject> {
+  const src = pdf.toString('latin1');
+  const objects = new Map<number, PdfObject>();
+  const header = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = header.exec(src)) !== null) {
+    const num = parseInt(match[1], 10);
+    const bodyStart = match.index + match[0].length;
+    const streamIdx = src.indexOf('stream', bodyStart);
+    const endObjIdx = src.indexOf('endobj', bodyStart);
+    if (endObjIdx === -1) break;
+
+    if (streamIdx !== -1 && streamIdx < endObjIdx && src.slice(streamIdx - 3, streamIdx) !== 'end') {
+      let dataStart = streamIdx + 'stream'.length;
+      if (src[dataStart] === '\r') dataStart++;
+      if (src[dataStart] === '\n') dataStart++;
+      const endStreamIdx = src.indexOf('endstream', dataStart);
+      if (endStreamIdx === -1) break;
+      let dataEnd = endStreamIdx;
+      if (src[dataEnd - 1] === '\n') dataEnd--;
+      if (src[dataEnd - 1] === '\r') dataEnd--;
+
+      const dict = src.slice(bodyStart, streamIdx).trim();
+      objects.set(num, { dict, stream: decodeStream(dict, pdf.subarray(dataStart, dataEnd)) });
+      const objEnd = src.indexOf('endobj', endStreamIdx);
+      header.lastIndex = objEnd === -1 ? src.length : objEnd;
+    } else {
+      objects.set(num, { dict: src.slice(bodyStart, endObjIdx).trim(), stream: null });
+      header.lastIndex = endObjIdx;
+    }
+  }
+
+  // Objects packed inside object streams (PDF 1.5+)
+  for (const obj of Array.from(objects.values())) {
+    if (!obj.stream || nameValue(getDictValue(obj.dict, 'Type')) !== 'ObjStm') continue;
+    const count = parseInt(getDictValue(obj.dict, 'N') || '0', 10);
+    const first = parseInt(getDictValue(obj.dict, 'First') || '0', 10);
+    const content = obj.stream.toString('latin1');
+    const offsets = content.slice(0, first).trim().split(/\s+/).map(n => parseInt(n, 10));
+
+    for (let i = 0; i < count; i++) {
+      const num = offsets[i * 2];
+      const start = first + offsets[i * 2 + 1];
+      const end = i + 1 < count ? first + offsets[(i + 1) * 2 + 1] : content.length;
+      const existing = objects.get(num);
+      if (!isNaN(num) && (!existing || existing.dict === 'null')) {
+        objects.set(num, { dict: content.slice(start, end).trim(), stream: null });
+      }
+    }
+  }
+
+  return objects;
+}
+
+function decodeStream(dict: string, raw: Buffer): Buffer | null {
+  const filter = getDictValue(dict, 'Filter');
+  if (!filter) return raw;
+
+  const filters = filter.startsWith('[') ? parseArray(filter).map(nameValue) : [nameValue(filter)];
+  let data = raw;
+  for (const name of filters) {
+    if (name !== 'FlateDecode' && name !== 'Fl') {
+      // Images and other encodings carry no text
+      return null;
+    }
+    try {
+      data = inflateSync(data);
+    } catch {
+      return null;
+    }
+  }
+  return data;
+}
+
+function collectPages(objects: Map<number, PdfObject>): string[] {
+  const pages: string[] = [];
+  const visited = new Set<number>();
+
+  const walk = (num: number) => {
+    if (visited.has(num)) return;
+    visited.add(num);
+    const obj = objects.get(num);
+    if (!obj) return;
+    const type = nameValue(getDictValue(obj.dict, 'Type'));
+    if (type === 'Page') {
+      pages.push(obj.dict);
+    } else if (type === 'Pages') {
+      const kids = resolve(objects, getDictValue(obj.dict, 'Kids'));
+      for (const kid of kids ? parseArray(kids) : []) {
+        const ref = refNumber(kid);
+        if (ref !== null) walk(ref);
+      }
+    }
+  };
+
+  // Start from page tree roots so pages come out in reading order
+  for (const [num, obj] of objects) {
+    if (nameValue(getDictValue(obj.dict, 'Type')) === 'Pages' && !getDictValue(obj.dict, 'Parent')) {
+      walk(num);
+    }
+  }
+
+  if (pages.length === 0) {
+    for (const obj of objects.values()) {
+      if (nameValue(getDictValue(obj.dict, 'Type')) === 'Page') pages.push(obj.dict);
+    }
+  }
+
+  return pages;
+}
+
+function getInherited(objects: Map<number, PdfObject>, dict: string, key: string, depth: number = 0): string | null {
+  const value = getDictValue(dict, key);
+  if (value || depth > 20) return value;
+  const parent = resolve(objects, getDictValue(dict, 'Parent'));
+  return parent ? getInherited(objects, parent, key, depth + 1) : null;
+}
+
+function resolve(objects: Map<number, PdfObject>, value: string | null): string | null {
+  if (!value) return null;
+  const ref = refNumber(value);
+  return ref === null ? value : objects.get(ref)?.dict ?? null;
+}
+
+function resolveDict(objects: Map<number, PdfObject>, value: string | null): string {
+  const resolved = resolve(objects, value);
+  return resolved && resolved.startsWith('<<') ? resolved : '<<>>';
+}
+
+function streamOf(objects: Map<number, PdfObject>, value: string): Buffer | null {
+  const ref = refNumber(value);
+  return ref === null ? null : objects.get(ref)?.stream ?? null;
+}
+
+function refNumber(value: string): number | null {
+  const match = value.trim().match(/^(\d+)\s+\d+\s+R$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+function nameValue(value: string | null): string | null {
+  return value && value.startsWith('/') ? value.slice(1) : value;
+}
+
+// ---------------------------------------------------------------------------
+// Dictionary / array scanning
+// ---------------------------------------------------------------------------
+
+/**
+ * Raw text of a top-level key's value in a `<< ... >>` dictionary,
+ * ignoring keys that only appear inside nested dictionaries.
+ */
+function getDictValue(dict: string, key: string): string | null {
+  const start = dict.indexOf('<<');
+  if (start === -1) return null;
+  let i = start + 2;
+
+  while (i < dict.length) {
+    i = skipWhitespace(dict, i);
+    if (dict.startsWith('>>', i)) return null;
+    if (dict[i] !== '/') {
+      // Malformed entry; advance past it
+      i = readValue(dict, i);
+      continue;
+    }
+    const nameEnd = readName(dict, i);
+    const name = dict.slice(i + 1, nameEnd);
+    const valueStart = skipWhitespace(dict, nameEnd);
+    const valueEnd = readValue(dict, valueStart);
+    if (name === key) {
+      return dict.slice(valueStart, valueEnd).trim();
+    }
+    i = valueEnd;
+  }
+  return null;
+}
+
+function dictEntries(dict: string): Array<[string, string]> {
+  const entries: Array<[string, string]> = [];
+  const start = dict.indexOf('<<');
+  if (start === -1) return entries;
+  let i = start + 2;
+
+  while (i < dict.length) {
+    i = skipWhitespace(dict, i);
+    if (dict.startsWith('>>', i) || i >= dict.length) break;
+    if (dict[i] !== '/') {
+      i = readValue(dict, i);
+      continue;
+    }
+    const nameEnd = readName(dict, i);
+    const valueStart = skipWhitespace(dict, nameEnd);
+    const valueEnd = readValue(dict, valueStart);
+    entries.push([dict.slice(i + 1, nameEnd), dict.slice(valueStart, valueEnd).trim()]);
+    i = valueEnd;
+  }
+  return entries;
+}
+
+function parseArray(array: string): string[] {
+  const items: string[] = [];
+  let i = array.indexOf('[') + 1;
+  while (i > 0 && i < array.length) {
+    i = skipWhitespace(array, i);
+    if (array[i] === ']' || i >= array.length) break;
+    const end = readValue(array, i);
+    items.push(array.slice(i, end).trim());
+    i = end;
+  }
+
+  // Collapse "N G R" triples into single reference items
+  const merged: string[] = [];
+  for (let j = 0; j < items.length; j++) {
+    if (/^\d+$/.test(items[j]) && /^\d+$/.test(items[j + 1] || '') && items[j + 2] === 'R') {
+      merged.push(`${items[j]} ${items[j + 1]} R`);
+      j += 2;
+    } else {
+      merged.push(items[j]);
+    }
+  }
+  return merged;
+}
+
+function skipWhitespace(s: string, i: number): number {
+  while (i < s.length) {
+    if (/\s/.test(s[i])) {
+      i++;
+    } else if (s[i] === '%') {
+      while (i < s.length && s[i] !== '\n' && s[i] !== '\r') i++;
+    } else {
+      break;
+    }
+  }
+  return i;
+}
+
+function readName(s: string, i: number): number {
+  i++;
+  while (i < s.length && !/[\s\/\[\]<>()%{}]/.test(s[i])) i++;
+  return i;
+}
+
+function readLiteralString(s: string, i: number): number {
+  let depth = 0;
+  for (; i < s.length; i++) {
+    const ch = s[i];
+    if (ch === '\\') {
+      i++;
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return s.length;
+}
+
+/** End index of the value starting at i (dict, array, string, name, ref or number). */
+function readValue(s: string, i: number): number {
+  const ch = s[i];
+
+  if (s.startsWith('<<', i)) {
+    let depth = 0;
+    while (i < s.length) {
+      if (s.startsWith('<<', i)) {
+        depth++;
+        i += 2;
+      } else if (s.startsWith('>>', i)) {
+        depth--;
+        i += 2;
+        if (depth === 0) return i;
+      } else if (s[i] === '(') {
+        i = readLiteralString(s, i);
+      } else {
+        i++;
+      }
+    }
+    return i;
+  }
+
+  if (ch === '[') {
+    let depth = 0;
+    while (i < s.length) {
+      if (s[i] === '[') {
+        depth++;
+        i++;
+      } else if (s[i] === ']') {
+        depth--;
+        i++;
+        if (depth === 0) return i;
+      } else if (s[i] === '(') {
+        i = readLiteralString(s, i);
+      } else {
+        i++;
+      }
+    }
+    return i;
+  }
+
+  if (ch === '(') return readLiteralString(s, i);
+
+  if (ch === '<') {
+    const end = s.indexOf('>', i);
+    return end === -1 ? s.length : end + 1;
+  }
+
+  if (ch === '/') return readName(s, i);
+
+  // Number, keyword, or indirect reference "N G R"
+  const ref = s.slice(i).match(/^\d+\s+\d+\s+R(?![A-Za-z])/);
+  if (ref) return i + ref[0].length;
+
+  let end = i;
+  while (end < s.length && !/[\s\/\[\]<>()%]/.test(s[end])) end++;
+  return end === i ? i + 1 : end;
+}
+
+// ---------------------------------------------------------------------------
+// Fonts
+// ---------------------------------------------------------------------------
+
+function getFontDecoder(
+  objects: Map<number, PdfObject>,
+  fontRef: string,
+  cache: Map<string, FontDecoder>
+): FontDecoder {
+  const cached = cache.get(fontRef);
+  if (cached) return cached;
+
+  const fontDict = resolve(objects, fontRef) || '';
+  const isType0 = nameValue(getDictValue(fontDict, 'Subtype')) === 'Type0';
+  let decoder: FontDecoder = { codeLength: isType0 ? 2 : 1, map: null };
+
+  const toUnicode = getDictValue(fontDict, 'ToUnicode');
+  const cmapData = toUnicode ? streamOf(objects, toUnicode) : null;
+  if (cmapData) {
+    decoder = parseToUnicodeCMap(cmapData.toString('latin1'), decoder.codeLength);
+  }
+
+  cache.set(fontRef, decoder);
+  return decoder;
+}
+
+function parseToUnicodeCMap(cmap: string, defaultCodeLength: number): FontDecoder {
+  const map = new Map<number, string>();
+  let codeLength = defaultCodeLength;
+
+  const codespace = cmap.match(/begincodespacerange\s*<([0-9A-Fa-f]+)>/);
+  if (codespace) {
+    codeLength = Math.max(1, Math.ceil(codespace[1].length / 2));
+  }
+
+  const utf16 = (hex: string): string => {
+    const chars: number[] = [];
+    for (let i = 0; i + 4 <= hex.length; i += 4) {
+      chars.push(parseInt(hex.slice(i, i + 4), 16));
+    }
+    if (chars.length === 0 && hex.length > 0) chars.push(parseInt(hex, 16));
+    return String.fromCharCode(...chars);
+  };
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const entry of block[1].matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]+)>/g)) {
+      map.set(parseInt(entry[1], 16), utf16(entry[2]));
+    }
+  }
+
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const ranges = block[1].matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]+)>\s*(<[0-9A-Fa-f]+>|\[[^\]]*\])/g);
+    for (const range of ranges) {
+      const lo = parseInt(range[1], 16);
+      const hi = parseInt(range[2], 16);
+      if (hi < lo || hi - lo > 0xffff) continue;
+
+      if (range[3].startsWith('[')) {
+        const targets = Array.from(range[3].matchAll(/<([0-9A-Fa-f]+)>/g)).map(m => utf16(m[1]));
+        targets.forEach((target, idx) => map.set(lo + idx, target));
+      } else {
+        const base = range[3].slice(1, -1);
+        const prefix = utf16(base.slice(0, -4));
+        const start = parseInt(base.slice(-4), 16);
+        for (let code = lo; code <= hi; code++) {
+          map.set(code, prefix + String.fromCharCode(start + (code - lo)));
+        }
+      }
+    }
+  }
+
+  return { codeLength, map: map.size > 0 ? map : null };
+}
+
+function decodeText(bytes: string, decoder: FontDecoder | null): string {
+  if (!decoder || (!decoder.map && decoder.codeLength === 1)) return bytes;
+
+  let out = '';
+  for (let i = 0; i + decoder.codeLength <= bytes.length; i += decoder.codeLength) {
+    let code = 0;
+    for (let j = 0; j < decoder.codeLength; j++) {
+      code = (code << 8) | bytes.charCodeAt(i + j);
+    }
+    const mapped = decoder.map?.get(code);
+    if (mapped !== undefined) {
+      out += mapped;
+    } else if (decoder.codeLength === 1) {
+      out += bytes[i];
+    }
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Content streams
+// ---------------------------------------------------------------------------
+
+type Operand =
+  | { kind: 'string'; value: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'name'; value: string }
+  | { kind: 'array'; value: Operand[] }
+  | { kind: 'other' };
+
+function renderContent(
+  objects: Map<number, PdfObject>,
+  content: string,
+  resources: string,
+  fontCache: Map<string, FontDecoder>,
+  depth: number
+): string {
+  const fonts = new Map(dictEntries(resolveDict(objects, getDictValue(resources, 'Font'))));
+  const xobjects = new Map(dictEntries(resolveDict(objects, getDictValue(resources, 'XObject'))));
+
+  let out = '';
+  let font: FontDecoder | null = null;
+  let lastY: number | null = null;
+  let operands: Operand[] = [];
+
+  const newline = () => {
+    if (out && !out.endsWith('\n')) out += '\n';
+  };
+  const space = () => {
+    if (out && !/\s$/.test(out)) out += ' ';
+  };
+  const show = (operand: Operand | undefined) => {
+    if (operand?.kind === 'string') out += decodeText(operand.value, font);
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    i = skipWhitespace(content, i);
+    if (i >= content.length) break;
+    const ch = content[i];
+
+    if (ch === '(' || ch === '<' || ch === '[' || ch === '/' || /[\d.+\-]/.test(ch)) {
+      if (content.startsWith('<<', i)) {
+        i = readValue(content, i);
+        operands.push({ kind: 'other' });
+        continue;
+      }
+      const end = readValue(content, i);
+      operands.push(parseOperand(content.slice(i, end)));
+      i = end;
+      continue;
+    }
+
+    // Operator
+    let end = i;
+    while (end < content.length && !/[\s\/\[\]<>()%]/.test(content[end])) end++;
+    if (end === i) end = i + 1;
+    const op = content.slice(i, end);
+    i = end;
+
+    switch (op) {
+      case 'Tf': {
+        const name = operands[0]?.kind === 'name' ? operands[0].value : null;
+        const ref = name ? fonts.get(name) : undefined;
+        font = ref ? getFontDecoder(objects, ref, fontCache) : null;
+        break;
+      }
+      case 'Tj':
+        show(operands[operands.length - 1]);
+        break;
+      case "'":
+      case '"':
+        newline();
+        show(operands[operands.length - 1]);
+        break;
+      case 'TJ': {
+        const array = operands[operands.length - 1];
+        if (array?.kind === 'array') {
+          for (const item of array.value) {
+            if (item.kind === 'string') {
+              show(item);
+            } else if (item.kind === 'number' && item.value < -200) {
+              // Large negative kerning is a word gap
+              space();
+            }
+          }
+        }
+        break;
+      }
+      case 'Td':
+      case 'TD': {
+        const ty = operands[1]?.kind === 'number' ? operands[1].value : 0;
+        if (ty !== 0) newline();
+        else space();
+        break;
+      }
+      case 'T*':
+        newline();
+        break;
+      case 'Tm': {
+        const y = operands[5]?.kind === 'number' ? operands[5].value : null;
+        if (y !== null && lastY !== null && Math.abs(y - lastY) > 0.5) newline();
+        else space();
+        lastY = y;
+        break;
+      }
+      case 'BT':
+        lastY = null;
+        break;
+      case 'ET':
+        newline();
+        break;
+      case 'Do': {
+        const name = operands[0]?.kind === 'name' ? operands[0].value : null;
+        const ref = name ? xobjects.get(name) : undefined;
+        const xobject = ref ? objects.get(refNumber(ref) ?? -1) : undefined;
+        if (xobject?.stream && depth < MAX_XOBJECT_DEPTH &&
+            nameValue(getDictValue(xobject.dict, 'Subtype')) === 'Form') {
+          const formResources = getDictValue(xobject.dict, 'Resources');
+          newline();
+          out += renderContent(
+            objects,
+            xobject.stream.toString('latin1'),
+            formResources ? resolveDict(objects, formResources) : resources,
+            fontCache,
+            depth + 1
+          );
+          newline();
+        }
+        break;
+      }
+      case 'BI': {
+        // Inline image data is binary; skip to its EI marker
+        const ei = content.indexOf('EI', content.indexOf('ID', i));
+        i = ei === -1 ? content.length : ei + 2;
+        break;
+      }
+    }
+
+    operands = [];
+  }
+
+  return out.trim();
+}
+
+function parseOperand(raw: string): Operand {
+  if (raw.startsWith('(')) return { kind: 'string', value: unescapeLiteral(raw.slice(1, -1)) };
+  if (raw.startsWith('<')) return { kind: 'string', value: hexToBytes(raw.slice(1, -1)) };
+  if (raw.startsWith('/')) return { kind: 'name', value: raw.slice(1) };
+  if (raw.startsWith('[')) {
+    const items: Operand[] = [];
+    let i = 1;
+    while (i < raw.length - 1) {
+      i = skipWhitespace(raw, i);
+      if (i >= raw.length - 1) break;
+      const end = readValue(raw, i);
+      items.push(parseOperand(raw.slice(i, end)));
+      i = end;
+    }
+    return { kind: 'array', value: items };
+  }
+  const num = parseFloat(raw);
+  return isNaN(num) ? { kind: 'other' } : { kind: 'number', value: num };
+}
+
+function hexToBytes(hex: string): string {
+  const clean = hex.replace(/[^0-9A-Fa-f]/g, '');
+  const padded = clean.length % 2 === 0 ? clean : clean + '0';
+  let out = '';
+  for (let i = 0; i < padded.length; i += 2) {
+    out += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16));
+  }
+  return out;
+}
+
+function unescapeLiteral(s: string): string {
+  let out = '';
+  for (let i = 0; i < s.length; i++) {
+    const ch = s[i];
+    if (ch !== '\\') {
+      out += ch;
+      continue;
+    }
+    const next = s[++i];
+    switch (next) {
+      case 'n': out += '\n'; break;
+      case 'r': out += '\r'; break;
+      case 't': out += '\t'; break;
+      case 'b': out += '\b'; break;
+      case 'f': out += '\f'; break;
+      case '\r':
+        if (s[i + 1] === '\n') i++;
+        break;
+      case '\n':
+        break;
+      default:
+        if (next && /[0-7]/.test(next)) {
+          let octal = next;
+          while (octal.length < 3 && /[0-7]/.test(s[i + 1] || '')) octal += s[++i];
+          out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        } else if (next !== undefined) {
+          out += next;
+        }
+    }
+  }
+  return out;
+}
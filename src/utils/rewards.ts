@@ -0,0 +1,371 @@
+/**
+ * Rewards earning model.
+ *
+ * Each card has a program: a base rate, fixed category multipliers with
+ * optional spend caps, and optionally a rotating quarterly bonus whose
+ * categories the user picks each quarter. Rates are units earned per dollar
+ * (points or miles per dollar, or percent for cashback) and a unit is worth
+ * `pointValueCents`, so cashback is simply 1 cent per unit. Spend above a
+ * cap earns the base rate.
+ */
+
+import { countsTowardSpend, type SpendTransaction } from '@/utils/spend';
+
+export type RewardCategory =
+  | 'dining'
+  | 'groceries'
+  | 'travel'
+  | 'gas'
+  | 'transit'
+  | 'streaming'
+  | 'entertainment'
+  | 'drugstores'
+  | 'online_shopping'
+  | 'other';
+
+export type RewardCurrency = 'cashback' | 'points' | 'miles';
+export type CapPeriod = 'month' | 'quarter' | 'year';
+
+export interface CategoryMultiplier {
+  category: RewardCategory;
+  rate: number;
+  // Spend per period that earns this rate; null = uncapped
+  capAmount: number | null;
+  capPeriod: CapPeriod | null;
+}
+
+export interface RotatingQuarter {
+  // e.g. "2025-Q4"
+  quarter: string;
+  categories: RewardCategory[];
+}
+
+export interface RewardProgramInput {
+  currency: RewardCurrency;
+  pointValueCents: number;
+  baseRate: number;
+  multipliers: CategoryMultiplier[];
+  // Rotating bonus; the rate and quarterly cap are fixed, categories change
+  rotatingRate: number | null;
+  rotatingCapAmount: number | null;
+  rotatingQuarters: RotatingQuarter[];
+}
+
+export interface RewardProgram extends RewardProgramInput {
+  // Catalog entry the program was seeded from, if any
+  catalogId: string | null;
+}
+
+export interface TransactionReward {
+  transaction: SpendTransaction;
+  category: RewardCategory;
+  // Units earned and their dollar value
+  earned: number;
+  value: number;
+}
+
+export interface RewardPeriodSummary {
+  label: string;
+  start: string;
+  end: string;
+  spend: number;
+  earned: number;
+  value: number;
+}
+
+export interface BestCardForCategory {
+  category: RewardCategory;
+  spend: number;
+  // What the user's actual card choices earned on this spend
+  actualValue: number;
+  bestCreditCardId: string;
+  // Cents per dollar at the best card's current rate
+  bestCentsPerDollar: number;
+  bestValue: number;
+}
+
+export const REWARD_CATEGORIES: { value: RewardCategory; label: string }[] = [
+  { value: 'dining', label: 'Dining' },
+  { value: 'groceries', label: 'Groceries' },
+  { value: 'travel', label: 'Travel' },
+  { value: 'gas', label: 'Gas' },
+  { value: 'transit', label: 'Transit' },
+  { value: 'streaming', label: 'Streaming' },
+  { value: 'entertainment', label: 'Entertainment' },
+  { value: 'drugstores', label: 'Drugstores' },
+  { value: 'online_shopping', label: 'Online Shopping' },
+  { value: 'other', label: 'Everything else' },
+];
+
+const MAX_RATE = 100;
+
+// Plaid detailed categories first, then primary categories
+const DETAILED_CATEGORY_MAP: [string, RewardCategory][] = [
+  ['FOOD_AND_DRINK_GROCERIES', 'groceries'],
+  ['TRANSPORTATION_GAS', 'gas'],
+  ['ENTERTAINMENT_TV_AND_MOVIES', 'streaming'],
+  ['ENTERTAINMENT_MUSIC_AND_AUDIO', 'streaming'],
+  ['MEDICAL_PHARMACIES_AND_SUPPLEMENTS', 'drugstores'],
+  ['GENERAL_MERCHANDISE_ONLINE_MARKETPLACES', 'online_shopping'],
+];
+
+const PRIMARY_CATEGORY_MAP: Record<string, RewardCategory> = {
+  FOOD_AND_DRINK: 'dining',
+  TRAVEL: 'travel',
+  TRANSPORTATION: 'transit',
+  ENTERTAINMENT: 'entertainment',
+};
+
+/** Reward category for a transaction; a rule category naming a reward category wins. */
+export function rewardCategoryFor(transaction: Pick<SpendTransaction, 'category' | 'subcategory' | 'ruleCategory'>): RewardCategory {
+  if (transaction.ruleCategory) {
+    const ruled = transaction.ruleCategory.trim().toLowerCase();
+    const match = REWARD_CATEGORIES.find(c => c.value === ruled || c.label.toLowerCase() === ruled);
+    if (match) return match.value;
+  }
+
+  const detailed = (transaction.subcategory || '').toUpperCase();
+  const detailedMatch = DETAILED_CATEGORY_MAP.find(([prefix]) => detailed.startsWith(prefix));
+  if (detailedMatch) return detailedMatch[1];
+
+  return PRIMARY_CATEGORY_MAP[(transaction.category || '').toUpperCase()] || 'other';
+}
+
+export function quarterKey(date: Date): string {
+  return `${date.getUTCFullYear()}-Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+}
+
+function capPeriodKey(period: CapPeriod, date: Date): string {
+  if (period === 'year') return String(date.getUTCFullYear());
+  if (period === 'quarter') return quarterKey(date);
+  return `${date.getUTCFullYear()}-${date.getUTCMonth() + 1}`;
+}
+
+export type ValidatedRewardProgram =
+  | { program: RewardProgramInput; error: null }
+  | { program: null; error: string };
+
+/** Validate a program from a request body; `error` is a message suitable for a 400 response. */
+export function validateRewardProgram(input: Record<string, unknown>): ValidatedRewardProgram {
+  const invalid = (error: string): ValidatedRewardProgram => ({ program: null, error });
+  const isCategory = (value: unknown): value is RewardCategory => REWARD_CATEGORIES.some(c => c.value === value);
+  const isRate = (value: number) => isFinite(value) && value >= 0 && value <= MAX_RATE;
+  const optionalAmount = (value: unknown) => value === null || value === undefined || value === '' ? null : Number(value);
+
+  const currency = input.currency ?? 'cashback';
+  if (currency !== 'cashback' && currency !== 'points' && currency !== 'miles') {
+    return invalid('currency must be cashback, points or miles');
+  }
+
+  const pointValueCents = currency === 'cashback' ? 1 : Number(input.pointValueCents ?? 1);
+  if (!isFinite(pointValueCents) || pointValueCents <= 0 || pointValueCents > 10) {
+    return invalid('Point value must be between 0 and 10 cents');
+  }
+
+  const baseRate = Number(input.baseRate ?? 1);
+  if (!isRate(baseRate)) {
+    return invalid('Base rate must be between 0 and 100');
+  }
+
+  const multipliers: CategoryMultiplier[] = [];
+  for (const raw of Array.isArray(input.multipliers) ? input.multipliers : []) {
+    const entry = (raw || {}) as Record<string, unknown>;
+    const rate = Number(entry.rate);
+    const capAmount = optionalAmount(entry.capAmount);
+    const capPeriod = entry.capPeriod ?? null;
+    if (!isCategory(entry.category)) {
+      return invalid('Each multiplier needs a valid category');
+    }
+    if (!isRate(rate)) {
+      return invalid('Multiplier rates must be between 0 and 100');
+    }
+    if (capAmount !== null && (!isFinite(capAmount) || capAmount <= 0)) {
+      return invalid('Caps must be positive amounts');
+    }
+    if (capAmount !== null && capPeriod !== 'month' && capPeriod !== 'quarter' && capPeriod !== 'year') {
+      return invalid('Capped multipliers need a cap period of month, quarter or year');
+    }
+    multipliers.push({
+      category: entry.category,
+      rate,
+      capAmount,
+      capPeriod: capAmount !== null ? capPeriod as CapPeriod : null,
+    });
+  }
+
+  const rotatingRate = optionalAmount(input.rotatingRate);
+  if (rotatingRate !== null && !isRate(rotatingRate)) {
+    return invalid('Rotating rate must be between 0 and 100');
+  }
+  const rotatingCapAmount = optionalAmount(input.rotatingCapAmount);
+  if (rotatingCapAmount !== null && (!isFinite(rotatingCapAmount) || rotatingCapAmount <= 0)) {
+    return invalid('Rotating cap must be a positive amount');
+  }
+
+  const rotatingQuarters: RotatingQuarter[] = [];
+  for (const raw of Array.isArray(input.rotatingQuarters) ? input.rotatingQuarters : []) {
+    const entry = (raw || {}) as Record<string, unknown>;
+    if (typeof entry.quarter !== 'string' || !/^\d{4}-Q[1-4]$/.test(entry.quarter)) {
+      return invalid('Rotating quarters must look like 2025-Q4');
+    }
+    const categories = Array.isArray(entry.categories) ? entry.categories.filter(isCategory) : [];
+    rotatingQuarters.push({ quarter: entry.quarter, categories: [...new Set(categories)] });
+  }
+
+  return {
+    program: {
+      currency,
+      pointValueCents,
+      baseRate,
+      multipliers,
+      rotatingRate,
+      rotatingCapAmount: rotatingRate !== null ? rotatingCapAmount : null,
+      rotatingQuarters: rotatingRate !== null ? rotatingQuarters : [],
+    },
+    error: null,
+  };
+}
+
+interface RateOption {
+  rate: number;
+  // Cap bucket this rate draws from, or null when uncapped
+  capKey: string | null;
+  capAmount: number | null;
+}
+
+// Bonus rates that apply to a category on a date, best first
+function bonusRates(program: RewardProgramInput, category: RewardCategory, date: Date): RateOption[] {
+  const options: RateOption[] = program.multipliers
+    .map((m, index) => ({ m, index }))
+    .filter(({ m }) => m.category === category && m.rate > program.baseRate)
+    .map(({ m, index }) => ({
+      rate: m.rate,
+      capKey: m.capAmount !== null && m.capPeriod ? `m${index}:${capPeriodKey(m.capPeriod, date)}` : null,
+      capAmount: m.capAmount,
+    }));
+
+  if (program.rotatingRate !== null && program.rotatingRate > program.baseRate) {
+    const quarter = quarterKey(date);
+    const active = program.rotatingQuarters.find(q => q.quarter === quarter);
+    if (active?.categories.includes(category)) {
+      options.push({
+        rate: program.rotatingRate,
+        capKey: program.rotatingCapAmount !== null ? `rotating:${quarter}` : null,
+        capAmount: program.rotatingCapAmount,
+      });
+    }
+  }
+
+  return options.sort((a, b) => b.rate - a.rate);
+}
+
+/** The best uncapped-or-capped rate a category earns on a date, ignoring how much of any cap is used. */
+export function headlineRate(program: RewardProgramInput, category: RewardCategory, date: Date): number {
+  return bonusRates(program, category, date)[0]?.rate ?? program.baseRate;
+}
+
+/**
+ * Rewards for each of a card's spend transactions, in date order so caps
+ * fill up the way the issuer counts them. Refunds claw back at the rate of
+ * their category without giving cap room back.
+ */
+export function computeTransactionRewards(program: RewardProgramInput, transactions: SpendTransaction[]): TransactionReward[] {
+  const capUsed = new Map<string, number>();
+  const unitValue = program.pointValueCents / 100;
+
+  return transactions
+    .filter(countsTowardSpend)
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .map(transaction => {
+      const category = rewardCategoryFor(transaction);
+      let remaining = transaction.amount;
+      let earned = 0;
+
+      if (remaining < 0) {
+        earned = remaining * headlineRate(program, category, transaction.date);
+        remaining = 0;
+      }
+
+      for (const option of bonusRates(program, category, transaction.date)) {
+        if (remaining <= 0) break;
+        let eligible = remaining;
+        if (option.capKey && option.capAmount !== null) {
+          const used = capUsed.get(option.capKey) || 0;
+          eligible = Math.max(0, Math.min(remaining, option.capAmount - used));
+          capUsed.set(option.capKey, used + eligible);
+        }
+        earned += eligible * option.rate;
+        remaining -= eligible;
+      }
+      earned += remaining * program.baseRate;
+
+      const rounded = Math.round(earned * 100) / 100;
+      return { transaction, category, earned: rounded, value: Math.round(rounded * unitValue * 100) / 100 };
+    });
+}
+
+/** Total spend and rewards per period; periods are inclusive UTC day ranges. */
+export function summarizeRewards(
+  rewards: TransactionReward[],
+  periods: { label: string; start: Date; end: Date }[]
+): RewardPeriodSummary[] {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  return periods.map(period => {
+    const inPeriod = rewards.filter(r =>
+      r.transaction.date.getTime() >= period.start.getTime() &&
+      r.transaction.date.getTime() < period.end.getTime() + DAY_MS
+    );
+    const sum = (pick: (r: TransactionReward) => number) => Math.round(inPeriod.reduce((total, r) => total + pick(r), 0) * 100) / 100;
+    return {
+      label: period.label,
+      start: period.start.toISOString(),
+      end: period.end.toISOString(),
+      spend: sum(r => r.transaction.amount),
+      earned: sum(r => r.earned),
+      value: sum(r => r.value),
+    };
+  });
+}
+
+/**
+ * For each category in the user's spend mix, the card that earns the most per
+ * dollar today versus what the user actually earned. Caps are not modelled
+ * here, so the best value is an upper bound for heavily capped categories.
+ */
+export function bestCardsByCategory(
+  programs: { creditCardId: string; program: RewardProgramInput }[],
+  rewards: TransactionReward[],
+  now: Date
+): BestCardForCategory[] {
+  if (programs.length === 0) return [];
+
+  const byCategory = new Map<RewardCategory, { spend: number; actualValue: number }>();
+  for (const reward of rewards) {
+    const entry = byCategory.get(reward.category) || { spend: 0, actualValue: 0 };
+    entry.spend += reward.transaction.amount;
+    entry.actualValue += reward.value;
+    byCategory.set(reward.category, entry);
+  }
+
+  const results: BestCardForCategory[] = [];
+  for (const [category, { spend, actualValue }] of byCategory) {
+    if (spend <= 0) continue;
+    const ranked = programs
+      .map(({ creditCardId, program }) => ({
+        creditCardId,
+        centsPerDollar: headlineRate(program, category, now) * program.pointValueCents,
+      }))
+      .sort((a, b) => b.centsPerDollar - a.centsPerDollar);
+    const best = ranked[0];
+    results.push({
+      category,
+      spend: Math.round(spend * 100) / 100,
+      actualValue: Math.round(actualValue * 100) / 100,
+      bestCreditCardId: best.creditCardId,
+      bestCentsPerDollar: Math.round(best.centsPerDollar * 100) / 100,
+      bestValue: Math.round(spend * best.centsPerDollar) / 100,
+    });
+  }
+
+  return results.sort((a, b) => b.spend - a.spend);
+}
@@ -0,0 +1,171 @@
+/**
+ * A small local catalog of common cards' published earning rules, used to
+ * seed a card's rewards program by matching its name. Rates change; users
+ * can edit any seeded program. Rotating cards ship with the rate and cap
+ * only, since the quarter's categories have to be picked each quarter.
+ */
+
+import type { RewardProgramInput } from '@/utils/rewards';
+
+export interface CatalogCard {
+  id: string;
+  name: string;
+  // Matched against the Plaid account name and official name
+  pattern: RegExp;
+  program: RewardProgramInput;
+}
+
+const NO_ROTATION = { rotatingRate: null, rotatingCapAmount: null, rotatingQuarters: [] };
+
+export const REWARDS_CATALOG: CatalogCard[] = [
+  {
+    id: 'chase-freedom-flex',
+    name: 'Chase Freedom Flex',
+    pattern: /freedom\s*flex/i,
+    program: {
+      currency: 'cashback',
+      pointValueCents: 1,
+      baseRate: 1,
+      multipliers: [
+        { category: 'dining', rate: 3, capAmount: null, capPeriod: null },
+        { category: 'drugstores', rate: 3, capAmount: null, capPeriod: null },
+      ],
+      rotatingRate: 5,
+      rotatingCapAmount: 1500,
+      rotatingQuarters: [],
+    },
+  },
+  {
+    id: 'chase-sapphire-preferred',
+    name: 'Chase Sapphire Preferred',
+    pattern: /sapphire\s*preferred/i,
+    program: {
+      currency: 'points',
+      pointValueCents: 1.25,
+      baseRate: 1,
+      multipliers: [
+        { category: 'dining', rate: 3, capAmount: null, capPeriod: null },
+        { category: 'streaming', rate: 3, capAmount: null, capPeriod: null },
+        { category: 'travel', rate: 2, capAmount: null, capPeriod: null },
+      ],
+      ...NO_ROTATION,
+    },
+  },
+  {
+    id: 'amex-gold',
+    name: 'American Express Gold Card',
+    pattern: /amex.*gold|american express.*gold|\bgold card\b/i,
+    program: {
+      currency: 'points',
+      pointValueCents: 1,
+      baseRate: 1,
+      multipliers: [
+        { category: 'dining', rate: 4, capAmount: 50000, capPeriod: 'year' },
+        { category: 'groceries', rate: 4, capAmount: 25000, capPeriod: 'year' },
+        { category: 'travel', rate: 3, capAmount: null, capPeriod: null },
+      ],
+      ...NO_ROTATION,
+    },
+  },
+  {
+    id: 'amex-blue-cash-preferred',
+    name: 'Blue Cash Preferred',
+    pattern: /blue\s*cash\s*preferred/i,
+    program: {
+      currency: 'cashback',
+      pointValueCents: 1,
+      baseRate: 1,
+      multipliers: [
+        { category: 'groceries', rate: 6, capAmount: 6000, capPeriod: 'year' },
+        { category: 'streaming', rate: 6, capAmount: null, capPeriod: null },
+        { category: 'gas', rate: 3, capAmount: null, capPeriod: null },
+        { category: 'transit', rate: 3, capAmount: null, capPeriod: null },
+      ],
+      ...NO_ROTATION,
+    },
+  },
+  {
+    id: 'capital-one-savorone',
+    name: 'Capital One SavorOne',
+    pattern: /savor/i,
+    program: {
+      currency: 'cashback',
+      pointValueCents: 1,
+      baseRate: 1,
+      multipliers: [
+        { category: 'dining', rate: 3, capAmount: null, capPeriod: null },
+        { category: 'entertainment', rate: 3, capAmount: null, capPeriod: null },
+        { category: 'streaming', rate: 3, capAmount: null, capPeriod: null },
+        { category: 'groceries', rate: 3, capAmount: null, capPeriod: null },
+      ],
+      ...NO_ROTATION,
+    },
+  },
+  {
+    id: 'capital-one-venture',
+    name: 'Capital One Venture',
+    pattern: /venture(?!\s*one)/i,
+    program: {
+      currency: 'miles',
+      pointValueCents: 1,
+      baseRate: 2,
+      multipliers: [],
+      ...NO_ROTATION,
+    },
+  },
+  {
+    id: 'citi-double-cash',
+    name: 'Citi Double Cash',
+    pattern: /double\s*cash/i,
+    program: {
+      currency: 'cashback',
+      pointValueCents: 1,
+      baseRate: 2,
+      multipliers: [],
+      ...NO_ROTATION,
+    },
+  },
+  {
+    id: 'wells-fargo-active-cash',
+    name: 'Wells Fargo Active Cash',
+    pattern: /active\s*cash/i,
+    program: {
+      currency: 'cashback',
+      pointValueCents: 1,
+      baseRate: 2,
+      multipliers: [],
+      ...NO_ROTATION,
+    },
+  },
+  {
+    id: 'discover-it',
+    name: 'Discover it',
+    pattern: /discover/i,
+    program: {
+      currency: 'cashback',
+      pointValueCents: 1,
+      baseRate: 1,
+      multipliers: [],
+      rotatingRate: 5,
+      rotatingCapAmount: 1500,
+      rotatingQuarters: [],
+    },
+  },
+];
+
+// Cards with no catalog match earn a flat 1% until the user edits them
+export const DEFAULT_REWARD_PROGRAM: RewardProgramInput = {
+  currency: 'cashback',
+  pointValueCents: 1,
+  baseRate: 1,
+  multipliers: [],
+  ...NO_ROTATION,
+};
+
+export function findCatalogCard(id: string): CatalogCard | null {
+  return REWARDS_CATALOG.find(card => card.id === id) || null;
+}
+
+export function matchCatalogCard(...names: (string | null | undefined)[]): CatalogCard | null {
+  return REWARDS_CATALOG.find(card => names.some(name => name && card.pattern.test(name))) || null;
+}
@@ -0,0 +1,57 @@
+/**
+ * Scheduled (login-independent) sync rules: cadence, load spreading and
+ * configuration.
+ *
+ * Each scheduler run queues an item_sync job for every active Plaid item not
+ * synced within the cadence. Jobs are spaced apart instead of all being due at
+ * once, and when Plaid still answers 429 after the client's own backoff the
+ * remaining scheduled jobs are pushed back by a cool-down.
+ */
+
+export interface ScheduledSyncConfig {
+  // An item is synced again once its last sync is this old
+  cadenceMs: number;
+  // Gap between the run times of consecutive queued syncs
+  spacingMs: number;
+  // Most items queued by one scheduler run; the rest wait for the next run
+  maxItemsPerRun: number;
+}
+
+export const DEFAULT_SCHEDULED_SYNC_CONFIG: ScheduledSyncConfig = {
+  cadenceMs: 24 * 60 * 60 * 1000,
+  spacingMs: 30 * 1000,
+  maxItemsPerRun: 200,
+};
+
+// How long queued scheduled syncs wait after Plaid rate-limits one of them
+export const RATE_LIMIT_COOLDOWN_MS = 15 * 60 * 1000;
+
+function positiveNumber(value: string | undefined): number | null {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Config from SCHEDULED_SYNC_INTERVAL_HOURS, SCHEDULED_SYNC_SPACING_SECONDS and
+ * SCHEDULED_SYNC_MAX_ITEMS; missing or invalid values fall back to the defaults.
+ */
+export function scheduledSyncConfig(env: Record<string, string | undefined> = process.env): ScheduledSyncConfig {
+  const hours = positiveNumber(env.SCHEDULED_SYNC_INTERVAL_HOURS);
+  const seconds = positiveNumber(env.SCHEDULED_SYNC_SPACING_SECONDS);
+  const maxItems = positiveNumber(env.SCHEDULED_SYNC_MAX_ITEMS);
+  return {
+    cadenceMs: hours ? hours * 60 * 60 * 1000 : DEFAULT_SCHEDULED_SYNC_CONFIG.cadenceMs,
+    spacingMs: seconds ? seconds * 1000 : DEFAULT_SCHEDULED_SYNC_CONFIG.spacingMs,
+    maxItemsPerRun: maxItems ? Math.floor(maxItems) : DEFAULT_SCHEDULED_SYNC_CONFIG.maxItemsPerRun,
+  };
+}
+
+/** Items whose last sync is older than this are due. */
+export function scheduledSyncCutoff(now: Date, config: ScheduledSyncConfig): Date {
+  return new Date(now.getTime() - config.cadenceMs);
+}
+
+/** Run time for the `index`-th sync queued by a run, spreading the run's load over time. */
+export function staggeredRunAt(index: number, now: Date, config: ScheduledSyncConfig): Date {
+  return new Date(now.getTime() + index * config.spacingMs);
+}
@@ -0,0 +1,61 @@
+/**
+ * Shared spend rules for analytics and budgets, so both count the same
+ * transactions under the same category labels.
+ */
+
+export interface SpendTransaction {
+  id: string;
+  // After any rename rule
+  name: string;
+  originalName: string;
+  merchantName: string | null;
+  amount: number;
+  date: Date;
+  pending: boolean;
+  category: string | null;
+  // Plaid's detailed category, e.g. FOOD_AND_DRINK_GROCERIES
+  subcategory: string | null;
+  // Category set by a rule, shown as the user typed it
+  ruleCategory: string | null;
+  excludeFromSpend: boolean;
+  // Detected from the original name with the card's issuer profile
+  isPayment: boolean;
+  creditCardId: string | null;
+  creditCard: { name: string; mask: string } | null;
+}
+
+// Helper function to format category names
+export function formatCategoryName(category: string): string {
+  if (!category) return 'Other';
+
+  // Handle Plaid's uppercase categories (e.g., FOOD_AND_DRINK -> Food & Drink)
+  let formatted = category
+    .replace(/_/g, ' ')  // Replace underscores with spaces
+    .toLowerCase()        // Convert to lowercase
+    .split(' ')          // Split into words
+    .map(word => {
+      // Capitalize first letter of each word
+      if (word === 'and' || word === 'or') return '&';
+      return word.charAt(0).toUpperCase() + word.slice(1);
+    })
+    .join(' ');
+
+  // Limit to 20 characters
+  if (formatted.length > 20) {
+    formatted = formatted.substring(0, 17) + '...';
+  }
+
+  return formatted;
+}
+
+// Category shown for a transaction: a rule's category as the user typed it,
+// otherwise Plaid's category, merchant name or transaction name, formatted
+export function categoryLabel(t: { category: string | null; ruleCategory: string | null; merchantName?: string | null; name?: string | null }): string {
+  if (t.ruleCategory) return t.ruleCategory;
+  return formatCategoryName(t.category || t.merchantName || t.name || 'Other');
+}
+
+// Spend excludes payments and rule-excluded transactions, includes charges and refunds.
+export function countsTowardSpend(t: { isPayment: boolean; excludeFromSpend: boolean }): boolean {
+  return !t.isPayment && !t.excludeFromSpend;
+}
@@ -0,0 +1,41 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { MIN_STATEMENT_CONFIDENCE, parseStatementPdf } from '@/utils/statementExtractors';
+
+// Each fixtures/statements/<issuer>.pdf has a matching <issuer>.expected.json
+const FIXTURE_DIR = path.join(process.cwd(), 'fixtures', 'statements');
+
+const day = (date: Date | null) => (date ? date.toISOString().slice(0, 10) : null);
+
+const fixtureNames = fs.readdirSync(FIXTURE_DIR)
+  .filter(file => file.endsWith('.pdf'))
+  .map(file => file.replace(/\.pdf$/, ''));
+
+describe('parseStatementPdf fixtures', () => {
+  it('finds the fixtures', () => {
+    expect(fixtureNames.length).toBeGreaterThan(0);
+  });
+
+  for (const name of fixtureNames) {
+    it(name, () => {
+      const expected = JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, `${name}.expected.json`), 'utf8'));
+      const fields = parseStatementPdf(fs.readFileSync(path.join(FIXTURE_DIR, `${name}.pdf`)));
+
+      expect(fields).not.toBeNull();
+      expect({
+        issuer: fields!.issuer,
+        statementBalance: fields!.statementBalance,
+        minimumPayment: fields!.minimumPayment,
+        dueDate: day(fields!.dueDate),
+        closingDate: day(fields!.closingDate),
+        openingDate: day(fields!.openingDate),
+      }).toEqual(expected);
+      expect(fields!.confidence).toBeGreaterThanOrEqual(MIN_STATEMENT_CONFIDENCE);
+    });
+  }
+
+  it('returns null for a PDF without extractable text', () => {
+    expect(parseStatementPdf(Buffer.from('%PDF-1.4\n%%EOF\n'))).toBeNull();
+  });
+});
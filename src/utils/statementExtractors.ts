@@ -0,0 +1,278 @@
+import { extractPdfText } from '@/utils/pdfText';
+
+/**
+ * Issuer-specific field extraction from statement PDF text.
+ *
+ * Each extractor knows the labels its issuer prints next to the statement
+ * balance, minimum payment, payment due date and closing date. Fields an
+ * issuer extractor misses fall back to generic labels at reduced weight, and
+ * the result carries a 0-1 confidence so callers can keep the transaction
+ * heuristics when a statement could not be read reliably.
+ */
+
+export type StatementIssuer = 'robinhood' | 'amex' | 'chase' | 'capital_one' | 'bank_of_america' | 'generic';
+
+export interface ExtractedStatementFields {
+  issuer: StatementIssuer;
+  statementBalance: number | null;
+  minimumPayment: number | null;
+  dueDate: Date | null;
+  closingDate: Date | null;
+  openingDate: Date | null;
+  confidence: number;
+}
+
+// Bump when extractors change so cached extractions are re-parsed
+export const STATEMENT_PARSER_VERSION = 1;
+
+// Below this, parsed figures are ignored and the existing heuristics apply
+export const MIN_STATEMENT_CONFIDENCE = 0.6;
+
+interface IssuerExtractor {
+  issuer: StatementIssuer;
+  // Matches the institution name or statement text
+  identify: RegExp;
+  statementBalance: RegExp[];
+  minimumPayment: RegExp[];
+  dueDate: RegExp[];
+  closingDate: RegExp[];
+  // Two captures: opening date, closing date
+  period: RegExp[];
+}
+
+const MONTH = '(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\\.?';
+const NAMED_DATE = `${MONTH}\\s+\\d{1,2},?\\s*\\d{4}`;
+const NAMED_DATE_NO_YEAR = `${MONTH}\\s+\\d{1,2}(?:,?\\s*\\d{4})?`;
+const NUMERIC_DATE = '\\d{1,2}\\/\\d{1,2}\\/\\d{2,4}';
+const DATE = `(${NAMED_DATE}|${NUMERIC_DATE})`;
+const AMOUNT = '(-?\\s*\\$\\s*-?[\\d,]+\\.\\d{2}|\\(\\$?[\\d,]+\\.\\d{2}\\)|-?[\\d,]+\\.\\d{2})';
+const SEP = '[:\\s]*';
+const RANGE = '\\s*(?:-|–|—|to|through)\\s*';
+
+const label = (text: string, value: string) => new RegExp(`${text}${SEP}${value}`, 'i');
+
+const ISSUER_EXTRACTORS: IssuerExtractor[] = [
+  {
+    issuer: 'robinhood',
+    identify: /robinhood/i,
+    statementBalance: [label('Statement\\s+Balance', AMOUNT), label('New\\s+Balance', AMOUNT)],
+    minimumPayment: [label('Minimum\\s+Payment(?:\\s+Due)?', AMOUNT)],
+    dueDate: [label('Payment\\s+Due\\s+(?:Date|By)', DATE)],
+    closingDate: [label('Statement\\s+(?:Closing\\s+)?Date', DATE)],
+    period: [new RegExp(`Statement\\s+Period${SEP}${DATE}${RANGE}${DATE}`, 'i')],
+  },
+  {
+    issuer: 'amex',
+    identify: /american\s+express|\bamex\b/i,
+    statementBalance: [label('New\\s+Balance', AMOUNT)],
+    minimumPayment: [label('Minimum\\s+Payment\\s+Due', AMOUNT)],
+    dueDate: [label('Payment\\s+Due\\s+Date', DATE)],
+    closingDate: [label('Closing\\s+Date', DATE)],
+    period: [],
+  },
+  {
+    issuer: 'chase',
+    identify: /\bchase\b/i,
+    statementBalance: [label('New\\s+Balance', AMOUNT)],
+    minimumPayment: [label('Minimum\\s+Payment\\s+Due', AMOUNT)],
+    dueDate: [label('Payment\\s+Due\\s+Date', DATE)],
+    closingDate: [],
+    period: [new RegExp(`Opening\\/Closing\\s+Date${SEP}${DATE}${RANGE}${DATE}`, 'i')],
+  },
+  {
+    issuer: 'capital_one',
+    identify: /capital\s*one/i,
+    statementBalance: [label('New\\s+Balance', AMOUNT)],
+    minimumPayment: [label('Minimum\\s+Payment\\s+Due', AMOUNT)],
+    dueDate: [label('Payment\\s+Due\\s+Date', DATE)],
+    closingDate: [],
+    // "Sep 23, 2025 - Oct 22, 2025 | 30 days in Billing Cycle"
+    period: [new RegExp(`${DATE}${RANGE}${DATE}\\s*\\|?\\s*\\d+\\s+days\\s+in\\s+Billing\\s+Cycle`, 'i')],
+  },
+  {
+    issuer: 'bank_of_america',
+    identify: /bank\s+of\s+america/i,
+    statementBalance: [label('New\\s+Balance\\s+Total', AMOUNT), label('New\\s+Balance', AMOUNT)],
+    minimumPayment: [label('Total\\s+Minimum\\s+Payment\\s+Due', AMOUNT), label('Minimum\\s+Payment\\s+Due', AMOUNT)],
+    dueDate: [label('Payment\\s+Due\\s+Date', DATE)],
+    closingDate: [label('Statement\\s+Closing\\s+Date', DATE)],
+    // "September 25 - October 24, 2025"
+    period: [new RegExp(`(${NAMED_DATE_NO_YEAR})${RANGE}(${NAMED_DATE})`, 'i')],
+  },
+];
+
+const GENERIC_EXTRACTOR: IssuerExtractor = {
+  issuer: 'generic',
+  identify: /$^/,
+  statementBalance: [
+    label('(?:New|Statement)\\s+Balance(?:\\s+Total)?', AMOUNT),
+  ],
+  minimumPayment: [label('(?:Total\\s+)?Minimum\\s+(?:Payment|Amount)(?:\\s+Due)?', AMOUNT)],
+  dueDate: [label('(?:Payment\\s+)?Due\\s+Date', DATE)],
+  closingDate: [
+    label('(?:Statement\\s+)?Closing\\s+Date', DATE),
+    label('Cycle\\s+End(?:\\s+Date)?', DATE),
+    label('Statement\\s+Date', DATE),
+  ],
+  period: [
+    new RegExp(`(?:Statement|Billing)\\s+Period${SEP}${DATE}${RANGE}${DATE}`, 'i'),
+    new RegExp(`Opening\\/Closing\\s+Date${SEP}${DATE}${RANGE}${DATE}`, 'i'),
+  ],
+};
+
+// Share of confidence each field contributes when found
+const FIELD_WEIGHTS = {
+  statementBalance: 0.3,
+  minimumPayment: 0.2,
+  dueDate: 0.3,
+  closingDate: 0.2,
+};
+
+// Fields only found by generic labels count for less
+const GENERIC_FIELD_FACTOR = 0.75;
+
+export function detectStatementIssuer(text: string, institutionName?: string | null): StatementIssuer {
+  if (institutionName) {
+    const byInstitution = ISSUER_EXTRACTORS.find(e => e.identify.test(institutionName));
+    if (byInstitution) return byInstitution.issuer;
+  }
+  // Issuer names appear in the header; only look at the top of the statement
+  const head = text.slice(0, 2000);
+  return ISSUER_EXTRACTORS.find(e => e.identify.test(head))?.issuer ?? 'generic';
+}
+
+/**
+ * Extract statement fields from already-extracted PDF text.
+ */
+export function extractStatementFields(text: string, institutionName?: string | null): ExtractedStatementFields {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  const issuer = detectStatementIssuer(normalized, institutionName);
+  const extractor = ISSUER_EXTRACTORS.find(e => e.issuer === issuer);
+
+  let confidence = 0;
+  const pick = <T>(
+    field: keyof typeof FIELD_WEIGHTS,
+    read: (patterns: RegExp[]) => T | null
+  ): T | null => {
+    const specific = extractor ? read(extractor[field]) : null;
+    if (specific !== null) {
+      confidence += FIELD_WEIGHTS[field];
+      return specific;
+    }
+    const generic = read(GENERIC_EXTRACTOR[field]);
+    if (generic !== null) {
+      confidence += FIELD_WEIGHTS[field] * GENERIC_FIELD_FACTOR;
+    }
+    return generic;
+  };
+
+  const readAmount = (patterns: RegExp[]) => firstMatch(normalized, patterns, m => parseAmount(m[1]));
+  const readDate = (patterns: RegExp[]) => firstMatch(normalized, patterns, m => parseStatementDate(m[1]));
+
+  const period = readPeriod(normalized, [...(extractor?.period || []), ...GENERIC_EXTRACTOR.period]);
+
+  const statementBalance = pick('statementBalance', readAmount);
+  const minimumPayment = pick('minimumPayment', readAmount);
+  const dueDate = pick('dueDate', readDate);
+  const closingDate = pick('closingDate', patterns => readDate(patterns) ?? period?.closing ?? null);
+
+  // Sanity checks: reject combinations no real statement would print
+  if (dueDate && closingDate) {
+    const gapDays = (dueDate.getTime() - closingDate.getTime()) / (1000 * 60 * 60 * 24);
+    if (gapDays < 14 || gapDays > 45) confidence *= 0.5;
+  }
+  if (statementBalance !== null && minimumPayment !== null && minimumPayment > Math.max(statementBalance, 0) + 0.01) {
+    confidence *= 0.5;
+  }
+
+  return {
+    issuer,
+    statementBalance,
+    minimumPayment,
+    dueDate,
+    closingDate,
+    openingDate: period?.opening ?? null,
+    confidence: Math.round(confidence * 1000) / 1000,
+  };
+}
+
+/**
+ * Extract statement fields straight from a statement PDF.
+ * Returns null when the PDF has no extractable text (e.g. scanned images).
+ */
+export function parseStatementPdf(pdf: Buffer, institutionName?: string | null): ExtractedStatementFields | null {
+  let text: string;
+  try {
+    text = extractPdfText(pdf);
+  } catch (error) {
+    console.warn('Statement PDF text extraction failed:', error);
+    return null;
+  }
+  if (!text.trim()) return null;
+  return extractStatementFields(text, institutionName);
+}
+
+function firstMatch<T>(text: string, patterns: RegExp[], convert: (match: RegExpMatchArray) => T | null): T | null {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const value = convert(match);
+    if (value !== null) return value;
+  }
+  return null;
+}
+
+function readPeriod(text: string, patterns: RegExp[]): { opening: Date; closing: Date } | null {
+  return firstMatch(text, patterns, match => {
+    const closing = parseStatementDate(match[2]);
+    if (!closing) return null;
+    const opening = parseStatementDate(match[1], closing);
+    return opening && opening < closing ? { opening, closing } : null;
+  });
+}
+
+export function parseAmount(raw: string): number | null {
+  const negative = /-|\(/.test(raw);
+  const value = parseFloat(raw.replace(/[^\d.]/g, ''));
+  if (isNaN(value)) return null;
+  return negative ? -value : value;
+}
+
+const MONTH_INDEX: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+};
+
+/**
+ * Parse "10/26/25", "10/26/2025", "Oct 26, 2025" or "October 26" as a UTC
+ * calendar date. A date without a year takes the year of `reference`, rolling
+ * back a year if that would put it after the reference.
+ */
+export function parseStatementDate(raw: string, reference?: Date): Date | null {
+  const value = raw.trim();
+
+  const numeric = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+  if (numeric) {
+    const year = parseInt(numeric[3], 10);
+    return validDate(year < 100 ? 2000 + year : year, parseInt(numeric[1], 10) - 1, parseInt(numeric[2], 10));
+  }
+
+  const named = value.match(/^([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s*(\d{4})?$/);
+  if (named) {
+    const month = MONTH_INDEX[named[1].slice(0, 3).toLowerCase()];
+    if (month === undefined) return null;
+    const day = parseInt(named[2], 10);
+
+    if (named[3]) return validDate(parseInt(named[3], 10), month, day);
+    if (!reference) return null;
+    const sameYear = validDate(reference.getUTCFullYear(), month, day);
+    if (sameYear && sameYear > reference) return validDate(reference.getUTCFullYear() - 1, month, day);
+    return sameYear;
+  }
+
+  return null;
+}
+
+function validDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCMonth() === month && date.getUTCDate() === day ? date : null;
+}
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import {
+  parseAmount,
+  parseCsv,
+  parseOfxStatement,
+  parseStatementDate,
+  planStatementImport,
+  reconcileBalance,
+  transactionFingerprint,
+  type ImportedTransaction,
+} from '@/utils/statementImport';
+
+function row(overrides: Partial<ImportedTransaction> = {}): ImportedTransaction {
+  return {
+    externalId: null,
+    date: '2025-03-04',
+    name: 'COFFEE SHOP',
+    merchantName: null,
+    category: null,
+    amount: 4.5,
+    ...overrides,
+  };
+}
+
+const idFor = (key: string) => `import:${key}`;
+
+describe('parseCsv', () => {
+  it('keeps commas, doubled quotes and newlines inside quoted fields', () => {
+    expect(parseCsv('\uFEFFDate,Description,Amount\r\n03/04/2025,"ACME, INC ""STORE""",12.00\n03/05/2025,"TWO\nLINES",-3\n')).toEqual([
+      ['Date', 'Description', 'Amount'],
+      ['03/04/2025', 'ACME, INC "STORE"', '12.00'],
+      ['03/05/2025', 'TWO\nLINES', '-3'],
+    ]);
+  });
+
+  it('drops blank rows and keeps a final row without a newline', () => {
+    expect(parseCsv('a,b\n\n , \nc,d')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+});
+
+describe('parseAmount', () => {
+  it('reads currency formatting and signs', () => {
+    expect(parseAmount('$1,234.56')).toBe(1234.56);
+    expect(parseAmount('-12')).toBe(-12);
+  });
+
+  it('treats parentheses and a CR suffix as credits', () => {
+    expect(parseAmount('(12.00)')).toBe(-12);
+    expect(parseAmount('12.00 CR')).toBe(-12);
+    expect(parseAmount('12.00cr')).toBe(-12);
+  });
+
+  it('returns null for blank or unparseable values', () => {
+    expect(parseAmount('  ')).toBeNull();
+    expect(parseAmount('n/a')).toBeNull();
+  });
+});
+
+describe('parseStatementDate', () => {
+  it('reads numeric dates in the mapped day order', () => {
+    expect(parseStatementDate('03/04/2025', 'mdy')).toBe('2025-03-04');
+    expect(parseStatementDate('03/04/2025', 'dmy')).toBe('2025-04-03');
+    expect(parseStatementDate('31.12.25', 'dmy')).toBe('2025-12-31');
+  });
+
+  it('rejects dates that do not exist in the mapped order', () => {
+    expect(parseStatementDate('31/12/2025', 'mdy')).toBeNull();
+    expect(parseStatementDate('2025-02-30', 'mdy')).toBeNull();
+  });
+
+  it('reads ISO and written-out dates regardless of order', () => {
+    expect(parseStatementDate('2025-03-04', 'dmy')).toBe('2025-03-04');
+    expect(parseStatementDate('Jan 15, 2025', 'dmy')).toBe('2025-01-15');
+  });
+});
+
+describe('parseOfxStatement', () => {
+  const ofx = `OFXHEADER:100
+<OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250304120000[-5:EST]
+<TRNAMT>-45.10
+<FITID>FIT-1
+<NAME>GROCERY &amp; CO
+<MEMO>GROCERY &amp; CO STORE 12
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20250310
+<TRNAMT>200.00
+<FITID>FIT-2
+<NAME>PAYMENT THANK YOU
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<TRNAMT>-5.00
+<NAME>NO DATE
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>-312.40<DTASOF>20250331</LEDGERBAL>
+</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>`;
+
+  it('flips signs to Plaid convention and prefers the longer memo', () => {
+    const statement = parseOfxStatement(ofx);
+    expect(statement.transactions).toEqual([
+      { externalId: 'FIT-1', date: '2025-03-04', name: 'GROCERY & CO STORE 12', merchantName: null, category: null, amount: 45.1 },
+      { externalId: 'FIT-2', date: '2025-03-10', name: 'PAYMENT THANK YOU', merchantName: null, category: null, amount: -200 },
+    ]);
+    expect(statement.statementBalance).toBe(312.4);
+  });
+
+  it('reports transactions missing a field by position', () => {
+    expect(parseOfxStatement(ofx).errors).toEqual([
+      { line: 3, message: 'Transaction is missing a posted date, amount or name' },
+    ]);
+  });
+});
+
+describe('planStatementImport', () => {
+  it('imports two identical purchases on the same day', () => {
+    const plan = planStatementImport([row(), row()], [], idFor);
+    expect(plan.toImport.map(t => t.transactionId)).toEqual([
+      `import:${transactionFingerprint(row())}#1`,
+      `import:${transactionFingerprint(row())}#2`,
+    ]);
+    expect(plan.duplicates).toHaveLength(0);
+  });
+
+  it('matches a re-imported file by id even when a row was edited', () => {
+    const stored = [{ transactionId: 'import:id:FIT-1', date: '2025-03-04', amount: 4.5, name: 'COFFEE SHOP' }];
+    const plan = planStatementImport([row({ externalId: 'FIT-1', name: 'COFFEE SHOP #12' })], stored, idFor);
+    expect(plan.duplicates.map(t => t.transactionId)).toEqual(['import:id:FIT-1']);
+    expect(plan.toImport).toHaveLength(0);
+  });
+
+  it('matches another download by fingerprint at most once per stored row', () => {
+    const stored = [{ transactionId: 'plaid-txn-1', date: '2025-03-04T00:00:00.000Z', amount: 4.5, name: 'Coffee Shop' }];
+    const plan = planStatementImport([row({ externalId: 'OTHER-1' }), row({ externalId: 'OTHER-2' })], stored, idFor);
+    expect(plan.duplicates.map(t => t.externalId)).toEqual(['OTHER-1']);
+    expect(plan.toImport.map(t => t.externalId)).toEqual(['OTHER-2']);
+  });
+
+  it('treats a repeated id within the file as a duplicate', () => {
+    const plan = planStatementImport([row({ externalId: 'FIT-1' }), row({ externalId: 'FIT-1', amount: 9 })], [], idFor);
+    expect(plan.toImport).toHaveLength(1);
+    expect(plan.duplicates).toHaveLength(1);
+  });
+});
+
+describe('reconcileBalance', () => {
+  it('moves the balance by the imported rows without a statement balance', () => {
+    expect(reconcileBalance(100, [row({ amount: 20.1 }), row({ amount: -50 })], null)).toEqual({
+      previousBalance: 100,
+      calculatedBalance: 70.1,
+      statementBalance: null,
+      difference: null,
+      newBalance: 70.1,
+    });
+  });
+
+  it('takes a stated balance as authoritative and reports the difference', () => {
+    expect(reconcileBalance(100, [row({ amount: 20.1 })], 125)).toMatchObject({
+      calculatedBalance: 120.1,
+      difference: 4.9,
+      newBalance: 125,
+    });
+  });
+});
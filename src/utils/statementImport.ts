@@ -0,0 +1,477 @@
+/**
+ * Statement file import for manual cards.
+ *
+ * Parses issuer CSV downloads (with a column mapping, suggested from the
+ * header row) and OFX/QFX files into transactions using Plaid's sign
+ * convention, then plans the import against the card's stored transactions:
+ * rows already imported, from this file or from another download of the same
+ * period, are reported as duplicates instead of inserted.
+ */
+
+export type StatementFileFormat = 'csv' | 'ofx' | 'qfx';
+
+// charges_positive: purchases are positive (Amex, Discover); charges_negative: purchases are negative (Chase)
+export type CsvAmountConvention = 'charges_positive' | 'charges_negative';
+export type CsvDateOrder = 'mdy' | 'dmy' | 'ymd';
+
+export interface CsvColumnMapping {
+  hasHeader: boolean;
+  // Zero-based column indexes; null = not present in the file
+  date: number;
+  description: number;
+  // Either a signed amount column or separate debit/credit columns
+  amount: number | null;
+  debit: number | null;
+  credit: number | null;
+  merchant: number | null;
+  category: number | null;
+  // Issuer reference number, used as the transaction's stable id
+  reference: number | null;
+  amountConvention: CsvAmountConvention;
+  dateOrder: CsvDateOrder;
+}
+
+export interface ImportedTransaction {
+  // FITID or issuer reference when the file has one
+  externalId: string | null;
+  // YYYY-MM-DD
+  date: string;
+  name: string;
+  merchantName: string | null;
+  category: string | null;
+  // Plaid sign convention: positive = purchase, negative = payment or credit
+  amount: number;
+}
+
+export interface StatementParseError {
+  // 1-based line (CSV) or transaction number (OFX)
+  line: number;
+  message: string;
+}
+
+export interface ParsedStatement {
+  transactions: ImportedTransaction[];
+  errors: StatementParseError[];
+  // Closing balance stated by the file, in Plaid's sign (positive = owed)
+  statementBalance: number | null;
+}
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export function detectStatementFormat(fileName: string, content: string): StatementFileFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv' || extension === 'ofx' || extension === 'qfx') {
+    return extension;
+  }
+  if (/<OFX>/i.test(content) || /^\s*OFXHEADER:/i.test(content)) return 'ofx';
+  return content.includes(',') ? 'csv' : null;
+}
+
+/** RFC 4180 rows: quoted fields may contain commas, doubled quotes and newlines. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+function findColumn(headers: string[], patterns: RegExp[]): number | null {
+  for (const pattern of patterns) {
+    const index = headers.findIndex(header => pattern.test(header));
+    if (index >= 0) return index;
+  }
+  return null;
+}
+
+/**
+ * Best guess at a mapping from the header row and the first data rows. Amount
+ * sign is guessed from the data: most rows on a card statement are purchases.
+ */
+export function suggestCsvMapping(rows: string[][]): CsvColumnMapping {
+  const headers = (rows[0] || []).map(h => h.trim().toLowerCase());
+  const hasHeader = headers.some(h => /date|amount|description/.test(h));
+
+  const date = findColumn(headers, [/^(transaction|trans\.?) date$/, /^date$/, /date/]) ?? 0;
+  const description = findColumn(headers, [/^description$/, /description/, /payee/, /^name$/, /details/]) ?? 1;
+  const amount = findColumn(headers, [/^amount/, /amount/]);
+  const debit = amount === null ? findColumn(headers, [/^debit/, /charge/, /withdrawal/]) : null;
+  const credit = amount === null ? findColumn(headers, [/^credit$/, /^credit amount/, /payment/, /deposit/]) : null;
+
+  const sample = rows.slice(hasHeader ? 1 : 0, hasHeader ? 51 : 50);
+  const signed = sample
+    .map(row => amount !== null ? parseAmount(row[amount] || '') : null)
+    .filter((value): value is number => value !== null && value !== 0);
+  const negatives = signed.filter(value => value < 0).length;
+
+  const dateSample = sample.map(row => (row[date] || '').trim()).filter(Boolean);
+  const dateOrder: CsvDateOrder = dateSample.some(value => /^\d{4}-/.test(value))
+    ? 'ymd'
+    : dateSample.some(value => Number(value.split(/[/.-]/)[0]) > 12) ? 'dmy' : 'mdy';
+
+  return {
+    hasHeader,
+    date,
+    description,
+    amount: amount ?? (debit === null && credit === null ? 2 : null),
+    debit,
+    credit,
+    merchant: findColumn(headers, [/merchant/]),
+    category: findColumn(headers, [/category/]),
+    reference: findColumn(headers, [/reference/, /transaction id/, /^id$/]),
+    amountConvention: negatives > signed.length / 2 ? 'charges_negative' : 'charges_positive',
+    dateOrder,
+  };
+}
+
+export type ValidatedCsvMapping =
+  | { mapping: CsvColumnMapping; error: null }
+  | { mapping: null; error: string };
+
+/** Validate a mapping from a request body; `error` is a message suitable for a 400 response. */
+export function validateCsvMapping(input: Record<string, unknown>): ValidatedCsvMapping {
+  const invalid = (error: string): ValidatedCsvMapping => ({ mapping: null, error });
+  const column = (value: unknown): number | null | 'invalid' => {
+    if (value === undefined || value === null || value === '') return null;
+    const index = Number(value);
+    return Number.isInteger(index) && index >= 0 ? index : 'invalid';
+  };
+
+  const columns = {
+    date: column(input.date),
+    description: column(input.description),
+    amount: column(input.amount),
+    debit: column(input.debit),
+    credit: column(input.credit),
+    merchant: column(input.merchant),
+    category: column(input.category),
+    reference: column(input.reference),
+  };
+  if (Object.values(columns).includes('invalid')) {
+    return invalid('Column mappings must be column numbers');
+  }
+  if (columns.date === null || columns.description === null) {
+    return invalid('Map the date and description columns');
+  }
+  if (columns.amount === null && columns.debit === null && columns.credit === null) {
+    return invalid('Map an amount column or debit and credit columns');
+  }
+
+  const amountConvention = input.amountConvention ?? 'charges_positive';
+  if (amountConvention !== 'charges_positive' && amountConvention !== 'charges_negative') {
+    return invalid('amountConvention must be charges_positive or charges_negative');
+  }
+  const dateOrder = input.dateOrder ?? 'mdy';
+  if (dateOrder !== 'mdy' && dateOrder !== 'dmy' && dateOrder !== 'ymd') {
+    return invalid('dateOrder must be mdy, dmy or ymd');
+  }
+
+  return {
+    mapping: {
+      hasHeader: input.hasHeader !== false,
+      date: columns.date as number,
+      description: columns.description as number,
+      amount: columns.amount as number | null,
+      debit: columns.debit as number | null,
+      credit: columns.credit as number | null,
+      merchant: columns.merchant as number | null,
+      category: columns.category as number | null,
+      reference: columns.reference as number | null,
+      amountConvention,
+      dateOrder,
+    },
+    error: null,
+  };
+}
+
+/** "$1,234.56", "(12.00)", "-12", "12.00 CR" (a credit) or null when blank or unparseable. */
+export function parseAmount(value: string): number | null {
+  let text = value.trim();
+  if (!text) return null;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  if (/\s*CR$/i.test(text)) {
+    sign = -sign;
+    text = text.replace(/\s*CR$/i, '');
+  }
+  const parsed = Number(text.replace(/[$£€,\s]/g, ''));
+  return isFinite(parsed) ? Math.round(sign * parsed * 100) / 100 : null;
+}
+
+function isoDay(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+/** Statement date to YYYY-MM-DD; two-digit years are 20xx. */
+export function parseStatementDate(value: string, order: CsvDateOrder): string | null {
+  const text = value.trim();
+
+  const ymd = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (ymd) return isoDay(Number(ymd[1]), Number(ymd[2]), Number(ymd[3]));
+
+  const parts = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (parts) {
+    const year = parts[3].length === 2 ? 2000 + Number(parts[3]) : Number(parts[3]);
+    const [month, day] = order === 'dmy' ? [Number(parts[2]), Number(parts[1])] : [Number(parts[1]), Number(parts[2])];
+    return isoDay(year, month, day);
+  }
+
+  // "Jan 15, 2025" and similar
+  const parsed = new Date(`${text} UTC`);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString().split('T')[0];
+}
+
+export function parseCsvStatement(text: string, mapping: CsvColumnMapping): ParsedStatement {
+  const rows = parseCsv(text);
+  const firstLine = mapping.hasHeader ? 1 : 0;
+  const transactions: ImportedTransaction[] = [];
+  const errors: StatementParseError[] = [];
+  const cell = (row: string[], index: number | null) => index === null ? '' : (row[index] || '').trim();
+
+  rows.slice(firstLine, firstLine + MAX_IMPORT_ROWS).forEach((row, i) => {
+    const line = firstLine + i + 1;
+
+    const date = parseStatementDate(cell(row, mapping.date), mapping.dateOrder);
+    if (!date) {
+      errors.push({ line, message: `Unrecognised date "${cell(row, mapping.date)}"` });
+      return;
+    }
+
+    let amount: number | null;
+    if (mapping.amount !== null) {
+      const raw = parseAmount(cell(row, mapping.amount));
+      amount = raw === null ? null : mapping.amountConvention === 'charges_negative' ? -raw : raw;
+    } else {
+      const debit = parseAmount(cell(row, mapping.debit)) ?? 0;
+      const credit = parseAmount(cell(row, mapping.credit)) ?? 0;
+      amount = Math.abs(debit) - Math.abs(credit);
+    }
+    if (amount === null) {
+      errors.push({ line, message: 'Missing or unrecognised amount' });
+      return;
+    }
+
+    const name = cell(row, mapping.description);
+    if (!name) {
+      errors.push({ line, message: 'Missing description' });
+      return;
+    }
+
+    transactions.push({
+      externalId: cell(row, mapping.reference) || null,
+      date,
+      name,
+      merchantName: cell(row, mapping.merchant) || null,
+      category: cell(row, mapping.category) || null,
+      amount: Math.round(amount * 100) / 100,
+    });
+  });
+
+  if (rows.length - firstLine > MAX_IMPORT_ROWS) {
+    errors.push({ line: firstLine + MAX_IMPORT_ROWS + 1, message: `Only the first ${MAX_IMPORT_ROWS} rows are imported` });
+  }
+
+  return { transactions, errors, statementBalance: null };
+}
+
+function decodeOfxText(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+// Value of an SGML (unclosed) or XML element inside `block`
+function ofxField(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeOfxText(match[1]) : null;
+}
+
+function ofxDay(value: string | null): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? isoDay(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+}
+
+/**
+ * OFX 1.x (SGML) and 2.x (XML) credit card statements, which QFX extends.
+ * OFX amounts are from the account holder's side, so signs flip to Plaid's.
+ */
+export function parseOfxStatement(text: string): ParsedStatement {
+  const transactions: ImportedTransaction[] = [];
+  const errors: StatementParseError[] = [];
+
+  const blocks = text.split(/<STMTTRN>/i).slice(1)
+    .map(block => block.split(/<\/STMTTRN>|<\/BANKTRANLIST>/i)[0]);
+
+  blocks.slice(0, MAX_IMPORT_ROWS).forEach((block, i) => {
+    const line = i + 1;
+    const date = ofxDay(ofxField(block, 'DTPOSTED'));
+    const trnAmount = parseAmount(ofxField(block, 'TRNAMT') || '');
+    const name = ofxField(block, 'NAME') || ofxField(block, 'MEMO');
+
+    if (!date || trnAmount === null || !name) {
+      errors.push({ line, message: 'Transaction is missing a posted date, amount or name' });
+      return;
+    }
+
+    const memo = ofxField(block, 'MEMO');
+    transactions.push({
+      externalId: ofxField(block, 'FITID'),
+      date,
+      name: memo && memo.length > name.length && memo.toLowerCase().startsWith(name.toLowerCase()) ? memo : name,
+      merchantName: null,
+      category: null,
+      amount: -trnAmount,
+    });
+  });
+
+  if (blocks.length > MAX_IMPORT_ROWS) {
+    errors.push({ line: MAX_IMPORT_ROWS + 1, message: `Only the first ${MAX_IMPORT_ROWS} transactions are imported` });
+  }
+
+  const ledger = text.split(/<LEDGERBAL>/i)[1];
+  const balance = ledger ? parseAmount(ofxField(ledger, 'BALAMT') || '') : null;
+
+  return { transactions, errors, statementBalance: balance === null ? null : -balance };
+}
+
+export interface ExistingImportTransaction {
+  transactionId: string;
+  date: string;
+  amount: number;
+  name: string;
+}
+
+export interface PlannedImportTransaction extends ImportedTransaction {
+  transactionId: string;
+}
+
+export interface StatementImportPlan {
+  toImport: PlannedImportTransaction[];
+  duplicates: PlannedImportTransaction[];
+}
+
+/** Same day, amount and description, ignoring case and punctuation. */
+export function transactionFingerprint(t: { date: string; amount: number; name: string }): string {
+  const name = t.name.toLowerCase().replace(/[^a-z0-9]+/g, '');
+  return `${t.date.split('T')[0]}|${Number(t.amount).toFixed(2)}|${name}`;
+}
+
+/**
+ * Split parsed rows into new and duplicate transactions. `idFor` turns an
+ * import key (the file's own id, or the fingerprint plus its occurrence in
+ * the file so two identical purchases on a day both import) into a stable
+ * transactionId, so re-importing a file matches by id. Rows from a different
+ * download of the same period match by fingerprint instead, at most once per
+ * stored transaction.
+ */
+export function planStatementImport(
+  incoming: ImportedTransaction[],
+  existing: ExistingImportTransaction[],
+  idFor: (importKey: string) => string
+): StatementImportPlan {
+  const existingIds = new Set(existing.map(t => t.transactionId));
+  const unmatched = new Map<string, number>();
+  existing.forEach(t => {
+    const fingerprint = transactionFingerprint(t);
+    unmatched.set(fingerprint, (unmatched.get(fingerprint) || 0) + 1);
+  });
+
+  const occurrences = new Map<string, number>();
+  const plan: StatementImportPlan = { toImport: [], duplicates: [] };
+  const seenIds = new Set<string>();
+
+  incoming.forEach(t => {
+    const fingerprint = transactionFingerprint(t);
+    const occurrence = (occurrences.get(fingerprint) || 0) + 1;
+    occurrences.set(fingerprint, occurrence);
+
+    const transactionId = idFor(t.externalId ? `id:${t.externalId}` : `${fingerprint}#${occurrence}`);
+    const planned = { ...t, transactionId };
+    const remaining = unmatched.get(fingerprint) || 0;
+
+    if (existingIds.has(transactionId) || seenIds.has(transactionId) || remaining > 0) {
+      if (remaining > 0) unmatched.set(fingerprint, remaining - 1);
+      plan.duplicates.push(planned);
+    } else {
+      plan.toImport.push(planned);
+    }
+    seenIds.add(transactionId);
+  });
+
+  return plan;
+}
+
+export interface BalanceReconciliation {
+  previousBalance: number;
+  // previousBalance plus the imported transactions
+  calculatedBalance: number;
+  statementBalance: number | null;
+  // statementBalance - calculatedBalance; null without a statement balance
+  difference: number | null;
+  // The balance stored on the card after the import
+  newBalance: number;
+}
+
+/**
+ * A stated closing balance is authoritative; otherwise the card balance moves
+ * by the imported transactions.
+ */
+export function reconcileBalance(
+  previousBalance: number,
+  imported: ImportedTransaction[],
+  statementBalance: number | null
+): BalanceReconciliation {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const calculatedBalance = round(previousBalance + imported.reduce((sum, t) => sum + t.amount, 0));
+  return {
+    previousBalance,
+    calculatedBalance,
+    statementBalance,
+    difference: statementBalance === null ? null : round(statementBalance - calculatedBalance),
+    newBalance: statementBalance ?? calculatedBalance,
+  };
+}
@@ -0,0 +1,187 @@
+/**
+ * Recurring charge detection.
+ *
+ * Charges are grouped by normalized merchant and each group is checked for a
+ * weekly, monthly or annual cadence: most gaps between charges must fall in
+ * the cadence's window and most amounts must sit near the group's median, so
+ * variable bills still qualify while one-off repeat purchases do not.
+ */
+
+import { categoryLabel, countsTowardSpend, type SpendTransaction } from '@/utils/spend';
+
+export type SubscriptionCadence = 'weekly' | 'monthly' | 'annual';
+export type SubscriptionStatus = 'active' | 'stopped';
+
+export interface PriceChange {
+  from: number;
+  to: number;
+  changedOn: string;
+}
+
+export interface DetectedSubscription {
+  merchantKey: string;
+  merchant: string;
+  category: string;
+  creditCardId: string | null;
+  cadence: SubscriptionCadence;
+  chargeCount: number;
+  lastAmount: number;
+  averageAmount: number;
+  firstChargeDate: string;
+  lastChargeDate: string;
+  nextExpectedDate: string;
+  annualizedCost: number;
+  status: SubscriptionStatus;
+  // Set when the latest charges are higher than the earlier ones
+  priceIncrease: PriceChange | null;
+}
+
+interface CadenceSpec {
+  cadence: SubscriptionCadence;
+  // Inclusive range for the gap between charges, in days
+  minDays: number;
+  maxDays: number;
+  perYear: number;
+  minCharges: number;
+}
+
+const CADENCES: CadenceSpec[] = [
+  { cadence: 'weekly', minDays: 6, maxDays: 8, perYear: 52, minCharges: 4 },
+  { cadence: 'monthly', minDays: 26, maxDays: 35, perYear: 12, minCharges: 3 },
+  { cadence: 'annual', minDays: 350, maxDays: 380, perYear: 1, minCharges: 2 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Share of gaps and amounts that must fit the pattern
+const MIN_MATCH_RATIO = 0.75;
+// Amounts within this fraction of the median count as the same charge
+const AMOUNT_TOLERANCE = 0.25;
+// Smallest rise treated as a price increase rather than tax or FX noise
+const MIN_PRICE_INCREASE = 0.02;
+// A charge is missed once this many cadence periods pass without one
+const STOPPED_AFTER_PERIODS = 1.5;
+
+/** Collapse processor prefixes, store numbers and punctuation so repeat charges group together. */
+export function normalizeMerchant(name: string, merchantName?: string | null): string {
+  const source = (merchantName || name || '').toLowerCase();
+  return source
+    .replace(/^(sq|tst|sp|pp|paypal|google|apple\.com\/bill)\s*\*\s*/, '')
+    .replace(/\*.*$/, '')
+    .replace(/\b(www\.|\.com|\.net|inc|llc|ltd|co)\b/g, '')
+    .replace(/#?\d{3,}/g, '')
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function detectCadence(gaps: number[], chargeCount: number): CadenceSpec | null {
+  for (const spec of CADENCES) {
+    if (chargeCount < spec.minCharges) continue;
+    const fitting = gaps.filter(gap => gap >= spec.minDays && gap <= spec.maxDays).length;
+    if (fitting / gaps.length >= MIN_MATCH_RATIO) {
+      return spec;
+    }
+  }
+  return null;
+}
+
+function detectPriceIncrease(charges: { date: Date; amount: number }[]): PriceChange | null {
+  if (charges.length < 2) return null;
+  const last = charges[charges.length - 1].amount;
+  // Walk back to the first charge at the current price
+  let index = charges.length - 1;
+  while (index > 0 && Math.abs(charges[index - 1].amount - last) < 0.01) {
+    index--;
+  }
+  if (index === 0) return null;
+
+  const previous = charges[index - 1].amount;
+  if (last <= previous * (1 + MIN_PRICE_INCREASE)) return null;
+  return { from: previous, to: last, changedOn: toDateKey(charges[index].date) };
+}
+
+function analyzeGroup(key: string, transactions: SpendTransaction[], now: Date): DetectedSubscription | null {
+  // One charge per day; same-day duplicates are usually split shipments, not cadence
+  const byDay = new Map<string, { date: Date; amount: number }>();
+  for (const t of transactions) {
+    const day = toDateKey(t.date);
+    const existing = byDay.get(day);
+    byDay.set(day, { date: t.date, amount: (existing?.amount || 0) + t.amount });
+  }
+  const charges = [...byDay.values()].sort((a, b) => a.date.getTime() - b.date.getTime());
+  if (charges.length < 2) return null;
+
+  const amounts = charges.map(c => c.amount);
+  const typical = median(amounts);
+  const consistent = amounts.filter(a => Math.abs(a - typical) <= typical * AMOUNT_TOLERANCE).length;
+  if (consistent / amounts.length < MIN_MATCH_RATIO) return null;
+
+  const gaps = charges.slice(1).map((c, i) => Math.round((c.date.getTime() - charges[i].date.getTime()) / DAY_MS));
+  const spec = detectCadence(gaps, charges.length);
+  if (!spec) return null;
+
+  const first = charges[0];
+  const last = charges[charges.length - 1];
+  const intervalDays = Math.round(median(gaps));
+  const nextExpected = new Date(last.date.getTime() + intervalDays * DAY_MS);
+  const stopped = now.getTime() > last.date.getTime() + intervalDays * STOPPED_AFTER_PERIODS * DAY_MS;
+
+  const latest = transactions.reduce((a, b) => (b.date > a.date ? b : a));
+
+  return {
+    merchantKey: key,
+    merchant: latest.name !== latest.originalName ? latest.name : latest.merchantName || latest.name,
+    category: categoryLabel(latest),
+    creditCardId: latest.creditCardId,
+    cadence: spec.cadence,
+    chargeCount: charges.length,
+    lastAmount: round2(last.amount),
+    averageAmount: round2(amounts.reduce((sum, a) => sum + a, 0) / amounts.length),
+    firstChargeDate: toDateKey(first.date),
+    lastChargeDate: toDateKey(last.date),
+    nextExpectedDate: toDateKey(nextExpected),
+    annualizedCost: stopped ? 0 : round2(last.amount * spec.perYear),
+    status: stopped ? 'stopped' : 'active',
+    priceIncrease: detectPriceIncrease(charges),
+  };
+}
+
+/** Recurring charges, active ones first and then by annualized cost. */
+export function detectSubscriptions(transactions: SpendTransaction[], now: Date): DetectedSubscription[] {
+  const groups = new Map<string, SpendTransaction[]>();
+  for (const t of transactions) {
+    // Settled charges only; refunds and payments are not part of a cadence
+    if (t.pending || t.amount <= 0 || !countsTowardSpend(t)) continue;
+    // A rename rule wins over Plaid's merchant name, so users can merge variants
+    const key = t.name !== t.originalName ? normalizeMerchant(t.name) : normalizeMerchant(t.name, t.merchantName);
+    if (!key) continue;
+    const group = groups.get(key) || [];
+    group.push(t);
+    groups.set(key, group);
+  }
+
+  const detected: DetectedSubscription[] = [];
+  for (const [key, group] of groups) {
+    const subscription = analyzeGroup(key, group, now);
+    if (subscription) detected.push(subscription);
+  }
+
+  return detected.sort((a, b) => {
+    if (a.status !== b.status) return a.status === 'active' ? -1 : 1;
+    return b.annualizedCost - a.annualizedCost || b.lastAmount - a.lastAmount;
+  });
+}
@@ -0,0 +1,153 @@
+/**
+ * Search parameters for GET /api/user/transactions.
+ *
+ * Parses and validates the explorer's filters and encodes the keyset cursor:
+ * the sort value and id of the last row returned, so the next page starts
+ * strictly after it regardless of rows inserted in between.
+ */
+
+export type TransactionSortField = 'date' | 'amount';
+export type TransactionSortOrder = 'asc' | 'desc';
+export type TransactionKind = 'payment' | 'purchase';
+
+export interface TransactionQuery {
+  cardIds: string[];
+  category: string | null;
+  // Matched against name and merchantName
+  search: string | null;
+  minAmount: number | null;
+  maxAmount: number | null;
+  pending: boolean | null;
+  kind: TransactionKind | null;
+  startDate: string | null;
+  endDate: string | null;
+  sort: TransactionSortField;
+  order: TransactionSortOrder;
+  limit: number;
+  cursor: TransactionCursor | null;
+}
+
+export interface TransactionCursor {
+  value: string | number;
+  id: string;
+}
+
+export const DEFAULT_TRANSACTION_PAGE_SIZE = 100;
+// The dashboard loads a whole month in one request
+export const MAX_TRANSACTION_PAGE_SIZE = 1000;
+
+export type ParsedTransactionQuery =
+  | { query: TransactionQuery; error: null }
+  | { query: null; error: string };
+
+/** Validate the explorer's search params; `error` is a message suitable for a 400 response. */
+export function parseTransactionQuery(params: URLSearchParams): ParsedTransactionQuery {
+  const invalid = (error: string): ParsedTransactionQuery => ({ query: null, error });
+
+  const cardIds = params.getAll('cardId')
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(Boolean);
+
+  const sort = params.get('sort') || 'date';
+  if (sort !== 'date' && sort !== 'amount') {
+    return invalid(`Unsupported sort field: ${sort}`);
+  }
+
+  const order = params.get('order') || 'desc';
+  if (order !== 'asc' && order !== 'desc') {
+    return invalid(`Unsupported sort order: ${order}`);
+  }
+
+  const kind = params.get('kind') || null;
+  if (kind !== null && kind !== 'payment' && kind !== 'purchase') {
+    return invalid(`Unsupported transaction kind: ${kind}`);
+  }
+
+  const pending = params.get('pending') || null;
+  if (pending !== null && pending !== 'true' && pending !== 'false') {
+    return invalid('pending must be true or false');
+  }
+
+  const minAmount = parseOptionalNumber(params.get('minAmount'));
+  const maxAmount = parseOptionalNumber(params.get('maxAmount'));
+  const limitParam = parseOptionalNumber(params.get('limit'));
+  if (Number.isNaN(minAmount) || Number.isNaN(maxAmount) || Number.isNaN(limitParam)) {
+    return invalid('minAmount, maxAmount and limit must be numbers');
+  }
+  if (minAmount !== null && maxAmount !== null && minAmount > maxAmount) {
+    return invalid('minAmount cannot be greater than maxAmount');
+  }
+
+  const startDate = parseOptionalDate(params.get('startDate'));
+  const endDate = parseOptionalDate(params.get('endDate'));
+  if (startDate === 'invalid' || endDate === 'invalid') {
+    return invalid('startDate and endDate must be valid dates');
+  }
+
+  const cursorParam = params.get('cursor');
+  const cursor = cursorParam ? decodeTransactionCursor(cursorParam, sort) : null;
+  if (cursorParam && !cursor) {
+    return invalid('Invalid cursor');
+  }
+
+  return {
+    query: {
+      cardIds,
+      category: params.get('category')?.trim() || null,
+      search: sanitizeSearch(params.get('q')),
+      minAmount,
+      maxAmount,
+      pending: pending === null ? null : pending === 'true',
+      kind,
+      startDate,
+      endDate,
+      sort,
+      order,
+      limit: Math.min(MAX_TRANSACTION_PAGE_SIZE, Math.max(1, Math.floor(limitParam ?? DEFAULT_TRANSACTION_PAGE_SIZE))),
+      cursor,
+    },
+    error: null,
+  };
+}
+
+export function encodeTransactionCursor(cursor: TransactionCursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString('base64url');
+}
+
+export function decodeTransactionCursor(encoded: string, sort: TransactionSortField): TransactionCursor | null {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    const validValue = sort === 'amount'
+      ? typeof value === 'number' && isFinite(value)
+      : typeof value === 'string' && !isNaN(new Date(value).getTime());
+    if (validValue && typeof id === 'string' && /^[\w-]+$/.test(id)) {
+      return { value, id };
+    }
+  } catch {
+    // Not base64 JSON: treated like any other malformed cursor
+  }
+  return null;
+}
+
+/**
+ * Free text goes into a PostgREST or() filter, where commas, parentheses and
+ * quotes are syntax and * is the ilike wildcard, so those are dropped.
+ */
+function sanitizeSearch(value: string | null): string | null {
+  const cleaned = (value || '').replace(/[,()"'\\*%]/g, ' ').replace(/\s+/g, ' ').trim();
+  return cleaned ? cleaned.slice(0, 100) : null;
+}
+
+// null when absent, NaN when present but not a finite number
+function parseOptionalNumber(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null;
+  const parsed = Number(value);
+  return isFinite(parsed) ? parsed : NaN;
+}
+
+function parseOptionalDate(value: string | null): string | null {
+  if (!value) return null;
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? 'invalid' : parsed.toISOString();
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyTransactionRules,
+  compileTransactionRules,
+  validateTransactionRule,
+  type TransactionRule,
+} from '@/utils/transactionRules';
+
+const rule = (overrides: Partial<TransactionRule>): TransactionRule => ({
+  id: 'rule-1',
+  priority: 0,
+  enabled: true,
+  matchType: 'merchant_contains',
+  pattern: null,
+  minAmount: null,
+  maxAmount: null,
+  creditCardId: null,
+  setCategory: 'Travel',
+  renameTo: null,
+  excludeFromSpend: false,
+  ...overrides,
+});
+
+describe('validateTransactionRule', () => {
+  it('accepts a regex pattern', () => {
+    const result = validateTransactionRule({ matchType: 'regex', pattern: '^(uber|lyft)', setCategory: 'Rides' });
+    expect(result.error).toBeNull();
+  });
+
+  it('rejects backreferences and lookarounds', () => {
+    expect(validateTransactionRule({ matchType: 'regex', pattern: '(a)\\1', setCategory: 'X' }).error).toMatch(/not supported/);
+    expect(validateTransactionRule({ matchType: 'regex', pattern: 'uber(?= eats)', setCategory: 'X' }).error).toMatch(/not supported/);
+  });
+
+  it('rejects patterns over the length cap', () => {
+    expect(validateTransactionRule({ pattern: 'a'.repeat(201), setCategory: 'X' }).error).toMatch(/at most 200/);
+  });
+});
+
+describe('applyTransactionRules', () => {
+  it('matches regex rules case-insensitively against name and merchant name', () => {
+    const rules = compileTransactionRules([rule({ matchType: 'regex', pattern: '^(uber|lyft)\\b', setCategory: 'Rides' })]);
+    expect(applyTransactionRules({ name: 'UBER *TRIP', amount: 12 }, rules).category).toBe('Rides');
+    expect(applyTransactionRules({ name: 'POS 1234', merchantName: 'Lyft', amount: 8 }, rules).category).toBe('Rides');
+    expect(applyTransactionRules({ name: 'UBER EATS', merchantName: null, amount: 8, category: 'Food' }, rules).category).toBe('Rides');
+    expect(applyTransactionRules({ name: 'SUBWAY', amount: 8, category: 'Food' }, rules).category).toBe('Food');
+  });
+
+  it('matches merchant_contains literally', () => {
+    const rules = compileTransactionRules([rule({ pattern: 'a.c', setCategory: 'Literal' })]);
+    expect(applyTransactionRules({ name: 'ABC STORE', amount: 5 }, rules).ruleId).toBeNull();
+    expect(applyTransactionRules({ name: 'A.C. MOORE', amount: 5 }, rules).ruleId).toBe('rule-1');
+  });
+
+  it('runs catastrophic backtracking patterns in linear time', () => {
+    const rules = compileTransactionRules([rule({ matchType: 'regex', pattern: '(a+)+$' })]);
+    const started = Date.now();
+    applyTransactionRules({ name: `${'a'.repeat(5000)}!`, amount: 1 }, rules);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
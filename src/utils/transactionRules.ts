@@ -0,0 +1,188 @@
+/**
+ * User-defined transaction rules.
+ *
+ * A rule matches on merchant text (substring or regex against the name and
+ * merchant name), an amount range and/or a card, and can set the category,
+ * rename the transaction or exclude it from spend totals. Rules run in
+ * priority order and the first match wins. They are applied whenever
+ * transactions are read for spend, so editing a rule is retroactive; the
+ * stored Plaid fields are never changed.
+ *
+ * Regex patterns are user input run against every transaction on the server,
+ * so they are compiled with RE2 (re2js), which matches in linear time and has
+ * no backreferences or lookarounds; a pattern cannot backtrack catastrophically.
+ */
+
+import { RE2JS } from 're2js';
+
+export type RuleMatchType = 'merchant_contains' | 'regex';
+
+export interface TransactionRuleInput {
+  priority: number;
+  enabled: boolean;
+  matchType: RuleMatchType;
+  pattern: string | null;
+  // Compared against the absolute amount, so refunds match like their charges
+  minAmount: number | null;
+  maxAmount: number | null;
+  creditCardId: string | null;
+  setCategory: string | null;
+  renameTo: string | null;
+  excludeFromSpend: boolean;
+}
+
+export interface TransactionRule extends TransactionRuleInput {
+  id: string;
+}
+
+export interface RuleTransaction {
+  name: string;
+  merchantName?: string | null;
+  amount: number;
+  creditCardId?: string | null;
+  category?: string | null;
+}
+
+export interface RuleOutcome {
+  name: string;
+  category: string | null;
+  excludeFromSpend: boolean;
+  // Rule that matched, if any
+  ruleId: string | null;
+}
+
+export interface CompiledTransactionRule {
+  rule: TransactionRule;
+  test: (text: string) => boolean;
+}
+
+export const MAX_RULE_PATTERN_LENGTH = 200;
+const MAX_RULE_TEXT_LENGTH = 60;
+
+export type ValidatedRule =
+  | { rule: TransactionRuleInput; error: null }
+  | { rule: null; error: string };
+
+/** Validate a rule from a request body; `error` is a message suitable for a 400 response. */
+export function validateTransactionRule(input: Record<string, unknown>): ValidatedRule {
+  const invalid = (error: string): ValidatedRule => ({ rule: null, error });
+  const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : null;
+  const amount = (value: unknown) => value === null || value === undefined || value === '' ? null : Number(value);
+
+  const matchType = input.matchType ?? 'merchant_contains';
+  if (matchType !== 'merchant_contains' && matchType !== 'regex') {
+    return invalid('matchType must be merchant_contains or regex');
+  }
+
+  const pattern = text(input.pattern);
+  if (pattern && pattern.length > MAX_RULE_PATTERN_LENGTH) {
+    return invalid(`Pattern must be at most ${MAX_RULE_PATTERN_LENGTH} characters`);
+  }
+  if (pattern && matchType === 'regex') {
+    try {
+      compileRulePattern(pattern);
+    } catch {
+      return invalid('Pattern is not a valid regular expression (backreferences and lookarounds are not supported)');
+    }
+  }
+
+  const minAmount = amount(input.minAmount);
+  const maxAmount = amount(input.maxAmount);
+  if ((minAmount !== null && !isFinite(minAmount)) || (maxAmount !== null && !isFinite(maxAmount))) {
+    return invalid('Amounts must be numbers');
+  }
+  if (minAmount !== null && maxAmount !== null && minAmount > maxAmount) {
+    return invalid('Minimum amount cannot be greater than maximum amount');
+  }
+
+  const creditCardId = text(input.creditCardId);
+  if (!pattern && minAmount === null && maxAmount === null && !creditCardId) {
+    return invalid('Add at least one condition: merchant, amount or card');
+  }
+
+  const setCategory = text(input.setCategory)?.slice(0, MAX_RULE_TEXT_LENGTH) ?? null;
+  const renameTo = text(input.renameTo)?.slice(0, MAX_RULE_TEXT_LENGTH) ?? null;
+  const excludeFromSpend = input.excludeFromSpend === true;
+  if (!setCategory && !renameTo && !excludeFromSpend) {
+    return invalid('Add at least one action: category, rename or exclude from spend');
+  }
+
+  const priority = Number(input.priority ?? 0);
+
+  return {
+    rule: {
+      priority: Number.isInteger(priority) ? priority : 0,
+      enabled: input.enabled !== false,
+      matchType,
+      pattern,
+      minAmount,
+      maxAmount,
+      creditCardId,
+      setCategory,
+      renameTo,
+      excludeFromSpend,
+    },
+    error: null,
+  };
+}
+
+/** Sort enabled rules by priority and compile their patterns once. */
+export function compileTransactionRules(rules: TransactionRule[]): CompiledTransactionRule[] {
+  return rules
+    .filter(rule => rule.enabled)
+    .sort((a, b) => a.priority - b.priority)
+    .map(rule => ({ rule, test: buildMatcher(rule) }));
+}
+
+export function ruleMatchesTransaction(compiled: CompiledTransactionRule, transaction: RuleTransaction): boolean {
+  const { rule } = compiled;
+  if (rule.creditCardId && rule.creditCardId !== transaction.creditCardId) return false;
+
+  const amount = Math.abs(transaction.amount);
+  if (rule.minAmount !== null && amount < rule.minAmount) return false;
+  if (rule.maxAmount !== null && amount > rule.maxAmount) return false;
+
+  if (rule.pattern) {
+    const texts = [transaction.name, transaction.merchantName].filter((t): t is string => !!t);
+    if (!texts.some(compiled.test)) return false;
+  }
+  return true;
+}
+
+export function applyTransactionRules(transaction: RuleTransaction, rules: CompiledTransactionRule[]): RuleOutcome {
+  const match = rules.find(compiled => ruleMatchesTransaction(compiled, transaction));
+  if (!match) {
+    return {
+      name: transaction.name,
+      category: transaction.category ?? null,
+      excludeFromSpend: false,
+      ruleId: null,
+    };
+  }
+
+  return {
+    name: match.rule.renameTo ?? transaction.name,
+    category: match.rule.setCategory ?? transaction.category ?? null,
+    excludeFromSpend: match.rule.excludeFromSpend,
+    ruleId: match.rule.id,
+  };
+}
+
+function compileRulePattern(pattern: string): RE2JS {
+  return RE2JS.compile(pattern, RE2JS.CASE_INSENSITIVE);
+}
+
+function buildMatcher(rule: TransactionRule): (text: string) => boolean {
+  if (!rule.pattern) return () => true;
+  if (rule.matchType === 'regex') {
+    try {
+      const regex = compileRulePattern(rule.pattern);
+      return text => regex.test(text);
+    } catch {
+      // Rules are validated on save; a pattern that no longer compiles matches nothing
+      return () => false;
+    }
+  }
+  const needle = rule.pattern.toLowerCase();
+  return text => text.toLowerCase().includes(needle);
+}
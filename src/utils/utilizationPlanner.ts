@@ -0,0 +1,211 @@
+import { addOneMonthClamped } from '@/utils/billingCycleEngine';
+
+/**
+ * Pre-statement payment planner.
+ *
+ * Issuers report the balance on the statement closing date, so paying down
+ * before each card closes controls the utilization the bureaus see. Given
+ * per-card and overall targets, the planner works out how much to pay on
+ * each card and by when.
+ */
+
+export interface UtilizationTargets {
+  overallPercent: number;
+  // null = only the overall target applies
+  perCardPercent: number | null;
+}
+
+export interface UtilizationPlanCardInput {
+  id: string;
+  name: string;
+  mask?: string | null;
+  balanceCurrent?: number | null;
+  balanceLimit?: number | null;
+  ismanuallimit?: boolean | null;
+  manualcreditlimit?: number | null;
+  lastStatementIssueDate?: string | Date | null;
+  // End date of the open billing cycle, when known
+  openCycleEndDate?: string | Date | null;
+}
+
+export type PaymentReason = 'card_target' | 'overall_target';
+
+export interface UtilizationPlanItem {
+  creditCardId: string;
+  name: string;
+  mask: string | null;
+  balance: number;
+  limit: number;
+  currentUtilization: number;
+  statementCloseDate: Date | null;
+  payByDate: Date | null;
+  recommendedPayment: number;
+  projectedBalance: number;
+  projectedUtilization: number;
+  reasons: PaymentReason[];
+}
+
+export interface UtilizationPlan {
+  targets: UtilizationTargets;
+  items: UtilizationPlanItem[];
+  // Cards left out because they have no usable credit limit
+  excludedCards: { creditCardId: string; name: string; mask: string | null }[];
+  totalBalance: number;
+  totalLimit: number;
+  currentOverallUtilization: number;
+  projectedOverallUtilization: number;
+  totalRecommendedPayment: number;
+}
+
+// Payments can take a couple of business days to post before the close
+export const PAYMENT_POSTING_BUFFER_DAYS = 3;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Limit used for utilization: a valid Plaid limit always wins, otherwise the
+ * user's manual limit. Mirrors the limit shown on DueDateCard.
+ */
+export function getEffectiveCreditLimit(card: {
+  balanceLimit?: number | null;
+  ismanuallimit?: boolean | null;
+  manualcreditlimit?: number | null;
+}): number | null {
+  const isValid = (value?: number | null): value is number =>
+    typeof value === 'number' && isFinite(value) && value > 0;
+
+  if (isValid(card.balanceLimit)) return card.balanceLimit;
+  if (card.ismanuallimit && isValid(card.manualcreditlimit)) return card.manualcreditlimit;
+  return null;
+}
+
+/**
+ * Next statement closing date: the open cycle's end date when we have one,
+ * otherwise the last statement date rolled forward a month at a time.
+ */
+export function estimateNextStatementClose(card: UtilizationPlanCardInput, now: Date): Date | null {
+  if (card.openCycleEndDate) {
+    const end = new Date(card.openCycleEndDate);
+    if (!isNaN(end.getTime()) && end >= startOfDay(now)) return end;
+  }
+
+  if (!card.lastStatementIssueDate) return null;
+  let close = new Date(card.lastStatementIssueDate);
+  if (isNaN(close.getTime())) return null;
+  while (close < startOfDay(now)) {
+    close = addOneMonthClamped(close);
+  }
+  return close;
+}
+
+export function planUtilizationPayments(
+  cards: UtilizationPlanCardInput[],
+  targets: UtilizationTargets,
+  now: Date = new Date()
+): UtilizationPlan {
+  const items: UtilizationPlanItem[] = [];
+  const excludedCards: UtilizationPlan['excludedCards'] = [];
+
+  for (const card of cards) {
+    const limit = getEffectiveCreditLimit(card);
+    if (!limit) {
+      excludedCards.push({ creditCardId: card.id, name: card.name, mask: card.mask ?? null });
+      continue;
+    }
+
+    const balance = Math.max(0, Math.abs(card.balanceCurrent || 0));
+    const statementCloseDate = estimateNextStatementClose(card, now);
+    let payByDate: Date | null = null;
+    if (statementCloseDate) {
+      payByDate = new Date(statementCloseDate.getTime() - PAYMENT_POSTING_BUFFER_DAYS * DAY_MS);
+      // Already inside the posting window: pay as soon as possible
+      if (payByDate < startOfDay(now)) payByDate = startOfDay(now);
+    }
+
+    items.push({
+      creditCardId: card.id,
+      name: card.name,
+      mask: card.mask ?? null,
+      balance,
+      limit,
+      currentUtilization: percent(balance, limit),
+      statementCloseDate,
+      payByDate,
+      recommendedPayment: 0,
+      projectedBalance: balance,
+      projectedUtilization: percent(balance, limit),
+      reasons: [],
+    });
+  }
+
+  const pay = (item: UtilizationPlanItem, amount: number, reason: PaymentReason) => {
+    const payment = Math.min(roundUpCents(amount), roundCents(item.projectedBalance));
+    if (payment <= 0) return 0;
+    item.recommendedPayment = roundCents(item.recommendedPayment + payment);
+    item.projectedBalance = roundCents(item.projectedBalance - payment);
+    item.projectedUtilization = percent(item.projectedBalance, item.limit);
+    if (!item.reasons.includes(reason)) item.reasons.push(reason);
+    return payment;
+  };
+
+  // 1. Bring every card down to the per-card target
+  if (targets.perCardPercent !== null) {
+    for (const item of items) {
+      const maxBalance = item.limit * targets.perCardPercent / 100;
+      if (item.projectedBalance > maxBalance) {
+        pay(item, item.projectedBalance - maxBalance, 'card_target');
+      }
+    }
+  }
+
+  // 2. If the overall ratio is still too high, pay down the most utilized cards first
+  const totalLimit = items.reduce((sum, item) => sum + item.limit, 0);
+  const maxTotalBalance = totalLimit * targets.overallPercent / 100;
+  let excess = items.reduce((sum, item) => sum + item.projectedBalance, 0) - maxTotalBalance;
+
+  const byUtilization = [...items].sort((a, b) => b.projectedUtilization - a.projectedUtilization);
+  for (const item of byUtilization) {
+    if (excess <= 0.005) break;
+    excess -= pay(item, excess, 'overall_target');
+  }
+
+  // Soonest close first: that is the order the payments need to go out
+  items.sort((a, b) => {
+    if (!a.statementCloseDate) return 1;
+    if (!b.statementCloseDate) return -1;
+    return a.statementCloseDate.getTime() - b.statementCloseDate.getTime();
+  });
+
+  const totalBalance = roundCents(items.reduce((sum, item) => sum + item.balance, 0));
+  const projectedTotal = items.reduce((sum, item) => sum + item.projectedBalance, 0);
+
+  return {
+    targets,
+    items,
+    excludedCards,
+    totalBalance,
+    totalLimit: roundCents(totalLimit),
+    currentOverallUtilization: percent(totalBalance, totalLimit),
+    projectedOverallUtilization: percent(projectedTotal, totalLimit),
+    totalRecommendedPayment: roundCents(items.reduce((sum, item) => sum + item.recommendedPayment, 0)),
+  };
+}
+
+function percent(balance: number, limit: number): number {
+  return limit > 0 ? Math.round((balance / limit) * 10000) / 100 : 0;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Round payments up so the projected balance lands at or under the target
+function roundUpCents(value: number): number {
+  return Math.ceil(value * 100 - 1e-6) / 100;
+}
+
+function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
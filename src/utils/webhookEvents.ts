@@ -0,0 +1,76 @@
+/**
+ * Webhook event journal rules: event keys, envelope parsing and retry backoff.
+ *
+ * Plaid webhooks carry no delivery id, so an event is identified by the hash
+ * of its raw body within a delivery window: the same body delivered twice
+ * within a window's width (Plaid firing duplicates, or a redelivery racing the
+ * original) is one event, while the same notification hours later is a new
+ * one. Keys bucket time into fixed windows, so a duplicate that lands just
+ * past a boundary is matched against the previous window's key.
+ */
+
+import crypto from 'crypto';
+
+export type WebhookEventStatus = 'received' | 'processing' | 'processed' | 'failed' | 'rejected';
+
+export const WEBHOOK_EVENT_STATUSES: WebhookEventStatus[] = ['received', 'processing', 'processed', 'failed', 'rejected'];
+
+// Width of the deduplication window
+export const WEBHOOK_DEDUP_WINDOW_MS = 5 * 60 * 1000;
+
+// After this many failed attempts an event stays failed until replayed
+export const MAX_WEBHOOK_ATTEMPTS = 5;
+
+// An event still 'processing' after this long belonged to a crashed invocation
+export const STALE_PROCESSING_MS = 15 * 60 * 1000;
+
+// Unverified deliveries can come from anyone, so only this much of their body is kept
+export const MAX_REJECTED_BODY_LENGTH = 4 * 1024;
+
+// Rejected events are purged by the retry cron after this long
+export const REJECTED_EVENT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+export interface WebhookEnvelope {
+  webhookType: string | null;
+  webhookCode: string | null;
+  itemId: string | null;
+}
+
+/** Key of the window `receivedAt` falls in; `previousWebhookEventKey` is the window before it. */
+export function webhookEventKey(rawBody: string, receivedAt: Date): string {
+  const bodyHash = crypto.createHash('sha256').update(rawBody).digest('hex');
+  const window = Math.floor(receivedAt.getTime() / WEBHOOK_DEDUP_WINDOW_MS);
+  return `${bodyHash}:${window}`;
+}
+
+export function previousWebhookEventKey(rawBody: string, receivedAt: Date): string {
+  return webhookEventKey(rawBody, new Date(receivedAt.getTime() - WEBHOOK_DEDUP_WINDOW_MS));
+}
+
+/** The routing fields of a webhook body; nulls when the body is not a JSON object. */
+export function parseWebhookEnvelope(rawBody: string): WebhookEnvelope {
+  try {
+    const body = JSON.parse(rawBody);
+    const field = (value: unknown) => (typeof value === 'string' && value ? value : null);
+    return {
+      webhookType: field(body?.webhook_type),
+      webhookCode: field(body?.webhook_code),
+      itemId: field(body?.item_id),
+    };
+  } catch {
+    return { webhookType: null, webhookCode: null, itemId: null };
+  }
+}
+
+/**
+ * When a failed event should next be attempted: 1, 4, 16, 64 minutes... capped
+ * at 6 hours. Null once `attempts` reaches MAX_WEBHOOK_ATTEMPTS.
+ */
+export function nextWebhookAttemptAt(attempts: number, now: Date = new Date()): Date | null {
+  if (attempts >= MAX_WEBHOOK_ATTEMPTS) return null;
+  const delay = Math.min(RETRY_BASE_DELAY_MS * Math.pow(4, Math.max(0, attempts - 1)), RETRY_MAX_DELAY_MS);
+  return new Date(now.getTime() + delay);
+}
@@ -0,0 +1,85 @@
+-- Migration: Cursor-based transaction sync (/transactions/sync)
+-- Date: 2025-10-18
+-- Description: Persist the Plaid transactions cursor per item and apply
+-- added/modified/removed sets together with the new cursor in one transaction
+
+ALTER TABLE plaid_items
+ADD COLUMN IF NOT EXISTS transactions_cursor TEXT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS transactions_cursor_updated TIMESTAMP WITH TIME ZONE DEFAULT NULL;
+
+COMMENT ON COLUMN plaid_items.transactions_cursor IS 'Last next_cursor returned by Plaid /transactions/sync (NULL = full history not yet pulled)';
+COMMENT ON COLUMN plaid_items.transactions_cursor_updated IS 'When the transactions cursor was last advanced';
+
+-- Apply one /transactions/sync result atomically.
+-- p_upserts is a JSON array of transactions rows (added + modified),
+-- p_removed is the list of Plaid transaction_ids to delete.
+-- The cursor only advances if every row change succeeds.
+create or replace function public.apply_transactions_sync(
+  p_plaid_item_id text,
+  p_upserts jsonb,
+  p_removed text[],
+  p_cursor text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_upserted integer := 0;
+  v_removed integer := 0;
+begin
+  if p_upserts is not null and jsonb_array_length(p_upserts) > 0 then
+    insert into transactions (
+      "id", "plaidItemId", "creditCardId", "transactionId", "accountid", "plaidtransactionid",
+      "amount", "isoCurrencyCode", "date", "authorizedDate", "name", "merchantName",
+      "category", "categoryId", "subcategory", "accountOwner", "pending", "createdAt", "updatedAt"
+    )
+    select
+      r."id", r."plaidItemId", r."creditCardId", r."transactionId", r."accountid", r."plaidtransactionid",
+      r."amount", r."isoCurrencyCode", r."date", r."authorizedDate", r."name", r."merchantName",
+      r."category", r."categoryId", r."subcategory", r."accountOwner", coalesce(r."pending", false),
+      coalesce(r."createdAt", now()), coalesce(r."updatedAt", now())
+    from jsonb_populate_recordset(null::transactions, p_upserts) r
+    on conflict ("transactionId") do update set
+      "plaidItemId" = excluded."plaidItemId",
+      "creditCardId" = excluded."creditCardId",
+      "accountid" = excluded."accountid",
+      "plaidtransactionid" = excluded."plaidtransactionid",
+      "amount" = excluded."amount",
+      "isoCurrencyCode" = excluded."isoCurrencyCode",
+      "date" = excluded."date",
+      "authorizedDate" = excluded."authorizedDate",
+      "name" = excluded."name",
+      "merchantName" = excluded."merchantName",
+      "category" = excluded."category",
+      "categoryId" = excluded."categoryId",
+      "subcategory" = excluded."subcategory",
+      "accountOwner" = excluded."accountOwner",
+      "pending" = excluded."pending",
+      "updatedAt" = excluded."updatedAt";
+
+    get diagnostics v_upserted = row_count;
+  end if;
+
+  if p_removed is not null and array_length(p_removed, 1) is not null then
+    delete from transactions
+    where "plaidItemId" = p_plaid_item_id
+      and "transactionId" = any(p_removed);
+
+    get diagnostics v_removed = row_count;
+  end if;
+
+  update plaid_items
+  set transactions_cursor = p_cursor,
+      transactions_cursor_updated = now()
+  where id = p_plaid_item_id;
+
+  return jsonb_build_object('upserted', v_upserted, 'removed', v_removed);
+end;
+$$;
+
+comment on function public.apply_transactions_sync(text, jsonb, text[], text) is 'Applies a /transactions/sync page set (upserts + removals) and advances plaid_items.transactions_cursor in a single transaction.';
+
+-- Only the service role (supabaseAdmin) may call this; it bypasses row level security
+revoke execute on function public.apply_transactions_sync(text, jsonb, text[], text) from public, anon, authenticated;
@@ -0,0 +1,58 @@
+-- Migration: Payment due reminder emails
+-- Date: 2025-10-19
+-- Description: Per-user and per-card reminder lead times, plus a log of sent
+-- reminders that doubles as an idempotency key so a reminder is never sent twice
+
+-- User-level defaults
+create table if not exists public.reminder_preferences (
+  user_id uuid primary key references public.users(id) on delete cascade,
+  enabled boolean not null default true,
+  default_lead_days integer[] not null default '{7,3,1}',
+  updated_at timestamptz not null default now()
+);
+
+-- Per-card overrides (lead_days NULL = use the user's defaults)
+create table if not exists public.card_reminder_settings (
+  credit_card_id text primary key references public.credit_cards(id) on delete cascade,
+  enabled boolean not null default true,
+  lead_days integer[],
+  updated_at timestamptz not null default now()
+);
+
+-- One row per (card, due date, lead time) that was sent
+create table if not exists public.payment_reminder_log (
+  id bigserial primary key,
+  user_id uuid references public.users(id) on delete cascade,
+  credit_card_id text not null references public.credit_cards(id) on delete cascade,
+  due_date date not null,
+  lead_days integer not null,
+  email_id text,
+  sent_at timestamptz not null default now(),
+  unique (credit_card_id, due_date, lead_days)
+);
+
+create index if not exists idx_payment_reminder_log_user_id on public.payment_reminder_log(user_id);
+
+alter table public.reminder_preferences enable row level security;
+alter table public.card_reminder_settings enable row level security;
+alter table public.payment_reminder_log enable row level security;
+
+-- RLS: Users can read their own preferences and reminder history (writes go through the service role)
+drop policy if exists "select own reminder preferences" on public.reminder_preferences;
+create policy "select own reminder preferences" on public.reminder_preferences
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "select own card reminder settings" on public.card_reminder_settings;
+create policy "select own card reminder settings" on public.card_reminder_settings
+  for select using (
+    exists (
+      select 1 from public.credit_cards
+      join public.plaid_items on plaid_items.id = credit_cards."plaidItemId"
+      where credit_cards.id = card_reminder_settings.credit_card_id
+      and plaid_items."userId" = auth.uid()
+    )
+  );
+
+drop policy if exists "select own reminder log" on public.payment_reminder_log;
+create policy "select own reminder log" on public.payment_reminder_log
+  for select using (auth.uid() = user_id);
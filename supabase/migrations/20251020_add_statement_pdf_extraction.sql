@@ -0,0 +1,44 @@
+-- Migration: Statement PDF field extraction
+-- Date: 2025-10-20
+-- Description: Cache fields parsed from Plaid statement PDFs and record on
+-- billing_cycles where the statement balance/minimum payment came from
+
+-- One row per Plaid statement, re-parsed when parser_version changes
+create table if not exists public.statement_extractions (
+  statement_id text primary key,
+  plaid_item_id text not null references public.plaid_items(id) on delete cascade,
+  account_id text not null,
+  parser_version integer not null,
+  text_found boolean not null default false,
+  issuer text,
+  statement_balance numeric(12,2),
+  minimum_payment numeric(12,2),
+  due_date date,
+  closing_date date,
+  opening_date date,
+  confidence numeric(4,3) not null default 0,
+  parsed_at timestamptz not null default now()
+);
+
+create index if not exists idx_statement_extractions_item on public.statement_extractions(plaid_item_id, account_id);
+
+-- NULL source = balance/minimum derived from transactions (heuristic)
+alter table public.billing_cycles
+add column if not exists statement_source text default null,
+add column if not exists statement_confidence numeric(4,3) default null;
+
+comment on column public.billing_cycles.statement_source is 'Where statementBalance/minimumPayment came from, e.g. pdf:chase (NULL = transaction heuristics)';
+comment on column public.billing_cycles.statement_confidence is 'Extraction confidence (0-1) for PDF-sourced statement fields';
+
+alter table public.statement_extractions enable row level security;
+
+-- RLS: Users can read extractions for their own items (writes go through the service role)
+drop policy if exists "select own statement extractions" on public.statement_extractions;
+create policy "select own statement extractions" on public.statement_extractions
+  for select using (
+    exists (
+      select 1 from public.plaid_items
+      where plaid_items.id = statement_extractions.plaid_item_id
+      and plaid_items."userId" = auth.uid()
+    )
+  );
@@ -0,0 +1,15 @@
+-- Migration: Grace period tracking
+-- Date: 2025-10-21
+-- Description: Record on each credit card whether its grace period was lost
+-- (a statement balance not paid in full by its due date) and the estimated
+-- trailing interest on the next statement. Written by calculateBillingCycles.
+
+alter table public.credit_cards
+add column if not exists grace_period_state text default null
+  check (grace_period_state in ('active', 'lost', 'restoring', 'unknown')),
+add column if not exists grace_period_lost_due_date timestamptz default null,
+add column if not exists trailing_interest_estimate numeric(12,2) default null,
+add column if not exists grace_period_updated_at timestamptz default null;
+
+comment on column public.credit_cards.grace_period_state is 'active, lost (latest statement unpaid after due date), restoring (paid after a missed one) or unknown';
+comment on column public.credit_cards.trailing_interest_estimate is 'Interest accrued since the last statement close, expected on the next statement (NULL = no purchase APR)';
@@ -0,0 +1,25 @@
+-- Migration: Transaction search and keyset pagination
+-- Date: 2025-10-22
+-- Description: Support the transactions explorer (GET /api/user/transactions):
+-- a stored payment flag so payment/non-payment filtering happens in SQL, and
+-- indexes for keyset pagination by date or amount and for merchant search
+
+-- Keep in sync with isPaymentTransaction in src/utils/billingCycleEngine.ts:
+-- any payment indicator, or "transfer" that is not a fee or charge
+alter table public.transactions
+add column if not exists is_payment boolean generated always as (
+  coalesce(
+    lower("name") ~ '(pymt|payment|autopay|transfer from|transfer to checking|transfer to savings|bill pay|automatic debit|direct debit|epayment|ach credit|ach debit|wire transfer|balance transfer)'
+    or (lower("name") like '%transfer%' and lower("name") not like '%fee%' and lower("name") not like '%charge%'),
+    false
+  )
+) stored;
+
+-- Keyset pagination: (sort column, id) in both directions
+create index if not exists idx_transactions_item_date_id on public.transactions("plaidItemId", "date" desc, id desc);
+create index if not exists idx_transactions_item_amount_id on public.transactions("plaidItemId", "amount", id);
+
+-- Substring search on name/merchant; trigram indexes serve ilike directly
+create extension if not exists pg_trgm;
+create index if not exists idx_transactions_name_trgm on public.transactions using gin ("name" gin_trgm_ops);
+create index if not exists idx_transactions_merchant_trgm on public.transactions using gin ("merchantName" gin_trgm_ops);
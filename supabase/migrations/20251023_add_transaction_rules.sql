@@ -0,0 +1,36 @@
+-- Migration: User-defined transaction rules
+-- Date: 2025-10-23
+-- Description: Per-user rules that recategorize, rename or exclude
+-- transactions from spend. Rules are applied at read time (analytics) and
+-- when billing cycles are recalculated; Plaid's data is never overwritten.
+
+create table if not exists public.transaction_rules (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  -- Lower runs first; the first matching rule wins
+  priority integer not null default 0,
+  enabled boolean not null default true,
+  -- Conditions (all that are set must match)
+  match_type text not null default 'merchant_contains' check (match_type in ('merchant_contains', 'regex')),
+  pattern text,
+  min_amount numeric(12,2),
+  max_amount numeric(12,2),
+  credit_card_id text references public.credit_cards(id) on delete cascade,
+  -- Actions
+  set_category text,
+  rename_to text,
+  exclude_from_spend boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint transaction_rules_has_condition check (pattern is not null or min_amount is not null or max_amount is not null or credit_card_id is not null),
+  constraint transaction_rules_has_action check (set_category is not null or rename_to is not null or exclude_from_spend)
+);
+
+create index if not exists idx_transaction_rules_user on public.transaction_rules(user_id, priority);
+
+alter table public.transaction_rules enable row level security;
+
+-- RLS: Users can read their own rules (writes go through the service role)
+drop policy if exists "select own transaction rules" on public.transaction_rules;
+create policy "select own transaction rules" on public.transaction_rules
+  for select using (auth.uid() = user_id);
@@ -0,0 +1,30 @@
+-- Migration: Budgets
+-- Date: 2025-10-24
+-- Description: Per-user spending limits by category and/or card, reset every
+-- calendar month or every billing cycle of the card. Progress is computed at
+-- read time from transactions; nothing is stored per period.
+
+create table if not exists public.budgets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  name text,
+  amount numeric(12,2) not null check (amount > 0),
+  period text not null default 'monthly' check (period in ('monthly', 'billing_cycle')),
+  -- Category label as shown in analytics; NULL = all categories
+  category text,
+  -- NULL = all cards
+  credit_card_id text references public.credit_cards(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint budgets_has_scope check (category is not null or credit_card_id is not null),
+  constraint budgets_cycle_needs_card check (period <> 'billing_cycle' or credit_card_id is not null)
+);
+
+create index if not exists idx_budgets_user on public.budgets(user_id);
+
+alter table public.budgets enable row level security;
+
+-- RLS: Users can read their own budgets (writes go through the service role)
+drop policy if exists "select own budgets" on public.budgets;
+create policy "select own budgets" on public.budgets
+  for select using (auth.uid() = user_id);
@@ -0,0 +1,33 @@
+-- Migration: Annual fee tracking and renewal reminders
+-- Date: 2025-10-25
+-- Description: Records where each card's annualFee/annualFeeDueDate came from
+-- so detection and Plaid syncs never overwrite a fee the user entered, plus a
+-- log of renewal reminders that doubles as an idempotency key
+
+-- NULL = no fee known; 'manual' values are never overwritten
+alter table public.credit_cards
+add column if not exists annual_fee_source text default null
+  check (annual_fee_source in ('plaid', 'detected', 'manual'));
+
+comment on column public.credit_cards.annual_fee_source is 'Where annualFee/annualFeeDueDate came from: plaid, detected (fee posting in transactions) or manual';
+
+-- One row per (card, renewal date, lead time) that was sent
+create table if not exists public.annual_fee_reminder_log (
+  id bigserial primary key,
+  user_id uuid references public.users(id) on delete cascade,
+  credit_card_id text not null references public.credit_cards(id) on delete cascade,
+  renewal_date date not null,
+  lead_days integer not null,
+  email_id text,
+  sent_at timestamptz not null default now(),
+  unique (credit_card_id, renewal_date, lead_days)
+);
+
+create index if not exists idx_annual_fee_reminder_log_user_id on public.annual_fee_reminder_log(user_id);
+
+alter table public.annual_fee_reminder_log enable row level security;
+
+-- RLS: Users can read their own reminder history (writes go through the service role)
+drop policy if exists "select own annual fee reminder log" on public.annual_fee_reminder_log;
+create policy "select own annual fee reminder log" on public.annual_fee_reminder_log
+  for select using (auth.uid() = user_id);
@@ -0,0 +1,35 @@
+-- Migration: Card rewards programs
+-- Date: 2025-10-26
+-- Description: Per-card earning rules (base rate, category multipliers with
+-- caps, rotating quarterly bonus). Cards without a row use the local catalog
+-- match or a flat 1% default; estimates are computed at read time.
+
+create table if not exists public.card_reward_programs (
+  credit_card_id text primary key references public.credit_cards(id) on delete cascade,
+  -- Catalog entry the program was seeded from, if any
+  catalog_id text,
+  currency text not null default 'cashback' check (currency in ('cashback', 'points', 'miles')),
+  point_value_cents numeric(6,3) not null default 1,
+  base_rate numeric(6,2) not null default 1,
+  -- [{ category, rate, capAmount, capPeriod }]
+  multipliers jsonb not null default '[]'::jsonb,
+  rotating_rate numeric(6,2),
+  rotating_cap_amount numeric(12,2),
+  -- [{ quarter: 'YYYY-Qn', categories: [...] }]
+  rotating_quarters jsonb not null default '[]'::jsonb,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.card_reward_programs enable row level security;
+
+-- RLS: Users can read programs for their own cards (writes go through the service role)
+drop policy if exists "select own card reward programs" on public.card_reward_programs;
+create policy "select own card reward programs" on public.card_reward_programs
+  for select using (
+    exists (
+      select 1 from public.credit_cards
+      join public.plaid_items on plaid_items.id = credit_cards."plaidItemId"
+      where credit_cards.id = card_reward_programs.credit_card_id
+      and plaid_items."userId" = auth.uid()
+    )
+  );
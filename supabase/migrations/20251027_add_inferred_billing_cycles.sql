@@ -0,0 +1,18 @@
+-- Migration: Inferred billing cycles
+-- Date: 2025-10-27
+-- Description: Records the statement/due day inferred from stored transactions
+-- for cards without a Plaid statement date or manual cycle settings, so any
+-- issuer gets cycles without bespoke detection code
+
+alter table public.credit_cards
+add column if not exists inferred_statement_day integer default null
+  check (inferred_statement_day between 1 and 31),
+add column if not exists inferred_due_day integer default null
+  check (inferred_due_day between 1 and 31),
+add column if not exists inferred_cycle_confidence numeric(3, 2) default null,
+add column if not exists inferred_cycle_method text default null
+  check (inferred_cycle_method in ('payment_pattern', 'rewards_pattern', 'volume_pattern', 'gap_pattern', 'balance_inference')),
+add column if not exists inferred_cycle_at timestamptz default null;
+
+comment on column public.credit_cards.inferred_statement_day is 'Statement closing day inferred from transactions; only used when lastStatementIssueDate and manual dates are missing';
+comment on column public.credit_cards.inferred_cycle_confidence is 'Confidence (0-1) of the inferred cycle; below 0.55 it is recorded but not used for cycles';
@@ -0,0 +1,15 @@
+-- Migration: Manual cards
+-- Date: 2025-10-28
+-- Description: Cards for issuers Plaid doesn't support, or users who don't
+-- link, hang off one per-user "manual" plaid_items row so ownership joins,
+-- cycles and analytics treat them like linked cards. Manual items have no
+-- usable access token and are skipped by every Plaid sync path.
+
+alter table public.plaid_items
+add column if not exists is_manual boolean not null default false;
+
+create unique index if not exists idx_plaid_items_one_manual_per_user
+  on public.plaid_items("userId")
+  where is_manual;
+
+comment on column public.plaid_items.is_manual is 'Holder item for manually created cards; never synced with Plaid';
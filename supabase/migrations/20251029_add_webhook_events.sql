@@ -0,0 +1,45 @@
+-- Migration: Webhook event journal
+-- Date: 2025-10-29
+-- Description: Every Plaid webhook delivery is written here before it is
+-- processed. The unique event_key makes deduplication hold across serverless
+-- instances, failed events are retried by the webhook-retries cron with
+-- backoff, and admins can list and replay events. Unverified deliveries are
+-- kept as 'rejected' with a truncated body and purged by the same cron after
+-- a week. Rows are only touched by the service role.
+
+create table if not exists public.webhook_events (
+  id uuid primary key default gen_random_uuid(),
+  -- sha256 of the raw body plus the delivery window; see utils/webhookEvents.ts
+  event_key text not null unique,
+  source text not null default 'plaid',
+  webhook_type text,
+  webhook_code text,
+  -- Plaid item_id as sent; not a foreign key so orphaned items are still journaled
+  item_id text,
+  raw_body text not null,
+  verified boolean not null default false,
+  status text not null default 'received'
+    check (status in ('received', 'processing', 'processed', 'failed', 'rejected')),
+  attempts integer not null default 0,
+  last_error text,
+  next_attempt_at timestamptz,
+  received_at timestamptz not null default now(),
+  processed_at timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_webhook_events_retry
+  on public.webhook_events(status, next_attempt_at)
+  where status in ('failed', 'processing');
+
+create index if not exists idx_webhook_events_item
+  on public.webhook_events(item_id, received_at desc);
+
+create index if not exists idx_webhook_events_received
+  on public.webhook_events(received_at desc);
+
+create index if not exists idx_webhook_events_rejected
+  on public.webhook_events(received_at)
+  where status = 'rejected';
+
+alter table public.webhook_events enable row level security;
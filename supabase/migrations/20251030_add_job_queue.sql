@@ -0,0 +1,104 @@
+-- Migration: Background job queue
+-- Date: 2025-10-30
+-- Description: Postgres-backed queue for work that used to run inside user
+-- requests (item syncs, statement refreshes, cycle regeneration). Workers
+-- lease jobs with lease_jobs(), which uses FOR UPDATE SKIP LOCKED so parallel
+-- workers never take the same job; a job whose lease expires is leased again.
+-- Failed jobs are retried with backoff and end up 'dead' (the dead-letter
+-- state) after max_attempts. Rows are only touched by the service role.
+
+create table if not exists public.jobs (
+  id uuid primary key default gen_random_uuid(),
+  type text not null check (type in ('item_sync', 'statement_refresh', 'cycle_regeneration')),
+  user_id uuid references public.users(id) on delete cascade,
+  payload jsonb not null default '{}'::jsonb,
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'succeeded', 'failed', 'dead')),
+  priority integer not null default 0,
+  attempts integer not null default 0,
+  max_attempts integer not null default 5 check (max_attempts > 0),
+  run_at timestamptz not null default now(),
+  locked_by text,
+  locked_until timestamptz,
+  last_error text,
+  result jsonb,
+  -- Identical work already queued or running is not enqueued twice
+  dedupe_key text,
+  created_at timestamptz not null default now(),
+  started_at timestamptz,
+  finished_at timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_jobs_active_dedupe
+  on public.jobs(dedupe_key)
+  where dedupe_key is not null and status in ('queued', 'running');
+
+create index if not exists idx_jobs_ready
+  on public.jobs(priority desc, run_at)
+  where status = 'queued';
+
+create index if not exists idx_jobs_leases
+  on public.jobs(locked_until)
+  where status = 'running';
+
+create index if not exists idx_jobs_user
+  on public.jobs(user_id, created_at desc);
+
+alter table public.jobs enable row level security;
+
+-- Lease up to p_limit ready jobs for one worker: queued jobs that are due,
+-- plus running jobs whose lease has expired (their worker died). Each lease
+-- counts as an attempt. An expired job with no attempts left is dead-lettered
+-- instead of being leased again.
+create or replace function public.lease_jobs(
+  p_worker text,
+  p_limit integer default 1,
+  p_lease_seconds integer default 300,
+  p_types text[] default null
+)
+returns setof public.jobs
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update jobs j
+  set status = 'dead',
+      locked_by = null,
+      locked_until = null,
+      last_error = 'Lease expired on the last attempt',
+      finished_at = now(),
+      updated_at = now()
+  where j.status = 'running'
+    and j.locked_until < now()
+    and j.attempts >= j.max_attempts
+    and (p_types is null or j.type = any(p_types));
+
+  return query
+  with ready as (
+    select j.id
+    from jobs j
+    where ((j.status = 'queued' and j.run_at <= now())
+        or (j.status = 'running' and j.locked_until < now() and j.attempts < j.max_attempts))
+      and (p_types is null or j.type = any(p_types))
+    order by j.priority desc, j.run_at
+    limit p_limit
+    for update skip locked
+  )
+  update jobs j
+  set status = 'running',
+      locked_by = p_worker,
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      attempts = j.attempts + 1,
+      started_at = coalesce(j.started_at, now()),
+      updated_at = now()
+  from ready
+  where j.id = ready.id
+  returning j.*;
+end;
+$$;
+
+comment on function public.lease_jobs(text, integer, integer, text[]) is 'Dead-letters expired jobs with no attempts left, then leases ready jobs (queued and due, or running with an expired lease) to a worker using SKIP LOCKED; increments attempts.';
+
+revoke execute on function public.lease_jobs(text, integer, integer, text[]) from public, anon, authenticated;
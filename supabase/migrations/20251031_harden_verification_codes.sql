@@ -0,0 +1,12 @@
+-- Migration: Hashed, attempt-limited email verification codes
+-- Date: 2025-10-31
+-- Description: Email sign-in codes are now stored as an HMAC of the code
+-- rather than the code itself, and each code allows a limited number of
+-- guesses before it is burned. `attempts` counts the guesses made so far; see
+-- services/verificationCodes.ts. Outstanding plaintext codes are removed, so
+-- anyone mid sign-in simply requests a new code.
+
+alter table public.verification_tokens
+  add column if not exists attempts integer not null default 0;
+
+delete from public.verification_tokens;
@@ -0,0 +1,55 @@
+-- Migration: Admin roles and audit log
+-- Date: 2025-11-01
+-- Description: Admin access moves from a hardcoded email list to roles
+-- stored per user (admin, support, support_readonly), assigned with
+-- `npm run admin:role`. Every request to an admin endpoint, allowed or
+-- denied, is written to admin_audit_log with the actor, the endpoint, the
+-- permission it needed and the user it touched. Both tables are only touched
+-- by the service role.
+
+create table if not exists public.user_roles (
+  user_id uuid primary key references public.users(id) on delete cascade,
+  role text not null check (role in ('admin', 'support', 'support_readonly')),
+  -- Email of whoever granted the role, or 'cli'/'migration'
+  granted_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.admin_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  actor_user_id uuid,
+  actor_email text,
+  -- Role at the time of the request; null when the actor had none
+  actor_role text,
+  -- Endpoint name passed to requireAdminAccess, or a script action
+  action text not null,
+  method text,
+  path text,
+  permission text,
+  outcome text not null check (outcome in ('allowed', 'denied')),
+  target_user_id text,
+  target_email text,
+  details jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_admin_audit_log_created
+  on public.admin_audit_log(created_at desc);
+
+create index if not exists idx_admin_audit_log_actor
+  on public.admin_audit_log(actor_user_id, created_at desc);
+
+create index if not exists idx_admin_audit_log_target
+  on public.admin_audit_log(target_user_id, created_at desc)
+  where target_user_id is not null;
+
+alter table public.user_roles enable row level security;
+alter table public.admin_audit_log enable row level security;
+
+-- Keep the existing administrator, previously hardcoded in adminSecurity.ts
+insert into public.user_roles (user_id, role, granted_by)
+select id, 'admin', 'migration'
+from public.users
+where email = 'mylesethan93@gmail.com'
+on conflict (user_id) do nothing;
@@ -0,0 +1,24 @@
+-- Migration: Transaction category facets
+-- Date: 2025-11-02
+-- Description: Distinct categories for the transactions explorer filter menu
+-- (GET /api/user/transactions?facets=1), computed in SQL so the route does
+-- not read every transaction row past the PostgREST row cap
+
+create or replace function public.transaction_categories(p_plaid_item_ids text[])
+returns table (category text)
+language sql
+stable
+set search_path = public
+as $$
+  select distinct t."category"
+  from transactions t
+  where t."plaidItemId" = any(p_plaid_item_ids)
+    and t."creditCardId" is not null
+    and t."category" is not null
+  order by t."category";
+$$;
+
+comment on function public.transaction_categories(text[]) is 'Distinct non-null categories of card transactions on the given plaid items.';
+
+-- Called by the service role (supabaseAdmin) with item ids it has already scoped to the user
+revoke execute on function public.transaction_categories(text[]) from public, anon, authenticated;